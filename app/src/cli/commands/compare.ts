@@ -0,0 +1,41 @@
+import * as Path from 'path'
+import * as QueryString from 'querystring'
+
+import { CommandError } from '../util'
+import { ICommandModule, mriArgv } from '../load-commands'
+import { openDesktop } from '../open-desktop'
+
+interface ICompareArgs extends mriArgv {
+  readonly path?: string
+}
+
+export const command: ICommandModule = {
+  command: 'compare <branch>',
+  description: 'Compare the current branch with another branch',
+  args: [
+    {
+      name: 'branch',
+      required: true,
+      description: 'The name of the branch to compare with',
+      type: 'string',
+    },
+  ],
+  options: {
+    path: {
+      type: 'string',
+      aliases: ['p'],
+      description:
+        'The path to the repository, defaults to the current directory',
+    },
+  },
+  handler({ _: [branch], path }: ICompareArgs) {
+    if (!branch) {
+      throw new CommandError('Branch must be specified')
+    }
+    const repositoryPath = Path.resolve(process.cwd(), path ?? '.')
+    const url = `compare/${encodeURIComponent(
+      repositoryPath
+    )}?${QueryString.stringify({ branch })}`
+    openDesktop(url)
+  },
+}
@@ -0,0 +1,17 @@
+import { ICommandModule } from '../load-commands'
+import { openDesktop } from '../open-desktop'
+
+/**
+ * The repositories are stored in GitHub Desktop's own database which the
+ * command line interface can't read, so this command only opens the list in
+ * the app rather than printing it.
+ */
+export const command: ICommandModule = {
+  command: 'list',
+  description:
+    'Open the list of repositories tracked by GitHub Desktop (the list is shown in the app, not printed)',
+  handler() {
+    console.log('Opening the list of repositories in GitHub Desktop')
+    openDesktop('list')
+  },
+}
@@ -0,0 +1,67 @@
+import * as QueryString from 'querystring'
+
+import { CommandError, execGit } from '../util'
+import { openDesktop } from '../open-desktop'
+import { ICommandModule, mriArgv } from '../load-commands'
+import { parseRemote } from '../../lib/remote-parsing'
+
+interface IPullRequestArgs extends mriArgv {
+  readonly repository?: string
+}
+
+/**
+ * Get the URL of the `origin` remote of the repository in the current
+ * directory.
+ */
+async function getOriginUrl() {
+  try {
+    const url = await execGit(['remote', 'get-url', 'origin'], process.cwd())
+    return url.trim()
+  } catch (e) {
+    throw new CommandError(
+      'Could not find the origin remote of the repository in the current directory, use --repository to specify the repository'
+    )
+  }
+}
+
+export const command: ICommandModule = {
+  command: 'pr <number>',
+  description: 'Check out the branch of a pull request',
+  args: [
+    {
+      name: 'number',
+      required: true,
+      description: 'The number of the pull request',
+      type: 'string',
+    },
+  ],
+  options: {
+    repository: {
+      type: 'string',
+      aliases: ['r'],
+      description:
+        'The URL or the GitHub owner/name alias of the repository, defaults to the origin remote of the repository in the current directory',
+    },
+  },
+  async handler({ _: [pr], repository }: IPullRequestArgs) {
+    if (!pr || !/^\d+$/.test(pr)) {
+      throw new CommandError('Pull request number must be specified')
+    }
+
+    const remoteUrl = repository ?? (await getOriginUrl())
+    const remote = parseRemote(remoteUrl)
+
+    if (remote === null && repository === undefined) {
+      throw new CommandError(`Unsupported origin remote: ${remoteUrl}`)
+    }
+
+    // anything that isn't a remote URL is assumed to be a GitHub owner/name
+    const repositoryUrl =
+      remote !== null
+        ? `https://${remote.hostname}/${remote.owner}/${remote.name}`
+        : `https://github.com/${remoteUrl}`
+
+    const url = `openRepo/${repositoryUrl}?${QueryString.stringify({ pr })}`
+    openDesktop(url)
+  },
+}
@@ -0,0 +1,47 @@
+import chalk from 'chalk'
+import * as Path from 'path'
+
+import { ICommandModule, mriArgv } from '../load-commands'
+import { openDesktop } from '../open-desktop'
+import { CommandError, execGit, printTable } from '../util'
+
+export const command: ICommandModule = {
+  command: 'status [path]',
+  description:
+    'Show the current branch and changes of a repository, and open it in GitHub Desktop',
+  args: [
+    {
+      name: 'path',
+      description:
+        'The path to the repository, defaults to the current directory',
+      type: 'string',
+      required: false,
+    },
+  ],
+  async handler({ _: [pathArg] }: mriArgv) {
+    const repositoryPath = Path.resolve(process.cwd(), pathArg ?? '.')
+
+    let output: string
+    try {
+      output = await execGit(
+        ['status', '--porcelain=v1', '--branch'],
+        repositoryPath
+      )
+    } catch (e) {
+      throw new CommandError(`${repositoryPath} is not a git repository`)
+    }
+
+    // The first line is the branch header, e.g. `## main...origin/main`
+    const [header, ...changes] = output.split('\n').filter(l => l.length > 0)
+
+    console.log(`On branch ${chalk.bold(header.replace(/^## /, ''))}`)
+
+    if (changes.length === 0) {
+      console.log('No local changes')
+    } else {
+      printTable(changes.map(c => [c.substring(0, 2), c.substring(3)]))
+    }
+
+    openDesktop(`status/${encodeURIComponent(repositoryPath)}`)
+  },
+}
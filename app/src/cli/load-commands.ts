@@ -4,7 +4,10 @@ import { TypeName } from './util'
 
 type StringArray = ReadonlyArray<string>
 
-export type CommandHandler = (args: mriArgv, argv: StringArray) => void
+export type CommandHandler = (
+  args: mriArgv,
+  argv: StringArray
+) => void | Promise<void>
 export { mriArgv }
 
 export interface IOption {
@@ -103,5 +103,12 @@ function runCommand(name: string) {
       }
     }
   }
-  command.handler(parsedArgs, args)
+  const result = command.handler(parsedArgs, args)
+
+  // Errors of commands which run asynchronously can't be caught above, so
+  // report them once the command is done
+  result?.catch(err => {
+    logError(err)
+    process.exitCode = 1
+  })
 }
@@ -1,3 +1,5 @@
+import * as Path from 'path'
+import { GitProcess } from 'dugite'
 import stripAnsi from 'strip-ansi'
 
 export type TypeName =
@@ -46,3 +48,26 @@ function calculateColumnWidths(table: string[][]) {
   }
   return columnWidths
 }
+
+/**
+ * Run the Git bundled with Desktop, the same one the app uses, with the given
+ * arguments in the given directory, resolving with its output.
+ */
+export async function execGit(
+  args: ReadonlyArray<string>,
+  cwd: string
+): Promise<string> {
+  // Tell dugite where to find the git environment, which sits next to the
+  // command line interface just like it does next to the app, and make it
+  // infer GIT_EXEC_PATH from that rather than trusting the environment.
+  process.env['LOCAL_GIT_DIRECTORY'] = Path.resolve(__dirname, 'git')
+  delete process.env.GIT_EXEC_PATH
+
+  const result = await GitProcess.exec([...args], cwd)
+
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.trim())
+  }
+
+  return result.stdout
+}
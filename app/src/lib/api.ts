@@ -282,6 +282,13 @@ export interface IAPIIssue {
   readonly title: string
   readonly state: 'open' | 'closed'
   readonly updated_at: string
+  readonly body: string | null
+  readonly user: IAPIIdentity
+  readonly labels: ReadonlyArray<IAPILabel>
+  readonly assignees: ReadonlyArray<IAPIIdentity>
+
+  /** Only present when the issue is a pull request */
+  readonly pull_request?: unknown
 }
 
 /** The combined state of a ref. */
@@ -491,6 +498,68 @@ export interface IAPIPullRequest {
   readonly body: string
   readonly state: 'open' | 'closed'
   readonly draft?: boolean
+  readonly labels?: ReadonlyArray<IAPILabel>
+
+  /** The users whose review has been requested and who haven't reviewed yet */
+  readonly requested_reviewers?: ReadonlyArray<IAPIIdentity>
+
+  /**
+   * Whether the pull request can be merged without conflicts, or null while
+   * GitHub is still working that out. Only included when fetching a single
+   * pull request.
+   */
+  readonly mergeable?: boolean | null
+
+  /**
+   * Why the pull request can or can't be merged, e.g. `clean`, `dirty`,
+   * `behind` or `blocked`. Only included when fetching a single pull request.
+   */
+  readonly mergeable_state?: string
+}
+
+/** The ways in which GitHub can merge a pull request */
+export type APIPullRequestMergeMethod = 'merge' | 'squash' | 'rebase'
+
+/** The options for merging a pull request with the GitHub API. */
+export interface IAPIPullRequestMergeOptions {
+  readonly merge_method: APIPullRequestMergeMethod
+
+  /** The title of the merge or squash commit, or undefined for the default */
+  readonly commit_title?: string
+
+  /** The description of the merge or squash commit, or undefined for the default */
+  readonly commit_message?: string
+
+  /**
+   * The commit the head of the pull request must be at for it to be merged,
+   * so that no changes pushed in the meantime get merged unseen
+   */
+  readonly sha: string
+}
+
+/** Information about a label as returned by the GitHub API. */
+export interface IAPILabel {
+  readonly name: string
+
+  /** The color of the label as a hex string without the leading `#` */
+  readonly color: string
+}
+
+/** The properties of a pull request to create with the GitHub API. */
+export interface IAPINewPullRequest {
+  readonly title: string
+  readonly body: string
+
+  /**
+   * The name of the branch with the changes, prefixed with the owner of the
+   * repository and a colon when the branch is in a fork (`owner:branch`)
+   */
+  readonly head: string
+
+  /** The name of the branch the changes should be pulled into */
+  readonly base: string
+
+  readonly draft: boolean
 }
 
 /** Information about a pull request review as returned by the GitHub API. */
@@ -499,7 +568,9 @@ export interface IAPIPullRequestReview {
   readonly user: IAPIIdentity
   readonly body: string
   readonly html_url: string
-  readonly submitted_at: string
+
+  /** When the review was submitted, missing on the user's own pending review */
+  readonly submitted_at?: string
   readonly state:
     | 'APPROVED'
     | 'DISMISSED'
@@ -508,6 +579,32 @@ export interface IAPIPullRequestReview {
     | 'CHANGES_REQUESTED'
 }
 
+/**
+ * Information about a review comment on a line of a pull request as returned
+ * by the GitHub API.
+ */
+export interface IAPIPullRequestReviewComment {
+  readonly id: number
+  readonly path: string
+
+  /**
+   * The line of the file at `commit_id` the comment is on, or null if the
+   * comment is outdated, i.e. the line has changed since it was commented on
+   */
+  readonly line: number | null
+
+  /** Whether the comment is on the old (LEFT) or new (RIGHT) version */
+  readonly side?: 'LEFT' | 'RIGHT'
+  readonly commit_id: string
+  readonly body: string
+  readonly user: IAPIIdentity
+  readonly created_at: string
+  readonly html_url: string
+
+  /** The id of the first comment in the thread, for replies */
+  readonly in_reply_to_id?: number
+}
+
 /** The metadata about a GitHub server. */
 export interface IServerMetadata {
   /**
@@ -922,7 +1019,7 @@ export class API {
       const issues = await this.fetchAll<IAPIIssue>(url)
 
       // PRs are issues! But we only want Really Seriously Issues.
-      return issues.filter((i: any) => !i.pullRequest)
+      return issues.filter(i => i.pull_request === undefined)
     } catch (e) {
       log.warn(`fetchIssues: failed for repository ${owner}/${name}`, e)
       throw e
@@ -1025,6 +1122,161 @@ export class API {
     }
   }
 
+  /** Create a new pull request in the given repository */
+  public async createPullRequest(
+    owner: string,
+    name: string,
+    pullRequest: IAPINewPullRequest
+  ): Promise<IAPIPullRequest> {
+    try {
+      const path = `/repos/${owner}/${name}/pulls`
+      const response = await this.request('POST', path, { body: pullRequest })
+      return await parsedResponse<IAPIPullRequest>(response)
+    } catch (e) {
+      log.error(`createPullRequest: failed for ${owner}/${name}`, e)
+      throw e
+    }
+  }
+
+  /** Merge a pull request, throwing if GitHub refuses to merge it */
+  public async mergePullRequest(
+    owner: string,
+    name: string,
+    prNumber: number,
+    options: IAPIPullRequestMergeOptions
+  ): Promise<void> {
+    try {
+      const path = `/repos/${owner}/${name}/pulls/${prNumber}/merge`
+      const response = await this.request('PUT', path, { body: options })
+      await parsedResponse<unknown>(response)
+    } catch (e) {
+      log.error(`mergePullRequest: failed for ${owner}/${name}#${prNumber}`, e)
+      throw e
+    }
+  }
+
+  /** Delete a branch in the given repository */
+  public async deleteBranch(
+    owner: string,
+    name: string,
+    branch: string
+  ): Promise<void> {
+    try {
+      const path = `/repos/${owner}/${name}/git/refs/heads/${encodeURIComponent(
+        branch
+      )}`
+      const response = await this.request('DELETE', path)
+
+      // There's no body to parse when the branch has been deleted, so only
+      // parse the response to get the error when it hasn't
+      if (!response.ok) {
+        await parsedResponse<unknown>(response)
+      }
+    } catch (e) {
+      log.error(`deleteBranch: failed for ${branch} in ${owner}/${name}`, e)
+      throw e
+    }
+  }
+
+  /** Request reviews of a pull request from the given users */
+  public async requestPullRequestReviewers(
+    owner: string,
+    name: string,
+    prNumber: number,
+    reviewers: ReadonlyArray<string>
+  ): Promise<void> {
+    try {
+      const path = `/repos/${owner}/${name}/pulls/${prNumber}/requested_reviewers`
+      const response = await this.request('POST', path, { body: { reviewers } })
+      await parsedResponse<unknown>(response)
+    } catch (e) {
+      log.error(
+        `requestPullRequestReviewers: failed for ${owner}/${name}#${prNumber}`,
+        e
+      )
+      throw e
+    }
+  }
+
+  /**
+   * Add the given users as assignees of an issue. Pull requests are issues
+   * too, so this works for pull requests as well.
+   */
+  public async addIssueAssignees(
+    owner: string,
+    name: string,
+    issueNumber: number,
+    assignees: ReadonlyArray<string>
+  ): Promise<void> {
+    try {
+      const path = `/repos/${owner}/${name}/issues/${issueNumber}/assignees`
+      const response = await this.request('POST', path, { body: { assignees } })
+      await parsedResponse<unknown>(response)
+    } catch (e) {
+      log.error(
+        `addIssueAssignees: failed for ${owner}/${name}#${issueNumber}`,
+        e
+      )
+      throw e
+    }
+  }
+
+  /**
+   * Add the given labels to an issue. Pull requests are issues too, so this
+   * works for pull requests as well.
+   */
+  public async addIssueLabels(
+    owner: string,
+    name: string,
+    issueNumber: number,
+    labels: ReadonlyArray<string>
+  ): Promise<void> {
+    try {
+      const path = `/repos/${owner}/${name}/issues/${issueNumber}/labels`
+      const response = await this.request('POST', path, { body: { labels } })
+      await parsedResponse<unknown>(response)
+    } catch (e) {
+      log.error(`addIssueLabels: failed for ${owner}/${name}#${issueNumber}`, e)
+      throw e
+    }
+  }
+
+  /** Fetch all the review comments on the lines of a pull request */
+  public async fetchPullRequestReviewComments(
+    owner: string,
+    name: string,
+    prNumber: number
+  ) {
+    try {
+      const path = `repos/${owner}/${name}/pulls/${prNumber}/comments`
+      return await this.fetchAll<IAPIPullRequestReviewComment>(path)
+    } catch (e) {
+      log.warn(
+        `failed fetching review comments for ${owner}/${name}/pulls/${prNumber}`,
+        e
+      )
+      throw e
+    }
+  }
+
+  /** Fetch all the reviews of a pull request in the given repository */
+  public async fetchPullRequestReviews(
+    owner: string,
+    name: string,
+    prNumber: number
+  ) {
+    try {
+      const path = `repos/${owner}/${name}/pulls/${prNumber}/reviews`
+      return await this.fetchAll<IAPIPullRequestReview>(path)
+    } catch (e) {
+      log.warn(
+        `failed fetching reviews for ${owner}/${name}/pulls/${prNumber}`,
+        e
+      )
+      throw e
+    }
+  }
+
   /**
    * Fetch a single pull request review in the given repository
    */
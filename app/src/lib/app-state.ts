@@ -1,10 +1,16 @@
 import { Account } from '../models/account'
 import { CommitIdentity } from '../models/commit-identity'
 import { IDiff, ImageDiffType } from '../models/diff'
-import { Repository, ILocalRepositoryState } from '../models/repository'
+import {
+  Repository,
+  ILocalRepositoryState,
+  LinkedWorkTree,
+} from '../models/repository'
+import { IRepositoryGroup } from '../models/repository-group'
+import { IBulkRepositoryOperation } from '../models/bulk-repository-operation'
 import { Branch, IAheadBehind } from '../models/branch'
 import { Tip } from '../models/tip'
-import { Commit } from '../models/commit'
+import { Commit, CommitSignatureStatus } from '../models/commit'
 import { CommittedFileChange, WorkingDirectoryStatus } from '../models/status'
 import { CloningRepository } from '../models/cloning-repository'
 import { IMenu } from '../models/app-menu'
@@ -42,6 +48,7 @@ import { Banner } from '../models/banner'
 import { IStashEntry } from '../models/stash-entry'
 import { TutorialStep } from '../models/tutorial-step'
 import { UncommittedChangesStrategy } from '../models/uncommitted-changes-strategy'
+import { CommitGraphMode } from '../models/commit-graph'
 import { DragElement } from '../models/drag-drop'
 import { ILastThankYou } from '../models/last-thank-you'
 import {
@@ -50,6 +57,9 @@ import {
 } from '../models/multi-commit-operation'
 import { IChangesetData } from './git'
 import { Popup } from '../models/popup'
+import { IOperationJournal } from '../models/operation-journal'
+import { IPullRequestReviewThread } from '../models/pull-request-review-thread'
+import { ILFSLock } from '../models/lfs-lock'
 
 export enum SelectionType {
   Repository,
@@ -88,6 +98,21 @@ export interface IAppState {
    */
   readonly localRepositoryStateLookup: Map<number, ILocalRepositoryState>
 
+  /**
+   * The linked work trees of each repository whose work trees have been
+   * loaded, keyed by the repository id
+   */
+  readonly workTreesLookup: ReadonlyMap<number, ReadonlyArray<LinkedWorkTree>>
+
+  /** The repository groups created by the user */
+  readonly repositoryGroups: ReadonlyArray<IRepositoryGroup>
+
+  /**
+   * The progress of the operation running on many repositories at once, or
+   * null if there's none.
+   */
+  readonly bulkRepositoryOperation: IBulkRepositoryOperation | null
+
   readonly selectedState: PossibleSelections | null
 
   /**
@@ -212,6 +237,9 @@ export interface IAppState {
   /** How the app should handle uncommitted changes when switching branches */
   readonly uncommittedChangesStrategy: UncommittedChangesStrategy
 
+  /** Whether and for which branches the commit graph is shown in history */
+  readonly commitGraphMode: CommitGraphMode
+
   /** The external editor to use when opening repositories */
   readonly selectedExternalEditor: string | null
 
@@ -299,6 +327,13 @@ export interface IAppState {
    */
   readonly commitSpellcheckEnabled: boolean
 
+  /**
+   * Whether or not staging changes in the Changes view writes them to the Git
+   * index immediately. When false the index is rebuilt from the selection in
+   * the app whenever a commit is created.
+   */
+  readonly useGitIndex: boolean
+
   /**
    * Record of what logged in users have been checked to see if thank you is in
    * order for external contributions in latest release.
@@ -461,6 +496,12 @@ export interface IRepositoryState {
   /** The commits loaded, keyed by their full SHA. */
   readonly commitLookup: Map<string, Commit>
 
+  /**
+   * The status of the signatures of the commits which have been shown, keyed
+   * by their full SHA. Commits which haven't been shown yet are missing.
+   */
+  readonly commitSignatureStatuses: ReadonlyMap<string, CommitSignatureStatus>
+
   /**
    * The ordered local commit SHAs. The commits themselves can be looked up in
    * `commitLookup.`
@@ -521,6 +562,21 @@ export interface IRepositoryState {
   /** State associated with a multi commit operation such as rebase,
    * cherry-pick, squash, reorder... */
   readonly multiCommitOperationState: IMultiCommitOperationState | null
+
+  /** Destructive operations which can be undone or redone */
+  readonly operationJournal: IOperationJournal
+
+  /**
+   * The files locked with Git LFS in the repository, or null if the
+   * repository doesn't use LFS or its server doesn't support locking
+   */
+  readonly lfsLocks: ReadonlyArray<ILFSLock> | null
+
+  /**
+   * The review comment threads on the lines of the pull request of the
+   * current branch, empty if the branch doesn't have a pull request
+   */
+  readonly pullRequestReviewThreads: ReadonlyArray<IPullRequestReviewThread>
 }
 
 export interface IBranchesState {
@@ -697,6 +753,12 @@ export interface IChangesState {
    */
   readonly stashEntry: IStashEntry | null
 
+  /**
+   * All stash entries in the repository, created both by GitHub Desktop and
+   * outside of it, most recent first.
+   */
+  readonly stashEntries: ReadonlyArray<IStashEntry>
+
   /**
    * The current selection state in the Changes view. Can be either
    * working directory or a stash. In the case of a working directory
@@ -707,6 +769,13 @@ export interface IChangesState {
 
   /** `true` if the GitHub API reports that the branch is protected */
   readonly currentBranchProtected: boolean
+
+  /**
+   * Whether the diff for the selected file shows the changes staged in the
+   * index rather than the unstaged changes in the working directory. Only
+   * applicable when staging through the Git index.
+   */
+  readonly showStagedDiff: boolean
 }
 
 /**
@@ -773,6 +842,9 @@ export interface ICompareState {
   /** The SHAs of commits to render in the compare list */
   readonly commitSHAs: ReadonlyArray<string>
 
+  /** The commit graph mode used when the history in the list was loaded */
+  readonly commitGraphMode: CommitGraphMode
+
   /** The SHAs of commits to highlight in the compare list */
   readonly shasToHighlight: ReadonlyArray<string>
 
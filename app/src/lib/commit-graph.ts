@@ -0,0 +1,162 @@
+import { Commit } from '../models/commit'
+
+/** The number of distinct colors used for the lanes of the commit graph */
+export const CommitGraphColorCount = 8
+
+/**
+ * A line drawn in one half of a row of the commit graph.
+ *
+ * Lines in the top half go from the top edge of the row to its middle, and
+ * lines in the bottom half go from the middle of the row to its bottom edge.
+ */
+export interface ICommitGraphLine {
+  /** The lane the line starts from */
+  readonly from: number
+
+  /** The lane the line ends at */
+  readonly to: number
+
+  /** The color index of the line, see `CommitGraphColorCount` */
+  readonly color: number
+}
+
+/** The part of the commit graph shown alongside a single commit */
+export interface ICommitGraphRow {
+  /** The lane of the commit node */
+  readonly lane: number
+
+  /** The color index of the commit node */
+  readonly color: number
+
+  /**
+   * Lines coming from the previous row, either passing through this row or
+   * ending at the commit node.
+   */
+  readonly topLines: ReadonlyArray<ICommitGraphLine>
+
+  /**
+   * Lines going to the next row, either passing through this row or
+   * starting at the commit node towards its parents.
+   */
+  readonly bottomLines: ReadonlyArray<ICommitGraphLine>
+}
+
+/** The lanes of the commit graph laid out for a list of commits */
+export interface ICommitGraph {
+  /** The graph row for each commit, in the same order as the commits */
+  readonly rows: ReadonlyArray<ICommitGraphRow>
+
+  /** The number of lanes needed to show every row of the graph */
+  readonly laneCount: number
+}
+
+/** A lane of the graph that's waiting for a commit further down the list */
+interface IActiveLane {
+  readonly sha: string
+  readonly color: number
+}
+
+/**
+ * Lay out the commits of a list as a lane-based graph, based on the parents of
+ * each commit.
+ *
+ * Commits are expected to be ordered so that no commit is listed after any of
+ * its parents, as `git log --date-order` does. Parents missing from the list,
+ * like when only a part of the history has been loaded, leave their lanes
+ * running off the end of the graph.
+ */
+export function computeCommitGraph(
+  commits: ReadonlyArray<Pick<Commit, 'sha' | 'parentSHAs'>>
+): ICommitGraph {
+  const rows = new Array<ICommitGraphRow>()
+  const lanes = new Array<IActiveLane | null>()
+  let nextColor = 0
+  let laneCount = 0
+
+  const takeColor = () => {
+    const color = nextColor
+    nextColor = (nextColor + 1) % CommitGraphColorCount
+    return color
+  }
+
+  const allocateLane = (lane: IActiveLane) => {
+    const free = lanes.indexOf(null)
+    if (free === -1) {
+      lanes.push(lane)
+      return lanes.length - 1
+    }
+    lanes[free] = lane
+    return free
+  }
+
+  for (const commit of commits) {
+    const topLines = new Array<ICommitGraphLine>()
+    const bottomLines = new Array<ICommitGraphLine>()
+
+    // A commit without any lane waiting for it is the tip of a branch
+    let lane = lanes.findIndex(l => l !== null && l.sha === commit.sha)
+    const color = lane === -1 ? takeColor() : lanes[lane]!.color
+
+    if (lane === -1) {
+      lane = allocateLane({ sha: commit.sha, color })
+    } else {
+      topLines.push({ from: lane, to: lane, color })
+    }
+
+    for (let i = 0; i < lanes.length; i++) {
+      const current = lanes[i]
+      if (i === lane || current === null) {
+        continue
+      }
+
+      if (current.sha === commit.sha) {
+        // Other children of the commit merge into its lane
+        topLines.push({ from: i, to: lane, color: current.color })
+        lanes[i] = null
+      } else {
+        topLines.push({ from: i, to: i, color: current.color })
+        bottomLines.push({ from: i, to: i, color: current.color })
+      }
+    }
+
+    const [firstParent, ...otherParents] = commit.parentSHAs
+
+    if (firstParent === undefined) {
+      lanes[lane] = null
+    } else {
+      lanes[lane] = { sha: firstParent, color }
+      bottomLines.push({ from: lane, to: lane, color })
+    }
+
+    for (const parent of otherParents) {
+      const existing = lanes.findIndex(l => l !== null && l.sha === parent)
+      if (existing !== -1) {
+        bottomLines.push({
+          from: lane,
+          to: existing,
+          color: lanes[existing]!.color,
+        })
+        continue
+      }
+
+      const parentColor = takeColor()
+      const parentLane = allocateLane({ sha: parent, color: parentColor })
+      bottomLines.push({ from: lane, to: parentLane, color: parentColor })
+    }
+
+    while (lanes.length > 0 && lanes[lanes.length - 1] === null) {
+      lanes.pop()
+    }
+
+    laneCount = Math.max(
+      laneCount,
+      lane + 1,
+      ...topLines.map(l => Math.max(l.from, l.to) + 1),
+      ...bottomLines.map(l => Math.max(l.from, l.to) + 1)
+    )
+
+    rows.push({ lane, color, topLines, bottomLines })
+  }
+
+  return { rows, laneCount }
+}
@@ -0,0 +1,271 @@
+import { assertNever } from './fatal-error'
+
+/** The markers git writes around the sides of a conflict */
+const OursMarker = '<<<<<<<'
+const BaseMarker = '|||||||'
+const SeparatorMarker = '======='
+const TheirsMarker = '>>>>>>>'
+
+/** A conflict between two (or, with diff3, three) versions of some lines */
+export interface IConflictHunk {
+  /** The lines from our side of the conflict, including line endings */
+  readonly ours: string
+
+  /**
+   * The lines from the common ancestor, only present when the conflict was
+   * written using the `diff3` or `zdiff3` conflict style
+   */
+  readonly base: string | null
+
+  /** The lines from their side of the conflict, including line endings */
+  readonly theirs: string
+
+  /** The label git wrote after the ours marker, e.g. `HEAD` */
+  readonly oursLabel: string
+
+  /** The label git wrote after the base marker, if any */
+  readonly baseLabel: string | null
+
+  /** The label git wrote after the theirs marker, e.g. the branch name */
+  readonly theirsLabel: string
+}
+
+export enum ConflictFileSegmentKind {
+  /** Lines which merged cleanly */
+  Text = 'Text',
+  /** Lines which are in conflict */
+  Conflict = 'Conflict',
+}
+
+export type ConflictFileSegment =
+  | { readonly kind: ConflictFileSegmentKind.Text; readonly text: string }
+  | {
+      readonly kind: ConflictFileSegmentKind.Conflict
+      readonly hunk: IConflictHunk
+    }
+
+export enum ConflictHunkResolutionKind {
+  /** Keep the lines from our side of the conflict */
+  Ours = 'Ours',
+  /** Keep the lines from their side of the conflict */
+  Theirs = 'Theirs',
+  /** Keep the lines from our side followed by the lines from their side */
+  Both = 'Both',
+  /** Replace the conflict with text edited by the user */
+  Manual = 'Manual',
+}
+
+export type ConflictHunkResolution =
+  | {
+      readonly kind:
+        | ConflictHunkResolutionKind.Ours
+        | ConflictHunkResolutionKind.Theirs
+        | ConflictHunkResolutionKind.Both
+    }
+  | { readonly kind: ConflictHunkResolutionKind.Manual; readonly text: string }
+
+/**
+ * Get the label following a conflict marker if the line is one, or null if
+ * it isn't.
+ */
+function getMarkerLabel(line: string, marker: string): string | null {
+  const content = line.replace(/\r?\n$/, '')
+
+  if (!content.startsWith(marker)) {
+    return null
+  }
+
+  const rest = content.substring(marker.length)
+
+  if (rest.length === 0) {
+    return ''
+  }
+
+  // A marker which continues with something other than a space is a line
+  // which just happens to start with the same characters, e.g. a longer
+  // markdown heading underline.
+  return rest.startsWith(' ') ? rest.substring(1) : null
+}
+
+/**
+ * Parse the contents of a file with conflict markers into the lines which
+ * merged cleanly and the conflicts between them.
+ *
+ * Conflicts written with the `diff3` style, which include the lines from the
+ * common ancestor, are supported. Conflict markers which aren't closed are
+ * treated as regular text. Only markers of the default size are recognized.
+ */
+export function parseConflictMarkers(
+  contents: string
+): ReadonlyArray<ConflictFileSegment> {
+  const segments = new Array<ConflictFileSegment>()
+  const lines = contents.split(/(?<=\n)/)
+
+  let text = ''
+
+  // The state of the conflict being parsed, null when outside of a conflict
+  let conflict: {
+    raw: string
+    section: 'ours' | 'base' | 'theirs'
+    ours: string
+    base: string | null
+    theirs: string
+    oursLabel: string
+    baseLabel: string | null
+  } | null = null
+
+  const flushText = () => {
+    if (text.length > 0) {
+      segments.push({ kind: ConflictFileSegmentKind.Text, text })
+      text = ''
+    }
+  }
+
+  for (const line of lines) {
+    if (conflict === null) {
+      const oursLabel = getMarkerLabel(line, OursMarker)
+
+      if (oursLabel === null) {
+        text += line
+      } else {
+        conflict = {
+          raw: line,
+          section: 'ours',
+          ours: '',
+          base: null,
+          theirs: '',
+          oursLabel,
+          baseLabel: null,
+        }
+      }
+      continue
+    }
+
+    conflict.raw += line
+
+    if (conflict.section === 'ours') {
+      const baseLabel = getMarkerLabel(line, BaseMarker)
+      if (baseLabel !== null) {
+        conflict.section = 'base'
+        conflict.base = ''
+        conflict.baseLabel = baseLabel
+      } else if (getMarkerLabel(line, SeparatorMarker) === '') {
+        conflict.section = 'theirs'
+      } else {
+        conflict.ours += line
+      }
+    } else if (conflict.section === 'base') {
+      if (getMarkerLabel(line, SeparatorMarker) === '') {
+        conflict.section = 'theirs'
+      } else {
+        conflict.base += line
+      }
+    } else {
+      const theirsLabel = getMarkerLabel(line, TheirsMarker)
+      if (theirsLabel !== null) {
+        const { ours, base, theirs, oursLabel, baseLabel } = conflict
+        flushText()
+        segments.push({
+          kind: ConflictFileSegmentKind.Conflict,
+          hunk: { ours, base, theirs, oursLabel, baseLabel, theirsLabel },
+        })
+        conflict = null
+      } else {
+        conflict.theirs += line
+      }
+    }
+  }
+
+  if (conflict !== null) {
+    text += conflict.raw
+  }
+
+  flushText()
+
+  return segments
+}
+
+/** Get the conflict hunks of a parsed file, in order */
+export function getConflictHunks(
+  segments: ReadonlyArray<ConflictFileSegment>
+): ReadonlyArray<IConflictHunk> {
+  const hunks = new Array<IConflictHunk>()
+
+  for (const segment of segments) {
+    if (segment.kind === ConflictFileSegmentKind.Conflict) {
+      hunks.push(segment.hunk)
+    }
+  }
+
+  return hunks
+}
+
+/**
+ * Get the text to replace a conflict hunk with for the given resolution.
+ *
+ * Text edited by the user is converted to the line endings used in the
+ * conflict and, unless empty, ends with a line ending so that it doesn't run
+ * into the lines following the conflict.
+ */
+export function resolveConflictHunk(
+  hunk: IConflictHunk,
+  resolution: ConflictHunkResolution
+): string {
+  switch (resolution.kind) {
+    case ConflictHunkResolutionKind.Ours:
+      return hunk.ours
+    case ConflictHunkResolutionKind.Theirs:
+      return hunk.theirs
+    case ConflictHunkResolutionKind.Both:
+      return hunk.ours + hunk.theirs
+    case ConflictHunkResolutionKind.Manual:
+      return normalizeManualResolution(hunk, resolution.text)
+    default:
+      return assertNever(resolution, `Unknown resolution: ${resolution}`)
+  }
+}
+
+function normalizeManualResolution(hunk: IConflictHunk, text: string) {
+  if (text.length === 0) {
+    return text
+  }
+
+  const lineEnding = /\r\n/.test(hunk.ours + hunk.theirs) ? '\r\n' : '\n'
+  const normalized = text.replace(/\r?\n/g, lineEnding)
+
+  return normalized.endsWith('\n') ? normalized : normalized + lineEnding
+}
+
+/**
+ * Get the contents of a parsed file with each conflict replaced by its
+ * resolution.
+ *
+ * @param resolutions The resolution of each conflict hunk, in the order the
+ *                    hunks appear in the file.
+ *
+ * @returns the resolved contents, or null if any conflict hunk hasn't been
+ *          resolved
+ */
+export function resolveConflictMarkers(
+  segments: ReadonlyArray<ConflictFileSegment>,
+  resolutions: ReadonlyArray<ConflictHunkResolution | null>
+): string | null {
+  let contents = ''
+  let hunkIndex = 0
+
+  for (const segment of segments) {
+    if (segment.kind === ConflictFileSegmentKind.Text) {
+      contents += segment.text
+      continue
+    }
+
+    const resolution = resolutions.at(hunkIndex++) ?? null
+    if (resolution === null) {
+      return null
+    }
+
+    contents += resolveConflictHunk(segment.hunk, resolution)
+  }
+
+  return contents
+}
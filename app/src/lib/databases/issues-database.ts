@@ -7,6 +7,18 @@ export interface IIssue {
   readonly number: number
   readonly title: string
   readonly updated_at?: string
+
+  /** The body of the issue - This is markdown. */
+  readonly body: string
+
+  /** The login of the author. */
+  readonly author: string
+
+  /** The names of the labels of the issue. */
+  readonly labels: ReadonlyArray<string>
+
+  /** The logins of the users the issue is assigned to. */
+  readonly assignees: ReadonlyArray<string>
 }
 
 export class IssuesDatabase extends BaseDatabase {
@@ -27,6 +39,11 @@ export class IssuesDatabase extends BaseDatabase {
       },
       clearIssues
     )
+
+    // We're introducing the `body`, `author`, `labels` and `assignees`
+    // properties in version 3 in order to be able to browse and filter the
+    // issues, so we clear the table to seed it with fresh data from the API.
+    this.conditionalVersion(3, {}, clearIssues)
   }
 
   public getIssuesForRepository(gitHubRepositoryID: number) {
@@ -1,6 +1,7 @@
 import Dexie from 'dexie'
 import { BaseDatabase } from './base-database'
 import { GitHubRepository } from '../../models/github-repository'
+import { PullRequestReviewDecision } from '../../models/pull-request'
 
 export interface IPullRequestRef {
   /**
@@ -45,6 +46,21 @@ export interface IPullRequest {
    * The draft state of the PR or undefined if state is unknown
    */
   readonly draft: boolean
+
+  /** The names of the labels of the PR. */
+  readonly labels: ReadonlyArray<string>
+
+  /**
+   * The logins of the users whose review has been requested and who haven't
+   * reviewed the PR yet.
+   */
+  readonly requestedReviewers: ReadonlyArray<string>
+
+  /**
+   * The outcome of the reviews of the PR, null if nobody has reviewed it or
+   * been asked to, or undefined if the reviews haven't been looked up.
+   */
+  readonly reviewDecision: PullRequestReviewDecision | null | undefined
 }
 
 /**
@@ -140,6 +156,17 @@ export class PullRequestDatabase extends BaseDatabase {
       tx.table('pullRequests').clear()
       tx.table('pullRequestsLastUpdated').clear()
     })
+
+    this.conditionalVersion(10, {}, async tx => {
+      /**
+       * We're introducing the `labels`, `requestedReviewers` and
+       * `reviewDecision` properties on PRs in version 10 in order to be able
+       * to filter the list of PRs by them, so we clear the db to seed it with
+       * fresh data from the API.
+       */
+      tx.table('pullRequests').clear()
+      tx.table('pullRequestsLastUpdated').clear()
+    })
   }
 
   /**
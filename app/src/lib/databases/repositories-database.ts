@@ -65,6 +65,19 @@ export interface IDatabaseRepository {
    * of Git and GitHub.
    */
   readonly isTutorialRepository?: boolean
+
+  /** The ID of the repository group the user moved the repository into */
+  readonly groupID?: number | null
+
+  /** Whether the repository is pinned to the top of the repository list */
+  readonly isPinned?: boolean
+}
+
+/** A group of repositories created by the user */
+export interface IDatabaseRepositoryGroup {
+  readonly id?: number
+  readonly name: string
+  readonly isCollapsed: boolean
 }
 
 /**
@@ -93,6 +106,9 @@ export class RepositoriesDatabase extends BaseDatabase {
   /** The GitHub repository owners table. */
   public declare owners: Dexie.Table<IDatabaseOwner, number>
 
+  /** The table of repository groups created by the user. */
+  public declare repositoryGroups: Dexie.Table<IDatabaseRepositoryGroup, number>
+
   /**
    * Initialize a new repository database.
    *
@@ -137,6 +153,15 @@ export class RepositoriesDatabase extends BaseDatabase {
 
     this.conditionalVersion(8, {}, ensureNoUndefinedParentID)
     this.conditionalVersion(9, { owners: '++id, &key' }, createOwnerKey)
+
+    this.conditionalVersion(
+      10,
+      {
+        repositories: '++id, &path, groupID',
+        repositoryGroups: '++id, &name',
+      },
+      ensureNoUndefinedRepositoryGroup
+    )
   }
 }
 
@@ -172,6 +197,15 @@ async function ensureNoUndefinedParentID(tx: Transaction) {
     .then(modified => log.info(`ensureNoUndefinedParentID: ${modified}`))
 }
 
+async function ensureNoUndefinedRepositoryGroup(tx: Transaction) {
+  return tx
+    .table<IDatabaseRepository, number>('repositories')
+    .toCollection()
+    .filter(repo => repo.groupID === undefined)
+    .modify({ groupID: null, isPinned: false })
+    .then(modified => log.info(`ensureNoUndefinedRepositoryGroup: ${modified}`))
+}
+
 /**
  * Replace the case-sensitive [endpoint+login] index with a case-insensitive
  * lookup key in order to allow us to persist the proper case of a login.
@@ -1,5 +1,7 @@
+import * as Path from 'path'
 import { pathExists } from '../../ui/lib/path-exists'
 import { IFoundEditor } from './found-editor'
+import { LineArguments } from './shared'
 import appPath from 'app-path'
 
 /** Represents an external editor on macOS */
@@ -12,6 +14,18 @@ interface IDarwinExternalEditor {
    * versions.
    **/
   readonly bundleIdentifiers: string[]
+
+  /**
+   * The command line tool used to open a file at a specific line, if the
+   * editor supports it.
+   */
+  readonly commandLine?: {
+    /** The path of the command line tool inside the app bundle */
+    readonly path: string
+
+    /** The arguments used to open a file at a specific line */
+    readonly lineArguments: ReadonlyArray<string>
+  }
 }
 
 /**
@@ -30,6 +44,10 @@ const editors: IDarwinExternalEditor[] = [
   {
     name: 'MacVim',
     bundleIdentifiers: ['org.vim.MacVim'],
+    commandLine: {
+      path: 'Contents/bin/mvim',
+      lineArguments: LineArguments.Vim,
+    },
   },
   {
     name: 'Neovide',
@@ -38,14 +56,26 @@ const editors: IDarwinExternalEditor[] = [
   {
     name: 'Visual Studio Code',
     bundleIdentifiers: ['com.microsoft.VSCode'],
+    commandLine: {
+      path: 'Contents/Resources/app/bin/code',
+      lineArguments: LineArguments.VisualStudioCode,
+    },
   },
   {
     name: 'Visual Studio Code (Insiders)',
     bundleIdentifiers: ['com.microsoft.VSCodeInsiders'],
+    commandLine: {
+      path: 'Contents/Resources/app/bin/code',
+      lineArguments: LineArguments.VisualStudioCode,
+    },
   },
   {
     name: 'VSCodium',
     bundleIdentifiers: ['com.visualstudio.code.oss', 'com.vscodium'],
+    commandLine: {
+      path: 'Contents/Resources/app/bin/codium',
+      lineArguments: LineArguments.VisualStudioCode,
+    },
   },
   {
     name: 'Sublime Text',
@@ -54,6 +84,10 @@ const editors: IDarwinExternalEditor[] = [
       'com.sublimetext.3',
       'com.sublimetext.2',
     ],
+    commandLine: {
+      path: 'Contents/SharedSupport/bin/subl',
+      lineArguments: LineArguments.SublimeText,
+    },
   },
   {
     name: 'BBEdit',
@@ -62,18 +96,34 @@ const editors: IDarwinExternalEditor[] = [
   {
     name: 'PhpStorm',
     bundleIdentifiers: ['com.jetbrains.PhpStorm'],
+    commandLine: {
+      path: 'Contents/MacOS/phpstorm',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'PyCharm',
     bundleIdentifiers: ['com.jetbrains.PyCharm'],
+    commandLine: {
+      path: 'Contents/MacOS/pycharm',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'PyCharm Community Edition',
     bundleIdentifiers: ['com.jetbrains.pycharm.ce'],
+    commandLine: {
+      path: 'Contents/MacOS/pycharm',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'RubyMine',
     bundleIdentifiers: ['com.jetbrains.RubyMine'],
+    commandLine: {
+      path: 'Contents/MacOS/rubymine',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'RStudio',
@@ -90,6 +140,10 @@ const editors: IDarwinExternalEditor[] = [
   {
     name: 'WebStorm',
     bundleIdentifiers: ['com.jetbrains.WebStorm'],
+    commandLine: {
+      path: 'Contents/MacOS/webstorm',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'Typora',
@@ -111,10 +165,18 @@ const editors: IDarwinExternalEditor[] = [
   {
     name: 'IntelliJ',
     bundleIdentifiers: ['com.jetbrains.intellij'],
+    commandLine: {
+      path: 'Contents/MacOS/idea',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'IntelliJ Community Edition',
     bundleIdentifiers: ['com.jetbrains.intellij.ce'],
+    commandLine: {
+      path: 'Contents/MacOS/idea',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'Xcode',
@@ -123,14 +185,26 @@ const editors: IDarwinExternalEditor[] = [
   {
     name: 'GoLand',
     bundleIdentifiers: ['com.jetbrains.goland'],
+    commandLine: {
+      path: 'Contents/MacOS/goland',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'Android Studio',
     bundleIdentifiers: ['com.google.android.studio'],
+    commandLine: {
+      path: 'Contents/MacOS/studio',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'Rider',
     bundleIdentifiers: ['com.jetbrains.rider'],
+    commandLine: {
+      path: 'Contents/MacOS/rider',
+      lineArguments: LineArguments.JetBrains,
+    },
   },
   {
     name: 'Nova',
@@ -175,6 +249,30 @@ async function findApplication(
   return null
 }
 
+/**
+ * Find the command line tool of the editor inside its app bundle, used to
+ * open a file at a specific line.
+ */
+async function findCommandLine(
+  editor: IDarwinExternalEditor,
+  installPath: string
+): Promise<Pick<IFoundEditor<string>, 'commandLinePath' | 'lineArguments'>> {
+  if (editor.commandLine === undefined) {
+    return {}
+  }
+
+  const commandLinePath = Path.join(installPath, editor.commandLine.path)
+
+  if (!(await pathExists(commandLinePath))) {
+    log.debug(
+      `Command line tool for ${editor.name} not found at '${commandLinePath}'`
+    )
+    return {}
+  }
+
+  return { commandLinePath, lineArguments: editor.commandLine.lineArguments }
+}
+
 /**
  * Lookup known external editors using the bundle ID that each uses
  * to register itself on a user's machine when installing.
@@ -188,7 +286,11 @@ export async function getAvailableEditors(): Promise<
     const path = await findApplication(editor)
 
     if (path) {
-      results.push({ editor: editor.name, path })
+      results.push({
+        editor: editor.name,
+        path,
+        ...(await findCommandLine(editor, path)),
+      })
     }
   }
 
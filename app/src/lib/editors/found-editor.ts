@@ -2,4 +2,21 @@ export interface IFoundEditor<T> {
   readonly editor: T
   readonly path: string
   readonly usesShell?: boolean
+
+  /**
+   * The argument template used to open a file or folder, see
+   * `expandEditorArguments`. Editors without a template are launched with
+   * the path as their only argument.
+   */
+  readonly arguments?: ReadonlyArray<string>
+
+  /** The argument template used to open a file at a specific line */
+  readonly lineArguments?: ReadonlyArray<string>
+
+  /**
+   * The executable to launch when opening a file at a specific line, if it
+   * isn't the same as `path`, like the command line tool inside a macOS app
+   * bundle.
+   */
+  readonly commandLinePath?: string
 }
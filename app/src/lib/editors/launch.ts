@@ -2,15 +2,74 @@ import { spawn, SpawnOptions } from 'child_process'
 import { pathExists } from '../../ui/lib/path-exists'
 import { ExternalEditorError, FoundEditor } from './shared'
 
+/** A position in a file to move to when opening it in an editor */
+export interface IEditorPosition {
+  /** The line number, starting at 1 */
+  readonly line: number
+
+  /** The column number, starting at 1 */
+  readonly column?: number
+}
+
+/**
+ * Expand an editor argument template, replacing `{file}` with the path to
+ * open, and `{line}` and `{column}` with the position to move to.
+ */
+export function expandEditorArguments(
+  template: ReadonlyArray<string>,
+  fullPath: string,
+  position?: IEditorPosition
+): ReadonlyArray<string> {
+  const line = position?.line ?? 1
+  const column = position?.column ?? 1
+
+  return template.map(arg =>
+    arg
+      .replace(/\{file\}/g, () => fullPath)
+      .replace(/\{line\}/g, `${line}`)
+      .replace(/\{column\}/g, `${column}`)
+  )
+}
+
+/**
+ * Get the executable and arguments to launch the editor with, or null if the
+ * editor should be launched with the path as its only argument.
+ */
+function getEditorCommand(
+  editor: FoundEditor,
+  fullPath: string,
+  position?: IEditorPosition
+): { readonly path: string; readonly args: ReadonlyArray<string> } | null {
+  if (position !== undefined && editor.lineArguments !== undefined) {
+    return {
+      path: editor.commandLinePath ?? editor.path,
+      args: expandEditorArguments(editor.lineArguments, fullPath, position),
+    }
+  }
+
+  if (editor.arguments !== undefined) {
+    return {
+      path: editor.path,
+      args: expandEditorArguments(editor.arguments, fullPath),
+    }
+  }
+
+  return null
+}
+
 /**
  * Open a given file or folder in the desired external editor.
  *
  * @param fullPath A folder or file path to pass as an argument when launching the editor.
  * @param editor The external editor to launch.
+ * @param position The position to move to when opening a file, for editors
+ *                 which support opening a file at a line. Other editors open
+ *                 the file without moving to the position.
  */
 export async function launchExternalEditor(
   fullPath: string,
-  editor: FoundEditor
+  editor: FoundEditor,
+  position?: IEditorPosition
 ): Promise<void> {
   const editorPath = editor.path
   const exists = await pathExists(editorPath)
@@ -29,7 +88,16 @@ export async function launchExternalEditor(
     detached: true,
   }
 
-  if (editor.usesShell) {
+  const command = getEditorCommand(editor, fullPath, position)
+
+  if (command !== null) {
+    if (editor.usesShell) {
+      const quotedArgs = command.args.map(arg => `"${arg}"`)
+      spawn(`"${command.path}"`, quotedArgs, { ...opts, shell: true })
+    } else {
+      spawn(command.path, [...command.args], opts)
+    }
+  } else if (editor.usesShell) {
     spawn(`"${editorPath}"`, [`"${fullPath}"`], { ...opts, shell: true })
   } else if (__DARWIN__) {
     // In macOS we can use `open`, which will open the right executable file
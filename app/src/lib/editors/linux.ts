@@ -1,5 +1,6 @@
 import { pathExists } from '../../ui/lib/path-exists'
 import { IFoundEditor } from './found-editor'
+import { LineArguments } from './shared'
 
 /** Represents an external editor on Linux */
 interface ILinuxExternalEditor {
@@ -8,6 +9,12 @@ interface ILinuxExternalEditor {
 
   /** List of possible paths where the editor's executable might be located. */
   readonly paths: string[]
+
+  /**
+   * The arguments used to open a file at a specific line, if the editor
+   * supports it.
+   */
+  readonly lineArguments?: ReadonlyArray<string>
 }
 
 /**
@@ -18,26 +25,32 @@ const editors: ILinuxExternalEditor[] = [
   {
     name: 'Atom',
     paths: ['/snap/bin/atom', '/usr/bin/atom'],
+    lineArguments: LineArguments.Atom,
   },
   {
     name: 'Neovim',
     paths: ['/usr/bin/nvim'],
+    lineArguments: LineArguments.Vim,
   },
   {
     name: 'Visual Studio Code',
     paths: ['/usr/share/code/bin/code', '/snap/bin/code', '/usr/bin/code'],
+    lineArguments: LineArguments.VisualStudioCode,
   },
   {
     name: 'Visual Studio Code (Insiders)',
     paths: ['/snap/bin/code-insiders', '/usr/bin/code-insiders'],
+    lineArguments: LineArguments.VisualStudioCode,
   },
   {
     name: 'VSCodium',
     paths: ['/usr/bin/codium', '/var/lib/flatpak/app/com.vscodium.codium'],
+    lineArguments: LineArguments.VisualStudioCode,
   },
   {
     name: 'Sublime Text',
     paths: ['/usr/bin/subl'],
+    lineArguments: LineArguments.SublimeText,
   },
   {
     name: 'Typora',
@@ -65,10 +78,12 @@ const editors: ILinuxExternalEditor[] = [
   {
     name: 'Jetbrains PhpStorm',
     paths: ['/snap/bin/phpstorm'],
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'Jetbrains WebStorm',
     paths: ['/snap/bin/webstorm'],
+    lineArguments: LineArguments.JetBrains,
   },
 ]
 
@@ -90,7 +105,11 @@ export async function getAvailableEditors(): Promise<
   for (const editor of editors) {
     const path = await getAvailablePath(editor.paths)
     if (path) {
-      results.push({ editor: editor.name, path })
+      results.push({
+        editor: editor.name,
+        path,
+        lineArguments: editor.lineArguments,
+      })
     }
   }
 
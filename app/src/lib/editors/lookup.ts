@@ -3,6 +3,7 @@ import { IFoundEditor } from './found-editor'
 import { getAvailableEditors as getAvailableEditorsDarwin } from './darwin'
 import { getAvailableEditors as getAvailableEditorsWindows } from './win32'
 import { getAvailableEditors as getAvailableEditorsLinux } from './linux'
+import { getAvailableUserEditors } from './user-editors'
 
 let editorCache: ReadonlyArray<IFoundEditor<string>> | null = null
 
@@ -10,26 +11,19 @@ let editorCache: ReadonlyArray<IFoundEditor<string>> | null = null
  * Resolve a list of installed editors on the user's machine, using the known
  * install identifiers that each OS supports.
  */
-export async function getAvailableEditors(): Promise<
+async function getAvailablePlatformEditors(): Promise<
   ReadonlyArray<IFoundEditor<string>>
 > {
-  if (editorCache && editorCache.length > 0) {
-    return editorCache
-  }
-
   if (__DARWIN__) {
-    editorCache = await getAvailableEditorsDarwin()
-    return editorCache
+    return getAvailableEditorsDarwin()
   }
 
   if (__WIN32__) {
-    editorCache = await getAvailableEditorsWindows()
-    return editorCache
+    return getAvailableEditorsWindows()
   }
 
   if (__LINUX__) {
-    editorCache = await getAvailableEditorsLinux()
-    return editorCache
+    return getAvailableEditorsLinux()
   }
 
   log.warn(
@@ -39,6 +33,33 @@ export async function getAvailableEditors(): Promise<
   return []
 }
 
+/**
+ * Resolve a list of installed editors on the user's machine, including the
+ * editors registered in the user's editors config file. Editors registered by
+ * the user take precedence over the built-in editors with the same name.
+ */
+export async function getAvailableEditors(): Promise<
+  ReadonlyArray<IFoundEditor<string>>
+> {
+  if (editorCache && editorCache.length > 0) {
+    return editorCache
+  }
+
+  const [userEditors, platformEditors] = await Promise.all([
+    getAvailableUserEditors(),
+    getAvailablePlatformEditors(),
+  ])
+
+  const userEditorNames = new Set(userEditors.map(e => e.editor))
+
+  editorCache = [
+    ...platformEditors.filter(e => !userEditorNames.has(e.editor)),
+    ...userEditors,
+  ]
+
+  return editorCache
+}
+
 /**
  * Find an editor installed on the machine using the friendly name, or the
  * first valid editor if `null` is provided.
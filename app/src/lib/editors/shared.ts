@@ -14,6 +14,31 @@ export type FoundEditor = {
    * the editor requires a shell spawn to launch
    */
   usesShell?: boolean
+  /**
+   * The argument template used to open a file or folder
+   */
+  arguments?: ReadonlyArray<string>
+  /**
+   * The argument template used to open a file at a specific line
+   */
+  lineArguments?: ReadonlyArray<string>
+  /**
+   * The executable to launch when opening a file at a specific line, if it
+   * isn't the same as `path`
+   */
+  commandLinePath?: string
+}
+
+/**
+ * The argument templates used by common editors to open a file at a specific
+ * line, see `expandEditorArguments`.
+ */
+export const LineArguments = {
+  VisualStudioCode: ['--goto', '{file}:{line}:{column}'],
+  SublimeText: ['{file}:{line}:{column}'],
+  Atom: ['{file}:{line}:{column}'],
+  Vim: ['+call cursor({line}, {column})', '{file}'],
+  JetBrains: ['--line', '{line}', '{file}'],
 }
 
 interface IErrorMetadata {
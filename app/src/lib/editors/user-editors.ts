@@ -0,0 +1,165 @@
+import * as Path from 'path'
+import { readFile } from 'fs/promises'
+import { getPath } from '../../ui/main-process-proxy'
+import { pathExists } from '../../ui/lib/path-exists'
+import { IFoundEditor } from './found-editor'
+
+/**
+ * The name of the file in the user data directory where users can register
+ * editors that aren't built into Desktop.
+ */
+const UserEditorsFileName = 'editors.json'
+
+/**
+ * Represents an external editor registered by the user in the editors config
+ * file, e.g.
+ *
+ * ```json
+ * {
+ *   "editors": [
+ *     {
+ *       "name": "Helix",
+ *       "paths": ["/usr/local/bin/hx", "/usr/bin/hx"],
+ *       "lineArguments": ["{file}:{line}"]
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+export interface IUserExternalEditor {
+  /** Name of the editor. It will be used both as identifier and user-facing. */
+  readonly name: string
+
+  /** List of possible paths where the editor's executable might be located. */
+  readonly paths: ReadonlyArray<string>
+
+  /**
+   * The arguments used to open a file or folder in the editor, where `{file}`
+   * is replaced with the path to open. Defaults to `["{file}"]`.
+   */
+  readonly arguments?: ReadonlyArray<string>
+
+  /**
+   * The arguments used to open a file at a specific line, where `{file}` is
+   * replaced with the path, `{line}` with the line number and `{column}` with
+   * the column number. Defaults to the `arguments` of the editor, which
+   * opens the file without moving to the line.
+   */
+  readonly lineArguments?: ReadonlyArray<string>
+
+  /** Whether the editor needs to be launched through a shell */
+  readonly usesShell?: boolean
+}
+
+/** Get the path of the file where users can register their own editors */
+export async function getUserEditorsPath(): Promise<string> {
+  return Path.join(await getPath('userData'), UserEditorsFileName)
+}
+
+function isStringArray(value: unknown): value is ReadonlyArray<string> {
+  return Array.isArray(value) && value.every(v => typeof v === 'string')
+}
+
+function isUserExternalEditor(value: unknown): value is IUserExternalEditor {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const editor = value as { readonly [key: string]: unknown }
+  const { name, paths, lineArguments, usesShell } = editor
+
+  return (
+    typeof name === 'string' &&
+    name.length > 0 &&
+    isStringArray(paths) &&
+    (editor.arguments === undefined || isStringArray(editor.arguments)) &&
+    (lineArguments === undefined || isStringArray(lineArguments)) &&
+    (usesShell === undefined || typeof usesShell === 'boolean')
+  )
+}
+
+/**
+ * Parse the contents of the editors config file, skipping any editor which
+ * isn't valid.
+ *
+ * Throws an error if the contents isn't valid JSON.
+ */
+export function parseUserEditors(
+  json: string
+): ReadonlyArray<IUserExternalEditor> {
+  const parsed = JSON.parse(json)
+  const editors: unknown = parsed?.editors
+
+  if (!Array.isArray(editors)) {
+    log.warn(`Expected a list of editors in ${UserEditorsFileName}`)
+    return []
+  }
+
+  const result = new Array<IUserExternalEditor>()
+
+  for (const editor of editors) {
+    if (isUserExternalEditor(editor)) {
+      result.push(editor)
+    } else {
+      log.warn(
+        `Ignoring invalid editor in ${UserEditorsFileName}: ${JSON.stringify(
+          editor
+        )}`
+      )
+    }
+  }
+
+  return result
+}
+
+async function readUserEditors(): Promise<ReadonlyArray<IUserExternalEditor>> {
+  const path = await getUserEditorsPath()
+
+  if (!(await pathExists(path))) {
+    return []
+  }
+
+  try {
+    return parseUserEditors(await readFile(path, 'utf8'))
+  } catch (e) {
+    log.error(`Could not read editors from ${path}`, e)
+    return []
+  }
+}
+
+async function getAvailablePath(
+  paths: ReadonlyArray<string>
+): Promise<string | null> {
+  for (const path of paths) {
+    if (await pathExists(path)) {
+      return path
+    }
+  }
+
+  return null
+}
+
+/**
+ * Resolve the editors registered by the user which are installed on the
+ * user's machine.
+ */
+export async function getAvailableUserEditors(): Promise<
+  ReadonlyArray<IFoundEditor<string>>
+> {
+  const results: Array<IFoundEditor<string>> = []
+
+  for (const editor of await readUserEditors()) {
+    const path = await getAvailablePath(editor.paths)
+    if (path) {
+      results.push({
+        editor: editor.name,
+        path,
+        usesShell: editor.usesShell,
+        arguments: editor.arguments ?? ['{file}'],
+        lineArguments: editor.lineArguments,
+      })
+    }
+  }
+
+  return results
+}
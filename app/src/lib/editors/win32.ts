@@ -9,6 +9,7 @@ import {
 import { pathExists } from '../../ui/lib/path-exists'
 
 import { IFoundEditor } from './found-editor'
+import { LineArguments } from './shared'
 
 interface IWindowsAppInformation {
   displayName: string
@@ -60,6 +61,12 @@ type WindowsExternalEditor = {
 
   /** Value of the Publisher registry key that belongs to this editor. */
   readonly publisher: string
+
+  /**
+   * The arguments used to open a file at a specific line, if the editor
+   * supports it.
+   */
+  readonly lineArguments?: ReadonlyArray<string>
 } & WindowsExternalEditorPathInfo
 
 const registryKey = (key: HKEY, ...subKeys: string[]): RegistryKey => ({
@@ -141,6 +148,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: [['bin', 'atom.cmd']],
     displayNamePrefix: 'Atom',
     publisher: 'GitHub Inc.',
+    lineArguments: LineArguments.Atom,
   },
   {
     name: 'Atom Beta',
@@ -148,6 +156,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: [['bin', 'atom-beta.cmd']],
     displayNamePrefix: 'Atom Beta',
     publisher: 'GitHub Inc.',
+    lineArguments: LineArguments.Atom,
   },
   {
     name: 'Atom Nightly',
@@ -155,6 +164,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: [['bin', 'atom-nightly.cmd']],
     displayNamePrefix: 'Atom Nightly',
     publisher: 'GitHub Inc.',
+    lineArguments: LineArguments.Atom,
   },
   {
     name: 'Visual Studio Code',
@@ -177,6 +187,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: [['bin', 'code.cmd']],
     displayNamePrefix: 'Microsoft Visual Studio Code',
     publisher: 'Microsoft Corporation',
+    lineArguments: LineArguments.VisualStudioCode,
   },
   {
     name: 'Visual Studio Code (Insiders)',
@@ -199,6 +210,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: [['bin', 'code-insiders.cmd']],
     displayNamePrefix: 'Microsoft Visual Studio Code Insiders',
     publisher: 'Microsoft Corporation',
+    lineArguments: LineArguments.VisualStudioCode,
   },
   {
     name: 'Visual Studio Codium',
@@ -221,6 +233,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: [['bin', 'codium.cmd']],
     displayNamePrefix: 'VSCodium',
     publisher: 'Microsoft Corporation',
+    lineArguments: LineArguments.VisualStudioCode,
   },
   {
     name: 'Sublime Text',
@@ -233,6 +246,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: [['subl.exe']],
     displayNamePrefix: 'Sublime Text',
     publisher: 'Sublime HQ Pty Ltd',
+    lineArguments: LineArguments.SublimeText,
   },
   {
     name: 'Brackets',
@@ -314,6 +328,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('webstorm'),
     displayNamePrefix: 'WebStorm',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'JetBrains Phpstorm',
@@ -321,6 +336,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('phpstorm'),
     displayNamePrefix: 'PhpStorm',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'Android Studio',
@@ -332,6 +348,7 @@ const editors: WindowsExternalEditor[] = [
     ],
     displayNamePrefix: 'Android Studio',
     publisher: 'Google LLC',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'Notepad++',
@@ -351,6 +368,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('rider'),
     displayNamePrefix: 'JetBrains Rider',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'RStudio',
@@ -365,6 +383,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('idea'),
     displayNamePrefix: 'IntelliJ IDEA ',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'JetBrains IntelliJ Idea Community Edition',
@@ -374,6 +393,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('idea'),
     displayNamePrefix: 'IntelliJ IDEA Community Edition ',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'JetBrains PyCharm',
@@ -381,6 +401,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('pycharm'),
     displayNamePrefix: 'PyCharm ',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'JetBrains PyCharm Community Edition',
@@ -388,6 +409,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('pycharm'),
     displayNamePrefix: 'PyCharm Community Edition',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'JetBrains CLion',
@@ -395,6 +417,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('clion'),
     displayNamePrefix: 'CLion ',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'JetBrains RubyMine',
@@ -402,6 +425,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('rubymine'),
     displayNamePrefix: 'RubyMine ',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
   {
     name: 'JetBrains GoLand',
@@ -409,6 +433,7 @@ const editors: WindowsExternalEditor[] = [
     executableShimPaths: executableShimPathsForJetBrainsIDE('goland'),
     displayNamePrefix: 'GoLand ',
     publisher: 'JetBrains s.r.o.',
+    lineArguments: LineArguments.JetBrains,
   },
 ]
 
@@ -485,6 +510,7 @@ export async function getAvailableEditors(): Promise<
         editor: editor.name,
         path,
         usesShell: path.endsWith('.cmd'),
+        lineArguments: editor.lineArguments,
       })
     }
   }
@@ -151,3 +151,114 @@ export async function discardChangesFromSelection(
     stdin: patch,
   })
 }
+
+/**
+ * Reverts a selection of lines from the diff of a committed file by applying
+ * the reverse of those lines to the working directory, leaving them as
+ * uncommitted changes. The commit itself is left untouched.
+ *
+ * When passed an empty selection, this method won't do anything.
+ *
+ * @param repository The repository in which to update the working directory
+ *
+ * @param filePath   The relative path in the working directory of the file to use
+ *
+ * @param diff       The changes to the file in the commit
+ *
+ * @param selection  The selection of changes from the diff to revert
+ */
+export async function revertChangesFromSelection(
+  repository: Repository,
+  filePath: string,
+  diff: ITextDiff,
+  selection: DiffSelection
+) {
+  const patch = formatPatchToDiscardChanges(filePath, diff, selection)
+
+  if (patch === null) {
+    return
+  }
+
+  await git(
+    ['apply', '--unidiff-zero', '--whitespace=nowarn', '-'],
+    repository.path,
+    'revertChangesFromSelection',
+    { stdin: patch }
+  )
+}
+
+/**
+ * Stages a selection of lines from a diff between the index and the working
+ * directory (see `getIndexDiff`) by applying a patch to the index.
+ *
+ * @param repository The repository in which to update the index
+ *
+ * @param file       The file whose changes should be staged
+ *
+ * @param diff       The unstaged changes for the file
+ *
+ * @param selection  The selection of changes from the diff to stage
+ */
+export async function stageSelection(
+  repository: Repository,
+  file: WorkingDirectoryFileChange,
+  diff: ITextDiff,
+  selection: DiffSelection
+) {
+  // A new file is already in the index so, relative to the index, the patch
+  // modifies it rather than creating it. Every other status produces the
+  // same patch header against the index as it does against HEAD.
+  const target =
+    file.status.kind === AppFileStatusKind.New
+      ? new WorkingDirectoryFileChange(
+          file.path,
+          { kind: AppFileStatusKind.Modified },
+          selection,
+          file.staged
+        )
+      : file.withSelection(selection)
+
+  const patch = formatPatch(target, diff)
+
+  await git(
+    ['apply', '--cached', '--unidiff-zero', '--whitespace=nowarn', '-'],
+    repository.path,
+    'stageSelection',
+    { stdin: patch }
+  )
+}
+
+/**
+ * Unstages a selection of lines from a diff between HEAD and the index (see
+ * `getIndexDiff`) by applying the reverse of those lines to the index. The
+ * working directory is left untouched.
+ *
+ * When passed an empty selection, this method won't do anything.
+ *
+ * @param repository The repository in which to update the index
+ *
+ * @param filePath   The relative path in the working directory of the file to use
+ *
+ * @param diff       The staged changes for the file
+ *
+ * @param selection  The selection of changes from the diff to unstage
+ */
+export async function unstageSelection(
+  repository: Repository,
+  filePath: string,
+  diff: ITextDiff,
+  selection: DiffSelection
+) {
+  const patch = formatPatchToDiscardChanges(filePath, diff, selection)
+
+  if (patch === null) {
+    return
+  }
+
+  await git(
+    ['apply', '--cached', '--unidiff-zero', '--whitespace=nowarn', '-'],
+    repository.path,
+    'unstageSelection',
+    { stdin: patch }
+  )
+}
@@ -0,0 +1,105 @@
+import { git } from './core'
+import { Repository } from '../../models/repository'
+import { IBlameCommit, IBlameLine } from '../../models/blame'
+
+/** The SHA git blame reports for lines which haven't been committed yet */
+const UncommittedSha = /^0+$/
+
+/**
+ * Get the commit that last changed each line of a file.
+ *
+ * @param path      - the path of the file, relative to the repository root
+ * @param commitish - the revision of the file to blame, or undefined to blame
+ *                    the file in the working directory
+ *
+ * @returns the lines of the file in order, or an empty list if the file
+ *          doesn't exist in the given revision
+ */
+export async function getBlame(
+  repository: Repository,
+  path: string,
+  commitish?: string
+): Promise<ReadonlyArray<IBlameLine>> {
+  const args = ['blame', '--porcelain']
+
+  if (commitish !== undefined) {
+    args.push(commitish)
+  }
+
+  args.push('--', path)
+
+  const result = await git(args, repository.path, 'getBlame', {
+    successExitCodes: new Set([0, 128]),
+  })
+
+  // The file doesn't exist in the given revision or the repository has no
+  // commits yet
+  if (result.exitCode === 128) {
+    return []
+  }
+
+  return parseBlamePorcelain(result.stdout)
+}
+
+/**
+ * Parse the output of `git blame --porcelain`.
+ *
+ * Each line of the file is preceded by a header line with the commit SHA,
+ * the original and final line numbers and, for the first line of a group of
+ * lines from the same commit, the number of lines in the group:
+ *
+ *    <sha> <original line> <final line> [<lines in group>]
+ *
+ * The first time a commit appears the header line is followed by information
+ * about the commit, one `<key> <value>` per line. The line of the file comes
+ * last, prefixed by a tab character.
+ */
+export function parseBlamePorcelain(stdout: string): ReadonlyArray<IBlameLine> {
+  const commits = new Map<string, IBlameCommit>()
+  const lines = new Array<IBlameLine>()
+  const headerRe = /^([0-9a-f]{40,64}) \d+ (\d+)(?: \d+)?$/
+
+  let sha: string | null = null
+  let lineNumber = 0
+  let info = new Map<string, string>()
+
+  for (const line of stdout.split('\n')) {
+    if (sha === null) {
+      const match = headerRe.exec(line)
+      if (match !== null) {
+        sha = match[1]
+        lineNumber = parseInt(match[2], 10)
+        info = new Map<string, string>()
+      }
+      continue
+    }
+
+    if (!line.startsWith('\t')) {
+      const separator = line.indexOf(' ')
+      if (separator === -1) {
+        info.set(line, '')
+      } else {
+        info.set(line.substring(0, separator), line.substring(separator + 1))
+      }
+      continue
+    }
+
+    let commit = commits.get(sha)
+    if (commit === undefined) {
+      const authorTime = parseInt(info.get('author-time') ?? '0', 10)
+      commit = {
+        sha,
+        summary: info.get('summary') ?? '',
+        author: info.get('author') ?? '',
+        authorDate: new Date(authorTime * 1000),
+        isUncommitted: UncommittedSha.test(sha),
+      }
+      commits.set(sha, commit)
+    }
+
+    lines.push({ lineNumber, commit })
+    sha = null
+  }
+
+  return lines
+}
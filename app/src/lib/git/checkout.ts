@@ -129,7 +129,7 @@ export async function checkoutPaths(
 export async function checkoutConflictedFile(
   repository: Repository,
   file: WorkingDirectoryFileChange,
-  resolution: ManualConflictResolution
+  resolution: ManualConflictResolution.ours | ManualConflictResolution.theirs
 ) {
   await git(
     ['checkout', `--${resolution}`, '--', file.path],
@@ -25,6 +25,22 @@ export async function createCommit(
 
   await stageFiles(repository, files)
 
+  return createCommitFromIndex(repository, message, amend)
+}
+
+/**
+ * Creates a commit from whatever is currently staged in the index, leaving
+ * any unstaged changes in the working directory untouched.
+ *
+ * @param repository repository to create the commit in
+ * @param message commit message
+ * @returns the commit SHA
+ */
+export async function createCommitFromIndex(
+  repository: Repository,
+  message: string,
+  amend: boolean = false
+): Promise<string> {
   const args = ['-F', '-']
 
   if (amend) {
@@ -18,6 +18,7 @@ import {
   LineEndingsChange,
   parseLineEndingText,
   ILargeTextDiff,
+  DiffHunk,
 } from '../../models/diff'
 
 import { spawnAndComplete } from './spawn'
@@ -400,6 +401,58 @@ export async function getWorkingDirectoryDiff(
   return buildDiff(output, repository, file, 'HEAD', lineEndingsChange)
 }
 
+/**
+ * Render the diff for a file within the repository working directory against
+ * the index, showing the changes that haven't been staged yet. When `staged`
+ * is true the index is instead compared against HEAD, showing the changes
+ * that will be part of the next commit.
+ */
+export async function getIndexDiff(
+  repository: Repository,
+  file: WorkingDirectoryFileChange,
+  staged: boolean,
+  hideWhitespaceInDiff: boolean = false
+): Promise<IDiff> {
+  // `--no-ext-diff` should be provided wherever we invoke `git diff` so that any
+  // diff.external program configured by the user is ignored
+  const args = [
+    'diff',
+    ...(hideWhitespaceInDiff ? ['-w'] : []),
+    '--no-ext-diff',
+    '--patch-with-raw',
+    '-z',
+    '--no-color',
+  ]
+  const successExitCodes = new Set([0])
+
+  if (staged) {
+    args.push('--cached', '--', file.path)
+
+    if (
+      file.status.kind === AppFileStatusKind.Renamed ||
+      file.status.kind === AppFileStatusKind.Copied
+    ) {
+      args.push(file.status.oldPath)
+    }
+  } else if (file.status.kind === AppFileStatusKind.Untracked) {
+    // See getWorkingDirectoryDiff for why we need to accept an exit code of 1
+    successExitCodes.add(1)
+    args.push('--no-index', '--', '/dev/null', file.path)
+  } else {
+    args.push('--', file.path)
+  }
+
+  const { output, error } = await spawnAndComplete(
+    args,
+    repository.path,
+    'getIndexDiff',
+    successExitCodes
+  )
+  const lineEndingsChange = parseLineEndingsWarning(error)
+
+  return buildDiff(output, repository, file, 'HEAD', lineEndingsChange)
+}
+
 async function getImageDiff(
   repository: Repository,
   file: FileChange,
@@ -702,6 +755,45 @@ export async function getWorkingDirectoryImage(
   )
 }
 
+/**
+ * Get the hunks of the changes to a file since the given commit, without any
+ * context lines, for tracking how lines have moved since then.
+ *
+ * @param sha     The commit to get the changes since
+ * @param to      The commit to get the changes up to, or null for the working
+ *                directory
+ *
+ * Returns null if the commit doesn't exist in the repository.
+ */
+export async function getLineChangesSince(
+  repository: Repository,
+  path: string,
+  sha: string,
+  to: string | null
+): Promise<ReadonlyArray<DiffHunk> | null> {
+  const args = [
+    'diff',
+    '--no-ext-diff',
+    '--no-color',
+    '--no-renames',
+    '--unified=0',
+    sha,
+    ...(to === null ? [] : [to]),
+    '--',
+    path,
+  ]
+
+  const result = await git(args, repository.path, 'getLineChangesSince', {
+    successExitCodes: new Set([0, 128]),
+  })
+
+  if (result.exitCode !== 0) {
+    return null
+  }
+
+  return new DiffParser().parse(result.stdout).hunks
+}
+
 /**
  * List the modified binary files' paths in the given repository
  *
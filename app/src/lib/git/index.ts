@@ -33,3 +33,6 @@ export * from './gitignore'
 export * from './rebase'
 export * from './format-patch'
 export * from './tag'
+export * from './worktree'
+export * from './blame'
+export * from './snapshot'
@@ -0,0 +1,134 @@
+import { rm, writeFile } from 'fs/promises'
+import { Commit } from '../../models/commit'
+import { MultiCommitOperationKind } from '../../models/multi-commit-operation'
+import { IMultiCommitOperationProgress } from '../../models/progress'
+import { RebaseTodoAction, RebaseTodoItem } from '../../models/rebase'
+import { Repository } from '../../models/repository'
+import { getTempFilePath } from '../file-system'
+import { rebaseInteractive, RebaseResult } from './rebase'
+
+/** Quote a value so that `sh` passes it verbatim as a single argument */
+function quoteShellArgument(value: string) {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+/**
+ * Build the `exec` line that replaces the message of the commit at HEAD with
+ * the new message of a reworded commit. Hooks don't run again, just like they
+ * don't for commits picked by the rebase.
+ *
+ * Lines in a todo list cannot span multiple lines, so every line of the
+ * message is passed to `printf` as a separate argument and piped into
+ * `git commit`.
+ */
+function getRewordCommand(item: RebaseTodoItem) {
+  const { commit, message } = item
+  const newMessage =
+    message ??
+    (commit.body.length > 0
+      ? `${commit.summary}\n\n${commit.body}`
+      : commit.summary)
+
+  const lines = newMessage.split(/\r?\n/).map(quoteShellArgument).join(' ')
+  return `exec printf '%s\\n' ${lines} | git commit --amend --allow-empty --no-verify --file=-`
+}
+
+/**
+ * Performs an interactive rebase with the planned action for each commit.
+ *
+ * Rewording a commit is achieved by picking it and then amending its message
+ * once any following commits have been squashed or fixed up into it. This
+ * keeps the new message in the todo list itself, so it survives the rebase
+ * stopping for conflicts or for a commit marked for editing.
+ *
+ * @param todo - the commits to replay and what to do with each one, in the
+ * order they should be replayed (oldest to newest)
+ * @param lastRetainedCommitRef - sha of commit before the first commit in the
+ * todo list or null if the first commit is the root (first in history) of the
+ * branch
+ */
+export async function interactiveRebase(
+  repository: Repository,
+  todo: ReadonlyArray<RebaseTodoItem>,
+  lastRetainedCommitRef: string | null,
+  progressCallback?: (progress: IMultiCommitOperationProgress) => void
+): Promise<RebaseResult> {
+  let todoPath
+  let result: RebaseResult
+
+  try {
+    if (todo.length === 0) {
+      throw new Error('[interactiveRebase] No commits provided to rebase.')
+    }
+
+    const firstRetainedItem = todo.find(i => i.action !== RebaseTodoAction.Drop)
+    if (
+      firstRetainedItem !== undefined &&
+      (firstRetainedItem.action === RebaseTodoAction.Squash ||
+        firstRetainedItem.action === RebaseTodoAction.Fixup)
+    ) {
+      throw new Error(
+        '[interactiveRebase] The first commit cannot be squashed or fixed up as there is no previous commit to combine it with.'
+      )
+    }
+
+    // Every line of the todo list is reported as a step in the rebase
+    // progress, so we keep track of the commit each one relates to.
+    const lines = new Array<string>()
+    const commits = new Array<Commit>()
+    let pendingReword: RebaseTodoItem | null = null
+
+    for (const item of todo) {
+      const { action, commit } = item
+
+      if (
+        pendingReword !== null &&
+        action !== RebaseTodoAction.Squash &&
+        action !== RebaseTodoAction.Fixup &&
+        action !== RebaseTodoAction.Drop
+      ) {
+        lines.push(getRewordCommand(pendingReword))
+        commits.push(pendingReword.commit)
+        pendingReword = null
+      }
+
+      // The new message is applied with an `exec` line, thus the commit
+      // itself is picked as is.
+      const todoAction =
+        action === RebaseTodoAction.Reword ? RebaseTodoAction.Pick : action
+      lines.push(`${todoAction} ${commit.sha} ${commit.summary}`)
+      commits.push(commit)
+
+      if (action === RebaseTodoAction.Reword) {
+        pendingReword = item
+      }
+    }
+
+    if (pendingReword !== null) {
+      lines.push(getRewordCommand(pendingReword))
+      commits.push(pendingReword.commit)
+    }
+
+    todoPath = await getTempFilePath('interactiveRebaseTodo')
+    await writeFile(todoPath, lines.map(l => `${l}\n`).join(''))
+
+    result = await rebaseInteractive(
+      repository,
+      todoPath,
+      lastRetainedCommitRef,
+      MultiCommitOperationKind.InteractiveRebase,
+      undefined,
+      progressCallback,
+      commits
+    )
+  } catch (e) {
+    log.error(e)
+    return RebaseResult.Error
+  } finally {
+    if (todoPath !== undefined) {
+      await rm(todoPath, { recursive: true, force: true })
+    }
+  }
+
+  return result
+}
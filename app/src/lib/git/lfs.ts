@@ -1,5 +1,9 @@
-import { git } from './core'
+import { git, IGitExecutionOptions } from './core'
 import { Repository } from '../../models/repository'
+import { ILFSLock } from '../../models/lfs-lock'
+import { IGitAccount } from '../../models/git-account'
+import { AuthenticationErrors } from './authentication'
+import { envForRemoteOperation } from './environment'
 
 /** Install the global LFS filters. */
 export async function installGlobalLFSFilters(force: boolean): Promise<void> {
@@ -98,3 +102,108 @@ export async function filesNotTrackedByLFS(
 
   return filesNotTrackedByGitLFS
 }
+
+/** A lock as returned by `git lfs locks --json` */
+interface ILFSLockJSON {
+  readonly id: string
+  readonly path: string
+  readonly owner?: { readonly name: string }
+  readonly locked_at: string
+}
+
+/**
+ * Parse the output of `git lfs locks --json`, which is a list of locks, or
+ * of `git lfs locks --verify --json`, which splits the locks into the ones
+ * owned by the current user and the ones owned by others.
+ */
+export function parseLFSLocks(stdout: string): ReadonlyArray<ILFSLock> {
+  const json = JSON.parse(stdout)
+
+  const toLock = (lock: ILFSLockJSON, isOurs: boolean): ILFSLock => ({
+    id: lock.id,
+    path: lock.path,
+    ownerName: lock.owner?.name ?? 'Unknown user',
+    lockedAt: new Date(lock.locked_at),
+    isOurs,
+  })
+
+  if (Array.isArray(json)) {
+    return json.map(l => toLock(l, false))
+  }
+
+  const ours: ReadonlyArray<ILFSLockJSON> = json.ours ?? []
+  const theirs: ReadonlyArray<ILFSLockJSON> = json.theirs ?? []
+
+  return [
+    ...ours.map(l => toLock(l, true)),
+    ...theirs.map(l => toLock(l, false)),
+  ]
+}
+
+/**
+ * Get the options for running a Git LFS command which talks to the LFS
+ * server of the remote at the given URL.
+ */
+async function getLFSServerOptions(
+  account: IGitAccount | null,
+  remoteUrl: string
+): Promise<IGitExecutionOptions> {
+  return {
+    env: await envForRemoteOperation(account, remoteUrl),
+    expectedErrors: AuthenticationErrors,
+  }
+}
+
+/**
+ * Get the files locked with Git LFS in the repository.
+ *
+ * This asks the LFS server of the repository, and fails if the server doesn't
+ * support locking.
+ *
+ * @param account   The account to authenticate with the LFS server
+ * @param remoteUrl The URL of the remote the LFS server belongs to
+ */
+export async function getLFSLocks(
+  repository: Repository,
+  account: IGitAccount | null,
+  remoteUrl: string
+): Promise<ReadonlyArray<ILFSLock>> {
+  const { stdout } = await git(
+    ['lfs', 'locks', '--verify', '--json'],
+    repository.path,
+    'getLFSLocks',
+    await getLFSServerOptions(account, remoteUrl)
+  )
+
+  return parseLFSLocks(stdout)
+}
+
+/** Lock a file with Git LFS so that others can't push changes to it */
+export async function lockLFSFile(
+  repository: Repository,
+  account: IGitAccount | null,
+  remoteUrl: string,
+  path: string
+): Promise<void> {
+  await git(
+    ['lfs', 'lock', '--json', '--', path],
+    repository.path,
+    'lockLFSFile',
+    await getLFSServerOptions(account, remoteUrl)
+  )
+}
+
+/** Release a Git LFS lock on a file owned by the current user */
+export async function unlockLFSFile(
+  repository: Repository,
+  account: IGitAccount | null,
+  remoteUrl: string,
+  path: string
+): Promise<void> {
+  await git(
+    ['lfs', 'unlock', '--json', '--', path],
+    repository.path,
+    'unlockLFSFile',
+    await getLFSServerOptions(account, remoteUrl)
+  )
+}
@@ -9,7 +9,11 @@ import {
   SubmoduleStatus,
 } from '../../models/status'
 import { Repository } from '../../models/repository'
-import { Commit } from '../../models/commit'
+import {
+  Commit,
+  CommitSignatureStatus,
+  parseCommitSignatureStatus,
+} from '../../models/commit'
 import { CommitIdentity } from '../../models/commit-identity'
 import { parseRawUnfoldedTrailers } from './interpret-trailers'
 import { getCaptures } from '../helpers/regex'
@@ -314,6 +318,136 @@ export function parseRawLogWithNumstat(
   return { files, linesAdded, linesDeleted }
 }
 
+/** A commit that changed a file along with the change made to the file */
+export interface IFileHistoryEntry {
+  readonly commit: Commit
+
+  /**
+   * The change made to the file in the commit, including the path the file
+   * had at the time when it has been renamed since.
+   */
+  readonly file: CommittedFileChange
+}
+
+/**
+ * Get the commits reachable from HEAD that changed the given file, following
+ * the file across renames.
+ *
+ * @param path - the current path of the file, relative to the repository root
+ */
+export async function getFileHistory(
+  repository: Repository,
+  path: string,
+  limit?: number,
+  skip?: number
+): Promise<ReadonlyArray<IFileHistoryEntry>> {
+  const args = [
+    'log',
+    'HEAD',
+    '--follow',
+    '-M',
+    '--raw',
+    '-z',
+    '--no-show-signature',
+    '--format=%H',
+  ]
+
+  if (limit !== undefined) {
+    args.push(`--max-count=${limit}`)
+  }
+
+  if (skip !== undefined) {
+    args.push(`--skip=${skip}`)
+  }
+
+  args.push('--', path)
+
+  const result = await git(args, repository.path, 'getFileHistory', {
+    successExitCodes: new Set([0, 128]),
+  })
+
+  // if the repository has an unborn HEAD, the file has no history
+  if (result.exitCode === 128) {
+    return []
+  }
+
+  const files = parseFileHistory(result.stdout)
+  if (files.length === 0) {
+    return []
+  }
+
+  const commits = await getCommits(
+    repository,
+    undefined,
+    undefined,
+    undefined,
+    ['--no-walk=unsorted', ...files.map(f => f.commitish)]
+  )
+  const commitsBySha = new Map(commits.map(c => [c.sha, c]))
+
+  const entries = new Array<IFileHistoryEntry>()
+  for (const file of files) {
+    const commit = commitsBySha.get(file.commitish)
+    if (commit !== undefined) {
+      entries.push({ commit, file })
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Parses output of `git log --format=%H --raw -z` for a single file.
+ *
+ * Given the -z flag the fields are separated by \0 characters (left them as
+ * new lines below for ease of reading) and each commit is listed as:
+ *
+ *    commit_sha
+ *    :100644 100644 5716ca5 db3c77d M
+ *    file_path
+ *
+ * For copied or renamed files both the original and the new path are listed:
+ *
+ *    commit_sha
+ *    :100644 100644 5716ca5 db3c77d R100
+ *    file_original_path
+ *    file_new_path
+ *
+ * Merge commits are listed without any change and are left out.
+ */
+function parseFileHistory(stdout: string): ReadonlyArray<CommittedFileChange> {
+  const files = new Array<CommittedFileChange>()
+  const fields = stdout.split('\0')
+  let sha: string | null = null
+
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i].trim()
+
+    if (!field.startsWith(':')) {
+      sha = field.length > 0 ? field : null
+      continue
+    }
+
+    const [srcMode, dstMode, , , status] = field.substring(1).split(' ')
+    const oldPath = /^R|C/.test(status) ? fields.at(++i) : undefined
+    const path = forceUnwrap('Missing path', fields.at(++i))
+
+    if (sha !== null) {
+      files.push(
+        new CommittedFileChange(
+          path,
+          mapStatus(status, oldPath, srcMode, dstMode),
+          sha,
+          `${sha}^`
+        )
+      )
+      sha = null
+    }
+  }
+
+  return files
+}
+
 /** Get the commit for the given ref. */
 export async function getCommit(
   repository: Repository,
@@ -327,6 +461,42 @@ export async function getCommit(
   return commits[0]
 }
 
+/**
+ * Get the status of the signatures of the given commits, keyed by their SHA.
+ *
+ * This isn't part of `getCommits` since verifying a signature runs the
+ * signing program (e.g. GPG) for every signed commit, which is too slow to do
+ * for the whole history.
+ */
+export async function getCommitSignatureStatuses(
+  repository: Repository,
+  shas: ReadonlyArray<string>
+): Promise<Map<string, CommitSignatureStatus>> {
+  const statuses = new Map<string, CommitSignatureStatus>()
+
+  if (shas.length === 0) {
+    return statuses
+  }
+
+  const { formatArgs, parse } = createLogParser({
+    sha: '%H',
+    // signature status, see CommitSignatureStatus
+    signatureStatus: '%G?',
+  })
+
+  const result = await git(
+    ['log', '--no-walk=unsorted', ...formatArgs, '--no-color', ...shas, '--'],
+    repository.path,
+    'getCommitSignatureStatuses'
+  )
+
+  for (const commit of parse(result.stdout)) {
+    statuses.set(commit.sha, parseCommitSignatureStatus(commit.signatureStatus))
+  }
+
+  return statuses
+}
+
 /**
  * Determine if merge commits exist in history after given commit
  * If no commitRef is null, goes back to HEAD of branch.
@@ -59,6 +59,23 @@ export async function merge(
 
 const noopMergeMessage = 'Already up to date.\n'
 
+/**
+ * Fast-forward the current branch to the named branch.
+ *
+ * Throws an error if the current branch has diverged from the named branch
+ * and can't be fast-forwarded.
+ */
+export async function mergeFastForwardOnly(
+  repository: Repository,
+  branch: string
+): Promise<void> {
+  await git(
+    ['merge', '--ff-only', branch],
+    repository.path,
+    'mergeFastForwardOnly'
+  )
+}
+
 /**
  * Find the base commit between two commit-ish identifiers
  *
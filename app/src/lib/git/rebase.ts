@@ -21,6 +21,7 @@ import {
   IGitResult,
   IGitExecutionOptions,
   gitRebaseArguments,
+  GitError as CoreGitError,
 } from './core'
 import { stageManualConflictResolution } from './stage'
 import { stageFiles } from './update-index'
@@ -42,6 +43,16 @@ export enum RebaseResult {
    * need to be resolved by the user before the rebase can continue.
    */
   ConflictsEncountered = 'ConflictsEncountered',
+  /**
+   * The interactive rebase stopped at a commit marked for editing, and the
+   * user can amend it before continuing the rebase.
+   */
+  StoppedForEdit = 'StoppedForEdit',
+  /**
+   * The interactive rebase stopped because a command in the todo list, such
+   * as the one rewording a commit, failed. The rebase has to be aborted.
+   */
+  CommandFailed = 'CommandFailed',
   /**
    * The rebase was not able to continue as tracked files were not staged in
    * the index.
@@ -70,6 +81,15 @@ function isRebaseHeadSet(repository: Repository) {
   return pathExists(path)
 }
 
+/**
+ * Check the `.git/rebase-merge/amend` file exists in a repository to confirm
+ * an interactive rebase has stopped at a commit marked for editing.
+ */
+function isRebaseStoppedForEdit(repository: Repository) {
+  const path = Path.join(repository.path, '.git', 'rebase-merge', 'amend')
+  return pathExists(path)
+}
+
 /**
  * Get the internal state about the rebase being performed on a repository. This
  * information is required to help Desktop display information to the user
@@ -254,7 +274,9 @@ export async function getRebaseSnapshot(repository: Repository): Promise<{
  * Attempt to read the `.git/REBASE_HEAD` file inside a repository to confirm
  * the rebase is still active.
  */
-async function readRebaseHead(repository: Repository): Promise<string | null> {
+export async function readRebaseHead(
+  repository: Repository
+): Promise<string | null> {
   try {
     const rebaseHead = Path.join(repository.path, '.git', 'REBASE_HEAD')
     const rebaseCurrentCommitOutput = await readFile(rebaseHead, 'utf8')
@@ -416,6 +438,58 @@ function parseRebaseResult(result: IGitResult): RebaseResult {
   throw new Error(`Unhandled result found: '${JSON.stringify(result)}'`)
 }
 
+/**
+ * Run a git command which replays the todo list of an interactive rebase and
+ * parse its result.
+ *
+ * Git stops the rebase when an `exec` line in the todo list fails, which
+ * isn't an error we can parse, so it's reported as a failed command rather
+ * than thrown.
+ */
+async function execInteractiveRebase(
+  repository: Repository,
+  args: ReadonlyArray<string>,
+  name: string,
+  options: IGitExecutionOptions
+): Promise<RebaseResult> {
+  let result: IGitResult
+
+  try {
+    result = await git([...args], repository.path, name, options)
+  } catch (e) {
+    if (
+      e instanceof CoreGitError &&
+      /^warning: execution (failed|succeeded): /m.test(e.result.stderr)
+    ) {
+      return RebaseResult.CommandFailed
+    }
+
+    throw e
+  }
+
+  return parseInteractiveRebaseResult(repository, result)
+}
+
+/**
+ * Parse the result of an interactive rebase command, which Git reports as
+ * successful when it stops at a commit marked for editing.
+ */
+async function parseInteractiveRebaseResult(
+  repository: Repository,
+  result: IGitResult
+): Promise<RebaseResult> {
+  const rebaseResult = parseRebaseResult(result)
+
+  if (
+    rebaseResult === RebaseResult.CompletedWithoutError &&
+    (await isRebaseStoppedForEdit(repository))
+  ) {
+    return RebaseResult.StoppedForEdit
+  }
+
+  return rebaseResult
+}
+
 /**
  * Proceed with the current rebase operation and report back on whether it completed
  *
@@ -501,24 +575,20 @@ export async function continueRebase(
       `[rebase] no tracked changes to commit for ${rebaseCurrentCommit}, continuing rebase but skipping this commit`
     )
 
-    const result = await git(
+    return execInteractiveRebase(
+      repository,
       ['rebase', '--skip'],
-      repository.path,
       'continueRebaseSkipCurrentCommit',
       options
     )
-
-    return parseRebaseResult(result)
   }
 
-  const result = await git(
+  return execInteractiveRebase(
+    repository,
     ['rebase', '--continue'],
-    repository.path,
     'continueRebase',
     options
   )
-
-  return parseRebaseResult(result)
 }
 
 /**
@@ -570,7 +640,8 @@ export async function rebaseInteractive(
   using the sha thus if lastRetainedCommitRef is null (we couldn't define it),
   we must use the --root flag */
   const ref = lastRetainedCommitRef == null ? '--root' : lastRetainedCommitRef
-  const result = await git(
+  return execInteractiveRebase(
+    repository,
     [
       '-c',
       // This replaces interactive todo with contents of file at pathOfGeneratedTodo
@@ -579,10 +650,7 @@ export async function rebaseInteractive(
       '-i',
       ref,
     ],
-    repository.path,
     action,
     options
   )
-
-  return parseRebaseResult(result)
 }
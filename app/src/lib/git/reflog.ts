@@ -1,5 +1,6 @@
 import { git } from './core'
 import { Repository } from '../../models/repository'
+import { IReflogEntry } from '../../models/reflog-entry'
 
 /**
  * Get the `limit` most recently checked out branches.
@@ -125,3 +126,70 @@ export async function getBranchCheckouts(
 
   return checkouts
 }
+
+/**
+ * Get the entries in the reflog of the given ref, most recent first.
+ *
+ * @param ref   The ref whose reflog to read, e.g. `HEAD` or `main`
+ * @param limit The maximum number of entries to return
+ * @param skip  The number of most recent entries to skip
+ */
+export async function getReflogEntries(
+  repository: Repository,
+  ref: string,
+  limit: number,
+  skip: number = 0
+): Promise<ReadonlyArray<IReflogEntry>> {
+  const delimiter = '1F'
+  const delimiterString = String.fromCharCode(parseInt(delimiter, 16))
+  const format = ['%H', '%gd', '%gs', '%s'].join(`%x${delimiter}`)
+
+  // With --date the selectors contain the time of the change rather than the
+  // position of the entry, so we compute the position ourselves.
+  const result = await git(
+    [
+      'log',
+      '-g',
+      '-z',
+      '--date=unix',
+      `--pretty=${format}`,
+      `--max-count=${limit}`,
+      `--skip=${skip}`,
+      ref,
+      '--',
+    ],
+    repository.path,
+    'getReflogEntries',
+    { successExitCodes: new Set([0, 128]) }
+  )
+
+  // error code 128 is returned if the branch is unborn or there's no reflog
+  if (result.exitCode === 128) {
+    return []
+  }
+
+  const entries = new Array<IReflogEntry>()
+  const dateRe = /@\{(\d+)\}$/
+
+  for (const line of result.stdout.split('\0')) {
+    const pieces = line.split(delimiterString)
+
+    if (pieces.length !== 4) {
+      continue
+    }
+
+    const [sha, dateSelector, message, summary] = pieces
+    const date = dateRe.exec(dateSelector)
+
+    entries.push({
+      selector: `${ref}@{${skip + entries.length}}`,
+      sha,
+      summary,
+      message,
+      date:
+        date === null ? new Date(0) : new Date(parseInt(date[1], 10) * 1000),
+    })
+  }
+
+  return entries
+}
@@ -7,6 +7,7 @@ import { envForRemoteOperation } from './environment'
 import { IGitAccount } from '../../models/git-account'
 import { getSymbolicRef } from './refs'
 import { gitNetworkArguments } from '.'
+import { getConfigValue } from './config'
 
 /**
  * List the remotes, sorted alphabetically by `name`, for a repository.
@@ -70,6 +71,59 @@ export async function setRemoteURL(
   return true
 }
 
+/** Renames the remote that matches the given name */
+export async function renameRemote(
+  repository: Repository,
+  name: string,
+  newName: string
+): Promise<void> {
+  await git(
+    ['remote', 'rename', name, newName],
+    repository.path,
+    'renameRemote'
+  )
+}
+
+/**
+ * Get the separate URL the remote that matches the given name pushes to.
+ *
+ * Returns null if the remote pushes to the URL it fetches from.
+ */
+export function getRemotePushURL(
+  repository: Repository,
+  name: string
+): Promise<string | null> {
+  return getConfigValue(repository, `remote.${name}.pushurl`, true)
+}
+
+/**
+ * Changes the URL the remote that matches the given name pushes to, or makes
+ * it push to the URL it fetches from when the URL is null.
+ */
+export async function setRemotePushURL(
+  repository: Repository,
+  name: string,
+  url: string | null
+): Promise<true> {
+  if (url === null) {
+    // Unsetting a value which isn't set exits with code 5
+    await git(
+      ['config', '--local', '--unset-all', `remote.${name}.pushurl`],
+      repository.path,
+      'setRemotePushURL',
+      { successExitCodes: new Set([0, 5]) }
+    )
+  } else {
+    await git(
+      ['remote', 'set-url', '--push', name, url],
+      repository.path,
+      'setRemotePushURL'
+    )
+  }
+
+  return true
+}
+
 /**
  * Get the URL for the remote that matches the given name.
  *
@@ -1,5 +1,9 @@
 import { git } from './core'
 import { Repository } from '../../models/repository'
+import {
+  WorkingDirectoryFileChange,
+  AppFileStatusKind,
+} from '../../models/status'
 import { assertNever } from '../fatal-error'
 
 /** The reset modes which are supported. */
@@ -99,3 +103,29 @@ export async function unstageAll(repository: Repository): Promise<true> {
   await git(['reset', '--', '.'], repository.path, 'unstageAll')
   return true
 }
+
+/**
+ * Unstage the given files, leaving any changes to them in the working
+ * directory.
+ */
+export async function unstageFiles(
+  repository: Repository,
+  files: ReadonlyArray<WorkingDirectoryFileChange>
+): Promise<void> {
+  const paths = new Array<string>()
+
+  for (const file of files) {
+    paths.push(file.path)
+
+    // The removal of the original file is part of a staged rename
+    if (file.status.kind === AppFileStatusKind.Renamed) {
+      paths.push(file.status.oldPath)
+    }
+  }
+
+  if (paths.length === 0) {
+    return
+  }
+
+  await git(['reset', '--', ...paths], repository.path, 'unstageFiles')
+}
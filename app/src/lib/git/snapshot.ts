@@ -0,0 +1,185 @@
+import * as Path from 'path'
+import { copyFile, rm } from 'fs/promises'
+import { git } from './core'
+import { Repository } from '../../models/repository'
+import {
+  IRepositorySnapshot,
+  IWorkingDirectoryState,
+} from '../../models/operation-journal'
+import { GitResetMode, reset } from './reset'
+import { getTempFilePath } from '../file-system'
+import { pathExists } from '../../ui/lib/path-exists'
+
+/**
+ * The prefix of the refs which keep the commits the operation journal refers
+ * to from being garbage collected
+ */
+const JournalRefPrefix = 'refs/desktop/journal/'
+
+/**
+ * Record the commit the checked out branch points to and the changes in the
+ * index and working directory, without changing either of them.
+ *
+ * Untracked files aren't part of the snapshot.
+ *
+ * @param branchName The name of the checked out branch
+ */
+export async function createRepositorySnapshot(
+  repository: Repository,
+  branchName: string
+): Promise<IRepositorySnapshot> {
+  const headSha = await getHeadSha(repository)
+
+  // Unlike `git stash push` this creates the stash commit without storing it
+  // in the stash list or touching the working directory. It prints nothing
+  // when there are no changes.
+  const stash = await git(
+    ['stash', 'create'],
+    repository.path,
+    'createRepositorySnapshot'
+  )
+  const stashSha = stash.stdout.trim()
+
+  return {
+    branchName,
+    headSha,
+    stashSha: stashSha.length > 0 ? stashSha : null,
+  }
+}
+
+/** Get the SHA of the commit HEAD points to */
+export async function getHeadSha(repository: Repository): Promise<string> {
+  const result = await git(['rev-parse', 'HEAD'], repository.path, 'getHeadSha')
+  return result.stdout.trim()
+}
+
+/**
+ * Move the checked out branch back to the commit in the snapshot and restore
+ * the changes in the index and working directory.
+ *
+ * Any changes to tracked files in the working directory are overwritten, so
+ * callers should take a snapshot first if they want to be able to go back.
+ */
+export async function restoreRepositorySnapshot(
+  repository: Repository,
+  snapshot: IRepositorySnapshot
+): Promise<void> {
+  await reset(repository, GitResetMode.Hard, snapshot.headSha)
+  await applyRepositorySnapshotChanges(repository, snapshot)
+}
+
+/**
+ * Apply the changes in the index and working directory recorded in the
+ * snapshot on top of the current ones, without moving the checked out branch.
+ *
+ * Git refuses to apply the changes to files which have been changed since
+ * the snapshot was taken, rather than overwriting them.
+ */
+export async function applyRepositorySnapshotChanges(
+  repository: Repository,
+  snapshot: IRepositorySnapshot
+): Promise<void> {
+  if (snapshot.stashSha !== null) {
+    await git(
+      ['stash', 'apply', '--index', '--quiet', snapshot.stashSha],
+      repository.path,
+      'applyRepositorySnapshotChanges'
+    )
+  }
+}
+
+/**
+ * Get the state of the index and of every file in the working directory
+ * which isn't ignored, including untracked files, without changing either of
+ * them. Unlike a snapshot, getting the state twice gives the same result as
+ * long as nothing has changed in between.
+ */
+export async function getWorkingDirectoryState(
+  repository: Repository
+): Promise<IWorkingDirectoryState> {
+  const index = await git(
+    ['write-tree'],
+    repository.path,
+    'getWorkingDirectoryState'
+  )
+
+  // Add everything to a copy of the index rather than the index itself. The
+  // copy keeps the file stats of the index so only changed files are hashed.
+  const indexPath = await git(
+    ['rev-parse', '--git-path', 'index'],
+    repository.path,
+    'getWorkingDirectoryState'
+  )
+  const tempIndexPath = await getTempFilePath('snapshotIndex')
+  const env = { GIT_INDEX_FILE: tempIndexPath }
+
+  try {
+    const source = Path.resolve(repository.path, indexPath.stdout.trim())
+    if (await pathExists(source)) {
+      await copyFile(source, tempIndexPath)
+    }
+
+    await git(['add', '--all'], repository.path, 'getWorkingDirectoryState', {
+      env,
+    })
+    const workingDirectory = await git(
+      ['write-tree'],
+      repository.path,
+      'getWorkingDirectoryState',
+      { env }
+    )
+
+    return {
+      indexTree: index.stdout.trim(),
+      workingDirectoryTree: workingDirectory.stdout.trim(),
+    }
+  } finally {
+    await rm(Path.dirname(tempIndexPath), { recursive: true, force: true })
+  }
+}
+
+/** Whether the index and working directory are in the same state in both */
+export function isSameWorkingDirectoryState(
+  x: IWorkingDirectoryState,
+  y: IWorkingDirectoryState
+) {
+  return (
+    x.indexTree === y.indexTree &&
+    x.workingDirectoryTree === y.workingDirectoryTree
+  )
+}
+
+/**
+ * Point a ref at each of the given commits and remove the refs to any other
+ * commits, so that the commits which the operation journal needs aren't
+ * garbage collected while they're unreachable.
+ */
+export async function updateJournalRefs(
+  repository: Repository,
+  shas: ReadonlySet<string>
+): Promise<void> {
+  const result = await git(
+    ['for-each-ref', '--format=%(refname)', JournalRefPrefix],
+    repository.path,
+    'updateJournalRefs'
+  )
+  const existing = new Set(result.stdout.split('\n').filter(r => r.length > 0))
+
+  const commands = new Array<string>()
+  for (const ref of existing) {
+    if (!shas.has(ref.substring(JournalRefPrefix.length))) {
+      commands.push(`delete ${ref}`)
+    }
+  }
+  for (const sha of shas) {
+    if (!existing.has(`${JournalRefPrefix}${sha}`)) {
+      commands.push(`create ${JournalRefPrefix}${sha} ${sha}`)
+    }
+  }
+
+  if (commands.length > 0) {
+    await git(['update-ref', '--stdin'], repository.path, 'updateJournalRefs', {
+      stdin: commands.map(c => `${c}\n`).join(''),
+    })
+  }
+}
@@ -31,6 +31,12 @@ export async function stageManualConflictResolution(
     return
   }
 
+  if (manualResolution === ManualConflictResolution.edited) {
+    // The file was resolved in the conflict editor, which already wrote the
+    // resolved contents to disk.
+    return addConflictedFile(repository, file)
+  }
+
   if (isConflictWithMarkers(status) && status.conflictMarkerCount === 0) {
     // If somehow the user used the Desktop UI to solve the conflict via ours/theirs
     // but afterwards resolved manually the conflicts via an editor, used the manually
@@ -9,6 +9,7 @@ import {
 import {
   WorkingDirectoryFileChange,
   CommittedFileChange,
+  AppFileStatusKind,
 } from '../../models/status'
 import { parseRawLogWithNumstat } from './log'
 import { stageFiles } from './update-index'
@@ -24,10 +25,23 @@ export const DesktopStashEntryMarker = '!!GitHub_Desktop'
  */
 const desktopStashEntryMessageRe = /!!GitHub_Desktop<(.+)>$/
 
+/**
+ * RegEx for parsing the message git records for a stash entry, i.e.
+ * `On <branch>: <message>` for entries created with a message and
+ * `WIP on <branch>: <sha> <summary>` for entries created without one.
+ */
+const stashEntryMessageRe = /^(?:WIP on|On) ([^:]+): ([\s\S]*)$/
+
 type StashResult = {
   /** The stash entries created by Desktop */
   readonly desktopEntries: ReadonlyArray<IStashEntry>
 
+  /**
+   * All stash entries in the repository, i.e. stash entries created both by
+   * Desktop and outside of Desktop, most recent first.
+   */
+  readonly entries: ReadonlyArray<IStashEntry>
+
   /**
    * The total amount of stash entries,
    * i.e. stash entries created both by Desktop and outside of Desktop
@@ -57,10 +71,11 @@ export async function getStashes(repository: Repository): Promise<StashResult> {
   // There's no refs/stashes reflog in the repository or it's not
   // even a repository. In either case we don't care
   if (result.exitCode === 128) {
-    return { desktopEntries: [], stashEntryCount: 0 }
+    return { desktopEntries: [], entries: [], stashEntryCount: 0 }
   }
 
   const desktopStashEntries: Array<IStashEntry> = []
+  const stashEntries: Array<IStashEntry> = []
   const files: StashedFileChanges = {
     kind: StashedChangesLoadStates.NotLoaded,
   }
@@ -70,22 +85,28 @@ export async function getStashes(repository: Repository): Promise<StashResult> {
     const pieces = entry.split(delimiterString)
 
     if (pieces.length === 3) {
-      const [name, stashSha, message] = pieces
-      const branchName = extractBranchFromMessage(message)
+      const [name, stashSha, rawMessage] = pieces
+      const branchName = extractBranchFromMessage(rawMessage)
+      const parsed = parseStashEntryMessage(rawMessage)
+      const stashEntry = {
+        name,
+        branchName: branchName ?? parsed.branchName,
+        stashSha,
+        message: parsed.message,
+        files,
+      }
 
       if (branchName !== null) {
-        desktopStashEntries.push({
-          name,
-          branchName,
-          stashSha,
-          files,
-        })
+        desktopStashEntries.push(stashEntry)
       }
+
+      stashEntries.push(stashEntry)
     }
   }
 
   return {
     desktopEntries: desktopStashEntries,
+    entries: stashEntries,
     stashEntryCount: entries.length - 1,
   }
 }
@@ -164,9 +185,156 @@ export async function createDesktopStashEntry(
   return true
 }
 
+/**
+ * Stash changes in the working directory as a new stash entry with an
+ * optional custom message.
+ *
+ * Unlike `createDesktopStashEntry` this doesn't replace the Desktop stash
+ * entry for the current branch, it just adds another entry to the stash.
+ *
+ * @param message - The message for the stash entry, or null to have git
+ *                  generate one from the current commit.
+ * @param files   - The files to stash. Other changes in the working
+ *                  directory are left untouched.
+ */
+export async function createStashEntry(
+  repository: Repository,
+  message: string | null,
+  files: ReadonlyArray<WorkingDirectoryFileChange>
+): Promise<boolean> {
+  // git stash only picks up untracked files when they're in the index, see
+  // createDesktopStashEntry
+  const untrackedFiles = files.filter(
+    f => f.status.kind === AppFileStatusKind.Untracked
+  )
+  await stageFiles(
+    repository,
+    untrackedFiles.map(f => f.withIncludeAll(true))
+  )
+
+  const paths = new Array<string>()
+  for (const file of files) {
+    paths.push(file.path)
+
+    if (file.status.kind === AppFileStatusKind.Renamed) {
+      paths.push(file.status.oldPath)
+    }
+  }
+
+  const args = ['stash', 'push']
+
+  if (message !== null && message.length > 0) {
+    args.push('-m', message)
+  }
+
+  args.push('--pathspec-from-file=-', '--pathspec-file-nul')
+
+  const result = await git(args, repository.path, 'createStashEntry', {
+    stdin: paths.join('\0'),
+  })
+
+  return result.stdout !== 'No local changes to save\n'
+}
+
+/**
+ * Applies the stash entry identified by `stashSha` to the working directory
+ * without removing it from the stash.
+ */
+export async function applyStashEntry(
+  repository: Repository,
+  stashSha: string
+): Promise<void> {
+  const expectedErrors = new Set<DugiteError>([DugiteError.MergeConflicts])
+  const successExitCodes = new Set<number>([0, 1])
+  const stashToApply = await getStashEntryMatchingSha(repository, stashSha)
+
+  if (stashToApply !== null) {
+    const args = ['stash', 'apply', '--quiet', stashToApply.name]
+    const result = await git(args, repository.path, 'applyStashEntry', {
+      expectedErrors,
+      successExitCodes,
+    })
+
+    // Applying a stash entry that conflicts with the working directory
+    // reports an exit code of `1`, anything in stderr means it couldn't be
+    // applied at all.
+    if (result.exitCode === 1 && result.stderr.length > 0) {
+      throw new GitError(result, args)
+    }
+  }
+}
+
+/**
+ * Changes the message of the stash entry identified by `stashSha`.
+ *
+ * Git doesn't support editing stash entries so the entry is stored again
+ * with the new message, making it the most recent entry, and the old entry
+ * is dropped.
+ * Entries created by Desktop keep their marker so that they're still
+ * associated with their branch.
+ */
+export async function renameStashEntry(
+  repository: Repository,
+  stashSha: string,
+  message: string
+): Promise<void> {
+  const stash = await getStashes(repository)
+  const entry = stash.entries.find(e => e.stashSha === stashSha)
+
+  if (entry === undefined) {
+    return
+  }
+
+  const isDesktopEntry = stash.desktopEntries.some(e => e.stashSha === stashSha)
+  const getFullMessage = (msg: string) =>
+    isDesktopEntry
+      ? `On ${entry.branchName}: ${msg} ${createDesktopStashMessage(
+          entry.branchName
+        )}`
+      : `On ${entry.branchName}: ${msg}`
+
+  const match = /^(.+)@{(\d+)}$/.exec(entry.name)
+  if (match === null) {
+    throw new Error(`Unexpected name of stash entry: ${entry.name}`)
+  }
+
+  const [, stashRef, index] = match
+  const store = (msg: string) =>
+    git(
+      ['stash', 'store', '-m', getFullMessage(msg), stashSha],
+      repository.path,
+      'renameStashEntry'
+    )
+
+  if (index !== '0') {
+    // Store the entry with its new message before dropping the old one so
+    // that it isn't lost if storing fails. Storing pushes the old entry down
+    // by one.
+    await store(message)
+    await git(
+      ['stash', 'drop', `${stashRef}@{${parseInt(index, 10) + 1}}`],
+      repository.path,
+      'renameStashEntry'
+    )
+    return
+  }
+
+  // Git doesn't record storing the commit which is already the most recent
+  // entry, so that one has to be dropped first. Put it back the way it was if
+  // storing it with the new message fails.
+  await git(['stash', 'drop', entry.name], repository.path, 'renameStashEntry')
+
+  try {
+    await store(message)
+  } catch (e) {
+    await store(entry.message)
+    throw e
+  }
+}
+
 async function getStashEntryMatchingSha(repository: Repository, sha: string) {
   const stash = await getStashes(repository)
-  return stash.desktopEntries.find(e => e.stashSha === sha) || null
+  return stash.entries.find(e => e.stashSha === sha) || null
 }
 
 /**
@@ -233,6 +401,25 @@ function extractBranchFromMessage(message: string): string | null {
   return match === null || match[1].length === 0 ? null : match[1]
 }
 
+/**
+ * Split the message git records for a stash entry into the name of the
+ * branch the entry was created on and the message itself, leaving out the
+ * marker of entries created by Desktop.
+ */
+export function parseStashEntryMessage(rawMessage: string): {
+  readonly branchName: string
+  readonly message: string
+} {
+  const withoutMarker = rawMessage.replace(desktopStashEntryMessageRe, '')
+  const match = stashEntryMessageRe.exec(withoutMarker)
+
+  if (match === null) {
+    return { branchName: '', message: withoutMarker.trim() }
+  }
+
+  return { branchName: match[1], message: match[2].trim() }
+}
+
 /** Get the files that were changed in the given stash commit */
 export async function getStashedFiles(
   repository: Repository,
@@ -334,11 +334,41 @@ function buildStatusMap(
 
   files.set(
     entry.path,
-    new WorkingDirectoryFileChange(entry.path, appStatus, selection)
+    new WorkingDirectoryFileChange(
+      entry.path,
+      appStatus,
+      selection,
+      getStagedSelectionType(status, entry.statusCode)
+    )
   )
   return files
 }
 
+/**
+ * Determine how much of a change has been staged in the index by looking at
+ * the index (X) and working tree (Y) parts of the porcelain status code.
+ *
+ * Conflicted and untracked entries are never considered staged.
+ */
+function getStagedSelectionType(
+  entry: FileEntry,
+  statusCode: string
+): DiffSelectionType {
+  if (entry.kind === 'untracked' || entry.kind === 'conflicted') {
+    return DiffSelectionType.None
+  }
+
+  const [index, workingTree] = statusCode
+
+  if (index === GitStatusEntry.Unchanged) {
+    return DiffSelectionType.None
+  }
+
+  return workingTree === GitStatusEntry.Unchanged
+    ? DiffSelectionType.All
+    : DiffSelectionType.Partial
+}
+
 /**
  * Update status header based on the current header entry.
  * Reducer.
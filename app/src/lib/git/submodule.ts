@@ -2,18 +2,32 @@ import * as Path from 'path'
 
 import { git } from './core'
 import { Repository } from '../../models/repository'
-import { SubmoduleEntry } from '../../models/submodule'
+import { IGitAccount } from '../../models/git-account'
+import { AuthenticationErrors } from './authentication'
+import {
+  envForRemoteOperation,
+  getFallbackUrlForProxyResolve,
+} from './environment'
+import {
+  ISubmodule,
+  SubmoduleEntry,
+  SubmoduleState,
+} from '../../models/submodule'
 import { pathExists } from '../../ui/lib/path-exists'
 
-export async function listSubmodules(
-  repository: Repository
-): Promise<ReadonlyArray<SubmoduleEntry>> {
+async function hasSubmodules(repository: Repository): Promise<boolean> {
   const [submodulesFile, submodulesDir] = await Promise.all([
     pathExists(Path.join(repository.path, '.gitmodules')),
     pathExists(Path.join(repository.path, '.git', 'modules')),
   ])
 
-  if (!submodulesFile && !submodulesDir) {
+  return submodulesFile || submodulesDir
+}
+
+export async function listSubmodules(
+  repository: Repository
+): Promise<ReadonlyArray<SubmoduleEntry>> {
+  if (!(await hasSubmodules(repository))) {
     log.info('No submodules found. Skipping "git submodule status"')
     return []
   }
@@ -76,3 +90,234 @@ export async function resetSubmodulePaths(
     'updateSubmodule'
   )
 }
+
+/**
+ * Get the top-level submodules of the repository along with their URL, the
+ * commit recorded in the repository and the commit checked out.
+ */
+export async function getSubmodules(
+  repository: Repository
+): Promise<ReadonlyArray<ISubmodule>> {
+  if (!(await hasSubmodules(repository))) {
+    return []
+  }
+
+  const { stdout, exitCode } = await git(
+    ['submodule', 'status', '--'],
+    repository.path,
+    'getSubmodules',
+    { successExitCodes: new Set([0, 128]) }
+  )
+
+  if (exitCode === 128) {
+    return []
+  }
+
+  const [urls, recordedShas] = await Promise.all([
+    getSubmoduleURLs(repository),
+    getRecordedSubmoduleShas(repository),
+  ])
+
+  // Unlike in `listSubmodules` the output of `git describe` is optional since
+  // it's missing for submodules which aren't initialized.
+  const statusRe = /^([ +U-])([0-9a-f]+) (.+?)(?: \(.+\))?$/gm
+  const matches = [...stdout.matchAll(statusRe)]
+
+  return Promise.all(
+    matches.map(async ([, prefix, sha, path]): Promise<ISubmodule> => {
+      const state =
+        prefix === '-'
+          ? SubmoduleState.Uninitialized
+          : prefix === '+'
+          ? SubmoduleState.OutOfDate
+          : prefix === 'U'
+          ? SubmoduleState.Conflicted
+          : SubmoduleState.UpToDate
+
+      const isInitialized = state !== SubmoduleState.Uninitialized
+
+      return {
+        path,
+        url: urls.get(path) ?? null,
+        recordedSha: recordedShas.get(path) ?? null,
+        checkedOutSha: isInitialized ? sha : null,
+        state,
+        isDirty: isInitialized && (await isSubmoduleDirty(repository, path)),
+      }
+    })
+  )
+}
+
+/** Get the URLs in `.gitmodules`, keyed by the path of the submodule */
+async function getSubmoduleURLs(
+  repository: Repository
+): Promise<Map<string, string>> {
+  const { stdout } = await git(
+    [
+      'config',
+      '--file',
+      '.gitmodules',
+      '--null',
+      '--get-regexp',
+      '^submodule\\..*\\.(path|url)$',
+    ],
+    repository.path,
+    'getSubmoduleURLs',
+    // Exit code 1 means there are no submodules in the file
+    { successExitCodes: new Set([0, 1]) }
+  )
+
+  const paths = new Map<string, string>()
+  const urls = new Map<string, string>()
+
+  // Entries are of the format `submodule.<name>.<key>\n<value>\0`
+  for (const entry of stdout.split('\0')) {
+    const m = /^submodule\.(.+)\.(path|url)\n(.*)$/s.exec(entry)
+    if (m !== null) {
+      const [, name, key, value] = m
+      if (key === 'path') {
+        paths.set(name, value)
+      } else {
+        urls.set(name, value)
+      }
+    }
+  }
+
+  const urlsByPath = new Map<string, string>()
+  for (const [name, path] of paths) {
+    const url = urls.get(name)
+    if (url !== undefined) {
+      urlsByPath.set(path, url)
+    }
+  }
+
+  return urlsByPath
+}
+
+/**
+ * Get the SHAs of the commits recorded in the index for each submodule, keyed
+ * by the path of the submodule
+ */
+async function getRecordedSubmoduleShas(
+  repository: Repository
+): Promise<Map<string, string>> {
+  const { stdout } = await git(
+    ['ls-files', '--stage', '-z'],
+    repository.path,
+    'getRecordedSubmoduleShas'
+  )
+
+  const shas = new Map<string, string>()
+
+  // Entries are of the format `<mode> <sha> <stage>\t<path>`, submodules are
+  // recorded as entries with the gitlink mode 160000.
+  for (const entry of stdout.split('\0')) {
+    const m = /^160000 ([0-9a-f]+) 0\t(.+)$/.exec(entry)
+    if (m !== null) {
+      shas.set(m[2], m[1])
+    }
+  }
+
+  return shas
+}
+
+async function isSubmoduleDirty(
+  repository: Repository,
+  path: string
+): Promise<boolean> {
+  const { stdout } = await git(
+    ['status', '--porcelain', '-z'],
+    Path.join(repository.path, path),
+    'isSubmoduleDirty'
+  )
+
+  return stdout.length > 0
+}
+
+/**
+ * Initialize and check out the recorded commit of the given submodules,
+ * cloning them if needed.
+ *
+ * @param account   The account to authenticate with when cloning or
+ *                  fetching the submodules
+ * @param paths     The paths of the submodules to update, or all submodules
+ *                  if empty
+ * @param recursive Whether to also update the submodules of the submodules
+ */
+export async function updateSubmodules(
+  repository: Repository,
+  account: IGitAccount | null,
+  paths: ReadonlyArray<string>,
+  recursive: boolean
+): Promise<void> {
+  const args = ['submodule', 'update', '--init']
+
+  if (recursive) {
+    args.push('--recursive')
+  }
+
+  await git([...args, '--', ...paths], repository.path, 'updateSubmodules', {
+    env: await envForRemoteOperation(
+      account,
+      getFallbackUrlForProxyResolve(account, repository)
+    ),
+    expectedErrors: AuthenticationErrors,
+  })
+}
+
+/**
+ * Update the remote URLs of the given submodules to the URLs in
+ * `.gitmodules`.
+ *
+ * @param paths The paths of the submodules to sync, or all submodules if
+ *              empty
+ */
+export async function syncSubmodules(
+  repository: Repository,
+  paths: ReadonlyArray<string>
+): Promise<void> {
+  await git(
+    ['submodule', 'sync', '--recursive', '--', ...paths],
+    repository.path,
+    'syncSubmodules'
+  )
+}
+
+/**
+ * Clone the repository at the URL into the path and add it as a submodule
+ *
+ * @param account The account to authenticate with when cloning the
+ *                repository
+ */
+export async function addSubmodule(
+  repository: Repository,
+  account: IGitAccount | null,
+  url: string,
+  path: string
+): Promise<void> {
+  await git(
+    ['submodule', 'add', '--', url, path],
+    repository.path,
+    'addSubmodule',
+    {
+      env: await envForRemoteOperation(account, url),
+      expectedErrors: AuthenticationErrors,
+    }
+  )
+}
+
+/**
+ * Remove the working directory of the submodule, leaving it uninitialized.
+ *
+ * This fails if the submodule has changes in its working directory.
+ */
+export async function deinitSubmodule(
+  repository: Repository,
+  path: string
+): Promise<void> {
+  await git(
+    ['submodule', 'deinit', '--', path],
+    repository.path,
+    'deinitSubmodule'
+  )
+}
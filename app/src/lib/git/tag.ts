@@ -3,20 +3,25 @@ import { Repository } from '../../models/repository'
 import { IGitAccount } from '../../models/git-account'
 import { IRemote } from '../../models/remote'
 import { envForRemoteOperation } from './environment'
+import { ITag } from '../../models/tag'
+import { CommitIdentity } from '../../models/commit-identity'
+import { createForEachRefParser } from './git-delimiter-parser'
 
 /**
- * Create a new tag on the given target commit.
+ * Create a new annotated tag on the given target commit.
  *
  * @param repository        - The repository in which to create the new tag.
  * @param name              - The name of the new tag.
  * @param targetCommitSha   - The SHA of the commit where the new tag will live on.
+ * @param message           - The annotation message of the new tag.
  */
 export async function createTag(
   repository: Repository,
   name: string,
-  targetCommitSha: string
+  targetCommitSha: string,
+  message: string = ''
 ): Promise<void> {
-  const args = ['tag', '-a', '-m', '', name, targetCommitSha]
+  const args = ['tag', '-a', '-m', message, name, targetCommitSha]
 
   await git(args, repository.path, 'createTag')
 }
@@ -76,6 +81,139 @@ export async function getAllTags(
   return new Map(tagsArray)
 }
 
+/**
+ * Get all the local tags along with their annotations, most recently created
+ * first.
+ *
+ * @param repository    The repository in which to get all the tags from.
+ */
+export async function getTags(
+  repository: Repository
+): Promise<ReadonlyArray<ITag>> {
+  const { formatArgs, parse } = createForEachRefParser({
+    name: '%(refname:short)',
+    type: '%(objecttype)',
+    sha: '%(objectname)',
+    peeledSha: '%(*objectname)',
+    tagger: '%(tagger)',
+    message: '%(contents)',
+  })
+
+  const result = await git(
+    ['for-each-ref', '--sort=-creatordate', ...formatArgs, 'refs/tags'],
+    repository.path,
+    'getTags'
+  )
+
+  return parse(result.stdout).map(ref => {
+    // Lightweight tags point straight at the commit, while annotated tags
+    // point at a tag object which has to be peeled to get to the commit.
+    const isAnnotated = ref.type === 'tag'
+
+    return {
+      name: ref.name,
+      targetSha: isAnnotated ? ref.peeledSha : ref.sha,
+      isAnnotated,
+      message: isAnnotated ? ref.message.trim() : null,
+      tagger:
+        isAnnotated && ref.tagger.length > 0
+          ? CommitIdentity.parseIdentity(ref.tagger)
+          : null,
+    }
+  })
+}
+
+/**
+ * Gets all the tags in the remote repository (it does a network request).
+ * Returns a Map with the tag name and the commit it points to.
+ *
+ * @param repository  - The repository whose remote to get the tags from
+ * @param account     - The account to use when authenticating with the remote
+ * @param remote      - The remote to get the tags from
+ */
+export async function getRemoteTags(
+  repository: Repository,
+  account: IGitAccount | null,
+  remote: IRemote
+): Promise<Map<string, string>> {
+  const args = [...gitNetworkArguments(), 'ls-remote', '--tags', remote.name]
+
+  const result = await git(args, repository.path, 'getRemoteTags', {
+    env: await envForRemoteOperation(account, remote.url),
+  })
+
+  const tags = new Map<string, string>()
+
+  for (const line of result.stdout.split('\n')) {
+    const [sha, ref] = line.split('\t')
+
+    if (ref === undefined) {
+      continue
+    }
+
+    // Just like git show-ref, git ls-remote lists annotated tags twice and
+    // the peeled entry with the commit sha always comes last.
+    tags.set(ref.replace(/^refs\/tags\//, '').replace(/\^\{\}$/, ''), sha)
+  }
+
+  return tags
+}
+
+/**
+ * Push a single tag to the remote repository.
+ *
+ * @param repository  - The repository from which to push the tag
+ * @param account     - The account to use when authenticating with the remote
+ * @param remote      - The remote to push the tag to
+ * @param name        - The name of the tag to push
+ */
+export async function pushTag(
+  repository: Repository,
+  account: IGitAccount | null,
+  remote: IRemote,
+  name: string
+): Promise<void> {
+  const args = [
+    ...gitNetworkArguments(),
+    'push',
+    remote.name,
+    `refs/tags/${name}`,
+    '--no-verify',
+  ]
+
+  await git(args, repository.path, 'pushTag', {
+    env: await envForRemoteOperation(account, remote.url),
+  })
+}
+
+/**
+ * Delete a tag from the remote repository, leaving the local tag (if any)
+ * untouched.
+ *
+ * @param repository  - The repository whose remote to delete the tag from
+ * @param account     - The account to use when authenticating with the remote
+ * @param remote      - The remote to delete the tag from
+ * @param name        - The name of the tag to delete
+ */
+export async function deleteRemoteTag(
+  repository: Repository,
+  account: IGitAccount | null,
+  remote: IRemote,
+  name: string
+): Promise<void> {
+  const args = [
+    ...gitNetworkArguments(),
+    'push',
+    remote.name,
+    `:refs/tags/${name}`,
+    '--no-verify',
+  ]
+
+  await git(args, repository.path, 'deleteRemoteTag', {
+    env: await envForRemoteOperation(account, remote.url),
+  })
+}
+
 /**
  * Fetches the tags that will get pushed to the remote repository (it does a network request).
  *
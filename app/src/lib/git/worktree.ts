@@ -0,0 +1,154 @@
+import * as Path from 'path'
+
+import { git } from './core'
+import { Repository, LinkedWorkTree } from '../../models/repository'
+
+/**
+ * Parse the output of `git worktree list --porcelain` into a list of
+ * linked work trees.
+ *
+ * The first entry in the output is always the main working tree which
+ * isn't a linked work tree and is therefore omitted from the result.
+ * Bare entries are omitted as well since there's nothing to check out
+ * in them.
+ *
+ * Entries are separated by an empty line and look like:
+ *
+ *   worktree /path/to/linked
+ *   HEAD 1eaabe34fc6f486367a176207420378f587d3b48
+ *   branch refs/heads/my-branch
+ *   locked optional reason
+ *   prunable gitdir file points to non-existent location
+ *
+ * Detached work trees have a `detached` line instead of `branch`.
+ */
+export function parseWorkTreeList(
+  stdout: string
+): ReadonlyArray<LinkedWorkTree> {
+  const workTrees = new Array<LinkedWorkTree>()
+  const entries = stdout.split(/\r?\n\r?\n/).filter(e => e.trim().length > 0)
+
+  // The first entry is the main working tree
+  for (const entry of entries.slice(1)) {
+    let path: string | null = null
+    let head: string | null = null
+    let branch: string | null = null
+    let isBare = false
+    let isLocked = false
+    let isPrunable = false
+
+    for (const line of entry.split(/\r?\n/)) {
+      const spaceIndex = line.indexOf(' ')
+      const label = spaceIndex === -1 ? line : line.substring(0, spaceIndex)
+      const value = spaceIndex === -1 ? '' : line.substring(spaceIndex + 1)
+
+      switch (label) {
+        case 'worktree':
+          path = Path.normalize(value)
+          break
+        case 'HEAD':
+          head = value
+          break
+        case 'branch':
+          branch = value.replace(/^refs\/heads\//, '')
+          break
+        case 'bare':
+          isBare = true
+          break
+        case 'locked':
+          isLocked = true
+          break
+        case 'prunable':
+          isPrunable = true
+          break
+      }
+    }
+
+    if (path === null || head === null || isBare) {
+      continue
+    }
+
+    workTrees.push({ path, head, branch, isLocked, isPrunable })
+  }
+
+  return workTrees
+}
+
+/**
+ * List the linked work trees of the given repository.
+ *
+ * Note that the main working tree of the repository isn't included.
+ */
+export async function listWorkTrees(
+  repository: Repository
+): Promise<ReadonlyArray<LinkedWorkTree>> {
+  const { stdout } = await git(
+    ['worktree', 'list', '--porcelain'],
+    repository.path,
+    'listWorkTrees'
+  )
+
+  return parseWorkTreeList(stdout)
+}
+
+/**
+ * Create a new linked work tree at the given path.
+ *
+ * @param repository  - The repository to which the new work tree belongs.
+ * @param path        - The directory where the work tree will be created.
+ *                      Must not exist or be empty.
+ * @param commitish   - The branch or commit to check out in the new work
+ *                      tree. A branch can only be checked out in one work
+ *                      tree at a time.
+ * @param newBranch   - The name of a new branch to create at `commitish`
+ *                      and check out in the new work tree, or null to check
+ *                      out `commitish` as is.
+ */
+export async function addWorkTree(
+  repository: Repository,
+  path: string,
+  commitish: string,
+  newBranch: string | null = null
+): Promise<void> {
+  const args = ['worktree', 'add']
+
+  if (newBranch !== null) {
+    args.push('-b', newBranch)
+  }
+
+  args.push('--', path, commitish)
+
+  await git(args, repository.path, 'addWorkTree')
+}
+
+/**
+ * Remove a linked work tree, deleting its directory from disk.
+ *
+ * @param repository  - The repository to which the work tree belongs.
+ * @param path        - The path of the work tree to remove.
+ * @param force       - Remove the work tree even if it has uncommitted
+ *                      changes or untracked files.
+ */
+export async function removeWorkTree(
+  repository: Repository,
+  path: string,
+  force: boolean = false
+): Promise<void> {
+  const args = ['worktree', 'remove']
+
+  if (force) {
+    args.push('--force')
+  }
+
+  args.push('--', path)
+
+  await git(args, repository.path, 'removeWorkTree')
+}
+
+/**
+ * Remove the administrative files of any work trees whose directories
+ * no longer exist on disk.
+ */
+export async function pruneWorkTrees(repository: Repository): Promise<void> {
+  await git(['worktree', 'prune'], repository.path, 'pruneWorkTrees')
+}
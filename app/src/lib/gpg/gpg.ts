@@ -0,0 +1,25 @@
+import * as Path from 'path'
+
+/** Returns the path of the script Git runs in place of gpg to sign commits. */
+export function getGPGSignScriptPath(): string {
+  return Path.resolve(__dirname, 'static', 'gpg-sign.sh')
+}
+
+/**
+ * Returns the git environment variables which make Git sign commits with
+ * OpenPGP keys through our script, so that gpg asks for passphrases through
+ * the trampoline rather than through the pinentry program of gpg-agent.
+ *
+ * The setting is passed as an extra config entry after any the user has
+ * passed through the environment themselves.
+ */
+export function getGPGEnvironment() {
+  const parsedCount = parseInt(process.env.GIT_CONFIG_COUNT ?? '', 10)
+  const count = isNaN(parsedCount) || parsedCount < 0 ? 0 : parsedCount
+
+  return {
+    GIT_CONFIG_COUNT: `${count + 1}`,
+    [`GIT_CONFIG_KEY_${count}`]: 'gpg.openpgp.program',
+    [`GIT_CONFIG_VALUE_${count}`]: getGPGSignScriptPath(),
+  }
+}
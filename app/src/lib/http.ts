@@ -2,7 +2,7 @@ import * as appProxy from '../ui/lib/app-proxy'
 import { URL } from 'url'
 
 /** The HTTP methods available. */
-export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'HEAD'
+export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'HEAD'
 
 /**
  * The structure of error messages returned from the GitHub API.
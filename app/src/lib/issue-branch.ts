@@ -0,0 +1,39 @@
+import { sanitizedRefName } from './sanitize-ref-name'
+
+/** The maximum length of the name suggested for the branch of an issue */
+const MaxBranchNameLength = 50
+
+/**
+ * Get the name to suggest for a branch for working on an issue, made up of
+ * the number and the title of the issue, e.g. `123-fix-the-thing`.
+ */
+export function getBranchNameForIssue(issueNumber: number, title: string) {
+  const name = `${issueNumber}-${title.trim().toLowerCase()}`
+  return sanitizedRefName(name.substring(0, MaxBranchNameLength)).replace(
+    /-+$/,
+    ''
+  )
+}
+
+/**
+ * Add a line closing the given issue when merged to the end of a commit
+ * description, unless the description already references the issue with one
+ * of the keywords GitHub closes issues for.
+ */
+export function appendClosesIssue(
+  description: string | null,
+  issueNumber: number
+) {
+  const trimmed = description?.trim() ?? ''
+  const keywordRe = new RegExp(
+    `\\b(close[sd]?|fix(e[sd])?|resolve[sd]?):?\\s+#${issueNumber}\\b`,
+    'i'
+  )
+
+  if (keywordRe.test(trimmed)) {
+    return trimmed
+  }
+
+  const closes = `Closes #${issueNumber}`
+  return trimmed.length > 0 ? `${trimmed}\n\n${closes}` : closes
+}
@@ -22,7 +22,7 @@ export async function getLargeFilePaths(
   const fileNames = new Array<string>()
   const workingDirectoryFiles = workingDirectory.files
   const includedFiles = workingDirectoryFiles.filter(
-    file => file.selection.getSelectionType() !== DiffSelectionType.None
+    file => file.getIncludedType() !== DiffSelectionType.None
   )
 
   for (const file of includedFiles) {
@@ -108,6 +108,13 @@ const allMenuIds: ReadonlyArray<MenuIDs> = [
   'delete-branch',
   'discard-all-changes',
   'stash-all-changes',
+  'show-stash-list',
+  'show-reflog',
+  'show-tags',
+  'show-issues',
+  'show-lfs-locks',
+  'undo-operation',
+  'redo-operation',
   'preferences',
   'update-branch-with-contribution-target-branch',
   'compare-to-branch',
@@ -170,6 +177,8 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
   let branchHasStashEntry = false
   let onContributionTargetDefaultBranch = false
   let hasContributionTargetDefaultBranch = false
+  let hasOperationToUndo = false
+  let hasOperationToRedo = false
 
   // check that its a github repo and if so, that is has issues enabled
   const repoIssuesEnabled =
@@ -224,6 +233,10 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
       changesState.conflictState !== null ||
       hasConflictedFiles(workingDirectory)
     hasChangedFiles = workingDirectory.files.length > 0
+
+    const { operationJournal } = selectedState.state
+    hasOperationToUndo = operationJournal.undo.length > 0
+    hasOperationToRedo = operationJournal.redo.length > 0
   }
 
   // These are IDs for menu items that are entirely _and only_
@@ -242,6 +255,10 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
     'show-branches-list',
     'open-external-editor',
     'compare-to-branch',
+    'show-stash-list',
+    'show-reflog',
+    'show-tags',
+    'show-lfs-locks',
   ]
 
   const menuStateBuilder = new MenuStateBuilder()
@@ -289,6 +306,7 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
       'create-issue-in-repository-on-github',
       repoIssuesEnabled
     )
+    menuStateBuilder.setEnabled('show-issues', repoIssuesEnabled)
     menuStateBuilder.setEnabled(
       'create-pull-request',
       isHostedOnGitHub && !branchIsUnborn && !onDetachedHead
@@ -325,6 +343,14 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
 
     menuStateBuilder.setEnabled('compare-to-branch', !onDetachedHead)
     menuStateBuilder.setEnabled('toggle-stashed-changes', branchHasStashEntry)
+    menuStateBuilder.setEnabled(
+      'undo-operation',
+      hasOperationToUndo && !hasConflicts
+    )
+    menuStateBuilder.setEnabled(
+      'redo-operation',
+      hasOperationToRedo && !hasConflicts
+    )
 
     if (
       selectedState &&
@@ -338,6 +364,7 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
     }
 
     menuStateBuilder.disable('view-repository-on-github')
+    menuStateBuilder.disable('show-issues')
     menuStateBuilder.disable('create-pull-request')
     if (enableStartingPullRequests()) {
       menuStateBuilder.disable('preview-pull-request')
@@ -368,6 +395,8 @@ function getRepositoryMenuBuilder(state: IAppState): MenuStateBuilder {
     menuStateBuilder.disable('compare-on-github')
     menuStateBuilder.disable('branch-on-github')
     menuStateBuilder.disable('toggle-stashed-changes')
+    menuStateBuilder.disable('undo-operation')
+    menuStateBuilder.disable('redo-operation')
   }
 
   return menuStateBuilder
@@ -30,6 +30,27 @@ export interface IOpenRepositoryFromPathAction {
   readonly path: string
 }
 
+export interface IShowRepositoryStatusAction {
+  readonly name: 'show-repository-status'
+
+  /** The local path of the repository to show the changes of. */
+  readonly path: string
+}
+
+export interface ICompareBranchAction {
+  readonly name: 'compare-branch'
+
+  /** The local path of the repository to compare branches in. */
+  readonly path: string
+
+  /** The name of the branch to compare the current branch to. */
+  readonly branch: string
+}
+
+export interface IShowRepositoryListAction {
+  readonly name: 'show-repository-list'
+}
+
 export interface IUnknownAction {
   readonly name: 'unknown'
   readonly url: string
@@ -39,6 +60,9 @@ export type URLActionType =
   | IOAuthAction
   | IOpenRepositoryFromURLAction
   | IOpenRepositoryFromPathAction
+  | IShowRepositoryStatusAction
+  | ICompareBranchAction
+  | IShowRepositoryListAction
   | IUnknownAction
 
 // eslint-disable-next-line @typescript-eslint/naming-convention
@@ -92,6 +116,10 @@ export function parseAppURL(url: string): URLActionType {
     }
   }
 
+  if (actionName === 'list') {
+    return { name: 'show-repository-list' }
+  }
+
   // we require something resembling a URL first
   // - bail out if it's not defined
   // - bail out if you only have `/`
@@ -139,5 +167,26 @@ export function parseAppURL(url: string): URLActionType {
     }
   }
 
+  if (actionName === 'status') {
+    return {
+      name: 'show-repository-status',
+      path: decodeURIComponent(parsedPath),
+    }
+  }
+
+  if (actionName === 'compare') {
+    const branch = getQueryStringValue(query, 'branch')
+
+    if (branch === null || branch.length === 0 || testForInvalidChars(branch)) {
+      return unknown
+    }
+
+    return {
+      name: 'compare-branch',
+      path: decodeURIComponent(parsedPath),
+      branch,
+    }
+  }
+
   return unknown
 }
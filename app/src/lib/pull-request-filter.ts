@@ -0,0 +1,135 @@
+import { PullRequest } from '../models/pull-request'
+import { compareDescending } from './compare'
+import { assertNever } from './fatal-error'
+
+/** Which pull requests to show based on how the user is involved in them */
+export enum PullRequestInvolvementFilter {
+  All = 'all',
+  Mine = 'mine',
+  ReviewRequested = 'review-requested',
+}
+
+/** Which pull requests to show based on their draft state */
+export enum PullRequestDraftFilter {
+  All = 'all',
+  Draft = 'draft',
+  Ready = 'ready',
+}
+
+/** The order in which to show pull requests */
+export enum PullRequestSortOrder {
+  Created = 'created',
+  Updated = 'updated',
+}
+
+/** The filters and sort order of the list of pull requests */
+export interface IPullRequestFilter {
+  readonly involvement: PullRequestInvolvementFilter
+  readonly draft: PullRequestDraftFilter
+
+  /** The name of the label to filter by, or null to not filter by label */
+  readonly label: string | null
+
+  /**
+   * The name of the branch the pull requests target, or null to not filter
+   * by base branch
+   */
+  readonly baseBranch: string | null
+
+  readonly sortOrder: PullRequestSortOrder
+}
+
+export const defaultPullRequestFilter: IPullRequestFilter = {
+  involvement: PullRequestInvolvementFilter.All,
+  draft: PullRequestDraftFilter.All,
+  label: null,
+  baseBranch: null,
+  sortOrder: PullRequestSortOrder.Created,
+}
+
+/**
+ * Get the pull requests matching the filter, in the order given by the
+ * filter.
+ *
+ * @param login The login of the user, used for the involvement filters. When
+ *              null, no pull requests match those filters.
+ */
+export function filterPullRequests(
+  pullRequests: ReadonlyArray<PullRequest>,
+  filter: IPullRequestFilter,
+  login: string | null
+): ReadonlyArray<PullRequest> {
+  const filtered = pullRequests.filter(
+    pr =>
+      matchesInvolvement(pr, filter.involvement, login) &&
+      matchesDraft(pr, filter.draft) &&
+      (filter.label === null || pr.labels.includes(filter.label)) &&
+      (filter.baseBranch === null || pr.base.ref === filter.baseBranch)
+  )
+
+  const getDate = (pr: PullRequest) =>
+    filter.sortOrder === PullRequestSortOrder.Updated ? pr.updated : pr.created
+
+  return filtered.sort((a, b) =>
+    compareDescending(getDate(a).getTime(), getDate(b).getTime())
+  )
+}
+
+/** Whether any of the filters would hide pull requests */
+export function isPullRequestFilterActive(filter: IPullRequestFilter) {
+  return (
+    filter.involvement !== PullRequestInvolvementFilter.All ||
+    filter.draft !== PullRequestDraftFilter.All ||
+    filter.label !== null ||
+    filter.baseBranch !== null
+  )
+}
+
+/** Get the names of all labels of the given pull requests, sorted by name */
+export function getPullRequestLabels(
+  pullRequests: ReadonlyArray<PullRequest>
+): ReadonlyArray<string> {
+  const labels = new Set(pullRequests.flatMap(pr => pr.labels))
+  return [...labels].sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * Get the names of all branches the given pull requests target, sorted by
+ * name
+ */
+export function getPullRequestBaseBranches(
+  pullRequests: ReadonlyArray<PullRequest>
+): ReadonlyArray<string> {
+  const branches = new Set(pullRequests.map(pr => pr.base.ref))
+  return [...branches].sort((a, b) => a.localeCompare(b))
+}
+
+function matchesInvolvement(
+  pr: PullRequest,
+  involvement: PullRequestInvolvementFilter,
+  login: string | null
+) {
+  switch (involvement) {
+    case PullRequestInvolvementFilter.All:
+      return true
+    case PullRequestInvolvementFilter.Mine:
+      return login !== null && pr.author === login
+    case PullRequestInvolvementFilter.ReviewRequested:
+      return login !== null && pr.requestedReviewers.includes(login)
+    default:
+      return assertNever(involvement, `Unknown involvement: ${involvement}`)
+  }
+}
+
+function matchesDraft(pr: PullRequest, draft: PullRequestDraftFilter) {
+  switch (draft) {
+    case PullRequestDraftFilter.All:
+      return true
+    case PullRequestDraftFilter.Draft:
+      return pr.draft
+    case PullRequestDraftFilter.Ready:
+      return !pr.draft
+    default:
+      return assertNever(draft, `Unknown draft filter: ${draft}`)
+  }
+}
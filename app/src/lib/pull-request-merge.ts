@@ -0,0 +1,118 @@
+import {
+  APICheckStatus,
+  APIPullRequestMergeMethod,
+  IAPIPullRequest,
+  IAPIPullRequestReview,
+  IAPIPushControl,
+} from './api'
+import { IRefCheck, isSuccess } from './ci-checks/ci-checks'
+import { getLatestReviewStates } from './pull-request-review-decision'
+
+/** What's needed to work out whether a pull request can be merged */
+export interface IPullRequestMergeInfo {
+  /**
+   * The pull request as fetched on its own, which includes whether it can be
+   * merged without conflicts
+   */
+  readonly pullRequest: IAPIPullRequest
+
+  /**
+   * The rules for pushing to the base branch of the pull request, or null
+   * when the base branch isn't protected
+   */
+  readonly pushControl: IAPIPushControl | null
+
+  readonly reviews: ReadonlyArray<IAPIPullRequestReview>
+
+  /** The checks and statuses of the head commit of the pull request */
+  readonly checks: ReadonlyArray<IRefCheck>
+}
+
+/**
+ * Get the reasons why a pull request can't be merged with the given method,
+ * as sentences to show the user. An empty array means nothing we know of
+ * keeps the pull request from being merged.
+ */
+export function getPullRequestMergeBlockers(
+  info: IPullRequestMergeInfo,
+  method: APIPullRequestMergeMethod
+): ReadonlyArray<string> {
+  const { pullRequest, pushControl, reviews, checks } = info
+  const base = pullRequest.base.ref
+
+  if (pullRequest.state !== 'open') {
+    return ['The pull request has already been closed.']
+  }
+
+  const blockers = new Array<string>()
+
+  if (pullRequest.draft === true) {
+    blockers.push('The pull request is still a draft.')
+  }
+
+  if (
+    pullRequest.mergeable === false ||
+    pullRequest.mergeable_state === 'dirty'
+  ) {
+    blockers.push(
+      `The pull request has conflicts with ${base} that must be resolved.`
+    )
+  }
+
+  if (pullRequest.mergeable_state === 'behind') {
+    blockers.push(
+      `The head branch must be updated with the latest changes from ${base}.`
+    )
+  }
+
+  if (pushControl !== null) {
+    if (!pushControl.allow_actor) {
+      blockers.push(`You aren't allowed to push to ${base}.`)
+    }
+
+    const states = [...getLatestReviewStates(reviews).values()]
+    const approvals = states.filter(s => s === 'APPROVED').length
+    const requiredApprovals = pushControl.required_approving_review_count
+
+    if (requiredApprovals > 0 && states.includes('CHANGES_REQUESTED')) {
+      blockers.push('A reviewer has requested changes.')
+    } else if (approvals < requiredApprovals) {
+      blockers.push(
+        `${requiredApprovals} approving ${
+          requiredApprovals === 1 ? 'review is' : 'reviews are'
+        } required, but the pull request has ${approvals}.`
+      )
+    }
+
+    for (const name of pushControl.required_status_checks) {
+      const matching = checks.filter(c => c.name === name)
+
+      if (matching.some(isSuccess)) {
+        continue
+      }
+
+      if (
+        matching.length === 0 ||
+        matching.some(c => c.status !== APICheckStatus.Completed)
+      ) {
+        blockers.push(`The required check ${name} hasn't completed yet.`)
+      } else {
+        blockers.push(`The required check ${name} hasn't passed.`)
+      }
+    }
+
+    if (pushControl.required_linear_history && method === 'merge') {
+      blockers.push(
+        `${base} requires a linear history, so the pull request must be squashed or rebased.`
+      )
+    }
+  }
+
+  // GitHub knows of more rules than the ones we check above, so fall back to
+  // what it tells us when we haven't found a reason ourselves
+  if (blockers.length === 0 && pullRequest.mergeable_state === 'blocked') {
+    blockers.push(`Merging is blocked by the rules of ${base}.`)
+  }
+
+  return blockers
+}
@@ -0,0 +1,67 @@
+import { IAPIPullRequestReview } from './api'
+import { PullRequestReviewDecision } from '../models/pull-request'
+
+/**
+ * Get the overall outcome of the reviews of a pull request.
+ *
+ * Only the most recent approval, request for changes or dismissal of each
+ * reviewer counts, and reviewers who have been asked to review again don't
+ * count at all.
+ *
+ * @param reviews            The reviews of the pull request
+ * @param requestedReviewers The logins of the users whose review has been
+ *                           requested and who haven't reviewed yet
+ */
+export function getPullRequestReviewDecision(
+  reviews: ReadonlyArray<IAPIPullRequestReview>,
+  requestedReviewers: ReadonlyArray<string>
+): PullRequestReviewDecision | null {
+  const latestReviewStates = getLatestReviewStates(reviews)
+
+  for (const login of requestedReviewers) {
+    latestReviewStates.delete(login)
+  }
+
+  const states = [...latestReviewStates.values()]
+
+  if (states.includes('CHANGES_REQUESTED')) {
+    return PullRequestReviewDecision.ChangesRequested
+  }
+
+  if (states.includes('APPROVED')) {
+    return PullRequestReviewDecision.Approved
+  }
+
+  if (requestedReviewers.length > 0) {
+    return PullRequestReviewDecision.ReviewRequired
+  }
+
+  return null
+}
+
+/**
+ * Get the state of the most recent approval, request for changes or dismissal
+ * of each reviewer of a pull request, by the login of the reviewer.
+ */
+export function getLatestReviewStates(
+  reviews: ReadonlyArray<IAPIPullRequestReview>
+): Map<string, IAPIPullRequestReview['state']> {
+  const latestReviewStates = new Map<string, IAPIPullRequestReview['state']>()
+
+  // Other reviews don't count, and the user's own pending review doesn't even
+  // have a submission date to sort by.
+  const sorted = reviews
+    .filter(
+      review =>
+        review.state === 'APPROVED' ||
+        review.state === 'CHANGES_REQUESTED' ||
+        review.state === 'DISMISSED'
+    )
+    .sort((a, b) => (a.submitted_at ?? '').localeCompare(b.submitted_at ?? ''))
+
+  for (const review of sorted) {
+    latestReviewStates.set(review.user.login, review.state)
+  }
+
+  return latestReviewStates
+}
@@ -0,0 +1,140 @@
+import { IAPIPullRequestReviewComment } from './api'
+import { getLineChangesSince } from './git'
+import { DiffHunk } from '../models/diff'
+import { Repository } from '../models/repository'
+import { IPullRequestReviewThread } from '../models/pull-request-review-thread'
+
+/**
+ * Group the review comments of a pull request into threads of a comment and
+ * its replies.
+ *
+ * Outdated comments, whose lines have changed since they were made, and
+ * comments on the old version of a file are left out since there's no line
+ * in the new version of the file to show them at.
+ */
+export function getPullRequestReviewThreads(
+  comments: ReadonlyArray<IAPIPullRequestReviewComment>
+): ReadonlyArray<IPullRequestReviewThread> {
+  const sorted = [...comments].sort(
+    (a, b) => Date.parse(a.created_at) - Date.parse(b.created_at)
+  )
+  const threads = new Map<number, IPullRequestReviewThread>()
+
+  for (const comment of sorted) {
+    const { line, side, in_reply_to_id } = comment
+    if (in_reply_to_id !== undefined || line === null || side === 'LEFT') {
+      continue
+    }
+
+    threads.set(comment.id, {
+      id: comment.id,
+      path: comment.path,
+      line,
+      commitSha: comment.commit_id,
+      comments: [],
+    })
+  }
+
+  for (const comment of sorted) {
+    const thread = threads.get(comment.in_reply_to_id ?? comment.id)
+    if (thread === undefined) {
+      continue
+    }
+
+    threads.set(thread.id, {
+      ...thread,
+      comments: [
+        ...thread.comments,
+        {
+          id: comment.id,
+          author: comment.user.login,
+          body: comment.body,
+          createdAt: new Date(comment.created_at),
+          htmlURL: comment.html_url,
+        },
+      ],
+    })
+  }
+
+  return [...threads.values()]
+}
+
+/**
+ * Get the number of a line after the changes in the given hunks, or null if
+ * the line itself was changed or removed.
+ *
+ * @param hunks The hunks of a diff without any context lines
+ */
+export function mapLineThroughHunks(
+  line: number,
+  hunks: ReadonlyArray<DiffHunk>
+): number | null {
+  let offset = 0
+
+  for (const { header } of hunks) {
+    const { oldStartLine, oldLineCount, newLineCount } = header
+
+    // Hunks without old lines insert their lines after oldStartLine
+    if (oldLineCount === 0 ? line <= oldStartLine : line < oldStartLine) {
+      break
+    }
+
+    if (oldLineCount > 0 && line < oldStartLine + oldLineCount) {
+      return null
+    }
+
+    offset += newLineCount - oldLineCount
+  }
+
+  return line + offset
+}
+
+/**
+ * Get the review threads on a file with their lines moved to where the lines
+ * are in the given version of the file, leaving out threads on lines which
+ * have changed since they were commented on.
+ *
+ * @param commitish The commit whose version of the file to get the lines in,
+ *                  or null for the version in the working directory
+ */
+export async function getReviewThreadsForFile(
+  repository: Repository,
+  threads: ReadonlyArray<IPullRequestReviewThread>,
+  path: string,
+  commitish: string | null
+): Promise<ReadonlyArray<IPullRequestReviewThread>> {
+  const threadsOnFile = threads.filter(t => t.path === path)
+  const hunksBySha = new Map<string, ReadonlyArray<DiffHunk> | null>()
+  const result = new Array<IPullRequestReviewThread>()
+
+  for (const thread of threadsOnFile) {
+    let hunks = hunksBySha.get(thread.commitSha)
+
+    if (hunks === undefined) {
+      try {
+        hunks = await getLineChangesSince(
+          repository,
+          path,
+          thread.commitSha,
+          commitish
+        )
+      } catch (e) {
+        log.warn(`Could not get the changes to ${path}`, e)
+        hunks = null
+      }
+      hunksBySha.set(thread.commitSha, hunks)
+    }
+
+    // The commit hasn't been fetched so there's no telling where the line is
+    if (hunks === null) {
+      continue
+    }
+
+    const line = mapLineThroughHunks(thread.line, hunks)
+    if (line !== null) {
+      result.push({ ...thread, line })
+    }
+  }
+
+  return result
+}
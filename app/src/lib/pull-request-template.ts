@@ -0,0 +1,40 @@
+import * as Path from 'path'
+import { readFile } from 'fs/promises'
+import { Repository } from '../models/repository'
+import { isErrnoException } from './errno-exception'
+
+/**
+ * The locations GitHub looks for a pull request template in, relative to the
+ * root of the repository, in the order they're checked.
+ */
+const PullRequestTemplatePaths = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'PULL_REQUEST_TEMPLATE.md',
+  'docs/pull_request_template.md',
+  'docs/PULL_REQUEST_TEMPLATE.md',
+]
+
+/**
+ * Read the pull request template of the repository from the working
+ * directory, or null if the repository doesn't have one.
+ */
+export async function getPullRequestTemplate(
+  repository: Repository
+): Promise<string | null> {
+  for (const path of PullRequestTemplatePaths) {
+    try {
+      return await readFile(Path.join(repository.path, path), 'utf8')
+    } catch (e) {
+      const missing =
+        isErrnoException(e) && (e.code === 'ENOENT' || e.code === 'ENOTDIR')
+
+      if (!missing) {
+        log.warn(`Could not read the pull request template ${path}`, e)
+      }
+    }
+  }
+
+  return null
+}
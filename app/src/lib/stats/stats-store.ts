@@ -1657,6 +1657,9 @@ export class StatsStore implements IStatsStore {
       case MultiCommitOperationKind.Rebase:
         // ignored because rebase records different stats
         return
+      case MultiCommitOperationKind.InteractiveRebase:
+        // interactive rebases are not currently measured
+        return
       case MultiCommitOperationKind.CherryPick:
       case MultiCommitOperationKind.Merge:
         log.error(
@@ -1681,6 +1684,9 @@ export class StatsStore implements IStatsStore {
       case MultiCommitOperationKind.Rebase:
         // ignored because rebase records different stats
         return
+      case MultiCommitOperationKind.InteractiveRebase:
+        // interactive rebases are not currently measured
+        return
       case MultiCommitOperationKind.Merge:
         log.error(
           `[recordOperationSuccessful] - Operation not supported: ${kind}`
@@ -1701,6 +1707,9 @@ export class StatsStore implements IStatsStore {
         return this.recordReorderSuccessfulWithConflicts()
       case MultiCommitOperationKind.Rebase:
         return this.recordRebaseSuccessAfterConflicts()
+      case MultiCommitOperationKind.InteractiveRebase:
+        // interactive rebases are not currently measured
+        return
       case MultiCommitOperationKind.CherryPick:
       case MultiCommitOperationKind.Merge:
         log.error(
@@ -1723,6 +1732,7 @@ export class StatsStore implements IStatsStore {
       case MultiCommitOperationKind.CherryPick:
         return this.recordCherryPickUndone()
       case MultiCommitOperationKind.Rebase:
+      case MultiCommitOperationKind.InteractiveRebase:
       case MultiCommitOperationKind.Merge:
         log.error(`[recordOperationUndone] - Operation not supported: ${kind}`)
         return
@@ -32,6 +32,7 @@ import {
 } from '../../models/github-repository'
 import {
   defaultPullRequestSuggestedNextAction,
+  IPullRequestDetails,
   PullRequest,
   PullRequestSuggestedNextAction,
 } from '../../models/pull-request'
@@ -49,6 +50,13 @@ import {
   getNonForkGitHubRepository,
   isRepositoryAForkContributingToParent,
 } from '../../models/repository'
+import { IRepositoryGroup } from '../../models/repository-group'
+import {
+  BulkRepositoryOperationKind,
+  IBulkRepositoryOperation,
+  isBulkRepositoryOperationDone,
+} from '../../models/bulk-repository-operation'
+import pLimit from 'p-limit'
 import {
   CommittedFileChange,
   WorkingDirectoryFileChange,
@@ -95,6 +103,7 @@ import {
   IAPIOrganization,
   getEndpointForRepository,
   IAPIFullRepository,
+  APIPullRequestMergeMethod,
 } from '../api'
 import { shell } from '../app-shell'
 import {
@@ -123,6 +132,7 @@ import {
 import {
   findEditorOrDefault,
   getAvailableEditors,
+  IEditorPosition,
   launchExternalEditor,
 } from '../editors'
 import { assertNever, fatalError, forceUnwrap } from '../fatal-error'
@@ -135,12 +145,14 @@ import {
   addRemote,
   checkoutBranch,
   createCommit,
+  createCommitFromIndex,
   getAuthorIdentity,
   getChangedFiles,
   getCommitDiff,
   getMergeBase,
   getRemotes,
   getWorkingDirectoryDiff,
+  getIndexDiff,
   isCoAuthoredByTrailer,
   pull as pullRepo,
   push as pushRepo,
@@ -175,6 +187,9 @@ import {
   updateRemoteHEAD,
   getBranchMergeBaseChangedFiles,
   getBranchMergeBaseDiff,
+  addWorkTree,
+  removeWorkTree,
+  pruneWorkTrees,
 } from '../git'
 import {
   installGlobalLFSFilters,
@@ -233,17 +248,27 @@ import { ManualConflictResolution } from '../../models/manual-conflict-resolutio
 import { BranchPruner } from './helpers/branch-pruner'
 import { enableMultiCommitDiffs } from '../feature-flag'
 import { Banner, BannerType } from '../../models/banner'
+import { JournaledOperationKind } from '../../models/operation-journal'
+import { IPullRequestReviewThread } from '../../models/pull-request-review-thread'
+import { getPullRequestReviewThreads } from '../pull-request-review-threads'
 import { ComputedAction } from '../../models/computed-action'
 import {
   createDesktopStashEntry,
   getLastDesktopStashEntryForBranch,
   popStashEntry,
   dropDesktopStashEntry,
+  createStashEntry,
+  applyStashEntry,
+  renameStashEntry,
 } from '../git/stash'
 import {
   UncommittedChangesStrategy,
   defaultUncommittedChangesStrategy,
 } from '../../models/uncommitted-changes-strategy'
+import {
+  CommitGraphMode,
+  defaultCommitGraphMode,
+} from '../../models/commit-graph'
 import { IStashEntry, StashedChangesLoadStates } from '../../models/stash-entry'
 import { arrayEquals } from '../equality'
 import { MenuLabelsEvent } from '../../models/menu-labels'
@@ -299,11 +324,19 @@ import {
   MultiCommitOperationStepKind,
 } from '../../models/multi-commit-operation'
 import { reorder } from '../git/reorder'
+import { interactiveRebase } from '../git/interactive-rebase'
+import { RebaseTodoItem } from '../../models/rebase'
 import { UseWindowsOpenSSHKey } from '../ssh/ssh'
 import { isConflictsFlow } from '../multi-commit-operation'
 import { clamp } from '../clamp'
 import { EndpointToken } from '../endpoint-token'
-import { IRefCheck } from '../ci-checks/ci-checks'
+import {
+  apiCheckRunToRefCheck,
+  apiStatusToRefCheck,
+  getLatestCheckRunsByName,
+  IRefCheck,
+} from '../ci-checks/ci-checks'
+import { IPullRequestMergeInfo } from '../pull-request-merge'
 import {
   NotificationsStore,
   getNotificationsEnabled,
@@ -315,6 +348,7 @@ import { findContributionTargetDefaultBranch } from '../branch'
 import { ValidNotificationPullRequestReview } from '../valid-notification-pull-request-review'
 import { determineMergeability } from '../git/merge-tree'
 import { PopupManager } from '../popup-manager'
+import { appendClosesIssue } from '../issue-branch'
 
 const LastSelectedRepositoryIDKey = 'last-selected-repository-id'
 
@@ -355,6 +389,8 @@ const confirmUndoCommitKey: string = 'confirmUndoCommit'
 
 const uncommittedChangesStrategyKey = 'uncommittedChangesStrategyKind'
 
+const commitGraphModeKey = 'commit-graph-mode'
+
 const externalEditorKey: string = 'externalEditor'
 
 const imageDiffTypeDefault = ImageDiffType.TwoUp
@@ -371,6 +407,9 @@ const hideWhitespaceInPullRequestDiffKey =
 const commitSpellcheckEnabledDefault = true
 const commitSpellcheckEnabledKey = 'commit-spellcheck-enabled'
 
+const useGitIndexDefault = true
+const useGitIndexKey = 'use-git-index-for-staging'
+
 const shellKey = 'shell'
 
 const repositoryIndicatorsEnabledKey = 'enable-repository-indicators'
@@ -387,11 +426,25 @@ const InitialRepositoryIndicatorTimeout = 2 * 60 * 1000
 
 const MaxInvalidFoldersToDisplay = 3
 
+/**
+ * The maximum number of repositories an operation on many repositories at
+ * once runs in concurrently
+ */
+const MaxConcurrentBulkRepositoryOperations = 3
+
 const lastThankYouKey = 'version-and-users-of-last-thank-you'
 const customThemeKey = 'custom-theme-key'
 const pullRequestSuggestedNextActionKey =
   'pull-request-suggested-next-action-key'
 
+/**
+ * Get the key of the number of the issue a branch was created for, whose
+ * first commit should close the issue.
+ */
+function getBranchIssueKey(repository: Repository, branchName: string) {
+  return `branch-issue/${repository.id}/${branchName}`
+}
+
 export class AppStore extends TypedBaseStore<IAppState> {
   private readonly gitStoreCache: GitStoreCache
 
@@ -470,10 +523,17 @@ export class AppStore extends TypedBaseStore<IAppState> {
     hideWhitespaceInPullRequestDiffDefault
   /** Whether or not the spellchecker is enabled for commit summary and description */
   private commitSpellcheckEnabled: boolean = commitSpellcheckEnabledDefault
+  /**
+   * Whether staging changes writes to the Git index immediately rather than
+   * the index being rebuilt from the selection in the app when committing
+   */
+  private useGitIndex: boolean = useGitIndexDefault
   private showSideBySideDiff: boolean = ShowSideBySideDiffDefault
 
   private uncommittedChangesStrategy = defaultUncommittedChangesStrategy
 
+  private commitGraphMode = defaultCommitGraphMode
+
   private selectedExternalEditor: string | null = null
 
   private resolvedExternalEditor: string | null = null
@@ -484,6 +544,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
   /** The current repository filter text */
   private repositoryFilterText: string = ''
 
+  private bulkRepositoryOperation: IBulkRepositoryOperation | null = null
+
   private currentMergeTreePromise: Promise<void> | null = null
 
   /** The function to resolve the current Open in Desktop flow. */
@@ -926,6 +988,9 @@ export class AppStore extends TypedBaseStore<IAppState> {
       repositories,
       recentRepositories: this.recentRepositories,
       localRepositoryStateLookup: this.localRepositoryStateLookup,
+      workTreesLookup: this.repositoriesStore.getWorkTreesLookup(),
+      repositoryGroups: this.repositoriesStore.getRepositoryGroups(),
+      bulkRepositoryOperation: this.bulkRepositoryOperation,
       windowState: this.windowState,
       windowZoomFactor: this.windowZoomFactor,
       appIsFocused: this.appIsFocused,
@@ -957,6 +1022,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
       askForConfirmationOnForcePush: this.askForConfirmationOnForcePush,
       askForConfirmationOnUndoCommit: this.confirmUndoCommit,
       uncommittedChangesStrategy: this.uncommittedChangesStrategy,
+      commitGraphMode: this.commitGraphMode,
       selectedExternalEditor: this.selectedExternalEditor,
       imageDiffType: this.imageDiffType,
       hideWhitespaceInChangesDiff: this.hideWhitespaceInChangesDiff,
@@ -977,6 +1043,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
       currentOnboardingTutorialStep: this.currentOnboardingTutorialStep,
       repositoryIndicatorsEnabled: this.repositoryIndicatorsEnabled,
       commitSpellcheckEnabled: this.commitSpellcheckEnabled,
+      useGitIndex: this.useGitIndex,
       currentDragElement: this.currentDragElement,
       lastThankYou: this.lastThankYou,
       showCIStatusPopover: this.showCIStatusPopover,
@@ -1072,15 +1139,19 @@ export class AppStore extends TypedBaseStore<IAppState> {
         showCoAuthoredBy: gitStore.showCoAuthoredBy,
         coAuthors: gitStore.coAuthors,
         stashEntry,
+        stashEntries: gitStore.stashEntries,
       }
     })
 
     this.repositoryStateCache.update(repository, () => ({
       commitLookup: gitStore.commitLookup,
+      commitSignatureStatuses: gitStore.commitSignatureStatuses,
       localCommitSHAs: gitStore.localCommitSHAs,
       localTags: gitStore.localTags,
       aheadBehind: gitStore.aheadBehind,
       tagsToPush: gitStore.tagsToPush,
+      operationJournal: gitStore.operationJournal,
+      lfsLocks: gitStore.lfsLocks,
       remote: gitStore.currentRemote,
       lastFetched: gitStore.lastFetched,
     }))
@@ -1190,6 +1261,20 @@ export class AppStore extends TypedBaseStore<IAppState> {
     }))
 
     this.emitUpdate()
+
+    // The signature is only shown for a single selected commit
+    if (shas.length === 1) {
+      this._loadCommitSignatureStatuses(repository, shas)
+    }
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _loadCommitSignatureStatuses(
+    repository: Repository,
+    shas: ReadonlyArray<string>
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    return gitStore.loadCommitSignatureStatuses(shas)
   }
 
   private recordMultiCommitDiff(
@@ -1358,7 +1443,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
       }
 
       const { compareState } = this.repositoryStateCache.get(repository)
-      const { formState, commitSHAs } = compareState
+      const { formState, commitSHAs, commitGraphMode } = compareState
       const previousTip = compareState.tip
 
       const tipIsUnchanged =
@@ -1368,6 +1453,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
 
       if (
         tipIsUnchanged &&
+        commitGraphMode === this.commitGraphMode &&
         formState.kind === HistoryTabMode.History &&
         commitSHAs.length > 0
       ) {
@@ -1376,8 +1462,13 @@ export class AppStore extends TypedBaseStore<IAppState> {
         return
       }
 
-      // load initial group of commits for current branch
-      const commits = await gitStore.loadCommitBatch('HEAD', 0)
+      // load initial group of commits for current branch, or for all
+      // branches when they're shown in the commit graph
+      const commits = await gitStore.loadCommitBatch(
+        'HEAD',
+        0,
+        this.getHistoryLogArgs()
+      )
 
       if (commits === null) {
         return
@@ -1391,6 +1482,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
         tip: currentSha,
         formState: newState,
         commitSHAs: commits,
+        commitGraphMode: this.commitGraphMode,
         filterText: '',
         showBranchList: false,
       }))
@@ -1512,6 +1604,28 @@ export class AppStore extends TypedBaseStore<IAppState> {
     })
   }
 
+  /**
+   * Get the additional arguments to use when loading the history shown in the
+   * History tab, which depend on the branches shown in the commit graph.
+   */
+  private getHistoryLogArgs(): ReadonlyArray<string> {
+    switch (this.commitGraphMode) {
+      case CommitGraphMode.Hidden:
+        return []
+      case CommitGraphMode.CurrentBranch:
+        // Parents must never be listed before their children for the graph
+        // to connect them, which isn't guaranteed by the default ordering.
+        return ['--date-order']
+      case CommitGraphMode.AllBranches:
+        return ['--branches', '--remotes', '--date-order']
+      default:
+        return assertNever(
+          this.commitGraphMode,
+          `Unknown commit graph mode: ${this.commitGraphMode}`
+        )
+    }
+  }
+
   /** This shouldn't be called directly. See `Dispatcher`. */
   public _updateCompareForm<K extends keyof ICompareFormUpdate>(
     repository: Repository,
@@ -1533,7 +1647,11 @@ export class AppStore extends TypedBaseStore<IAppState> {
     if (formState.kind === HistoryTabMode.History) {
       const commits = state.compareState.commitSHAs
 
-      const newCommits = await gitStore.loadCommitBatch('HEAD', commits.length)
+      const newCommits = await gitStore.loadCommitBatch(
+        'HEAD',
+        commits.length,
+        this.getHistoryLogArgs()
+      )
       if (newCommits == null) {
         return
       }
@@ -1978,6 +2096,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
     const [accounts, repositories] = await Promise.all([
       this.accountsStore.getAll(),
       this.repositoriesStore.getAll(),
+      this.repositoriesStore.loadRepositoryGroups(),
     ])
 
     log.info(
@@ -2048,6 +2167,9 @@ export class AppStore extends TypedBaseStore<IAppState> {
       getEnum(uncommittedChangesStrategyKey, UncommittedChangesStrategy) ??
       defaultUncommittedChangesStrategy
 
+    this.commitGraphMode =
+      getEnum(commitGraphModeKey, CommitGraphMode) ?? defaultCommitGraphMode
+
     this.updateSelectedExternalEditor(
       await this.lookupSelectedExternalEditor()
     ).catch(e => log.error('Failed resolving current editor at startup', e))
@@ -2067,6 +2189,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
       hideWhitespaceInChangesDiffKey,
       false
     )
+    this.useGitIndex = getBoolean(useGitIndexKey, useGitIndexDefault)
     this.hideWhitespaceInHistoryDiff = getBoolean(
       hideWhitespaceInHistoryDiffKey,
       false
@@ -2248,7 +2371,11 @@ export class AppStore extends TypedBaseStore<IAppState> {
 
     const labels: MenuLabelsEvent = {
       selectedShell,
-      selectedExternalEditor,
+      selectedExternalEditor:
+        selectedRepository instanceof Repository
+          ? selectedRepository.workflowPreferences.externalEditor ??
+            selectedExternalEditor
+          : selectedExternalEditor,
       askForConfirmationOnRepositoryRemoval,
       askForConfirmationOnForcePush,
     }
@@ -2258,7 +2385,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return
     }
 
-    const { changesState, branchesState, aheadBehind } = state
+    const { changesState, branchesState, aheadBehind, operationJournal } = state
     const { currentPullRequest } = branchesState
 
     let contributionTargetDefaultBranch: string | undefined
@@ -2288,6 +2415,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
       isStashedChangesVisible,
       hasCurrentPullRequest: currentPullRequest !== null,
       askForConfirmationWhenStashingAllChanges,
+      undoOperation: operationJournal.undo.at(-1)?.kind,
+      redoOperation: operationJournal.redo.at(-1)?.kind,
     })
   }
 
@@ -2343,7 +2472,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
     }
 
     this.repositoryStateCache.updateChangesState(repository, state =>
-      updateChangedFiles(state, status, clearPartialState)
+      updateChangedFiles(state, status, clearPartialState, this.useGitIndex)
     )
 
     this.repositoryStateCache.updateChangesState(repository, state => ({
@@ -2537,7 +2666,13 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return
     }
 
-    if (multiCommitOperationState === null) {
+    // The user amends the commit from the Changes tab when an interactive
+    // rebase stops for editing, so there are no conflicts to show.
+    if (
+      multiCommitOperationState === null ||
+      multiCommitOperationState.step.kind ===
+        MultiCommitOperationStepKind.StoppedForEdit
+    ) {
       return
     }
 
@@ -2650,6 +2785,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
     this._closePopup(PopupType.MultiCommitOperation)
     this._clearBanner(BannerType.ConflictsFound)
     this._clearBanner(BannerType.MergeConflictsFound)
+    this._clearBanner(BannerType.RebaseStoppedForEdit)
   }
 
   /** This shouldn't be called directly. See `Dispatcher`. */
@@ -2743,11 +2879,18 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return
     }
 
-    const diff = await getWorkingDirectoryDiff(
-      repository,
-      selectedFileBeforeLoad,
-      this.hideWhitespaceInChangesDiff
-    )
+    const diff = this.useGitIndex
+      ? await getIndexDiff(
+          repository,
+          selectedFileBeforeLoad,
+          changesStateBeforeLoad.showStagedDiff,
+          this.hideWhitespaceInChangesDiff
+        )
+      : await getWorkingDirectoryDiff(
+          repository,
+          selectedFileBeforeLoad,
+          this.hideWhitespaceInChangesDiff
+        )
 
     const stateAfterLoad = this.repositoryStateCache.get(repository)
     const changesState = stateAfterLoad.changesState
@@ -2777,6 +2920,21 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return
     }
 
+    const selection: ChangesWorkingDirectorySelection = {
+      ...changesState.selection,
+      diff,
+    }
+
+    // The selection of a file reflects what's been staged in the index which
+    // is independent of the lines in the diff we just loaded.
+    if (this.useGitIndex) {
+      this.repositoryStateCache.updateChangesState(repository, () => ({
+        selection,
+      }))
+      this.emitUpdate()
+      return
+    }
+
     const selectableLines = new Set<number>()
     if (diff.kind === DiffType.Text || diff.kind === DiffType.LargeText) {
       // The diff might have changed dramatically since last we loaded it.
@@ -2802,11 +2960,6 @@ export class AppStore extends TypedBaseStore<IAppState> {
     )
     const workingDirectory = WorkingDirectoryStatus.fromFiles(updatedFiles)
 
-    const selection: ChangesWorkingDirectorySelection = {
-      ...changesState.selection,
-      diff,
-    }
-
     this.repositoryStateCache.updateChangesState(repository, () => ({
       selection,
       workingDirectory,
@@ -2987,18 +3140,45 @@ export class AppStore extends TypedBaseStore<IAppState> {
     const state = this.repositoryStateCache.get(repository)
     const files = state.changesState.workingDirectory.files
     const selectedFiles = files.filter(file => {
-      return file.selection.getSelectionType() !== DiffSelectionType.None
+      return file.getIncludedType() !== DiffSelectionType.None
     })
 
     const gitStore = this.gitStoreCache.get(repository)
+    const { tip } = state.branchesState
+    const branchIssueKey =
+      tip.kind === TipState.Valid && context.amend !== true
+        ? getBranchIssueKey(repository, tip.branch.name)
+        : null
+    const issueNumber =
+      branchIssueKey !== null ? getNumber(branchIssueKey) : undefined
 
     return this.withIsCommitting(repository, async () => {
       const result = await gitStore.performFailableOperation(async () => {
-        const message = await formatCommitMessage(repository, context)
-        return createCommit(repository, message, selectedFiles, context.amend)
+        const message = await formatCommitMessage(
+          repository,
+          issueNumber === undefined
+            ? context
+            : {
+                ...context,
+                description: appendClosesIssue(
+                  context.description,
+                  issueNumber
+                ),
+              }
+        )
+        return this.useGitIndex
+          ? createCommitFromIndex(repository, message, context.amend)
+          : createCommit(repository, message, selectedFiles, context.amend)
       })
 
       if (result !== undefined) {
+        gitStore.clearOperationJournal()
+
+        // Only the first commit on a branch created for an issue closes it
+        if (branchIssueKey !== null) {
+          localStorage.removeItem(branchIssueKey)
+        }
+
         await this._recordCommitStats(
           gitStore,
           repository,
@@ -3061,7 +3241,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
     this.statsStore.recordCommit()
 
     const includedPartialSelections = selectedFiles.some(
-      file => file.selection.getSelectionType() === DiffSelectionType.Partial
+      file => file.getIncludedType() === DiffSelectionType.Partial
     )
     if (includedPartialSelections) {
       this.statsStore.recordPartialCommit()
@@ -3133,6 +3313,10 @@ export class AppStore extends TypedBaseStore<IAppState> {
     file: WorkingDirectoryFileChange,
     include: boolean
   ): Promise<void> {
+    if (this.useGitIndex) {
+      return this.updateIndexForFiles(repository, include, [file])
+    }
+
     const selection = include
       ? file.selection.withSelectAll()
       : file.selection.withSelectNone()
@@ -3146,6 +3330,10 @@ export class AppStore extends TypedBaseStore<IAppState> {
     file: WorkingDirectoryFileChange,
     diffSelection: DiffSelection
   ): Promise<void> {
+    if (this.useGitIndex) {
+      return this.updateIndexForLines(repository, file, diffSelection)
+    }
+
     this.updateWorkingDirectoryFileSelection(repository, file, diffSelection)
     return Promise.resolve()
   }
@@ -3172,11 +3360,92 @@ export class AppStore extends TypedBaseStore<IAppState> {
     this.emitUpdate()
   }
 
+  /**
+   * Stages or unstages the given files in their entirety, or all files in the
+   * working directory if no files are given, and reloads the status so that
+   * the selection of each file reflects the new state of the index.
+   */
+  private async updateIndexForFiles(
+    repository: Repository,
+    include: boolean,
+    files?: ReadonlyArray<WorkingDirectoryFileChange>
+  ) {
+    const gitStore = this.gitStoreCache.get(repository)
+
+    if (include) {
+      const { workingDirectory } =
+        this.repositoryStateCache.get(repository).changesState
+
+      // Staging a conflicted file would mark it as resolved
+      const filesToStage = (files ?? workingDirectory.files).filter(
+        f => f.status.kind !== AppFileStatusKind.Conflicted
+      )
+
+      await gitStore.stageFiles(filesToStage)
+    } else {
+      await gitStore.unstageFiles(files)
+    }
+
+    await this._loadStatus(repository)
+  }
+
+  /**
+   * Stages or unstages the lines whose selection state changed in the diff
+   * currently shown for the given file. When showing unstaged changes any
+   * newly selected lines are staged and when showing staged changes any
+   * lines which are no longer selected are unstaged.
+   */
+  private async updateIndexForLines(
+    repository: Repository,
+    file: WorkingDirectoryFileChange,
+    diffSelection: DiffSelection
+  ) {
+    const { changesState } = this.repositoryStateCache.get(repository)
+    const { selection, showStagedDiff } = changesState
+
+    if (
+      selection.kind !== ChangesSelectionKind.WorkingDirectory ||
+      selection.diff === null ||
+      selection.diff.kind !== DiffType.Text
+    ) {
+      return
+    }
+
+    const { diff } = selection
+    const gitStore = this.gitStoreCache.get(repository)
+
+    if (showStagedDiff) {
+      const linesToUnstage = getDeselectedLines(diff, diffSelection)
+      await gitStore.unstageSelection(file.path, diff, linesToUnstage)
+    } else {
+      await gitStore.stageSelection(file, diff, diffSelection)
+    }
+
+    await this._loadStatus(repository)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _changeShowStagedDiff(
+    repository: Repository,
+    showStagedDiff: boolean
+  ): Promise<void> {
+    this.repositoryStateCache.updateChangesState(repository, () => ({
+      showStagedDiff,
+    }))
+    this.emitUpdate()
+
+    return this.updateChangesWorkingDirectoryDiff(repository)
+  }
+
   /** This shouldn't be called directly. See `Dispatcher`. */
   public _changeIncludeAllFiles(
     repository: Repository,
     includeAll: boolean
   ): Promise<void> {
+    if (this.useGitIndex) {
+      return this.updateIndexForFiles(repository, includeAll)
+    }
+
     this.repositoryStateCache.updateChangesState(repository, state => {
       const workingDirectory =
         state.workingDirectory.withIncludeAllFiles(includeAll)
@@ -3276,6 +3545,12 @@ export class AppStore extends TypedBaseStore<IAppState> {
 
     await gitStore.refreshTags()
 
+    // this promise is fire-and-forget, so no need to await it
+    this.repositoriesStore.refreshWorkTrees(repository)
+
+    // this promise is fire-and-forget, so no need to await it
+    gitStore.loadLFSLocks(getAccountForRepository(this.accounts, repository))
+
     // this promise is fire-and-forget, so no need to await it
     this.updateStashEntryCountMetric(
       repository,
@@ -3363,6 +3638,9 @@ export class AppStore extends TypedBaseStore<IAppState> {
     this.updateSidebarIndicator(repository, status)
     this.emitUpdate()
 
+    // this promise is fire-and-forget, so no need to await it
+    this.repositoriesStore.refreshWorkTrees(repository)
+
     const lastPush = await inferLastPushForRepository(
       this.accounts,
       gitStore,
@@ -3448,6 +3726,25 @@ export class AppStore extends TypedBaseStore<IAppState> {
     this.emitUpdate()
   }
 
+  public _setUseGitIndex(useGitIndex: boolean) {
+    if (this.useGitIndex === useGitIndex) {
+      return
+    }
+
+    setBoolean(useGitIndexKey, useGitIndex)
+    this.useGitIndex = useGitIndex
+
+    this.emitUpdate()
+
+    const repository = this.selectedRepository
+    if (repository instanceof Repository) {
+      this.refreshChangesSection(repository, {
+        includingStatus: true,
+        clearPartialState: true,
+      })
+    }
+  }
+
   public _setUseWindowsOpenSSH(useWindowsOpenSSH: boolean) {
     setBoolean(UseWindowsOpenSSHKey, useWindowsOpenSSH)
     this.useWindowsOpenSSH = useWindowsOpenSSH
@@ -3624,9 +3921,24 @@ export class AppStore extends TypedBaseStore<IAppState> {
   }
 
   /** This shouldn't be called directly. See `Dispatcher`. */
-  public async _createTag(repository: Repository, name: string, sha: string) {
+  public _setBranchIssue(
+    repository: Repository,
+    branchName: string,
+    issueNumber: number
+  ): Promise<void> {
+    setNumber(getBranchIssueKey(repository, branchName), issueNumber)
+    return Promise.resolve()
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _createTag(
+    repository: Repository,
+    name: string,
+    sha: string,
+    message?: string
+  ) {
     const gitStore = this.gitStoreCache.get(repository)
-    await gitStore.createTag(name, sha)
+    await gitStore.createTag(name, sha, message)
   }
 
   /** This shouldn't be called directly. See `Dispatcher`. */
@@ -3635,6 +3947,97 @@ export class AppStore extends TypedBaseStore<IAppState> {
     await gitStore.deleteTag(name)
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _getRemoteTags(
+    repository: Repository
+  ): Promise<Map<string, string> | null> {
+    return this.withAuthenticatingUser(repository, (repository, account) => {
+      const gitStore = this.gitStoreCache.get(repository)
+      return gitStore.getRemoteTags(account)
+    })
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _pushTag(repository: Repository, name: string): Promise<void> {
+    return this.withAuthenticatingUser(repository, (repository, account) => {
+      const gitStore = this.gitStoreCache.get(repository)
+      return gitStore.pushTag(account, name)
+    })
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _deleteRemoteTag(repository: Repository, name: string): Promise<void> {
+    return this.withAuthenticatingUser(repository, (repository, account) => {
+      const gitStore = this.gitStoreCache.get(repository)
+      return gitStore.deleteRemoteTag(account, name)
+    })
+  }
+
+  /**
+   * Create a new linked work tree for the given repository, add it to the
+   * list of repositories and select it.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   */
+  public async _createWorkTree(
+    repository: Repository,
+    path: string,
+    commitish: string,
+    newBranch: string | null
+  ): Promise<Repository | null> {
+    const gitStore = this.gitStoreCache.get(repository)
+    const result = await gitStore.performFailableOperation(async () => {
+      await addWorkTree(repository, path, commitish, newBranch)
+      return true
+    })
+
+    if (result === undefined) {
+      return null
+    }
+
+    await this.repositoriesStore.refreshWorkTrees(repository)
+
+    const [workTreeRepository] = await this._addRepositories([path])
+    if (workTreeRepository === undefined) {
+      return null
+    }
+
+    return this._selectRepository(workTreeRepository)
+  }
+
+  /**
+   * Remove a linked work tree from disk and from the list of repositories.
+   *
+   * This shouldn't be called directly. See `Dispatcher`.
+   *
+   * @param repository          - The repository the work tree belongs to
+   * @param workTreeRepository  - The work tree to remove, as tracked in the
+   *                              list of repositories
+   */
+  public async _removeWorkTree(
+    repository: Repository,
+    workTreeRepository: Repository
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    const result = await gitStore.performFailableOperation(async () => {
+      // If the work tree directory is already gone all that's left to
+      // do is to clean up git's administrative files for it.
+      if (await pathExists(workTreeRepository.path)) {
+        await removeWorkTree(repository, workTreeRepository.path)
+      } else {
+        await pruneWorkTrees(repository)
+      }
+      return true
+    })
+
+    if (result === undefined) {
+      return
+    }
+
+    await this.repositoriesStore.removeRepository(workTreeRepository)
+    await this.repositoriesStore.refreshWorkTrees(repository)
+  }
+
   private updateCheckoutProgress(
     repository: Repository,
     checkoutProgress: ICheckoutProgress | null
@@ -3821,6 +4224,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
     const { defaultBranch } = repositoryState.branchesState
 
     this.clearBranchProtectionState(repository)
+    this.gitStoreCache.get(repository).clearOperationJournal()
 
     // Make sure changes or suggested next step are visible after branch checkout
     await this._selectWorkingDirectoryFiles(repository)
@@ -3997,54 +4401,202 @@ export class AppStore extends TypedBaseStore<IAppState> {
   }
 
   /** This shouldn't be called directly. See `Dispatcher`. */
-  public async _renameBranch(
+  public async _changeRepositoryPinned(
     repository: Repository,
-    branch: Branch,
-    newName: string
+    isPinned: boolean
   ): Promise<void> {
-    const gitStore = this.gitStoreCache.get(repository)
-    await gitStore.performFailableOperation(() =>
-      renameBranch(repository, branch, newName)
-    )
-
-    return this._refreshRepository(repository)
+    return this.repositoriesStore.updateRepositoryPinned(repository, isPinned)
   }
 
   /** This shouldn't be called directly. See `Dispatcher`. */
-  public async _deleteBranch(
+  public async _moveRepositoryToGroup(
     repository: Repository,
-    branch: Branch,
-    includeUpstream?: boolean,
-    toCheckout?: Branch | null
+    group: IRepositoryGroup | null
   ): Promise<void> {
-    return this.withAuthenticatingUser(repository, async (r, account) => {
-      const gitStore = this.gitStoreCache.get(r)
+    return this.repositoriesStore.updateRepositoryGroup(
+      repository,
+      group?.id ?? null
+    )
+  }
 
-      // If solely a remote branch, there is no need to checkout a branch.
-      if (branch.type === BranchType.Remote) {
-        const { remoteName, tip, nameWithoutRemote } = branch
-        if (remoteName === null) {
-          // This is based on the branches ref. It should not be null for a
-          // remote branch
-          throw new Error(
-            `Could not determine remote name from: ${branch.ref}.`
-          )
-        }
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _createRepositoryGroup(
+    name: string,
+    repository: Repository | null
+  ): Promise<void> {
+    const group = await this.repositoriesStore.addRepositoryGroup(name)
 
-        await gitStore.performFailableOperation(() =>
-          deleteRemoteBranch(r, account, remoteName, nameWithoutRemote)
-        )
+    if (repository !== null) {
+      await this.repositoriesStore.updateRepositoryGroup(repository, group.id)
+    }
+  }
 
-        // We log the remote branch's sha so that the user can recover it.
-        log.info(
-          `Deleted branch ${branch.upstreamWithoutRemote} (was ${tip.sha})`
-        )
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _renameRepositoryGroup(
+    group: IRepositoryGroup,
+    name: string
+  ): Promise<void> {
+    return this.repositoriesStore.renameRepositoryGroup(group, name)
+  }
 
-        return this._refreshRepository(r)
-      }
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _changeRepositoryGroupCollapsed(
+    group: IRepositoryGroup,
+    isCollapsed: boolean
+  ): Promise<void> {
+    return this.repositoriesStore.updateRepositoryGroupCollapsed(
+      group,
+      isCollapsed
+    )
+  }
 
-      // If a local branch, user may have the branch to delete checked out and
-      // we need to switch to a different branch (default or recent).
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _removeRepositoryGroup(group: IRepositoryGroup): Promise<void> {
+    return this.repositoriesStore.removeRepositoryGroup(group)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _runBulkRepositoryOperation(
+    kind: BulkRepositoryOperationKind,
+    repositories: ReadonlyArray<Repository>
+  ): Promise<void> {
+    const current = this.bulkRepositoryOperation
+    if (current !== null && !isBulkRepositoryOperationDone(current)) {
+      log.warn('Ignoring bulk repository operation, one is already running')
+      return
+    }
+
+    const results = new Map<number, string | null>()
+    this.bulkRepositoryOperation = { kind, repositories, results }
+    this.emitUpdate()
+
+    const limit = pLimit(MaxConcurrentBulkRepositoryOperations)
+
+    await Promise.all(
+      repositories.map(repository =>
+        limit(async () => {
+          let error: string | null = null
+
+          try {
+            await this.performBulkRepositoryOperation(kind, repository)
+          } catch (e) {
+            log.error(`Bulk ${kind} failed in ${repository.path}`, e)
+            error = e instanceof Error ? e.message : `${e}`
+          }
+
+          results.set(repository.id, error)
+          this.bulkRepositoryOperation = {
+            kind,
+            repositories,
+            results: new Map(results),
+          }
+          this.emitUpdate()
+        })
+      )
+    )
+
+    if (kind === BulkRepositoryOperationKind.Remove) {
+      return
+    }
+
+    for (const repository of repositories) {
+      this.refreshIndicatorForRepository(repository)
+    }
+
+    const selectedRepository = this.selectedRepository
+    if (
+      selectedRepository instanceof Repository &&
+      repositories.some(r => r.id === selectedRepository.id)
+    ) {
+      await this._refreshRepository(selectedRepository)
+    }
+  }
+
+  private async performBulkRepositoryOperation(
+    kind: BulkRepositoryOperationKind,
+    repository: Repository
+  ): Promise<void> {
+    if (kind === BulkRepositoryOperationKind.Remove) {
+      return this.repositoriesStore.removeRepository(repository)
+    }
+
+    if (repository.missing) {
+      throw new Error('The repository could not be found on disk.')
+    }
+
+    const gitStore = this.gitStoreCache.get(repository)
+    const account = getAccountForRepository(this.accounts, repository)
+
+    switch (kind) {
+      case BulkRepositoryOperationKind.Fetch:
+        return gitStore.bulkFetch(account)
+      case BulkRepositoryOperationKind.Pull:
+        return gitStore.bulkFastForwardPull(account)
+      case BulkRepositoryOperationKind.CheckoutDefaultBranch:
+        return gitStore.bulkCheckoutDefaultBranch(account)
+      default:
+        return assertNever(kind, `Unknown bulk operation: ${kind}`)
+    }
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _clearBulkRepositoryOperation() {
+    const current = this.bulkRepositoryOperation
+    if (current !== null && isBulkRepositoryOperationDone(current)) {
+      this.bulkRepositoryOperation = null
+      this.emitUpdate()
+    }
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _renameBranch(
+    repository: Repository,
+    branch: Branch,
+    newName: string
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() =>
+      renameBranch(repository, branch, newName)
+    )
+
+    return this._refreshRepository(repository)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _deleteBranch(
+    repository: Repository,
+    branch: Branch,
+    includeUpstream?: boolean,
+    toCheckout?: Branch | null
+  ): Promise<void> {
+    return this.withAuthenticatingUser(repository, async (r, account) => {
+      const gitStore = this.gitStoreCache.get(r)
+
+      // If solely a remote branch, there is no need to checkout a branch.
+      if (branch.type === BranchType.Remote) {
+        const { remoteName, tip, nameWithoutRemote } = branch
+        if (remoteName === null) {
+          // This is based on the branches ref. It should not be null for a
+          // remote branch
+          throw new Error(
+            `Could not determine remote name from: ${branch.ref}.`
+          )
+        }
+
+        await gitStore.performFailableOperation(() =>
+          deleteRemoteBranch(r, account, remoteName, nameWithoutRemote)
+        )
+
+        // We log the remote branch's sha so that the user can recover it.
+        log.info(
+          `Deleted branch ${branch.upstreamWithoutRemote} (was ${tip.sha})`
+        )
+
+        return this._refreshRepository(r)
+      }
+
+      // If a local branch, user may have the branch to delete checked out and
+      // we need to switch to a different branch (default or recent).
       const branchToCheckout =
         toCheckout ?? this.getBranchToCheckoutAfterDelete(branch, r)
 
@@ -4054,15 +4606,24 @@ export class AppStore extends TypedBaseStore<IAppState> {
         )
       }
 
-      await gitStore.performFailableOperation(() => {
-        return this.deleteLocalBranchAndUpstreamBranch(
+      const deleted = await gitStore.performFailableOperation(async () => {
+        await this.deleteLocalBranchAndUpstreamBranch(
           repository,
           branch,
           account,
           includeUpstream
         )
+        return true
       })
 
+      if (deleted) {
+        gitStore.recordBranchDeletion(branch)
+        this.showUndoableOperationBanner(
+          repository,
+          JournaledOperationKind.DeleteBranch
+        )
+      }
+
       return this._refreshRepository(r)
     })
   }
@@ -4469,6 +5030,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
             }
           )
 
+          gitStore.clearOperationJournal()
+
           await updateRemoteHEAD(repository, account, remote)
 
           const refreshStartProgress = pullWeight + fetchWeight
@@ -4618,6 +5181,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
 
     const { askForConfirmationOnDiscardChangesPermanently } = this.getState()
 
+    const snapshot = await gitStore.createSnapshot()
+
     try {
       await gitStore.discardChanges(
         files,
@@ -4633,6 +5198,15 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return
     }
 
+    await gitStore.recordOperation(
+      JournaledOperationKind.DiscardChanges,
+      snapshot
+    )
+    this.showUndoableOperationBanner(
+      repository,
+      JournaledOperationKind.DiscardChanges
+    )
+
     return this._refreshRepository(repository)
   }
 
@@ -4643,7 +5217,122 @@ export class AppStore extends TypedBaseStore<IAppState> {
     selection: DiffSelection
   ) {
     const gitStore = this.gitStoreCache.get(repository)
-    await gitStore.discardChangesFromSelection(filePath, diff, selection)
+    const snapshot = await gitStore.createSnapshot()
+    const discarded = await gitStore.discardChangesFromSelection(
+      filePath,
+      diff,
+      selection
+    )
+
+    if (discarded) {
+      await gitStore.recordOperation(
+        JournaledOperationKind.DiscardChanges,
+        snapshot
+      )
+      this.showUndoableOperationBanner(
+        repository,
+        JournaledOperationKind.DiscardChanges
+      )
+    }
+
+    return this._refreshRepository(repository)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _revertChangesFromSelection(
+    repository: Repository,
+    filePath: string,
+    diff: ITextDiff,
+    selection: DiffSelection
+  ) {
+    const gitStore = this.gitStoreCache.get(repository)
+    const snapshot = await gitStore.createSnapshot()
+
+    const reverted = await gitStore.revertChangesFromSelection(
+      filePath,
+      diff,
+      selection
+    )
+
+    if (reverted) {
+      await gitStore.recordOperation(
+        JournaledOperationKind.RevertChanges,
+        snapshot
+      )
+      this.showUndoableOperationBanner(
+        repository,
+        JournaledOperationKind.RevertChanges
+      )
+    }
+
+    return this._refreshRepository(repository)
+  }
+
+  /**
+   * Show a banner offering to undo an operation which was just recorded in
+   * the journal of the repository.
+   */
+  private showUndoableOperationBanner(
+    repository: Repository,
+    operation: JournaledOperationKind
+  ) {
+    const { operationJournal } = this.gitStoreCache.get(repository)
+
+    if (operationJournal.undo.at(-1)?.kind !== operation) {
+      return
+    }
+
+    this._setBanner({
+      type: BannerType.UndoableOperation,
+      operation,
+      onUndo: () => this._undoOperation(repository),
+    })
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _undoOperation(repository: Repository): Promise<void> {
+    const { changesState } = this.repositoryStateCache.get(repository)
+
+    if (changesState.conflictState !== null) {
+      this.emitError(
+        new Error('Finish resolving the conflicts before undoing an operation.')
+      )
+      return
+    }
+
+    const gitStore = this.gitStoreCache.get(repository)
+    const entry = await gitStore.undoOperation()
+
+    if (entry !== null) {
+      this._setBanner({
+        type: BannerType.OperationUndone,
+        operation: entry.kind,
+      })
+    }
+
+    return this._refreshRepository(repository)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _redoOperation(repository: Repository): Promise<void> {
+    const { changesState } = this.repositoryStateCache.get(repository)
+
+    if (changesState.conflictState !== null) {
+      this.emitError(
+        new Error('Finish resolving the conflicts before redoing an operation.')
+      )
+      return
+    }
+
+    const gitStore = this.gitStoreCache.get(repository)
+    const entry = await gitStore.redoOperation()
+
+    if (entry !== null) {
+      this._setBanner({
+        type: BannerType.OperationRedone,
+        operation: entry.kind,
+      })
+    }
 
     return this._refreshRepository(repository)
   }
@@ -4727,15 +5416,52 @@ export class AppStore extends TypedBaseStore<IAppState> {
       RepositorySectionTab.Changes
     )
 
-    await gitStore.performFailableOperation(() =>
+    const snapshot = await gitStore.createSnapshot()
+
+    const result = await gitStore.performFailableOperation(() =>
       reset(repository, GitResetMode.Mixed, commit.sha)
     )
 
+    if (result !== undefined) {
+      await gitStore.recordOperation(
+        JournaledOperationKind.ResetToCommit,
+        snapshot
+      )
+      this.showUndoableOperationBanner(
+        repository,
+        JournaledOperationKind.ResetToCommit
+      )
+    }
+
     // this.statsStore.recordCommitUndone(isWorkingDirectoryClean)
 
     return this._refreshRepository(repository)
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _lockLFSFiles(
+    repository: Repository,
+    paths: ReadonlyArray<string>
+  ): Promise<void> {
+    const account = getAccountForRepository(this.accounts, repository)
+    return this.gitStoreCache.get(repository).lockLFSFiles(account, paths)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _unlockLFSFiles(
+    repository: Repository,
+    paths: ReadonlyArray<string>
+  ): Promise<void> {
+    const account = getAccountForRepository(this.accounts, repository)
+    return this.gitStoreCache.get(repository).unlockLFSFiles(account, paths)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public _refreshLFSLocks(repository: Repository): Promise<void> {
+    const account = getAccountForRepository(this.accounts, repository)
+    return this.gitStoreCache.get(repository).loadLFSLocks(account, true)
+  }
+
   /**
    * Fetch a specific refspec for the repository.
    *
@@ -5011,10 +5737,13 @@ export class AppStore extends TypedBaseStore<IAppState> {
       }
     }
 
+    const snapshot = await gitStore.createSnapshot()
+
     const mergeResult = await gitStore.merge(sourceBranch, isSquash)
     const { tip } = gitStore
 
     if (mergeResult === MergeResult.Success && tip.kind === TipState.Valid) {
+      await gitStore.recordOperation(JournaledOperationKind.Merge, snapshot)
       this._setBanner({
         type: BannerType.SuccessfulMerge,
         ourBranch: tip.branch.name,
@@ -5204,6 +5933,45 @@ export class AppStore extends TypedBaseStore<IAppState> {
     await gitStore.setRemoteURL(name, url)
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _addRemote(
+    repository: Repository,
+    name: string,
+    url: string
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.addRemote(name, url)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _renameRemote(
+    repository: Repository,
+    name: string,
+    newName: string
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.renameRemote(name, newName)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _removeRemote(
+    repository: Repository,
+    name: string
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.removeRemote(name)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _setRemotePushURL(
+    repository: Repository,
+    name: string,
+    url: string | null
+  ): Promise<void> {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.setRemotePushURL(name, url)
+  }
+
   /** This shouldn't be called directly. See `Dispatcher`. */
   public async _openShell(path: string) {
     this.statsStore.recordOpenShell()
@@ -5221,12 +5989,41 @@ export class AppStore extends TypedBaseStore<IAppState> {
     return shell.openExternal(url)
   }
 
-  /** Open a path to a repository or file using the user's configured editor */
-  public async _openInExternalEditor(fullPath: string): Promise<void> {
-    const { selectedExternalEditor } = this.getState()
+  /**
+   * Get the name of the editor to open the given path in, which is the editor
+   * chosen for the repository containing the path if there is one, or the
+   * editor chosen in Preferences otherwise.
+   */
+  private getExternalEditorForPath(fullPath: string): string | null {
+    const containingRepositories = this.repositories.filter(r => {
+      const relative = Path.relative(r.path, fullPath)
+      return !relative.startsWith('..') && !Path.isAbsolute(relative)
+    })
 
+    // The innermost repository wins when repositories are nested
+    const repository = containingRepositories.reduce<Repository | null>(
+      (innermost, r) =>
+        innermost === null || r.path.length > innermost.path.length
+          ? r
+          : innermost,
+      null
+    )
+
+    return (
+      repository?.workflowPreferences.externalEditor ??
+      this.selectedExternalEditor
+    )
+  }
+
+  /** Open a path to a repository or file using the user's configured editor */
+  public async _openInExternalEditor(
+    fullPath: string,
+    position?: IEditorPosition
+  ): Promise<void> {
     try {
-      const match = await findEditorOrDefault(selectedExternalEditor)
+      const match = await findEditorOrDefault(
+        this.getExternalEditorForPath(fullPath)
+      )
       if (match === null) {
         this.emitError(
           new ExternalEditorError(
@@ -5237,7 +6034,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
         return
       }
 
-      await launchExternalEditor(fullPath, match)
+      await launchExternalEditor(fullPath, match, position)
     } catch (error) {
       this.emitError(error)
     }
@@ -5346,6 +6143,28 @@ export class AppStore extends TypedBaseStore<IAppState> {
     return Promise.resolve()
   }
 
+  public _setCommitGraphMode(commitGraphMode: CommitGraphMode) {
+    if (this.commitGraphMode === commitGraphMode) {
+      return
+    }
+
+    this.commitGraphMode = commitGraphMode
+    localStorage.setItem(commitGraphModeKey, commitGraphMode)
+
+    this.emitUpdate()
+
+    // The history shown depends on the commit graph mode, so it has to be
+    // reloaded if it's currently on display.
+    const repository = this.selectedRepository
+    if (repository instanceof Repository) {
+      const { formState } =
+        this.repositoryStateCache.get(repository).compareState
+      if (formState.kind === HistoryTabMode.History) {
+        this._executeCompare(repository, formState)
+      }
+    }
+  }
+
   public _setExternalEditor(selectedEditor: string) {
     const promise = this.updateSelectedExternalEditor(selectedEditor)
     localStorage.setItem(externalEditorKey, selectedEditor)
@@ -6001,6 +6820,230 @@ export class AppStore extends TypedBaseStore<IAppState> {
     }
   }
 
+  /**
+   * This shouldn't be called directly. See `Dispatcher`.
+   *
+   * Returns whether the pull request was created, and throws if GitHub
+   * refuses to create it.
+   */
+  public async _submitPullRequest(
+    repository: Repository,
+    baseBranch: Branch,
+    details: IPullRequestDetails
+  ): Promise<boolean> {
+    const gitHubRepository = repository.gitHubRepository
+    if (!gitHubRepository) {
+      return false
+    }
+
+    const api = this.getAPIForPullRequest(repository, 'create a pull request')
+
+    let state = this.repositoryStateCache.get(repository)
+
+    if (state.aheadBehind === null || state.aheadBehind.ahead > 0) {
+      await this._push(repository)
+      state = this.repositoryStateCache.get(repository)
+
+      // Pushing failed, and the error has already been shown
+      if (state.aheadBehind === null || state.aheadBehind.ahead > 0) {
+        return false
+      }
+    }
+
+    const tip = state.branchesState.tip
+    if (tip.kind !== TipState.Valid) {
+      return false
+    }
+
+    const { branch } = tip
+    const branchName = branch.upstreamWithoutRemote ?? branch.nameWithoutRemote
+    const { parent, owner } = gitHubRepository
+    const target =
+      isRepositoryAForkContributingToParent(repository) && parent !== null
+        ? parent
+        : gitHubRepository
+    const head =
+      target === gitHubRepository ? branchName : `${owner.login}:${branchName}`
+
+    const targetOwner = target.owner.login
+
+    const created = await api.createPullRequest(targetOwner, target.name, {
+      title: details.title,
+      body: details.body,
+      head,
+      base: baseBranch.nameWithoutRemote,
+      draft: details.draft,
+    })
+    const prNumber = created.number
+
+    try {
+      if (details.reviewers.length > 0) {
+        await api.requestPullRequestReviewers(
+          targetOwner,
+          target.name,
+          prNumber,
+          details.reviewers
+        )
+      }
+
+      if (details.assignees.length > 0) {
+        await api.addIssueAssignees(
+          targetOwner,
+          target.name,
+          prNumber,
+          details.assignees
+        )
+      }
+
+      if (details.labels.length > 0) {
+        await api.addIssueLabels(
+          targetOwner,
+          target.name,
+          prNumber,
+          details.labels
+        )
+      }
+    } catch (e) {
+      this.emitError(
+        new Error(
+          `Pull request #${prNumber} was created, but its reviewers, assignees or labels couldn't all be set: ${e.message}`
+        )
+      )
+    }
+
+    if (target.htmlURL !== null) {
+      this._setBanner({
+        type: BannerType.PullRequestCreated,
+        pullRequestNumber: prNumber,
+        url: `${target.htmlURL}/pull/${prNumber}`,
+      })
+    }
+
+    if (this.currentOnboardingTutorialStep === TutorialStep.OpenPullRequest) {
+      this._markPullRequestTutorialStepAsComplete(repository)
+    }
+
+    await this._refreshPullRequests(repository)
+
+    return true
+  }
+
+  /**
+   * This shouldn't be called directly. See `Dispatcher`.
+   *
+   * Throws if the pull request can't be fetched from GitHub.
+   */
+  public async _fetchPullRequestMergeInfo(
+    repository: RepositoryWithGitHubRepository,
+    pullRequest: PullRequest
+  ): Promise<IPullRequestMergeInfo> {
+    const api = this.getAPIForPullRequest(repository, 'merge a pull request')
+    const { owner, name } = pullRequest.base.gitHubRepository
+    const prNumber = pullRequest.pullRequestNumber
+
+    const [apiPullRequest, protectedBranches, reviews] = await Promise.all([
+      api.fetchPullRequest(owner.login, name, `${prNumber}`),
+      api.fetchProtectedBranches(owner.login, name),
+      api.fetchPullRequestReviews(owner.login, name, prNumber),
+    ])
+
+    const base = apiPullRequest.base.ref
+    const pushControl = protectedBranches.some(b => b.name === base)
+      ? await api.fetchPushControl(owner.login, name, base)
+      : null
+
+    const checks = new Array<IRefCheck>()
+
+    if (pushControl !== null && pushControl.required_status_checks.length > 0) {
+      const sha = apiPullRequest.head.sha
+      const [statuses, checkRuns] = await Promise.all([
+        api.fetchCombinedRefStatus(owner.login, name, sha),
+        api.fetchRefCheckRuns(owner.login, name, sha),
+      ])
+
+      if (statuses !== null) {
+        checks.push(...statuses.statuses.map(apiStatusToRefCheck))
+      }
+
+      if (checkRuns !== null) {
+        const latestCheckRuns = getLatestCheckRunsByName(checkRuns.check_runs)
+        checks.push(...latestCheckRuns.map(apiCheckRunToRefCheck))
+      }
+    }
+
+    return { pullRequest: apiPullRequest, pushControl, reviews, checks }
+  }
+
+  /**
+   * This shouldn't be called directly. See `Dispatcher`.
+   *
+   * Throws if GitHub refuses to merge the pull request.
+   */
+  public async _mergePullRequest(
+    repository: RepositoryWithGitHubRepository,
+    pullRequest: PullRequest,
+    sha: string,
+    method: APIPullRequestMergeMethod,
+    commitTitle: string | undefined,
+    commitMessage: string | undefined,
+    deleteHeadBranch: boolean
+  ): Promise<void> {
+    const api = this.getAPIForPullRequest(repository, 'merge a pull request')
+    const { base, head, pullRequestNumber } = pullRequest
+
+    await api.mergePullRequest(
+      base.gitHubRepository.owner.login,
+      base.gitHubRepository.name,
+      pullRequestNumber,
+      {
+        merge_method: method,
+        commit_title: commitTitle,
+        commit_message: commitMessage,
+        sha,
+      }
+    )
+
+    if (deleteHeadBranch) {
+      const { owner, name } = head.gitHubRepository
+
+      try {
+        await api.deleteBranch(owner.login, name, head.ref)
+      } catch (e) {
+        this.emitError(
+          new Error(
+            `Pull request #${pullRequestNumber} was merged, but its branch ${head.ref} couldn't be deleted: ${e.message}`
+          )
+        )
+      }
+    }
+
+    if (base.gitHubRepository.htmlURL !== null) {
+      this._setBanner({
+        type: BannerType.PullRequestMerged,
+        pullRequestNumber,
+        url: `${base.gitHubRepository.htmlURL}/pull/${pullRequestNumber}`,
+      })
+    }
+
+    await this._refreshPullRequests(repository)
+  }
+
+  /**
+   * Get the API for the account of the given repository, throwing an error
+   * telling the user to sign in to be able to perform the given action when
+   * there's no such account.
+   */
+  private getAPIForPullRequest(repository: Repository, action: string) {
+    const account = getAccountForRepository(this.accounts, repository)
+    if (account === null) {
+      throw new Error(
+        `You need to sign in to the account of this repository to ${action}.`
+      )
+    }
+
+    return API.fromAccount(account)
+  }
+
   public async _showPullRequest(repository: Repository): Promise<void> {
     // no pull requests from non github repos
     if (repository.gitHubRepository === null) {
@@ -6071,6 +7114,9 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return
     }
 
+    const previousPullRequest =
+      this.repositoryStateCache.get(repository).branchesState.currentPullRequest
+
     this.repositoryStateCache.updateBranchesState(repository, state => {
       let currentPullRequest: PullRequest | null = null
 
@@ -6087,6 +7133,53 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return { currentPullRequest }
     })
 
+    // The pull requests are recreated whenever they're refreshed, so this
+    // reloads the review comments then too.
+    const { currentPullRequest } =
+      this.repositoryStateCache.get(repository).branchesState
+    if (currentPullRequest !== previousPullRequest) {
+      this.loadPullRequestReviewThreads(repository)
+    }
+
+    this.emitUpdate()
+  }
+
+  private async loadPullRequestReviewThreads(repository: Repository) {
+    const pr =
+      this.repositoryStateCache.get(repository).branchesState.currentPullRequest
+    const account = getAccountForRepository(this.accounts, repository)
+
+    let pullRequestReviewThreads: ReadonlyArray<IPullRequestReviewThread> = []
+
+    if (pr !== null && account !== null) {
+      const { owner, name } = pr.base.gitHubRepository
+      const api = API.fromAccount(account)
+
+      try {
+        const comments = await api.fetchPullRequestReviewComments(
+          owner.login,
+          name,
+          pr.pullRequestNumber
+        )
+        pullRequestReviewThreads = getPullRequestReviewThreads(comments)
+      } catch (e) {
+        log.warn(
+          `Could not load the review comments of #${pr.pullRequestNumber}`,
+          e
+        )
+      }
+    }
+
+    // The current pull request may have changed while loading
+    const { currentPullRequest } =
+      this.repositoryStateCache.get(repository).branchesState
+    if (currentPullRequest !== pr) {
+      return
+    }
+
+    this.repositoryStateCache.update(repository, () => ({
+      pullRequestReviewThreads,
+    }))
     this.emitUpdate()
   }
 
@@ -6479,6 +7572,52 @@ export class AppStore extends TypedBaseStore<IAppState> {
     await gitStore.loadStashEntries()
   }
 
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _createStashEntry(
+    repository: Repository,
+    message: string | null,
+    files: ReadonlyArray<WorkingDirectoryFileChange>
+  ): Promise<boolean> {
+    const gitStore = this.gitStoreCache.get(repository)
+    const createdStash = await gitStore.performFailableOperation(() =>
+      createStashEntry(repository, message, files)
+    )
+
+    await this._refreshRepository(repository)
+
+    return createdStash === true
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _applyStashEntry(
+    repository: Repository,
+    stashEntry: IStashEntry
+  ) {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() => {
+      return applyStashEntry(repository, stashEntry.stashSha)
+    })
+    log.info(
+      `[AppStore. _applyStashEntry] applied stash with commit id ${stashEntry.stashSha}`
+    )
+
+    await this._refreshRepository(repository)
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _renameStashEntry(
+    repository: Repository,
+    stashEntry: IStashEntry,
+    message: string
+  ) {
+    const gitStore = this.gitStoreCache.get(repository)
+    await gitStore.performFailableOperation(() => {
+      return renameStashEntry(repository, stashEntry.stashSha, message)
+    })
+
+    await gitStore.loadStashEntries()
+  }
+
   /** This shouldn't be called directly. See `Dispatcher`. */
   public _setStashedFilesWidth(width: number): Promise<void> {
     this.stashedFilesWidth = { ...this.stashedFilesWidth, value: width }
@@ -6902,6 +8041,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
     const progressCallback =
       this.getMultiCommitOperationProgressCallBack(repository)
     const gitStore = this.gitStoreCache.get(repository)
+    const snapshot = await gitStore.createSnapshot()
+
     const result = await gitStore.performFailableOperation(() =>
       reorder(
         repository,
@@ -6912,6 +8053,10 @@ export class AppStore extends TypedBaseStore<IAppState> {
       )
     )
 
+    if (result === RebaseResult.CompletedWithoutError) {
+      await gitStore.recordOperation(JournaledOperationKind.Reorder, snapshot)
+    }
+
     return result || RebaseResult.Error
   }
 
@@ -6932,6 +8077,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
       this.getMultiCommitOperationProgressCallBack(repository)
     const commitMessage = await formatCommitMessage(repository, commitContext)
     const gitStore = this.gitStoreCache.get(repository)
+    const snapshot = await gitStore.createSnapshot()
+
     const result = await gitStore.performFailableOperation(() =>
       squash(
         repository,
@@ -6943,6 +8090,36 @@ export class AppStore extends TypedBaseStore<IAppState> {
       )
     )
 
+    if (result === RebaseResult.CompletedWithoutError) {
+      await gitStore.recordOperation(JournaledOperationKind.Squash, snapshot)
+    }
+
+    return result || RebaseResult.Error
+  }
+
+  /** This shouldn't be called directly. See `Dispatcher`. */
+  public async _interactiveRebase(
+    repository: Repository,
+    todo: ReadonlyArray<RebaseTodoItem>,
+    lastRetainedCommitRef: string | null
+  ): Promise<RebaseResult> {
+    if (todo.length === 0) {
+      log.error('[_interactiveRebase] - Unable to rebase. No commits provided.')
+      return RebaseResult.Error
+    }
+
+    const progressCallback =
+      this.getMultiCommitOperationProgressCallBack(repository)
+    const gitStore = this.gitStoreCache.get(repository)
+    const result = await gitStore.performFailableOperation(() =>
+      interactiveRebase(
+        repository,
+        todo,
+        lastRetainedCommitRef,
+        progressCallback
+      )
+    )
+
     return result || RebaseResult.Error
   }
 
@@ -7013,6 +8190,8 @@ export class AppStore extends TypedBaseStore<IAppState> {
       return false
     }
 
+    gitStore.clearOperationJournal()
+
     let banner: Banner
 
     switch (kind) {
@@ -7041,6 +8220,7 @@ export class AppStore extends TypedBaseStore<IAppState> {
         }
         break
       case MultiCommitOperationKind.Rebase:
+      case MultiCommitOperationKind.InteractiveRebase:
       case MultiCommitOperationKind.Merge:
         throw new Error(
           `Unexpected multi commit operation kind to undo ${kind}`
@@ -7659,6 +8839,30 @@ function isLocalChangesOverwrittenError(error: Error): boolean {
   )
 }
 
+/**
+ * Get a selection of the lines in the given diff which aren't selected in the
+ * given selection, i.e. the inverse of the selection.
+ */
+function getDeselectedLines(
+  diff: ITextDiff,
+  selection: DiffSelection
+): DiffSelection {
+  let deselectedLines = DiffSelection.fromInitialSelection(
+    DiffSelectionType.None
+  )
+
+  for (const hunk of diff.hunks) {
+    hunk.lines.forEach((line, index) => {
+      const lineIndex = hunk.unifiedDiffStart + index
+      if (line.isIncludeableLine() && !selection.isSelected(lineIndex)) {
+        deselectedLines = deselectedLines.withLineSelection(lineIndex, true)
+      }
+    })
+  }
+
+  return deselectedLines
+}
+
 function constrain(
   value: IConstrainedValue | number,
   min = -Infinity,
@@ -15,7 +15,7 @@ import {
   ICompareResult,
 } from '../../models/branch'
 import { Tip, TipState } from '../../models/tip'
-import { Commit } from '../../models/commit'
+import { Commit, CommitSignatureStatus } from '../../models/commit'
 import { IRemote } from '../../models/remote'
 import { IFetchProgress, IRevertProgress } from '../../models/progress'
 import {
@@ -44,14 +44,24 @@ import {
   deleteRef,
   getCommits,
   merge,
+  mergeFastForwardOnly,
+  checkoutBranch,
   setRemoteURL,
+  setRemotePushURL,
+  renameRemote,
   getStatus,
   IStatusResult,
   getCommit,
+  getCommitSignatureStatuses,
   IndexStatus,
   getIndexChanges,
   checkoutIndex,
   discardChangesFromSelection,
+  revertChangesFromSelection,
+  stageSelection,
+  unstageAll,
+  unstageFiles,
+  unstageSelection,
   checkoutPaths,
   resetPaths,
   revertCommit,
@@ -72,10 +82,21 @@ import {
   createTag,
   getAllTags,
   deleteTag,
+  getRemoteTags,
+  pushTag,
+  deleteRemoteTag,
   MergeResult,
   createBranch,
   updateRemoteHEAD,
   getRemoteHEAD,
+  deleteLocalBranch,
+  createRepositorySnapshot,
+  restoreRepositorySnapshot,
+  applyRepositorySnapshotChanges,
+  getHeadSha,
+  getWorkingDirectoryState,
+  isSameWorkingDirectoryState,
+  updateJournalRefs,
 } from '../git'
 import { GitError as DugiteError } from '../../lib/git'
 import { GitError } from 'dugite'
@@ -93,6 +114,7 @@ import { GitAuthor } from '../../models/git-author'
 import { IGitAccount } from '../../models/git-account'
 import { BaseStore } from './base-store'
 import { getStashes, getStashedFiles } from '../git/stash'
+import { stageFiles } from '../git/update-index'
 import { IStashEntry, StashedChangesLoadStates } from '../../models/stash-entry'
 import { PullRequest } from '../../models/pull-request'
 import { StatsStore } from '../stats'
@@ -101,6 +123,17 @@ import { DiffSelection, ITextDiff } from '../../models/diff'
 import { getDefaultBranch } from '../helpers/default-branch'
 import { stat } from 'fs/promises'
 import { findForkedRemotesToPrune } from './helpers/find-forked-remotes-to-prune'
+import {
+  getJournaledOperationName,
+  IOperationJournal,
+  IRepositorySnapshot,
+  JournaledOperationKind,
+  JournalEntry,
+  MaxJournalLength,
+} from '../../models/operation-journal'
+import { ILFSLock } from '../../models/lfs-lock'
+import { getLFSLocks, isUsingLFS, lockLFSFile, unlockLFSFile } from '../git/lfs'
+import { getFallbackUrlForProxyResolve } from '../git/environment'
 
 /** The number of commits to load from history per batch. */
 const CommitBatchSize = 100
@@ -110,11 +143,23 @@ const LoadingHistoryRequestKey = 'history'
 /** The max number of recent branches to find. */
 const RecentBranchesLimit = 5
 
+/**
+ * How long to wait before asking the LFS server for locks again when the
+ * repository is refreshed, in milliseconds.
+ */
+const LFSLocksRefreshInterval = 60 * 1000
+
 /** The store for a repository's git data. */
 export class GitStore extends BaseStore {
   /** The commits keyed by their SHA. */
   public readonly commitLookup = new Map<string, Commit>()
 
+  private _commitSignatureStatuses: ReadonlyMap<string, CommitSignatureStatus> =
+    new Map()
+
+  /** The SHAs of the commits whose signature status is being loaded */
+  private readonly signatureStatusesInFlight = new Set<string>()
+
   public pullWithRebase?: boolean
 
   private _history: ReadonlyArray<string> = []
@@ -157,6 +202,16 @@ export class GitStore extends BaseStore {
 
   private _stashEntryCount = 0
 
+  private _stashEntries: ReadonlyArray<IStashEntry> = []
+
+  private _operationJournal: IOperationJournal = { undo: [], redo: [] }
+  private journalRefsUpdate: Promise<void> = Promise.resolve()
+
+  private _lfsLocks: ReadonlyArray<ILFSLock> | null = null
+
+  /** When the LFS locks were last loaded, or null if they never were */
+  private lfsLocksLoadedAt: number | null = null
+
   public constructor(
     private readonly repository: Repository,
     private readonly shell: IAppShell,
@@ -212,13 +267,24 @@ export class GitStore extends BaseStore {
     this.emitUpdate()
   }
 
-  /** Load a batch of commits from the repository, using a given commitish object as the starting point */
-  public async loadCommitBatch(commitish: string, skip: number) {
+  /**
+   * Load a batch of commits from the repository, using a given commitish object
+   * as the starting point
+   *
+   * @param additionalArgs - extra arguments for `git log`, such as other refs
+   *                         to include in the history or the commit ordering
+   */
+  public async loadCommitBatch(
+    commitish: string,
+    skip: number,
+    additionalArgs: ReadonlyArray<string> = []
+  ) {
     if (this.requestsInFight.has(LoadingHistoryRequestKey)) {
       return null
     }
 
-    const requestKey = `history/compare/${commitish}/skip/${skip}`
+    const args = additionalArgs.join(' ')
+    const requestKey = `history/compare/${commitish}/skip/${skip}/${args}`
     if (this.requestsInFight.has(requestKey)) {
       return null
     }
@@ -226,7 +292,13 @@ export class GitStore extends BaseStore {
     this.requestsInFight.add(requestKey)
 
     const commits = await this.performFailableOperation(() =>
-      getCommits(this.repository, commitish, CommitBatchSize, skip)
+      getCommits(
+        this.repository,
+        commitish,
+        CommitBatchSize,
+        skip,
+        additionalArgs
+      )
     )
 
     this.requestsInFight.delete(requestKey)
@@ -336,9 +408,13 @@ export class GitStore extends BaseStore {
     return undefined
   }
 
-  public async createTag(name: string, targetCommitSha: string) {
+  public async createTag(
+    name: string,
+    targetCommitSha: string,
+    message?: string
+  ) {
     const result = await this.performFailableOperation(async () => {
-      await createTag(this.repository, name, targetCommitSha)
+      await createTag(this.repository, name, targetCommitSha, message)
       return true
     })
 
@@ -368,6 +444,58 @@ export class GitStore extends BaseStore {
     this.statsStore.recordTagDeleted()
   }
 
+  /**
+   * Get the tags in the current remote, or null if there's no remote or the
+   * tags couldn't be loaded.
+   */
+  public async getRemoteTags(
+    account: IGitAccount | null
+  ): Promise<Map<string, string> | null> {
+    const remote = this.currentRemote
+
+    if (remote === null) {
+      return null
+    }
+
+    const tags = await this.performFailableOperation(
+      () => getRemoteTags(this.repository, account, remote),
+      { backgroundTask: true }
+    )
+
+    return tags ?? null
+  }
+
+  /** Push a single tag to the current remote. */
+  public async pushTag(account: IGitAccount | null, name: string) {
+    const remote = this.currentRemote
+
+    if (remote === null) {
+      return
+    }
+
+    const result = await this.performFailableOperation(async () => {
+      await pushTag(this.repository, account, remote, name)
+      return true
+    })
+
+    if (result !== undefined) {
+      this.removeTagToPush(name)
+    }
+  }
+
+  /** Delete a tag from the current remote, keeping the local tag. */
+  public async deleteRemoteTag(account: IGitAccount | null, name: string) {
+    const remote = this.currentRemote
+
+    if (remote === null) {
+      return
+    }
+
+    await this.performFailableOperation(() =>
+      deleteRemoteTag(this.repository, account, remote, name)
+    )
+  }
+
   /** The list of ordered SHAs. */
   public get history(): ReadonlyArray<string> {
     return this._history
@@ -670,6 +798,55 @@ export class GitStore extends BaseStore {
     return this._localCommitSHAs
   }
 
+  /**
+   * The status of the signatures of the commits loaded with
+   * `loadCommitSignatureStatuses`, keyed by their SHA.
+   */
+  public get commitSignatureStatuses(): ReadonlyMap<
+    string,
+    CommitSignatureStatus
+  > {
+    return this._commitSignatureStatuses
+  }
+
+  /**
+   * Load the status of the signatures of the given commits, unless it has
+   * been loaded already. Only the commits being shown should be given since
+   * verifying a signature runs the signing program.
+   */
+  public async loadCommitSignatureStatuses(
+    shas: ReadonlyArray<string>
+  ): Promise<void> {
+    const shasToLoad = shas.filter(
+      sha =>
+        !this._commitSignatureStatuses.has(sha) &&
+        !this.signatureStatusesInFlight.has(sha)
+    )
+
+    if (shasToLoad.length === 0) {
+      return
+    }
+
+    shasToLoad.forEach(sha => this.signatureStatusesInFlight.add(sha))
+
+    try {
+      const statuses = await getCommitSignatureStatuses(
+        this.repository,
+        shasToLoad
+      )
+
+      this._commitSignatureStatuses = new Map([
+        ...this._commitSignatureStatuses,
+        ...statuses,
+      ])
+      this.emitUpdate()
+    } catch (e) {
+      log.warn('Could not load the signature status of commits', e)
+    } finally {
+      shasToLoad.forEach(sha => this.signatureStatusesInFlight.delete(sha))
+    }
+  }
+
   /** Store the given commits. */
   private storeCommits(commits: ReadonlyArray<Commit>) {
     for (const commit of commits) {
@@ -735,6 +912,8 @@ export class GitStore extends BaseStore {
       return
     }
 
+    this.clearOperationJournal()
+
     // Let's be safe about this since it's untried waters.
     // If we can restore co-authors then that's fantastic
     // but if we can't we shouldn't be throwing an error,
@@ -757,6 +936,245 @@ export class GitStore extends BaseStore {
     this.emitUpdate()
   }
 
+  /**
+   * The destructive operations performed in the repository which can be
+   * undone or redone.
+   */
+  public get operationJournal(): IOperationJournal {
+    return this._operationJournal
+  }
+
+  /**
+   * Record a destructive operation which has succeeded so that it can be
+   * undone.
+   *
+   * @param snapshot The snapshot taken right before the operation, see
+   *                 `createSnapshot`. Nothing is recorded if it's null.
+   */
+  public async recordOperation(
+    kind: Exclude<JournaledOperationKind, JournaledOperationKind.DeleteBranch>,
+    snapshot: IRepositorySnapshot | null
+  ): Promise<void> {
+    if (snapshot === null) {
+      return
+    }
+
+    try {
+      const resultSha = await getHeadSha(this.repository)
+      const resultState = await getWorkingDirectoryState(this.repository)
+      this.addJournalEntry({ kind, snapshot, resultSha, resultState })
+    } catch (e) {
+      log.error('Could not record the operation', e)
+    }
+  }
+
+  /** Record the deletion of a local branch so that it can be restored */
+  public recordBranchDeletion(branch: Branch) {
+    this.addJournalEntry({
+      kind: JournaledOperationKind.DeleteBranch,
+      branchName: branch.name,
+      sha: branch.tip.sha,
+    })
+  }
+
+  private addJournalEntry(entry: JournalEntry) {
+    const undo = [...this._operationJournal.undo, entry]
+
+    // Recording a new operation means the undone ones can't be redone anymore
+    this.setOperationJournal({ undo: undo.slice(-MaxJournalLength), redo: [] })
+  }
+
+  private setOperationJournal(journal: IOperationJournal) {
+    this._operationJournal = journal
+    this.emitUpdate()
+
+    // Updates are chained so that they're applied in the order the journal
+    // changed in, each one for the journal as it is by then.
+    this.journalRefsUpdate = this.journalRefsUpdate
+      .then(() => {
+        const { undo, redo } = this._operationJournal
+        return updateJournalRefs(
+          this.repository,
+          getJournalShas([...undo, ...redo])
+        )
+      })
+      .catch(e => log.error('Could not update the operation journal refs', e))
+  }
+
+  /**
+   * Forget all recorded operations. This is done when the checked out branch
+   * moves by an operation which isn't recorded, such as a commit, pull or
+   * checkout, since undoing an earlier operation would throw that away.
+   */
+  public clearOperationJournal() {
+    const { undo, redo } = this._operationJournal
+
+    if (undo.length === 0 && redo.length === 0) {
+      return
+    }
+
+    this.setOperationJournal({ undo: [], redo: [] })
+  }
+
+  /**
+   * Take a snapshot of the checked out branch before a destructive operation
+   * so that the operation can be recorded once it has succeeded.
+   *
+   * Returns null on a detached HEAD or an unborn branch, where operations
+   * aren't recorded.
+   */
+  public async createSnapshot(): Promise<IRepositorySnapshot | null> {
+    const { tip } = this
+
+    if (tip.kind !== TipState.Valid) {
+      return null
+    }
+
+    try {
+      return await createRepositorySnapshot(this.repository, tip.branch.name)
+    } catch (e) {
+      log.error('Could not take a snapshot of the repository', e)
+      return null
+    }
+  }
+
+  /**
+   * Undo the most recent operation in the journal so that it can be redone.
+   *
+   * @returns the operation which was undone, or null if there was nothing to
+   *          undo or it failed
+   */
+  public async undoOperation(): Promise<JournalEntry | null> {
+    const { undo, redo } = this._operationJournal
+    const entry = undo.at(-1)
+
+    if (entry === undefined) {
+      return null
+    }
+
+    const reverse = await this.performFailableOperation(() =>
+      this.applyJournalEntry(entry, true)
+    )
+
+    if (reverse === undefined) {
+      return null
+    }
+
+    this.setOperationJournal({
+      undo: undo.slice(0, -1),
+      redo: [...redo, reverse],
+    })
+
+    return entry
+  }
+
+  /**
+   * Redo the most recently undone operation so that it can be undone again.
+   *
+   * @returns the operation which was redone, or null if there was nothing to
+   *          redo or it failed
+   */
+  public async redoOperation(): Promise<JournalEntry | null> {
+    const { undo, redo } = this._operationJournal
+    const entry = redo.at(-1)
+
+    if (entry === undefined) {
+      return null
+    }
+
+    const reverse = await this.performFailableOperation(() =>
+      this.applyJournalEntry(entry, false)
+    )
+
+    if (reverse === undefined) {
+      return null
+    }
+
+    this.setOperationJournal({
+      undo: [...undo, reverse],
+      redo: redo.slice(0, -1),
+    })
+
+    return entry
+  }
+
+  /**
+   * Restore the state recorded in a journal entry.
+   *
+   * @param isUndo Whether the operation is being undone or redone, which only
+   *               matters for branch deletions since snapshots are restored
+   *               the same way in both directions.
+   * @returns an entry which reverses what was restored
+   */
+  private async applyJournalEntry(
+    entry: JournalEntry,
+    isUndo: boolean
+  ): Promise<JournalEntry> {
+    if (entry.kind === JournaledOperationKind.DeleteBranch) {
+      if (isUndo) {
+        await createBranch(this.repository, entry.branchName, entry.sha, true)
+      } else {
+        await deleteLocalBranch(this.repository, entry.branchName)
+      }
+      return entry
+    }
+
+    const { snapshot } = entry
+    const { tip } = this
+    const name = getJournaledOperationName(entry.kind)
+
+    if (
+      tip.kind !== TipState.Valid ||
+      tip.branch.name !== snapshot.branchName
+    ) {
+      const action = isUndo ? 'undo' : 'redo'
+      throw new Error(
+        `Switch to the branch ${snapshot.branchName} to ${action} the ${name}.`
+      )
+    }
+
+    // The state right before restoring, so that going the other way brings
+    // it back.
+    const current = await createRepositorySnapshot(
+      this.repository,
+      snapshot.branchName
+    )
+
+    // Resetting the branch after it has moved on would throw away the commits
+    // made since the operation.
+    if (current.headSha !== entry.resultSha) {
+      const action = isUndo ? 'undone' : 'redone'
+      throw new Error(
+        `The branch ${snapshot.branchName} has changed since the ${name}, so it can't be ${action}.`
+      )
+    }
+
+    // Restoring the snapshot would overwrite any changes made since the
+    // operation, including ones to untracked files.
+    const currentState = await getWorkingDirectoryState(this.repository)
+    if (!isSameWorkingDirectoryState(currentState, entry.resultState)) {
+      const action = isUndo ? 'undone' : 'redone'
+      throw new Error(
+        `There are changes which were made after the ${name}, so it can't be ${action}. Commit or discard them first.`
+      )
+    }
+
+    // A discard doesn't move the branch, so undoing it only needs to bring
+    // back the discarded changes.
+    if (isUndo && entry.kind === JournaledOperationKind.DiscardChanges) {
+      await applyRepositorySnapshotChanges(this.repository, snapshot)
+    } else {
+      await restoreRepositorySnapshot(this.repository, snapshot)
+    }
+
+    return {
+      kind: entry.kind,
+      snapshot: current,
+      resultSha: snapshot.headSha,
+      resultState: await getWorkingDirectoryState(this.repository),
+    }
+  }
+
   /**
    * Attempt to restore both the commit message and any co-authors
    * in it after an undo operation.
@@ -958,30 +1376,12 @@ export class GitStore extends BaseStore {
     backgroundTask: boolean,
     progressCallback?: (fetchProgress: IFetchProgress) => void
   ): Promise<void> {
-    // Use a map as a simple way of getting a unique set of remotes.
-    // Note that maps iterate in insertion order so the order in which
-    // we insert these will affect the order in which we fetch them
-    const remotes = new Map<string, IRemote>()
-
-    // We want to fetch the current remote first
-    if (this.currentRemote !== null) {
-      remotes.set(this.currentRemote.name, this.currentRemote)
-    }
-
-    // And then the default remote if it differs from the current
-    if (this.defaultRemote !== null) {
-      remotes.set(this.defaultRemote.name, this.defaultRemote)
-    }
+    const remotes = this.getRemotesToFetch()
 
-    // And finally the upstream if we're a fork
-    if (this.upstreamRemote !== null) {
-      remotes.set(this.upstreamRemote.name, this.upstreamRemote)
-    }
-
-    if (remotes.size > 0) {
+    if (remotes.length > 0) {
       await this.fetchRemotes(
         account,
-        [...remotes.values()],
+        remotes,
         backgroundTask,
         progressCallback
       )
@@ -1010,6 +1410,112 @@ export class GitStore extends BaseStore {
     this.emitUpdate()
   }
 
+  /** Get the current, default and upstream remotes, in the order to fetch them */
+  private getRemotesToFetch(): ReadonlyArray<IRemote> {
+    // Use a map as a simple way of getting a unique set of remotes.
+    // Note that maps iterate in insertion order so the order in which
+    // we insert these will affect the order in which we fetch them
+    const remotes = new Map<string, IRemote>()
+
+    // We want to fetch the current remote first
+    if (this.currentRemote !== null) {
+      remotes.set(this.currentRemote.name, this.currentRemote)
+    }
+
+    // And then the default remote if it differs from the current
+    if (this.defaultRemote !== null) {
+      remotes.set(this.defaultRemote.name, this.defaultRemote)
+    }
+
+    // And finally the upstream if we're a fork
+    if (this.upstreamRemote !== null) {
+      remotes.set(this.upstreamRemote.name, this.upstreamRemote)
+    }
+
+    return [...remotes.values()]
+  }
+
+  /**
+   * Fetch the current, default and upstream remotes as part of an operation
+   * on many repositories at once.
+   *
+   * The repository doesn't need to have been selected before. Unlike `fetch`,
+   * errors are thrown rather than emitted so that the caller can report the
+   * errors of all the repositories together.
+   */
+  public async bulkFetch(account: IGitAccount | null): Promise<void> {
+    await this.loadStatus()
+    await this.loadRemotes()
+
+    const remotes = this.getRemotesToFetch()
+
+    if (remotes.length === 0) {
+      throw new Error('The repository has no remotes.')
+    }
+
+    for (const remote of remotes) {
+      await fetchRepo(this.repository, account, remote)
+      await updateRemoteHEAD(this.repository, account, remote)
+    }
+
+    await this.loadStatus()
+  }
+
+  /**
+   * Fetch and fast-forward the current branch to its upstream branch as part
+   * of an operation on many repositories at once. Errors are thrown, see
+   * `bulkFetch`.
+   */
+  public async bulkFastForwardPull(account: IGitAccount | null): Promise<void> {
+    await this.bulkFetch(account)
+
+    const { tip } = this
+
+    if (tip.kind !== TipState.Valid) {
+      throw new Error('The repository is not on a branch.')
+    }
+
+    const { name, upstream } = tip.branch
+
+    if (upstream === null) {
+      throw new Error(`The branch ${name} doesn't track a remote branch.`)
+    }
+
+    await mergeFastForwardOnly(this.repository, upstream)
+    this.clearOperationJournal()
+    await this.loadStatus()
+  }
+
+  /**
+   * Check out the default branch as part of an operation on many repositories
+   * at once. Errors are thrown, see `bulkFetch`.
+   */
+  public async bulkCheckoutDefaultBranch(
+    account: IGitAccount | null
+  ): Promise<void> {
+    await this.loadStatus()
+    await this.loadRemotes()
+    await this.loadBranches()
+
+    const { defaultBranch, tip } = this
+
+    if (defaultBranch === null) {
+      throw new Error('The default branch could not be found.')
+    }
+
+    if (
+      tip.kind === TipState.Valid &&
+      (tip.branch.name === defaultBranch.name ||
+        tip.branch.upstream === defaultBranch.name)
+    ) {
+      return
+    }
+
+    await checkoutBranch(this.repository, account, defaultBranch)
+    this.clearOperationJournal()
+    await this.loadStatus()
+  }
+
   /**
    * Fetch the specified remotes, using the given account for authentication.
    *
@@ -1184,12 +1690,108 @@ export class GitStore extends BaseStore {
     }
 
     this._desktopStashEntries = map
+    this._stashEntries = stash.entries
     this._stashEntryCount = stash.stashEntryCount
     this.emitUpdate()
 
     this.loadFilesForCurrentStashEntry()
   }
 
+  /**
+   * The files locked with Git LFS in the repository, or null if the
+   * repository doesn't use LFS or its server doesn't support locking
+   */
+  public get lfsLocks(): ReadonlyArray<ILFSLock> | null {
+    return this._lfsLocks
+  }
+
+  /**
+   * Load the files locked with Git LFS from the LFS server of the repository.
+   *
+   * @param account The account to authenticate with the LFS server
+   * @param force   Whether the user asked for the locks, in which case they're
+   *                loaded even if they were loaded recently and failing to
+   *                load them is reported to the user
+   */
+  public async loadLFSLocks(
+    account: IGitAccount | null,
+    force: boolean = false
+  ): Promise<void> {
+    const { lfsLocksLoadedAt } = this
+
+    if (
+      !force &&
+      lfsLocksLoadedAt !== null &&
+      Date.now() - lfsLocksLoadedAt < LFSLocksRefreshInterval
+    ) {
+      return
+    }
+
+    this.lfsLocksLoadedAt = Date.now()
+
+    const loadLocks = async () =>
+      (await isUsingLFS(this.repository))
+        ? getLFSLocks(this.repository, account, this.getLFSRemoteUrl(account))
+        : null
+
+    let locks: ReadonlyArray<ILFSLock> | null = null
+    if (force) {
+      locks = (await this.performFailableOperation(loadLocks)) ?? null
+    } else {
+      try {
+        locks = await loadLocks()
+      } catch (e) {
+        log.warn(`Could not load LFS locks for ${this.repository.name}`, e)
+      }
+    }
+
+    this._lfsLocks = locks
+    this.emitUpdate()
+  }
+
+  /** Lock the given files with Git LFS and reload the locks */
+  public async lockLFSFiles(
+    account: IGitAccount | null,
+    paths: ReadonlyArray<string>
+  ): Promise<void> {
+    const remoteUrl = this.getLFSRemoteUrl(account)
+
+    for (const path of paths) {
+      await this.performFailableOperation(() =>
+        lockLFSFile(this.repository, account, remoteUrl, path)
+      )
+    }
+
+    return this.loadLFSLocks(account, true)
+  }
+
+  /** Release the Git LFS locks on the given files and reload the locks */
+  public async unlockLFSFiles(
+    account: IGitAccount | null,
+    paths: ReadonlyArray<string>
+  ): Promise<void> {
+    const remoteUrl = this.getLFSRemoteUrl(account)
+
+    for (const path of paths) {
+      await this.performFailableOperation(() =>
+        unlockLFSFile(this.repository, account, remoteUrl, path)
+      )
+    }
+
+    return this.loadLFSLocks(account, true)
+  }
+
+  /**
+   * Get the URL of the remote whose LFS server Git LFS uses for locking,
+   * which is the remote of the current branch.
+   */
+  private getLFSRemoteUrl(account: IGitAccount | null) {
+    return (
+      this.currentRemote?.url ??
+      getFallbackUrlForProxyResolve(account, this.repository)
+    )
+  }
+
   /**
    * A GitHub Desktop created stash entries for the current branch or
    * null if no entry exists
@@ -1200,6 +1802,14 @@ export class GitStore extends BaseStore {
       : null
   }
 
+  /**
+   * All stash entries in the repository, created both by Desktop and
+   * outside of Desktop, most recent first.
+   */
+  public get stashEntries(): ReadonlyArray<IStashEntry> {
+    return this._stashEntries
+  }
+
   /** The total number of stash entries */
   public get stashEntryCount(): number {
     return this._stashEntryCount
@@ -1254,7 +1864,9 @@ export class GitStore extends BaseStore {
 
   public async loadRemotes(): Promise<void> {
     const remotes = await getRemotes(this.repository)
-    this._defaultRemote = findDefaultRemote(remotes)
+    const { defaultRemoteName, upstreamRemoteName } =
+      this.repository.workflowPreferences
+    this._defaultRemote = findDefaultRemote(remotes, defaultRemoteName)
 
     const currentRemoteName =
       this.tip.kind === TipState.Valid &&
@@ -1274,7 +1886,9 @@ export class GitStore extends BaseStore {
       this.repository.gitHubRepository &&
       this.repository.gitHubRepository.parent
 
-    this._upstreamRemote = parent ? findUpstreamRemote(parent, remotes) : null
+    this._upstreamRemote = parent
+      ? findUpstreamRemote(parent, remotes, upstreamRemoteName)
+      : null
 
     this.emitUpdate()
   }
@@ -1292,7 +1906,11 @@ export class GitStore extends BaseStore {
     }
 
     const remotes = await getRemotes(this.repository)
-    const upstream = findUpstreamRemote(parent, remotes)
+    const upstream = findUpstreamRemote(
+      parent,
+      remotes,
+      this.repository.workflowPreferences.upstreamRemoteName
+    )
     if (upstream) {
       return
     }
@@ -1474,6 +2092,51 @@ export class GitStore extends BaseStore {
     )
   }
 
+  /** Add a new remote with the given URL */
+  public async addRemote(name: string, url: string): Promise<boolean> {
+    const remote = await this.performFailableOperation(() =>
+      addRemote(this.repository, name, url)
+    )
+    await this.loadRemotes()
+
+    return remote !== undefined
+  }
+
+  /** Renames the remote that matches the given name */
+  public async renameRemote(name: string, newName: string): Promise<boolean> {
+    const wasSuccessful =
+      (await this.performFailableOperation(async () => {
+        await renameRemote(this.repository, name, newName)
+        return true
+      })) === true
+    await this.loadRemotes()
+
+    return wasSuccessful
+  }
+
+  /** Removes the remote that matches the given name */
+  public async removeRemote(name: string): Promise<void> {
+    await this.performFailableOperation(() =>
+      removeRemote(this.repository, name)
+    )
+    await this.loadRemotes()
+  }
+
+  /**
+   * Changes the URL the remote that matches the given name pushes to, or makes
+   * it push to the URL it fetches from when the URL is null.
+   */
+  public async setRemotePushURL(
+    name: string,
+    url: string | null
+  ): Promise<boolean> {
+    return (
+      (await this.performFailableOperation(() =>
+        setRemotePushURL(this.repository, name, url)
+      )) === true
+    )
+  }
+
   /** Changes the URL for the remote that matches the given name  */
   public async setRemoteURL(name: string, url: string): Promise<boolean> {
     const wasSuccessful =
@@ -1587,9 +2250,85 @@ export class GitStore extends BaseStore {
     filePath: string,
     diff: ITextDiff,
     selection: DiffSelection
+  ): Promise<boolean> {
+    const result = await this.performFailableOperation(async () => {
+      await discardChangesFromSelection(
+        this.repository,
+        filePath,
+        diff,
+        selection
+      )
+      return true
+    })
+
+    return result === true
+  }
+
+  /**
+   * Revert a selection of lines from the diff of a committed file in the
+   * working directory. Returns whether the lines were reverted.
+   */
+  public async revertChangesFromSelection(
+    filePath: string,
+    diff: ITextDiff,
+    selection: DiffSelection
+  ): Promise<boolean> {
+    const result = await this.performFailableOperation(async () => {
+      await revertChangesFromSelection(
+        this.repository,
+        filePath,
+        diff,
+        selection
+      )
+      return true
+    })
+
+    return result === true
+  }
+
+  /** Stage the entirety of the given files in the index */
+  public async stageFiles(files: ReadonlyArray<WorkingDirectoryFileChange>) {
+    await this.performFailableOperation(() =>
+      stageFiles(
+        this.repository,
+        files.map(f => f.withIncludeAll(true))
+      )
+    )
+  }
+
+  /**
+   * Unstage the given files, or every file in the index if no files are
+   * given. Any changes are left in the working directory.
+   */
+  public async unstageFiles(files?: ReadonlyArray<WorkingDirectoryFileChange>) {
+    await this.performFailableOperation(async () => {
+      if (files === undefined) {
+        await unstageAll(this.repository)
+      } else {
+        await unstageFiles(this.repository, files)
+      }
+    })
+  }
+
+  /** Stage the selected lines of a diff between the index and working tree */
+  public async stageSelection(
+    file: WorkingDirectoryFileChange,
+    diff: ITextDiff,
+    selection: DiffSelection
+  ) {
+    await this.performFailableOperation(() =>
+      stageSelection(this.repository, file, diff, selection)
+    )
+  }
+
+  /** Unstage the selected lines of a diff between HEAD and the index */
+  public async unstageSelection(
+    filePath: string,
+    diff: ITextDiff,
+    selection: DiffSelection
   ) {
     await this.performFailableOperation(() =>
-      discardChangesFromSelection(this.repository, filePath, diff, selection)
+      unstageSelection(this.repository, filePath, diff, selection)
     )
   }
 
@@ -1711,3 +2450,22 @@ export class GitStore extends BaseStore {
     return commits
   }
 }
+
+/** Get the commits the entries in the operation journal refer to */
+function getJournalShas(entries: ReadonlyArray<JournalEntry>) {
+  const shas = new Set<string>()
+
+  for (const entry of entries) {
+    if (entry.kind === JournaledOperationKind.DeleteBranch) {
+      shas.add(entry.sha)
+    } else {
+      shas.add(entry.snapshot.headSha)
+      shas.add(entry.resultSha)
+      if (entry.snapshot.stashSha !== null) {
+        shas.add(entry.snapshot.stashSha)
+      }
+    }
+  }
+
+  return shas
+}
@@ -8,9 +8,19 @@ import { IRemote } from '../../../models/remote'
  * branch could be found the first remote is considered the default.
  *
  * @param remotes A list of remotes for a given repository
+ * @param preferredName The name of the remote the user chose as the default
+ *                      remote, if any. It's used when it exists.
  */
 export function findDefaultRemote(
-  remotes: ReadonlyArray<IRemote>
+  remotes: ReadonlyArray<IRemote>,
+  preferredName?: string
 ): IRemote | null {
-  return remotes.find(x => x.name === 'origin') || remotes[0] || null
+  return (
+    (preferredName !== undefined
+      ? remotes.find(x => x.name === preferredName)
+      : undefined) ||
+    remotes.find(x => x.name === 'origin') ||
+    remotes[0] ||
+    null
+  )
 }
@@ -8,11 +8,24 @@ export const UpstreamRemoteName = 'upstream'
 /**
  * Find the upstream remote based on the parent repository and the list of
  * remotes.
+ *
+ * @param preferredName The name of the remote the user chose as the upstream
+ *                      remote, if any. It's trusted to point to the parent
+ *                      repository when it exists.
  */
 export function findUpstreamRemote(
   parent: GitHubRepository,
-  remotes: ReadonlyArray<IRemote>
+  remotes: ReadonlyArray<IRemote>,
+  preferredName?: string
 ): IRemote | null {
+  const preferred =
+    preferredName !== undefined
+      ? remotes.find(r => r.name === preferredName)
+      : undefined
+  if (preferred) {
+    return preferred
+  }
+
   const upstream = remotes.find(r => r.name === UpstreamRemoteName)
   if (!upstream) {
     return null
@@ -85,7 +85,7 @@ export class IssuesStore {
       lastUpdatedAt
     )
 
-    this.storeIssues(issues, repository)
+    await this.storeIssues(issues, repository)
   }
 
   private async storeIssues(
@@ -101,6 +101,10 @@ export class IssuesStore {
           number: i.number,
           title: i.title,
           updated_at: i.updated_at,
+          body: i.body ?? '',
+          author: i.user.login,
+          labels: i.labels.map(l => l.name),
+          assignees: i.assignees.map(a => a.login),
         }
       })
 
@@ -147,6 +151,14 @@ export class IssuesStore {
     }
   }
 
+  /** Get all open issues in the given repository, newest first. */
+  public async getIssues(
+    repository: GitHubRepository
+  ): Promise<ReadonlyArray<IIssue>> {
+    const issues = await this.db.getIssuesForRepository(repository.dbID)
+    return issues.sort((x, y) => compareDescending(x.number, y.number))
+  }
+
   private async getAllIssueHitsFor(repository: GitHubRepository) {
     const hits = await this.db.getIssuesForRepository(repository.dbID)
     return hits.map(i => ({ number: i.number, title: i.title }))
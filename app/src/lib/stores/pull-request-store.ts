@@ -1,4 +1,5 @@
 import mem from 'mem'
+import pLimit from 'p-limit'
 
 import {
   PullRequestDatabase,
@@ -11,10 +12,27 @@ import { Account } from '../../models/account'
 import { API, IAPIPullRequest, MaxResultsError } from '../api'
 import { fatalError } from '../fatal-error'
 import { RepositoriesStore } from './repositories-store'
-import { PullRequest, PullRequestRef } from '../../models/pull-request'
+import {
+  PullRequest,
+  PullRequestRef,
+  PullRequestReviewDecision,
+} from '../../models/pull-request'
 import { structuralEquals } from '../equality'
 import { Emitter, Disposable } from 'event-kit'
 import { APIError } from '../http'
+import { getPullRequestReviewDecision } from '../pull-request-review-decision'
+
+/**
+ * The maximum number of pull requests to look up the reviews of in a single
+ * refresh. Looking up the reviews takes one request per pull request, so for
+ * the first refresh of repositories with a lot of open pull requests we only
+ * look up the reviews of the most recently updated ones, the review decision
+ * of the rest is unknown until they're updated.
+ */
+const MaxReviewDecisionLookups = 50
+
+/** The maximum number of pull requests to look up the reviews of at once */
+const MaxConcurrentReviewDecisionLookups = 5
 
 /** The store for GitHub Pull Requests. */
 export class PullRequestStore {
@@ -108,7 +126,7 @@ export class PullRequestStore {
   ) {
     const { name, owner } = getNameWithOwner(repository)
     const open = await api.fetchAllOpenPullRequests(owner, name)
-    await this.storePullRequestsAndEmitUpdate(open, repository)
+    await this.storePullRequestsAndEmitUpdate(api, open, repository)
   }
 
   private async fetchAndStoreUpdatedPullRequests(
@@ -128,7 +146,7 @@ export class PullRequestStore {
       )
 
     if (updated !== null) {
-      return await this.storePullRequestsAndEmitUpdate(updated, repository)
+      return await this.storePullRequestsAndEmitUpdate(api, updated, repository)
     } else {
       // If we fail to load updated pull requests either because
       // there's too many updated PRs since the last time we
@@ -195,7 +213,11 @@ export class PullRequestStore {
           new PullRequestRef(record.base.ref, record.base.sha, baseRepository),
           record.author,
           record.draft ?? false,
-          record.body
+          record.body,
+          new Date(record.updatedAt),
+          record.labels,
+          record.requestedReviewers,
+          record.reviewDecision
         )
       )
     }
@@ -215,10 +237,11 @@ export class PullRequestStore {
    * has been emitted, see `storePullRequests` for more details.
    */
   private async storePullRequestsAndEmitUpdate(
+    api: API,
     pullRequestsFromAPI: ReadonlyArray<IAPIPullRequest>,
     repository: GitHubRepository
   ) {
-    if (await this.storePullRequests(pullRequestsFromAPI, repository)) {
+    if (await this.storePullRequests(api, pullRequestsFromAPI, repository)) {
       this.emitPullRequestsChanged(repository, await this.getAll(repository))
     }
   }
@@ -231,6 +254,7 @@ export class PullRequestStore {
    * in the pull requests table.
    */
   private async storePullRequests(
+    api: API,
     pullRequestsFromAPI: ReadonlyArray<IAPIPullRequest>,
     repository: GitHubRepository
   ) {
@@ -241,7 +265,7 @@ export class PullRequestStore {
     let mostRecentlyUpdated = pullRequestsFromAPI[0].updated_at
 
     const prsToDelete = new Array<PullRequestKey>()
-    const prsToUpsert = new Array<IPullRequest>()
+    const openPullRequests = new Array<Omit<IPullRequest, 'reviewDecision'>>()
 
     // The API endpoint for this PR, i.e api.github.com or a GHE url
     const { endpoint } = repository
@@ -265,7 +289,12 @@ export class PullRequestStore {
       cacheKey: (_, repo) => repo.clone_url,
     })
 
-    for (const pr of pullRequestsFromAPI) {
+    // Look up the reviews of the most recently updated pull requests first
+    const sortedPullRequests = [...pullRequestsFromAPI].sort((a, b) =>
+      b.updated_at.localeCompare(a.updated_at)
+    )
+
+    for (const pr of sortedPullRequests) {
       // We can do this string comparison here rather than convert to date
       // because ISO8601 is lexicographically sortable
       if (pr.updated_at > mostRecentlyUpdated) {
@@ -301,8 +330,10 @@ export class PullRequestStore {
       }
 
       const headRepo = await upsertRepo(endpoint, pr.head.repo)
-
-      prsToUpsert.push({
+      const requestedReviewers = (pr.requested_reviewers ?? []).map(
+        r => r.login
+      )
+      openPullRequests.push({
         number: pr.number,
         title: pr.title,
         createdAt: pr.created_at,
@@ -320,9 +351,29 @@ export class PullRequestStore {
         body: pr.body,
         author: pr.user.login,
         draft: pr.draft ?? false,
+        labels: (pr.labels ?? []).map(l => l.name),
+        requestedReviewers,
       })
     }
 
+    // The review decision of the pull requests we don't look up here stays
+    // unknown until they're updated and returned from the API again.
+    const limit = pLimit(MaxConcurrentReviewDecisionLookups)
+    const reviewDecisions = await Promise.all(
+      openPullRequests
+        .slice(0, MaxReviewDecisionLookups)
+        .map(pr =>
+          limit(() =>
+            getReviewDecision(api, repository, pr.number, pr.requestedReviewers)
+          )
+        )
+    )
+
+    const prsToUpsert = openPullRequests.map((pr, i) => ({
+      ...pr,
+      reviewDecision: reviewDecisions[i],
+    }))
+
     // When loading only PRs that has changed since the last fetch
     // we get back all PRs modified _at_ or after the timestamp we give it
     // meaning we will always get at least one issue back but. This
@@ -358,3 +409,24 @@ function getNameWithOwner(repository: GitHubRepository) {
   const name = repository.name
   return { name, owner }
 }
+
+/**
+ * Look up the reviews of the given pull request to get the overall outcome of
+ * them, or undefined if the reviews couldn't be loaded.
+ */
+async function getReviewDecision(
+  api: API,
+  repository: GitHubRepository,
+  prNumber: number,
+  requestedReviewers: ReadonlyArray<string>
+): Promise<PullRequestReviewDecision | null | undefined> {
+  const { name, owner } = getNameWithOwner(repository)
+
+  try {
+    const reviews = await api.fetchPullRequestReviews(owner, name, prNumber)
+    return getPullRequestReviewDecision(reviews, requestedReviewers)
+  } catch (e) {
+    log.warn(`Unable to load the reviews of pull request #${prNumber}`, e)
+    return undefined
+  }
+}
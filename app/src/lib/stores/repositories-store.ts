@@ -3,6 +3,7 @@ import {
   IDatabaseGitHubRepository,
   IDatabaseProtectedBranch,
   IDatabaseRepository,
+  IDatabaseRepositoryGroup,
   getOwnerKey,
 } from '../databases/repositories-database'
 import { Owner } from '../../models/owner'
@@ -12,6 +13,7 @@ import {
 } from '../../models/github-repository'
 import {
   Repository,
+  LinkedWorkTree,
   RepositoryWithGitHubRepository,
   assertIsRepositoryWithGitHubRepository,
   isRepositoryWithGitHubRepository,
@@ -27,7 +29,9 @@ import { TypedBaseStore } from './base-store'
 import { WorkflowPreferences } from '../../models/workflow-preferences'
 import { clearTagsToPush } from './helpers/tags-to-push-storage'
 import { IMatchedGitHubRepository } from '../repository-matching'
-import { shallowEquals } from '../equality'
+import { shallowEquals, structuralEquals } from '../equality'
+import { listWorkTrees } from '../git/worktree'
+import { IRepositoryGroup } from '../../models/repository-group'
 
 type AddRepositoryOptions = {
   missing?: boolean
@@ -52,6 +56,22 @@ export class RepositoriesStore extends TypedBaseStore<
    */
   private protectionEnabledForBranchCache = new Map<string, boolean>()
 
+  /**
+   * Key is the repository id, value is the list of linked work trees
+   * found the last time the repository's work trees were refreshed.
+   *
+   * This map is replaced rather than mutated on every change so that
+   * consumers can rely on reference equality to detect updates.
+   */
+  private workTreesCache: ReadonlyMap<number, ReadonlyArray<LinkedWorkTree>> =
+    new Map()
+
+  /**
+   * The repository groups created by the user, as of the last time they were
+   * loaded from the database.
+   */
+  private repositoryGroupsCache: ReadonlyArray<IRepositoryGroup> = []
+
   private emitQueued = false
 
   public constructor(private readonly db: RepositoriesDatabase) {
@@ -152,7 +172,9 @@ export class RepositoriesStore extends TypedBaseStore<
       repo.missing,
       repo.alias,
       repo.workflowPreferences,
-      repo.isTutorialRepository
+      repo.isTutorialRepository,
+      repo.groupID ?? null,
+      repo.isPinned ?? false
     )
   }
 
@@ -268,6 +290,12 @@ export class RepositoriesStore extends TypedBaseStore<
     await this.db.repositories.delete(repository.id)
     clearTagsToPush(repository)
 
+    if (this.workTreesCache.has(repository.id)) {
+      const workTreesCache = new Map(this.workTreesCache)
+      workTreesCache.delete(repository.id)
+      this.workTreesCache = workTreesCache
+    }
+
     this.emitUpdatedRepositories()
   }
 
@@ -287,7 +315,9 @@ export class RepositoriesStore extends TypedBaseStore<
       missing,
       repository.alias,
       repository.workflowPreferences,
-      repository.isTutorialRepository
+      repository.isTutorialRepository,
+      repository.groupID,
+      repository.isPinned
     )
   }
 
@@ -321,6 +351,122 @@ export class RepositoriesStore extends TypedBaseStore<
     this.emitUpdatedRepositories()
   }
 
+  /**
+   * Pin the repository to the top of the repository list, or unpin it.
+   *
+   * @param repository  The repository to update.
+   * @param isPinned    Whether the repository should be pinned.
+   */
+  public async updateRepositoryPinned(
+    repository: Repository,
+    isPinned: boolean
+  ): Promise<void> {
+    await this.db.repositories.update(repository.id, { isPinned })
+
+    this.emitUpdatedRepositories()
+  }
+
+  /**
+   * Move the repository into a repository group.
+   *
+   * @param repository  The repository to move.
+   * @param groupID     The ID of the group to move the repository into, or
+   *                    null to list the repository in its default group.
+   */
+  public async updateRepositoryGroup(
+    repository: Repository,
+    groupID: number | null
+  ): Promise<void> {
+    await this.db.repositories.update(repository.id, { groupID })
+
+    this.emitUpdatedRepositories()
+  }
+
+  /**
+   * Get the repository groups created by the user as of the last time they
+   * were loaded from the database.
+   */
+  public getRepositoryGroups(): ReadonlyArray<IRepositoryGroup> {
+    return this.repositoryGroupsCache
+  }
+
+  /** Load the repository groups created by the user from the database. */
+  public async loadRepositoryGroups(): Promise<
+    ReadonlyArray<IRepositoryGroup>
+  > {
+    const groups = await this.db.repositoryGroups.toArray()
+    this.repositoryGroupsCache = groups.map(toRepositoryGroup)
+    return this.repositoryGroupsCache
+  }
+
+  /**
+   * Add a new repository group.
+   *
+   * If a group already exists with that name, it will be returned instead.
+   */
+  public async addRepositoryGroup(name: string): Promise<IRepositoryGroup> {
+    const group = await this.db.transaction(
+      'rw',
+      this.db.repositoryGroups,
+      async () => {
+        const existing = await this.db.repositoryGroups.get({ name })
+
+        if (existing !== undefined) {
+          return toRepositoryGroup(existing)
+        }
+
+        const dbGroup: IDatabaseRepositoryGroup = { name, isCollapsed: false }
+        const id = await this.db.repositoryGroups.add(dbGroup)
+        return toRepositoryGroup({ id, ...dbGroup })
+      }
+    )
+
+    this.emitUpdatedRepositories()
+
+    return group
+  }
+
+  /** Rename the given repository group. */
+  public async renameRepositoryGroup(
+    group: IRepositoryGroup,
+    name: string
+  ): Promise<void> {
+    await this.db.repositoryGroups.update(group.id, { name })
+
+    this.emitUpdatedRepositories()
+  }
+
+  /** Collapse or expand the given repository group in the repository list. */
+  public async updateRepositoryGroupCollapsed(
+    group: IRepositoryGroup,
+    isCollapsed: boolean
+  ): Promise<void> {
+    await this.db.repositoryGroups.update(group.id, { isCollapsed })
+
+    this.emitUpdatedRepositories()
+  }
+
+  /**
+   * Remove the given repository group, moving its repositories back to their
+   * default groups.
+   */
+  public async removeRepositoryGroup(group: IRepositoryGroup): Promise<void> {
+    await this.db.transaction(
+      'rw',
+      this.db.repositories,
+      this.db.repositoryGroups,
+      async () => {
+        await this.db.repositories
+          .where('groupID')
+          .equals(group.id)
+          .modify({ groupID: null })
+        await this.db.repositoryGroups.delete(group.id)
+      }
+    )
+
+    this.emitUpdatedRepositories()
+  }
+
   /** Update the repository's path. */
   public async updateRepositoryPath(
     repository: Repository,
@@ -337,7 +483,9 @@ export class RepositoriesStore extends TypedBaseStore<
       false,
       repository.alias,
       repository.workflowPreferences,
-      repository.isTutorialRepository
+      repository.isTutorialRepository,
+      repository.groupID,
+      repository.isPinned
     )
   }
 
@@ -483,7 +631,9 @@ export class RepositoriesStore extends TypedBaseStore<
       repo.missing,
       repo.alias,
       repo.workflowPreferences,
-      repo.isTutorialRepository
+      repo.isTutorialRepository,
+      repo.groupID,
+      repo.isPinned
     )
 
     assertIsRepositoryWithGitHubRepository(updatedRepo)
@@ -695,6 +845,42 @@ export class RepositoriesStore extends TypedBaseStore<
     return branchProtectionsFound
   }
 
+  /**
+   * Load the linked work trees of the given repository, notifying store
+   * consumers if they differ from the ones we found last time.
+   */
+  public async refreshWorkTrees(repository: Repository): Promise<void> {
+    let workTrees: ReadonlyArray<LinkedWorkTree>
+    try {
+      workTrees = await listWorkTrees(repository)
+    } catch (e) {
+      log.error(`Failed listing work trees for ${repository.path}`, e)
+      return
+    }
+
+    const existing = this.workTreesCache.get(repository.id)
+    if (existing !== undefined && structuralEquals(existing, workTrees)) {
+      return
+    }
+
+    this.workTreesCache = new Map(this.workTreesCache).set(
+      repository.id,
+      workTrees
+    )
+    this.emitUpdatedRepositories()
+  }
+
+  /**
+   * Get the linked work trees of all repositories whose work trees have
+   * been loaded, keyed by repository id.
+   */
+  public getWorkTreesLookup(): ReadonlyMap<
+    number,
+    ReadonlyArray<LinkedWorkTree>
+  > {
+    return this.workTreesCache
+  }
+
   /**
    * Helper method to emit updates consistently
    * (This is the only way we emit updates from this store.)
@@ -702,8 +888,8 @@ export class RepositoriesStore extends TypedBaseStore<
   private emitUpdatedRepositories() {
     if (!this.emitQueued) {
       setImmediate(() => {
-        this.getAll()
-          .then(repos => this.emitUpdate(repos))
+        Promise.all([this.getAll(), this.loadRepositoryGroups()])
+          .then(([repos]) => this.emitUpdate(repos))
           .catch(e => log.error(`Failed emitting update`, e))
           .finally(() => (this.emitQueued = false))
       })
@@ -712,6 +898,11 @@ export class RepositoriesStore extends TypedBaseStore<
   }
 }
 
+function toRepositoryGroup(group: IDatabaseRepositoryGroup): IRepositoryGroup {
+  assertNonNullable(group.id, "can't convert to IRepositoryGroup without id")
+  return { id: group.id, name: group.name, isCollapsed: group.isCollapsed }
+}
+
 /** Compute the key for the branch protection cache */
 function getKey(dbID: number, branchName: string) {
   return `${getKeyPrefix(dbID)}${branchName}`
@@ -25,6 +25,7 @@ import { DefaultCommitMessage } from '../../models/commit-message'
 import { sendNonFatalException } from '../helpers/non-fatal-exception'
 import { StatsStore } from '../stats'
 import { enableSubmoduleDiff } from '../feature-flag'
+import { defaultCommitGraphMode } from '../../models/commit-graph'
 
 export class RepositoryStateCache {
   private readonly repositoryState = new Map<string, IRepositoryState>()
@@ -323,7 +324,9 @@ function getInitialRepositoryState(): IRepositoryState {
       showCoAuthoredBy: false,
       conflictState: null,
       stashEntry: null,
+      stashEntries: [],
       currentBranchProtected: false,
+      showStagedDiff: false,
     },
     selectedSection: RepositorySectionTab.Changes,
     branchesState: {
@@ -346,6 +349,7 @@ function getInitialRepositoryState(): IRepositoryState {
       showBranchList: false,
       filterText: '',
       commitSHAs: [],
+      commitGraphMode: defaultCommitGraphMode,
       shasToHighlight: [],
       branches: new Array<Branch>(),
       recentBranches: new Array<Branch>(),
@@ -354,6 +358,7 @@ function getInitialRepositoryState(): IRepositoryState {
     pullRequestState: null,
     commitAuthor: null,
     commitLookup: new Map<string, Commit>(),
+    commitSignatureStatuses: new Map(),
     localCommitSHAs: [],
     localTags: null,
     tagsToPush: null,
@@ -368,5 +373,8 @@ function getInitialRepositoryState(): IRepositoryState {
     revertProgress: null,
     multiCommitOperationUndoState: null,
     multiCommitOperationState: null,
+    operationJournal: { undo: [], redo: [] },
+    lfsLocks: null,
+    pullRequestReviewThreads: [],
   }
 }
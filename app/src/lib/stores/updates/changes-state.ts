@@ -32,16 +32,22 @@ type ChangedFilesResult = {
 export function updateChangedFiles(
   state: IChangesState,
   status: IStatusResult,
-  clearPartialState: boolean
+  clearPartialState: boolean,
+  useGitIndex: boolean = false
 ): ChangedFilesResult {
   // Populate a map for all files in the current working directory state
   const filesByID = new Map<string, WorkingDirectoryFileChange>()
   state.workingDirectory.files.forEach(f => filesByID.set(f.id, f))
 
-  // Attempt to preserve the selection state for each file in the new
-  // working directory state by looking at the current files
+  // When staging through the Git index what's included is whatever is in the
+  // index, otherwise attempt to preserve the selection state for each
+  // file in the new working directory state by looking at the current files
   const mergedFiles = status.workingDirectory.files
     .map(file => {
+      if (useGitIndex) {
+        return file.withStagingThroughIndex()
+      }
+
       const existingFile = filesByID.get(file.id)
       if (existingFile) {
         if (clearPartialState) {
@@ -88,6 +88,27 @@ async function handleSSHKeyPassphrase(
   return passphrase ?? ''
 }
 
+/**
+ * Handle the passphrase prompt of `ssh-keygen -Y sign`, which Git runs to
+ * sign commits with SSH keys, and of our gpg-sign.sh script, which Git runs
+ * to sign commits with GPG keys. Unlike ssh, ssh-keygen doesn't always tell
+ * us which key the passphrase is for.
+ */
+async function handleSigningKeyPassphrase(prompt: string) {
+  const promptRegex = /^Enter passphrase(?: for "(.+)")?: $/
+
+  const matches = promptRegex.exec(prompt)
+  if (matches === null) {
+    return undefined
+  }
+
+  const passphrase = await trampolineUIHelper.promptSigningKeyPassphrase(
+    matches[1] ?? null
+  )
+
+  return passphrase ?? ''
+}
+
 async function handleSSHUserPassword(operationGUID: string, prompt: string) {
   const promptRegex = /^(.+@.+)'s password: $/
 
@@ -131,6 +152,13 @@ export const askpassTrampolineHandler: TrampolineCommandHandler =
       return handleSSHKeyPassphrase(command.trampolineToken, firstParameter)
     }
 
+    if (
+      firstParameter === 'Enter passphrase: ' ||
+      firstParameter.startsWith('Enter passphrase for "')
+    ) {
+      return handleSigningKeyPassphrase(firstParameter)
+    }
+
     if (firstParameter.endsWith("'s password: ")) {
       return handleSSHUserPassword(command.trampolineToken, firstParameter)
     }
@@ -4,6 +4,7 @@ import * as Path from 'path'
 import { getDesktopTrampolineFilename } from 'desktop-trampoline'
 import { TrampolineCommandIdentifier } from '../trampoline/trampoline-command'
 import { getSSHEnvironment } from '../ssh/ssh'
+import { getGPGEnvironment } from '../gpg/gpg'
 import {
   removePendingSSHSecretToStore,
   storePendingSSHSecret,
@@ -15,7 +16,7 @@ import {
  * operations requiring an askpass script) and with a token to use in the
  * trampoline server.
  * It will handle saving SSH key passphrases when needed if the git operation
- * succeeds.
+ * succeeds, and makes GPG ask for passphrases through the trampoline too.
  *
  * @param fn        Function to invoke with all the necessary environment
  *                  variables.
@@ -44,6 +45,7 @@ export async function withTrampolineEnv<T>(
         DESKTOP_TRAMPOLINE_IDENTIFIER: TrampolineCommandIdentifier.AskPass,
 
         ...sshEnv,
+        ...getGPGEnvironment(),
       })
 
       await storePendingSSHSecret(token)
@@ -45,6 +45,23 @@ class TrampolineUIHelper {
     })
   }
 
+  /**
+   * Prompt the user for the passphrase of the key used to sign commits.
+   *
+   * @param signingKey The key being used, or null if it's unknown.
+   */
+  public promptSigningKeyPassphrase(
+    signingKey: string | null
+  ): Promise<string | undefined> {
+    return new Promise(resolve => {
+      this.dispatcher.showPopup({
+        type: PopupType.SigningKeyPassphrase,
+        signingKey,
+        onSubmit: passphrase => resolve(passphrase),
+      })
+    })
+  }
+
   public promptSSHUserPassword(
     username: string
   ): Promise<PromptSSHSecretResponse> {
@@ -8,6 +8,10 @@ import { MenuLabelsEvent } from '../../models/menu-labels'
 import * as ipcWebContents from '../ipc-webcontents'
 import { mkdir } from 'fs/promises'
 import { enableStartingPullRequests } from '../../lib/feature-flag'
+import {
+  getJournaledOperationName,
+  JournaledOperationKind,
+} from '../../models/operation-journal'
 
 const platformDefaultShell = __WIN32__ ? 'Command Prompt' : 'Terminal'
 const createPullRequestLabel = __DARWIN__
@@ -42,6 +46,8 @@ export function buildDefaultMenu({
   isForcePushForCurrentRepository = false,
   isStashedChangesVisible = false,
   askForConfirmationWhenStashingAllChanges = true,
+  undoOperation,
+  redoOperation,
 }: MenuLabelsEvent): Electron.Menu {
   contributionTargetDefaultBranch = truncateWithEllipsis(
     contributionTargetDefaultBranch,
@@ -149,6 +155,17 @@ export function buildDefaultMenu({
       { role: 'undo', label: __DARWIN__ ? 'Undo' : '&Undo' },
       { role: 'redo', label: __DARWIN__ ? 'Redo' : '&Redo' },
       separator,
+      {
+        label: getUndoOperationLabel(undoOperation),
+        id: 'undo-operation',
+        click: emit('undo-operation'),
+      },
+      {
+        label: getRedoOperationLabel(redoOperation),
+        id: 'redo-operation',
+        click: emit('redo-operation'),
+      },
+      separator,
       { role: 'cut', label: __DARWIN__ ? 'Cut' : 'Cu&t' },
       { role: 'copy', label: __DARWIN__ ? 'Copy' : '&Copy' },
       { role: 'paste', label: __DARWIN__ ? 'Paste' : '&Paste' },
@@ -339,7 +356,17 @@ export function buildDefaultMenu({
         accelerator: 'CmdOrCtrl+I',
         click: emit('create-issue-in-repository-on-github'),
       },
+      {
+        id: 'show-issues',
+        label: __DARWIN__ ? 'View Issues…' : 'View iss&ues…',
+        click: emit('show-issues'),
+      },
       separator,
+      {
+        label: __DARWIN__ ? 'My Locked Files…' : 'My loc&ked files…',
+        id: 'show-lfs-locks',
+        click: emit('show-lfs-locks'),
+      },
       {
         label: __DARWIN__ ? 'Repository Settings…' : 'Repository &settings…',
         id: 'show-repository-settings',
@@ -382,6 +409,21 @@ export function buildDefaultMenu({
       accelerator: 'CmdOrCtrl+Shift+S',
       click: emit('stash-all-changes'),
     },
+    {
+      label: __DARWIN__ ? 'View Stashes…' : 'View s&tashes…',
+      id: 'show-stash-list',
+      click: emit('show-stash-list'),
+    },
+    {
+      label: __DARWIN__ ? 'Recover Lost Commits…' : 'Recover &lost commits…',
+      id: 'show-reflog',
+      click: emit('show-reflog'),
+    },
+    {
+      label: __DARWIN__ ? 'View Tags…' : 'View t&ags…',
+      id: 'show-tags',
+      click: emit('show-tags'),
+    },
     separator,
     {
       label: __DARWIN__
@@ -625,6 +667,32 @@ function getStashedChangesLabel(isStashedChangesVisible: boolean): string {
   return __DARWIN__ ? 'Show Stashed Changes' : 'Sho&w stashed changes'
 }
 
+function getUndoOperationLabel(
+  operation: JournaledOperationKind | undefined
+): string {
+  if (operation === undefined) {
+    return __DARWIN__ ? 'Undo Last Operation' : 'Und&o last operation'
+  }
+
+  return `${__DARWIN__ ? 'Undo' : 'Und&o'} ${getJournaledOperationName(
+    operation,
+    __DARWIN__
+  )}`
+}
+
+function getRedoOperationLabel(
+  operation: JournaledOperationKind | undefined
+): string {
+  if (operation === undefined) {
+    return __DARWIN__ ? 'Redo Last Operation' : 'R&edo last operation'
+  }
+
+  return `${__DARWIN__ ? 'Redo' : 'R&edo'} ${getJournaledOperationName(
+    operation,
+    __DARWIN__
+  )}`
+}
+
 type ClickHandler = (
   menuItem: Electron.MenuItem,
   browserWindow: Electron.BrowserWindow | undefined,
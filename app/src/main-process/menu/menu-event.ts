@@ -38,6 +38,13 @@ export type MenuEvent =
   | 'show-release-notes-popup'
   | 'show-stashed-changes'
   | 'hide-stashed-changes'
+  | 'show-stash-list'
+  | 'show-reflog'
+  | 'show-tags'
+  | 'show-issues'
+  | 'show-lfs-locks'
+  | 'undo-operation'
+  | 'redo-operation'
   | 'test-show-notification'
   | 'test-prune-branches'
   | 'find-text'
@@ -1,4 +1,5 @@
 import { Popup } from './popup'
+import { JournaledOperationKind } from './operation-journal'
 
 export enum BannerType {
   SuccessfulMerge = 'SuccessfulMerge',
@@ -15,6 +16,12 @@ export enum BannerType {
   SuccessfulSquash = 'SuccessfulSquash',
   SuccessfulReorder = 'SuccessfulReorder',
   ConflictsFound = 'ConflictsFound',
+  RebaseStoppedForEdit = 'RebaseStoppedForEdit',
+  UndoableOperation = 'UndoableOperation',
+  OperationUndone = 'OperationUndone',
+  OperationRedone = 'OperationRedone',
+  PullRequestCreated = 'PullRequestCreated',
+  PullRequestMerged = 'PullRequestMerged',
 }
 
 export type Banner =
@@ -119,3 +126,45 @@ export type Banner =
       /** callback to run when user clicks on link in banner text */
       readonly onOpenConflictsDialog: () => void
     }
+  | {
+      readonly type: BannerType.RebaseStoppedForEdit
+      /** name of the branch being rebased */
+      readonly targetBranch: string
+      /** summary of the commit the rebase has stopped at */
+      readonly commitSummary: string
+      /** callback to run when user clicks on the continue link */
+      readonly onContinue: () => void
+      /** callback to run when user clicks on the abort link */
+      readonly onAbort: () => void
+    }
+  | {
+      readonly type: BannerType.UndoableOperation
+      /** the operation which was performed */
+      readonly operation: JournaledOperationKind
+      /** callback to run when user clicks undo link in banner */
+      readonly onUndo: () => void
+    }
+  | {
+      readonly type: BannerType.OperationUndone
+      /** the operation which was undone */
+      readonly operation: JournaledOperationKind
+    }
+  | {
+      readonly type: BannerType.OperationRedone
+      /** the operation which was redone */
+      readonly operation: JournaledOperationKind
+    }
+  | {
+      readonly type: BannerType.PullRequestCreated
+      /** the number of the pull request which was created */
+      readonly pullRequestNumber: number
+      /** the URL of the pull request on GitHub */
+      readonly url: string
+    }
+  | {
+      readonly type: BannerType.PullRequestMerged
+      /** the number of the pull request which was merged */
+      readonly pullRequestNumber: number
+      /** the URL of the pull request on GitHub */
+      readonly url: string
+    }
@@ -0,0 +1,25 @@
+/** A commit that last changed one or more lines of a file */
+export interface IBlameCommit {
+  readonly sha: string
+  readonly summary: string
+
+  /** The name of the author of the commit */
+  readonly author: string
+
+  /** The date the commit was authored */
+  readonly authorDate: Date
+
+  /**
+   * Whether the lines are changes in the working directory which haven't been
+   * committed yet
+   */
+  readonly isUncommitted: boolean
+}
+
+/** A line of a file along with the commit that last changed it */
+export interface IBlameLine {
+  /** The line number in the file, starting at 1 */
+  readonly lineNumber: number
+
+  readonly commit: IBlameCommit
+}
@@ -0,0 +1,32 @@
+import { Repository } from './repository'
+
+/** The operations which can be run on many repositories at once */
+export enum BulkRepositoryOperationKind {
+  Fetch = 'Fetch',
+  /** Fetch and fast-forward the current branch to its upstream */
+  Pull = 'Pull',
+  CheckoutDefaultBranch = 'CheckoutDefaultBranch',
+  Remove = 'Remove',
+}
+
+/** The progress of an operation running on many repositories at once */
+export interface IBulkRepositoryOperation {
+  readonly kind: BulkRepositoryOperationKind
+
+  /** The repositories the operation runs on */
+  readonly repositories: ReadonlyArray<Repository>
+
+  /**
+   * The outcome of the operation for each repository it has finished in,
+   * keyed by the repository id. The value is the error message if the
+   * operation failed, or null if it succeeded.
+   */
+  readonly results: ReadonlyMap<number, string | null>
+}
+
+/** Whether the operation has finished in all of its repositories */
+export function isBulkRepositoryOperationDone(
+  operation: IBulkRepositoryOperation
+) {
+  return operation.results.size === operation.repositories.length
+}
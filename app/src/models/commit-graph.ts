@@ -0,0 +1,13 @@
+/** Which commits are shown in the commit graph of the History tab */
+export enum CommitGraphMode {
+  /** The graph is not shown and history only covers the current branch */
+  Hidden = 'Hidden',
+
+  /** The graph is shown for the history of the current branch */
+  CurrentBranch = 'CurrentBranch',
+
+  /** The graph is shown for the history of all local and remote branches */
+  AllBranches = 'AllBranches',
+}
+
+export const defaultCommitGraphMode: CommitGraphMode = CommitGraphMode.Hidden
@@ -7,6 +7,50 @@ export function shortenSHA(sha: string) {
   return sha.slice(0, 9)
 }
 
+/**
+ * The status of a commit's signature, as reported by the `%G?` placeholder
+ * of `git log`.
+ */
+export enum CommitSignatureStatus {
+  /** A good (valid) signature */
+  Good = 'G',
+  /** A bad signature */
+  Bad = 'B',
+  /** A good signature with unknown validity */
+  UnknownValidity = 'U',
+  /** A good signature that has expired */
+  ExpiredSignature = 'X',
+  /** A good signature made by an expired key */
+  ExpiredKey = 'Y',
+  /** A good signature made by a revoked key */
+  RevokedKey = 'R',
+  /** The signature cannot be checked, e.g. the key is missing */
+  CannotBeChecked = 'E',
+  /** The commit isn't signed */
+  None = 'N',
+}
+
+/**
+ * Parse the output of the `%G?` placeholder of `git log` into a signature
+ * status, treating anything unexpected as an unsigned commit.
+ */
+export function parseCommitSignatureStatus(
+  value: string
+): CommitSignatureStatus {
+  const status = Object.values(CommitSignatureStatus).find(
+    s => s === value.trim()
+  )
+  return status ?? CommitSignatureStatus.None
+}
+
+/**
+ * Whether the given signature status represents a signature which could
+ * be verified, as opposed to a missing or unverifiable one.
+ */
+export function isVerifiedSignature(status: CommitSignatureStatus) {
+  return status === CommitSignatureStatus.Good
+}
+
 /** Grouping of information required to create a commit */
 export interface ICommitContext {
   /**
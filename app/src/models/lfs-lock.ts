@@ -0,0 +1,16 @@
+/** A file locked with Git LFS */
+export interface ILFSLock {
+  /** The ID of the lock on the LFS server */
+  readonly id: string
+
+  /** The path of the locked file, relative to the root of the repository */
+  readonly path: string
+
+  /** The name of the user who locked the file */
+  readonly ownerName: string
+
+  readonly lockedAt: Date
+
+  /** Whether the file was locked by the current user */
+  readonly isOurs: boolean
+}
@@ -1,7 +1,12 @@
-// NOTE: These strings have semantic value, they're passed directly
-// as `--ours` and `--theirs` to git checkout. Please be careful
+// NOTE: The `ours` and `theirs` strings have semantic value, they're passed
+// directly as `--ours` and `--theirs` to git checkout. Please be careful
 // when modifying this type.
 export enum ManualConflictResolution {
   theirs = 'theirs',
   ours = 'ours',
+  /**
+   * The conflicts were resolved in the conflict editor and the resolved
+   * contents written to the file, which should be staged as is.
+   */
+  edited = 'edited',
 }
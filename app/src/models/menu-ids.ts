@@ -4,6 +4,13 @@ export type MenuIDs =
   | 'delete-branch'
   | 'discard-all-changes'
   | 'stash-all-changes'
+  | 'show-stash-list'
+  | 'show-reflog'
+  | 'show-tags'
+  | 'show-issues'
+  | 'show-lfs-locks'
+  | 'undo-operation'
+  | 'redo-operation'
   | 'preferences'
   | 'update-branch-with-contribution-target-branch'
   | 'merge-branch'
@@ -1,4 +1,5 @@
 import { Shell } from '../lib/shells'
+import { JournaledOperationKind } from './operation-journal'
 
 export type MenuLabelsEvent = {
   /**
@@ -60,4 +61,19 @@ export type MenuLabelsEvent = {
    * their existing stash or not.
    */
   readonly askForConfirmationWhenStashingAllChanges?: boolean
+
+  /**
+   * The most recent operation in the current repository which can be undone.
+   *
+   * Omit this value if there's no operation to undo.
+   */
+  readonly undoOperation?: JournaledOperationKind
+
+  /**
+   * The most recently undone operation in the current repository which can
+   * be redone.
+   *
+   * Omit this value if there's no operation to redo.
+   */
+  readonly redoOperation?: JournaledOperationKind
 }
@@ -2,6 +2,7 @@ import { MultiCommitOperationConflictState } from '../lib/app-state'
 import { Branch } from './branch'
 import { Commit, CommitOneLine, ICommitContext } from './commit'
 import { GitHubRepository } from './github-repository'
+import { RebaseTodoItem } from './rebase'
 import { IDetachedHead, IUnbornRepository, IValidBranch } from './tip'
 
 /**
@@ -16,6 +17,7 @@ export const enum MultiCommitOperationKind {
   Squash = 'Squash',
   Merge = 'Merge',
   Reorder = 'Reorder',
+  InteractiveRebase = 'Interactive Rebase',
 }
 
 /**
@@ -30,6 +32,8 @@ export type MultiCommitOperationStep =
   | HideConflictsStep
   | ConfirmAbortStep
   | CreateBranchStep
+  | EditRebaseTodoStep
+  | StoppedForEditStep
 
 /**
  * Possible kinds of steps that may happen during a multi commit operation such
@@ -87,6 +91,19 @@ export const enum MultiCommitOperationStepKind {
    * Example: Cherry-picking to a new branch.
    */
   CreateBranch = 'CreateBranch',
+
+  /**
+   * The step where the user plans what to do with each commit in an
+   * interactive rebase, such as rewording, editing, squashing or dropping it.
+   */
+  EditRebaseTodo = 'EditRebaseTodo',
+
+  /**
+   * The interactive rebase has stopped at a commit marked for editing. The
+   * user can amend the commit from the Changes tab and then continue the
+   * rebase, so no dialog is shown for this step.
+   */
+  StoppedForEdit = 'StoppedForEdit',
 }
 
 export type ChooseBranchStep = {
@@ -134,6 +151,16 @@ export type CreateBranchStep = {
   targetBranchName: string
 }
 
+export type EditRebaseTodoStep = {
+  readonly kind: MultiCommitOperationStepKind.EditRebaseTodo
+}
+
+export type StoppedForEditStep = {
+  readonly kind: MultiCommitOperationStepKind.StoppedForEdit
+  /** The commit the rebase has stopped at */
+  readonly commit: CommitOneLine
+}
+
 interface IBaseInteractiveRebaseDetails {
   /**
    * Array of commits used during the operation.
@@ -188,6 +215,13 @@ interface IReorderDetails extends IInteractiveRebaseDetails {
   readonly beforeCommit: Commit | null
 }
 
+interface IInteractiveRebaseTodoDetails extends IInteractiveRebaseDetails {
+  readonly kind: MultiCommitOperationKind.InteractiveRebase
+
+  /** The planned action for each commit, from oldest to newest */
+  readonly todo: ReadonlyArray<RebaseTodoItem>
+}
+
 interface ICherryPickDetails extends ISourceBranchDetails {
   readonly kind: MultiCommitOperationKind.CherryPick
   /**
@@ -221,6 +255,7 @@ interface IMergeDetails extends ISourceBranchDetails {
 export type MultiCommitOperationDetail =
   | ISquashDetails
   | IReorderDetails
+  | IInteractiveRebaseTodoDetails
   | ICherryPickDetails
   | IRebaseDetails
   | IMergeDetails
@@ -0,0 +1,119 @@
+import { assertNever } from '../lib/fatal-error'
+
+/** The destructive operations which are recorded so that they can be undone */
+export enum JournaledOperationKind {
+  DiscardChanges = 'DiscardChanges',
+  RevertChanges = 'RevertChanges',
+  ResetToCommit = 'ResetToCommit',
+  Squash = 'Squash',
+  Reorder = 'Reorder',
+  DeleteBranch = 'DeleteBranch',
+  Merge = 'Merge',
+}
+
+/** The state of the checked out branch at a point in time */
+export interface IRepositorySnapshot {
+  /** The name of the branch which was checked out */
+  readonly branchName: string
+
+  /** The SHA of the commit the branch pointed to */
+  readonly headSha: string
+
+  /**
+   * The SHA of a stash commit holding the changes in the index and the
+   * working directory, or null if there weren't any. The commit isn't stored
+   * in the stash list.
+   */
+  readonly stashSha: string | null
+}
+
+/** The index and the working directory at a point in time */
+export interface IWorkingDirectoryState {
+  /** The SHA of a tree holding the index */
+  readonly indexTree: string
+
+  /**
+   * The SHA of a tree holding every file in the working directory which
+   * isn't ignored, including untracked files
+   */
+  readonly workingDirectoryTree: string
+}
+
+/**
+ * An operation recorded in the journal, along with what's needed to get the
+ * repository back to the state it was in before (or, once undone, after) the
+ * operation.
+ */
+export type JournalEntry =
+  | {
+      readonly kind: Exclude<
+        JournaledOperationKind,
+        JournaledOperationKind.DeleteBranch
+      >
+      readonly snapshot: IRepositorySnapshot
+
+      /**
+       * The SHA of the commit the branch pointed to after the operation. The
+       * operation can only be undone, or redone, while the branch still
+       * points to it so that no commits are lost.
+       */
+      readonly resultSha: string
+
+      /**
+       * The index and working directory right after the operation. Undoing,
+       * or redoing, the operation would overwrite any changes made since, so
+       * it can only be done while they're still in this state.
+       */
+      readonly resultState: IWorkingDirectoryState
+    }
+  | {
+      readonly kind: JournaledOperationKind.DeleteBranch
+
+      /** The name of the deleted local branch */
+      readonly branchName: string
+
+      /** The SHA of the commit the branch pointed to */
+      readonly sha: string
+    }
+
+/** The destructive operations performed in a repository */
+export interface IOperationJournal {
+  /** Operations which can be undone, the most recent last */
+  readonly undo: ReadonlyArray<JournalEntry>
+
+  /** Operations which were undone and can be redone, the most recent last */
+  readonly redo: ReadonlyArray<JournalEntry>
+}
+
+/** The maximum number of operations which can be undone in a repository */
+export const MaxJournalLength = 20
+
+/**
+ * Get the name of a journaled operation for use in menu items and banners,
+ * e.g. "Undo discard changes".
+ *
+ * @param titleCase Whether to capitalize the name for use in macOS menus
+ */
+export function getJournaledOperationName(
+  kind: JournaledOperationKind,
+  titleCase: boolean = false
+): string {
+  switch (kind) {
+    case JournaledOperationKind.DiscardChanges:
+      return titleCase ? 'Discard Changes' : 'discard changes'
+    case JournaledOperationKind.RevertChanges:
+      return titleCase ? 'Revert Changes' : 'revert changes'
+    case JournaledOperationKind.ResetToCommit:
+      return titleCase ? 'Reset to Commit' : 'reset to commit'
+    case JournaledOperationKind.Squash:
+      return titleCase ? 'Squash' : 'squash'
+    case JournaledOperationKind.Reorder:
+      return titleCase ? 'Reorder' : 'reorder'
+    case JournaledOperationKind.DeleteBranch:
+      return titleCase ? 'Delete Branch' : 'delete branch'
+    case JournaledOperationKind.Merge:
+      return titleCase ? 'Merge' : 'merge'
+    default:
+      return assertNever(kind, `Unknown operation kind: ${kind}`)
+  }
+}
@@ -7,6 +7,8 @@ import { PullRequest } from './pull-request'
 import { Branch } from './branch'
 import { ReleaseNote, ReleaseSummary } from './release-notes'
 import { IRemote } from './remote'
+import { IRepositoryGroup } from './repository-group'
+import { BulkRepositoryOperationKind } from './bulk-repository-operation'
 import { RetryAction } from './retry-actions'
 import { WorkingDirectoryFileChange } from './status'
 import { PreferencesTab } from './preferences'
@@ -22,6 +24,7 @@ import { IRefCheck } from '../lib/ci-checks/ci-checks'
 import { GitHubRepository } from './github-repository'
 import { ValidNotificationPullRequestReview } from '../lib/valid-notification-pull-request-review'
 import { UnreachableCommitsTab } from '../ui/history/unreachable-commits-dialog'
+import { ILFSLock } from './lfs-lock'
 
 export enum PopupType {
   RenameBranch = 'RenameBranch',
@@ -71,6 +74,8 @@ export enum PopupType {
   ConfirmDiscardSelection = 'ConfirmDiscardSelection',
   MoveToApplicationsFolder = 'MoveToApplicationsFolder',
   ChangeRepositoryAlias = 'ChangeRepositoryAlias',
+  RepositoryGroupName = 'RepositoryGroupName',
+  BulkRepositoryOperation = 'BulkRepositoryOperation',
   ThankYou = 'ThankYou',
   CommitMessage = 'CommitMessage',
   MultiCommitOperation = 'MultiCommitOperation',
@@ -80,6 +85,7 @@ export enum PopupType {
   AddSSHHost = 'AddSSHHost',
   SSHKeyPassphrase = 'SSHKeyPassphrase',
   SSHUserPassword = 'SSHUserPassword',
+  SigningKeyPassphrase = 'SigningKeyPassphrase',
   PullRequestChecksFailed = 'PullRequestChecksFailed',
   CICheckRunRerun = 'CICheckRunRerun',
   WarnForcePush = 'WarnForcePush',
@@ -89,6 +95,17 @@ export enum PopupType {
   StartPullRequest = 'StartPullRequest',
   Error = 'Error',
   InstallingUpdate = 'InstallingUpdate',
+  CreateWorkTree = 'CreateWorkTree',
+  RemoveWorkTree = 'RemoveWorkTree',
+  StashList = 'StashList',
+  CreateStash = 'CreateStash',
+  FileHistory = 'FileHistory',
+  Reflog = 'Reflog',
+  LockedFilesWarning = 'LockedFilesWarning',
+  LFSLocks = 'LFSLocks',
+  Tags = 'Tags',
+  Issues = 'Issues',
+  MergePullRequest = 'MergePullRequest',
 }
 
 interface IBasePopup {
@@ -142,6 +159,7 @@ export type PopupDetail =
       repository: Repository
       initialName?: string
       targetCommit?: CommitOneLine
+      issueNumber?: number
     }
   | { type: PopupType.SignIn }
   | { type: PopupType.About }
@@ -265,6 +283,8 @@ export type PopupDetail =
       type: PopupType.DeleteTag
       repository: Repository
       tagName: string
+      /** The remote to delete the tag from, if not deleting the local tag */
+      remoteName?: string
     }
   | {
       type: PopupType.ChooseForkSettings
@@ -278,6 +298,18 @@ export type PopupDetail =
     }
   | { type: PopupType.MoveToApplicationsFolder }
   | { type: PopupType.ChangeRepositoryAlias; repository: Repository }
+  | {
+      type: PopupType.RepositoryGroupName
+      /** The group to rename, or null to create a new group */
+      group: IRepositoryGroup | null
+      /** The repository to move into the new group, if any */
+      repository: Repository | null
+    }
+  | {
+      type: PopupType.BulkRepositoryOperation
+      kind: BulkRepositoryOperationKind
+      repositories: ReadonlyArray<Repository>
+    }
   | {
       type: PopupType.ThankYou
       userContributions: ReadonlyArray<ReleaseNote>
@@ -330,6 +362,11 @@ export type PopupDetail =
         storePassphrase: boolean
       ) => void
     }
+  | {
+      type: PopupType.SigningKeyPassphrase
+      signingKey: string | null
+      onSubmit: (passphrase: string | undefined) => void
+    }
   | {
       type: PopupType.SSHUserPassword
       username: string
@@ -389,5 +426,56 @@ export type PopupDetail =
   | {
       type: PopupType.InstallingUpdate
     }
+  | {
+      type: PopupType.CreateWorkTree
+      repository: Repository
+      branch: Branch
+    }
+  | {
+      type: PopupType.RemoveWorkTree
+      repository: Repository
+      workTreeRepository: Repository
+    }
+  | {
+      type: PopupType.StashList
+      repository: Repository
+    }
+  | {
+      type: PopupType.CreateStash
+      repository: Repository
+    }
+  | {
+      type: PopupType.FileHistory
+      repository: Repository
+      path: string
+    }
+  | {
+      type: PopupType.Reflog
+      repository: Repository
+    }
+  | {
+      type: PopupType.LockedFilesWarning
+      /** the locks held by others on files selected for committing */
+      locks: ReadonlyArray<ILFSLock>
+      context: ICommitContext
+      repository: Repository
+    }
+  | {
+      type: PopupType.LFSLocks
+      repository: Repository
+    }
+  | {
+      type: PopupType.Tags
+      repository: Repository
+    }
+  | {
+      type: PopupType.Issues
+      repository: RepositoryWithGitHubRepository
+    }
+  | {
+      type: PopupType.MergePullRequest
+      repository: RepositoryWithGitHubRepository
+      pullRequest: PullRequest
+    }
 
 export type Popup = IBasePopup & PopupDetail
@@ -0,0 +1,36 @@
+/** A comment in a review thread of a pull request */
+export interface IPullRequestReviewComment {
+  readonly id: number
+
+  /** The login of the user who wrote the comment */
+  readonly author: string
+
+  /** The Markdown body of the comment */
+  readonly body: string
+
+  readonly createdAt: Date
+
+  /** The URL of the comment on GitHub */
+  readonly htmlURL: string
+}
+
+/**
+ * A review comment on a line of a file in a pull request together with the
+ * replies to it
+ */
+export interface IPullRequestReviewThread {
+  /** The id of the first comment in the thread */
+  readonly id: number
+
+  /** The path of the file the thread is on, relative to the repository */
+  readonly path: string
+
+  /** The line in the new version of the file the thread is on */
+  readonly line: number
+
+  /** The SHA of the commit `line` refers to */
+  readonly commitSha: string
+
+  /** The comments in the thread, oldest first */
+  readonly comments: ReadonlyArray<IPullRequestReviewComment>
+}
@@ -19,6 +19,13 @@ export class PullRequestRef {
   ) {}
 }
 
+/** The overall outcome of the reviews of a pull request */
+export enum PullRequestReviewDecision {
+  Approved = 'approved',
+  ChangesRequested = 'changes-requested',
+  ReviewRequired = 'review-required',
+}
+
 export class PullRequest {
   /**
    * @param created The date on which the PR was created.
@@ -29,6 +36,13 @@ export class PullRequest {
    * @param head The ref from which the pull request's changes are coming.
    * @param base The ref which the pull request is targeting.
    * @param author The author's login.
+   * @param updated The date on which the PR was last updated.
+   * @param labels The names of the labels of the PR.
+   * @param requestedReviewers The logins of the users whose review has been
+   *                           requested and who haven't reviewed yet.
+   * @param reviewDecision The outcome of the reviews of the PR, null if
+   *                       nobody has reviewed it or been asked to, or
+   *                       undefined if the reviews haven't been looked up.
    */
   public constructor(
     public readonly created: Date,
@@ -38,10 +52,32 @@ export class PullRequest {
     public readonly base: PullRequestRef,
     public readonly author: string,
     public readonly draft: boolean,
-    public readonly body: string
+    public readonly body: string,
+    public readonly updated: Date,
+    public readonly labels: ReadonlyArray<string>,
+    public readonly requestedReviewers: ReadonlyArray<string>,
+    public readonly reviewDecision: PullRequestReviewDecision | null | undefined
   ) {}
 }
 
+/** The details of a pull request to create, as entered by the user */
+export interface IPullRequestDetails {
+  readonly title: string
+  readonly body: string
+
+  /** Whether to create the pull request as a draft */
+  readonly draft: boolean
+
+  /** The logins of the users to request reviews from */
+  readonly reviewers: ReadonlyArray<string>
+
+  /** The logins of the users to assign the pull request to */
+  readonly assignees: ReadonlyArray<string>
+
+  /** The names of the labels to add to the pull request */
+  readonly labels: ReadonlyArray<string>
+}
+
 /** The types of pull request suggested next actions */
 export enum PullRequestSuggestedNextAction {
   PreviewPullRequest = 'PreviewPullRequest',
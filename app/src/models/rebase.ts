@@ -1,6 +1,6 @@
 import { IMultiCommitOperationProgress } from './progress'
 import { ComputedAction } from './computed-action'
-import { CommitOneLine } from './commit'
+import { Commit, CommitOneLine } from './commit'
 
 /**
  * Rebase internal state used to track how and where the rebase is applied to
@@ -60,3 +60,24 @@ export type GitRebaseSnapshot = {
   /** The progress of the operation */
   readonly progress: IMultiCommitOperationProgress
 }
+
+/** The actions that can be planned for a commit in an interactive rebase */
+export enum RebaseTodoAction {
+  Pick = 'pick',
+  Reword = 'reword',
+  Edit = 'edit',
+  Squash = 'squash',
+  Fixup = 'fixup',
+  Drop = 'drop',
+}
+
+/** A commit and the action to perform on it in an interactive rebase */
+export type RebaseTodoItem = {
+  readonly action: RebaseTodoAction
+  readonly commit: Commit
+  /**
+   * The new commit message, only used when the action is
+   * `RebaseTodoAction.Reword`
+   */
+  readonly message?: string
+}
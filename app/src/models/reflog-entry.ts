@@ -0,0 +1,20 @@
+/** An entry in the reflog of HEAD or a branch */
+export interface IReflogEntry {
+  /** The selector which refers to the entry, e.g. `HEAD@{2}` */
+  readonly selector: string
+
+  /** The SHA of the commit the ref pointed to after the change */
+  readonly sha: string
+
+  /** The summary of that commit */
+  readonly summary: string
+
+  /**
+   * The reflog message describing the change, e.g.
+   * `reset: moving to HEAD~1` or `rebase (finish): returning to refs/heads/main`
+   */
+  readonly message: string
+
+  /** When the ref was changed */
+  readonly date: Date
+}
@@ -0,0 +1,11 @@
+/** A named group of repositories created by the user in the repository list */
+export interface IRepositoryGroup {
+  /** The database ID of the group */
+  readonly id: number
+
+  /** The name of the group, unique among all groups */
+  readonly name: string
+
+  /** Whether the repositories in the group are hidden in the repository list */
+  readonly isCollapsed: boolean
+}
@@ -58,7 +58,14 @@ export class Repository {
      * onboarding flow. Tutorial repositories trigger a tutorial user experience
      * which introduces new users to some core concepts of Git and GitHub.
      */
-    public readonly isTutorialRepository: boolean = false
+    public readonly isTutorialRepository: boolean = false,
+    /**
+     * The ID of the repository group the user has moved the repository into,
+     * or null if the repository is listed in its default group.
+     */
+    public readonly groupID: number | null = null,
+    /** Whether the user has pinned the repository to the top of the list */
+    public readonly isPinned: boolean = false
   ) {
     this.mainWorkTree = { path }
     this.name = (gitHubRepository && gitHubRepository.name) || getBaseName(path)
@@ -70,7 +77,12 @@ export class Repository {
       this.missing,
       this.alias,
       this.workflowPreferences.forkContributionTarget,
-      this.isTutorialRepository
+      this.workflowPreferences.externalEditor,
+      this.workflowPreferences.defaultRemoteName,
+      this.workflowPreferences.upstreamRemoteName,
+      this.isTutorialRepository,
+      this.groupID,
+      this.isPinned
     )
   }
 
@@ -83,6 +95,21 @@ export class Repository {
 export type LinkedWorkTree = WorkingTree & {
   /** The sha of the head commit in this work tree */
   readonly head: string
+
+  /**
+   * The name of the branch checked out in this work tree, or null
+   * if HEAD is detached.
+   */
+  readonly branch: string | null
+
+  /** Whether the work tree has been locked with `git worktree lock` */
+  readonly isLocked: boolean
+
+  /**
+   * Whether git considers the work tree prunable, i.e. its directory
+   * no longer exists on disk.
+   */
+  readonly isPrunable: boolean
 }
 
 /** Identical to `Repository`, except it **must** have a `gitHubRepository` */
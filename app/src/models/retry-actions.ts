@@ -3,6 +3,7 @@ import { CloneOptions } from './clone-options'
 import { Branch } from './branch'
 import { Commit, CommitOneLine, ICommitContext } from './commit'
 import { WorkingDirectoryFileChange } from './status'
+import { RebaseTodoItem } from './rebase'
 
 /** The types of actions that can be retried. */
 export enum RetryActionType {
@@ -17,6 +18,7 @@ export enum RetryActionType {
   CreateBranchForCherryPick,
   Squash,
   Reorder,
+  InteractiveRebase,
   DiscardChanges,
 }
 
@@ -80,6 +82,12 @@ export type RetryAction =
       beforeCommit: Commit | null
       lastRetainedCommitRef: string | null
     }
+  | {
+      type: RetryActionType.InteractiveRebase
+      repository: Repository
+      todo: ReadonlyArray<RebaseTodoItem>
+      lastRetainedCommitRef: string | null
+    }
   | {
       type: RetryActionType.DiscardChanges
       repository: Repository
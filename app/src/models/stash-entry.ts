@@ -4,12 +4,22 @@ export interface IStashEntry {
   /** The fully qualified name of the entry i.e., `refs/stash@{0}` */
   readonly name: string
 
-  /** The name of the branch at the time the entry was created. */
+  /**
+   * The name of the branch at the time the entry was created, or an empty
+   * string if it can't be determined from the entry's message.
+   */
   readonly branchName: string
 
   /** The SHA of the commit object created as a result of stashing. */
   readonly stashSha: string
 
+  /**
+   * The message of the entry, without the branch name git prefixes it with
+   * or the marker of entries created by Desktop. Empty for entries created
+   * by Desktop without a custom message.
+   */
+  readonly message: string
+
   /** The list of files this stash touches */
   readonly files: StashedFileChanges
 }
@@ -278,16 +278,46 @@ export class WorkingDirectoryFileChange extends FileChange {
    * @param path The relative path to the file in the repository.
    * @param status The status of the change to the file.
    * @param selection Contains the selection details for this file - all, nothing or partial.
+   * @param staged How much of the change to the file has been staged in the
+   *               index - all, nothing or partial.
+   * @param stagesThroughIndex Whether what's staged in the index, rather than
+   *                           the selection, is what will be committed.
    * @param oldPath The original path in the case of a renamed file.
    */
   public constructor(
     path: string,
     status: AppFileStatus,
-    public readonly selection: DiffSelection
+    public readonly selection: DiffSelection,
+    public readonly staged: DiffSelectionType = DiffSelectionType.None,
+    public readonly stagesThroughIndex: boolean = false
   ) {
     super(path, status)
   }
 
+  /**
+   * How much of the change to the file will be included in the next commit -
+   * all, nothing or partial.
+   */
+  public getIncludedType(): DiffSelectionType {
+    return this.stagesThroughIndex
+      ? this.staged
+      : this.selection.getSelectionType()
+  }
+
+  /**
+   * Create a new WorkingDirectoryFileChange whose includedness is what's staged
+   * in the index rather than its selection.
+   */
+  public withStagingThroughIndex(): WorkingDirectoryFileChange {
+    return new WorkingDirectoryFileChange(
+      this.path,
+      this.status,
+      this.selection,
+      this.staged,
+      true
+    )
+  }
+
   /** Create a new WorkingDirectoryFileChange with the given includedness. */
   public withIncludeAll(include: boolean): WorkingDirectoryFileChange {
     const newSelection = include
@@ -299,7 +329,13 @@ export class WorkingDirectoryFileChange extends FileChange {
 
   /** Create a new WorkingDirectoryFileChange with the given diff selection. */
   public withSelection(selection: DiffSelection): WorkingDirectoryFileChange {
-    return new WorkingDirectoryFileChange(this.path, this.status, selection)
+    return new WorkingDirectoryFileChange(
+      this.path,
+      this.status,
+      selection,
+      this.staged,
+      this.stagesThroughIndex
+    )
   }
 }
 
@@ -377,10 +413,10 @@ function getIncludeAllState(
   }
 
   const allSelected = files.every(
-    f => f.selection.getSelectionType() === DiffSelectionType.All
+    f => f.getIncludedType() === DiffSelectionType.All
   )
   const noneSelected = files.every(
-    f => f.selection.getSelectionType() === DiffSelectionType.None
+    f => f.getIncludedType() === DiffSelectionType.None
   )
 
   let includeAll: boolean | null = null
@@ -5,3 +5,35 @@ export class SubmoduleEntry {
     public readonly describe: string
   ) {}
 }
+
+/** How the checked out commit of a submodule relates to the recorded one */
+export enum SubmoduleState {
+  /** The submodule hasn't been cloned and checked out */
+  Uninitialized = 'Uninitialized',
+  /** The commit recorded in the repository is checked out */
+  UpToDate = 'UpToDate',
+  /** A different commit than the one recorded in the repository is checked out */
+  OutOfDate = 'OutOfDate',
+  /** The submodule has merge conflicts */
+  Conflicted = 'Conflicted',
+}
+
+/** A submodule of a repository, as shown when managing submodules */
+export interface ISubmodule {
+  /** The path of the submodule, relative to the root of the repository */
+  readonly path: string
+
+  /** The URL of the submodule in `.gitmodules`, if any */
+  readonly url: string | null
+
+  /** The SHA of the commit recorded in the index of the repository */
+  readonly recordedSha: string | null
+
+  /** The SHA of the commit checked out, or null if not initialized */
+  readonly checkedOutSha: string | null
+
+  readonly state: SubmoduleState
+
+  /** Whether the working directory of the submodule has changes */
+  readonly isDirty: boolean
+}
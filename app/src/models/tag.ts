@@ -0,0 +1,18 @@
+import { CommitIdentity } from './commit-identity'
+
+/** A tag in the repository */
+export interface ITag {
+  readonly name: string
+
+  /** The SHA of the commit the tag points to */
+  readonly targetSha: string
+
+  /** Whether the tag is an annotated tag rather than a lightweight tag */
+  readonly isAnnotated: boolean
+
+  /** The message of an annotated tag, or null for lightweight tags */
+  readonly message: string | null
+
+  /** Who created an annotated tag and when, or null for lightweight tags */
+  readonly tagger: CommitIdentity | null
+}
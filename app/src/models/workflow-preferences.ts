@@ -11,4 +11,22 @@ export type WorkflowPreferences = {
    * What repo does the user want to contribute to with this fork?
    */
   readonly forkContributionTarget?: ForkContributionTarget
+
+  /**
+   * The name of the external editor to open the repository and its files in,
+   * overriding the editor chosen in Preferences.
+   */
+  readonly externalEditor?: string
+
+  /**
+   * The name of the remote to treat as the default remote, instead of
+   * `origin`.
+   */
+  readonly defaultRemoteName?: string
+
+  /**
+   * The name of the remote to treat as the upstream remote of a fork, instead
+   * of `upstream`.
+   */
+  readonly upstreamRemoteName?: string
 }
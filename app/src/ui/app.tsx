@@ -26,7 +26,8 @@ import {
   getNonForkGitHubRepository,
   isRepositoryWithGitHubRepository,
 } from '../models/repository'
-import { Branch } from '../models/branch'
+import { IRepositoryGroup } from '../models/repository-group'
+import { Branch, BranchType } from '../models/branch'
 import { PreferencesTab } from '../models/preferences'
 import { findItemByAccessKey, itemIsSelectable } from '../models/app-menu'
 import { Account } from '../models/account'
@@ -82,7 +83,12 @@ import { PushBranchCommits } from './branches'
 import { CLIInstalled } from './cli-installed'
 import { GenericGitAuthentication } from './generic-git-auth'
 import { ShellError } from './shell'
-import { InitializeLFS, AttributeMismatch } from './lfs'
+import {
+  InitializeLFS,
+  AttributeMismatch,
+  LockedFilesWarning,
+  LFSLocksDialog,
+} from './lfs'
 import { UpstreamAlreadyExists } from './upstream-already-exists'
 import { ReleaseNotes } from './release-notes'
 import { DeletePullRequest } from './delete-branch/delete-pull-request-dialog'
@@ -101,6 +107,13 @@ import { Banner, BannerType } from '../models/banner'
 import { StashAndSwitchBranch } from './stash-changes/stash-and-switch-branch-dialog'
 import { OverwriteStash } from './stash-changes/overwrite-stashed-changes-dialog'
 import { ConfirmDiscardStashDialog } from './stashing/confirm-discard-stash'
+import { StashListDialog } from './stashing/stash-list-dialog'
+import { ReflogDialog } from './reflog/reflog-dialog'
+import { TagsDialog } from './tags/tags-dialog'
+import { IssuesDialog } from './issues/issues-dialog'
+import { MergePullRequestDialog } from './merge-pull-request/merge-pull-request-dialog'
+import { FileHistoryDialog } from './history/file-history-dialog'
+import { CreateStash } from './stash-changes/create-stash-dialog'
 import { CreateTutorialRepositoryDialog } from './no-repositories/create-tutorial-repository-dialog'
 import { ConfirmExitTutorial } from './tutorial'
 import { TutorialStep, isValidTutorialStep } from '../models/tutorial-step'
@@ -125,6 +138,8 @@ import { CommitDragElement } from './drag-elements/commit-drag-element'
 import classNames from 'classnames'
 import { MoveToApplicationsFolder } from './move-to-applications-folder'
 import { ChangeRepositoryAlias } from './change-repository-alias/change-repository-alias-dialog'
+import { RepositoryGroupName } from './repository-groups/repository-group-name-dialog'
+import { BulkRepositoryOperationDialog } from './bulk-repository-operation/bulk-repository-operation-dialog'
 import { ThankYou } from './thank-you'
 import {
   getUserContributions,
@@ -143,6 +158,7 @@ import { InvalidatedToken } from './invalidated-token/invalidated-token'
 import { MultiCommitOperationKind } from '../models/multi-commit-operation'
 import { AddSSHHost } from './ssh/add-ssh-host'
 import { SSHKeyPassphrase } from './ssh/ssh-key-passphrase'
+import { SigningKeyPassphrase } from './signing/signing-key-passphrase'
 import { getMultiCommitOperationChooseBranchStep } from '../lib/multi-commit-operation'
 import { ConfirmForcePush } from './rebase/confirm-force-push'
 import { PullRequestChecksFailed } from './notifications/pull-request-checks-failed'
@@ -150,6 +166,7 @@ import { CICheckRunRerunDialog } from './check-runs/ci-check-run-rerun-dialog'
 import { WarnForcePushDialog } from './multi-commit-operation/dialog/warn-force-push-dialog'
 import { clamp } from '../lib/clamp'
 import { generateRepositoryListContextMenu } from './repositories-list/repository-list-item-context-menu'
+import { getMainRepositories } from './repositories-list/group-repositories'
 import * as ipcRenderer from '../lib/ipc-renderer'
 import { showNotification } from '../lib/notifications/show-notification'
 import { DiscardChangesRetryDialog } from './discard-changes/discard-changes-retry-dialog'
@@ -165,6 +182,7 @@ import { sendNonFatalException } from '../lib/helpers/non-fatal-exception'
 import { createCommitURL } from '../lib/commit-url'
 import { uuid } from '../lib/uuid'
 import { InstallingUpdate } from './installing-update/installing-update'
+import { ConfirmRemoveWorkTree, CreateWorkTree } from './worktrees'
 
 const MinuteInMilliseconds = 1000 * 60
 const HourInMilliseconds = MinuteInMilliseconds * 60
@@ -451,6 +469,20 @@ export class App extends React.Component<IAppProps, IAppState> {
         return this.showStashedChanges()
       case 'hide-stashed-changes':
         return this.hideStashedChanges()
+      case 'show-stash-list':
+        return this.showStashList()
+      case 'show-reflog':
+        return this.showReflog()
+      case 'show-tags':
+        return this.showTags()
+      case 'show-issues':
+        return this.showIssues()
+      case 'show-lfs-locks':
+        return this.showLFSLocks()
+      case 'undo-operation':
+        return this.undoOperation()
+      case 'redo-operation':
+        return this.redoOperation()
       case 'test-show-notification':
         return this.testShowNotification()
       case 'test-prune-branches':
@@ -986,6 +1018,88 @@ export class App extends React.Component<IAppProps, IAppState> {
     this.props.dispatcher.selectStashedFile(state.repository)
   }
 
+  private showStashList() {
+    const state = this.state.selectedState
+    if (state == null || state.type !== SelectionType.Repository) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({
+      type: PopupType.StashList,
+      repository: state.repository,
+    })
+  }
+
+  private showReflog() {
+    const state = this.state.selectedState
+    if (state == null || state.type !== SelectionType.Repository) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({
+      type: PopupType.Reflog,
+      repository: state.repository,
+    })
+  }
+
+  private showTags() {
+    const state = this.state.selectedState
+    if (state == null || state.type !== SelectionType.Repository) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({
+      type: PopupType.Tags,
+      repository: state.repository,
+    })
+  }
+
+  private showIssues() {
+    const state = this.state.selectedState
+    if (
+      state == null ||
+      state.type !== SelectionType.Repository ||
+      !isRepositoryWithGitHubRepository(state.repository)
+    ) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({
+      type: PopupType.Issues,
+      repository: state.repository,
+    })
+  }
+
+  private showLFSLocks() {
+    const state = this.state.selectedState
+    if (state == null || state.type !== SelectionType.Repository) {
+      return
+    }
+
+    this.props.dispatcher.showPopup({
+      type: PopupType.LFSLocks,
+      repository: state.repository,
+    })
+  }
+
+  private undoOperation() {
+    const state = this.state.selectedState
+    if (state == null || state.type !== SelectionType.Repository) {
+      return
+    }
+
+    this.props.dispatcher.undoOperation(state.repository)
+  }
+
+  private redoOperation() {
+    const state = this.state.selectedState
+    if (state == null || state.type !== SelectionType.Repository) {
+      return
+    }
+
+    this.props.dispatcher.redoOperation(state.repository)
+  }
+
   private hideStashedChanges() {
     const state = this.state.selectedState
     if (state == null || state.type !== SelectionType.Repository) {
@@ -1530,12 +1644,13 @@ export class App extends React.Component<IAppProps, IAppState> {
             selectedShell={this.state.selectedShell}
             selectedTheme={this.state.selectedTheme}
             customTheme={this.state.customTheme}
+            commitGraphMode={this.state.commitGraphMode}
             repositoryIndicatorsEnabled={this.state.repositoryIndicatorsEnabled}
+            useGitIndex={this.state.useGitIndex}
           />
         )
       case PopupType.RepositorySettings: {
         const repository = popup.repository
-        const state = this.props.repositoryStateManager.get(repository)
         const repositoryAccount = getAccountForRepository(
           this.state.accounts,
           repository
@@ -1545,7 +1660,6 @@ export class App extends React.Component<IAppProps, IAppState> {
           <RepositorySettings
             key={`repository-settings-${repository.hash}`}
             initialSelectedTab={popup.initialSelectedTab}
-            remote={state.remote}
             dispatcher={this.props.dispatcher}
             repository={repository}
             repositoryAccount={repositoryAccount}
@@ -1627,6 +1741,7 @@ export class App extends React.Component<IAppProps, IAppState> {
             onDismissed={onPopupDismissedFn}
             dispatcher={this.props.dispatcher}
             initialName={popup.initialName || ''}
+            issueNumber={popup.issueNumber}
           />
         )
       }
@@ -1963,6 +2078,7 @@ export class App extends React.Component<IAppProps, IAppState> {
             onDismissed={onPopupDismissedFn}
             dispatcher={this.props.dispatcher}
             tagName={popup.tagName}
+            remoteName={popup.remoteName}
           />
         )
       }
@@ -2011,6 +2127,27 @@ export class App extends React.Component<IAppProps, IAppState> {
           />
         )
       }
+      case PopupType.RepositoryGroupName: {
+        return (
+          <RepositoryGroupName
+            dispatcher={this.props.dispatcher}
+            group={popup.group}
+            repository={popup.repository}
+            repositoryGroups={this.state.repositoryGroups}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.BulkRepositoryOperation:
+        return (
+          <BulkRepositoryOperationDialog
+            dispatcher={this.props.dispatcher}
+            kind={popup.kind}
+            repositories={popup.repositories}
+            operation={this.state.bulkRepositoryOperation}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
       case PopupType.ThankYou:
         return (
           <ThankYou
@@ -2169,6 +2306,16 @@ export class App extends React.Component<IAppProps, IAppState> {
           />
         )
       }
+      case PopupType.SigningKeyPassphrase: {
+        return (
+          <SigningKeyPassphrase
+            key="signing-key-passphrase"
+            signingKey={popup.signingKey}
+            onSubmit={popup.onSubmit}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
       case PopupType.SSHUserPassword: {
         return (
           <SSHUserPassword
@@ -2353,6 +2500,164 @@ export class App extends React.Component<IAppProps, IAppState> {
           />
         )
       }
+      case PopupType.CreateWorkTree: {
+        const { branchesState } = this.props.repositoryStateManager.get(
+          popup.repository
+        )
+        const { tip } = branchesState
+
+        return (
+          <CreateWorkTree
+            key="create-worktree"
+            repository={popup.repository}
+            dispatcher={this.props.dispatcher}
+            branch={popup.branch}
+            allBranches={branchesState.allBranches}
+            currentBranchName={
+              tip.kind === TipState.Valid ? tip.branch.name : null
+            }
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.RemoveWorkTree:
+        return (
+          <ConfirmRemoveWorkTree
+            key="confirm-remove-worktree"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            workTreeRepository={popup.workTreeRepository}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.StashList: {
+        const { changesState } = this.props.repositoryStateManager.get(
+          popup.repository
+        )
+
+        return (
+          <StashListDialog
+            key="stash-list"
+            repository={popup.repository}
+            dispatcher={this.props.dispatcher}
+            stashEntries={changesState.stashEntries}
+            askForConfirmationOnDiscardStash={
+              this.state.askForConfirmationOnDiscardStash
+            }
+            imageDiffType={this.state.imageDiffType}
+            showSideBySideDiff={this.state.showSideBySideDiff}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.CreateStash: {
+        const { changesState } = this.props.repositoryStateManager.get(
+          popup.repository
+        )
+
+        return (
+          <CreateStash
+            key="create-stash"
+            repository={popup.repository}
+            dispatcher={this.props.dispatcher}
+            files={changesState.workingDirectory.files}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.FileHistory:
+        return (
+          <FileHistoryDialog
+            key="file-history"
+            repository={popup.repository}
+            dispatcher={this.props.dispatcher}
+            path={popup.path}
+            imageDiffType={this.state.imageDiffType}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.Reflog: {
+        const { branchesState } = this.props.repositoryStateManager.get(
+          popup.repository
+        )
+        const branchNames = branchesState.allBranches
+          .filter(b => b.type === BranchType.Local)
+          .map(b => b.name)
+
+        return (
+          <ReflogDialog
+            key="reflog"
+            repository={popup.repository}
+            dispatcher={this.props.dispatcher}
+            branchNames={branchNames}
+            imageDiffType={this.state.imageDiffType}
+            showSideBySideDiff={this.state.showSideBySideDiff}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.LockedFilesWarning:
+        return (
+          <LockedFilesWarning
+            key="locked-files-warning"
+            locks={popup.locks}
+            onDismissed={onPopupDismissedFn}
+            dispatcher={this.props.dispatcher}
+            context={popup.context}
+            repository={popup.repository}
+          />
+        )
+      case PopupType.LFSLocks: {
+        const { lfsLocks } = this.props.repositoryStateManager.get(
+          popup.repository
+        )
+
+        return (
+          <LFSLocksDialog
+            key="lfs-locks"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            locks={lfsLocks}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.Tags: {
+        const { localTags, tagsToPush, remote } =
+          this.props.repositoryStateManager.get(popup.repository)
+
+        return (
+          <TagsDialog
+            key="tags"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            localTags={localTags}
+            tagsToPush={tagsToPush}
+            remoteName={remote?.name ?? null}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      }
+      case PopupType.Issues:
+        return (
+          <IssuesDialog
+            key="issues"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            issuesStore={this.props.issuesStore}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
+      case PopupType.MergePullRequest:
+        return (
+          <MergePullRequestDialog
+            key="merge-pull-request"
+            dispatcher={this.props.dispatcher}
+            repository={popup.repository}
+            pullRequest={popup.pullRequest}
+            onDismissed={onPopupDismissedFn}
+          />
+        )
       default:
         return assertNever(popup, `Unknown popup type: ${popup}`)
     }
@@ -2576,6 +2881,8 @@ export class App extends React.Component<IAppProps, IAppState> {
         repositories={this.state.repositories}
         recentRepositories={this.state.recentRepositories}
         localRepositoryStateLookup={this.state.localRepositoryStateLookup}
+        workTreesLookup={this.state.workTreesLookup}
+        repositoryGroups={this.state.repositoryGroups}
         askForConfirmationOnRemoveRepository={
           this.state.askForConfirmationOnRepositoryRemoval
         }
@@ -2731,6 +3038,45 @@ export class App extends React.Component<IAppProps, IAppState> {
       this.props.dispatcher.changeRepositoryAlias(repository, null)
     }
 
+    const onRemoveWorkTree = (
+      mainRepository: Repository,
+      workTreeRepository: Repository
+    ) => {
+      this.props.dispatcher.showPopup({
+        type: PopupType.RemoveWorkTree,
+        repository: mainRepository,
+        workTreeRepository,
+      })
+    }
+
+    const onChangeRepositoryPinned = (
+      repository: Repository,
+      isPinned: boolean
+    ) => {
+      this.props.dispatcher.changeRepositoryPinned(repository, isPinned)
+    }
+
+    const onMoveRepositoryToGroup = (
+      repository: Repository,
+      group: IRepositoryGroup | null
+    ) => {
+      this.props.dispatcher.moveRepositoryToGroup(repository, group)
+    }
+
+    const onCreateRepositoryGroup = (repository: Repository) => {
+      this.props.dispatcher.showPopup({
+        type: PopupType.RepositoryGroupName,
+        group: null,
+        repository,
+      })
+    }
+
+    const mainRepository =
+      getMainRepositories(
+        this.state.repositories,
+        this.state.workTreesLookup
+      ).get(repository.id) ?? null
+
     const items = generateRepositoryListContextMenu({
       onRemoveRepository: this.removeRepository,
       onShowRepository: this.showRepository,
@@ -2741,8 +3087,14 @@ export class App extends React.Component<IAppProps, IAppState> {
       externalEditorLabel: externalEditorLabel,
       onChangeRepositoryAlias: onChangeRepositoryAlias,
       onRemoveRepositoryAlias: onRemoveRepositoryAlias,
+      onRemoveWorkTree: onRemoveWorkTree,
+      repositoryGroups: this.state.repositoryGroups,
+      onChangeRepositoryPinned: onChangeRepositoryPinned,
+      onMoveRepositoryToGroup: onMoveRepositoryToGroup,
+      onCreateRepositoryGroup: onCreateRepositoryGroup,
       onViewOnGitHub: this.viewOnGitHub,
       repository: repository,
+      mainRepository: mainRepository,
       shellLabel: this.state.selectedShell,
     })
 
@@ -2882,6 +3234,7 @@ export class App extends React.Component<IAppProps, IAppState> {
 
     const repository = selection.repository
     const { branchesState } = selection.state
+    const account = getAccountForRepository(this.state.accounts, repository)
 
     return (
       <BranchDropdown
@@ -2894,6 +3247,7 @@ export class App extends React.Component<IAppProps, IAppState> {
         pullRequests={branchesState.openPullRequests}
         currentPullRequest={branchesState.currentPullRequest}
         isLoadingPullRequests={branchesState.isLoadingPullRequests}
+        currentUserLogin={account?.login ?? null}
         shouldNudge={
           this.state.currentOnboardingTutorialStep === TutorialStep.CreateBranch
         }
@@ -3003,9 +3357,10 @@ export class App extends React.Component<IAppProps, IAppState> {
     }
 
     if (selectedState.type === SelectionType.Repository) {
-      const externalEditorLabel = state.selectedExternalEditor
-        ? state.selectedExternalEditor
-        : undefined
+      const externalEditor =
+        selectedState.repository.workflowPreferences.externalEditor ??
+        state.selectedExternalEditor
+      const externalEditorLabel = externalEditor ? externalEditor : undefined
 
       return (
         <RepositoryView
@@ -3025,6 +3380,7 @@ export class App extends React.Component<IAppProps, IAppState> {
           onViewCommitOnGitHub={this.onViewCommitOnGitHub}
           imageDiffType={state.imageDiffType}
           hideWhitespaceInChangesDiff={state.hideWhitespaceInChangesDiff}
+          useGitIndex={state.useGitIndex}
           hideWhitespaceInHistoryDiff={state.hideWhitespaceInHistoryDiff}
           showSideBySideDiff={state.showSideBySideDiff}
           focusCommitMessage={state.focusCommitMessage}
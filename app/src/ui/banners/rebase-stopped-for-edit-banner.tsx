@@ -0,0 +1,60 @@
+import * as React from 'react'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import { Banner } from './banner'
+import { LinkButton } from '../lib/link-button'
+
+interface IRebaseStoppedForEditBannerProps {
+  /** Name of the branch being rebased */
+  readonly targetBranch: string
+  /** Summary of the commit the rebase has stopped at */
+  readonly commitSummary: string
+  /** Callback to fire when the user wants to continue the rebase */
+  readonly onContinue: () => void
+  /** Callback to fire when the user wants to abort the rebase */
+  readonly onAbort: () => void
+  /** Callback to fire to dismiss the banner */
+  readonly onDismissed: () => void
+}
+
+export class RebaseStoppedForEditBanner extends React.Component<
+  IRebaseStoppedForEditBannerProps,
+  {}
+> {
+  private onContinue = () => {
+    this.props.onDismissed()
+    this.props.onContinue()
+  }
+
+  private onAbort = () => {
+    this.props.onDismissed()
+    this.props.onAbort()
+  }
+
+  private onDismissed = () => {
+    log.warn(
+      `[RebaseStoppedForEditBanner] This cannot be dismissed by default unless the user continues or aborts the rebase`
+    )
+  }
+
+  public render() {
+    return (
+      <Banner
+        id="rebase-stopped-for-edit-banner"
+        dismissable={false}
+        onDismissed={this.onDismissed}
+      >
+        <Octicon className="alert-icon" symbol={OcticonSymbol.pencil} />
+        <div className="banner-message">
+          <span>
+            Stopped at <strong>{this.props.commitSummary}</strong> while
+            rebasing <strong>{this.props.targetBranch}</strong>. Make your
+            changes to the commit in the Changes tab, then continue.
+          </span>
+          <LinkButton onClick={this.onContinue}>Continue rebase</LinkButton>
+          <LinkButton onClick={this.onAbort}>Abort rebase</LinkButton>
+        </div>
+      </Banner>
+    )
+  }
+}
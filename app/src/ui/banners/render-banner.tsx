@@ -5,6 +5,7 @@ import { assertNever } from '../../lib/fatal-error'
 import { Banner, BannerType } from '../../models/banner'
 
 import { Dispatcher } from '../dispatcher'
+import { LinkButton } from '../lib/link-button'
 import { MergeConflictsBanner } from './merge-conflicts-banner'
 
 import { SuccessfulMerge } from './successful-merge'
@@ -18,6 +19,11 @@ import { OpenThankYouCard } from './open-thank-you-card'
 import { SuccessfulSquash } from './successful-squash'
 import { SuccessBanner } from './success-banner'
 import { ConflictsFoundBanner } from './conflicts-found-banner'
+import { RebaseStoppedForEditBanner } from './rebase-stopped-for-edit-banner'
+import {
+  getJournaledOperationName,
+  JournaledOperationKind,
+} from '../../models/operation-journal'
 
 export function renderBanner(
   banner: Banner,
@@ -159,7 +165,89 @@ export function renderBanner(
           key={'conflicts-found'}
         ></ConflictsFoundBanner>
       )
+    case BannerType.RebaseStoppedForEdit:
+      return (
+        <RebaseStoppedForEditBanner
+          targetBranch={banner.targetBranch}
+          commitSummary={banner.commitSummary}
+          onContinue={banner.onContinue}
+          onAbort={banner.onAbort}
+          onDismissed={onDismissed}
+          key={'rebase-stopped-for-edit'}
+        />
+      )
+    case BannerType.UndoableOperation:
+      return (
+        <SuccessBanner
+          timeout={15000}
+          onDismissed={onDismissed}
+          onUndo={banner.onUndo}
+        >
+          <span>{getOperationDoneMessage(banner.operation)}</span>
+        </SuccessBanner>
+      )
+    case BannerType.OperationUndone:
+      return (
+        <SuccessBanner timeout={5000} onDismissed={onDismissed}>
+          {capitalize(getJournaledOperationName(banner.operation))} undone.
+        </SuccessBanner>
+      )
+    case BannerType.OperationRedone:
+      return (
+        <SuccessBanner timeout={5000} onDismissed={onDismissed}>
+          {capitalize(getJournaledOperationName(banner.operation))} redone.
+        </SuccessBanner>
+      )
+    case BannerType.PullRequestCreated:
+      return (
+        <SuccessBanner timeout={15000} onDismissed={onDismissed}>
+          <span>
+            Successfully created pull request{' '}
+            <LinkButton uri={banner.url}>
+              #{banner.pullRequestNumber}
+            </LinkButton>
+            .
+          </span>
+        </SuccessBanner>
+      )
+    case BannerType.PullRequestMerged:
+      return (
+        <SuccessBanner timeout={15000} onDismissed={onDismissed}>
+          <span>
+            Successfully merged pull request{' '}
+            <LinkButton uri={banner.url}>
+              #{banner.pullRequestNumber}
+            </LinkButton>
+            .
+          </span>
+        </SuccessBanner>
+      )
     default:
       return assertNever(banner, `Unknown popup type: ${banner}`)
   }
 }
+
+function capitalize(text: string) {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+function getOperationDoneMessage(kind: JournaledOperationKind) {
+  switch (kind) {
+    case JournaledOperationKind.DiscardChanges:
+      return 'Successfully discarded changes. Undoing only restores changes to tracked files.'
+    case JournaledOperationKind.RevertChanges:
+      return 'Successfully reverted changes in the working directory.'
+    case JournaledOperationKind.ResetToCommit:
+      return 'Successfully reset to commit.'
+    case JournaledOperationKind.Squash:
+      return 'Successfully squashed commits.'
+    case JournaledOperationKind.Reorder:
+      return 'Successfully reordered commits.'
+    case JournaledOperationKind.DeleteBranch:
+      return 'Successfully deleted branch.'
+    case JournaledOperationKind.Merge:
+      return 'Successfully merged branch.'
+    default:
+      return assertNever(kind, `Unknown operation kind: ${kind}`)
+  }
+}
@@ -5,13 +5,15 @@ interface IBranchContextMenuConfig {
   name: string
   isLocal: boolean
   onRenameBranch?: (branchName: string) => void
+  onCreateWorkTree?: (branchName: string) => void
   onDeleteBranch?: (branchName: string) => void
 }
 
 export function generateBranchContextMenuItems(
   config: IBranchContextMenuConfig
 ): IMenuItem[] {
-  const { name, isLocal, onRenameBranch, onDeleteBranch } = config
+  const { name, isLocal, onRenameBranch, onCreateWorkTree, onDeleteBranch } =
+    config
   const items = new Array<IMenuItem>()
 
   if (onRenameBranch !== undefined) {
@@ -27,6 +29,13 @@ export function generateBranchContextMenuItems(
     action: () => clipboard.writeText(name),
   })
 
+  if (onCreateWorkTree !== undefined) {
+    items.push({
+      label: __DARWIN__ ? 'Create Worktree…' : 'Create worktree…',
+      action: () => onCreateWorkTree(name),
+    })
+  }
+
   items.push({ type: 'separator' })
 
   if (onDeleteBranch !== undefined) {
@@ -33,6 +33,9 @@ interface IBranchListItemProps {
 
   readonly onDeleteBranch?: (branchName: string) => void
 
+  /** Called when the user wants to create a work tree from the branch */
+  readonly onCreateWorkTree?: (branchName: string) => void
+
   /** When a drag element has landed on a branch that is not current */
   readonly onDropOntoBranch?: (branchName: string) => void
 
@@ -68,7 +71,8 @@ export class BranchListItem extends React.Component<
       branch dropdown menu. Thus, other places simply will not provide these
       methods, such as the merge and rebase logic.
     */
-    const { onRenameBranch, onDeleteBranch, name, isLocal } = this.props
+    const { onRenameBranch, onDeleteBranch, onCreateWorkTree, name, isLocal } =
+      this.props
     if (onRenameBranch === undefined && onDeleteBranch === undefined) {
       return
     }
@@ -77,6 +81,7 @@ export class BranchListItem extends React.Component<
       name,
       isLocal,
       onRenameBranch,
+      onCreateWorkTree,
       onDeleteBranch,
     })
 
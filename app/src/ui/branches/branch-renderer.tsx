@@ -13,7 +13,8 @@ export function renderDefaultBranch(
   onRenameBranch?: (branchName: string) => void,
   onDeleteBranch?: (branchName: string) => void,
   onDropOntoBranch?: (branchName: string) => void,
-  onDropOntoCurrentBranch?: () => void
+  onDropOntoCurrentBranch?: () => void,
+  onCreateWorkTree?: (branchName: string) => void
 ): JSX.Element {
   const branch = item.branch
   const commit = branch.tip
@@ -29,6 +30,7 @@ export function renderDefaultBranch(
       onDeleteBranch={onDeleteBranch}
       onDropOntoBranch={onDropOntoBranch}
       onDropOntoCurrentBranch={onDropOntoCurrentBranch}
+      onCreateWorkTree={onCreateWorkTree}
     />
   )
 }
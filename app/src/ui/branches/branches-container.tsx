@@ -49,6 +49,9 @@ interface IBranchesContainerProps {
   /** Are we currently loading pull requests? */
   readonly isLoadingPullRequests: boolean
 
+  /** The login of the user's account for the repository, if any. */
+  readonly currentUserLogin: string | null
+
   /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
   readonly emoji: Map<string, string>
 }
@@ -135,6 +138,7 @@ export class BranchesContainer extends React.Component<
         pullRequestItemTop={prListItemTop}
         onMouseEnter={this.onMouseEnterPullRequestQuickView}
         onMouseLeave={this.onMouseLeavePullRequestQuickView}
+        onMergePullRequest={this.onMergePullRequest}
       />
     )
   }
@@ -209,7 +213,8 @@ export class BranchesContainer extends React.Component<
       this.props.onRenameBranch,
       this.props.onDeleteBranch,
       this.onDropOntoBranch,
-      this.onDropOntoCurrentBranch
+      this.onDropOntoCurrentBranch,
+      this.onCreateWorkTree
     )
   }
 
@@ -328,8 +333,10 @@ export class BranchesContainer extends React.Component<
         dispatcher={this.props.dispatcher}
         repository={repository}
         isLoadingPullRequests={this.props.isLoadingPullRequests}
+        currentUserLogin={this.props.currentUserLogin}
         onMouseEnterPullRequest={this.onMouseEnterPullRequestListItem}
         onMouseLeavePullRequest={this.onMouseLeavePullRequestListItem}
+        onMergePullRequest={this.onMergePullRequest}
       />
     )
   }
@@ -362,6 +369,20 @@ export class BranchesContainer extends React.Component<
     this.props.dispatcher.closeFoldout(FoldoutType.Branch)
   }
 
+  private onMergePullRequest = (pullRequest: PullRequest) => {
+    const { repository, dispatcher } = this.props
+    if (!isRepositoryWithGitHubRepository(repository)) {
+      return
+    }
+
+    dispatcher.closeFoldout(FoldoutType.Branch)
+    dispatcher.showPopup({
+      type: PopupType.MergePullRequest,
+      repository,
+      pullRequest,
+    })
+  }
+
   private onMergeClick = () => {
     this.props.dispatcher.closeFoldout(FoldoutType.Branch)
     this.props.dispatcher.startMergeBranchOperation(this.props.repository)
@@ -398,6 +419,18 @@ export class BranchesContainer extends React.Component<
     this.onCreateBranchWithName('')
   }
 
+  private onCreateWorkTree = (branchName: string) => {
+    const { repository, dispatcher, allBranches } = this.props
+    const branch = allBranches.find(b => b.name === branchName)
+    if (branch === undefined) {
+      log.warn(`[branches-container] - Could not find branch ${branchName}`)
+      return
+    }
+
+    dispatcher.closeFoldout(FoldoutType.Branch)
+    dispatcher.showCreateWorkTreeDialog(repository, branch)
+  }
+
   private onPullRequestSelectionChanged = (
     selectedPullRequest: PullRequest | null
   ) => {
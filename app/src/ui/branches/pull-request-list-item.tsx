@@ -9,8 +9,13 @@ import { GitHubRepository } from '../../models/github-repository'
 import { Dispatcher } from '../dispatcher'
 import { dragAndDropManager } from '../../lib/drag-and-drop-manager'
 import { DropTargetType } from '../../models/drag-drop'
-import { getPullRequestCommitRef } from '../../models/pull-request'
+import {
+  getPullRequestCommitRef,
+  PullRequestReviewDecision,
+} from '../../models/pull-request'
 import { formatRelative } from '../../lib/format-relative'
+import { assertNever } from '../../lib/fatal-error'
+import { IMenuItem, showContextualMenu } from '../../lib/menu-item'
 
 export interface IPullRequestListItemProps {
   /** The title. */
@@ -22,12 +27,27 @@ export interface IPullRequestListItemProps {
   /** The date on which the PR was opened. */
   readonly created: Date
 
+  /** The date on which the PR was last updated. */
+  readonly updated: Date
+
+  /**
+   * Whether to show when the PR was last updated rather than when it was
+   * opened.
+   */
+  readonly showUpdated: boolean
+
   /** The author login. */
   readonly author: string
 
   /** Whether or not the PR is in draft mode. */
   readonly draft: boolean
 
+  /** The names of the labels of the PR. */
+  readonly labels: ReadonlyArray<string>
+
+  /** The outcome of the reviews of the PR, if any, or undefined if unknown */
+  readonly reviewDecision: PullRequestReviewDecision | null | undefined
+
   /**
    * Whether or not this list item is a skeleton item
    * put in place while the pull request information is
@@ -55,6 +75,9 @@ export interface IPullRequestListItemProps {
   readonly onMouseLeave: (
     event: React.MouseEvent<HTMLDivElement, MouseEvent>
   ) => void
+
+  /** When the user chooses to merge the PR from its context menu */
+  readonly onMergePullRequest?: (prNumber: number) => void
 }
 
 interface IPullRequestListItemState {
@@ -76,8 +99,15 @@ export class PullRequestListItem extends React.Component<
       return undefined
     }
 
-    const timeAgo = formatRelative(this.props.created.getTime() - Date.now())
-    const subtitle = `#${this.props.number} opened ${timeAgo} by ${this.props.author}`
+    const { author, created, updated, showUpdated } = this.props
+    const prNumber = this.props.number
+    const subtitle = showUpdated
+      ? `#${prNumber} by ${author} • updated ${formatRelative(
+          updated.getTime() - Date.now()
+        )}`
+      : `#${prNumber} opened ${formatRelative(
+          created.getTime() - Date.now()
+        )} by ${author}`
 
     return this.props.draft ? `${subtitle} • Draft` : subtitle
   }
@@ -106,6 +136,24 @@ export class PullRequestListItem extends React.Component<
     this.props.onMouseLeave(event)
   }
 
+  private onContextMenu = (event: React.MouseEvent<HTMLDivElement>) => {
+    event.preventDefault()
+
+    const { onMergePullRequest, loading } = this.props
+    if (onMergePullRequest === undefined || loading === true) {
+      return
+    }
+
+    const items: ReadonlyArray<IMenuItem> = [
+      {
+        label: __DARWIN__ ? 'Merge Pull Request…' : 'Merge pull request…',
+        action: () => onMergePullRequest(this.props.number),
+      },
+    ]
+
+    showContextualMenu(items)
+  }
+
   private onMouseUp = () => {
     if (dragAndDropManager.isDragInProgress) {
       this.setState({ isDragInProgress: false })
@@ -132,6 +180,7 @@ export class PullRequestListItem extends React.Component<
         onMouseEnter={this.onMouseEnter}
         onMouseLeave={this.onMouseLeave}
         onMouseUp={this.onMouseUp}
+        onContextMenu={this.onContextMenu}
       >
         <div>
           <Octicon
@@ -144,18 +193,68 @@ export class PullRequestListItem extends React.Component<
           />
         </div>
         <div className="info">
-          <div className="title" title={title}>
-            <HighlightText text={title || ''} highlight={matches.title} />
+          <div className="title-row">
+            <div className="title" title={title}>
+              <HighlightText text={title || ''} highlight={matches.title} />
+            </div>
+            {this.renderLabels()}
           </div>
           <div className="subtitle" title={subtitle}>
             <HighlightText text={subtitle || ''} highlight={matches.subtitle} />
           </div>
         </div>
+        {this.renderReviewDecision()}
         {this.renderPullRequestStatus()}
       </div>
     )
   }
 
+  private renderLabels() {
+    const { labels, loading } = this.props
+
+    if (loading === true || labels.length === 0) {
+      return null
+    }
+
+    return (
+      <div className="labels" title={labels.join(', ')}>
+        {labels.map(label => (
+          <span key={label} className="label">
+            {label}
+          </span>
+        ))}
+      </div>
+    )
+  }
+
+  private renderReviewDecision() {
+    const { reviewDecision, loading } = this.props
+
+    if (loading === true || reviewDecision === null) {
+      return null
+    }
+
+    // The reviews haven't been looked up, or looking them up failed
+    if (reviewDecision === undefined) {
+      return (
+        <div className="review-decision unknown">
+          <Octicon
+            symbol={OcticonSymbol.question}
+            title="The reviews haven't been loaded"
+          />
+        </div>
+      )
+    }
+
+    const { symbol, title } = getReviewDecisionIcon(reviewDecision)
+
+    return (
+      <div className={classNames('review-decision', reviewDecision)}>
+        <Octicon symbol={symbol} title={title} />
+      </div>
+    )
+  }
+
   private renderPullRequestStatus() {
     const ref = getPullRequestCommitRef(this.props.number)
     return (
@@ -169,3 +268,19 @@ export class PullRequestListItem extends React.Component<
     )
   }
 }
+
+function getReviewDecisionIcon(reviewDecision: PullRequestReviewDecision) {
+  switch (reviewDecision) {
+    case PullRequestReviewDecision.Approved:
+      return { symbol: OcticonSymbol.check, title: 'Approved' }
+    case PullRequestReviewDecision.ChangesRequested:
+      return { symbol: OcticonSymbol.fileDiff, title: 'Changes requested' }
+    case PullRequestReviewDecision.ReviewRequired:
+      return { symbol: OcticonSymbol.eye, title: 'Review required' }
+    default:
+      return assertNever(
+        reviewDecision,
+        `Unknown review decision: ${reviewDecision}`
+      )
+  }
+}
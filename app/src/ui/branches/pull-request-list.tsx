@@ -21,6 +21,18 @@ import { startTimer } from '../lib/timing'
 import { DragType } from '../../models/drag-drop'
 import { dragAndDropManager } from '../../lib/drag-and-drop-manager'
 import { formatRelative } from '../../lib/format-relative'
+import { Select } from '../lib/select'
+import {
+  IPullRequestFilter,
+  PullRequestDraftFilter,
+  PullRequestInvolvementFilter,
+  PullRequestSortOrder,
+  defaultPullRequestFilter,
+  filterPullRequests,
+  getPullRequestBaseBranches,
+  getPullRequestLabels,
+  isPullRequestFilterActive,
+} from '../../lib/pull-request-filter'
 
 interface IPullRequestListItem extends IFilterListItem {
   readonly id: string
@@ -63,6 +75,12 @@ interface IPullRequestListProps {
   readonly dispatcher: Dispatcher
   readonly repository: RepositoryWithGitHubRepository
 
+  /**
+   * The login of the user's account for the repository, used to filter the
+   * pull requests by whether the user is involved in them
+   */
+  readonly currentUserLogin: string | null
+
   /** Are we currently loading pull requests? */
   readonly isLoadingPullRequests: boolean
 
@@ -76,10 +94,14 @@ interface IPullRequestListProps {
   readonly onMouseLeavePullRequest: (
     event: React.MouseEvent<HTMLDivElement, MouseEvent>
   ) => void
+
+  /** Called when the user chooses to merge a pull request */
+  readonly onMergePullRequest: (pullRequest: PullRequest) => void
 }
 
 interface IPullRequestListState {
   readonly filterText: string
+  readonly filter: IPullRequestFilter
   readonly groupedItems: ReadonlyArray<IFilterListGroup<IPullRequestListItem>>
   readonly selectedItem: IPullRequestListItem | null
 }
@@ -113,24 +135,33 @@ export class PullRequestList extends React.Component<
   public constructor(props: IPullRequestListProps) {
     super(props)
 
-    const group = createListItems(props.pullRequests)
+    const filter = defaultPullRequestFilter
+    const group = createListItems(props, filter)
     const selectedItem = resolveSelectedItem(group, props, null)
 
     this.state = {
       filterText: '',
+      filter,
       groupedItems: [group],
       selectedItem,
     }
   }
 
   public componentWillReceiveProps(nextProps: IPullRequestListProps) {
-    const group = createListItems(nextProps.pullRequests)
+    this.updateListItems(nextProps, this.state.filter)
+  }
+
+  private updateListItems(
+    props: IPullRequestListProps,
+    filter: IPullRequestFilter
+  ) {
+    const group = createListItems(props, filter)
     const selectedItem = resolveSelectedItem(
       group,
-      nextProps,
+      props,
       this.state.selectedItem
     )
-    this.setState({ groupedItems: [group], selectedItem })
+    this.setState({ groupedItems: [group], filter, selectedItem })
   }
 
   public render() {
@@ -143,11 +174,15 @@ export class PullRequestList extends React.Component<
         renderItem={this.renderPullRequest}
         filterText={this.state.filterText}
         onFilterTextChanged={this.onFilterTextChanged}
-        invalidationProps={this.props.pullRequests}
+        invalidationProps={{
+          pullRequests: this.props.pullRequests,
+          filter: this.state.filter,
+        }}
         onItemClick={this.onItemClick}
         onSelectionChanged={this.onSelectionChanged}
         onFilterKeyDown={this.props.onFilterKeyDown}
         renderGroupHeader={this.renderListHeader}
+        renderPreList={this.renderFilters}
         renderNoItems={this.renderNoItems}
         renderPostFilter={this.renderPostFilter}
       />
@@ -157,7 +192,10 @@ export class PullRequestList extends React.Component<
   private renderNoItems = () => {
     return (
       <NoPullRequests
-        isSearch={this.state.filterText.length > 0}
+        isSearch={
+          this.state.filterText.length > 0 ||
+          isPullRequestFilterActive(this.state.filter)
+        }
         isLoadingPullRequests={this.props.isLoadingPullRequests}
         repositoryName={this.getRepositoryName()}
         isOnDefaultBranch={this.props.isOnDefaultBranch}
@@ -178,14 +216,21 @@ export class PullRequestList extends React.Component<
         title={pr.title}
         number={pr.pullRequestNumber}
         created={pr.created}
+        updated={pr.updated}
+        showUpdated={
+          this.state.filter.sortOrder === PullRequestSortOrder.Updated
+        }
         author={pr.author}
         draft={pr.draft}
+        labels={pr.labels}
+        reviewDecision={pr.reviewDecision}
         matches={matches}
         dispatcher={this.props.dispatcher}
         repository={pr.base.gitHubRepository}
         onDropOntoPullRequest={this.onDropOntoPullRequest}
         onMouseEnter={this.onMouseEnterPullRequest}
         onMouseLeave={this.onMouseLeavePullRequest}
+        onMergePullRequest={this.onMergePullRequest}
       />
     )
   }
@@ -213,6 +258,18 @@ export class PullRequestList extends React.Component<
     this.props.onMouseLeavePullRequest(event)
   }
 
+  private onMergePullRequest = (prNumber: number) => {
+    const pr = this.props.pullRequests.find(
+      pr => pr.pullRequestNumber === prNumber
+    )
+    if (pr === undefined) {
+      log.error('[onMergePullRequest] - Could not find pull request.')
+      return
+    }
+
+    this.props.onMergePullRequest(pr)
+  }
+
   private onDropOntoPullRequest = (prNumber: number) => {
     const { repository, selectedPullRequest, dispatcher, pullRequests } =
       this.props
@@ -303,6 +360,114 @@ export class PullRequestList extends React.Component<
     )
   }
 
+  private renderFilters = () => {
+    const { pullRequests, currentUserLogin } = this.props
+    const { filter } = this.state
+    const labels = getPullRequestLabels(pullRequests)
+    const baseBranches = getPullRequestBaseBranches(pullRequests)
+
+    return (
+      <div className="pull-request-filters">
+        <Select
+          label="Show"
+          value={filter.involvement}
+          onChange={this.onInvolvementChanged}
+        >
+          <option value={PullRequestInvolvementFilter.All}>All</option>
+          <option
+            value={PullRequestInvolvementFilter.Mine}
+            disabled={currentUserLogin === null}
+          >
+            {__DARWIN__ ? 'Created by Me' : 'Created by me'}
+          </option>
+          <option
+            value={PullRequestInvolvementFilter.ReviewRequested}
+            disabled={currentUserLogin === null}
+          >
+            {__DARWIN__ ? 'Review Requested' : 'Review requested'}
+          </option>
+        </Select>
+        <Select
+          label="State"
+          value={filter.draft}
+          onChange={this.onDraftChanged}
+        >
+          <option value={PullRequestDraftFilter.All}>All</option>
+          <option value={PullRequestDraftFilter.Ready}>
+            {__DARWIN__ ? 'Ready for Review' : 'Ready for review'}
+          </option>
+          <option value={PullRequestDraftFilter.Draft}>Draft</option>
+        </Select>
+        <Select
+          label="Label"
+          value={filter.label ?? ''}
+          onChange={this.onLabelChanged}
+        >
+          <option value="">All</option>
+          {labels.map(l => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </Select>
+        <Select
+          label="Base"
+          value={filter.baseBranch ?? ''}
+          onChange={this.onBaseBranchChanged}
+        >
+          <option value="">All</option>
+          {baseBranches.map(b => (
+            <option key={b} value={b}>
+              {b}
+            </option>
+          ))}
+        </Select>
+        <Select
+          label={__DARWIN__ ? 'Sort By' : 'Sort by'}
+          value={filter.sortOrder}
+          onChange={this.onSortOrderChanged}
+        >
+          <option value={PullRequestSortOrder.Created}>Newest</option>
+          <option value={PullRequestSortOrder.Updated}>
+            {__DARWIN__ ? 'Recently Updated' : 'Recently updated'}
+          </option>
+        </Select>
+      </div>
+    )
+  }
+
+  private onFilterChanged(filter: Partial<IPullRequestFilter>) {
+    this.updateListItems(this.props, { ...this.state.filter, ...filter })
+  }
+
+  private onInvolvementChanged = (
+    event: React.FormEvent<HTMLSelectElement>
+  ) => {
+    const involvement = event.currentTarget
+      .value as PullRequestInvolvementFilter
+    this.onFilterChanged({ involvement })
+  }
+
+  private onDraftChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const draft = event.currentTarget.value as PullRequestDraftFilter
+    this.onFilterChanged({ draft })
+  }
+
+  private onLabelChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const { value } = event.currentTarget
+    this.onFilterChanged({ label: value.length > 0 ? value : null })
+  }
+
+  private onBaseBranchChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const { value } = event.currentTarget
+    this.onFilterChanged({ baseBranch: value.length > 0 ? value : null })
+  }
+
+  private onSortOrderChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const sortOrder = event.currentTarget.value as PullRequestSortOrder
+    this.onFilterChanged({ sortOrder })
+  }
+
   private onFilterTextChanged = (text: string) => {
     this.setState({ filterText: text })
   }
@@ -313,16 +478,24 @@ export class PullRequestList extends React.Component<
   }
 }
 
-function getSubtitle(pr: PullRequest) {
+function getSubtitle(pr: PullRequest, sortOrder: PullRequestSortOrder) {
+  if (sortOrder === PullRequestSortOrder.Updated) {
+    const timeAgo = formatRelative(pr.updated.getTime() - Date.now())
+    return `#${pr.pullRequestNumber} by ${pr.author} • updated ${timeAgo}`
+  }
+
   const timeAgo = formatRelative(pr.created.getTime() - Date.now())
   return `#${pr.pullRequestNumber} opened ${timeAgo} by ${pr.author}`
 }
 
 function createListItems(
-  pullRequests: ReadonlyArray<PullRequest>
+  props: IPullRequestListProps,
+  filter: IPullRequestFilter
 ): IFilterListGroup<IPullRequestListItem> {
-  const items = pullRequests.map(pr => ({
-    text: [pr.title, getSubtitle(pr)],
+  const { pullRequests, currentUserLogin } = props
+  const filtered = filterPullRequests(pullRequests, filter, currentUserLogin)
+  const items = filtered.map(pr => ({
+    text: [pr.title, getSubtitle(pr, filter.sortOrder)],
     id: pr.pullRequestNumber.toString(),
     pullRequest: pr,
   }))
@@ -0,0 +1,180 @@
+import * as React from 'react'
+
+import { Dispatcher } from '../dispatcher'
+import { nameOf, Repository } from '../../models/repository'
+import {
+  BulkRepositoryOperationKind,
+  IBulkRepositoryOperation,
+  isBulkRepositoryOperationDone,
+} from '../../models/bulk-repository-operation'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import { assertNever } from '../../lib/fatal-error'
+
+interface IBulkRepositoryOperationDialogProps {
+  readonly dispatcher: Dispatcher
+  readonly kind: BulkRepositoryOperationKind
+  readonly repositories: ReadonlyArray<Repository>
+
+  /** The progress of the operation running on many repositories, if any */
+  readonly operation: IBulkRepositoryOperation | null
+
+  readonly onDismissed: () => void
+}
+
+interface IBulkRepositoryOperationDialogState {
+  /** Whether the user has started the operation from this dialog */
+  readonly hasStarted: boolean
+}
+
+/** Get the verb describing the operation, e.g. for the submit button */
+function getOperationVerb(kind: BulkRepositoryOperationKind) {
+  switch (kind) {
+    case BulkRepositoryOperationKind.Fetch:
+      return 'Fetch'
+    case BulkRepositoryOperationKind.Pull:
+      return 'Pull'
+    case BulkRepositoryOperationKind.CheckoutDefaultBranch:
+      return __DARWIN__
+        ? 'Check Out Default Branch'
+        : 'Check out default branch'
+    case BulkRepositoryOperationKind.Remove:
+      return 'Remove'
+    default:
+      return assertNever(kind, `Unknown bulk operation: ${kind}`)
+  }
+}
+
+function getOperationDescription(kind: BulkRepositoryOperationKind) {
+  switch (kind) {
+    case BulkRepositoryOperationKind.Fetch:
+      return 'The remotes of these repositories will be fetched:'
+    case BulkRepositoryOperationKind.Pull:
+      return 'The current branch of these repositories will be fast-forwarded to its upstream branch. Branches which have diverged will not be changed:'
+    case BulkRepositoryOperationKind.CheckoutDefaultBranch:
+      return 'The default branch will be checked out in these repositories:'
+    case BulkRepositoryOperationKind.Remove:
+      return 'These repositories will be removed from GitHub Desktop. Their files will be kept on disk:'
+    default:
+      return assertNever(kind, `Unknown bulk operation: ${kind}`)
+  }
+}
+
+/**
+ * A dialog for confirming an operation on many repositories at once, and for
+ * showing its progress and the errors in each repository once it's done.
+ */
+export class BulkRepositoryOperationDialog extends React.Component<
+  IBulkRepositoryOperationDialogProps,
+  IBulkRepositoryOperationDialogState
+> {
+  public constructor(props: IBulkRepositoryOperationDialogProps) {
+    super(props)
+
+    this.state = { hasStarted: false }
+  }
+
+  public render() {
+    const { kind, repositories } = this.props
+    const operation = this.state.hasStarted ? this.props.operation : null
+    const isRunning =
+      operation !== null && !isBulkRepositoryOperationDone(operation)
+    const isDone =
+      operation !== null && isBulkRepositoryOperationDone(operation)
+    const verb = getOperationVerb(kind)
+    const count = `${repositories.length} ${
+      repositories.length === 1 ? 'repository' : 'repositories'
+    }`
+
+    return (
+      <Dialog
+        id="bulk-repository-operation"
+        title={`${verb} ${count}`}
+        onDismissed={this.onDismissed}
+        onSubmit={isDone ? this.onDismissed : this.onSubmit}
+        loading={isRunning}
+        disabled={isRunning}
+        type={
+          kind === BulkRepositoryOperationKind.Remove && !isDone
+            ? 'warning'
+            : 'normal'
+        }
+      >
+        <DialogContent>
+          {operation === null
+            ? this.renderRepositories()
+            : this.renderProgress(operation)}
+        </DialogContent>
+
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={isDone ? 'Close' : verb}
+            cancelButtonVisible={!isDone}
+            cancelButtonDisabled={isRunning}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderRepositories() {
+    return (
+      <>
+        <p>{getOperationDescription(this.props.kind)}</p>
+        <ul className="bulk-repository-list">
+          {this.props.repositories.map(r => (
+            <li key={r.id}>{nameOf(r)}</li>
+          ))}
+        </ul>
+      </>
+    )
+  }
+
+  private renderProgress(operation: IBulkRepositoryOperation) {
+    const { repositories, results } = operation
+    const failed = repositories.filter(
+      r => results.has(r.id) && results.get(r.id) !== null
+    )
+    const succeededCount = [...results.values()].filter(e => e === null).length
+
+    return (
+      <>
+        <progress value={results.size / repositories.length} />
+        <p className="bulk-repository-summary">
+          {results.size} of {repositories.length} done: {succeededCount}{' '}
+          succeeded, {failed.length} failed
+        </p>
+        {failed.length > 0 && (
+          <ul className="bulk-repository-errors">
+            {failed.map(r => (
+              <li key={r.id}>
+                <Octicon symbol={OcticonSymbol.alert} />
+                <div>
+                  <strong>{nameOf(r)}</strong>
+                  <div className="error-message">{results.get(r.id)}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </>
+    )
+  }
+
+  private onSubmit = () => {
+    const { dispatcher, kind, repositories } = this.props
+
+    this.setState({ hasStarted: true })
+    dispatcher.runBulkRepositoryOperation(kind, repositories)
+  }
+
+  private onDismissed = () => {
+    if (this.state.hasStarted) {
+      this.props.dispatcher.clearBulkRepositoryOperation()
+    }
+
+    this.props.onDismissed()
+  }
+}
@@ -6,6 +6,7 @@ import { Octicon, iconForStatus } from '../octicons'
 import * as OcticonSymbol from '../octicons/octicons.generated'
 import { mapStatus } from '../../lib/status'
 import { DiffOptions } from '../diff/diff-options'
+import { TabBar, TabBarType } from '../tab-bar'
 
 interface IChangedFileDetailsProps {
   readonly path: string
@@ -26,6 +27,15 @@ interface IChangedFileDetailsProps {
 
   /** Called when the user opens the diff options popover */
   readonly onDiffOptionsOpened: () => void
+
+  /** Whether the diff shows the changes staged in the index */
+  readonly showStagedDiff?: boolean
+
+  /**
+   * Called when the user switches between staged and unstaged changes. The
+   * switch is only shown when this is provided.
+   */
+  readonly onShowStagedDiffChanged?: (showStagedDiff: boolean) => void
 }
 
 /** Displays information about a file */
@@ -42,6 +52,7 @@ export class ChangedFileDetails extends React.Component<
         <PathLabel path={this.props.path} status={this.props.status} />
         {this.renderDecorator()}
 
+        {this.renderStagedDiffSwitch()}
         {this.renderDiffOptions()}
 
         <Octicon
@@ -53,6 +64,29 @@ export class ChangedFileDetails extends React.Component<
     )
   }
 
+  private renderStagedDiffSwitch() {
+    if (this.props.onShowStagedDiffChanged === undefined) {
+      return null
+    }
+
+    return (
+      <div className="staged-diff-switch">
+        <TabBar
+          selectedIndex={this.props.showStagedDiff ? 1 : 0}
+          onTabClicked={this.onStagedDiffTabClicked}
+          type={TabBarType.Switch}
+        >
+          <span>Unstaged</span>
+          <span>Staged</span>
+        </TabBar>
+      </div>
+    )
+  }
+
+  private onStagedDiffTabClicked = (index: number) => {
+    this.props.onShowStagedDiffChanged?.(index === 1)
+  }
+
   private renderDiffOptions() {
     if (this.props.diff?.kind === DiffType.Submodule) {
       return null
@@ -7,6 +7,8 @@ import { mapStatus } from '../../lib/status'
 import { WorkingDirectoryFileChange } from '../../models/status'
 import { TooltipDirection } from '../lib/tooltip'
 import { TooltippedContent } from '../lib/tooltipped-content'
+import { ILFSLock } from '../../models/lfs-lock'
+import { LFSLockBadge, LFSLockBadgeWidth } from '../lfs'
 
 interface IChangedFileProps {
   readonly file: WorkingDirectoryFileChange
@@ -16,6 +18,9 @@ interface IChangedFileProps {
   readonly checkboxTooltip?: string
   readonly onIncludeChanged: (path: string, include: boolean) => void
 
+  /** The Git LFS lock on the file, if any */
+  readonly lock?: ILFSLock
+
   /** Callback called when user right-clicks on an item */
   readonly onContextMenu: (
     file: WorkingDirectoryFileChange,
@@ -41,7 +46,7 @@ export class ChangedFile extends React.Component<IChangedFileProps, {}> {
   }
 
   public render() {
-    const { file, availableWidth, disableSelection, checkboxTooltip } =
+    const { file, availableWidth, disableSelection, checkboxTooltip, lock } =
       this.props
     const { status, path } = file
     const fileStatus = mapStatus(status)
@@ -56,7 +61,8 @@ export class ChangedFile extends React.Component<IChangedFileProps, {}> {
       listItemPadding -
       checkboxWidth -
       filePadding -
-      statusWidth
+      statusWidth -
+      (lock !== undefined ? LFSLockBadgeWidth : 0)
 
     return (
       <div className="file" onContextMenu={this.onContextMenu}>
@@ -82,6 +88,8 @@ export class ChangedFile extends React.Component<IChangedFileProps, {}> {
           availableWidth={availablePathWidth}
         />
 
+        {lock !== undefined && <LFSLockBadge lock={lock} />}
+
         <Octicon
           symbol={iconForStatus(status)}
           className={'status status-' + fileStatus.toLowerCase()}
@@ -29,6 +29,7 @@ import {
   CopyRelativeFilePathLabel,
   CopySelectedPathsLabel,
   CopySelectedRelativePathsLabel,
+  ShowFileHistoryLabel,
 } from '../lib/context-menu'
 import { CommitMessage } from './commit-message'
 import { ChangedFile } from './changed-file'
@@ -52,8 +53,10 @@ import { hasWritePermission } from '../../models/github-repository'
 import { hasConflictedFiles } from '../../lib/status'
 import { createObservableRef } from '../lib/observable-ref'
 import { Tooltip, TooltipDirection } from '../lib/tooltip'
-import { Popup } from '../../models/popup'
+import { Popup, PopupType } from '../../models/popup'
 import { EOL } from 'os'
+import { ILFSLock } from '../../models/lfs-lock'
+import { getLFSLockMenuItems } from '../lfs'
 
 const RowHeight = 29
 const StashIcon: OcticonSymbol.OcticonSymbolType = {
@@ -213,6 +216,12 @@ interface IChangesListProps {
   readonly shouldNudgeToCommit: boolean
 
   readonly commitSpellcheckEnabled: boolean
+
+  /**
+   * The files locked with Git LFS in the repository, or null if the
+   * repository doesn't support locking
+   */
+  readonly lfsLocks: ReadonlyArray<ILFSLock> | null
 }
 
 interface IChangesState {
@@ -277,7 +286,7 @@ export class ChangesList extends React.Component<
     } = this.props
 
     const file = workingDirectory.files[row]
-    const selection = file.selection.getSelectionType()
+    const selection = file.getIncludedType()
     const { submoduleStatus } = file.status
 
     const isUncommittableSubmodule =
@@ -323,6 +332,7 @@ export class ChangesList extends React.Component<
         availableWidth={availableWidth}
         disableSelection={disableSelection}
         checkboxTooltip={checkboxTooltip}
+        lock={this.props.lfsLocks?.find(l => l.path === file.path)}
       />
     )
   }
@@ -478,6 +488,25 @@ export class ChangesList extends React.Component<
     }
   }
 
+  private getShowFileHistoryMenuItem = (
+    file: WorkingDirectoryFileChange
+  ): IMenuItem => {
+    const { dispatcher, repository } = this.props
+    const { kind } = file.status
+
+    return {
+      label: ShowFileHistoryLabel,
+      action: () =>
+        dispatcher.showPopup({
+          type: PopupType.FileHistory,
+          repository,
+          path: file.path,
+        }),
+      enabled:
+        kind !== AppFileStatusKind.New && kind !== AppFileStatusKind.Untracked,
+    }
+  }
+
   private getRevealInFileManagerMenuItem = (
     file: WorkingDirectoryFileChange
   ): IMenuItem => {
@@ -545,10 +574,21 @@ export class ChangesList extends React.Component<
       addItemToArray(id)
     }
 
+    const lockItems = getLFSLockMenuItems(
+      this.props.dispatcher,
+      this.props.repository,
+      paths,
+      this.props.lfsLocks
+    )
+
     const items: IMenuItem[] = [
       this.getDiscardChangesMenuItem(paths),
       { type: 'separator' },
     ]
+
+    if (lockItems.length > 0) {
+      items.push(...lockItems, { type: 'separator' })
+    }
     if (paths.length === 1) {
       items.push({
         label: __DARWIN__
@@ -617,7 +657,9 @@ export class ChangesList extends React.Component<
       items.push(
         { type: 'separator' },
         this.getCopyPathMenuItem(file),
-        this.getCopyRelativePathMenuItem(file)
+        this.getCopyRelativePathMenuItem(file),
+        { type: 'separator' },
+        this.getShowFileHistoryMenuItem(file)
       )
     }
 
@@ -758,7 +800,7 @@ export class ChangesList extends React.Component<
       fileCount > 0 && includeAllValue !== CheckboxValue.Off
 
     const filesSelected = workingDirectory.files.filter(
-      f => f.selection.getSelectionType() !== DiffSelectionType.None
+      f => f.getIncludedType() !== DiffSelectionType.None
     )
 
     // When a single file is selected, we use a default commit summary
@@ -911,7 +953,7 @@ export class ChangesList extends React.Component<
     const filesDescription = `${files.length} changed ${filesPlural}`
 
     const selectedChangeCount = files.filter(
-      file => file.selection.getSelectionType() !== DiffSelectionType.None
+      file => file.getIncludedType() !== DiffSelectionType.None
     ).length
     const totalFilesPlural = files.length === 1 ? 'file' : 'files'
     const selectedChangesDescription = `${selectedChangeCount}/${files.length} changed ${totalFilesPlural} selected`
@@ -952,6 +994,7 @@ export class ChangesList extends React.Component<
           invalidationProps={{
             workingDirectory: workingDirectory,
             isCommitting: isCommitting,
+            lfsLocks: this.props.lfsLocks,
           }}
           onRowClick={this.props.onRowClick}
           onScroll={this.onScroll}
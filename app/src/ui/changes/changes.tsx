@@ -1,16 +1,24 @@
 import * as React from 'react'
+import * as Path from 'path'
+import memoize from 'memoize-one'
 import { ChangedFileDetails } from './changed-file-details'
 import {
   DiffSelection,
+  DiffSelectionType,
+  DiffType,
   IDiff,
   ImageDiffType,
   ITextDiff,
 } from '../../models/diff'
-import { WorkingDirectoryFileChange } from '../../models/status'
+import {
+  AppFileStatusKind,
+  WorkingDirectoryFileChange,
+} from '../../models/status'
 import { Repository } from '../../models/repository'
 import { Dispatcher } from '../dispatcher'
 import { SeamlessDiffSwitcher } from '../diff/seamless-diff-switcher'
 import { PopupType } from '../../models/popup'
+import { IPullRequestReviewThread } from '../../models/pull-request-review-thread'
 
 interface IChangesProps {
   readonly repository: Repository
@@ -51,6 +59,47 @@ interface IChangesProps {
 
   /** Called when the user opens the diff options popover */
   readonly onDiffOptionsOpened: () => void
+
+  /**
+   * Whether staging changes writes them to the Git index immediately, in
+   * which case the diff shows either the staged or the unstaged changes.
+   */
+  readonly useGitIndex: boolean
+
+  /** Whether the diff shows the changes staged in the index */
+  readonly showStagedDiff: boolean
+
+  /** The name of the external editor, used in the context menu */
+  readonly externalEditorLabel?: string
+
+  /** The review threads of the pull request of the current branch */
+  readonly reviewThreads: ReadonlyArray<IPullRequestReviewThread>
+}
+
+/**
+ * Get the line selection to display for a diff of either the staged or the
+ * unstaged changes of a file. All staged lines are included and none of the
+ * unstaged lines are.
+ */
+function getIndexDiffSelection(
+  diff: IDiff | null,
+  showStagedDiff: boolean
+): DiffSelection {
+  const selectableLines = new Set<number>()
+
+  if (diff?.kind === DiffType.Text || diff?.kind === DiffType.LargeText) {
+    diff.hunks.forEach(h => {
+      h.lines.forEach((line, index) => {
+        if (line.isIncludeableLine()) {
+          selectableLines.add(h.unifiedDiffStart + index)
+        }
+      })
+    })
+  }
+
+  return DiffSelection.fromInitialSelection(
+    showStagedDiff ? DiffSelectionType.All : DiffSelectionType.None
+  ).withSelectableLines(selectableLines)
 }
 
 export class Changes extends React.Component<IChangesProps, {}> {
@@ -63,6 +112,21 @@ export class Changes extends React.Component<IChangesProps, {}> {
     return this.props.isCommitting || this.props.hideWhitespaceInDiff
   }
 
+  private getIndexDiffSelection = memoize(getIndexDiffSelection)
+
+  /**
+   * The file to render the diff for. When staging through the Git index the
+   * selection of the file reflects what's staged rather than which lines of
+   * the diff are included.
+   */
+  private getDiffFile() {
+    const { file, diff, useGitIndex, showStagedDiff } = this.props
+
+    return useGitIndex
+      ? file.withSelection(this.getIndexDiffSelection(diff, showStagedDiff))
+      : file
+  }
+
   private onDiffLineIncludeChanged = (selection: DiffSelection) => {
     if (!this.lineSelectionDisabled) {
       const { repository, file } = this.props
@@ -108,15 +172,25 @@ export class Changes extends React.Component<IChangesProps, {}> {
           hideWhitespaceInDiff={this.props.hideWhitespaceInDiff}
           onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
           onDiffOptionsOpened={this.props.onDiffOptionsOpened}
+          showStagedDiff={this.props.showStagedDiff}
+          onShowStagedDiffChanged={
+            this.props.useGitIndex ? this.onShowStagedDiffChanged : undefined
+          }
         />
 
         <SeamlessDiffSwitcher
           repository={this.props.repository}
           imageDiffType={this.props.imageDiffType}
-          file={this.props.file}
+          file={this.getDiffFile()}
           readOnly={false}
           onIncludeChanged={this.onDiffLineIncludeChanged}
-          onDiscardChanges={this.onDiscardChanges}
+          onDiscardChanges={
+            // Discarding staged lines would have to update both the index and
+            // the working directory
+            this.props.useGitIndex && this.props.showStagedDiff
+              ? undefined
+              : this.onDiscardChanges
+          }
           diff={this.props.diff}
           hideWhitespaceInDiff={this.props.hideWhitespaceInDiff}
           showSideBySideDiff={this.props.showSideBySideDiff}
@@ -127,11 +201,48 @@ export class Changes extends React.Component<IChangesProps, {}> {
           onOpenSubmodule={this.props.onOpenSubmodule}
           onChangeImageDiffType={this.props.onChangeImageDiffType}
           onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
+          externalEditorLabel={this.props.externalEditorLabel}
+          onOpenInExternalEditor={this.getOpenInExternalEditorHandler()}
+          reviewThreads={
+            // The lines of the staged diff are the lines in the index rather
+            // than in the working directory
+            this.props.useGitIndex && this.props.showStagedDiff
+              ? undefined
+              : this.props.reviewThreads
+          }
         />
       </div>
     )
   }
 
+  private getOpenInExternalEditorHandler() {
+    const { file, useGitIndex, showStagedDiff } = this.props
+
+    // Deleted files can't be opened, and the line numbers of staged changes
+    // refer to the index rather than the file in the working directory
+    if (
+      file.status.kind === AppFileStatusKind.Deleted ||
+      (useGitIndex && showStagedDiff)
+    ) {
+      return undefined
+    }
+
+    return this.onOpenInExternalEditor
+  }
+
+  private onOpenInExternalEditor = (line: number, column?: number) => {
+    const { repository, file } = this.props
+    const fullPath = Path.join(repository.path, file.path)
+    this.props.dispatcher.openInExternalEditor(fullPath, { line, column })
+  }
+
+  private onShowStagedDiffChanged = (showStagedDiff: boolean) => {
+    this.props.dispatcher.changeShowStagedDiff(
+      this.props.repository,
+      showStagedDiff
+    )
+  }
+
   private onShowSideBySideDiffChanged = (showSideBySideDiff: boolean) => {
     this.props.dispatcher.onShowSideBySideDiffChanged(showSideBySideDiff)
   }
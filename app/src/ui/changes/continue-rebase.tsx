@@ -6,7 +6,6 @@ import { Dispatcher } from '../dispatcher'
 import { Repository } from '../../models/repository'
 import { WorkingDirectoryStatus } from '../../models/status'
 import { getConflictedFiles } from '../../lib/status'
-import { MultiCommitOperationKind } from '../../models/multi-commit-operation'
 
 interface IContinueRebaseProps {
   readonly dispatcher: Dispatcher
@@ -21,8 +20,7 @@ export class ContinueRebase extends React.Component<IContinueRebaseProps, {}> {
   private onSubmit = async () => {
     const { rebaseConflictState } = this.props
 
-    await this.props.dispatcher.continueRebase(
-      MultiCommitOperationKind.Rebase,
+    await this.props.dispatcher.continueRebaseFromChanges(
       this.props.repository,
       this.props.workingDirectory,
       rebaseConflictState
@@ -26,6 +26,7 @@ import { openFile } from '../lib/open-file'
 import { Account } from '../../models/account'
 import { PopupType } from '../../models/popup'
 import { filesNotTrackedByLFS } from '../../lib/git/lfs'
+import { ILFSLock } from '../../models/lfs-lock'
 import { getLargeFilePaths } from '../../lib/large-files'
 import { isConflictedFile, hasUnresolvedConflicts } from '../../lib/status'
 import { getAccountForRepository } from '../../lib/get-account-for-repository'
@@ -76,6 +77,12 @@ interface IChangesSidebarProps {
   readonly shouldNudgeToCommit: boolean
 
   readonly commitSpellcheckEnabled: boolean
+
+  /**
+   * The files locked with Git LFS in the repository, or null if the
+   * repository doesn't support locking
+   */
+  readonly lfsLocks: ReadonlyArray<ILFSLock> | null
 }
 
 export class ChangesSidebar extends React.Component<IChangesSidebarProps, {}> {
@@ -137,11 +144,33 @@ export class ChangesSidebar extends React.Component<IChangesSidebarProps, {}> {
       return false
     }
 
+    // are any of the files selected for committing locked by someone else?
+    const lockedByOthers = (this.props.lfsLocks ?? []).filter(
+      lock =>
+        !lock.isOurs &&
+        workingDirectory.files.some(
+          f =>
+            f.path === lock.path &&
+            f.getIncludedType() !== DiffSelectionType.None
+        )
+    )
+
+    if (lockedByOthers.length > 0) {
+      this.props.dispatcher.showPopup({
+        type: PopupType.LockedFilesWarning,
+        locks: lockedByOthers,
+        context,
+        repository: this.props.repository,
+      })
+
+      return false
+    }
+
     // are any conflicted files left?
     const conflictedFilesLeft = workingDirectory.files.filter(
       f =>
         isConflictedFile(f.status) &&
-        f.selection.getSelectionType() === DiffSelectionType.None
+        f.getIncludedType() === DiffSelectionType.None
     )
 
     if (conflictedFilesLeft.length === 0) {
@@ -154,7 +183,7 @@ export class ChangesSidebar extends React.Component<IChangesSidebarProps, {}> {
       f =>
         isConflictedFile(f.status) &&
         hasUnresolvedConflicts(f.status) &&
-        f.selection.getSelectionType() !== DiffSelectionType.None
+        f.getIncludedType() !== DiffSelectionType.None
     )
 
     if (conflictedFilesSelected.length > 0) {
@@ -264,7 +293,7 @@ export class ChangesSidebar extends React.Component<IChangesSidebarProps, {}> {
       return
     }
 
-    const currentSelection = file.selection.getSelectionType()
+    const currentSelection = file.getIncludedType()
 
     this.props.dispatcher.changeFileIncluded(
       this.props.repository,
@@ -415,6 +444,7 @@ export class ChangesSidebar extends React.Component<IChangesSidebarProps, {}> {
           currentBranchProtected={currentBranchProtected}
           shouldNudgeToCommit={this.props.shouldNudgeToCommit}
           commitSpellcheckEnabled={this.props.commitSpellcheckEnabled}
+          lfsLocks={this.props.lfsLocks}
         />
         {this.renderUndoCommit(rebaseConflictState)}
       </div>
@@ -51,6 +51,12 @@ interface ICreateBranchProps {
   readonly upstreamDefaultBranch: Branch | null
   readonly allBranches: ReadonlyArray<Branch>
   readonly initialName: string
+
+  /**
+   * The number of the issue the branch is created for, if any. The first
+   * commit on the branch will close the issue.
+   */
+  readonly issueNumber?: number
   /**
    * If provided, use as the okButtonText
    */
@@ -227,6 +233,7 @@ export class CreateBranch extends React.Component<
           )}
 
           {this.renderBranchSelection()}
+          {this.renderIssue()}
         </DialogContent>
 
         <DialogFooter>
@@ -239,6 +246,21 @@ export class CreateBranch extends React.Component<
     )
   }
 
+  private renderIssue() {
+    const { issueNumber } = this.props
+
+    if (issueNumber === undefined) {
+      return null
+    }
+
+    return (
+      <Row>
+        The first commit on this branch will close issue #{issueNumber} when
+        it's merged.
+      </Row>
+    )
+  }
+
   private getHeaderText = (): string => {
     if (this.props.headerText !== undefined) {
       return this.props.headerText
@@ -327,6 +349,14 @@ export class CreateBranch extends React.Component<
       timer.done()
       this.props.onDismissed()
 
+      if (branch !== undefined && this.props.issueNumber !== undefined) {
+        this.props.dispatcher.setBranchIssue(
+          repository,
+          branch.name,
+          this.props.issueNumber
+        )
+      }
+
       // If the operation was successful and the branch was created from a
       // commit, invoke the callback.
       if (
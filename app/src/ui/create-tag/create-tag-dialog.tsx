@@ -8,6 +8,7 @@ import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
 import { startTimer } from '../lib/timing'
 import { Ref } from '../lib/ref'
 import { RefNameTextBox } from '../lib/ref-name-text-box'
+import { TextArea } from '../lib/text-area'
 import { enablePreviousTagSuggestions } from '../../lib/feature-flag'
 
 interface ICreateTagProps {
@@ -22,6 +23,9 @@ interface ICreateTagProps {
 interface ICreateTagState {
   readonly tagName: string
 
+  /** The annotation message of the tag, which may be empty */
+  readonly message: string
+
   /**
    * Note: once tag creation has been initiated this value stays at true
    * and will never revert to being false. If the tag creation operation
@@ -44,6 +48,7 @@ export class CreateTag extends React.Component<
 
     this.state = {
       tagName: props.initialName || '',
+      message: '',
       isCreatingTag: false,
       previousTags: this.getExistingTagsFiltered(),
     }
@@ -71,6 +76,14 @@ export class CreateTag extends React.Component<
             onValueChange={this.updateTagName}
           />
 
+          <TextArea
+            label="Message"
+            placeholder="Optional description of the tag"
+            value={this.state.message}
+            onValueChanged={this.updateMessage}
+            rows={4}
+          />
+
           {this.renderPreviousTags()}
         </DialogContent>
 
@@ -148,6 +161,10 @@ export class CreateTag extends React.Component<
     })
   }
 
+  private updateMessage = (message: string) => {
+    this.setState({ message })
+  }
+
   private createTag = async () => {
     const name = this.state.tagName
     const repository = this.props.repository
@@ -159,7 +176,8 @@ export class CreateTag extends React.Component<
       await this.props.dispatcher.createTag(
         repository,
         name,
-        this.props.targetCommitSha
+        this.props.targetCommitSha,
+        this.state.message.trim()
       )
       timer.done()
 
@@ -10,6 +10,10 @@ interface IDeleteTagProps {
   readonly dispatcher: Dispatcher
   readonly repository: Repository
   readonly tagName: string
+
+  /** The remote to delete the tag from, or undefined to delete the local tag */
+  readonly remoteName?: string
+
   readonly onDismissed: () => void
 }
 
@@ -30,10 +34,20 @@ export class DeleteTag extends React.Component<
   }
 
   public render() {
+    const { remoteName } = this.props
+    const title =
+      remoteName === undefined
+        ? __DARWIN__
+          ? 'Delete Tag'
+          : 'Delete tag'
+        : __DARWIN__
+        ? 'Delete Remote Tag'
+        : 'Delete remote tag'
+
     return (
       <Dialog
         id="delete-tag"
-        title={__DARWIN__ ? 'Delete Tag' : 'Delete tag'}
+        title={title}
         type="warning"
         onSubmit={this.DeleteTag}
         onDismissed={this.props.onDismissed}
@@ -41,10 +55,23 @@ export class DeleteTag extends React.Component<
         loading={this.state.isDeleting}
       >
         <DialogContent>
-          <p>
-            Are you sure you want to delete the tag{' '}
-            <Ref>{this.props.tagName}</Ref>?
-          </p>
+          {remoteName === undefined ? (
+            <p>
+              Are you sure you want to delete the tag{' '}
+              <Ref>{this.props.tagName}</Ref>?
+            </p>
+          ) : (
+            <>
+              <p>
+                Are you sure you want to delete the tag{' '}
+                <Ref>{this.props.tagName}</Ref> from <Ref>{remoteName}</Ref>?
+              </p>
+              <p>
+                The local tag is kept, and anyone who has already fetched the
+                tag will keep their copy of it.
+              </p>
+            </>
+          )}
         </DialogContent>
         <DialogFooter>
           <OkCancelButtonGroup destructive={true} okButtonText="Delete" />
@@ -54,11 +81,15 @@ export class DeleteTag extends React.Component<
   }
 
   private DeleteTag = async () => {
-    const { dispatcher, repository, tagName } = this.props
+    const { dispatcher, repository, tagName, remoteName } = this.props
 
     this.setState({ isDeleting: true })
 
-    await dispatcher.deleteTag(repository, tagName)
+    if (remoteName === undefined) {
+      await dispatcher.deleteTag(repository, tagName)
+    } else {
+      await dispatcher.deleteRemoteTag(repository, tagName)
+    }
     this.props.onDismissed()
   }
 }
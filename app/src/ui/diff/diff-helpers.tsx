@@ -9,8 +9,13 @@ import {
   CommittedFileChange,
 } from '../../models/status'
 import { DiffHunk, DiffHunkExpansionType } from '../../models/diff/raw-diff'
-import { DiffLineType } from '../../models/diff'
+import {
+  DiffLineType,
+  DiffSelection,
+  DiffSelectionType,
+} from '../../models/diff'
 import { DiffSyntaxToken } from './diff-syntax-mode'
+import { assertNever } from '../../lib/fatal-error'
 
 /**
  * DiffRowType defines the different types of
@@ -355,6 +360,50 @@ export function canSelect(
   return file instanceof WorkingDirectoryFileChange
 }
 
+/**
+ * Get a selection of a range of lines in the diff of a committed file, which
+ * can't otherwise be selected, for reverting the lines in the working
+ * directory.
+ */
+export function getRevertSelection(from: number, to: number = from) {
+  return DiffSelection.fromInitialSelection(
+    DiffSelectionType.None
+  ).withRangeSelection(from, to - from + 1, true)
+}
+
+/** Get the label of the context menu item for reverting lines of a commit */
+export function getRevertLabel(numLines: number): string {
+  if (numLines === 1) {
+    return __DARWIN__
+      ? 'Revert Line in Working Directory'
+      : 'Revert line in working directory'
+  }
+
+  return __DARWIN__
+    ? `Revert ${numLines} Lines in Working Directory`
+    : `Revert ${numLines} lines in working directory`
+}
+
+/**
+ * Get the number of the line in the new version of the file shown in a row,
+ * or null if the row doesn't show a line of the new version.
+ */
+export function getRowNewLineNumber(row: SimplifiedDiffRow): number | null {
+  switch (row.type) {
+    case DiffRowType.Added:
+      return row.data.lineNumber
+    case DiffRowType.Modified:
+      return row.afterData.lineNumber
+    case DiffRowType.Context:
+      return row.afterLineNumber
+    case DiffRowType.Deleted:
+    case DiffRowType.Hunk:
+      return null
+    default:
+      return assertNever(row, `Unknown row type ${row}`)
+  }
+}
+
 /** Gets the width in pixels of the diff line number gutter based on the number of digits in the number */
 export function getLineWidthFromDigitCount(digitAmount: number): number {
   return Math.max(digitAmount, 3) * 10 + 5
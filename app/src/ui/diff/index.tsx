@@ -33,6 +33,8 @@ import { SideBySideDiff } from './side-by-side-diff'
 import { enableExperimentalDiffViewer } from '../../lib/feature-flag'
 import { IFileContents } from './syntax-highlighting'
 import { SubmoduleDiff } from './submodule-diff'
+import { IBlameLine } from '../../models/blame'
+import { IPullRequestReviewThread } from '../../models/pull-request-review-thread'
 
 // image used when no diff is displayed
 const NoDiffImage = encodePathAsUrl(__dirname, 'static/ufo-alert.svg')
@@ -100,8 +102,42 @@ interface IDiffProps {
     diffSelection: DiffSelection
   ) => void
 
+  /**
+   * Called when the user wants to revert a selection of the diff of a
+   * committed file in the working directory.
+   * Only applicable when readOnly is true.
+   */
+  readonly onRevertChanges?: (
+    diff: ITextDiff,
+    diffSelection: DiffSelection
+  ) => void
+
   /** Called when the user changes the hide whitespace in diffs setting. */
   readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
+
+  /**
+   * The commit that last changed each line of the new version of the file,
+   * shown next to text diffs that aren't displayed side by side
+   */
+  readonly blame?: ReadonlyArray<IBlameLine>
+
+  /** Called when the user clicks on a commit in the blame */
+  readonly onBlameCommitClicked?: (sha: string) => void
+
+  /** The name of the external editor, used in the context menu */
+  readonly externalEditorLabel?: string
+
+  /**
+   * Called when the user wants to open the file in the external editor at the
+   * given line and column of the new version of the file
+   */
+  readonly onOpenInExternalEditor?: (line: number, column?: number) => void
+
+  /**
+   * The pull request review threads on the file, on lines in the new version
+   * of the file shown in the diff
+   */
+  readonly reviewThreads?: ReadonlyArray<IPullRequestReviewThread>
 }
 
 interface IDiffState {
@@ -282,12 +318,16 @@ export class Diff extends React.Component<IDiffProps, IDiffState> {
           showSideBySideDiff={this.props.showSideBySideDiff}
           onIncludeChanged={this.props.onIncludeChanged}
           onDiscardChanges={this.props.onDiscardChanges}
+          onRevertChanges={this.props.onRevertChanges}
           askForConfirmationOnDiscardChanges={
             this.props.askForConfirmationOnDiscardChanges
           }
           onHideWhitespaceInDiffChanged={
             this.props.onHideWhitespaceInDiffChanged
           }
+          externalEditorLabel={this.props.externalEditorLabel}
+          onOpenInExternalEditor={this.props.onOpenInExternalEditor}
+          reviewThreads={this.props.reviewThreads}
         />
       )
     }
@@ -300,12 +340,18 @@ export class Diff extends React.Component<IDiffProps, IDiffState> {
         hideWhitespaceInDiff={this.props.hideWhitespaceInDiff}
         onIncludeChanged={this.props.onIncludeChanged}
         onDiscardChanges={this.props.onDiscardChanges}
+        onRevertChanges={this.props.onRevertChanges}
         diff={diff}
         fileContents={this.props.fileContents}
         askForConfirmationOnDiscardChanges={
           this.props.askForConfirmationOnDiscardChanges
         }
         onHideWhitespaceInDiffChanged={this.props.onHideWhitespaceInDiffChanged}
+        blame={this.props.blame}
+        onBlameCommitClicked={this.props.onBlameCommitClicked}
+        externalEditorLabel={this.props.externalEditorLabel}
+        onOpenInExternalEditor={this.props.onOpenInExternalEditor}
+        reviewThreads={this.props.reviewThreads}
       />
     )
   }
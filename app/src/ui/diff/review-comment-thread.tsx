@@ -0,0 +1,35 @@
+import * as React from 'react'
+import { IPullRequestReviewThread } from '../../models/pull-request-review-thread'
+import { LinkButton } from '../lib/link-button'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import { RelativeTime } from '../relative-time'
+
+interface IReviewCommentThreadProps {
+  readonly thread: IPullRequestReviewThread
+}
+
+/** A pull request review thread shown below the line it's on in a diff */
+export class ReviewCommentThread extends React.Component<IReviewCommentThreadProps> {
+  public render() {
+    const { comments } = this.props.thread
+
+    return (
+      <div className="review-comment-thread">
+        {comments.map(c => (
+          <div className="review-comment" key={c.id}>
+            <div className="review-comment-header">
+              <Octicon symbol={OcticonSymbol.comment} />
+              <span className="author">{c.author}</span>
+              <RelativeTime date={c.createdAt} />
+            </div>
+            <div className="review-comment-body">{c.body}</div>
+          </div>
+        ))}
+        {comments.length > 0 && (
+          <LinkButton uri={comments[0].htmlURL}>Reply on GitHub</LinkButton>
+        )}
+      </div>
+    )
+  }
+}
@@ -19,6 +19,9 @@ import {
 import { Loading } from '../lib/loading'
 import { getFileContents, IFileContents } from './syntax-highlighting'
 import { getTextDiffWithBottomDummyHunk } from './text-diff-expansion'
+import { IBlameLine } from '../../models/blame'
+import { IPullRequestReviewThread } from '../../models/pull-request-review-thread'
+import { getReviewThreadsForFile } from '../../lib/pull-request-review-threads'
 
 /**
  * The time (in milliseconds) we allow when loading a diff before
@@ -83,8 +86,42 @@ interface ISeamlessDiffSwitcherProps {
     diffSelection: DiffSelection
   ) => void
 
+  /**
+   * Called when the user wants to revert a selection of the diff of a
+   * committed file in the working directory.
+   * Only applicable when readOnly is true.
+   */
+  readonly onRevertChanges?: (
+    diff: ITextDiff,
+    diffSelection: DiffSelection
+  ) => void
+
   /** Called when the user changes the hide whitespace in diffs setting. */
   readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
+
+  /**
+   * The commit that last changed each line of the new version of the file,
+   * shown next to text diffs that aren't displayed side by side
+   */
+  readonly blame?: ReadonlyArray<IBlameLine>
+
+  /** Called when the user clicks on a commit in the blame */
+  readonly onBlameCommitClicked?: (sha: string) => void
+
+  /** The name of the external editor, used in the context menu */
+  readonly externalEditorLabel?: string
+
+  /**
+   * Called when the user wants to open the file in the external editor at the
+   * given line and column of the new version of the file
+   */
+  readonly onOpenInExternalEditor?: (line: number, column?: number) => void
+
+  /**
+   * The review threads of the pull request of the current branch, shown
+   * inline at the lines they're on in the version of the file in the diff
+   */
+  readonly reviewThreads?: ReadonlyArray<IPullRequestReviewThread>
 }
 
 interface ISeamlessDiffSwitcherState {
@@ -113,6 +150,12 @@ interface ISeamlessDiffSwitcherState {
 
   /** Contents of the old and new files related to the current text diff. */
   readonly fileContents: IFileContents | null
+
+  /**
+   * The review threads on the file, with their lines moved to where they are
+   * in the version of the file in the diff
+   */
+  readonly fileReviewThreads: ReadonlyArray<IPullRequestReviewThread>
 }
 
 /** I'm super useful */
@@ -192,6 +235,7 @@ export class SeamlessDiffSwitcher extends React.Component<
       propSnapshot: props,
       diff: props.diff,
       fileContents: null,
+      fileReviewThreads: [],
     }
   }
 
@@ -200,6 +244,7 @@ export class SeamlessDiffSwitcher extends React.Component<
       this.scheduleSlowLoadingTimeout()
     }
     this.loadFileContentsIfNeeded(null)
+    this.loadReviewThreads()
   }
 
   public componentWillUnmount() {
@@ -223,6 +268,51 @@ export class SeamlessDiffSwitcher extends React.Component<
     }
 
     this.loadFileContentsIfNeeded(prevProps.diff)
+
+    const sameFile = isSameFile(this.props.file, prevProps.file)
+
+    // Don't show the threads of the previous file while loading
+    if (!sameFile && this.state.fileReviewThreads.length > 0) {
+      this.setState({ fileReviewThreads: [] })
+    }
+
+    if (
+      !sameFile ||
+      this.props.reviewThreads !== prevProps.reviewThreads ||
+      this.props.diff !== prevProps.diff
+    ) {
+      this.loadReviewThreads()
+    }
+  }
+
+  private async loadReviewThreads() {
+    const { repository, file, diff, reviewThreads } = this.props
+    const threadsOnFile = (reviewThreads ?? []).filter(
+      t => t.path === file.path
+    )
+
+    if (threadsOnFile.length === 0) {
+      if (this.state.fileReviewThreads.length > 0) {
+        this.setState({ fileReviewThreads: [] })
+      }
+      return
+    }
+
+    const fileReviewThreads = await getReviewThreadsForFile(
+      repository,
+      threadsOnFile,
+      file.path,
+      file instanceof CommittedFileChange ? file.commitish : null
+    )
+
+    // Has the file or its diff changed while we've been mapping the lines?
+    if (
+      isSameFile(file, this.props.file) &&
+      diff === this.props.diff &&
+      reviewThreads === this.props.reviewThreads
+    ) {
+      this.setState({ fileReviewThreads })
+    }
   }
 
   private async loadFileContentsIfNeeded(prevDiff: IDiff | null) {
@@ -310,11 +400,16 @@ export class SeamlessDiffSwitcher extends React.Component<
       showSideBySideDiff,
       onIncludeChanged,
       onDiscardChanges,
+      onRevertChanges,
       file,
       onOpenBinaryFile,
       onOpenSubmodule,
       onChangeImageDiffType,
       onHideWhitespaceInDiffChanged,
+      blame,
+      onBlameCommitClicked,
+      externalEditorLabel,
+      onOpenInExternalEditor,
     } = this.state.propSnapshot
 
     const className = classNames('seamless-diff-switcher', {
@@ -346,12 +441,20 @@ export class SeamlessDiffSwitcher extends React.Component<
             }
             onIncludeChanged={isLoadingDiff ? noop : onIncludeChanged}
             onDiscardChanges={isLoadingDiff ? noop : onDiscardChanges}
+            onRevertChanges={isLoadingDiff ? noop : onRevertChanges}
             onOpenBinaryFile={isLoadingDiff ? noop : onOpenBinaryFile}
             onOpenSubmodule={isLoadingDiff ? noop : onOpenSubmodule}
             onChangeImageDiffType={isLoadingDiff ? noop : onChangeImageDiffType}
             onHideWhitespaceInDiffChanged={
               isLoadingDiff ? noop : onHideWhitespaceInDiffChanged
             }
+            blame={blame}
+            onBlameCommitClicked={isLoadingDiff ? noop : onBlameCommitClicked}
+            externalEditorLabel={externalEditorLabel}
+            onOpenInExternalEditor={
+              isLoadingDiff ? noop : onOpenInExternalEditor
+            }
+            reviewThreads={this.state.fileReviewThreads}
           />
         ) : null}
         {loadingIndicator}
@@ -100,7 +100,6 @@ interface ISideBySideDiffRowProps {
   /**
    * Called when the user right-clicks a line number. Called with the
    * clicked diff line number.
-   * (only relevant when isDiffSelectable is true)
    */
   readonly onContextMenuLine: (diffLineNumber: number) => void
 
@@ -118,8 +117,11 @@ interface ISideBySideDiffRowProps {
 
   /**
    * Called when the user right-clicks text on the diff.
+   *
+   * @param afterLineNumber The number of the line in the new version of the
+   *                        file, or null if the line was deleted.
    */
-  readonly onContextMenuText: () => void
+  readonly onContextMenuText: (afterLineNumber: number | null) => void
 
   /**
    * Array of classes applied to the after section of a row
@@ -320,7 +322,7 @@ export class SideBySideDiffRow extends React.Component<
     data: Pick<IDiffRowData, 'content' | 'noNewLineIndicator' | 'tokens'>
   ) {
     return (
-      <div className="content" onContextMenu={this.props.onContextMenuText}>
+      <div className="content" onContextMenu={this.onContextMenuText}>
         {syntaxHighlightLine(data.content, data.tokens)}
         {data.noNewLineIndicator && (
           <Octicon
@@ -469,7 +471,12 @@ export class SideBySideDiffRow extends React.Component<
   ) {
     if (!this.props.isDiffSelectable || isSelected === undefined) {
       return (
-        <div className="line-number" style={{ width: this.lineGutterWidth }}>
+        // eslint-disable-next-line jsx-a11y/no-static-element-interactions
+        <div
+          className="line-number"
+          style={{ width: this.lineGutterWidth }}
+          onContextMenu={this.onContextMenuLineNumber}
+        >
           {lineNumbers.map((lineNumber, index) => (
             <span key={index}>{lineNumber}</span>
           ))}
@@ -586,6 +593,25 @@ export class SideBySideDiffRow extends React.Component<
     return null
   }
 
+  /**
+   * Returns the number of the line in the new version of the file for the
+   * current row, or null if the row doesn't have one (e.g. deleted lines).
+   */
+  private getAfterLineNumber(): number | null {
+    const { row } = this.props
+
+    switch (row.type) {
+      case DiffRowType.Context:
+        return row.afterLineNumber
+      case DiffRowType.Added:
+        return row.data.lineNumber
+      case DiffRowType.Modified:
+        return row.afterData.lineNumber
+    }
+
+    return null
+  }
+
   private onMouseDownLineNumber = (evt: React.MouseEvent) => {
     if (evt.buttons === 2) {
       return
@@ -669,6 +695,10 @@ export class SideBySideDiffRow extends React.Component<
     }
   }
 
+  private onContextMenuText = () => {
+    this.props.onContextMenuText(this.getAfterLineNumber())
+  }
+
   private onContextMenuHunk = () => {
     if (this.props.hideWhitespaceInDiff) {
       return
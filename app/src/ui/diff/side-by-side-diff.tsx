@@ -40,6 +40,8 @@ import {
   DiffRow,
   DiffRowType,
   canSelect,
+  getRevertLabel,
+  getRevertSelection,
   getDiffTokens,
   SimplifiedDiffRowData,
   SimplifiedDiffRow,
@@ -49,6 +51,7 @@ import {
   getNumberOfDigits,
   MaxIntraLineDiffStringLength,
   getFirstAndLastClassesSideBySide,
+  getRowNewLineNumber,
 } from './diff-helpers'
 import { showContextualMenu } from '../../lib/menu-item'
 import { getTokens } from './diff-syntax-mode'
@@ -59,7 +62,10 @@ import {
   expandWholeTextDiff,
 } from './text-diff-expansion'
 import { IMenuItem } from '../../lib/menu-item'
+import { getOpenInExternalEditorAtLineLabel } from '../lib/context-menu'
 import { HiddenBidiCharsWarning } from './hidden-bidi-chars-warning'
+import { IPullRequestReviewThread } from '../../models/pull-request-review-thread'
+import { ReviewCommentThread } from './review-comment-thread'
 import { escapeRegExp } from 'lodash'
 
 const DefaultRowHeight = 20
@@ -130,6 +136,16 @@ interface ISideBySideDiffProps {
    */
   readonly askForConfirmationOnDiscardChanges?: boolean
 
+  /**
+   * Called when the user wants to revert a selection of the diff of a
+   * committed file in the working directory.
+   * Only applicable when the lines of the diff can't be selected.
+   */
+  readonly onRevertChanges?: (
+    diff: ITextDiff,
+    diffSelection: DiffSelection
+  ) => void
+
   /**
    * Whether we'll show the diff in a side-by-side layout.
    */
@@ -137,6 +153,21 @@ interface ISideBySideDiffProps {
 
   /** Called when the user changes the hide whitespace in diffs setting. */
   readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
+
+  /** The name of the external editor, used in the context menu */
+  readonly externalEditorLabel?: string
+
+  /**
+   * Called when the user wants to open the file in the external editor at the
+   * given line and column of the new version of the file
+   */
+  readonly onOpenInExternalEditor?: (line: number, column?: number) => void
+
+  /**
+   * The pull request review threads on the file, shown below the lines in the
+   * new version of the file they're on
+   */
+  readonly reviewThreads?: ReadonlyArray<IPullRequestReviewThread>
 }
 
 interface ISideBySideDiffState {
@@ -375,6 +406,11 @@ export class SideBySideDiff extends React.Component<
       this.clearListRowsHeightCache()
     }
 
+    if (this.props.reviewThreads !== prevProps.reviewThreads) {
+      this.clearListRowsHeightCache()
+      this.virtualListRef.current?.recomputeRowHeights()
+    }
+
     if (this.props.diff.text !== prevProps.diff.text) {
       this.diffToRestore = null
       this.setState({
@@ -478,6 +514,7 @@ export class SideBySideDiff extends React.Component<
                 hoveredHunk={this.state.hoveredHunk}
                 isSelectable={canSelect(this.props.file)}
                 fileSelection={this.getSelection()}
+                reviewThreads={this.props.reviewThreads}
               />
             )}
           </AutoSizer>
@@ -573,11 +610,36 @@ export class SideBySideDiff extends React.Component<
             beforeClassNames={beforeClassNames}
             afterClassNames={afterClassNames}
           />
+          {this.renderReviewThreads(row)}
         </div>
       </CellMeasurer>
     )
   }
 
+  /** Render the review threads on the line in the new version of a row */
+  private renderReviewThreads(row: SimplifiedDiffRow) {
+    const { reviewThreads } = this.props
+    const lineNumber = getRowNewLineNumber(row)
+
+    if (reviewThreads === undefined || lineNumber === null) {
+      return null
+    }
+
+    const threads = reviewThreads.filter(t => t.line === lineNumber)
+
+    if (threads.length === 0) {
+      return null
+    }
+
+    return (
+      <div className="review-comment-threads">
+        {threads.map(t => (
+          <ReviewCommentThread key={t.id} thread={t} />
+        ))}
+      </div>
+    )
+  }
+
   private getRowHeight = (row: { index: number }) => {
     return listRowsHeightCache.rowHeight(row) ?? DefaultRowHeight
   }
@@ -934,7 +996,7 @@ export class SideBySideDiff extends React.Component<
   /**
    * Handler to show a context menu when the user right-clicks on the diff text.
    */
-  private onContextMenuText = () => {
+  private onContextMenuText = (afterLineNumber: number | null) => {
     const selectionLength = window.getSelection()?.toString().length ?? 0
 
     const items: IMenuItem[] = [
@@ -955,6 +1017,20 @@ export class SideBySideDiff extends React.Component<
       items.push({ type: 'separator' }, expandMenuItem)
     }
 
+    const { onOpenInExternalEditor, externalEditorLabel } = this.props
+    if (onOpenInExternalEditor !== undefined && afterLineNumber !== null) {
+      items.push(
+        { type: 'separator' },
+        {
+          label: getOpenInExternalEditorAtLineLabel(
+            externalEditorLabel,
+            afterLineNumber
+          ),
+          action: () => onOpenInExternalEditor(afterLineNumber),
+        }
+      )
+    }
+
     showContextualMenu(items)
   }
 
@@ -968,6 +1044,7 @@ export class SideBySideDiff extends React.Component<
     const { diff } = this.state
 
     if (!canSelect(file)) {
+      this.showRevertMenu(diffLineNumber)
       return
     }
 
@@ -992,6 +1069,56 @@ export class SideBySideDiff extends React.Component<
     ])
   }
 
+  /**
+   * Show a context menu for reverting a line of the diff of a committed file,
+   * or the range of changes it's part of, in the working directory.
+   */
+  private showRevertMenu(diffLineNumber: number) {
+    if (this.props.onRevertChanges === undefined) {
+      return
+    }
+
+    const range = findInteractiveOriginalDiffRange(
+      this.state.diff.hunks,
+      diffLineNumber
+    )
+    if (range === null || range.type === null) {
+      return
+    }
+
+    // Just like when discarding, reverting a single line of a modification
+    // would only revert one side of it.
+    const items: Array<IMenuItem> = [
+      {
+        label: getRevertLabel(1),
+        action: () => this.onRevertChanges(diffLineNumber),
+        enabled: range.type !== DiffRangeType.Mixed,
+      },
+    ]
+
+    if (range.to > range.from) {
+      items.push({
+        label: getRevertLabel(range.to - range.from + 1),
+        action: () => this.onRevertChanges(range.from, range.to),
+      })
+    }
+
+    showContextualMenu(items)
+  }
+
+  private onRevertChanges(startLine: number, endLine: number = startLine) {
+    if (this.props.onRevertChanges === undefined) {
+      return
+    }
+
+    // Pass the original diff (from props) instead of the (potentially)
+    // expanded one.
+    this.props.onRevertChanges(
+      this.props.diff,
+      getRevertSelection(startLine, endLine)
+    )
+  }
+
   private buildExpandMenuItem(): IMenuItem | null {
     const { diff } = this.state
     if (!this.canExpandDiff()) {
@@ -1,7 +1,7 @@
 import * as React from 'react'
 import ReactDOM from 'react-dom'
 import { clipboard } from 'electron'
-import { Editor, Doc, EditorConfiguration } from 'codemirror'
+import { Editor, Doc, EditorConfiguration, LineWidget } from 'codemirror'
 
 import {
   DiffHunk,
@@ -35,14 +35,17 @@ import {
 import { relativeChanges } from './changed-range'
 import { Repository } from '../../models/repository'
 import memoizeOne from 'memoize-one'
-import { structuralEquals } from '../../lib/equality'
+import { arrayEquals, structuralEquals } from '../../lib/equality'
 import { assertNever } from '../../lib/fatal-error'
 import { clamp } from '../../lib/clamp'
 import { uuid } from '../../lib/uuid'
 import { showContextualMenu } from '../../lib/menu-item'
 import { IMenuItem } from '../../lib/menu-item'
+import { getOpenInExternalEditorAtLineLabel } from '../lib/context-menu'
 import {
   canSelect,
+  getRevertLabel,
+  getRevertSelection,
   getLineWidthFromDigitCount,
   getNumberOfDigits,
   MaxIntraLineDiffStringLength,
@@ -57,6 +60,10 @@ import * as OcticonSymbol from '../octicons/octicons.generated'
 import { WhitespaceHintPopover } from './whitespace-hint-popover'
 import { PopoverCaretPosition } from '../lib/popover'
 import { HiddenBidiCharsWarning } from './hidden-bidi-chars-warning'
+import { IBlameLine } from '../../models/blame'
+import { IPullRequestReviewThread } from '../../models/pull-request-review-thread'
+import { ReviewCommentThread } from './review-comment-thread'
+import { formatDate } from '../../lib/format-date'
 
 // This is a custom version of the no-newline octicon that's exactly as
 // tall as it needs to be (8px) which helps with aligning it on the line.
@@ -177,8 +184,42 @@ interface ITextDiffProps {
    */
   readonly askForConfirmationOnDiscardChanges?: boolean
 
+  /**
+   * Called when the user wants to revert a selection of the diff of a
+   * committed file in the working directory.
+   * Only applicable when readOnly is true.
+   */
+  readonly onRevertChanges?: (
+    diff: ITextDiff,
+    diffSelection: DiffSelection
+  ) => void
+
   /** Called when the user changes the hide whitespace in diffs setting. */
   readonly onHideWhitespaceInDiffChanged: (checked: boolean) => void
+
+  /**
+   * The commit that last changed each line of the new version of the file.
+   * When set, the commits are shown in a gutter next to the diff.
+   */
+  readonly blame?: ReadonlyArray<IBlameLine>
+
+  /** Called when the user clicks on a commit in the blame gutter */
+  readonly onBlameCommitClicked?: (sha: string) => void
+
+  /** The name of the external editor, used in the context menu */
+  readonly externalEditorLabel?: string
+
+  /**
+   * Called when the user wants to open the file in the external editor at the
+   * given line and column of the new version of the file
+   */
+  readonly onOpenInExternalEditor?: (line: number, column?: number) => void
+
+  /**
+   * The pull request review threads on the file, shown below the lines in the
+   * new version of the file they're on
+   */
+  readonly reviewThreads?: ReadonlyArray<IPullRequestReviewThread>
 }
 
 interface ITextDiffState {
@@ -187,6 +228,7 @@ interface ITextDiffState {
 }
 
 const diffGutterName = 'diff-gutter'
+const blameGutterName = 'blame-gutter'
 
 function showSearch(cm: Editor) {
   const wrapper = cm.getWrapperElement()
@@ -290,6 +332,12 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
   private whitespaceHintMountId: number | null = null
   private whitespaceHintContainer: Element | null = null
 
+  /** The widgets showing review threads, and the elements they're rendered in */
+  private reviewThreadWidgets = new Array<{
+    readonly widget: LineWidget
+    readonly container: HTMLElement
+  }>()
+
   private getCodeMirrorDocument = memoizeOne(
     (text: string, noNewlineIndicatorLines: ReadonlyArray<number>) => {
       const { mode, firstLineNumber, lineSeparator } = defaultEditorOptions
@@ -641,6 +689,88 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
   private getAndStoreCodeMirrorInstance = (cmh: CodeMirrorHost | null) => {
     this.codeMirror = cmh === null ? null : cmh.getEditor()
     this.initDiffSyntaxMode()
+
+    if (this.props.blame !== undefined) {
+      this.updateBlameGutter()
+    }
+
+    this.updateReviewThreadWidgets()
+  }
+
+  /**
+   * Recreate the widgets showing the review threads below the lines they're
+   * on. Threads on lines which aren't part of the diff aren't shown.
+   */
+  private updateReviewThreadWidgets() {
+    this.clearReviewThreadWidgets()
+
+    const cm = this.codeMirror
+    const { reviewThreads } = this.props
+    if (cm === null || reviewThreads === undefined) {
+      return
+    }
+
+    cm.operation(() => {
+      for (const thread of reviewThreads) {
+        const index = this.getIndexOfNewLine(thread.line)
+        if (index === null) {
+          continue
+        }
+
+        const container = document.createElement('div')
+        ReactDOM.render(<ReviewCommentThread thread={thread} />, container)
+
+        const widget = cm.addLineWidget(index, container, { noHScroll: true })
+        this.reviewThreadWidgets.push({ widget, container })
+      }
+    })
+  }
+
+  private clearReviewThreadWidgets() {
+    for (const { widget, container } of this.reviewThreadWidgets) {
+      widget.clear()
+      ReactDOM.unmountComponentAtNode(container)
+    }
+    this.reviewThreadWidgets = []
+  }
+
+  /**
+   * Get the index in the diff of the line with the given number in the new
+   * version of the file, or null if the line isn't part of the diff.
+   */
+  private getIndexOfNewLine(lineNumber: number) {
+    for (const hunk of this.state.diff.hunks) {
+      const index = hunk.lines.findIndex(
+        l => l.type !== DiffLineType.Delete && l.newLineNumber === lineNumber
+      )
+      if (index !== -1) {
+        return hunk.unifiedDiffStart + index
+      }
+    }
+    return null
+  }
+
+  /**
+   * Show or hide the blame gutter depending on whether there's any blame to
+   * show, and recreate its markers for the current blame.
+   */
+  private updateBlameGutter() {
+    const cm = this.codeMirror
+    if (cm === null) {
+      return
+    }
+
+    const gutters =
+      this.props.blame === undefined
+        ? [diffGutterName]
+        : [blameGutterName, diffGutterName]
+
+    if (!arrayEquals(cm.getOption('gutters') ?? [], gutters)) {
+      cm.setOption('gutters', gutters)
+    }
+
+    cm.clearGutter(blameGutterName)
+    this.updateViewport()
   }
 
   private onContextMenu = (instance: CodeMirror.Editor, event: Event) => {
@@ -664,11 +794,24 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
       items.push({ type: 'separator' }, expandMenuItem)
     }
 
+    const openInExternalEditorMenuItem = this.buildOpenInExternalEditorMenuItem(
+      instance,
+      event
+    )
+    if (openInExternalEditorMenuItem !== null) {
+      items.push({ type: 'separator' }, openInExternalEditorMenuItem)
+    }
+
     const discardMenuItems = this.buildDiscardMenuItems(instance, event)
     if (discardMenuItems !== null) {
       items.push({ type: 'separator' }, ...discardMenuItems)
     }
 
+    const revertMenuItems = this.buildRevertMenuItems(instance, event)
+    if (revertMenuItems !== null) {
+      items.push({ type: 'separator' }, ...revertMenuItems)
+    }
+
     showContextualMenu(items)
   }
 
@@ -702,6 +845,42 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
         }
   }
 
+  private buildOpenInExternalEditorMenuItem(
+    editor: CodeMirror.Editor,
+    event: Event
+  ): IMenuItem | null {
+    const { onOpenInExternalEditor, externalEditorLabel } = this.props
+
+    if (onOpenInExternalEditor === undefined) {
+      return null
+    }
+
+    if (!(event instanceof MouseEvent)) {
+      // We can only infer which line was clicked when the context menu is opened
+      // via a mouse event.
+      return null
+    }
+
+    const lineNumber = editor.lineAtHeight(event.y)
+    const diffLine = diffLineForIndex(this.state.diff.hunks, lineNumber)
+    const line = diffLine?.newLineNumber ?? null
+
+    if (line === null) {
+      // Deleted lines and hunk headers aren't in the new version of the file
+      return null
+    }
+
+    // The first character of each line in the diff is the +/- prefix, so the
+    // character offset is the same as the 1-based column in the file.
+    const { ch } = editor.coordsChar({ left: event.x, top: event.y })
+    const column = Math.max(ch, 1)
+
+    return {
+      label: getOpenInExternalEditorAtLineLabel(externalEditorLabel, line),
+      action: () => onOpenInExternalEditor(line, column),
+    }
+  }
+
   private buildDiscardMenuItems(
     editor: CodeMirror.Editor,
     event: Event
@@ -791,6 +970,74 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
     this.props.onDiscardChanges(this.props.diff, selection)
   }
 
+  private buildRevertMenuItems(
+    editor: CodeMirror.Editor,
+    event: Event
+  ): ReadonlyArray<IMenuItem> | null {
+    const { readOnly, onRevertChanges, hideWhitespaceInDiff } = this.props
+
+    if (!readOnly || onRevertChanges === undefined) {
+      return null
+    }
+
+    if (!(event instanceof MouseEvent)) {
+      // We can only infer which line was clicked when the context menu is opened
+      // via a mouse event.
+      return null
+    }
+
+    const diff = this.state.diff
+    const lineNumber = editor.lineAtHeight(event.y)
+    const diffLine = diffLineForIndex(diff.hunks, lineNumber)
+    if (
+      diffLine === null ||
+      !diffLine.isIncludeableLine() ||
+      diffLine.originalLineNumber === null
+    ) {
+      return null
+    }
+
+    const range = findInteractiveOriginalDiffRange(diff.hunks, lineNumber)
+    if (range === null || range.type === null) {
+      return null
+    }
+
+    const { originalLineNumber } = diffLine
+
+    // Just like when discarding, reverting a single line of a modification
+    // would only revert one side of it.
+    const items: Array<IMenuItem> = [
+      {
+        label: getRevertLabel(1),
+        action: () => this.onRevertChanges(originalLineNumber),
+        enabled: range.type !== DiffRangeType.Mixed && !hideWhitespaceInDiff,
+      },
+    ]
+
+    if (range.to > range.from) {
+      items.push({
+        label: getRevertLabel(range.to - range.from + 1),
+        action: () => this.onRevertChanges(range.from, range.to),
+        enabled: !hideWhitespaceInDiff,
+      })
+    }
+
+    return items
+  }
+
+  private onRevertChanges(startLine: number, endLine: number = startLine) {
+    if (this.props.onRevertChanges === undefined) {
+      return
+    }
+
+    // Pass the original diff (from props) instead of the (potentially)
+    // expanded one.
+    this.props.onRevertChanges(
+      this.props.diff,
+      getRevertSelection(startLine, endLine)
+    )
+  }
+
   private onExpandWholeFile = () => {
     const contents = this.props.fileContents
 
@@ -955,6 +1202,8 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
     if (!this.swappedDocumentHasUpdatedViewport) {
       this.updateViewport()
     }
+
+    this.updateReviewThreadWidgets()
   }
 
   private onViewportChange = (cm: Editor, from: number, to: number) => {
@@ -995,6 +1244,23 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
               cm.setGutterMarker(line, diffGutterName, marker)
             })
           }
+
+          if (
+            this.props.blame !== undefined &&
+            !(
+              lineInfo.gutterMarkers &&
+              blameGutterName in lineInfo.gutterMarkers
+            )
+          ) {
+            batchedOps.push(() => {
+              const marker = this.createBlameGutterMarker(
+                lineNumber,
+                hunks,
+                diffLine
+              )
+              cm.setGutterMarker(line, blameGutterName, marker)
+            })
+          }
         }
       }
     })
@@ -1077,6 +1343,73 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
     }
   }
 
+  /** Get the blame of a line in the new version of the file, if any */
+  private getBlameLine(diffLine: DiffLine | undefined) {
+    const { blame } = this.props
+    if (blame === undefined || diffLine?.newLineNumber == null) {
+      return null
+    }
+    return blame[diffLine.newLineNumber - 1] ?? null
+  }
+
+  private createBlameGutterMarker(
+    index: number,
+    hunks: ReadonlyArray<DiffHunk>,
+    diffLine: DiffLine
+  ) {
+    const marker = document.createElement('div')
+    marker.className = 'blame-line-gutter'
+
+    const blameLine = this.getBlameLine(diffLine)
+    if (blameLine === null) {
+      return marker
+    }
+
+    const { commit } = blameLine
+    const date = formatDate(commit.authorDate, { dateStyle: 'medium' })
+
+    marker.title = commit.isUncommitted
+      ? 'Not committed yet'
+      : `${commit.summary}\n${commit.author} • ${date}`
+
+    // Consecutive lines from the same commit are only labelled once
+    const previousLine = diffLineInfoForIndex(hunks, index - 1)?.line
+    const previousBlameLine = this.getBlameLine(previousLine)
+    if (
+      previousBlameLine !== null &&
+      previousBlameLine.lineNumber === blameLine.lineNumber - 1 &&
+      previousBlameLine.commit === commit
+    ) {
+      marker.classList.add('continued')
+    } else if (commit.isUncommitted) {
+      marker.textContent = 'Not committed yet'
+    } else {
+      const sha = document.createElement('span')
+      sha.className = 'sha'
+      sha.textContent = commit.sha.substring(0, 7)
+      marker.appendChild(sha)
+
+      const summary = document.createElement('span')
+      summary.className = 'summary'
+      summary.textContent = commit.summary
+      marker.appendChild(summary)
+    }
+
+    if (!commit.isUncommitted) {
+      marker.classList.add('clickable')
+      marker.addEventListener(
+        'click',
+        this.onBlameGutterClick.bind(this, commit.sha)
+      )
+    }
+
+    return marker
+  }
+
+  private onBlameGutterClick = (sha: string) => {
+    this.props.onBlameCommitClicked?.(sha)
+  }
+
   private createGutterMarker(
     index: number,
     hunks: ReadonlyArray<DiffHunk>,
@@ -1392,6 +1725,7 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
   public componentWillUnmount() {
     this.cancelSelection()
     this.unmountWhitespaceHint()
+    this.clearReviewThreadWidgets()
     this.codeMirror = null
     document.removeEventListener('find-text', this.onFindText)
   }
@@ -1504,6 +1838,14 @@ export class TextDiff extends React.Component<ITextDiffProps, ITextDiffState> {
       }
     }
 
+    if (this.props.blame !== prevProps.blame) {
+      this.updateBlameGutter()
+    }
+
+    if (this.props.reviewThreads !== prevProps.reviewThreads) {
+      this.updateReviewThreadWidgets()
+    }
+
     if (this.props.diff.text !== prevProps.diff.text) {
       this.diffToRestore = null
       this.setState({
@@ -5,12 +5,17 @@ import {
   IAPIPullRequest,
   IAPIFullRepository,
   IAPICheckSuite,
+  APIPullRequestMergeMethod,
 } from '../../lib/api'
 import { shell } from '../../lib/app-shell'
+import { IPullRequestMergeInfo } from '../../lib/pull-request-merge'
+import { IEditorPosition } from '../../lib/editors'
 import {
   CompareAction,
+  ComparisonMode,
   Foldout,
   FoldoutType,
+  HistoryTabMode,
   ICompareFormUpdate,
   RepositorySectionTab,
   RebaseConflictState,
@@ -32,6 +37,8 @@ import {
   getBranches,
   getRebaseSnapshot,
   getRepositoryType,
+  readRebaseHead,
+  getCommit,
 } from '../../lib/git'
 import { isGitOnPath } from '../../lib/is-git-on-path'
 import {
@@ -69,6 +76,7 @@ import { GitHubRepository } from '../../models/github-repository'
 import { ManualConflictResolution } from '../../models/manual-conflict-resolution'
 import { Popup, PopupType } from '../../models/popup'
 import {
+  IPullRequestDetails,
   PullRequest,
   PullRequestSuggestedNextAction,
 } from '../../models/pull-request'
@@ -80,6 +88,8 @@ import {
   isRepositoryWithForkedGitHubRepository,
   getNonForkGitHubRepository,
 } from '../../models/repository'
+import { IRepositoryGroup } from '../../models/repository-group'
+import { BulkRepositoryOperationKind } from '../../models/bulk-repository-operation'
 import { RetryAction, RetryActionType } from '../../models/retry-actions'
 import {
   CommittedFileChange,
@@ -90,6 +100,7 @@ import { TipState, IValidBranch } from '../../models/tip'
 import { Banner, BannerType } from '../../models/banner'
 
 import { ApplicationTheme, ICustomTheme } from '../lib/application-theme'
+import { CommitGraphMode } from '../../models/commit-graph'
 import { installCLI } from '../lib/install-cli'
 import {
   executeMenuItem,
@@ -119,6 +130,7 @@ import {
   MultiCommitOperationStepKind,
 } from '../../models/multi-commit-operation'
 import { getMultiCommitOperationChooseBranchStep } from '../../lib/multi-commit-operation'
+import { RebaseTodoItem } from '../../models/rebase'
 import { ICombinedRefCheck, IRefCheck } from '../../lib/ci-checks/ci-checks'
 import { ValidNotificationPullRequestReviewState } from '../../lib/valid-notification-pull-request-review'
 import { UnreachableCommitsTab } from '../history/unreachable-commits-dialog'
@@ -219,6 +231,17 @@ export class Dispatcher {
     return this.appStore._loadNextCommitBatch(repository)
   }
 
+  /**
+   * Load the status of the signatures of the given commits, e.g. the ones
+   * visible in the history list.
+   */
+  public loadCommitSignatureStatuses(
+    repository: Repository,
+    shas: ReadonlyArray<string>
+  ): Promise<void> {
+    return this.appStore._loadCommitSignatureStatuses(repository, shas)
+  }
+
   /** Load the changed files for the current history selection. */
   public loadChangedFilesForCurrentSelection(
     repository: Repository
@@ -358,6 +381,17 @@ export class Dispatcher {
     return this.appStore._changeIncludeAllFiles(repository, includeAll)
   }
 
+  /**
+   * Change whether the diff in the Changes view shows the changes staged in
+   * the index or the unstaged changes in the working directory.
+   */
+  public changeShowStagedDiff(
+    repository: Repository,
+    showStagedDiff: boolean
+  ): Promise<void> {
+    return this.appStore._changeShowStagedDiff(repository, showStagedDiff)
+  }
+
   /**
    * Refresh the repository. This would be used, e.g., when the app gains focus.
    */
@@ -636,14 +670,28 @@ export class Dispatcher {
   }
 
   /**
-   * Create a new tag on the given target commit.
+   * Remember that the given branch was created for working on an issue, so
+   * that the first commit on the branch closes the issue.
+   */
+  public setBranchIssue(
+    repository: Repository,
+    branchName: string,
+    issueNumber: number
+  ): Promise<void> {
+    return this.appStore._setBranchIssue(repository, branchName, issueNumber)
+  }
+
+  /**
+   * Create a new tag on the given target commit, with an optional annotation
+   * message.
    */
   public createTag(
     repository: Repository,
     name: string,
-    targetCommitSha: string
+    targetCommitSha: string,
+    message?: string
   ): Promise<void> {
-    return this.appStore._createTag(repository, name, targetCommitSha)
+    return this.appStore._createTag(repository, name, targetCommitSha, message)
   }
 
   /**
@@ -653,6 +701,30 @@ export class Dispatcher {
     return this.appStore._deleteTag(repository, name)
   }
 
+  /**
+   * Get the tags in the remote of the current branch, keyed on the tag name
+   * with the commit they point to, or null if they couldn't be loaded.
+   */
+  public getRemoteTags(
+    repository: Repository
+  ): Promise<Map<string, string> | null> {
+    return this.appStore._getRemoteTags(repository)
+  }
+
+  /**
+   * Push a single tag to the remote of the current branch.
+   */
+  public pushTag(repository: Repository, name: string): Promise<void> {
+    return this.appStore._pushTag(repository, name)
+  }
+
+  /**
+   * Delete a tag from the remote of the current branch.
+   */
+  public deleteRemoteTag(repository: Repository, name: string): Promise<void> {
+    return this.appStore._deleteRemoteTag(repository, name)
+  }
+
   /**
    * Show the tag creation dialog.
    */
@@ -673,15 +745,60 @@ export class Dispatcher {
 
   /**
    * Show the confirmation dialog to delete a tag.
+   *
+   * @param remoteName The name of the remote to delete the tag from, or
+   *                   undefined to delete the local tag.
    */
   public showDeleteTagDialog(
     repository: Repository,
-    tagName: string
+    tagName: string,
+    remoteName?: string
   ): Promise<void> {
     return this.showPopup({
       type: PopupType.DeleteTag,
       repository,
       tagName,
+      remoteName,
+    })
+  }
+
+  /**
+   * Create a new linked work tree for the given repository and add it
+   * to the list of repositories.
+   *
+   * @param newBranch The name of a branch to create at `commitish` and
+   *                  check out in the work tree, or null to check out
+   *                  `commitish` as is.
+   */
+  public createWorkTree(
+    repository: Repository,
+    path: string,
+    commitish: string,
+    newBranch: string | null
+  ): Promise<Repository | null> {
+    return this.appStore._createWorkTree(repository, path, commitish, newBranch)
+  }
+
+  /**
+   * Remove a linked work tree of the given repository from disk and from
+   * the list of repositories.
+   */
+  public removeWorkTree(
+    repository: Repository,
+    workTreeRepository: Repository
+  ): Promise<void> {
+    return this.appStore._removeWorkTree(repository, workTreeRepository)
+  }
+
+  /** Show the dialog for creating a new work tree from the given branch. */
+  public showCreateWorkTreeDialog(
+    repository: Repository,
+    branch: Branch
+  ): Promise<void> {
+    return this.showPopup({
+      type: PopupType.CreateWorkTree,
+      repository,
+      branch,
     })
   }
 
@@ -826,6 +943,76 @@ export class Dispatcher {
     return this.appStore._changeRepositoryAlias(repository, newAlias)
   }
 
+  /** Pin the repository to the top of the repository list, or unpin it. */
+  public changeRepositoryPinned(
+    repository: Repository,
+    isPinned: boolean
+  ): Promise<void> {
+    return this.appStore._changeRepositoryPinned(repository, isPinned)
+  }
+
+  /**
+   * Move the repository into a repository group, or back to its default
+   * group when `group` is null.
+   */
+  public moveRepositoryToGroup(
+    repository: Repository,
+    group: IRepositoryGroup | null
+  ): Promise<void> {
+    return this.appStore._moveRepositoryToGroup(repository, group)
+  }
+
+  /**
+   * Create a new repository group, optionally moving a repository into it.
+   */
+  public createRepositoryGroup(
+    name: string,
+    repository: Repository | null = null
+  ): Promise<void> {
+    return this.appStore._createRepositoryGroup(name, repository)
+  }
+
+  /** Rename the repository group. */
+  public renameRepositoryGroup(
+    group: IRepositoryGroup,
+    name: string
+  ): Promise<void> {
+    return this.appStore._renameRepositoryGroup(group, name)
+  }
+
+  /** Collapse or expand the repository group in the repository list. */
+  public changeRepositoryGroupCollapsed(
+    group: IRepositoryGroup,
+    isCollapsed: boolean
+  ): Promise<void> {
+    return this.appStore._changeRepositoryGroupCollapsed(group, isCollapsed)
+  }
+
+  /**
+   * Remove the repository group, moving its repositories back to their
+   * default groups.
+   */
+  public removeRepositoryGroup(group: IRepositoryGroup): Promise<void> {
+    return this.appStore._removeRepositoryGroup(group)
+  }
+
+  /**
+   * Run an operation on many repositories at once. The progress and the
+   * outcome in each repository are kept in the app state until cleared with
+   * `clearBulkRepositoryOperation`.
+   */
+  public runBulkRepositoryOperation(
+    kind: BulkRepositoryOperationKind,
+    repositories: ReadonlyArray<Repository>
+  ): Promise<void> {
+    return this.appStore._runBulkRepositoryOperation(kind, repositories)
+  }
+
+  /** Clear the outcome of the last operation on many repositories at once */
+  public clearBulkRepositoryOperation() {
+    this.appStore._clearBulkRepositoryOperation()
+  }
+
   /** Rename the branch to a new name. */
   public renameBranch(
     repository: Repository,
@@ -881,6 +1068,24 @@ export class Dispatcher {
     )
   }
 
+  /**
+   * Revert the changes from the given diff selection of a committed file in
+   * the working directory, leaving the commit untouched.
+   */
+  public revertChangesFromSelection(
+    repository: Repository,
+    filePath: string,
+    diff: ITextDiff,
+    selection: DiffSelection
+  ): Promise<void> {
+    return this.appStore._revertChangesFromSelection(
+      repository,
+      filePath,
+      diff,
+      selection
+    )
+  }
+
   /** Start amending the most recent commit. */
   public async startAmendingRepository(
     repository: Repository,
@@ -942,6 +1147,40 @@ export class Dispatcher {
     )
   }
 
+  /**
+   * Undo the most recent destructive operation, such as discarding changes or
+   * deleting a branch, which was recorded in the repository's journal.
+   */
+  public undoOperation(repository: Repository): Promise<void> {
+    return this.appStore._undoOperation(repository)
+  }
+
+  /** Redo the most recently undone operation in the repository's journal. */
+  public redoOperation(repository: Repository): Promise<void> {
+    return this.appStore._redoOperation(repository)
+  }
+
+  /** Lock the files with Git LFS so that others can't push changes to them */
+  public lockLFSFiles(
+    repository: Repository,
+    paths: ReadonlyArray<string>
+  ): Promise<void> {
+    return this.appStore._lockLFSFiles(repository, paths)
+  }
+
+  /** Release the Git LFS locks the current user holds on the files */
+  public unlockLFSFiles(
+    repository: Repository,
+    paths: ReadonlyArray<string>
+  ): Promise<void> {
+    return this.appStore._unlockLFSFiles(repository, paths)
+  }
+
+  /** Load the files locked with Git LFS from the repository's LFS server */
+  public refreshLFSLocks(repository: Repository): Promise<void> {
+    return this.appStore._refreshLFSLocks(repository)
+  }
+
   /** Revert the commit with the given SHA */
   public revertCommit(repository: Repository, commit: Commit): Promise<void> {
     return this.appStore._revertCommit(repository, commit)
@@ -1339,6 +1578,41 @@ export class Dispatcher {
     return this.appStore._setRemoteURL(repository, name, url)
   }
 
+  /** Add a new remote with the given name and URL */
+  public addRemote(
+    repository: Repository,
+    name: string,
+    url: string
+  ): Promise<void> {
+    return this.appStore._addRemote(repository, name, url)
+  }
+
+  /** Renames the remote that matches the given name */
+  public renameRemote(
+    repository: Repository,
+    name: string,
+    newName: string
+  ): Promise<void> {
+    return this.appStore._renameRemote(repository, name, newName)
+  }
+
+  /** Removes the remote that matches the given name */
+  public removeRemote(repository: Repository, name: string): Promise<void> {
+    return this.appStore._removeRemote(repository, name)
+  }
+
+  /**
+   * Changes the URL the remote that matches the given name pushes to, or makes
+   * it push to the URL it fetches from when the URL is null.
+   */
+  public setRemotePushURL(
+    repository: Repository,
+    name: string,
+    url: string | null
+  ): Promise<void> {
+    return this.appStore._setRemotePushURL(repository, name, url)
+  }
+
   /** Open the URL in a browser */
   public openInBrowser(url: string): Promise<boolean> {
     return this.appStore._openInBrowser(url)
@@ -1382,9 +1656,15 @@ export class Dispatcher {
 
   /**
    * Opens a path in the external editor selected by the user.
+   *
+   * @param position The position to move to when opening a file, for editors
+   *                 which support it.
    */
-  public async openInExternalEditor(fullPath: string): Promise<void> {
-    return this.appStore._openInExternalEditor(fullPath)
+  public async openInExternalEditor(
+    fullPath: string,
+    position?: IEditorPosition
+  ): Promise<void> {
+    return this.appStore._openInExternalEditor(fullPath, position)
   }
 
   /**
@@ -1824,29 +2104,34 @@ export class Dispatcher {
         break
 
       case 'open-repository-from-path':
-        // user may accidentally provide a folder within the repository
-        // this ensures we use the repository root, if it is actually a repository
-        // otherwise we consider it an untracked repository
-        const path = await getRepositoryType(action.path)
-          .then(t =>
-            t.kind === 'regular' ? t.topLevelWorkingDirectory : action.path
-          )
-          .catch(e => {
-            log.error('Could not determine repository type', e)
-            return action.path
-          })
-
-        const { repositories } = this.appStore.getState()
-        const existingRepository = matchExistingRepository(repositories, path)
+        const existingRepository = await this.openRepositoryFromPath(
+          action.path
+        )
 
-        if (existingRepository) {
-          await this.selectRepository(existingRepository)
+        if (existingRepository !== null) {
           this.statsStore.recordAddExistingRepository()
-        } else {
-          await this.showPopup({ type: PopupType.AddRepository, path })
         }
         break
 
+      case 'show-repository-status':
+        const repository = await this.openRepositoryFromPath(action.path)
+
+        if (repository !== null) {
+          await this.changeRepositorySection(
+            repository,
+            RepositorySectionTab.Changes
+          )
+        }
+        break
+
+      case 'compare-branch':
+        await this.compareBranchFromPath(action.path, action.branch)
+        break
+
+      case 'show-repository-list':
+        await this.showFoldout({ type: FoldoutType.Repository })
+        break
+
       default:
         const unknownAction: IUnknownAction = action
         log.warn(
@@ -1857,6 +2142,72 @@ export class Dispatcher {
     }
   }
 
+  /**
+   * Select the tracked repository at the given path, or offer to add it when
+   * Desktop doesn't track it yet.
+   *
+   * @returns the selected repository, or null if it isn't tracked
+   */
+  private async openRepositoryFromPath(
+    repositoryPath: string
+  ): Promise<Repository | null> {
+    // user may accidentally provide a folder within the repository
+    // this ensures we use the repository root, if it is actually a repository
+    // otherwise we consider it an untracked repository
+    const path = await getRepositoryType(repositoryPath)
+      .then(t =>
+        t.kind === 'regular' ? t.topLevelWorkingDirectory : repositoryPath
+      )
+      .catch(e => {
+        log.error('Could not determine repository type', e)
+        return repositoryPath
+      })
+
+    const { repositories } = this.appStore.getState()
+    const existingRepository = matchExistingRepository(repositories, path)
+
+    if (existingRepository === undefined) {
+      await this.showPopup({ type: PopupType.AddRepository, path })
+      return null
+    }
+
+    await this.selectRepository(existingRepository)
+    return existingRepository instanceof Repository ? existingRepository : null
+  }
+
+  /**
+   * Show the comparison between the current branch and the given branch in
+   * the History tab of the tracked repository at the given path.
+   */
+  private async compareBranchFromPath(path: string, branchName: string) {
+    const repository = await this.openRepositoryFromPath(path)
+
+    if (repository === null) {
+      return
+    }
+
+    // ensure the branches are up-to-date before looking for the branch
+    await this.appStore._refreshRepository(repository)
+
+    const { branchesState } = this.repositoryStateManager.get(repository)
+    const branch = branchesState.allBranches.find(b => b.name === branchName)
+
+    if (branch === undefined) {
+      this.postError(
+        new Error(`The branch '${branchName}' could not be found.`)
+      )
+      return
+    }
+
+    await this.changeRepositorySection(repository, RepositorySectionTab.History)
+    await this.executeCompare(repository, {
+      kind: HistoryTabMode.Compare,
+      comparisonMode: ComparisonMode.Behind,
+      branch,
+    })
+    this.updateCompareForm(repository, { filterText: branch.name })
+  }
+
   /**
    * Sets the user's preference so that moving the app to /Applications is not asked
    */
@@ -2087,6 +2438,12 @@ export class Dispatcher {
           retryAction.beforeCommit,
           retryAction.lastRetainedCommitRef
         )
+      case RetryActionType.InteractiveRebase:
+        return this.interactiveRebase(
+          retryAction.repository,
+          retryAction.todo,
+          retryAction.lastRetainedCommitRef
+        )
       case RetryActionType.DiscardChanges:
         return this.discardChanges(
           retryAction.repository,
@@ -2200,6 +2557,69 @@ export class Dispatcher {
     return this.appStore._createPullRequest(repository, baseBranch)
   }
 
+  /**
+   * Create a pull request from the current branch into the given base branch
+   * on GitHub, pushing the current branch first if needed, and show a banner
+   * linking to the created pull request.
+   *
+   * Returns whether the pull request was created, and throws if GitHub
+   * refuses to create it.
+   */
+  public submitPullRequest(
+    repository: Repository,
+    baseBranch: Branch,
+    details: IPullRequestDetails
+  ): Promise<boolean> {
+    return this.appStore._submitPullRequest(repository, baseBranch, details)
+  }
+
+  /**
+   * Fetch what's needed to tell whether a pull request can be merged: its
+   * mergeability, the protection rules of its base branch, its reviews and
+   * the checks of its head commit.
+   *
+   * Throws if the pull request can't be fetched from GitHub.
+   */
+  public fetchPullRequestMergeInfo(
+    repository: RepositoryWithGitHubRepository,
+    pullRequest: PullRequest
+  ): Promise<IPullRequestMergeInfo> {
+    return this.appStore._fetchPullRequestMergeInfo(repository, pullRequest)
+  }
+
+  /**
+   * Merge a pull request on GitHub, optionally deleting its head branch
+   * afterwards, and show a banner linking to the merged pull request.
+   *
+   * @param sha           The commit the head of the pull request must be at
+   *                      for it to be merged
+   * @param commitTitle   The title of the merge or squash commit, or
+   *                      undefined for GitHub's default
+   * @param commitMessage The description of the merge or squash commit, or
+   *                      undefined for GitHub's default
+   *
+   * Throws if GitHub refuses to merge the pull request.
+   */
+  public mergePullRequest(
+    repository: RepositoryWithGitHubRepository,
+    pullRequest: PullRequest,
+    sha: string,
+    method: APIPullRequestMergeMethod,
+    commitTitle: string | undefined,
+    commitMessage: string | undefined,
+    deleteHeadBranch: boolean
+  ): Promise<void> {
+    return this.appStore._mergePullRequest(
+      repository,
+      pullRequest,
+      sha,
+      method,
+      commitTitle,
+      commitMessage,
+      deleteHeadBranch
+    )
+  }
+
   /**
    * Show the current pull request on github.com
    */
@@ -2431,6 +2851,14 @@ export class Dispatcher {
     return this.statsStore.recordCompareInitiatedMerge()
   }
 
+  /**
+   * Set whether and for which branches the commit graph is shown in the
+   * History tab
+   */
+  public setCommitGraphMode(commitGraphMode: CommitGraphMode) {
+    return this.appStore._setCommitGraphMode(commitGraphMode)
+  }
+
   /**
    * Set the application-wide theme
    */
@@ -2673,6 +3101,34 @@ export class Dispatcher {
     return this.appStore._popStashEntry(repository, stashEntry)
   }
 
+  /**
+   * Stash the given files as a new stash entry, leaving the stash entry
+   * of the current branch alone.
+   *
+   * @param message The message for the entry, or null to let Git pick one
+   */
+  public createStash(
+    repository: Repository,
+    message: string | null,
+    files: ReadonlyArray<WorkingDirectoryFileChange>
+  ) {
+    return this.appStore._createStashEntry(repository, message, files)
+  }
+
+  /** Apply the given stash in the given repository without dropping it */
+  public applyStash(repository: Repository, stashEntry: IStashEntry) {
+    return this.appStore._applyStashEntry(repository, stashEntry)
+  }
+
+  /** Change the message of the given stash in the given repository */
+  public renameStash(
+    repository: Repository,
+    stashEntry: IStashEntry,
+    message: string
+  ) {
+    return this.appStore._renameStashEntry(repository, stashEntry, message)
+  }
+
   /**
    * Set the width of the commit summary column in the
    * history view to the given value.
@@ -2815,6 +3271,10 @@ export class Dispatcher {
     this.appStore._setCommitSpellcheckEnabled(commitSpellcheckEnabled)
   }
 
+  public setUseGitIndex(useGitIndex: boolean) {
+    this.appStore._setUseGitIndex(useGitIndex)
+  }
+
   public setUseWindowsOpenSSH(useWindowsOpenSSH: boolean) {
     this.appStore._setUseWindowsOpenSSH(useWindowsOpenSSH)
   }
@@ -3537,6 +3997,294 @@ export class Dispatcher {
     )
   }
 
+  /**
+   * Show the dialog to plan an interactive rebase of the given commits
+   *
+   * @param commits - the commits to rebase, ordered from newest to oldest as
+   * they appear in the history
+   * @param lastRetainedCommitRef - commit ref of commit before the commits to
+   * rebase or null if the oldest commit is the root (first in history) of the
+   * branch
+   */
+  public showInteractiveRebaseDialog(
+    repository: Repository,
+    commits: ReadonlyArray<Commit>,
+    lastRetainedCommitRef: string | null
+  ) {
+    const { tip } = this.repositoryStateManager.get(repository).branchesState
+
+    if (tip.kind !== TipState.Valid) {
+      log.info(
+        `[interactiveRebase] - invalid tip state - could not start interactive rebase.`
+      )
+      return
+    }
+
+    const oldestFirst = [...commits].reverse()
+
+    this.initializeMultiCommitOperation(
+      repository,
+      {
+        kind: MultiCommitOperationKind.InteractiveRebase,
+        lastRetainedCommitRef,
+        todo: [],
+        commits: oldestFirst,
+        currentTip: tip.branch.tip.sha,
+      },
+      tip.branch,
+      oldestFirst,
+      tip.branch.tip.sha
+    )
+
+    this.setMultiCommitOperationStep(repository, {
+      kind: MultiCommitOperationStepKind.EditRebaseTodo,
+    })
+
+    this.showPopup({
+      type: PopupType.MultiCommitOperation,
+      repository,
+    })
+  }
+
+  /**
+   * Starts an interactive rebase
+   *
+   * @param todo - the commits to rebase and the action to perform on each of
+   * them, ordered from oldest to newest
+   * @param lastRetainedCommitRef - commit ref of commit before the commits to
+   * rebase or null if the oldest commit is the root (first in history) of the
+   * branch
+   */
+  public async interactiveRebase(
+    repository: Repository,
+    todo: ReadonlyArray<RebaseTodoItem>,
+    lastRetainedCommitRef: string | null,
+    continueWithForcePush: boolean = false
+  ): Promise<void> {
+    const retry: RetryAction = {
+      type: RetryActionType.InteractiveRebase,
+      repository,
+      todo,
+      lastRetainedCommitRef,
+    }
+
+    if (this.appStore._checkForUncommittedChanges(repository, retry)) {
+      return
+    }
+
+    const stateBefore = this.repositoryStateManager.get(repository)
+    const { tip } = stateBefore.branchesState
+
+    if (tip.kind !== TipState.Valid) {
+      log.info(
+        `[interactiveRebase] - invalid tip state - could not perform interactive rebase.`
+      )
+      return
+    }
+
+    const commits = todo.map(i => i.commit)
+
+    this.initializeMultiCommitOperation(
+      repository,
+      {
+        kind: MultiCommitOperationKind.InteractiveRebase,
+        lastRetainedCommitRef,
+        todo,
+        commits,
+        currentTip: tip.branch.tip.sha,
+      },
+      tip.branch,
+      commits,
+      tip.branch.tip.sha
+    )
+
+    this.showPopup({
+      type: PopupType.MultiCommitOperation,
+      repository,
+    })
+
+    this.appStore._setMultiCommitOperationUndoState(repository, tip)
+
+    const { askForConfirmationOnForcePush } = this.appStore.getState()
+
+    if (askForConfirmationOnForcePush && !continueWithForcePush) {
+      const showWarning = await this.warnAboutRemoteCommits(
+        repository,
+        tip.branch,
+        lastRetainedCommitRef
+      )
+
+      if (showWarning) {
+        this.setMultiCommitOperationStep(repository, {
+          kind: MultiCommitOperationStepKind.WarnForcePush,
+          targetBranch: tip.branch,
+          baseBranch: tip.branch,
+          commits,
+        })
+        return
+      }
+    }
+
+    const result = await this.appStore._interactiveRebase(
+      repository,
+      todo,
+      lastRetainedCommitRef
+    )
+
+    this.logHowToRevertMultiCommitOperation(
+      MultiCommitOperationKind.InteractiveRebase,
+      tip
+    )
+
+    return this.processMultiCommitOperationRebaseResult(
+      MultiCommitOperationKind.InteractiveRebase,
+      repository,
+      result,
+      commits.length,
+      tip.branch.name,
+      `${MultiCommitOperationKind.InteractiveRebase.toLowerCase()} commit`
+    )
+  }
+
+  /**
+   * Continue an interactive rebase that stopped at a commit marked for
+   * editing, amending the commit with any tracked changes in the working
+   * directory.
+   */
+  public async continueInteractiveRebase(repository: Repository) {
+    const { changesState, multiCommitOperationState } =
+      this.repositoryStateManager.get(repository)
+    const { conflictState, workingDirectory } = changesState
+
+    if (
+      conflictState === null ||
+      !isRebaseConflictState(conflictState) ||
+      multiCommitOperationState === null
+    ) {
+      log.error(
+        '[continueInteractiveRebase] - no interactive rebase found to continue'
+      )
+      return
+    }
+
+    const { operationDetail } = multiCommitOperationState
+    if (operationDetail.kind !== MultiCommitOperationKind.InteractiveRebase) {
+      log.error(
+        `[continueInteractiveRebase] - unexpected multi commit operation ${operationDetail.kind}`
+      )
+      return
+    }
+
+    const { kind, commits } = operationDetail
+
+    this.clearBanner(BannerType.RebaseStoppedForEdit)
+    this.setMultiCommitOperationStep(repository, {
+      kind: MultiCommitOperationStepKind.ShowProgress,
+    })
+    this.showPopup({
+      type: PopupType.MultiCommitOperation,
+      repository,
+    })
+
+    const result = await this.continueRebase(
+      kind,
+      repository,
+      workingDirectory,
+      conflictState
+    )
+
+    return this.processMultiCommitOperationRebaseResult(
+      kind,
+      repository,
+      result,
+      commits.length,
+      conflictState.targetBranch,
+      `${kind.toLowerCase()} commit`
+    )
+  }
+
+  /**
+   * Continue the rebase in progress from the Changes tab, resuming the
+   * interactive rebase flow if it stopped at a commit marked for editing.
+   */
+  public async continueRebaseFromChanges(
+    repository: Repository,
+    workingDirectory: WorkingDirectoryStatus,
+    conflictsState: RebaseConflictState
+  ): Promise<void> {
+    const { multiCommitOperationState } =
+      this.repositoryStateManager.get(repository)
+
+    if (
+      multiCommitOperationState !== null &&
+      multiCommitOperationState.step.kind ===
+        MultiCommitOperationStepKind.StoppedForEdit
+    ) {
+      return this.continueInteractiveRebase(repository)
+    }
+
+    await this.continueRebase(
+      MultiCommitOperationKind.Rebase,
+      repository,
+      workingDirectory,
+      conflictsState
+    )
+  }
+
+  /**
+   * Moves the interactive rebase to the stopped for edit step, and shows a
+   * banner so the user can continue once they have amended the commit from
+   * the Changes tab.
+   */
+  private async stopMultiCommitOperationForEdit(
+    repository: Repository,
+    targetBranch: string
+  ): Promise<void> {
+    const { multiCommitOperationState } =
+      this.repositoryStateManager.get(repository)
+    const stoppedSha = await readRebaseHead(repository)
+
+    if (multiCommitOperationState === null || stoppedSha === null) {
+      log.error(
+        '[stopMultiCommitOperationForEdit] - unable to find the commit the rebase stopped at'
+      )
+      this.endMultiCommitOperation(repository)
+      this.closePopup(PopupType.MultiCommitOperation)
+      return
+    }
+
+    const { operationDetail } = multiCommitOperationState
+    const commits: ReadonlyArray<CommitOneLine> =
+      'commits' in operationDetail ? operationDetail.commits : []
+    const commit =
+      commits.find(c => c.sha === stoppedSha) ??
+      (await getCommit(repository, stoppedSha))
+
+    // The step needs to be set before loading the status, otherwise the
+    // stopped rebase would be treated as having conflicts to resolve.
+    this.setMultiCommitOperationStep(repository, {
+      kind: MultiCommitOperationStepKind.StoppedForEdit,
+      commit: commit ?? { sha: stoppedSha, summary: stoppedSha.slice(0, 7) },
+    })
+
+    await this.appStore._loadStatus(repository)
+    this.closePopup(PopupType.MultiCommitOperation)
+    await this.changeRepositorySection(repository, RepositorySectionTab.Changes)
+
+    this.setBanner({
+      type: BannerType.RebaseStoppedForEdit,
+      targetBranch,
+      commitSummary: commit?.summary ?? stoppedSha.slice(0, 7),
+      onContinue: () => this.continueInteractiveRebase(repository),
+      onAbort: async () => {
+        this.endMultiCommitOperation(repository)
+        await this.abortRebase(repository)
+      },
+    })
+
+    await this.refreshRepository(repository)
+  }
+
   public initializeMultiCommitOperation(
     repository: Repository,
     operationDetail: MultiCommitOperationDetail,
@@ -3573,7 +4321,9 @@ export class Dispatcher {
    * Processes the multi commit operation result
    *  1. Completes the operation with banner if successful.
    *  2. Moves operation flow to conflicts handler.
-   *  3. Handles errors.
+   *  3. Stops the operation for the user to amend a commit marked for editing.
+   *  4. Aborts the rebase when a command in its todo list failed.
+   *  5. Handles errors.
    *
    * @param totalNumberOfCommits  Total number of commits involved in the
    *                              operation. For example, if you squash one
@@ -3588,6 +4338,24 @@ export class Dispatcher {
     ourBranch: string,
     theirBranch: string
   ): Promise<void> {
+    if (result === RebaseResult.StoppedForEdit) {
+      return this.stopMultiCommitOperationForEdit(repository, ourBranch)
+    }
+
+    // Git stops in the middle of the todo list when one of its commands
+    // fails, there's nothing for the user to resolve so we put the branch back
+    // the way it was rather than leaving the repository mid-rebase.
+    if (result === RebaseResult.CommandFailed) {
+      await this.abortRebase(repository)
+      this.endMultiCommitOperation(repository)
+      this.appStore._closePopup()
+      return this.postError(
+        new Error(
+          `Rewording a commit on ${ourBranch} failed, so the rebase has been aborted and the branch left unchanged.`
+        )
+      )
+    }
+
     // This will update the conflict state of the app. This is needed to start
     // conflict flow if squash results in conflict.
     const status = await this.appStore._loadStatus(repository)
@@ -3756,6 +4524,12 @@ export class Dispatcher {
           baseBranch: sourceBranch !== null ? sourceBranch.name : undefined,
         }
         break
+      case MultiCommitOperationKind.InteractiveRebase:
+        banner = {
+          type: BannerType.SuccessfulRebase,
+          targetBranch: targetBranch !== null ? targetBranch.name : '',
+        }
+        break
       case MultiCommitOperationKind.Merge:
         throw new Error(`Unexpected multi commit operation kind ${kind}`)
       default:
@@ -0,0 +1,86 @@
+import * as React from 'react'
+import { ICommitGraphLine, ICommitGraphRow } from '../../lib/commit-graph'
+
+/** The width of a single lane in the commit graph, in pixels */
+const LaneWidth = 14
+
+/** The radius of the commit node, in pixels */
+const NodeRadius = 4
+
+interface ICommitGraphRowProps {
+  /** The part of the graph to render alongside the commit */
+  readonly row: ICommitGraphRow
+
+  /**
+   * The number of lanes in the whole graph, used to keep the column the same
+   * width for all commits
+   */
+  readonly laneCount: number
+
+  /** The height of the row, in pixels */
+  readonly height: number
+
+  /** Whether the commit is a merge commit */
+  readonly isMergeCommit: boolean
+}
+
+/** Get the horizontal center of a lane */
+function getLaneX(lane: number) {
+  return lane * LaneWidth + LaneWidth / 2
+}
+
+/**
+ * Get the SVG path of a line between two lanes and two vertical positions,
+ * curving between lanes so that branches and merges can be followed.
+ */
+function getLinePath(line: ICommitGraphLine, y1: number, y2: number) {
+  const x1 = getLaneX(line.from)
+  const x2 = getLaneX(line.to)
+
+  if (x1 === x2) {
+    return `M ${x1} ${y1} L ${x2} ${y2}`
+  }
+
+  const middle = (y1 + y2) / 2
+  return `M ${x1} ${y1} C ${x1} ${middle}, ${x2} ${middle}, ${x2} ${y2}`
+}
+
+/** The commit graph lines and node shown next to a commit in the history */
+export class CommitGraphRow extends React.Component<ICommitGraphRowProps> {
+  public render() {
+    const { row, laneCount, height, isMergeCommit } = this.props
+    const middle = height / 2
+    const width = laneCount * LaneWidth
+
+    return (
+      <svg
+        className="commit-graph"
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+        aria-hidden="true"
+      >
+        {row.topLines.map((line, i) => (
+          <path
+            key={`top-${i}`}
+            className={`commit-graph-line lane-color-${line.color}`}
+            d={getLinePath(line, 0, middle)}
+          />
+        ))}
+        {row.bottomLines.map((line, i) => (
+          <path
+            key={`bottom-${i}`}
+            className={`commit-graph-line lane-color-${line.color}`}
+            d={getLinePath(line, middle, height)}
+          />
+        ))}
+        <circle
+          className={`commit-graph-node lane-color-${row.color}`}
+          cx={getLaneX(row.lane)}
+          cy={middle}
+          r={isMergeCommit ? NodeRadius - 1 : NodeRadius}
+        />
+      </svg>
+    )
+  }
+}
@@ -1,6 +1,10 @@
 /* eslint-disable jsx-a11y/no-static-element-interactions */
 import * as React from 'react'
-import { Commit, CommitOneLine } from '../../models/commit'
+import {
+  Commit,
+  CommitOneLine,
+  CommitSignatureStatus,
+} from '../../models/commit'
 import { GitHubRepository } from '../../models/github-repository'
 import { IAvatarUser, getAvatarUsersForCommit } from '../../models/avatar'
 import { RichText } from '../lib/rich-text'
@@ -10,6 +14,7 @@ import { clipboard } from 'electron'
 import { showContextualMenu } from '../../lib/menu-item'
 import { CommitAttribution } from '../lib/commit-attribution'
 import { AvatarStack } from '../lib/avatar-stack'
+import { CommitSignatureBadge } from '../lib/commit-signature-badge'
 import { IMenuItem } from '../../lib/menu-item'
 import { Octicon } from '../octicons'
 import * as OcticonSymbol from '../octicons/octicons.generated'
@@ -26,6 +31,10 @@ import classNames from 'classnames'
 interface ICommitProps {
   readonly gitHubRepository: GitHubRepository | null
   readonly commit: Commit
+  /** The status of the commit's signature, if it has been loaded */
+  readonly signatureStatus?: CommitSignatureStatus
+  /** The commit graph lines and node to show next to the commit, if any */
+  readonly graph?: JSX.Element | null
   readonly selectedCommits: ReadonlyArray<Commit>
   readonly emoji: Map<string, string>
   readonly isLocal: boolean
@@ -48,6 +57,7 @@ interface ICommitProps {
     squashOnto: Commit,
     isInvokedByContextMenu: boolean
   ) => void
+  readonly onInteractiveRebase?: (commit: Commit) => void
   readonly showUnpushedIndicator: boolean
   readonly unpushedIndicatorTitle?: string
   readonly unpushedTags?: ReadonlyArray<string>
@@ -156,6 +166,7 @@ export class CommitListItem extends React.PureComponent<
           onMouseLeave={this.onMouseLeave}
           onMouseUp={this.onMouseUp}
         >
+          {this.props.graph}
           <div className="info">
             <RichText
               className={summaryClassNames}
@@ -183,11 +194,20 @@ export class CommitListItem extends React.PureComponent<
   private renderCommitIndicators() {
     const tagIndicator = renderCommitListItemTags(this.props.commit.tags)
     const unpushedIndicator = this.renderUnpushedIndicator()
+    const { signatureStatus = CommitSignatureStatus.None } = this.props
 
-    if (tagIndicator || unpushedIndicator) {
+    if (
+      tagIndicator ||
+      unpushedIndicator ||
+      signatureStatus !== CommitSignatureStatus.None
+    ) {
       return (
         <div className="commit-indicators">
           {tagIndicator}
+          <CommitSignatureBadge
+            signatureStatus={signatureStatus}
+            iconOnly={true}
+          />
           {unpushedIndicator}
         </div>
       )
@@ -247,6 +267,10 @@ export class CommitListItem extends React.PureComponent<
     }
   }
 
+  private onInteractiveRebase = () => {
+    this.props.onInteractiveRebase?.(this.props.commit)
+  }
+
   private onContextMenu = (event: React.MouseEvent<any>) => {
     event.preventDefault()
 
@@ -305,6 +329,14 @@ export class CommitListItem extends React.PureComponent<
       })
     }
 
+    items.push({
+      label: __DARWIN__
+        ? 'Interactive Rebase from Here…'
+        : 'Interactive rebase from here…',
+      action: this.onInteractiveRebase,
+      enabled: this.canInteractivelyRebase(),
+    })
+
     items.push(
       {
         label: __DARWIN__
@@ -412,6 +444,14 @@ export class CommitListItem extends React.PureComponent<
     )
   }
 
+  private canInteractivelyRebase(): boolean {
+    const { onInteractiveRebase, isMultiCommitOperationInProgress } = this.props
+    return (
+      onInteractiveRebase !== undefined &&
+      isMultiCommitOperationInProgress === false
+    )
+  }
+
   private canSquash(): boolean {
     const { onSquash, disableSquashing, isMultiCommitOperationInProgress } =
       this.props
@@ -1,12 +1,18 @@
 import * as React from 'react'
 import memoize from 'memoize-one'
 import { GitHubRepository } from '../../models/github-repository'
-import { Commit, CommitOneLine } from '../../models/commit'
+import {
+  Commit,
+  CommitOneLine,
+  CommitSignatureStatus,
+} from '../../models/commit'
 import { CommitListItem } from './commit-list-item'
 import { List } from '../lib/list'
 import { arrayEquals } from '../../lib/equality'
 import { DragData, DragType } from '../../models/drag-drop'
 import classNames from 'classnames'
+import { computeCommitGraph, ICommitGraph } from '../../lib/commit-graph'
+import { CommitGraphRow } from './commit-graph-row'
 
 const RowHeight = 50
 
@@ -20,6 +26,9 @@ interface ICommitListProps {
   /** The commits loaded, keyed by their full SHA. */
   readonly commitLookup: Map<string, Commit>
 
+  /** The status of the signatures of the commits, keyed by their full SHA. */
+  readonly commitSignatureStatuses?: ReadonlyMap<string, CommitSignatureStatus>
+
   /** The SHAs of the selected commits */
   readonly selectedSHAs: ReadonlyArray<string>
 
@@ -50,6 +59,12 @@ interface ICommitListProps {
   /** Callback that fires when a scroll event has occurred */
   readonly onScroll?: (start: number, end: number) => void
 
+  /**
+   * Callback that fires with the SHAs of the commits in view whenever they
+   * change, e.g. to load the status of their signatures.
+   */
+  readonly onVisibleCommitsChanged?: (shas: ReadonlyArray<string>) => void
+
   /** Callback to fire to undo a given commit in the current repository */
   readonly onUndoCommit?: (commit: Commit) => void
 
@@ -101,6 +116,15 @@ interface ICommitListProps {
     isInvokedByContextMenu: boolean
   ) => void
 
+  /**
+   * Callback to fire to interactively rebase the commits from a given commit
+   * up to the most recent one
+   */
+  readonly onInteractiveRebase?: (
+    commits: ReadonlyArray<Commit>,
+    lastRetainedCommitRef: string | null
+  ) => void
+
   /**
    * Optional callback that fires on page scroll in order to allow passing
    * a new scrollTop value up to the parent component for storing.
@@ -137,12 +161,31 @@ interface ICommitListProps {
 
   /** Shas that should be highlighted */
   readonly shasToHighlight?: ReadonlyArray<string>
+
+  /** Whether to show the graph of the commits next to them */
+  readonly showCommitGraph?: boolean
 }
 
 /** A component which displays the list of commits. */
 export class CommitList extends React.Component<ICommitListProps, {}> {
   private commitsHash = memoize(makeCommitsHash, arrayEquals)
 
+  /** The rows in view, as of the last scroll event */
+  private visibleRows = { top: 0, bottom: 0 }
+
+  private getCommitGraph = memoize(
+    (
+      commitSHAs: ReadonlyArray<string>,
+      commitLookup: Map<string, Commit>
+    ): ICommitGraph =>
+      computeCommitGraph(
+        commitSHAs.map(sha => ({
+          sha,
+          parentSHAs: commitLookup.get(sha)?.parentSHAs ?? [],
+        }))
+      )
+  )
+
   private getVisibleCommits(): ReadonlyArray<Commit> {
     const commits = new Array<Commit>()
     for (const sha of this.props.commitSHAs) {
@@ -202,12 +245,19 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
         )}
         unpushedTags={unpushedTags}
         commit={commit}
+        signatureStatus={this.props.commitSignatureStatuses?.get(commit.sha)}
+        graph={this.renderCommitGraph(row, commit)}
         emoji={this.props.emoji}
         onCreateBranch={this.props.onCreateBranch}
         onCreateTag={this.props.onCreateTag}
         onDeleteTag={this.props.onDeleteTag}
         onCherryPick={this.props.onCherryPick}
         onSquash={this.onSquash}
+        onInteractiveRebase={
+          this.props.onInteractiveRebase !== undefined
+            ? this.onInteractiveRebase
+            : undefined
+        }
         onResetToCommit={this.props.onResetToCommit}
         onUndoCommit={this.props.onUndoCommit}
         onRevertCommit={this.props.onRevertCommit}
@@ -224,6 +274,28 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
     )
   }
 
+  private renderCommitGraph(row: number, commit: Commit) {
+    const { showCommitGraph, commitSHAs, commitLookup } = this.props
+    if (showCommitGraph !== true) {
+      return null
+    }
+
+    const graph = this.getCommitGraph(commitSHAs, commitLookup)
+    const graphRow = graph.rows[row]
+    if (graphRow === undefined) {
+      return null
+    }
+
+    return (
+      <CommitGraphRow
+        row={graphRow}
+        laneCount={graph.laneCount}
+        height={RowHeight}
+        isMergeCommit={commit.isMergeCommit}
+      />
+    )
+  }
+
   private getLastRetainedCommitRef(indexes: ReadonlyArray<number>) {
     const maxIndex = Math.max(...indexes)
     const lastIndex = this.props.commitSHAs.length - 1
@@ -250,6 +322,21 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
     )
   }
 
+  private onInteractiveRebase = (commit: Commit) => {
+    const index = this.props.commitSHAs.findIndex(sha => sha === commit.sha)
+    if (index === -1) {
+      return
+    }
+
+    const commits = this.lookupCommits(
+      this.props.commitSHAs.slice(0, index + 1)
+    )
+    this.props.onInteractiveRebase?.(
+      commits,
+      this.getLastRetainedCommitRef([index])
+    )
+  }
+
   private onRenderCommitDragElement = (commit: Commit) => {
     this.props.onRenderCommitDragElement?.(
       commit,
@@ -340,10 +427,22 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
     const bottom = top + numberOfRows
     this.props.onScroll?.(top, bottom)
 
+    if (top !== this.visibleRows.top || bottom !== this.visibleRows.bottom) {
+      this.visibleRows = { top, bottom }
+      this.onVisibleCommitsChanged()
+    }
+
     // Pass new scroll value so the scroll position will be remembered (if the callback has been supplied).
     this.props.onCompareListScrolled?.(scrollTop)
   }
 
+  private onVisibleCommitsChanged() {
+    const { top, bottom } = this.visibleRows
+    this.props.onVisibleCommitsChanged?.(
+      this.props.commitSHAs.slice(top, bottom + 1)
+    )
+  }
+
   private rowForSHA(sha_: string | null): number {
     const sha = sha_
     if (!sha) {
@@ -372,6 +471,13 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
     return rowClassMap
   }
 
+  public componentDidUpdate(prevProps: ICommitListProps) {
+    // Commits can come into view without scrolling, e.g. after committing
+    if (prevProps.commitSHAs !== this.props.commitSHAs) {
+      this.onVisibleCommitsChanged()
+    }
+  }
+
   public render() {
     const {
       commitSHAs,
@@ -392,6 +498,7 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
     const classes = classNames({
       'has-highlighted-commits':
         shasToHighlight !== undefined && shasToHighlight.length > 0,
+      'has-commit-graph': this.props.showCommitGraph === true,
     })
 
     return (
@@ -416,8 +523,10 @@ export class CommitList extends React.Component<ICommitListProps, {}> {
             commits: this.props.commitSHAs,
             localCommitSHAs: this.props.localCommitSHAs,
             commitLookupHash: this.commitsHash(this.getVisibleCommits()),
+            commitSignatureStatuses: this.props.commitSignatureStatuses,
             tagsToPush: this.props.tagsToPush,
             shasToHighlight: this.props.shasToHighlight,
+            showCommitGraph: this.props.showCommitGraph,
           }}
           setScrollTop={this.props.compareListScrollTop}
           rowCustomClassNameMap={this.getRowCustomClassMap()}
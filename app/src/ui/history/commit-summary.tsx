@@ -5,7 +5,7 @@ import { Octicon } from '../octicons'
 import * as OcticonSymbol from '../octicons/octicons.generated'
 import { RichText } from '../lib/rich-text'
 import { Repository } from '../../models/repository'
-import { Commit } from '../../models/commit'
+import { Commit, CommitSignatureStatus } from '../../models/commit'
 import { getAvatarUsersForCommit, IAvatarUser } from '../../models/avatar'
 import { AvatarStack } from '../lib/avatar-stack'
 import { CommitAttribution } from '../lib/commit-attribution'
@@ -19,6 +19,7 @@ import _ from 'lodash'
 import { LinkButton } from '../lib/link-button'
 import { UnreachableCommitsTab } from './unreachable-commits-dialog'
 import { TooltippedCommitSHA } from '../lib/tooltipped-commit-sha'
+import { CommitSignatureBadge } from '../lib/commit-signature-badge'
 
 interface ICommitSummaryProps {
   readonly repository: Repository
@@ -27,6 +28,12 @@ interface ICommitSummaryProps {
   readonly changesetData: IChangesetData
   readonly emoji: Map<string, string>
 
+  /**
+   * The status of the signature of the selected commit, if a single commit is
+   * selected and its status has been loaded
+   */
+  readonly signatureStatus?: CommitSignatureStatus
+
   /**
    * Whether or not the commit body container should
    * be rendered expanded or not. In expanded mode the
@@ -438,6 +445,26 @@ export class CommitSummary extends React.Component<
     )
   }
 
+  private renderSignature = () => {
+    const { selectedCommits, signatureStatus } = this.props
+    if (
+      selectedCommits.length > 1 ||
+      signatureStatus === undefined ||
+      signatureStatus === CommitSignatureStatus.None
+    ) {
+      return
+    }
+
+    return (
+      <li
+        className="commit-summary-meta-item without-truncation"
+        aria-label="Signature"
+      >
+        <CommitSignatureBadge signatureStatus={signatureStatus} />
+      </li>
+    )
+  }
+
   private renderSummary = () => {
     const { selectedCommits, shasInDiff } = this.props
     const { summary, hasEmptySummary } = this.state
@@ -498,6 +525,7 @@ export class CommitSummary extends React.Component<
           <ul className="commit-summary-meta">
             {this.renderAuthors()}
             {this.renderCommitRef()}
+            {this.renderSignature()}
             {this.renderChangedFilesDescription()}
             {this.renderLinesChanged()}
             {this.renderTags()}
@@ -4,6 +4,8 @@ import { CommittedFileChange } from '../../models/status'
 import { mapStatus } from '../../lib/status'
 import { PathLabel } from '../lib/path-label'
 import { Octicon, iconForStatus } from '../octicons'
+import { ILFSLock } from '../../models/lfs-lock'
+import { LFSLockBadge, LFSLockBadgeWidth } from '../lfs'
 
 interface ICommittedFileItemProps {
   readonly availableWidth: number
@@ -12,6 +14,9 @@ interface ICommittedFileItemProps {
     file: CommittedFileChange,
     event: React.MouseEvent<HTMLDivElement>
   ) => void
+
+  /** The Git LFS lock on the file, if any */
+  readonly lock?: ILFSLock
 }
 
 export class CommittedFileItem extends React.Component<ICommittedFileItemProps> {
@@ -22,7 +27,7 @@ export class CommittedFileItem extends React.Component<ICommittedFileItemProps>
   }
 
   public render() {
-    const { file } = this.props
+    const { file, lock } = this.props
     const status = file.status
     const fileStatus = mapStatus(status)
 
@@ -33,7 +38,8 @@ export class CommittedFileItem extends React.Component<ICommittedFileItemProps>
       this.props.availableWidth -
       listItemPadding -
       filePathPadding -
-      statusWidth
+      statusWidth -
+      (lock !== undefined ? LFSLockBadgeWidth : 0)
 
     return (
       <div className="file" onContextMenu={this.onContextMenu}>
@@ -43,6 +49,8 @@ export class CommittedFileItem extends React.Component<ICommittedFileItemProps>
           availableWidth={availablePathWidth}
         />
 
+        {lock !== undefined && <LFSLockBadge lock={lock} />}
+
         <Octicon
           symbol={iconForStatus(status)}
           className={'status status-' + fileStatus.toLowerCase()}
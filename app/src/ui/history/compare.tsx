@@ -1,6 +1,11 @@
 import * as React from 'react'
 
-import { Commit, CommitOneLine, ICommitContext } from '../../models/commit'
+import {
+  Commit,
+  CommitOneLine,
+  CommitSignatureStatus,
+  ICommitContext,
+} from '../../models/commit'
 import {
   HistoryTabMode,
   ICompareState,
@@ -30,6 +35,7 @@ import { PopupType } from '../../models/popup'
 import { getUniqueCoauthorsAsAuthors } from '../../lib/unique-coauthors-as-authors'
 import { getSquashedCommitDescription } from '../../lib/squash/squashed-commit-description'
 import { doMergeCommitsExistAfterCommit } from '../../lib/git'
+import { CommitGraphMode } from '../../models/commit-graph'
 
 interface ICompareSidebarProps {
   readonly repository: Repository
@@ -37,6 +43,7 @@ interface ICompareSidebarProps {
   readonly compareState: ICompareState
   readonly emoji: Map<string, string>
   readonly commitLookup: Map<string, Commit>
+  readonly commitSignatureStatuses: ReadonlyMap<string, CommitSignatureStatus>
   readonly localCommitSHAs: ReadonlyArray<string>
   readonly dispatcher: Dispatcher
   readonly currentBranch: Branch | null
@@ -201,7 +208,13 @@ export class CompareSidebar extends React.Component<
   }
 
   private renderCommitList() {
-    const { formState, commitSHAs } = this.props.compareState
+    const { formState, commitSHAs, commitGraphMode } = this.props.compareState
+    const isHistory = formState.kind === HistoryTabMode.History
+
+    // The history of all branches includes commits that are not part of the
+    // current branch, which can't be rewritten from the history.
+    const canRewriteHistory =
+      isHistory && commitGraphMode !== CommitGraphMode.AllBranches
 
     let emptyListMessage: string | JSX.Element
     if (formState.kind === HistoryTabMode.History) {
@@ -228,15 +241,19 @@ export class CompareSidebar extends React.Component<
         gitHubRepository={this.props.repository.gitHubRepository}
         isLocalRepository={this.props.isLocalRepository}
         commitLookup={this.props.commitLookup}
+        commitSignatureStatuses={this.props.commitSignatureStatuses}
         commitSHAs={commitSHAs}
         selectedSHAs={this.props.selectedCommitShas}
         shasToHighlight={this.props.shasToHighlight}
+        showCommitGraph={
+          isHistory && commitGraphMode !== CommitGraphMode.Hidden
+        }
         localCommitSHAs={this.props.localCommitSHAs}
-        canResetToCommits={formState.kind === HistoryTabMode.History}
-        canUndoCommits={formState.kind === HistoryTabMode.History}
-        canAmendCommits={formState.kind === HistoryTabMode.History}
+        canResetToCommits={canRewriteHistory}
+        canUndoCommits={canRewriteHistory}
+        canAmendCommits={canRewriteHistory}
         emoji={this.props.emoji}
-        reorderingEnabled={formState.kind === HistoryTabMode.History}
+        reorderingEnabled={canRewriteHistory}
         onViewCommitOnGitHub={this.props.onViewCommitOnGitHub}
         onUndoCommit={this.onUndoCommit}
         onResetToCommit={this.onResetToCommit}
@@ -248,19 +265,23 @@ export class CompareSidebar extends React.Component<
         onAmendCommit={this.props.onAmendCommit}
         onCommitsSelected={this.onCommitsSelected}
         onScroll={this.onScroll}
+        onVisibleCommitsChanged={this.onVisibleCommitsChanged}
         onCreateBranch={this.onCreateBranch}
         onCreateTag={this.onCreateTag}
         onDeleteTag={this.onDeleteTag}
         onCherryPick={this.onCherryPick}
         onDropCommitInsertion={this.onDropCommitInsertion}
         onSquash={this.onSquash}
+        onInteractiveRebase={
+          canRewriteHistory ? this.onInteractiveRebase : undefined
+        }
         emptyListMessage={emptyListMessage}
         onCompareListScrolled={this.props.onCompareListScrolled}
         compareListScrollTop={this.props.compareListScrollTop}
         tagsToPush={this.props.tagsToPush ?? []}
         onRenderCommitDragElement={this.onRenderCommitDragElement}
         onRemoveCommitDragElement={this.onRemoveCommitDragElement}
-        disableSquashing={formState.kind === HistoryTabMode.Compare}
+        disableSquashing={!canRewriteHistory}
         isMultiCommitOperationInProgress={
           this.props.isMultiCommitOperationInProgress
         }
@@ -478,6 +499,13 @@ export class CompareSidebar extends React.Component<
     })
   }
 
+  private onVisibleCommitsChanged = (shas: ReadonlyArray<string>) => {
+    this.props.dispatcher.loadCommitSignatureStatuses(
+      this.props.repository,
+      shas
+    )
+  }
+
   private onScroll = (start: number, end: number) => {
     const compareState = this.props.compareState
     const formState = compareState.formState
@@ -660,6 +688,32 @@ export class CompareSidebar extends React.Component<
       },
     })
   }
+
+  private onInteractiveRebase = async (
+    commits: ReadonlyArray<Commit>,
+    lastRetainedCommitRef: string | null
+  ) => {
+    if (
+      await doMergeCommitsExistAfterCommit(
+        this.props.repository,
+        lastRetainedCommitRef
+      )
+    ) {
+      defaultErrorHandler(
+        new Error(
+          `Unable to rebase. Interactive rebase replays all commits after the one it starts from. A merge commit cannot exist among those commits.`
+        ),
+        this.props.dispatcher
+      )
+      return
+    }
+
+    this.props.dispatcher.showInteractiveRebaseDialog(
+      this.props.repository,
+      commits,
+      lastRetainedCommitRef
+    )
+  }
 }
 
 function getPlaceholderText(state: ICompareState) {
@@ -0,0 +1,313 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { AppFileStatusKind } from '../../models/status'
+import { IDiff, ImageDiffType } from '../../models/diff'
+import { IBlameLine } from '../../models/blame'
+import { List, SelectionSource } from '../lib/list'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { RelativeTime } from '../relative-time'
+import { SeamlessDiffSwitcher } from '../diff/seamless-diff-switcher'
+import { openFile } from '../lib/open-file'
+import {
+  getBlame,
+  getCommitDiff,
+  getFileHistory,
+  IFileHistoryEntry,
+} from '../../lib/git'
+
+const RowHeight = 50
+
+/** The number of commits to load at a time */
+const FileHistoryBatchSize = 100
+
+/** If we're within this many rows from the bottom, load the next batch. */
+const CloseToBottomThreshold = 10
+
+interface IFileHistoryDialogProps {
+  readonly repository: Repository
+  readonly dispatcher: Dispatcher
+
+  /** The current path of the file, relative to the repository root */
+  readonly path: string
+
+  readonly imageDiffType: ImageDiffType
+
+  readonly onDismissed: () => void
+}
+
+interface IFileHistoryDialogState {
+  /** The commits that changed the file, or null while loading */
+  readonly entries: ReadonlyArray<IFileHistoryEntry> | null
+
+  /** Whether all the commits that changed the file have been loaded */
+  readonly hasLoadedAllEntries: boolean
+
+  readonly selectedSha: string | null
+  readonly diff: IDiff | null
+
+  /** The blame of the file in the selected commit, or null while loading */
+  readonly blame: ReadonlyArray<IBlameLine> | null
+
+  /** Whether to show the commit that last changed each line */
+  readonly showBlame: boolean
+}
+
+/**
+ * Dialog listing the commits that changed a single file, following the file
+ * across renames, with the changes made to the file in the selected commit.
+ */
+export class FileHistoryDialog extends React.Component<
+  IFileHistoryDialogProps,
+  IFileHistoryDialogState
+> {
+  private loadingEntries = false
+
+  public constructor(props: IFileHistoryDialogProps) {
+    super(props)
+
+    this.state = {
+      entries: null,
+      hasLoadedAllEntries: false,
+      selectedSha: null,
+      diff: null,
+      blame: null,
+      showBlame: true,
+    }
+  }
+
+  public async componentDidMount() {
+    await this.loadNextEntries()
+
+    const { entries } = this.state
+    if (entries !== null && entries.length > 0) {
+      this.selectEntry(entries[0])
+    }
+  }
+
+  private async loadNextEntries() {
+    const { repository, path } = this.props
+    const { entries, hasLoadedAllEntries } = this.state
+
+    if (this.loadingEntries || hasLoadedAllEntries) {
+      return
+    }
+
+    this.loadingEntries = true
+
+    try {
+      const existing = entries ?? []
+      const next = await getFileHistory(
+        repository,
+        path,
+        FileHistoryBatchSize,
+        existing.length
+      )
+
+      this.setState({
+        entries: [...existing, ...next],
+        hasLoadedAllEntries: next.length < FileHistoryBatchSize,
+      })
+    } catch (e) {
+      log.error(`Could not load history for ${path}`, e)
+      this.setState({ entries: entries ?? [], hasLoadedAllEntries: true })
+    } finally {
+      this.loadingEntries = false
+    }
+  }
+
+  private getSelectedEntry() {
+    const { entries, selectedSha } = this.state
+    return entries?.find(e => e.commit.sha === selectedSha) ?? null
+  }
+
+  private async selectEntry(entry: IFileHistoryEntry) {
+    const { repository } = this.props
+    const { commit, file } = entry
+
+    this.setState({ selectedSha: commit.sha, diff: null, blame: null })
+
+    let diff: IDiff | null = null
+    try {
+      diff = await getCommitDiff(repository, file, commit.sha)
+    } catch (e) {
+      log.error(`Could not load diff for ${file.path}`, e)
+    }
+
+    if (this.state.selectedSha === commit.sha) {
+      this.setState({ diff })
+    }
+
+    // There's nothing to blame when the file was deleted in the commit
+    if (file.status.kind === AppFileStatusKind.Deleted) {
+      return
+    }
+
+    let blame: ReadonlyArray<IBlameLine> | null = null
+    try {
+      blame = await getBlame(repository, file.path, commit.sha)
+    } catch (e) {
+      log.error(`Could not load blame for ${file.path}`, e)
+    }
+
+    if (this.state.selectedSha === commit.sha) {
+      this.setState({ blame })
+    }
+  }
+
+  public render() {
+    return (
+      <Dialog
+        id="file-history"
+        title={__DARWIN__ ? 'File History' : 'File history'}
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <div className="file-history-header">
+            <h3 title={this.props.path}>{this.props.path}</h3>
+            <Checkbox
+              label={__DARWIN__ ? 'Show Blame' : 'Show blame'}
+              value={
+                this.state.showBlame ? CheckboxValue.On : CheckboxValue.Off
+              }
+              onChange={this.onShowBlameChanged}
+            />
+          </div>
+          <div className="file-history-container">
+            {this.renderEntries()}
+            {this.renderDiff()}
+          </div>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText="Close"
+            cancelButtonVisible={false}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderEntries() {
+    const { entries, selectedSha } = this.state
+
+    if (entries === null) {
+      return <div className="file-history-entries empty">Loading history…</div>
+    }
+
+    if (entries.length === 0) {
+      return <div className="file-history-entries empty">No history</div>
+    }
+
+    const selectedRow = entries.findIndex(e => e.commit.sha === selectedSha)
+
+    return (
+      <div className="file-history-entries">
+        <List
+          rowCount={entries.length}
+          rowHeight={RowHeight}
+          rowRenderer={this.renderEntry}
+          selectedRows={selectedRow === -1 ? [] : [selectedRow]}
+          onSelectedRowChanged={this.onSelectedRowChanged}
+          onScroll={this.onScroll}
+          invalidationProps={entries}
+        />
+      </div>
+    )
+  }
+
+  private renderEntry = (row: number) => {
+    const entries = this.state.entries ?? []
+    const { commit, file } = entries[row]
+    const summary =
+      commit.summary.length > 0 ? commit.summary : 'Empty commit message'
+
+    return (
+      <div className="file-history-entry">
+        <div className="summary" title={summary}>
+          {summary}
+        </div>
+        <div className="description">
+          {commit.author.name}
+          {` • `}
+          <RelativeTime date={commit.author.date} abbreviate={true} />
+          {file.path !== this.props.path && (
+            <span className="path" title={file.path}>
+              {` • ${file.path}`}
+            </span>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  private onSelectedRowChanged = (row: number, source: SelectionSource) => {
+    const entry = this.state.entries?.[row]
+    if (entry !== undefined) {
+      this.selectEntry(entry)
+    }
+  }
+
+  private onScroll = (scrollTop: number, clientHeight: number) => {
+    const entries = this.state.entries ?? []
+    const bottom = Math.floor((scrollTop + clientHeight) / RowHeight)
+
+    if (bottom > entries.length - CloseToBottomThreshold) {
+      this.loadNextEntries()
+    }
+  }
+
+  private renderDiff() {
+    const entry = this.getSelectedEntry()
+    const { diff, blame, showBlame } = this.state
+
+    if (entry === null) {
+      return null
+    }
+
+    return (
+      <div className="file-history-diff">
+        <SeamlessDiffSwitcher
+          repository={this.props.repository}
+          readOnly={true}
+          file={entry.file}
+          diff={diff}
+          imageDiffType={this.props.imageDiffType}
+          hideWhitespaceInDiff={false}
+          showSideBySideDiff={false}
+          onOpenBinaryFile={this.onOpenBinaryFile}
+          onChangeImageDiffType={this.onChangeImageDiffType}
+          onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
+          blame={showBlame && blame !== null ? blame : undefined}
+          onBlameCommitClicked={this.onBlameCommitClicked}
+        />
+      </div>
+    )
+  }
+
+  private onShowBlameChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.setState({ showBlame: event.currentTarget.checked })
+  }
+
+  private onBlameCommitClicked = (sha: string) => {
+    const entry = this.state.entries?.find(e => e.commit.sha === sha)
+    if (entry !== undefined) {
+      this.selectEntry(entry)
+    }
+  }
+
+  private onOpenBinaryFile = (fullPath: string) => {
+    openFile(fullPath, this.props.dispatcher)
+  }
+
+  private onChangeImageDiffType = (imageDiffType: ImageDiffType) => {
+    this.props.dispatcher.changeImageDiffType(imageDiffType)
+  }
+
+  private onHideWhitespaceInDiffChanged = (hideWhitespaceInDiff: boolean) => {
+    // Hiding whitespace isn't supported when viewing the history of a file
+  }
+}
@@ -3,6 +3,7 @@ import * as React from 'react'
 import { CommittedFileChange } from '../../models/status'
 import { List } from '../lib/list'
 import { CommittedFileItem } from './committed-file-item'
+import { ILFSLock } from '../../models/lfs-lock'
 
 interface IFileListProps {
   readonly files: ReadonlyArray<CommittedFileChange>
@@ -13,6 +14,9 @@ interface IFileListProps {
     file: CommittedFileChange,
     event: React.MouseEvent<HTMLDivElement>
   ) => void
+
+  /** The files locked with Git LFS in the repository, if known */
+  readonly lfsLocks?: ReadonlyArray<ILFSLock> | null
 }
 
 /**
@@ -25,11 +29,14 @@ export class FileList extends React.Component<IFileListProps> {
   }
 
   private renderFile = (row: number) => {
+    const file = this.props.files[row]
+
     return (
       <CommittedFileItem
-        file={this.props.files[row]}
+        file={file}
         availableWidth={this.props.availableWidth}
         onContextMenu={this.props.onContextMenu}
+        lock={this.props.lfsLocks?.find(l => l.path === file.path)}
       />
     )
   }
@@ -47,6 +54,7 @@ export class FileList extends React.Component<IFileListProps> {
           rowHeight={29}
           selectedRows={[this.rowForFile(this.props.selectedFile)]}
           onSelectedRowChanged={this.onSelectedRowChanged}
+          invalidationProps={this.props.lfsLocks}
         />
       </div>
     )
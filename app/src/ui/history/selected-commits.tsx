@@ -3,9 +3,14 @@ import { clipboard } from 'electron'
 import * as Path from 'path'
 
 import { Repository } from '../../models/repository'
-import { CommittedFileChange } from '../../models/status'
-import { Commit } from '../../models/commit'
-import { IDiff, ImageDiffType } from '../../models/diff'
+import { AppFileStatusKind, CommittedFileChange } from '../../models/status'
+import { Commit, CommitSignatureStatus } from '../../models/commit'
+import {
+  DiffSelection,
+  IDiff,
+  ImageDiffType,
+  ITextDiff,
+} from '../../models/diff'
 
 import { encodePathAsUrl } from '../../lib/path'
 import { revealInFileManager } from '../../lib/app-shell'
@@ -18,6 +23,7 @@ import {
   RevealInFileManagerLabel,
   OpenWithDefaultProgramLabel,
   CopyRelativeFilePathLabel,
+  ShowFileHistoryLabel,
 } from '../lib/context-menu'
 import { ThrottledScheduler } from '../lib/throttled-scheduler'
 
@@ -34,8 +40,12 @@ import { IChangesetData } from '../../lib/git'
 import { IConstrainedValue } from '../../lib/app-state'
 import { clamp } from '../../lib/clamp'
 import { pathExists } from '../lib/path-exists'
+import { PopupType } from '../../models/popup'
 import { enableMultiCommitDiffs } from '../../lib/feature-flag'
 import { UnreachableCommitsTab } from './unreachable-commits-dialog'
+import { ILFSLock } from '../../models/lfs-lock'
+import { IPullRequestReviewThread } from '../../models/pull-request-review-thread'
+import { getLFSLockMenuItems } from '../lfs'
 
 interface ISelectedCommitsProps {
   readonly repository: Repository
@@ -88,6 +98,18 @@ interface ISelectedCommitsProps {
 
   /** Whether or not the selection of commits is contiguous */
   readonly isContiguous: boolean
+
+  /**
+   * The files locked with Git LFS in the repository, or null if the
+   * repository doesn't support locking
+   */
+  readonly lfsLocks: ReadonlyArray<ILFSLock> | null
+
+  /** The review threads of the pull request of the current branch */
+  readonly reviewThreads: ReadonlyArray<IPullRequestReviewThread>
+
+  /** The status of the signatures of the commits, keyed by their full SHA. */
+  readonly commitSignatureStatuses: ReadonlyMap<string, CommitSignatureStatus>
 }
 
 interface ISelectedCommitsState {
@@ -165,14 +187,55 @@ export class SelectedCommits extends React.Component<
         onChangeImageDiffType={this.props.onChangeImageDiffType}
         onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
         onOpenSubmodule={this.props.onOpenSubmodule}
+        externalEditorLabel={this.props.externalEditorLabel}
+        onOpenInExternalEditor={
+          // Deleted files no longer exist on disk
+          file.status.kind === AppFileStatusKind.Deleted
+            ? undefined
+            : this.onOpenInExternalEditorAtLine
+        }
+        onRevertChanges={
+          // Reverting lines of a deleted file would have to recreate it
+          file.status.kind === AppFileStatusKind.Deleted
+            ? undefined
+            : this.onRevertChanges
+        }
+        reviewThreads={this.props.reviewThreads}
       />
     )
   }
 
+  private onRevertChanges = (diff: ITextDiff, diffSelection: DiffSelection) => {
+    const { dispatcher, repository, selectedFile } = this.props
+
+    if (selectedFile !== null) {
+      dispatcher.revertChangesFromSelection(
+        repository,
+        selectedFile.path,
+        diff,
+        diffSelection
+      )
+    }
+  }
+
+  private onOpenInExternalEditorAtLine = (line: number, column?: number) => {
+    const { repository, selectedFile } = this.props
+
+    if (selectedFile !== null) {
+      const fullPath = Path.join(repository.path, selectedFile.path)
+      this.props.dispatcher.openInExternalEditor(fullPath, { line, column })
+    }
+  }
+
   private renderCommitSummary(commits: ReadonlyArray<Commit>) {
     return (
       <CommitSummary
         selectedCommits={commits}
+        signatureStatus={
+          commits.length === 1
+            ? this.props.commitSignatureStatuses.get(commits[0].sha)
+            : undefined
+        }
         shasInDiff={this.props.shasInDiff}
         changesetData={this.props.changesetData}
         emoji={this.props.emoji}
@@ -252,6 +315,7 @@ export class SelectedCommits extends React.Component<
         selectedFile={this.props.selectedFile}
         availableWidth={availableWidth}
         onContextMenu={this.onContextMenu}
+        lfsLocks={this.props.lfsLocks}
       />
     )
   }
@@ -407,8 +471,29 @@ export class SelectedCommits extends React.Component<
         action: () => clipboard.writeText(Path.normalize(file.path)),
       },
       { type: 'separator' },
+      {
+        label: ShowFileHistoryLabel,
+        action: () =>
+          this.props.dispatcher.showPopup({
+            type: PopupType.FileHistory,
+            repository,
+            path: file.path,
+          }),
+      },
+      { type: 'separator' },
     ]
 
+    const lockItems = getLFSLockMenuItems(
+      this.props.dispatcher,
+      repository,
+      [file.path],
+      this.props.lfsLocks
+    )
+
+    if (lockItems.length > 0) {
+      items.push(...lockItems, { type: 'separator' })
+    }
+
     let viewOnGitHubLabel = 'View on GitHub'
     const gitHubRepository = repository.gitHubRepository
 
@@ -0,0 +1,317 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import {
+  RepositoryWithGitHubRepository,
+  getNonForkGitHubRepository,
+} from '../../models/repository'
+import { PopupType } from '../../models/popup'
+import { IIssue } from '../../lib/databases/issues-database'
+import { IssuesStore } from '../../lib/stores'
+import { getBranchNameForIssue } from '../../lib/issue-branch'
+import { List, SelectionSource } from '../lib/list'
+import { Button } from '../lib/button'
+import { LinkButton } from '../lib/link-button'
+import { TextBox } from '../lib/text-box'
+import { Select } from '../lib/select'
+
+const RowHeight = 50
+
+/** The value of the assignee filter for showing issues nobody is assigned to */
+const Unassigned = ':unassigned'
+
+interface IIssuesDialogProps {
+  readonly repository: RepositoryWithGitHubRepository
+  readonly dispatcher: Dispatcher
+  readonly issuesStore: IssuesStore
+  readonly onDismissed: () => void
+}
+
+interface IIssuesDialogState {
+  /** The open issues, or null while loading */
+  readonly issues: ReadonlyArray<IIssue> | null
+
+  readonly filterText: string
+
+  /**
+   * The login of the assignee to filter by, `Unassigned` for issues nobody is
+   * assigned to, or null to not filter by assignee
+   */
+  readonly assignee: string | null
+
+  /** The name of the label to filter by, or null to not filter by label */
+  readonly label: string | null
+
+  readonly selectedNumber: number | null
+}
+
+/**
+ * Dialog listing the open issues of the repository, with search and filters,
+ * for reading them and creating a branch for working on one.
+ */
+export class IssuesDialog extends React.Component<
+  IIssuesDialogProps,
+  IIssuesDialogState
+> {
+  public constructor(props: IIssuesDialogProps) {
+    super(props)
+
+    this.state = {
+      issues: null,
+      filterText: '',
+      assignee: null,
+      label: null,
+      selectedNumber: null,
+    }
+  }
+
+  public async componentDidMount() {
+    const gitHubRepository = getNonForkGitHubRepository(this.props.repository)
+
+    // Show the issues we already have while we look for new ones
+    await this.loadIssues()
+    await this.props.dispatcher.refreshIssues(gitHubRepository)
+    await this.loadIssues()
+  }
+
+  private async loadIssues() {
+    const gitHubRepository = getNonForkGitHubRepository(this.props.repository)
+
+    let issues: ReadonlyArray<IIssue> = []
+    try {
+      issues = await this.props.issuesStore.getIssues(gitHubRepository)
+    } catch (e) {
+      log.error(`Could not load issues for ${gitHubRepository.fullName}`, e)
+    }
+
+    this.setState({ issues })
+  }
+
+  private getFilteredIssues(): ReadonlyArray<IIssue> {
+    const { issues, assignee, label } = this.state
+    const needle = this.state.filterText.trim().toLowerCase()
+
+    return (issues ?? []).filter(
+      issue =>
+        (needle.length === 0 ||
+          `${issue.number} ${issue.title}`.toLowerCase().includes(needle)) &&
+        (assignee === null ||
+          (assignee === Unassigned
+            ? issue.assignees.length === 0
+            : issue.assignees.includes(assignee))) &&
+        (label === null || issue.labels.includes(label))
+    )
+  }
+
+  private getSelectedIssue() {
+    const { selectedNumber } = this.state
+    return (
+      this.getFilteredIssues().find(i => i.number === selectedNumber) ?? null
+    )
+  }
+
+  public render() {
+    return (
+      <Dialog
+        id="issues"
+        title="Issues"
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          {this.renderFilters()}
+          <div className="issues-container">
+            {this.renderIssues()}
+            {this.renderSelectedIssue()}
+          </div>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText="Close"
+            cancelButtonVisible={false}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderFilters() {
+    const issues = this.state.issues ?? []
+    const assignees = getSortedUnique(issues.flatMap(i => i.assignees))
+    const labels = getSortedUnique(issues.flatMap(i => i.labels))
+
+    return (
+      <div className="issues-filters">
+        <TextBox
+          type="search"
+          placeholder="Filter issues"
+          value={this.state.filterText}
+          onValueChanged={this.onFilterTextChanged}
+        />
+        <Select
+          label="Assignee"
+          value={this.state.assignee ?? ''}
+          onChange={this.onAssigneeChanged}
+        >
+          <option value="">All</option>
+          <option value={Unassigned}>Unassigned</option>
+          {assignees.map(a => (
+            <option key={a} value={a}>
+              {a}
+            </option>
+          ))}
+        </Select>
+        <Select
+          label="Label"
+          value={this.state.label ?? ''}
+          onChange={this.onLabelChanged}
+        >
+          <option value="">All</option>
+          {labels.map(l => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </Select>
+      </div>
+    )
+  }
+
+  private renderIssues() {
+    const { issues } = this.state
+
+    if (issues === null) {
+      return <div className="issue-list empty">Loading issues…</div>
+    }
+
+    const filtered = this.getFilteredIssues()
+
+    if (filtered.length === 0) {
+      return (
+        <div className="issue-list empty">
+          {issues.length === 0 ? 'No open issues' : 'No matching issues'}
+        </div>
+      )
+    }
+
+    const { selectedNumber } = this.state
+    const selectedRow = filtered.findIndex(i => i.number === selectedNumber)
+
+    return (
+      <div className="issue-list">
+        <List
+          rowCount={filtered.length}
+          rowHeight={RowHeight}
+          rowRenderer={this.renderIssue}
+          selectedRows={selectedRow === -1 ? [] : [selectedRow]}
+          onSelectedRowChanged={this.onSelectedRowChanged}
+          invalidationProps={filtered}
+        />
+      </div>
+    )
+  }
+
+  private renderIssue = (row: number) => {
+    const issue = this.getFilteredIssues()[row]
+
+    return (
+      <div className="issue-list-item">
+        <div className="title" title={issue.title}>
+          {issue.title}
+        </div>
+        <div className="description">
+          #{issue.number} by {issue.author}
+          {issue.labels.length > 0 ? ` • ${issue.labels.join(', ')}` : ''}
+        </div>
+      </div>
+    )
+  }
+
+  private onSelectedRowChanged = (row: number, source: SelectionSource) => {
+    const issue = this.getFilteredIssues()[row]
+    this.setState({ selectedNumber: issue?.number ?? null })
+  }
+
+  private renderSelectedIssue() {
+    const issue = this.getSelectedIssue()
+
+    if (issue === null) {
+      return null
+    }
+
+    const { htmlURL } = getNonForkGitHubRepository(this.props.repository)
+
+    return (
+      <div className="issue-details">
+        <div className="issue-details-header">
+          <h3 title={issue.title}>
+            {issue.title} <span className="number">#{issue.number}</span>
+          </h3>
+          <Button onClick={this.onCreateBranch}>
+            {__DARWIN__
+              ? 'Create Branch for This Issue…'
+              : 'Create branch for this issue…'}
+          </Button>
+        </div>
+        <div className="issue-details-body">
+          <p className="issue-metadata">
+            Opened by {issue.author}
+            {issue.assignees.length > 0
+              ? ` • Assigned to ${issue.assignees.join(', ')}`
+              : ''}
+            {issue.labels.length > 0
+              ? ` • Labels: ${issue.labels.join(', ')}`
+              : ''}
+          </p>
+          {issue.body.length > 0 ? (
+            <pre className="issue-body">{issue.body}</pre>
+          ) : (
+            <p className="issue-body empty">No description provided</p>
+          )}
+          {htmlURL !== null && (
+            <LinkButton uri={`${htmlURL}/issues/${issue.number}`}>
+              View on GitHub
+            </LinkButton>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  private onFilterTextChanged = (filterText: string) => {
+    this.setState({ filterText })
+  }
+
+  private onAssigneeChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const { value } = event.currentTarget
+    this.setState({ assignee: value.length > 0 ? value : null })
+  }
+
+  private onLabelChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const { value } = event.currentTarget
+    this.setState({ label: value.length > 0 ? value : null })
+  }
+
+  private onCreateBranch = () => {
+    const { dispatcher, repository } = this.props
+    const issue = this.getSelectedIssue()
+
+    if (issue === null) {
+      return
+    }
+
+    this.props.onDismissed()
+
+    dispatcher.showPopup({
+      type: PopupType.CreateBranch,
+      repository,
+      initialName: getBranchNameForIssue(issue.number, issue.title),
+      issueNumber: issue.number,
+    })
+  }
+}
+
+function getSortedUnique(values: ReadonlyArray<string>) {
+  return [...new Set(values)].sort((a, b) => a.localeCompare(b))
+}
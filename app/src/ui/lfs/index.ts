@@ -1,2 +1,6 @@
 export { InitializeLFS } from './initialize-lfs'
 export { AttributeMismatch } from './attribute-mismatch'
+export { LFSLockBadge, LFSLockBadgeWidth } from './lfs-lock-badge'
+export { getLFSLockMenuItems } from './lfs-lock-menu-items'
+export { LockedFilesWarning } from './locked-files-warning'
+export { LFSLocksDialog } from './lfs-locks-dialog'
@@ -0,0 +1,30 @@
+import * as React from 'react'
+import classNames from 'classnames'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import { ILFSLock } from '../../models/lfs-lock'
+import { TooltipDirection } from '../lib/tooltip'
+
+/** The width of the badge, for making room for it in file lists */
+export const LFSLockBadgeWidth = 16
+
+interface ILFSLockBadgeProps {
+  readonly lock: ILFSLock
+}
+
+/** An icon showing who locked a file with Git LFS */
+export class LFSLockBadge extends React.Component<ILFSLockBadgeProps> {
+  public render() {
+    const { lock } = this.props
+    const owner = lock.isOurs ? 'you' : lock.ownerName
+
+    return (
+      <Octicon
+        symbol={OcticonSymbol.lock}
+        className={classNames('lfs-lock-badge', { theirs: !lock.isOurs })}
+        title={`Locked by ${owner}`}
+        tooltipDirection={TooltipDirection.EAST}
+      />
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { IMenuItem } from '../../lib/menu-item'
+import { ILFSLock } from '../../models/lfs-lock'
+import { Repository } from '../../models/repository'
+import { Dispatcher } from '../dispatcher'
+
+/**
+ * Get the context menu items for locking and unlocking files with Git LFS.
+ *
+ * @param paths The paths of the files the context menu is for
+ * @param locks The files locked in the repository, or null if the repository
+ *              doesn't support locking, in which case there are no items
+ */
+export function getLFSLockMenuItems(
+  dispatcher: Dispatcher,
+  repository: Repository,
+  paths: ReadonlyArray<string>,
+  locks: ReadonlyArray<ILFSLock> | null
+): ReadonlyArray<IMenuItem> {
+  if (locks === null || paths.length === 0) {
+    return []
+  }
+
+  const lockedPaths = new Set(locks.map(l => l.path))
+  const ourLockedPaths = new Set(locks.filter(l => l.isOurs).map(l => l.path))
+
+  const pathsToLock = paths.filter(p => !lockedPaths.has(p))
+  const pathsToUnlock = paths.filter(p => ourLockedPaths.has(p))
+  const plural = paths.length > 1
+
+  return [
+    {
+      label: __DARWIN__
+        ? `Lock ${plural ? 'Files' : 'File'}`
+        : `Lock ${plural ? 'files' : 'file'}`,
+      action: () => dispatcher.lockLFSFiles(repository, pathsToLock),
+      enabled: pathsToLock.length > 0,
+    },
+    {
+      label: __DARWIN__
+        ? `Unlock ${plural ? 'Files' : 'File'}`
+        : `Unlock ${plural ? 'files' : 'file'}`,
+      action: () => dispatcher.unlockLFSFiles(repository, pathsToUnlock),
+      enabled: pathsToUnlock.length > 0,
+    },
+  ]
+}
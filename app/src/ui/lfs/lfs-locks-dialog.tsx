@@ -0,0 +1,161 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { ILFSLock } from '../../models/lfs-lock'
+import { Button } from '../lib/button'
+import { Row } from '../lib/row'
+import { PathText } from '../lib/path-text'
+import { RelativeTime } from '../relative-time'
+
+interface ILFSLocksDialogProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /**
+   * The files locked in the repository, or null if the repository doesn't
+   * support locking
+   */
+  readonly locks: ReadonlyArray<ILFSLock> | null
+
+  readonly onDismissed: () => void
+}
+
+interface ILFSLocksDialogState {
+  /** Whether locks are being released or reloaded */
+  readonly isBusy: boolean
+}
+
+interface ILFSLockItemProps {
+  readonly lock: ILFSLock
+  readonly disabled: boolean
+  readonly onUnlock: (lock: ILFSLock) => void
+}
+
+class LFSLockItem extends React.Component<ILFSLockItemProps> {
+  public render() {
+    const { lock, disabled } = this.props
+
+    return (
+      <li className="lfs-lock">
+        <div className="lfs-lock-details">
+          <PathText path={lock.path} />
+          <span className="locked-at">
+            Locked <RelativeTime date={lock.lockedAt} />
+          </span>
+        </div>
+        <Button onClick={this.onUnlock} disabled={disabled}>
+          Unlock
+        </Button>
+      </li>
+    )
+  }
+
+  private onUnlock = () => {
+    this.props.onUnlock(this.props.lock)
+  }
+}
+
+/** Dialog listing the files the current user has locked with Git LFS */
+export class LFSLocksDialog extends React.Component<
+  ILFSLocksDialogProps,
+  ILFSLocksDialogState
+> {
+  public constructor(props: ILFSLocksDialogProps) {
+    super(props)
+    this.state = { isBusy: false }
+  }
+
+  public componentDidMount() {
+    this.run(() => this.props.dispatcher.refreshLFSLocks(this.props.repository))
+  }
+
+  private async run(action: () => Promise<void>) {
+    this.setState({ isBusy: true })
+    try {
+      await action()
+    } finally {
+      this.setState({ isBusy: false })
+    }
+  }
+
+  public render() {
+    return (
+      <Dialog
+        id="lfs-locks"
+        title={__DARWIN__ ? 'My Locked Files' : 'My locked files'}
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+        loading={this.state.isBusy}
+      >
+        <DialogContent>{this.renderContent()}</DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText="Close"
+            cancelButtonVisible={false}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderContent() {
+    const { locks } = this.props
+
+    if (locks === null) {
+      return (
+        <p>
+          This repository doesn't use Git LFS, or its LFS server doesn't support
+          locking files.
+        </p>
+      )
+    }
+
+    const ours = locks.filter(l => l.isOurs)
+    const theirsCount = locks.length - ours.length
+    const pluralized = theirsCount === 1 ? 'file is' : 'files are'
+
+    return (
+      <>
+        {ours.length === 0 ? (
+          <p>You haven't locked any files.</p>
+        ) : (
+          <>
+            <ul className="lfs-locks">
+              {ours.map(lock => (
+                <LFSLockItem
+                  key={lock.id}
+                  lock={lock}
+                  disabled={this.state.isBusy}
+                  onUnlock={this.onUnlock}
+                />
+              ))}
+            </ul>
+            <Row>
+              <Button onClick={this.onUnlockAll} disabled={this.state.isBusy}>
+                {__DARWIN__ ? 'Unlock All' : 'Unlock all'}
+              </Button>
+            </Row>
+          </>
+        )}
+        {theirsCount > 0 && (
+          <p className="lfs-locks-by-others">
+            {theirsCount} {pluralized} locked by others.
+          </p>
+        )}
+      </>
+    )
+  }
+
+  private onUnlock = (lock: ILFSLock) => {
+    const { dispatcher, repository } = this.props
+    this.run(() => dispatcher.unlockLFSFiles(repository, [lock.path]))
+  }
+
+  private onUnlockAll = () => {
+    const { dispatcher, repository, locks } = this.props
+    const paths = (locks ?? []).filter(l => l.isOurs).map(l => l.path)
+    this.run(() => dispatcher.unlockLFSFiles(repository, paths))
+  }
+}
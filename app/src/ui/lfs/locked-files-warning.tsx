@@ -0,0 +1,82 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { PathText } from '../lib/path-text'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { ICommitContext } from '../../models/commit'
+import { DefaultCommitMessage } from '../../models/commit-message'
+import { ILFSLock } from '../../models/lfs-lock'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+
+interface ILockedFilesWarningProps {
+  /** The locks held by others on files being committed */
+  readonly locks: ReadonlyArray<ILFSLock>
+  readonly onDismissed: () => void
+  readonly dispatcher: Dispatcher
+  readonly context: ICommitContext
+  readonly repository: Repository
+}
+
+/**
+ * A dialog warning about committing files which someone else has locked with
+ * Git LFS, since the commit can't be pushed until the locks are released.
+ */
+export class LockedFilesWarning extends React.Component<ILockedFilesWarningProps> {
+  public render() {
+    return (
+      <Dialog
+        id="locked-files-warning"
+        title={__DARWIN__ ? 'Files Locked by Others' : 'Files locked by others'}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+        type="warning"
+      >
+        <DialogContent>
+          <p>
+            The following files are locked by someone else.{' '}
+            <strong>
+              If you commit changes to these files, you won't be able to push
+              them until the locks are released.
+            </strong>
+          </p>
+          {this.renderFileList()}
+        </DialogContent>
+
+        <DialogFooter>
+          <OkCancelButtonGroup
+            destructive={true}
+            okButtonText={__DARWIN__ ? 'Commit Anyway' : 'Commit anyway'}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderFileList() {
+    return (
+      <div className="files-list">
+        <ul>
+          {this.props.locks.map(lock => (
+            <li key={lock.path}>
+              <PathText path={lock.path} /> (locked by {lock.ownerName})
+            </li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
+  private onSubmit = async () => {
+    this.props.onDismissed()
+
+    await this.props.dispatcher.commitIncludedChanges(
+      this.props.repository,
+      this.props.context
+    )
+
+    this.props.dispatcher.setCommitMessage(
+      this.props.repository,
+      DefaultCommitMessage
+    )
+  }
+}
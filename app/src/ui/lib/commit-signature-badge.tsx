@@ -0,0 +1,66 @@
+import * as React from 'react'
+import classNames from 'classnames'
+import { CommitSignatureStatus, isVerifiedSignature } from '../../models/commit'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+
+interface ICommitSignatureBadgeProps {
+  readonly signatureStatus: CommitSignatureStatus
+
+  /** Whether to only render the icon, without the Verified/Unverified label */
+  readonly iconOnly?: boolean
+}
+
+/** Get a short explanation of the given signature status. */
+function getSignatureDescription(status: CommitSignatureStatus) {
+  switch (status) {
+    case CommitSignatureStatus.Good:
+      return 'This commit has a valid signature'
+    case CommitSignatureStatus.Bad:
+      return 'This commit has a bad signature'
+    case CommitSignatureStatus.UnknownValidity:
+      return 'This commit is signed with a key of unknown validity'
+    case CommitSignatureStatus.ExpiredSignature:
+      return 'This commit has an expired signature'
+    case CommitSignatureStatus.ExpiredKey:
+      return 'This commit is signed with an expired key'
+    case CommitSignatureStatus.RevokedKey:
+      return 'This commit is signed with a revoked key'
+    case CommitSignatureStatus.CannotBeChecked:
+      return 'The signature of this commit cannot be checked, the key may be missing'
+    case CommitSignatureStatus.None:
+      return 'This commit is not signed'
+  }
+}
+
+/**
+ * A badge showing whether the signature of a commit could be verified.
+ * Nothing is rendered for commits which aren't signed.
+ */
+export class CommitSignatureBadge extends React.Component<ICommitSignatureBadgeProps> {
+  public render() {
+    const { signatureStatus, iconOnly } = this.props
+
+    if (signatureStatus === CommitSignatureStatus.None) {
+      return null
+    }
+
+    const verified = isVerifiedSignature(signatureStatus)
+    const className = classNames('commit-signature-badge', {
+      verified,
+      unverified: !verified,
+    })
+
+    return (
+      <span
+        className={className}
+        title={getSignatureDescription(signatureStatus)}
+      >
+        <Octicon
+          symbol={verified ? OcticonSymbol.verified : OcticonSymbol.unverified}
+        />
+        {!iconOnly && (verified ? 'Verified' : 'Unverified')}
+      </span>
+    )
+  }
+}
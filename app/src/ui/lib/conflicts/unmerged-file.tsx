@@ -72,6 +72,8 @@ export const renderUnmergedFile: React.FunctionComponent<{
   /** name of the resolved external editor */
   readonly resolvedExternalEditor: string | null
   readonly openFileInExternalEditor: (path: string) => void
+  /** Called to resolve the conflicts of the file at `path` in the app */
+  readonly openConflictEditor: (path: string) => void
   readonly dispatcher: Dispatcher
 }> = props => {
   if (
@@ -84,6 +86,7 @@ export const renderUnmergedFile: React.FunctionComponent<{
       resolvedExternalEditor: props.resolvedExternalEditor,
       onOpenEditorClick: () =>
         props.openFileInExternalEditor(join(props.repository.path, props.path)),
+      onOpenConflictEditor: () => props.openConflictEditor(props.path),
       repository: props.repository,
       dispatcher: props.dispatcher,
       ourBranch: props.ourBranch,
@@ -219,6 +222,7 @@ const renderConflictedFileWithConflictMarkers: React.FunctionComponent<{
   readonly status: ConflictsWithMarkers
   readonly resolvedExternalEditor: string | null
   readonly onOpenEditorClick: () => void
+  readonly onOpenConflictEditor: () => void
   readonly repository: Repository
   readonly dispatcher: Dispatcher
   readonly ourBranch?: string
@@ -239,6 +243,7 @@ const renderConflictedFileWithConflictMarkers: React.FunctionComponent<{
     props.repository,
     props.dispatcher,
     props.status,
+    props.onOpenConflictEditor,
     props.ourBranch,
     props.theirBranch
   )
@@ -313,12 +318,22 @@ const makeMarkerConflictDropdownClickHandler = (
   repository: Repository,
   dispatcher: Dispatcher,
   status: ConflictsWithMarkers,
+  onOpenConflictEditor: () => void,
   ourBranch?: string,
   theirBranch?: string
 ) => {
   return () => {
     const absoluteFilePath = join(repository.path, relativeFilePath)
     const items: IMenuItem[] = [
+      {
+        label: __DARWIN__
+          ? 'Resolve in Conflict Editor'
+          : 'Resolve in conflict editor',
+        action: onOpenConflictEditor,
+      },
+      {
+        type: 'separator',
+      },
       {
         label: OpenWithDefaultProgramLabel,
         action: () => openFile(absoluteFilePath, dispatcher),
@@ -385,6 +400,9 @@ function resolvedFileStatusString(
   if (manualResolution === ManualConflictResolution.theirs) {
     return getUnmergedStatusEntryDescription(status.entry.them, branch)
   }
+  if (manualResolution === ManualConflictResolution.edited) {
+    return 'Resolved in conflict editor'
+  }
   return 'No conflicts remaining'
 }
 
@@ -29,6 +29,26 @@ export const OpenWithDefaultProgramLabel = __DARWIN__
   ? 'Open with Default Program'
   : 'Open with default program'
 
+export const ShowFileHistoryLabel = __DARWIN__
+  ? 'Show History for This File'
+  : 'Show history for this file'
+
+/**
+ * Get the label of the menu item for opening a file in the external editor
+ * at a specific line.
+ */
+export function getOpenInExternalEditorAtLineLabel(
+  externalEditorLabel: string | undefined,
+  line: number
+) {
+  const editor =
+    externalEditorLabel ?? (__DARWIN__ ? 'External Editor' : 'external editor')
+
+  return __DARWIN__
+    ? `Open in ${editor} at Line ${line}`
+    : `Open in ${editor} at line ${line}`
+}
+
 export function isSafeFileExtension(extension: string): boolean {
   if (__WIN32__) {
     return RestrictedFileExtensions.indexOf(extension.toLowerCase()) === -1
@@ -29,6 +29,18 @@ export interface IFilterListGroup<T extends IFilterListItem> {
 
   /** The items in the group. */
   readonly items: ReadonlyArray<T>
+
+  /**
+   * Text which represents the group itself. When the filter text is found in
+   * it, all the items in the group are shown.
+   */
+  readonly filterText?: string
+
+  /**
+   * Whether only the header of the group is shown when the list isn't being
+   * filtered. Requires `renderGroupHeader`.
+   */
+  readonly isCollapsed?: boolean
 }
 
 interface IFlattenedGroup {
@@ -542,13 +554,19 @@ function createStateUpdate<T extends IFilterListItem>(
   const filter = (props.filterText || '').toLowerCase()
 
   for (const group of props.groups) {
-    const items: ReadonlyArray<IMatch<T>> = filter
-      ? match(filter, group.items, getText)
-      : group.items.map(item => ({
-          score: 1,
-          matches: { title: [], subtitle: [] },
-          item,
-        }))
+    const matchesGroup =
+      filter.length > 0 &&
+      group.filterText !== undefined &&
+      group.filterText.toLowerCase().includes(filter)
+
+    const items: ReadonlyArray<IMatch<T>> =
+      filter && !matchesGroup
+        ? match(filter, group.items, getText)
+        : group.items.map(item => ({
+            score: 1,
+            matches: { title: [], subtitle: [] },
+            item,
+          }))
 
     if (!items.length) {
       continue
@@ -556,6 +574,10 @@ function createStateUpdate<T extends IFilterListItem>(
 
     if (props.renderGroupHeader) {
       flattenedRows.push({ kind: 'group', identifier: group.identifier })
+
+      if (group.isCollapsed === true && !filter) {
+        continue
+      }
     }
 
     for (const { item, matches } of items) {
@@ -0,0 +1,264 @@
+import * as React from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogError,
+  DialogFooter,
+  OkCancelButtonGroup,
+} from '../dialog'
+import { Dispatcher } from '../dispatcher'
+import { RepositoryWithGitHubRepository } from '../../models/repository'
+import { PullRequest } from '../../models/pull-request'
+import { APIPullRequestMergeMethod } from '../../lib/api'
+import {
+  getPullRequestMergeBlockers,
+  IPullRequestMergeInfo,
+} from '../../lib/pull-request-merge'
+import { Ref } from '../lib/ref'
+import { Row } from '../lib/row'
+import { Select } from '../lib/select'
+import { TextBox } from '../lib/text-box'
+import { TextArea } from '../lib/text-area'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+
+interface IMergePullRequestDialogProps {
+  readonly repository: RepositoryWithGitHubRepository
+  readonly pullRequest: PullRequest
+  readonly dispatcher: Dispatcher
+  readonly onDismissed: () => void
+}
+
+interface IMergePullRequestDialogState {
+  /**
+   * What's needed to tell whether the pull request can be merged, or null
+   * while loading
+   */
+  readonly mergeInfo: IPullRequestMergeInfo | null
+
+  readonly method: APIPullRequestMergeMethod
+
+  /** The title of the squash commit */
+  readonly commitTitle: string
+
+  /** The description of the squash commit */
+  readonly commitMessage: string
+
+  readonly deleteHeadBranch: boolean
+  readonly isMerging: boolean
+  readonly error: Error | null
+}
+
+/**
+ * Dialog for merging a pull request on GitHub, explaining why it can't be
+ * merged when the pull request or the rules of its base branch don't allow
+ * it.
+ */
+export class MergePullRequestDialog extends React.Component<
+  IMergePullRequestDialogProps,
+  IMergePullRequestDialogState
+> {
+  public constructor(props: IMergePullRequestDialogProps) {
+    super(props)
+
+    const { title, pullRequestNumber } = props.pullRequest
+
+    this.state = {
+      mergeInfo: null,
+      method: 'merge',
+      commitTitle: `${title} (#${pullRequestNumber})`,
+      commitMessage: '',
+      deleteHeadBranch: false,
+      isMerging: false,
+      error: null,
+    }
+  }
+
+  public async componentDidMount() {
+    const { dispatcher, repository, pullRequest } = this.props
+
+    try {
+      const mergeInfo = await dispatcher.fetchPullRequestMergeInfo(
+        repository,
+        pullRequest
+      )
+      this.setState({ mergeInfo })
+    } catch (error) {
+      this.setState({ error })
+    }
+  }
+
+  private getBlockers() {
+    const { mergeInfo, method } = this.state
+    return mergeInfo === null
+      ? []
+      : getPullRequestMergeBlockers(mergeInfo, method)
+  }
+
+  public render() {
+    const { pullRequest } = this.props
+    const { mergeInfo, isMerging, error } = this.state
+    const loading = mergeInfo === null && error === null
+
+    return (
+      <Dialog
+        id="merge-pull-request"
+        title={
+          __DARWIN__
+            ? `Merge Pull Request #${pullRequest.pullRequestNumber}`
+            : `Merge pull request #${pullRequest.pullRequestNumber}`
+        }
+        loading={loading || isMerging}
+        disabled={isMerging}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+      >
+        {error !== null && <DialogError>{error.message}</DialogError>}
+        <DialogContent>
+          <p>
+            Merge <Ref>{pullRequest.head.ref}</Ref> into{' '}
+            <Ref>{pullRequest.base.ref}</Ref>: {pullRequest.title}
+          </p>
+          <Row>
+            <Select
+              label={__DARWIN__ ? 'Merge Method' : 'Merge method'}
+              value={this.state.method}
+              onChange={this.onMethodChanged}
+            >
+              <option value="merge">Create a merge commit</option>
+              <option value="squash">Squash and merge</option>
+              <option value="rebase">Rebase and merge</option>
+            </Select>
+          </Row>
+          {this.renderSquashCommit()}
+          <Row>
+            <Checkbox
+              label={
+                __DARWIN__
+                  ? `Delete Branch ${pullRequest.head.ref} After Merging`
+                  : `Delete branch ${pullRequest.head.ref} after merging`
+              }
+              value={
+                this.state.deleteHeadBranch
+                  ? CheckboxValue.On
+                  : CheckboxValue.Off
+              }
+              onChange={this.onDeleteHeadBranchChanged}
+            />
+          </Row>
+          {this.renderBlockers()}
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={
+              __DARWIN__ ? 'Merge Pull Request' : 'Merge pull request'
+            }
+            okButtonDisabled={
+              mergeInfo === null || this.getBlockers().length > 0
+            }
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderSquashCommit() {
+    if (this.state.method !== 'squash') {
+      return null
+    }
+
+    return (
+      <>
+        <Row>
+          <TextBox
+            label={__DARWIN__ ? 'Commit Title' : 'Commit title'}
+            value={this.state.commitTitle}
+            onValueChanged={this.onCommitTitleChanged}
+          />
+        </Row>
+        <Row>
+          <TextArea
+            label={__DARWIN__ ? 'Commit Description' : 'Commit description'}
+            value={this.state.commitMessage}
+            rows={4}
+            onValueChanged={this.onCommitMessageChanged}
+          />
+        </Row>
+      </>
+    )
+  }
+
+  private renderBlockers() {
+    const blockers = this.getBlockers()
+
+    if (blockers.length === 0) {
+      return null
+    }
+
+    return (
+      <Row className="merge-blockers">
+        <h3>
+          <Octicon symbol={OcticonSymbol.stop} />
+          Merging is blocked
+        </h3>
+        <ul>
+          {blockers.map(b => (
+            <li key={b}>{b}</li>
+          ))}
+        </ul>
+      </Row>
+    )
+  }
+
+  private onMethodChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const method = event.currentTarget.value as APIPullRequestMergeMethod
+    this.setState({ method })
+  }
+
+  private onCommitTitleChanged = (commitTitle: string) => {
+    this.setState({ commitTitle })
+  }
+
+  private onCommitMessageChanged = (commitMessage: string) => {
+    this.setState({ commitMessage })
+  }
+
+  private onDeleteHeadBranchChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.setState({ deleteHeadBranch: event.currentTarget.checked })
+  }
+
+  private onSubmit = async () => {
+    const { dispatcher, repository, pullRequest, onDismissed } = this.props
+    const { mergeInfo, method, commitTitle, commitMessage, deleteHeadBranch } =
+      this.state
+
+    if (mergeInfo === null || this.getBlockers().length > 0) {
+      return
+    }
+
+    const isSquash = method === 'squash'
+    const title = commitTitle.trim()
+
+    this.setState({ isMerging: true, error: null })
+
+    try {
+      await dispatcher.mergePullRequest(
+        repository,
+        pullRequest,
+        mergeInfo.pullRequest.head.sha,
+        method,
+        isSquash && title.length > 0 ? title : undefined,
+        isSquash ? commitMessage.trim() : undefined,
+        deleteHeadBranch
+      )
+    } catch (error) {
+      this.setState({ isMerging: false, error })
+      return
+    }
+
+    onDismissed()
+  }
+}
@@ -50,6 +50,7 @@ export abstract class BaseMultiCommitOperation extends React.Component<IMultiCom
   protected abstract onConflictsDialogDismissed: () => void
   protected abstract renderChooseBranch: () => JSX.Element | null
   protected abstract renderCreateBranch: () => JSX.Element | null
+  protected abstract renderEditRebaseTodo: () => JSX.Element | null
 
   protected onFlowEnded = () => {
     this.props.dispatcher.closePopup(PopupType.MultiCommitOperation)
@@ -227,7 +228,10 @@ export abstract class BaseMultiCommitOperation extends React.Component<IMultiCom
         )
       case MultiCommitOperationStepKind.CreateBranch:
         return this.renderCreateBranch()
+      case MultiCommitOperationStepKind.EditRebaseTodo:
+        return this.renderEditRebaseTodo()
       case MultiCommitOperationStepKind.HideConflicts:
+      case MultiCommitOperationStepKind.StoppedForEdit:
         return null
       default:
         return assertNever(
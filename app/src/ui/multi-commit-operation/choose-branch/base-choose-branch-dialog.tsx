@@ -178,6 +178,7 @@ export abstract class BaseChooseBranchDialog extends React.Component<
         break
       case MultiCommitOperationKind.CherryPick:
       case MultiCommitOperationKind.Reorder:
+      case MultiCommitOperationKind.InteractiveRebase:
         break
       default:
         assertNever(option.value, `Unknown operation value: ${option.value}`)
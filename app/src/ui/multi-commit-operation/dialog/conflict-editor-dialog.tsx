@@ -0,0 +1,192 @@
+import * as React from 'react'
+import * as Path from 'path'
+import { readFile, writeFile } from 'fs/promises'
+import { Dialog, DialogContent, DialogError, DialogFooter } from '../../dialog'
+import { OkCancelButtonGroup } from '../../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../../dispatcher'
+import { Repository } from '../../../models/repository'
+import { ManualConflictResolution } from '../../../models/manual-conflict-resolution'
+import {
+  ConflictFileSegment,
+  ConflictHunkResolution,
+  getConflictHunks,
+  parseConflictMarkers,
+  resolveConflictMarkers,
+} from '../../../lib/conflict-markers'
+import { ConflictHunkEditor } from './conflict-hunk-editor'
+
+interface IConflictEditorDialogProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The path of the conflicted file, relative to the repository root */
+  readonly path: string
+
+  /* Depending on the operation, we may only know one our or their branch */
+  readonly ourBranch?: string
+  readonly theirBranch?: string
+
+  readonly onDismissed: () => void
+}
+
+interface IConflictEditorDialogState {
+  /** The parsed contents of the file, or null while loading */
+  readonly segments: ReadonlyArray<ConflictFileSegment> | null
+
+  /** The resolution of each conflict hunk, or null if not resolved yet */
+  readonly resolutions: ReadonlyArray<ConflictHunkResolution | null>
+
+  readonly isSaving: boolean
+  readonly error: string | null
+}
+
+/**
+ * Dialog for resolving the conflicts in a file with conflict markers one hunk
+ * at a time, by picking a side, both sides, or editing the resolved lines.
+ */
+export class ConflictEditorDialog extends React.Component<
+  IConflictEditorDialogProps,
+  IConflictEditorDialogState
+> {
+  public constructor(props: IConflictEditorDialogProps) {
+    super(props)
+
+    this.state = {
+      segments: null,
+      resolutions: [],
+      isSaving: false,
+      error: null,
+    }
+  }
+
+  private get fullPath() {
+    return Path.join(this.props.repository.path, this.props.path)
+  }
+
+  public async componentDidMount() {
+    try {
+      const contents = await readFile(this.fullPath, 'utf8')
+      const segments = parseConflictMarkers(contents)
+      const hunks = getConflictHunks(segments)
+
+      this.setState({ segments, resolutions: hunks.map(() => null) })
+    } catch (e) {
+      log.error(`Could not read conflicted file ${this.props.path}`, e)
+      this.setState({ segments: [], error: `Could not read the file: ${e}` })
+    }
+  }
+
+  private onSubmit = async () => {
+    const { segments, resolutions } = this.state
+    const { dispatcher, repository, path } = this.props
+
+    const contents =
+      segments === null ? null : resolveConflictMarkers(segments, resolutions)
+
+    if (contents === null) {
+      return
+    }
+
+    this.setState({ isSaving: true, error: null })
+
+    try {
+      await writeFile(this.fullPath, contents, 'utf8')
+    } catch (e) {
+      log.error(`Could not write resolved file ${path}`, e)
+      this.setState({ isSaving: false, error: `Could not save the file: ${e}` })
+      return
+    }
+
+    dispatcher.updateManualConflictResolution(
+      repository,
+      path,
+      ManualConflictResolution.edited
+    )
+    await dispatcher.refreshRepository(repository)
+
+    this.props.onDismissed()
+  }
+
+  private onResolutionChanged = (
+    index: number,
+    resolution: ConflictHunkResolution
+  ) => {
+    const resolutions = [...this.state.resolutions]
+    resolutions[index] = resolution
+    this.setState({ resolutions })
+  }
+
+  public render() {
+    const { resolutions, isSaving, error } = this.state
+    const resolvedCount = resolutions.filter(r => r !== null).length
+    const allResolved =
+      resolutions.length > 0 && resolvedCount === resolutions.length
+
+    return (
+      <Dialog
+        id="conflict-editor"
+        title={__DARWIN__ ? 'Resolve Conflicts' : 'Resolve conflicts'}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+        loading={isSaving}
+        disabled={isSaving}
+      >
+        {error !== null && <DialogError>{error}</DialogError>}
+        <DialogContent>
+          <div className="conflict-editor-header">
+            <h3 title={this.props.path}>{this.props.path}</h3>
+            {resolutions.length > 0 && (
+              <span className="resolved-count">
+                {resolvedCount} of {resolutions.length} resolved
+              </span>
+            )}
+          </div>
+          {this.renderHunks()}
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Save and Resolve' : 'Save and resolve'}
+            okButtonDisabled={!allResolved}
+            okButtonTitle={
+              allResolved ? undefined : 'Resolve all conflicts before saving'
+            }
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderHunks() {
+    const { segments, resolutions } = this.state
+
+    if (segments === null) {
+      return <div className="conflict-editor-empty">Loading conflicts…</div>
+    }
+
+    const hunks = getConflictHunks(segments)
+
+    if (hunks.length === 0) {
+      return (
+        <div className="conflict-editor-empty">
+          No conflict markers were found in this file.
+        </div>
+      )
+    }
+
+    return (
+      <div className="conflict-hunks">
+        {hunks.map((hunk, index) => (
+          <ConflictHunkEditor
+            key={index}
+            index={index}
+            hunk={hunk}
+            resolution={resolutions[index] ?? null}
+            ourBranch={this.props.ourBranch}
+            theirBranch={this.props.theirBranch}
+            onResolutionChanged={this.onResolutionChanged}
+          />
+        ))}
+      </div>
+    )
+  }
+}
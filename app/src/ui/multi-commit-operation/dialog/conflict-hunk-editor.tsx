@@ -0,0 +1,134 @@
+import * as React from 'react'
+import classNames from 'classnames'
+import { Button } from '../../lib/button'
+import { TextArea } from '../../lib/text-area'
+import {
+  ConflictHunkResolution,
+  ConflictHunkResolutionKind,
+  IConflictHunk,
+  resolveConflictHunk,
+} from '../../../lib/conflict-markers'
+
+interface IConflictHunkEditorProps {
+  readonly index: number
+  readonly hunk: IConflictHunk
+  readonly resolution: ConflictHunkResolution | null
+  readonly ourBranch?: string
+  readonly theirBranch?: string
+  readonly onResolutionChanged: (
+    index: number,
+    resolution: ConflictHunkResolution
+  ) => void
+}
+
+/** The sides of a single conflict and the controls to resolve it */
+export class ConflictHunkEditor extends React.Component<IConflictHunkEditorProps> {
+  public render() {
+    const { index, hunk, resolution, ourBranch, theirBranch } = this.props
+    // Show the text exactly as typed while editing, before it's normalized
+    const resolved =
+      resolution === null
+        ? ''
+        : resolution.kind === ConflictHunkResolutionKind.Manual
+        ? resolution.text
+        : resolveConflictHunk(hunk, resolution)
+
+    return (
+      <div
+        className={classNames('conflict-hunk', {
+          resolved: resolution !== null,
+        })}
+      >
+        <div className="conflict-hunk-header">Conflict {index + 1}</div>
+        <div className="conflict-hunk-sides">
+          {this.renderSide('ours', ourBranch ?? hunk.oursLabel, hunk.ours)}
+          {hunk.base !== null &&
+            this.renderSide('base', hunk.baseLabel ?? 'base', hunk.base)}
+          {this.renderSide(
+            'theirs',
+            theirBranch ?? hunk.theirsLabel,
+            hunk.theirs
+          )}
+        </div>
+        <div className="conflict-hunk-actions">
+          {this.renderAction(
+            ConflictHunkResolutionKind.Ours,
+            'Use ours',
+            this.onUseOurs
+          )}
+          {this.renderAction(
+            ConflictHunkResolutionKind.Theirs,
+            'Use theirs',
+            this.onUseTheirs
+          )}
+          {this.renderAction(
+            ConflictHunkResolutionKind.Both,
+            'Use both',
+            this.onUseBoth
+          )}
+        </div>
+        <TextArea
+          label={__DARWIN__ ? 'Resolved Lines' : 'Resolved lines'}
+          textareaClassName="conflict-hunk-result"
+          placeholder="Choose a side above or type the resolved lines"
+          rows={Math.min(Math.max(resolved.split('\n').length, 3), 12)}
+          value={resolved}
+          onValueChanged={this.onResolvedTextChanged}
+        />
+      </div>
+    )
+  }
+
+  private renderSide(className: string, label: string, text: string) {
+    return (
+      <div className={classNames('conflict-hunk-side', className)}>
+        <div className="side-label" title={label}>
+          {label}
+        </div>
+        <pre>{text}</pre>
+      </div>
+    )
+  }
+
+  private renderAction(
+    kind: ConflictHunkResolutionKind,
+    label: string,
+    onClick: () => void
+  ) {
+    const selected = this.props.resolution?.kind === kind
+
+    return (
+      <Button
+        className={classNames('small-button', { selected })}
+        onClick={onClick}
+      >
+        {label}
+      </Button>
+    )
+  }
+
+  private onUseOurs = () => {
+    this.props.onResolutionChanged(this.props.index, {
+      kind: ConflictHunkResolutionKind.Ours,
+    })
+  }
+
+  private onUseTheirs = () => {
+    this.props.onResolutionChanged(this.props.index, {
+      kind: ConflictHunkResolutionKind.Theirs,
+    })
+  }
+
+  private onUseBoth = () => {
+    this.props.onResolutionChanged(this.props.index, {
+      kind: ConflictHunkResolutionKind.Both,
+    })
+  }
+
+  private onResolvedTextChanged = (text: string) => {
+    this.props.onResolutionChanged(this.props.index, {
+      kind: ConflictHunkResolutionKind.Manual,
+      text,
+    })
+  }
+}
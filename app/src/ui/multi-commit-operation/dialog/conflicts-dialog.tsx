@@ -20,6 +20,7 @@ import {
 } from '../../lib/conflicts'
 import { ManualConflictResolution } from '../../../models/manual-conflict-resolution'
 import { OkCancelButtonGroup } from '../../dialog/ok-cancel-button-group'
+import { ConflictEditorDialog } from './conflict-editor-dialog'
 
 interface IConflictsDialogProps {
   readonly dispatcher: Dispatcher
@@ -45,6 +46,12 @@ interface IConflictsDialogProps {
 interface IConflictsDialogState {
   readonly isCommitting: boolean
   readonly isAborting: boolean
+
+  /**
+   * The path of the file being resolved in the conflict editor, or null when
+   * showing the list of conflicted files
+   */
+  readonly conflictEditorPath: string | null
 }
 
 /**
@@ -61,6 +68,7 @@ export class ConflictsDialog extends React.Component<
     this.state = {
       isCommitting: false,
       isAborting: false,
+      conflictEditorPath: null,
     }
   }
 
@@ -113,6 +121,14 @@ export class ConflictsDialog extends React.Component<
     this.setState({ isAborting: false })
   }
 
+  private openConflictEditor = (path: string) => {
+    this.setState({ conflictEditorPath: path })
+  }
+
+  private onConflictEditorDismissed = () => {
+    this.setState({ conflictEditorPath: null })
+  }
+
   private openThisRepositoryInShell = () =>
     this.props.openRepositoryInShell(this.props.repository)
 
@@ -131,6 +147,7 @@ export class ConflictsDialog extends React.Component<
                 status: f.status,
                 resolvedExternalEditor: this.props.resolvedExternalEditor,
                 openFileInExternalEditor: this.props.openFileInExternalEditor,
+                openConflictEditor: this.openConflictEditor,
                 repository: this.props.repository,
                 dispatcher: this.props.dispatcher,
                 manualResolution: this.props.manualResolutions.get(f.path),
@@ -168,6 +185,20 @@ export class ConflictsDialog extends React.Component<
       submitButton,
       abortButton,
     } = this.props
+    const { conflictEditorPath } = this.state
+
+    if (conflictEditorPath !== null) {
+      return (
+        <ConflictEditorDialog
+          dispatcher={this.props.dispatcher}
+          repository={this.props.repository}
+          path={conflictEditorPath}
+          ourBranch={this.props.ourBranch}
+          theirBranch={this.props.theirBranch}
+          onDismissed={this.onConflictEditorDismissed}
+        />
+      )
+    }
 
     const unmergedFiles = getUnmergedFiles(this.props.workingDirectory)
     const conflictedFiles = getConflictedFiles(
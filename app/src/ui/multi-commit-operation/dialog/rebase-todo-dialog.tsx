@@ -0,0 +1,228 @@
+import * as React from 'react'
+import classNames from 'classnames'
+import { Dialog, DialogContent, DialogFooter } from '../../dialog'
+import { OkCancelButtonGroup } from '../../dialog/ok-cancel-button-group'
+import { Commit } from '../../../models/commit'
+import { RebaseTodoAction, RebaseTodoItem } from '../../../models/rebase'
+import { Select } from '../../lib/select'
+import { TextArea } from '../../lib/text-area'
+import { RichText } from '../../lib/rich-text'
+
+/** The label and description shown for each of the interactive rebase actions */
+const todoActions: ReadonlyArray<{
+  readonly action: RebaseTodoAction
+  readonly label: string
+}> = [
+  { action: RebaseTodoAction.Pick, label: 'Pick' },
+  { action: RebaseTodoAction.Reword, label: 'Reword' },
+  { action: RebaseTodoAction.Edit, label: 'Edit' },
+  { action: RebaseTodoAction.Squash, label: 'Squash into previous' },
+  { action: RebaseTodoAction.Fixup, label: 'Fixup into previous' },
+  { action: RebaseTodoAction.Drop, label: 'Drop' },
+]
+
+/** Get the full message of a commit, used as the default when rewording it */
+function getCommitMessage(commit: Commit) {
+  return commit.body.length > 0
+    ? `${commit.summary}\n\n${commit.body}`
+    : commit.summary
+}
+
+/**
+ * Get the reason the todo list cannot be used to start an interactive
+ * rebase, or null if it is valid.
+ */
+function getTodoError(todo: ReadonlyArray<RebaseTodoItem>): string | null {
+  const retained = todo.filter(i => i.action !== RebaseTodoAction.Drop)
+
+  if (retained.length === 0) {
+    return 'At least one commit must be kept.'
+  }
+
+  const { action } = retained[0]
+  if (action === RebaseTodoAction.Squash || action === RebaseTodoAction.Fixup) {
+    return 'The oldest commit that is kept cannot be squashed or fixed up as there is no previous commit to combine it with.'
+  }
+
+  if (
+    todo.some(
+      i =>
+        i.action === RebaseTodoAction.Reword &&
+        (i.message === undefined || i.message.trim().length === 0)
+    )
+  ) {
+    return 'Reworded commits must have a message.'
+  }
+
+  return null
+}
+
+interface IRebaseTodoItemRowProps {
+  readonly item: RebaseTodoItem
+  readonly index: number
+  readonly emoji: Map<string, string>
+  readonly onActionChanged: (index: number, action: RebaseTodoAction) => void
+  readonly onMessageChanged: (index: number, message: string) => void
+}
+
+/** A commit in the todo list along with the action planned for it */
+class RebaseTodoItemRow extends React.Component<IRebaseTodoItemRowProps> {
+  private onActionChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    const action = event.currentTarget.value as RebaseTodoAction
+    this.props.onActionChanged(this.props.index, action)
+  }
+
+  private onMessageChanged = (message: string) => {
+    this.props.onMessageChanged(this.props.index, message)
+  }
+
+  public render() {
+    const { item, emoji } = this.props
+    const { action, commit, message } = item
+
+    return (
+      <li className={classNames('rebase-todo-item', action)}>
+        <div className="rebase-todo-commit">
+          <Select value={action} onChange={this.onActionChanged}>
+            {todoActions.map(a => (
+              <option key={a.action} value={a.action}>
+                {a.label}
+              </option>
+            ))}
+          </Select>
+          <RichText
+            className="summary"
+            emoji={emoji}
+            text={commit.summary}
+            renderUrlsAsLinks={false}
+          />
+          <span className="sha">{commit.shortSha}</span>
+        </div>
+        {action === RebaseTodoAction.Reword && (
+          <TextArea
+            textareaClassName="rebase-todo-message"
+            placeholder="Commit message"
+            rows={3}
+            value={message ?? ''}
+            onValueChanged={this.onMessageChanged}
+          />
+        )}
+      </li>
+    )
+  }
+}
+
+interface IRebaseTodoDialogProps {
+  /** The commits to rebase, ordered from oldest to newest */
+  readonly commits: ReadonlyArray<Commit>
+
+  /** The emoji map for showing commit emoji's */
+  readonly emoji: Map<string, string>
+
+  /** Called with the planned todo list when the user starts the rebase */
+  readonly onSubmit: (todo: ReadonlyArray<RebaseTodoItem>) => void
+  readonly onDismissed: () => void
+}
+
+interface IRebaseTodoDialogState {
+  readonly todo: ReadonlyArray<RebaseTodoItem>
+}
+
+/**
+ * Dialog for planning an interactive rebase, where the user picks whether to
+ * keep, reword, edit, squash, fixup or drop each commit.
+ */
+export class RebaseTodoDialog extends React.Component<
+  IRebaseTodoDialogProps,
+  IRebaseTodoDialogState
+> {
+  public constructor(props: IRebaseTodoDialogProps) {
+    super(props)
+
+    this.state = {
+      todo: props.commits.map(commit => ({
+        action: RebaseTodoAction.Pick,
+        commit,
+      })),
+    }
+  }
+
+  public render() {
+    const { todo } = this.state
+    const error = getTodoError(todo)
+
+    return (
+      <Dialog
+        id="rebase-todo"
+        title={__DARWIN__ ? 'Interactive Rebase' : 'Interactive rebase'}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <p>
+            Choose what to do with each commit, listed from oldest to newest.
+            The rebase will stop at commits marked for editing so that you can
+            amend them from the Changes tab.
+          </p>
+          <ol className="rebase-todo-list">
+            {todo.map((item, index) => (
+              <RebaseTodoItemRow
+                key={item.commit.sha}
+                item={item}
+                index={index}
+                emoji={this.props.emoji}
+                onActionChanged={this.onActionChanged}
+                onMessageChanged={this.onMessageChanged}
+              />
+            ))}
+          </ol>
+          {error !== null && <p className="rebase-todo-error">{error}</p>}
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={
+              __DARWIN__
+                ? 'Begin Interactive Rebase'
+                : 'Begin interactive rebase'
+            }
+            okButtonDisabled={error !== null}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private updateTodoItem(
+    index: number,
+    update: (item: RebaseTodoItem) => RebaseTodoItem
+  ) {
+    const todo = [...this.state.todo]
+    todo[index] = update(todo[index])
+    this.setState({ todo })
+  }
+
+  private onActionChanged = (index: number, action: RebaseTodoAction) => {
+    this.updateTodoItem(index, item => ({
+      ...item,
+      action,
+      message:
+        action === RebaseTodoAction.Reword
+          ? item.message ?? getCommitMessage(item.commit)
+          : item.message,
+    }))
+  }
+
+  private onMessageChanged = (index: number, message: string) => {
+    this.updateTodoItem(index, item => ({ ...item, message }))
+  }
+
+  private onSubmit = () => {
+    const todo = this.state.todo.map(item =>
+      item.action === RebaseTodoAction.Reword
+        ? { ...item, message: item.message?.trim() }
+        : { action: item.action, commit: item.commit }
+    )
+
+    this.props.onSubmit(todo)
+  }
+}
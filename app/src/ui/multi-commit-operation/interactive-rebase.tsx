@@ -0,0 +1,64 @@
+import React from 'react'
+import { MultiCommitOperationKind } from '../../models/multi-commit-operation'
+import { RebaseTodoItem } from '../../models/rebase'
+import { BaseRebase } from './base-rebase'
+import { RebaseTodoDialog } from './dialog/rebase-todo-dialog'
+
+export abstract class InteractiveRebase extends BaseRebase {
+  protected conflictDialogOperationPrefix = 'interactively rebasing'
+  protected rebaseKind = MultiCommitOperationKind.InteractiveRebase
+
+  protected onBeginOperation = () => {
+    const { repository, dispatcher, state } = this.props
+    const { operationDetail } = state
+
+    if (operationDetail.kind !== MultiCommitOperationKind.InteractiveRebase) {
+      this.endFlowInvalidState()
+      return
+    }
+
+    const { todo, lastRetainedCommitRef } = operationDetail
+
+    return dispatcher.interactiveRebase(
+      repository,
+      todo,
+      lastRetainedCommitRef,
+      true
+    )
+  }
+
+  protected renderEditRebaseTodo = (): JSX.Element | null => {
+    const { operationDetail } = this.props.state
+
+    if (operationDetail.kind !== MultiCommitOperationKind.InteractiveRebase) {
+      this.endFlowInvalidState()
+      return null
+    }
+
+    return (
+      <RebaseTodoDialog
+        key="rebase-todo"
+        commits={operationDetail.commits}
+        emoji={this.props.emoji}
+        onSubmit={this.onSubmitTodo}
+        onDismissed={this.onFlowEnded}
+      />
+    )
+  }
+
+  private onSubmitTodo = (todo: ReadonlyArray<RebaseTodoItem>) => {
+    const { repository, dispatcher, state } = this.props
+    const { operationDetail } = state
+
+    if (operationDetail.kind !== MultiCommitOperationKind.InteractiveRebase) {
+      this.endFlowInvalidState()
+      return
+    }
+
+    return dispatcher.interactiveRebase(
+      repository,
+      todo,
+      operationDetail.lastRetainedCommitRef
+    )
+  }
+}
@@ -7,6 +7,7 @@ import { Merge } from './merge'
 import { Reorder } from './reorder'
 import { CherryPick } from './cherry-pick'
 import { Rebase } from './rebase'
+import { InteractiveRebase } from './interactive-rebase'
 
 /** A component for managing the views of a multi commit operation. */
 export class MultiCommitOperation extends React.Component<IMultiCommitOperationProps> {
@@ -68,6 +69,23 @@ export class MultiCommitOperation extends React.Component<IMultiCommitOperationP
             openRepositoryInShell={this.props.openRepositoryInShell}
           />
         )
+      case MultiCommitOperationKind.InteractiveRebase:
+        return (
+          <InteractiveRebase
+            repository={this.props.repository}
+            dispatcher={this.props.dispatcher}
+            state={this.props.state}
+            conflictState={this.props.conflictState}
+            emoji={this.props.emoji}
+            workingDirectory={this.props.workingDirectory}
+            askForConfirmationOnForcePush={
+              this.props.askForConfirmationOnForcePush
+            }
+            openFileInExternalEditor={this.props.openFileInExternalEditor}
+            resolvedExternalEditor={this.props.resolvedExternalEditor}
+            openRepositoryInShell={this.props.openRepositoryInShell}
+          />
+        )
       default:
         return assertNever(
           kind,
@@ -115,9 +115,11 @@ export class PullRequestReview extends React.Component<
       'with-comment': this.shouldRenderCommentBubble(),
     })
 
-    const submittedAt = new Date(review.submitted_at)
-    const diff = submittedAt.getTime() - Date.now()
-    const relativeReviewDate = formatRelative(diff)
+    // Pending reviews, which haven't been submitted yet, have no date
+    const relativeReviewDate =
+      review.submitted_at === undefined
+        ? null
+        : formatRelative(new Date(review.submitted_at).getTime() - Date.now())
 
     return (
       <div className="timeline-item-container">
@@ -130,9 +132,11 @@ export class PullRequestReview extends React.Component<
               {review.user.login}
             </LinkButton>{' '}
             {verb} your pull request{' '}
-            <LinkButton uri={review.html_url} className="submission-date">
-              {relativeReviewDate}
-            </LinkButton>
+            {relativeReviewDate !== null && (
+              <LinkButton uri={review.html_url} className="submission-date">
+                {relativeReviewDate}
+              </LinkButton>
+            )}
           </div>
         </div>
         {bottomLine}
@@ -4,7 +4,12 @@ import { getDotComAPIEndpoint } from '../../lib/api'
 import { Branch } from '../../models/branch'
 import { ImageDiffType } from '../../models/diff'
 import { Repository } from '../../models/repository'
-import { DialogFooter, OkCancelButtonGroup, Dialog } from '../dialog'
+import {
+  DialogFooter,
+  OkCancelButtonGroup,
+  Dialog,
+  DialogError,
+} from '../dialog'
 import { Dispatcher } from '../dispatcher'
 import { Ref } from '../lib/ref'
 import { Octicon } from '../octicons'
@@ -13,6 +18,13 @@ import { OpenPullRequestDialogHeader } from './open-pull-request-header'
 import { PullRequestFilesChanged } from './pull-request-files-changed'
 import { PullRequestMergeStatus } from './pull-request-merge-status'
 import { ComputedAction } from '../../models/computed-action'
+import {
+  getPullRequestDetails,
+  IPullRequestDetailsValues,
+  PullRequestDetails,
+} from './pull-request-details'
+import { getPullRequestTemplate } from '../../lib/pull-request-template'
+import { getCommit } from '../../lib/git'
 
 interface IOpenPullRequestDialogProps {
   readonly repository: Repository
@@ -75,24 +87,109 @@ interface IOpenPullRequestDialogProps {
   readonly onDismissed: () => void
 }
 
+interface IOpenPullRequestDialogState {
+  /** The details of the pull request to create */
+  readonly details: IPullRequestDetailsValues
+
+  /** Whether the pull request is being created */
+  readonly isCreating: boolean
+
+  /** The reason GitHub refused to create the pull request, if any */
+  readonly error: Error | null
+}
+
 /** The component for start a pull request. */
-export class OpenPullRequestDialog extends React.Component<IOpenPullRequestDialogProps> {
-  private onCreatePullRequest = () => {
+export class OpenPullRequestDialog extends React.Component<
+  IOpenPullRequestDialogProps,
+  IOpenPullRequestDialogState
+> {
+  public constructor(props: IOpenPullRequestDialogProps) {
+    super(props)
+
+    this.state = {
+      details: {
+        title: props.currentBranch.nameWithoutRemote,
+        body: '',
+        draft: false,
+        reviewers: '',
+        assignees: '',
+        labels: '',
+      },
+      isCreating: false,
+      error: null,
+    }
+  }
+
+  public componentDidMount() {
+    this.loadDefaultDetails()
+  }
+
+  /**
+   * Use the summary of the only commit as the title like GitHub does, and the
+   * pull request template of the repository as the description
+   */
+  private async loadDefaultDetails() {
+    const { repository, pullRequestState } = this.props
+    const { commitSHAs } = pullRequestState
+
+    const commit =
+      commitSHAs !== null && commitSHAs.length === 1
+        ? await getCommit(repository, commitSHAs[0])
+        : null
+    const template = await getPullRequestTemplate(repository)
+
+    // Don't overwrite anything the user has typed in the meantime
+    const { details } = this.state
+    const title =
+      commit !== null &&
+      details.title === this.props.currentBranch.nameWithoutRemote
+        ? commit.summary
+        : details.title
+    const body =
+      template !== null && details.body.length === 0 ? template : details.body
+
+    this.setState({ details: { ...details, title, body } })
+  }
+
+  private onCreatePullRequest = async () => {
     const { currentBranchHasPullRequest, dispatcher, repository, onDismissed } =
       this.props
 
     if (currentBranchHasPullRequest) {
       dispatcher.showPullRequest(repository)
-    } else {
-      const { baseBranch } = this.props.pullRequestState
-      dispatcher.createPullRequest(repository, baseBranch)
-      // TODO: create pr from dialog pr stat?
-      dispatcher.recordCreatePullRequest()
+      onDismissed()
+      return
     }
 
+    const { baseBranch } = this.props.pullRequestState
+    const details = getPullRequestDetails(this.state.details)
+
+    this.setState({ isCreating: true, error: null })
+
+    try {
+      const created = await dispatcher.submitPullRequest(
+        repository,
+        baseBranch,
+        details
+      )
+
+      if (!created) {
+        this.setState({ isCreating: false })
+        return
+      }
+    } catch (error) {
+      this.setState({ isCreating: false, error })
+      return
+    }
+
+    dispatcher.recordCreatePullRequest()
     onDismissed()
   }
 
+  private onDetailsChanged = (details: IPullRequestDetailsValues) => {
+    this.setState({ details })
+  }
+
   private onBranchChange = (branch: Branch) => {
     const { repository } = this.props
     this.props.dispatcher.updatePullRequestBaseBranch(repository, branch)
@@ -121,9 +218,31 @@ export class OpenPullRequestDialog extends React.Component<IOpenPullRequestDialo
     )
   }
 
+  private renderDetails() {
+    const { currentBranchHasPullRequest, pullRequestState } = this.props
+    const { commitSHAs } = pullRequestState
+
+    if (
+      currentBranchHasPullRequest ||
+      commitSHAs === null ||
+      commitSHAs.length === 0
+    ) {
+      return null
+    }
+
+    return (
+      <PullRequestDetails
+        values={this.state.details}
+        disabled={this.state.isCreating}
+        onValuesChanged={this.onDetailsChanged}
+      />
+    )
+  }
+
   private renderContent() {
     return (
       <div className="open-pull-request-content">
+        {this.renderDetails()}
         {this.renderNoChanges()}
         {this.renderFilesChanged()}
       </div>
@@ -229,7 +348,12 @@ export class OpenPullRequestDialog extends React.Component<IOpenPullRequestDialo
           okButtonText={okButton}
           okButtonTitle={buttonTitle}
           cancelButtonText="Cancel"
-          okButtonDisabled={commitSHAs === null || commitSHAs.length === 0}
+          okButtonDisabled={
+            commitSHAs === null ||
+            commitSHAs.length === 0 ||
+            (!currentBranchHasPullRequest &&
+              this.state.details.title.trim().length === 0)
+          }
         />
       </DialogFooter>
     )
@@ -241,8 +365,13 @@ export class OpenPullRequestDialog extends React.Component<IOpenPullRequestDialo
         className="open-pull-request"
         onSubmit={this.onCreatePullRequest}
         onDismissed={this.props.onDismissed}
+        loading={this.state.isCreating}
+        disabled={this.state.isCreating}
       >
         {this.renderHeader()}
+        {this.state.error !== null && (
+          <DialogError>{this.state.error.message}</DialogError>
+        )}
         {this.renderContent()}
         {this.renderFooter()}
       </Dialog>
@@ -0,0 +1,139 @@
+import * as React from 'react'
+import { IPullRequestDetails } from '../../models/pull-request'
+import { TextBox } from '../lib/text-box'
+import { TextArea } from '../lib/text-area'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+
+/** The details of a pull request as they're being edited */
+export interface IPullRequestDetailsValues {
+  readonly title: string
+  readonly body: string
+  readonly draft: boolean
+
+  /** The comma separated logins of the users to request reviews from */
+  readonly reviewers: string
+
+  /** The comma separated logins of the users to assign */
+  readonly assignees: string
+
+  /** The comma separated names of the labels to add */
+  readonly labels: string
+}
+
+/** Split a comma or whitespace separated list, ignoring empty entries */
+function parseList(text: string, stripMentions: boolean) {
+  return text
+    .split(/[,\s]+/)
+    .map(v => (stripMentions ? v.replace(/^@/, '') : v))
+    .filter(v => v.length > 0)
+}
+
+/** Get the details of the pull request to create from the edited values */
+export function getPullRequestDetails(
+  values: IPullRequestDetailsValues
+): IPullRequestDetails {
+  return {
+    title: values.title.trim(),
+    body: values.body,
+    draft: values.draft,
+    reviewers: parseList(values.reviewers, true),
+    assignees: parseList(values.assignees, true),
+    labels: values.labels
+      .split(',')
+      .map(l => l.trim())
+      .filter(l => l.length > 0),
+  }
+}
+
+interface IPullRequestDetailsProps {
+  readonly values: IPullRequestDetailsValues
+
+  /** Whether the pull request is being created */
+  readonly disabled: boolean
+
+  readonly onValuesChanged: (values: IPullRequestDetailsValues) => void
+}
+
+/**
+ * The form for editing the title, description, draft state, reviewers,
+ * assignees and labels of a pull request to create.
+ */
+export class PullRequestDetails extends React.Component<IPullRequestDetailsProps> {
+  public render() {
+    const { values, disabled } = this.props
+
+    return (
+      <div className="pull-request-details">
+        <div className="pull-request-description">
+          <TextBox
+            label="Title"
+            value={values.title}
+            disabled={disabled}
+            onValueChanged={this.onTitleChanged}
+          />
+          <TextArea
+            label="Description"
+            value={values.body}
+            rows={6}
+            disabled={disabled}
+            onValueChanged={this.onBodyChanged}
+          />
+        </div>
+        <div className="pull-request-metadata">
+          <TextBox
+            label="Reviewers"
+            placeholder="Comma separated usernames"
+            value={values.reviewers}
+            disabled={disabled}
+            onValueChanged={this.onReviewersChanged}
+          />
+          <TextBox
+            label="Assignees"
+            placeholder="Comma separated usernames"
+            value={values.assignees}
+            disabled={disabled}
+            onValueChanged={this.onAssigneesChanged}
+          />
+          <TextBox
+            label="Labels"
+            placeholder="Comma separated labels"
+            value={values.labels}
+            disabled={disabled}
+            onValueChanged={this.onLabelsChanged}
+          />
+          <Checkbox
+            label={__DARWIN__ ? 'Create as Draft' : 'Create as draft'}
+            value={values.draft ? CheckboxValue.On : CheckboxValue.Off}
+            disabled={disabled}
+            onChange={this.onDraftChanged}
+          />
+        </div>
+      </div>
+    )
+  }
+
+  private onTitleChanged = (title: string) => {
+    this.props.onValuesChanged({ ...this.props.values, title })
+  }
+
+  private onBodyChanged = (body: string) => {
+    this.props.onValuesChanged({ ...this.props.values, body })
+  }
+
+  private onReviewersChanged = (reviewers: string) => {
+    this.props.onValuesChanged({ ...this.props.values, reviewers })
+  }
+
+  private onAssigneesChanged = (assignees: string) => {
+    this.props.onValuesChanged({ ...this.props.values, assignees })
+  }
+
+  private onLabelsChanged = (labels: string) => {
+    this.props.onValuesChanged({ ...this.props.values, labels })
+  }
+
+  private onDraftChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    const draft = event.currentTarget.checked
+    this.props.onValuesChanged({ ...this.props.values, draft })
+  }
+}
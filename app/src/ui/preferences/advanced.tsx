@@ -22,6 +22,7 @@ interface IAdvancedPreferencesProps {
   readonly notificationsEnabled: boolean
   readonly uncommittedChangesStrategy: UncommittedChangesStrategy
   readonly repositoryIndicatorsEnabled: boolean
+  readonly useGitIndex: boolean
   readonly onUseWindowsOpenSSHChanged: (checked: boolean) => void
   readonly onNotificationsEnabledChanged: (checked: boolean) => void
   readonly onOptOutofReportingChanged: (checked: boolean) => void
@@ -29,6 +30,7 @@ interface IAdvancedPreferencesProps {
     value: UncommittedChangesStrategy
   ) => void
   readonly onRepositoryIndicatorsEnabledChanged: (enabled: boolean) => void
+  readonly onUseGitIndexChanged: (useGitIndex: boolean) => void
 }
 
 interface IAdvancedPreferencesState {
@@ -88,6 +90,10 @@ export class Advanced extends React.Component<
     this.props.onRepositoryIndicatorsEnabledChanged(event.currentTarget.checked)
   }
 
+  private onUseGitIndexChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.props.onUseGitIndexChanged(event.currentTarget.checked)
+  }
+
   private onUseWindowsOpenSSHChanged = (
     event: React.FormEvent<HTMLInputElement>
   ) => {
@@ -161,6 +167,22 @@ export class Advanced extends React.Component<
             list. Disabling this may improve performance with many repositories.
           </p>
         </div>
+        <div className="advanced-section">
+          <h2>Staging</h2>
+          <Checkbox
+            label="Stage changes directly in the Git index"
+            value={
+              this.props.useGitIndex ? CheckboxValue.On : CheckboxValue.Off
+            }
+            onChange={this.onUseGitIndexChanged}
+          />
+          <p className="git-settings-description">
+            Selecting files and lines in the Changes view stages them right
+            away, and anything staged from the command line is kept when
+            committing. When disabled, the index is replaced with the selected
+            changes on every commit.
+          </p>
+        </div>
         {this.renderSSHSettings()}
         {this.renderNotificationsSettings()}
         <div className="advanced-section">
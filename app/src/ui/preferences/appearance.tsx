@@ -13,12 +13,15 @@ import {
 } from '../lib/vertical-segmented-control'
 import { CustomThemeSelector } from './custom-theme-selector'
 import { enableHighContrastTheme } from '../../lib/feature-flag'
+import { CommitGraphMode } from '../../models/commit-graph'
 
 interface IAppearanceProps {
   readonly selectedTheme: ApplicationTheme
   readonly customTheme?: ICustomTheme
   readonly onSelectedThemeChanged: (theme: ApplicationTheme) => void
   readonly onCustomThemeChanged: (theme: ICustomTheme) => void
+  readonly commitGraphMode: CommitGraphMode
+  readonly onCommitGraphModeChanged: (mode: CommitGraphMode) => void
 }
 
 interface IAppearanceState {
@@ -54,6 +57,25 @@ const themes: ReadonlyArray<ISegmentedItem<ApplicationTheme>> = [
   ...(supportsSystemThemeChanges() ? [systemTheme] : []),
 ]
 
+const commitGraphModes: ReadonlyArray<ISegmentedItem<CommitGraphMode>> = [
+  {
+    title: 'Hidden',
+    description: 'Show the history of the current branch as a list',
+    key: CommitGraphMode.Hidden,
+  },
+  {
+    title: __DARWIN__ ? 'Current Branch' : 'Current branch',
+    description: 'Show the graph of the history of the current branch',
+    key: CommitGraphMode.CurrentBranch,
+  },
+  {
+    title: __DARWIN__ ? 'All Branches' : 'All branches',
+    description:
+      'Show the graph of the history of all local and remote branches',
+    key: CommitGraphMode.AllBranches,
+  },
+]
+
 export class Appearance extends React.Component<
   IAppearanceProps,
   IAppearanceState
@@ -128,6 +150,14 @@ export class Appearance extends React.Component<
             customTheme={this.props.customTheme}
           />
         </Row>
+        <Row>
+          <VerticalSegmentedControl
+            label="Commit graph"
+            items={commitGraphModes}
+            selectedKey={this.props.commitGraphMode}
+            onSelectionChanged={this.props.onCommitGraphModeChanged}
+          />
+        </Row>
       </DialogContent>
     )
   }
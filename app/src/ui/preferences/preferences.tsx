@@ -40,6 +40,7 @@ import {
 } from '../../lib/helpers/default-branch'
 import { Prompts } from './prompts'
 import { Repository } from '../../models/repository'
+import { CommitGraphMode } from '../../models/commit-graph'
 
 interface IPreferencesProps {
   readonly dispatcher: Dispatcher
@@ -62,7 +63,9 @@ interface IPreferencesProps {
   readonly selectedShell: Shell
   readonly selectedTheme: ApplicationTheme
   readonly customTheme?: ICustomTheme
+  readonly commitGraphMode: CommitGraphMode
   readonly repositoryIndicatorsEnabled: boolean
+  readonly useGitIndex: boolean
 }
 
 interface IPreferencesState {
@@ -97,6 +100,7 @@ interface IPreferencesState {
    */
   readonly existingLockFilePath?: string
   readonly repositoryIndicatorsEnabled: boolean
+  readonly useGitIndex: boolean
 }
 
 /** The app-level preferences component. */
@@ -131,6 +135,7 @@ export class Preferences extends React.Component<
       availableShells: [],
       selectedShell: this.props.selectedShell,
       repositoryIndicatorsEnabled: this.props.repositoryIndicatorsEnabled,
+      useGitIndex: this.props.useGitIndex,
     }
   }
 
@@ -326,6 +331,8 @@ export class Preferences extends React.Component<
             customTheme={this.props.customTheme}
             onSelectedThemeChanged={this.onSelectedThemeChanged}
             onCustomThemeChanged={this.onCustomThemeChanged}
+            commitGraphMode={this.props.commitGraphMode}
+            onCommitGraphModeChanged={this.onCommitGraphModeChanged}
           />
         )
         break
@@ -361,6 +368,7 @@ export class Preferences extends React.Component<
             notificationsEnabled={this.state.notificationsEnabled}
             optOutOfUsageTracking={this.state.optOutOfUsageTracking}
             repositoryIndicatorsEnabled={this.state.repositoryIndicatorsEnabled}
+            useGitIndex={this.state.useGitIndex}
             uncommittedChangesStrategy={this.state.uncommittedChangesStrategy}
             onUseWindowsOpenSSHChanged={this.onUseWindowsOpenSSHChanged}
             onNotificationsEnabledChanged={this.onNotificationsEnabledChanged}
@@ -371,6 +379,7 @@ export class Preferences extends React.Component<
             onRepositoryIndicatorsEnabledChanged={
               this.onRepositoryIndicatorsEnabledChanged
             }
+            onUseGitIndexChanged={this.onUseGitIndexChanged}
           />
         )
         break
@@ -388,6 +397,10 @@ export class Preferences extends React.Component<
     this.setState({ repositoryIndicatorsEnabled })
   }
 
+  private onUseGitIndexChanged = (useGitIndex: boolean) => {
+    this.setState({ useGitIndex })
+  }
+
   private onLockFileDeleted = () => {
     this.setState({ existingLockFilePath: undefined })
   }
@@ -471,6 +484,10 @@ export class Preferences extends React.Component<
     this.props.dispatcher.setCustomTheme(theme)
   }
 
+  private onCommitGraphModeChanged = (commitGraphMode: CommitGraphMode) => {
+    this.props.dispatcher.setCommitGraphMode(commitGraphMode)
+  }
+
   private renderFooter() {
     const hasDisabledError = this.state.disallowedCharactersMessage != null
 
@@ -556,6 +573,7 @@ export class Preferences extends React.Component<
     }
 
     this.props.dispatcher.setUseWindowsOpenSSH(this.state.useWindowsOpenSSH)
+    this.props.dispatcher.setUseGitIndex(this.state.useGitIndex)
     this.props.dispatcher.setNotificationsEnabled(
       this.state.notificationsEnabled
     )
@@ -32,6 +32,9 @@ interface IPullRequestQuickViewProps {
   /** When mouse leaves the PR quick view */
   readonly onMouseLeave: () => void
 
+  /** When the user chooses to merge the pull request */
+  readonly onMergePullRequest: (pullRequest: PullRequest) => void
+
   /** Map from the emoji shortcut (e.g., :+1:) to the image's local path. */
   readonly emoji: Map<string, string>
 }
@@ -89,6 +92,10 @@ export class PullRequestQuickView extends React.Component<
     this.props.dispatcher.showPullRequestByPR(this.props.pullRequest)
   }
 
+  private onMergePullRequest = () => {
+    this.props.onMergePullRequest(this.props.pullRequest)
+  }
+
   private onMouseLeave = () => {
     this.props.onMouseLeave()
   }
@@ -160,6 +167,7 @@ export class PullRequestQuickView extends React.Component<
       <header className="header">
         <Octicon symbol={OcticonSymbol.listUnordered} />
         <div className="action-needed">Review requested</div>
+        <Button onClick={this.onMergePullRequest}>Merge…</Button>
         <Button className="button-with-icon" onClick={this.onViewOnGitHub}>
           View on GitHub
           <Octicon symbol={OcticonSymbol.linkExternal} />
@@ -0,0 +1,456 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { IReflogEntry } from '../../models/reflog-entry'
+import { CommittedFileChange } from '../../models/status'
+import { IDiff, ImageDiffType } from '../../models/diff'
+import { PopupType } from '../../models/popup'
+import { List, SelectionSource } from '../lib/list'
+import { Button } from '../lib/button'
+import { Select } from '../lib/select'
+import { RelativeTime } from '../relative-time'
+import { FileList } from '../history/file-list'
+import { SeamlessDiffSwitcher } from '../diff/seamless-diff-switcher'
+import { openFile } from '../lib/open-file'
+import {
+  getChangedFiles,
+  getCommit,
+  getCommitDiff,
+  getReflogEntries,
+} from '../../lib/git'
+
+const RowHeight = 50
+const FileListWidth = 200
+
+/** The number of entries to load at a time */
+const ReflogBatchSize = 100
+
+/** If we're within this many rows from the bottom, load the next batch. */
+const CloseToBottomThreshold = 10
+
+interface IReflogDialogProps {
+  readonly repository: Repository
+  readonly dispatcher: Dispatcher
+
+  /** The names of the local branches whose reflog can be shown */
+  readonly branchNames: ReadonlyArray<string>
+
+  readonly imageDiffType: ImageDiffType
+
+  /** Whether we should display side by side diffs. */
+  readonly showSideBySideDiff: boolean
+
+  readonly onDismissed: () => void
+}
+
+interface IReflogDialogState {
+  /** The ref whose reflog is shown, `HEAD` or the name of a branch */
+  readonly ref: string
+
+  /** The entries in the reflog, or null while loading */
+  readonly entries: ReadonlyArray<IReflogEntry> | null
+
+  /** Whether all the entries in the reflog have been loaded */
+  readonly hasLoadedAllEntries: boolean
+
+  /** The selector of the selected entry, if any */
+  readonly selectedSelector: string | null
+
+  /** The files changed in the selected entry, or null while loading */
+  readonly files: ReadonlyArray<CommittedFileChange> | null
+  readonly selectedFile: CommittedFileChange | null
+  readonly diff: IDiff | null
+
+  /** Whether an operation on the selected entry is in progress */
+  readonly isBusy: boolean
+}
+
+/**
+ * Dialog listing the entries in the reflog of HEAD or a branch, with the
+ * changes in the commit of the selected entry, for recovering commits which
+ * were lost after a reset, rebase, squash or undo.
+ */
+export class ReflogDialog extends React.Component<
+  IReflogDialogProps,
+  IReflogDialogState
+> {
+  private loadingEntries = false
+
+  public constructor(props: IReflogDialogProps) {
+    super(props)
+
+    this.state = {
+      ref: 'HEAD',
+      entries: null,
+      hasLoadedAllEntries: false,
+      selectedSelector: null,
+      files: null,
+      selectedFile: null,
+      diff: null,
+      isBusy: false,
+    }
+  }
+
+  public componentDidMount() {
+    this.loadFirstEntries()
+  }
+
+  public componentDidUpdate(
+    prevProps: IReflogDialogProps,
+    prevState: IReflogDialogState
+  ) {
+    if (this.state.ref !== prevState.ref) {
+      this.loadFirstEntries()
+    } else if (this.state.selectedSelector !== prevState.selectedSelector) {
+      this.loadFiles()
+    }
+  }
+
+  private async loadFirstEntries() {
+    await this.loadNextEntries()
+
+    const { entries } = this.state
+    if (entries !== null && entries.length > 0) {
+      this.selectEntry(entries[0])
+    }
+  }
+
+  private async loadNextEntries() {
+    const { repository } = this.props
+    const { ref, entries, hasLoadedAllEntries } = this.state
+
+    if (this.loadingEntries || hasLoadedAllEntries) {
+      return
+    }
+
+    this.loadingEntries = true
+
+    try {
+      const existing = entries ?? []
+      const next = await getReflogEntries(
+        repository,
+        ref,
+        ReflogBatchSize,
+        existing.length
+      )
+
+      // The ref may have changed while loading
+      if (this.state.ref === ref) {
+        this.setState({
+          entries: [...existing, ...next],
+          hasLoadedAllEntries: next.length < ReflogBatchSize,
+        })
+      }
+    } catch (e) {
+      log.error(`Could not load the reflog of ${ref}`, e)
+      this.setState({ entries: entries ?? [], hasLoadedAllEntries: true })
+    } finally {
+      this.loadingEntries = false
+    }
+
+    // Start over if the ref changed while loading
+    if (this.state.ref !== ref && this.state.entries === null) {
+      this.loadFirstEntries()
+    }
+  }
+
+  private getSelectedEntry() {
+    const { entries, selectedSelector } = this.state
+    return entries?.find(e => e.selector === selectedSelector) ?? null
+  }
+
+  private selectEntry(entry: IReflogEntry | null) {
+    this.setState({
+      selectedSelector: entry?.selector ?? null,
+      files: null,
+      selectedFile: null,
+      diff: null,
+    })
+  }
+
+  private async loadFiles() {
+    const entry = this.getSelectedEntry()
+
+    if (entry === null) {
+      return
+    }
+
+    let files: ReadonlyArray<CommittedFileChange> = []
+    try {
+      const changeset = await getChangedFiles(this.props.repository, entry.sha)
+      files = changeset.files
+    } catch (e) {
+      log.error(`Could not load files for ${entry.selector}`, e)
+    }
+
+    // The selection may have changed while loading
+    if (this.state.selectedSelector !== entry.selector) {
+      return
+    }
+
+    this.setState({ files })
+
+    if (files.length > 0) {
+      this.onSelectedFileChanged(files[0])
+    }
+  }
+
+  private onSelectedFileChanged = async (file: CommittedFileChange) => {
+    this.setState({ selectedFile: file, diff: null })
+
+    let diff: IDiff | null = null
+    try {
+      diff = await getCommitDiff(this.props.repository, file, file.commitish)
+    } catch (e) {
+      log.error(`Could not load diff for ${file.path}`, e)
+    }
+
+    if (this.state.selectedFile === file) {
+      this.setState({ diff })
+    }
+  }
+
+  public render() {
+    return (
+      <Dialog
+        id="reflog"
+        title={__DARWIN__ ? 'Recover Lost Commits' : 'Recover lost commits'}
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <div className="reflog-header">
+            <p className="description">
+              Every change to where a branch points is recorded, including
+              resets, rebases, squashes and undone commits. Create a branch at
+              an entry or reset to it to get its commits back.
+            </p>
+            <Select
+              label={__DARWIN__ ? 'History Of' : 'History of'}
+              value={this.state.ref}
+              onChange={this.onRefChanged}
+            >
+              <option value="HEAD">HEAD</option>
+              {this.props.branchNames.map(n => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div className="reflog-container">
+            {this.renderEntries()}
+            {this.renderSelectedEntry()}
+          </div>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText="Close"
+            cancelButtonVisible={false}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderEntries() {
+    const { entries, selectedSelector } = this.state
+
+    if (entries === null) {
+      return <div className="reflog-entries empty">Loading history…</div>
+    }
+
+    if (entries.length === 0) {
+      return <div className="reflog-entries empty">No history</div>
+    }
+
+    const selectedRow = entries.findIndex(e => e.selector === selectedSelector)
+
+    return (
+      <div className="reflog-entries">
+        <List
+          rowCount={entries.length}
+          rowHeight={RowHeight}
+          rowRenderer={this.renderEntry}
+          selectedRows={selectedRow === -1 ? [] : [selectedRow]}
+          onSelectedRowChanged={this.onSelectedRowChanged}
+          onScroll={this.onScroll}
+          invalidationProps={entries}
+        />
+      </div>
+    )
+  }
+
+  private renderEntry = (row: number) => {
+    const entries = this.state.entries ?? []
+    const entry = entries[row]
+    const summary =
+      entry.summary.length > 0 ? entry.summary : 'Empty commit message'
+
+    return (
+      <div className="reflog-entry">
+        <div className="summary" title={summary}>
+          {summary}
+        </div>
+        <div className="description" title={entry.message}>
+          {entry.sha.substring(0, 7)}
+          {` • `}
+          <RelativeTime date={entry.date} abbreviate={true} />
+          {` • ${entry.message}`}
+        </div>
+      </div>
+    )
+  }
+
+  private onSelectedRowChanged = (row: number, source: SelectionSource) => {
+    this.selectEntry(this.state.entries?.[row] ?? null)
+  }
+
+  private onScroll = (scrollTop: number, clientHeight: number) => {
+    const entries = this.state.entries ?? []
+    const bottom = Math.floor((scrollTop + clientHeight) / RowHeight)
+
+    if (bottom > entries.length - CloseToBottomThreshold) {
+      this.loadNextEntries()
+    }
+  }
+
+  private renderSelectedEntry() {
+    const entry = this.getSelectedEntry()
+
+    if (entry === null) {
+      return null
+    }
+
+    const { isBusy } = this.state
+
+    return (
+      <div className="reflog-entry-details">
+        <div className="reflog-entry-header">
+          <h3 title={entry.message}>{entry.selector}</h3>
+          <Button onClick={this.onCreateBranch} disabled={isBusy}>
+            {__DARWIN__ ? 'Create Branch…' : 'Create branch…'}
+          </Button>
+          <Button
+            onClick={this.onResetToEntry}
+            disabled={isBusy}
+            tooltip="Reset the current branch to this entry, keeping the changes in the working directory"
+          >
+            {__DARWIN__ ? 'Reset to Entry' : 'Reset to entry'}
+          </Button>
+        </div>
+        <div className="reflog-entry-changes">
+          {this.renderFileList()}
+          {this.renderDiff()}
+        </div>
+      </div>
+    )
+  }
+
+  private renderFileList() {
+    const { files, selectedFile } = this.state
+
+    return (
+      <div className="reflog-entry-files" style={{ width: FileListWidth }}>
+        <FileList
+          files={files ?? []}
+          selectedFile={selectedFile}
+          onSelectedFileChanged={this.onSelectedFileChanged}
+          availableWidth={FileListWidth}
+        />
+      </div>
+    )
+  }
+
+  private renderDiff() {
+    const { selectedFile, diff } = this.state
+
+    if (selectedFile === null) {
+      return null
+    }
+
+    return (
+      <SeamlessDiffSwitcher
+        repository={this.props.repository}
+        readOnly={true}
+        file={selectedFile}
+        diff={diff}
+        imageDiffType={this.props.imageDiffType}
+        hideWhitespaceInDiff={false}
+        showSideBySideDiff={this.props.showSideBySideDiff}
+        onOpenBinaryFile={this.onOpenBinaryFile}
+        onChangeImageDiffType={this.onChangeImageDiffType}
+        onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
+      />
+    )
+  }
+
+  private onRefChanged = (event: React.FormEvent<HTMLSelectElement>) => {
+    this.setState({
+      ref: event.currentTarget.value,
+      entries: null,
+      hasLoadedAllEntries: false,
+      selectedSelector: null,
+      files: null,
+      selectedFile: null,
+      diff: null,
+    })
+  }
+
+  private onOpenBinaryFile = (fullPath: string) => {
+    openFile(fullPath, this.props.dispatcher)
+  }
+
+  private onChangeImageDiffType = (imageDiffType: ImageDiffType) => {
+    this.props.dispatcher.changeImageDiffType(imageDiffType)
+  }
+
+  private onHideWhitespaceInDiffChanged = (hideWhitespaceInDiff: boolean) => {
+    // Hiding whitespace isn't supported when previewing reflog entries
+  }
+
+  private onCreateBranch = () => {
+    const { dispatcher, repository } = this.props
+    const entry = this.getSelectedEntry()
+
+    if (entry === null) {
+      return
+    }
+
+    dispatcher.showPopup({
+      type: PopupType.CreateBranch,
+      repository,
+      targetCommit: { sha: entry.sha, summary: entry.summary },
+    })
+  }
+
+  private onResetToEntry = async () => {
+    const { dispatcher, repository } = this.props
+    const entry = this.getSelectedEntry()
+
+    if (entry === null) {
+      return
+    }
+
+    this.setState({ isBusy: true })
+
+    try {
+      const commit = await getCommit(repository, entry.sha)
+
+      if (commit === null) {
+        log.error(`Could not find the commit of ${entry.selector}`)
+        return
+      }
+
+      // This warns about changes in the working directory before resetting,
+      // just like resetting to a commit in the history does.
+      await dispatcher.resetToCommit(repository, commit)
+    } finally {
+      this.setState({ isBusy: false })
+    }
+
+    this.props.onDismissed()
+  }
+}
@@ -1,6 +1,8 @@
+import * as Path from 'path'
 import {
   Repository,
   ILocalRepositoryState,
+  LinkedWorkTree,
   nameOf,
 } from '../../models/repository'
 import { CloningRepository } from '../../models/cloning-repository'
@@ -8,6 +10,7 @@ import { getDotComAPIEndpoint } from '../../lib/api'
 import { caseInsensitiveCompare } from '../../lib/compare'
 import { IFilterListGroup, IFilterListItem } from '../lib/filter-list'
 import { IAheadBehind } from '../../models/branch'
+import { IRepositoryGroup } from '../../models/repository-group'
 
 /**
  * Special, reserved repository group names
@@ -17,12 +20,33 @@ import { IAheadBehind } from '../../models/branch'
  * GitHub repo owner names)
  */
 export enum KnownRepositoryGroup {
+  Pinned = '_Pinned_',
   Enterprise = '_Enterprise_',
   NonGitHub = '_Non-GitHub_',
 }
 
 export type RepositoryGroupIdentifier = KnownRepositoryGroup | string
 
+const customGroupIdentifierRe = /^_Group-(\d+)_$/
+
+/** Get the identifier of the list group for a group created by the user */
+export function getCustomGroupIdentifier(
+  group: IRepositoryGroup
+): RepositoryGroupIdentifier {
+  return `_Group-${group.id}_`
+}
+
+/**
+ * Get the id of the group created by the user from the identifier of a list
+ * group, or null if the list group isn't one created by the user.
+ */
+export function getCustomGroupID(
+  identifier: RepositoryGroupIdentifier
+): number | null {
+  const m = customGroupIdentifierRe.exec(identifier)
+  return m === null ? null : parseInt(m[1], 10)
+}
+
 export type Repositoryish = Repository | CloningRepository
 
 export interface IRepositoryListItem extends IFilterListItem {
@@ -32,6 +56,12 @@ export interface IRepositoryListItem extends IFilterListItem {
   readonly needsDisambiguation: boolean
   readonly aheadBehind: IAheadBehind | null
   readonly changedFilesCount: number
+
+  /**
+   * The repository whose linked work tree this item is, or null if the
+   * item isn't a linked work tree of another repository in the list.
+   */
+  readonly mainRepository: Repository | null
 }
 
 const fallbackValue = {
@@ -39,17 +69,78 @@ const fallbackValue = {
   aheadBehind: null,
 }
 
+/**
+ * Find the repositories which are linked work trees of other repositories
+ * in the list.
+ *
+ * @returns a map from the id of each linked work tree repository to its
+ *          main repository
+ */
+export function getMainRepositories(
+  repositories: ReadonlyArray<Repositoryish>,
+  workTreesLookup: ReadonlyMap<number, ReadonlyArray<LinkedWorkTree>>
+): ReadonlyMap<number, Repository> {
+  const mainRepositoryByPath = new Map<string, Repository>()
+
+  for (const repository of repositories) {
+    if (!(repository instanceof Repository)) {
+      continue
+    }
+
+    for (const workTree of workTreesLookup.get(repository.id) ?? []) {
+      mainRepositoryByPath.set(Path.normalize(workTree.path), repository)
+    }
+  }
+
+  const mainRepositories = new Map<number, Repository>()
+
+  for (const repository of repositories) {
+    const main = mainRepositoryByPath.get(Path.normalize(repository.path))
+    if (main !== undefined && main.id !== repository.id) {
+      mainRepositories.set(repository.id, main)
+    }
+  }
+
+  return mainRepositories
+}
+
 export function groupRepositories(
   repositories: ReadonlyArray<Repositoryish>,
-  localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>
+  localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>,
+  workTreesLookup: ReadonlyMap<
+    number,
+    ReadonlyArray<LinkedWorkTree>
+  > = new Map(),
+  repositoryGroups: ReadonlyArray<IRepositoryGroup> = []
 ): ReadonlyArray<IFilterListGroup<IRepositoryListItem>> {
   const grouped = new Map<RepositoryGroupIdentifier, Repositoryish[]>()
   const gitHubOwners = new Set<string>()
+  const customGroups = new Map(repositoryGroups.map(g => [g.id, g]))
+  const mainRepositories = getMainRepositories(repositories, workTreesLookup)
+  const workTreesByMainRepository = new Map<number, Repositoryish[]>()
+
   for (const repository of repositories) {
+    // Linked work trees are listed right below their main repository
+    // rather than in the group they would otherwise belong to.
+    const mainRepository = mainRepositories.get(repository.id)
+    if (mainRepository !== undefined) {
+      const workTrees = workTreesByMainRepository.get(mainRepository.id) ?? []
+      workTrees.push(repository)
+      workTreesByMainRepository.set(mainRepository.id, workTrees)
+      continue
+    }
+
     const gitHubRepository =
       repository instanceof Repository ? repository.gitHubRepository : null
+    const customGroup =
+      repository instanceof Repository && repository.groupID !== null
+        ? customGroups.get(repository.groupID)
+        : undefined
+
     let group: RepositoryGroupIdentifier = KnownRepositoryGroup.NonGitHub
-    if (gitHubRepository) {
+    if (customGroup !== undefined) {
+      group = getCustomGroupIdentifier(customGroup)
+    } else if (gitHubRepository) {
       if (gitHubRepository.endpoint === getDotComAPIEndpoint()) {
         group = gitHubRepository.owner.login
         gitHubOwners.add(group)
@@ -71,7 +162,10 @@ export function groupRepositories(
 
   const groups = new Array<IFilterListGroup<IRepositoryListItem>>()
 
-  const addGroup = (identifier: RepositoryGroupIdentifier) => {
+  const addGroup = (
+    identifier: RepositoryGroupIdentifier,
+    customGroup?: IRepositoryGroup
+  ) => {
     const repositories = grouped.get(identifier)
     if (!repositories || repositories.length === 0) {
       return
@@ -83,10 +177,7 @@ export function groupRepositories(
       names.set(repository.name, existingCount + 1)
     }
 
-    repositories.sort((x, y) =>
-      caseInsensitiveCompare(repositorySortingKey(x), repositorySortingKey(y))
-    )
-    const items: ReadonlyArray<IRepositoryListItem> = repositories.map(r => {
+    const toListItem = (r: Repositoryish): IRepositoryListItem => {
       const nameCount = names.get(r.name) || 0
       const { aheadBehind, changedFilesCount } =
         localRepositoryStateLookup.get(r.id) || fallbackValue
@@ -98,19 +189,48 @@ export function groupRepositories(
         id: r.id.toString(),
         repository: r,
         needsDisambiguation:
-          nameCount > 1 && identifier === KnownRepositoryGroup.Enterprise,
+          nameCount > 1 &&
+          (identifier === KnownRepositoryGroup.Enterprise ||
+            customGroup !== undefined),
         aheadBehind,
         changedFilesCount,
+        mainRepository: mainRepositories.get(r.id) ?? null,
       }
-    })
+    }
+
+    repositories.sort(compareRepositories)
+
+    const items = new Array<IRepositoryListItem>()
+    for (const repository of repositories) {
+      items.push(toListItem(repository))
 
-    groups.push({ identifier, items })
+      const workTrees = workTreesByMainRepository.get(repository.id) ?? []
+      workTrees.sort(compareRepositories)
+      items.push(...workTrees.map(toListItem))
+    }
+
+    groups.push(
+      customGroup === undefined
+        ? { identifier, items }
+        : {
+            identifier,
+            items,
+            filterText: customGroup.name,
+            isCollapsed: customGroup.isCollapsed,
+          }
+    )
   }
 
   // NB: This ordering reflects the order in the repositories sidebar.
+  const sortedCustomGroups = [...repositoryGroups]
+  sortedCustomGroups.sort((x, y) => caseInsensitiveCompare(x.name, y.name))
+  for (const customGroup of sortedCustomGroups) {
+    addGroup(getCustomGroupIdentifier(customGroup), customGroup)
+  }
+
   const owners = [...gitHubOwners.values()]
   owners.sort(caseInsensitiveCompare)
-  owners.forEach(addGroup)
+  owners.forEach(owner => addGroup(owner))
 
   addGroup(KnownRepositoryGroup.Enterprise)
   addGroup(KnownRepositoryGroup.NonGitHub)
@@ -165,6 +285,7 @@ export function makeRecentRepositoriesGroup(
       needsDisambiguation: nameCount > 1,
       aheadBehind,
       changedFilesCount,
+      mainRepository: null,
     })
   }
 
@@ -174,7 +295,55 @@ export function makeRecentRepositoriesGroup(
   }
 }
 
+/**
+ * Creates the group of repositories pinned by the user for use with the
+ * `FilterList` component. Pinned repositories are also listed in the group
+ * they belong to.
+ *
+ * @param repositories full list of repositories
+ * @param localRepositoryStateLookup cache of local state about full list of repositories
+ */
+export function makePinnedRepositoriesGroup(
+  repositories: ReadonlyArray<Repositoryish>,
+  localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>
+): IFilterListGroup<IRepositoryListItem> {
+  const pinned = repositories.filter(
+    (r): r is Repository => r instanceof Repository && r.isPinned
+  )
+  pinned.sort(compareRepositories)
+
+  const names = new Map<string, number>()
+  for (const repository of pinned) {
+    const name = repositorySortingKey(repository)
+    names.set(name, (names.get(name) || 0) + 1)
+  }
+
+  const items = pinned.map(repository => {
+    const { aheadBehind, changedFilesCount } =
+      localRepositoryStateLookup.get(repository.id) || fallbackValue
+    const nameCount = names.get(repositorySortingKey(repository)) || 0
+
+    return {
+      text: [repository.alias ?? repository.name, nameOf(repository)],
+      id: repository.id.toString(),
+      repository,
+      needsDisambiguation: nameCount > 1,
+      aheadBehind,
+      changedFilesCount,
+      mainRepository: null,
+    }
+  })
+
+  return {
+    identifier: KnownRepositoryGroup.Pinned,
+    items,
+  }
+}
+
 // Use either the configured alias or the repository name when sorting the
 // repository list.
 const repositorySortingKey = (r: Repositoryish) =>
   r instanceof Repository && r.alias !== null ? r.alias : r.name
+
+const compareRepositories = (x: Repositoryish, y: Repositoryish) =>
+  caseInsensitiveCompare(repositorySortingKey(x), repositorySortingKey(y))
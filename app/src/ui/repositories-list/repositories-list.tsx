@@ -8,10 +8,17 @@ import {
   RepositoryGroupIdentifier,
   KnownRepositoryGroup,
   makeRecentRepositoriesGroup,
+  makePinnedRepositoriesGroup,
+  getCustomGroupID,
 } from './group-repositories'
+import { RepositoryGroupHeader } from './repository-group-header'
 import { FilterList, IFilterListGroup } from '../lib/filter-list'
 import { IMatches } from '../../lib/fuzzy-find'
-import { ILocalRepositoryState, Repository } from '../../models/repository'
+import {
+  ILocalRepositoryState,
+  LinkedWorkTree,
+  Repository,
+} from '../../models/repository'
 import { Dispatcher } from '../dispatcher'
 import { Button } from '../lib/button'
 import { Octicon } from '../octicons'
@@ -19,6 +26,9 @@ import * as OcticonSymbol from '../octicons/octicons.generated'
 import { showContextualMenu } from '../../lib/menu-item'
 import { IMenuItem } from '../../lib/menu-item'
 import { PopupType } from '../../models/popup'
+import { IRepositoryGroup } from '../../models/repository-group'
+import { BulkRepositoryOperationKind } from '../../models/bulk-repository-operation'
+import { ClickSource } from '../lib/list'
 import { encodePathAsUrl } from '../../lib/path'
 import { TooltippedContent } from '../lib/tooltipped-content'
 import memoizeOne from 'memoize-one'
@@ -38,6 +48,12 @@ interface IRepositoriesListProps {
     ILocalRepositoryState
   >
 
+  /** The linked work trees of each repository, keyed by the repository id */
+  readonly workTreesLookup: ReadonlyMap<number, ReadonlyArray<LinkedWorkTree>>
+
+  /** The repository groups created by the user */
+  readonly repositoryGroups: ReadonlyArray<IRepositoryGroup>
+
   /** Called when a repository has been selected. */
   readonly onSelectionChanged: (repository: Repositoryish) => void
 
@@ -74,6 +90,14 @@ interface IRepositoriesListProps {
   readonly dispatcher: Dispatcher
 }
 
+interface IRepositoriesListState {
+  /**
+   * The ids of the repositories selected for an operation on many
+   * repositories at once
+   */
+  readonly bulkSelection: ReadonlySet<number>
+}
+
 const RowHeight = 29
 
 /**
@@ -100,7 +124,7 @@ function findMatchingListItem(
 /** The list of user-added repositories. */
 export class RepositoriesList extends React.Component<
   IRepositoriesListProps,
-  {}
+  IRepositoriesListState
 > {
   /**
    * A memoized function for grouping repositories for display
@@ -111,11 +135,18 @@ export class RepositoriesList extends React.Component<
   private getRepositoryGroups = memoizeOne(
     (
       repositories: ReadonlyArray<Repositoryish> | null,
-      localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>
+      localRepositoryStateLookup: ReadonlyMap<number, ILocalRepositoryState>,
+      workTreesLookup: ReadonlyMap<number, ReadonlyArray<LinkedWorkTree>>,
+      repositoryGroups: ReadonlyArray<IRepositoryGroup>
     ) =>
       repositories === null
         ? []
-        : groupRepositories(repositories, localRepositoryStateLookup)
+        : groupRepositories(
+            repositories,
+            localRepositoryStateLookup,
+            workTreesLookup,
+            repositoryGroups
+          )
   )
 
   /**
@@ -129,12 +160,19 @@ export class RepositoriesList extends React.Component<
    */
   private getSelectedListItem = memoizeOne(findMatchingListItem)
 
+  public constructor(props: IRepositoriesListProps) {
+    super(props)
+
+    this.state = { bulkSelection: new Set() }
+  }
+
   private renderItem = (item: IRepositoryListItem, matches: IMatches) => {
     const repository = item.repository
     return (
       <RepositoryListItem
         key={repository.id}
         repository={repository}
+        mainRepository={item.mainRepository}
         needsDisambiguation={item.needsDisambiguation}
         askForConfirmationOnRemoveRepository={
           this.props.askForConfirmationOnRemoveRepository
@@ -146,17 +184,25 @@ export class RepositoriesList extends React.Component<
         onOpenInExternalEditor={this.props.onOpenInExternalEditor}
         onChangeRepositoryAlias={this.onChangeRepositoryAlias}
         onRemoveRepositoryAlias={this.onRemoveRepositoryAlias}
+        onRemoveWorkTree={this.onRemoveWorkTree}
+        repositoryGroups={this.props.repositoryGroups}
+        onChangeRepositoryPinned={this.onChangeRepositoryPinned}
+        onMoveRepositoryToGroup={this.onMoveRepositoryToGroup}
+        onCreateRepositoryGroup={this.onCreateRepositoryGroup}
         externalEditorLabel={this.props.externalEditorLabel}
         shellLabel={this.props.shellLabel}
         matches={matches}
         aheadBehind={item.aheadBehind}
         changedFilesCount={item.changedFilesCount}
+        isBulkSelected={this.state.bulkSelection.has(repository.id)}
       />
     )
   }
 
   private getGroupLabel(identifier: RepositoryGroupIdentifier) {
-    if (identifier === KnownRepositoryGroup.Enterprise) {
+    if (identifier === KnownRepositoryGroup.Pinned) {
+      return 'Pinned'
+    } else if (identifier === KnownRepositoryGroup.Enterprise) {
       return 'Enterprise'
     } else if (identifier === KnownRepositoryGroup.NonGitHub) {
       return 'Other'
@@ -167,6 +213,21 @@ export class RepositoriesList extends React.Component<
 
   private renderGroupHeader = (id: string) => {
     const identifier = id as RepositoryGroupIdentifier
+    const groupID = getCustomGroupID(identifier)
+    const group = this.props.repositoryGroups.find(g => g.id === groupID)
+
+    if (group !== undefined) {
+      return (
+        <RepositoryGroupHeader
+          key={identifier}
+          group={group}
+          onCollapsedChanged={this.onGroupCollapsedChanged}
+          onRepositoryDropped={this.onRepositoryDropped}
+          onContextMenu={this.onGroupContextMenu}
+        />
+      )
+    }
+
     const label = this.getGroupLabel(identifier)
 
     return (
@@ -182,7 +243,17 @@ export class RepositoriesList extends React.Component<
     )
   }
 
-  private onItemClick = (item: IRepositoryListItem) => {
+  private onItemClick = (item: IRepositoryListItem, source: ClickSource) => {
+    const { repository } = item
+    const isToggle =
+      source.kind === 'mouseclick' &&
+      (__DARWIN__ ? source.event.metaKey : source.event.ctrlKey)
+
+    if (isToggle && repository instanceof Repository) {
+      this.toggleBulkSelection(repository)
+      return
+    }
+
     const hasIndicator =
       item.changedFilesCount > 0 ||
       (item.aheadBehind !== null
@@ -192,10 +263,50 @@ export class RepositoriesList extends React.Component<
     this.props.onSelectionChanged(item.repository)
   }
 
+  private onGroupCollapsedChanged = (
+    group: IRepositoryGroup,
+    isCollapsed: boolean
+  ) => {
+    this.props.dispatcher.changeRepositoryGroupCollapsed(group, isCollapsed)
+  }
+
+  private onRepositoryDropped = (
+    group: IRepositoryGroup,
+    repositoryID: number
+  ) => {
+    const repository = this.props.repositories.find(r => r.id === repositoryID)
+
+    if (repository instanceof Repository && repository.groupID !== group.id) {
+      this.props.dispatcher.moveRepositoryToGroup(repository, group)
+    }
+  }
+
+  private onGroupContextMenu = (group: IRepositoryGroup) => {
+    const items: IMenuItem[] = [
+      {
+        label: __DARWIN__ ? 'Rename Group…' : 'Rename group…',
+        action: () =>
+          this.props.dispatcher.showPopup({
+            type: PopupType.RepositoryGroupName,
+            group,
+            repository: null,
+          }),
+      },
+      {
+        label: __DARWIN__ ? 'Remove Group' : 'Remove group',
+        action: () => this.props.dispatcher.removeRepositoryGroup(group),
+      },
+    ]
+
+    showContextualMenu(items)
+  }
+
   public render() {
     const baseGroups = this.getRepositoryGroups(
       this.props.repositories,
-      this.props.localRepositoryStateLookup
+      this.props.localRepositoryStateLookup,
+      this.props.workTreesLookup,
+      this.props.repositoryGroups
     )
 
     const selectedItem = this.getSelectedListItem(
@@ -203,7 +314,7 @@ export class RepositoriesList extends React.Component<
       this.props.selectedRepository
     )
 
-    const groups =
+    const recentGroups =
       this.props.repositories.length > recentRepositoriesThreshold
         ? [
             makeRecentRepositoriesGroup(
@@ -211,9 +322,17 @@ export class RepositoriesList extends React.Component<
               this.props.repositories,
               this.props.localRepositoryStateLookup
             ),
-            ...baseGroups,
           ]
-        : baseGroups
+        : []
+
+    const groups = [
+      makePinnedRepositoriesGroup(
+        this.props.repositories,
+        this.props.localRepositoryStateLookup
+      ),
+      ...recentGroups,
+      ...baseGroups,
+    ]
 
     return (
       <div className="repository-list">
@@ -225,11 +344,14 @@ export class RepositoriesList extends React.Component<
           renderItem={this.renderItem}
           renderGroupHeader={this.renderGroupHeader}
           onItemClick={this.onItemClick}
+          renderPreList={this.renderBulkActions}
           renderPostFilter={this.renderPostFilter}
           renderNoItems={this.renderNoItems}
           groups={groups}
           invalidationProps={{
             repositories: this.props.repositories,
+            repositoryGroups: this.props.repositoryGroups,
+            bulkSelection: this.state.bulkSelection,
             filterText: this.props.filterText,
           }}
         />
@@ -237,6 +359,85 @@ export class RepositoriesList extends React.Component<
     )
   }
 
+  private toggleBulkSelection(repository: Repository) {
+    const bulkSelection = new Set(this.state.bulkSelection)
+
+    if (bulkSelection.has(repository.id)) {
+      bulkSelection.delete(repository.id)
+    } else {
+      bulkSelection.add(repository.id)
+    }
+
+    this.setState({ bulkSelection })
+  }
+
+  private getBulkSelectedRepositories(): ReadonlyArray<Repository> {
+    const { bulkSelection } = this.state
+    return this.props.repositories.filter(
+      (r): r is Repository => r instanceof Repository && bulkSelection.has(r.id)
+    )
+  }
+
+  private renderBulkActions = () => {
+    const count = this.getBulkSelectedRepositories().length
+
+    if (count === 0) {
+      return null
+    }
+
+    return (
+      <div className="bulk-actions">
+        <span className="bulk-selection-count">
+          {count} {count === 1 ? 'repository' : 'repositories'} selected
+        </span>
+        <Button onClick={this.onBulkActionsButtonClick}>
+          Actions
+          <Octicon symbol={OcticonSymbol.triangleDown} />
+        </Button>
+        <Button onClick={this.onClearBulkSelection}>Clear</Button>
+      </div>
+    )
+  }
+
+  private onBulkActionsButtonClick = () => {
+    const runOperation = (kind: BulkRepositoryOperationKind) => () =>
+      this.props.dispatcher.showPopup({
+        type: PopupType.BulkRepositoryOperation,
+        kind,
+        repositories: this.getBulkSelectedRepositories(),
+      })
+
+    const items: IMenuItem[] = [
+      {
+        label: 'Fetch',
+        action: runOperation(BulkRepositoryOperationKind.Fetch),
+      },
+      {
+        label: __DARWIN__
+          ? 'Pull (Fast-Forward Only)'
+          : 'Pull (fast-forward only)',
+        action: runOperation(BulkRepositoryOperationKind.Pull),
+      },
+      {
+        label: __DARWIN__
+          ? 'Check Out Default Branch'
+          : 'Check out default branch',
+        action: runOperation(BulkRepositoryOperationKind.CheckoutDefaultBranch),
+      },
+      { type: 'separator' },
+      {
+        label: 'Remove…',
+        action: runOperation(BulkRepositoryOperationKind.Remove),
+      },
+    ]
+
+    showContextualMenu(items)
+  }
+
+  private onClearBulkSelection = () => {
+    this.setState({ bulkSelection: new Set() })
+  }
+
   private renderPostFilter = () => {
     return (
       <Button
@@ -345,4 +546,37 @@ export class RepositoriesList extends React.Component<
   private onRemoveRepositoryAlias = (repository: Repository) => {
     this.props.dispatcher.changeRepositoryAlias(repository, null)
   }
+
+  private onChangeRepositoryPinned = (
+    repository: Repository,
+    isPinned: boolean
+  ) => {
+    this.props.dispatcher.changeRepositoryPinned(repository, isPinned)
+  }
+
+  private onMoveRepositoryToGroup = (
+    repository: Repository,
+    group: IRepositoryGroup | null
+  ) => {
+    this.props.dispatcher.moveRepositoryToGroup(repository, group)
+  }
+
+  private onCreateRepositoryGroup = (repository: Repository) => {
+    this.props.dispatcher.showPopup({
+      type: PopupType.RepositoryGroupName,
+      group: null,
+      repository,
+    })
+  }
+
+  private onRemoveWorkTree = (
+    mainRepository: Repository,
+    workTreeRepository: Repository
+  ) => {
+    this.props.dispatcher.showPopup({
+      type: PopupType.RemoveWorkTree,
+      repository: mainRepository,
+      workTreeRepository,
+    })
+  }
 }
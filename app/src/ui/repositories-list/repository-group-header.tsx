@@ -0,0 +1,127 @@
+import * as React from 'react'
+import classNames from 'classnames'
+
+import { IRepositoryGroup } from '../../models/repository-group'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import { TooltippedContent } from '../lib/tooltipped-content'
+import { Button } from '../lib/button'
+import { RepositoryDragDataType } from './repository-list-item'
+
+interface IRepositoryGroupHeaderProps {
+  readonly group: IRepositoryGroup
+
+  /** Called when the group should be collapsed or expanded */
+  readonly onCollapsedChanged: (
+    group: IRepositoryGroup,
+    isCollapsed: boolean
+  ) => void
+
+  /** Called when a repository has been dropped on the header */
+  readonly onRepositoryDropped: (
+    group: IRepositoryGroup,
+    repositoryID: number
+  ) => void
+
+  readonly onContextMenu: (group: IRepositoryGroup) => void
+}
+
+interface IRepositoryGroupHeaderState {
+  /** Whether a repository is being dragged over the header */
+  readonly isDropTarget: boolean
+}
+
+/**
+ * The header of a repository group created by the user, which can be
+ * collapsed and which repositories can be dragged onto.
+ */
+export class RepositoryGroupHeader extends React.Component<
+  IRepositoryGroupHeaderProps,
+  IRepositoryGroupHeaderState
+> {
+  public constructor(props: IRepositoryGroupHeaderProps) {
+    super(props)
+
+    this.state = { isDropTarget: false }
+  }
+
+  public render() {
+    const { group } = this.props
+
+    return (
+      <div
+        className={classNames(
+          'filter-list-group-header',
+          'repository-group-header',
+          { 'drop-target': this.state.isDropTarget }
+        )}
+        onContextMenu={this.onContextMenu}
+        onDragOver={this.onDragOver}
+        onDragLeave={this.onDragLeave}
+        onDrop={this.onDrop}
+      >
+        <Button
+          className="collapse-button"
+          onClick={this.onCollapseButtonClick}
+          ariaExpanded={!group.isCollapsed}
+          tooltip={group.isCollapsed ? 'Expand group' : 'Collapse group'}
+        >
+          <Octicon
+            symbol={
+              group.isCollapsed
+                ? OcticonSymbol.chevronRight
+                : OcticonSymbol.chevronDown
+            }
+          />
+        </Button>
+        <TooltippedContent
+          className="group-name"
+          tooltip={group.name}
+          onlyWhenOverflowed={true}
+          tagName="span"
+        >
+          {group.name}
+        </TooltippedContent>
+      </div>
+    )
+  }
+
+  private onCollapseButtonClick = () => {
+    const { group } = this.props
+    this.props.onCollapsedChanged(group, !group.isCollapsed)
+  }
+
+  private onContextMenu = (event: React.MouseEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    this.props.onContextMenu(this.props.group)
+  }
+
+  private onDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes(RepositoryDragDataType)) {
+      return
+    }
+
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+
+    if (!this.state.isDropTarget) {
+      this.setState({ isDropTarget: true })
+    }
+  }
+
+  private onDragLeave = () => {
+    this.setState({ isDropTarget: false })
+  }
+
+  private onDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    this.setState({ isDropTarget: false })
+
+    const id = parseInt(event.dataTransfer.getData(RepositoryDragDataType), 10)
+    if (isNaN(id)) {
+      return
+    }
+
+    event.preventDefault()
+    this.props.onRepositoryDropped(this.props.group, id)
+  }
+}
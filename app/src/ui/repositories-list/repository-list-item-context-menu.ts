@@ -1,4 +1,5 @@
 import { Repository } from '../../models/repository'
+import { IRepositoryGroup } from '../../models/repository-group'
 import { IMenuItem } from '../../lib/menu-item'
 import { Repositoryish } from './group-repositories'
 import { clipboard } from 'electron'
@@ -9,6 +10,8 @@ import {
 
 interface IRepositoryListItemContextMenuConfig {
   repository: Repositoryish
+  /** The repository this item is a linked work tree of, if any */
+  mainRepository: Repository | null
   shellLabel: string
   externalEditorLabel: string | undefined
   askForConfirmationOnRemoveRepository: boolean
@@ -19,6 +22,18 @@ interface IRepositoryListItemContextMenuConfig {
   onRemoveRepository: (repository: Repositoryish) => void
   onChangeRepositoryAlias: (repository: Repository) => void
   onRemoveRepositoryAlias: (repository: Repository) => void
+  onRemoveWorkTree: (
+    mainRepository: Repository,
+    workTreeRepository: Repository
+  ) => void
+  /** The repository groups created by the user */
+  repositoryGroups: ReadonlyArray<IRepositoryGroup>
+  onChangeRepositoryPinned: (repository: Repository, isPinned: boolean) => void
+  onMoveRepositoryToGroup: (
+    repository: Repository,
+    group: IRepositoryGroup | null
+  ) => void
+  onCreateRepositoryGroup: (repository: Repository) => void
 }
 
 export const generateRepositoryListContextMenu = (
@@ -34,6 +49,7 @@ export const generateRepositoryListContextMenu = (
 
   const items: ReadonlyArray<IMenuItem> = [
     ...buildAliasMenuItems(config),
+    ...buildGroupMenuItems(config),
     {
       label: __DARWIN__ ? 'Copy Repo Name' : 'Copy repo name',
       action: () => clipboard.writeText(repository.name),
@@ -68,11 +84,29 @@ export const generateRepositoryListContextMenu = (
       label: config.askForConfirmationOnRemoveRepository ? 'Remove…' : 'Remove',
       action: () => config.onRemoveRepository(repository),
     },
+    ...buildWorkTreeMenuItems(config),
   ]
 
   return items
 }
 
+const buildWorkTreeMenuItems = (
+  config: IRepositoryListItemContextMenuConfig
+): ReadonlyArray<IMenuItem> => {
+  const { repository, mainRepository } = config
+
+  if (!(repository instanceof Repository) || mainRepository === null) {
+    return []
+  }
+
+  return [
+    {
+      label: __DARWIN__ ? 'Remove Worktree…' : 'Remove worktree…',
+      action: () => config.onRemoveWorkTree(mainRepository, repository),
+    },
+  ]
+}
+
 const buildAliasMenuItems = (
   config: IRepositoryListItemContextMenuConfig
 ): ReadonlyArray<IMenuItem> => {
@@ -99,3 +133,47 @@ const buildAliasMenuItems = (
 
   return items
 }
+
+const buildGroupMenuItems = (
+  config: IRepositoryListItemContextMenuConfig
+): ReadonlyArray<IMenuItem> => {
+  const { repository, repositoryGroups } = config
+
+  if (!(repository instanceof Repository)) {
+    return []
+  }
+
+  const groupItems: Array<IMenuItem> = repositoryGroups.map(group => ({
+    label: group.name,
+    action: () => config.onMoveRepositoryToGroup(repository, group),
+    enabled: group.id !== repository.groupID,
+  }))
+
+  if (groupItems.length > 0) {
+    groupItems.push({ type: 'separator' })
+  }
+
+  groupItems.push({
+    label: __DARWIN__ ? 'New Group…' : 'New group…',
+    action: () => config.onCreateRepositoryGroup(repository),
+  })
+
+  if (repository.groupID !== null) {
+    groupItems.push({
+      label: __DARWIN__ ? 'Remove from Group' : 'Remove from group',
+      action: () => config.onMoveRepositoryToGroup(repository, null),
+    })
+  }
+
+  return [
+    {
+      label: repository.isPinned ? 'Unpin' : 'Pin',
+      action: () =>
+        config.onChangeRepositoryPinned(repository, !repository.isPinned),
+    },
+    {
+      label: __DARWIN__ ? 'Move to Group' : 'Move to group',
+      submenu: groupItems,
+    },
+  ]
+}
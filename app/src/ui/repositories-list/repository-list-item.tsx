@@ -13,10 +13,23 @@ import { createObservableRef } from '../lib/observable-ref'
 import { Tooltip } from '../lib/tooltip'
 import { TooltippedContent } from '../lib/tooltipped-content'
 import { generateRepositoryListContextMenu } from './repository-list-item-context-menu'
+import { IRepositoryGroup } from '../../models/repository-group'
+
+/**
+ * The type of the data set when dragging a repository in the list, holding
+ * the id of the repository.
+ */
+export const RepositoryDragDataType = 'x-github-desktop-repository-id'
 
 interface IRepositoryListItemProps {
   readonly repository: Repositoryish
 
+  /**
+   * The repository this repository is a linked work tree of, or null if
+   * it isn't a linked work tree of another repository in the list.
+   */
+  readonly mainRepository: Repository | null
+
   /** Whether the user has enabled the setting to confirm removing a repository from the app */
   readonly askForConfirmationOnRemoveRepository: boolean
 
@@ -41,6 +54,30 @@ interface IRepositoryListItemProps {
   /** Called when the repository alias should be removed */
   readonly onRemoveRepositoryAlias: (repository: Repository) => void
 
+  /** Called when the linked work tree should be removed from disk */
+  readonly onRemoveWorkTree: (
+    mainRepository: Repository,
+    workTreeRepository: Repository
+  ) => void
+
+  /** The repository groups created by the user */
+  readonly repositoryGroups: ReadonlyArray<IRepositoryGroup>
+
+  /** Called when the repository should be pinned or unpinned */
+  readonly onChangeRepositoryPinned: (
+    repository: Repository,
+    isPinned: boolean
+  ) => void
+
+  /** Called when the repository should be moved to a group, or out of one */
+  readonly onMoveRepositoryToGroup: (
+    repository: Repository,
+    group: IRepositoryGroup | null
+  ) => void
+
+  /** Called when a new group should be created for the repository */
+  readonly onCreateRepositoryGroup: (repository: Repository) => void
+
   /** The current external editor selected by the user */
   readonly externalEditorLabel?: string
 
@@ -58,6 +95,9 @@ interface IRepositoryListItemProps {
 
   /** Number of uncommitted changes */
   readonly changedFilesCount: number
+
+  /** Whether the repository is selected for an operation on many at once */
+  readonly isBulkSelected: boolean
 }
 
 /** A repository item. */
@@ -85,17 +125,30 @@ export class RepositoryListItem extends React.Component<
       alias: alias !== null,
     })
 
+    const isWorkTree = this.props.mainRepository !== null
+
     return (
       <div
         onContextMenu={this.onContextMenu}
-        className="repository-list-item"
+        draggable={repository instanceof Repository}
+        onDragStart={this.onDragStart}
+        className={classNames('repository-list-item', {
+          'work-tree': isWorkTree,
+          'bulk-selected': this.props.isBulkSelected,
+        })}
         ref={this.listItemRef}
       >
         <Tooltip target={this.listItemRef}>{this.renderTooltip()}</Tooltip>
 
         <Octicon
           className="icon-for-repository"
-          symbol={iconForRepository(repository)}
+          symbol={
+            this.props.isBulkSelected
+              ? OcticonSymbol.check
+              : isWorkTree
+              ? OcticonSymbol.fileDirectory
+              : iconForRepository(repository)
+          }
         />
 
         <div className={classNames(classNameList)}>
@@ -127,6 +180,9 @@ export class RepositoryListItem extends React.Component<
           {alias && <> ({alias})</>}
         </div>
         <div>{repo.path}</div>
+        {this.props.mainRepository !== null && (
+          <div>Worktree of {this.props.mainRepository.name}</div>
+        )}
       </>
     )
   }
@@ -138,7 +194,9 @@ export class RepositoryListItem extends React.Component<
     ) {
       return (
         nextProps.repository.id !== this.props.repository.id ||
-        nextProps.matches !== this.props.matches
+        nextProps.matches !== this.props.matches ||
+        nextProps.mainRepository !== this.props.mainRepository ||
+        nextProps.isBulkSelected !== this.props.isBulkSelected
       )
     } else {
       return true
@@ -158,13 +216,25 @@ export class RepositoryListItem extends React.Component<
       externalEditorLabel: this.props.externalEditorLabel,
       onChangeRepositoryAlias: this.props.onChangeRepositoryAlias,
       onRemoveRepositoryAlias: this.props.onRemoveRepositoryAlias,
+      onRemoveWorkTree: this.props.onRemoveWorkTree,
+      repositoryGroups: this.props.repositoryGroups,
+      onChangeRepositoryPinned: this.props.onChangeRepositoryPinned,
+      onMoveRepositoryToGroup: this.props.onMoveRepositoryToGroup,
+      onCreateRepositoryGroup: this.props.onCreateRepositoryGroup,
       onViewOnGitHub: this.props.onViewOnGitHub,
       repository: this.props.repository,
+      mainRepository: this.props.mainRepository,
       shellLabel: this.props.shellLabel,
     })
 
     showContextualMenu(items)
   }
+
+  private onDragStart = (event: React.DragEvent<HTMLDivElement>) => {
+    const { repository } = this.props
+    event.dataTransfer.setData(RepositoryDragDataType, `${repository.id}`)
+    event.dataTransfer.effectAllowed = 'move'
+  }
 }
 
 const renderRepoIndicators: React.FunctionComponent<{
@@ -0,0 +1,103 @@
+import * as React from 'react'
+
+import { Dispatcher } from '../dispatcher'
+import { nameOf, Repository } from '../../models/repository'
+import { IRepositoryGroup } from '../../models/repository-group'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { TextBox } from '../lib/text-box'
+
+interface IRepositoryGroupNameProps {
+  readonly dispatcher: Dispatcher
+  readonly onDismissed: () => void
+
+  /** The group to rename, or null to create a new group */
+  readonly group: IRepositoryGroup | null
+
+  /** The repository to move into the new group, if any */
+  readonly repository: Repository | null
+
+  /** The repository groups created by the user */
+  readonly repositoryGroups: ReadonlyArray<IRepositoryGroup>
+}
+
+interface IRepositoryGroupNameState {
+  readonly name: string
+}
+
+/** A dialog for naming a new repository group or renaming an existing one */
+export class RepositoryGroupName extends React.Component<
+  IRepositoryGroupNameProps,
+  IRepositoryGroupNameState
+> {
+  public constructor(props: IRepositoryGroupNameProps) {
+    super(props)
+
+    this.state = { name: props.group?.name ?? '' }
+  }
+
+  public render() {
+    const { group, repository } = this.props
+    const verb = group === null ? 'Create' : 'Rename'
+    const name = this.state.name.trim()
+    const existing = this.props.repositoryGroups.find(
+      g => g.name === name && g.id !== group?.id
+    )
+
+    return (
+      <Dialog
+        id="repository-group-name"
+        title={
+          __DARWIN__ ? `${verb} Repository Group` : `${verb} repository group`
+        }
+        onDismissed={this.props.onDismissed}
+        onSubmit={this.onSubmit}
+      >
+        <DialogContent>
+          {repository !== null && (
+            <p>
+              The repository "{nameOf(repository)}" will be moved into the new
+              group.
+            </p>
+          )}
+          <TextBox
+            label="Name"
+            value={this.state.name}
+            onValueChanged={this.onNameChanged}
+          />
+          {existing !== undefined && group !== null && (
+            <p className="description">
+              A group named "{name}" already exists.
+            </p>
+          )}
+        </DialogContent>
+
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? `${verb} Group` : `${verb} group`}
+            okButtonDisabled={
+              name.length === 0 || (existing !== undefined && group !== null)
+            }
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private onNameChanged = (name: string) => {
+    this.setState({ name })
+  }
+
+  private onSubmit = () => {
+    const { dispatcher, group, repository } = this.props
+    const name = this.state.name.trim()
+
+    if (group === null) {
+      dispatcher.createRepositoryGroup(name, repository)
+    } else {
+      dispatcher.renameRepositoryGroup(group, name)
+    }
+
+    this.props.onDismissed()
+  }
+}
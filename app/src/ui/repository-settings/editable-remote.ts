@@ -0,0 +1,75 @@
+import { parseRemote } from '../../lib/remote-parsing'
+import { sanitizedRefName } from '../../lib/sanitize-ref-name'
+
+/** A remote as it's being edited in the repository settings */
+export interface IEditableRemote {
+  /**
+   * The name of the remote in the repository, or null if the remote hasn't
+   * been added to the repository yet
+   */
+  readonly originalName: string | null
+
+  readonly name: string
+
+  /** The URL the remote fetches from */
+  readonly url: string
+
+  /**
+   * The URL the remote pushes to, or an empty string to push to the URL it
+   * fetches from
+   */
+  readonly pushUrl: string
+}
+
+/**
+ * Get the reason the remote can't be saved, or null if it can.
+ *
+ * @param remotes All the remotes being edited, used to detect duplicate
+ *                names.
+ */
+export function getRemoteError(
+  remote: IEditableRemote,
+  remotes: ReadonlyArray<IEditableRemote>
+): string | null {
+  const name = remote.name.trim()
+
+  if (name.length === 0) {
+    return 'Enter a name for the remote.'
+  }
+
+  if (sanitizedRefName(name) !== name) {
+    return `The name ${name} contains characters which aren't allowed in remote names.`
+  }
+
+  if (remotes.some(r => r !== remote && r.name.trim() === name)) {
+    return `There's more than one remote named ${name}.`
+  }
+
+  if (remote.url.trim().length === 0) {
+    return `Enter the URL of the remote ${name}.`
+  }
+
+  return null
+}
+
+/**
+ * Get a warning about URLs of the remote which don't look like the URL of a
+ * repository. These can still be saved since git supports more kinds of URLs
+ * than Desktop recognizes, e.g. local paths.
+ */
+export function getRemoteWarning(remote: IEditableRemote): string | null {
+  const urls = [remote.url, remote.pushUrl]
+    .map(u => u.trim())
+    .filter(u => u.length > 0)
+
+  const unrecognized = urls.find(u => parseRemote(u) === null)
+
+  return unrecognized === undefined
+    ? null
+    : `${unrecognized} doesn't look like the URL of a repository.`
+}
+
+/** Whether all the remotes being edited can be saved */
+export function remotesAreValid(remotes: ReadonlyArray<IEditableRemote>) {
+  return remotes.every(r => getRemoteError(r, remotes) === null)
+}
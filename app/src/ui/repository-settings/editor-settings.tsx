@@ -0,0 +1,102 @@
+import * as React from 'react'
+import { DialogContent } from '../dialog'
+import { Row } from '../lib/row'
+import { Select } from '../lib/select'
+import { getAvailableEditors } from '../../lib/editors/lookup'
+import { getUserEditorsPath } from '../../lib/editors/user-editors'
+
+interface IEditorSettingsProps {
+  /**
+   * The editor to open the repository in, or null to use the editor chosen
+   * in Preferences
+   */
+  readonly externalEditor: string | null
+
+  readonly onExternalEditorChanged: (externalEditor: string | null) => void
+}
+
+interface IEditorSettingsState {
+  readonly availableEditors: ReadonlyArray<string>
+
+  /** The path of the file where users can register their own editors */
+  readonly userEditorsPath: string | null
+}
+
+/** The value of the option for using the editor chosen in Preferences */
+const DefaultEditorValue = ''
+
+/** A view for choosing the external editor to open the repository in */
+export class EditorSettings extends React.Component<
+  IEditorSettingsProps,
+  IEditorSettingsState
+> {
+  public constructor(props: IEditorSettingsProps) {
+    super(props)
+
+    this.state = { availableEditors: [], userEditorsPath: null }
+  }
+
+  public async componentDidMount() {
+    const [editors, userEditorsPath] = await Promise.all([
+      getAvailableEditors(),
+      getUserEditorsPath(),
+    ])
+
+    this.setState({
+      availableEditors: editors.map(e => e.editor),
+      userEditorsPath,
+    })
+  }
+
+  public render() {
+    const { externalEditor } = this.props
+    const { availableEditors, userEditorsPath } = this.state
+    const preferencesName = __DARWIN__ ? 'Preferences' : 'Options'
+
+    // Keep an editor which is no longer installed in the list so that the
+    // user can see what's configured
+    const editors =
+      externalEditor !== null && !availableEditors.includes(externalEditor)
+        ? [...availableEditors, externalEditor]
+        : availableEditors
+
+    return (
+      <DialogContent>
+        <h2>Open this repository in…</h2>
+        <Row>
+          <Select
+            label={__DARWIN__ ? 'External Editor' : 'External editor'}
+            value={externalEditor ?? DefaultEditorValue}
+            onChange={this.onExternalEditorChanged}
+          >
+            <option value={DefaultEditorValue}>
+              The editor chosen in {preferencesName}
+            </option>
+            {editors.map(n => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </Select>
+        </Row>
+        {userEditorsPath !== null && (
+          <Row>
+            <p className="description">
+              Editors which aren't listed can be added to{' '}
+              <span className="path">{userEditorsPath}</span>
+            </p>
+          </Row>
+        )}
+      </DialogContent>
+    )
+  }
+
+  private onExternalEditorChanged = (
+    event: React.FormEvent<HTMLSelectElement>
+  ) => {
+    const { value } = event.currentTarget
+    this.props.onExternalEditorChanged(
+      value === DefaultEditorValue ? null : value
+    )
+  }
+}
@@ -8,6 +8,9 @@ const HelpURL = 'https://help.github.com/articles/about-remote-repositories/'
 interface INoRemoteProps {
   /** The function to call when the users chooses to publish. */
   readonly onPublish: () => void
+
+  /** The function to call when the users chooses to add a remote. */
+  readonly onAddRemote: () => void
 }
 
 /** The component for when a repository has no remote. */
@@ -17,7 +20,11 @@ export class NoRemote extends React.Component<INoRemoteProps, {}> {
       <DialogContent>
         <CallToAction actionTitle="Publish" onAction={this.props.onPublish}>
           <div>
-            Publish your repository to GitHub. Need help?{' '}
+            Publish your repository to GitHub, or{' '}
+            <LinkButton onClick={this.props.onAddRemote}>
+              add a remote
+            </LinkButton>{' '}
+            which already exists. Need help?{' '}
             <LinkButton uri={HelpURL}>Learn more</LinkButton> about remote
             repositories.
           </div>
@@ -1,29 +1,94 @@
 import * as React from 'react'
-import { IRemote } from '../../models/remote'
 import { TextBox } from '../lib/text-box'
-import { DialogContent } from '../dialog'
+import { Button } from '../lib/button'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import {
+  IEditableRemote,
+  getRemoteError,
+  getRemoteWarning,
+} from './editable-remote'
 
 interface IRemoteProps {
   /** The remote being shown. */
-  readonly remote: IRemote
+  readonly remote: IEditableRemote
 
-  /** The function to call when the remote URL is changed by the user. */
-  readonly onRemoteUrlChanged: (url: string) => void
+  /** All the remotes being edited, used to validate the remote. */
+  readonly remotes: ReadonlyArray<IEditableRemote>
+
+  /** The position of the remote in the list of remotes being edited. */
+  readonly index: number
+
+  /** The function to call when the remote is changed by the user. */
+  readonly onRemoteChanged: (index: number, remote: IEditableRemote) => void
+
+  /** The function to call when the user removes the remote. */
+  readonly onRemoteRemoved: (index: number) => void
 }
 
-/** The Remote component. */
+/** The Remote component, for editing a single remote. */
 export class Remote extends React.Component<IRemoteProps, {}> {
   public render() {
-    const remote = this.props.remote
+    const { remote, remotes } = this.props
+    const error = getRemoteError(remote, remotes)
+    const warning = error === null ? getRemoteWarning(remote) : null
+
     return (
-      <DialogContent>
-        <p>Primary remote repository ({remote.name})</p>
+      <div className="remote">
+        <div className="remote-name">
+          <TextBox
+            label="Name"
+            value={remote.name}
+            onValueChanged={this.onNameChanged}
+          />
+          <Button onClick={this.onRemove}>Remove</Button>
+        </div>
         <TextBox
+          label="URL"
           placeholder="Remote URL"
           value={remote.url}
-          onValueChanged={this.props.onRemoteUrlChanged}
+          onValueChanged={this.onUrlChanged}
+        />
+        <TextBox
+          label="Push URL"
+          placeholder="Same as the URL"
+          value={remote.pushUrl}
+          onValueChanged={this.onPushUrlChanged}
         />
-      </DialogContent>
+        {this.renderMessage(error ?? warning)}
+      </div>
     )
   }
+
+  private renderMessage(message: string | null) {
+    if (message === null) {
+      return null
+    }
+
+    return (
+      <div className="warning-helper-text">
+        <Octicon symbol={OcticonSymbol.alert} />
+        <p>{message}</p>
+      </div>
+    )
+  }
+
+  private onNameChanged = (name: string) => {
+    this.props.onRemoteChanged(this.props.index, { ...this.props.remote, name })
+  }
+
+  private onUrlChanged = (url: string) => {
+    this.props.onRemoteChanged(this.props.index, { ...this.props.remote, url })
+  }
+
+  private onPushUrlChanged = (pushUrl: string) => {
+    this.props.onRemoteChanged(this.props.index, {
+      ...this.props.remote,
+      pushUrl,
+    })
+  }
+
+  private onRemove = () => {
+    this.props.onRemoteRemoved(this.props.index)
+  }
 }
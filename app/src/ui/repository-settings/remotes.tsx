@@ -0,0 +1,142 @@
+import * as React from 'react'
+import { DialogContent } from '../dialog'
+import { Row } from '../lib/row'
+import { Select } from '../lib/select'
+import { Button } from '../lib/button'
+import { Remote } from './remote'
+import { IEditableRemote } from './editable-remote'
+import { UpstreamRemoteName } from '../../lib/stores/helpers/find-upstream-remote'
+
+interface IRemotesProps {
+  /** The remotes being edited */
+  readonly remotes: ReadonlyArray<IEditableRemote>
+
+  /**
+   * The name of the remote to treat as the default remote, or null to use
+   * `origin`
+   */
+  readonly defaultRemoteName: string | null
+
+  /**
+   * The name of the remote to treat as the upstream remote, or null to use
+   * `upstream`
+   */
+  readonly upstreamRemoteName: string | null
+
+  /** Whether the repository is a fork and so has an upstream remote */
+  readonly showUpstreamRemote: boolean
+
+  readonly onRemoteChanged: (index: number, remote: IEditableRemote) => void
+  readonly onRemoteRemoved: (index: number) => void
+  readonly onRemoteAdded: () => void
+  readonly onDefaultRemoteNameChanged: (name: string | null) => void
+  readonly onUpstreamRemoteNameChanged: (name: string | null) => void
+}
+
+/** The value of the options for letting Desktop pick the remote */
+const AutomaticRemoteValue = ''
+
+/** A view for adding, editing and removing the remotes of a repository */
+export class Remotes extends React.Component<IRemotesProps, {}> {
+  public render() {
+    const { remotes } = this.props
+
+    return (
+      <DialogContent>
+        <div className="remotes">
+          {remotes.map((remote, index) => (
+            <Remote
+              key={index}
+              index={index}
+              remote={remote}
+              remotes={remotes}
+              onRemoteChanged={this.props.onRemoteChanged}
+              onRemoteRemoved={this.props.onRemoteRemoved}
+            />
+          ))}
+        </div>
+        <Row>
+          <Button onClick={this.props.onRemoteAdded}>
+            {__DARWIN__ ? 'Add Remote' : 'Add remote'}
+          </Button>
+        </Row>
+        {this.renderDefaultRemote()}
+        {this.renderUpstreamRemote()}
+      </DialogContent>
+    )
+  }
+
+  /** The names of the remotes which can be picked in the selects */
+  private getRemoteNames() {
+    const names = this.props.remotes
+      .map(r => r.name.trim())
+      .filter(n => n.length > 0)
+
+    return [...new Set(names)]
+  }
+
+  private renderRemoteOptions(automaticName: string) {
+    return (
+      <>
+        <option value={AutomaticRemoteValue}>
+          Automatic ({automaticName} if it exists)
+        </option>
+        {this.getRemoteNames().map(n => (
+          <option key={n} value={n}>
+            {n}
+          </option>
+        ))}
+      </>
+    )
+  }
+
+  private renderDefaultRemote() {
+    return (
+      <Row>
+        <Select
+          label={__DARWIN__ ? 'Default Remote' : 'Default remote'}
+          value={this.props.defaultRemoteName ?? AutomaticRemoteValue}
+          onChange={this.onDefaultRemoteNameChanged}
+        >
+          {this.renderRemoteOptions('origin')}
+        </Select>
+      </Row>
+    )
+  }
+
+  private renderUpstreamRemote() {
+    if (!this.props.showUpstreamRemote) {
+      return null
+    }
+
+    return (
+      <Row>
+        <Select
+          label={__DARWIN__ ? 'Upstream Remote' : 'Upstream remote'}
+          value={this.props.upstreamRemoteName ?? AutomaticRemoteValue}
+          onChange={this.onUpstreamRemoteNameChanged}
+        >
+          {this.renderRemoteOptions(UpstreamRemoteName)}
+        </Select>
+      </Row>
+    )
+  }
+
+  private onDefaultRemoteNameChanged = (
+    event: React.FormEvent<HTMLSelectElement>
+  ) => {
+    const { value } = event.currentTarget
+    this.props.onDefaultRemoteNameChanged(
+      value === AutomaticRemoteValue ? null : value
+    )
+  }
+
+  private onUpstreamRemoteNameChanged = (
+    event: React.FormEvent<HTMLSelectElement>
+  ) => {
+    const { value } = event.currentTarget
+    this.props.onUpstreamRemoteNameChanged(
+      value === AutomaticRemoteValue ? null : value
+    )
+  }
+}
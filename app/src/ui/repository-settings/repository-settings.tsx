@@ -1,9 +1,9 @@
 import * as React from 'react'
 import { TabBar, TabBarType } from '../tab-bar'
-import { Remote } from './remote'
+import { Remotes } from './remotes'
+import { Submodules } from './submodules'
 import { GitIgnore } from './git-ignore'
 import { assertNever } from '../../lib/fatal-error'
-import { IRemote } from '../../models/remote'
 import { Dispatcher } from '../dispatcher'
 import { PopupType } from '../../models/popup'
 import {
@@ -13,9 +13,12 @@ import {
 } from '../../models/repository'
 import { Dialog, DialogError, DialogFooter } from '../dialog'
 import { NoRemote } from './no-remote'
-import { readGitIgnoreAtRoot } from '../../lib/git'
+import { readGitIgnoreAtRoot, getRemotes } from '../../lib/git'
+import { getRemotePushURL } from '../../lib/git/remote'
+import { IEditableRemote, remotesAreValid } from './editable-remote'
 import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
 import { ForkSettings } from './fork-settings'
+import { EditorSettings } from './editor-settings'
 import { ForkContributionTarget } from '../../models/workflow-preferences'
 import { GitConfigLocation, GitConfig } from './git-config'
 import {
@@ -33,7 +36,6 @@ import { Account } from '../../models/account'
 interface IRepositorySettingsProps {
   readonly initialSelectedTab?: RepositorySettingsTab
   readonly dispatcher: Dispatcher
-  readonly remote: IRemote | null
   readonly repository: Repository
   readonly repositoryAccount: Account | null
   readonly onDismissed: () => void
@@ -43,12 +45,22 @@ export enum RepositorySettingsTab {
   Remote = 0,
   IgnoredFiles,
   GitConfig,
+  Editor,
+  Submodules,
   ForkSettings,
 }
 
 interface IRepositorySettingsState {
   readonly selectedTab: RepositorySettingsTab
-  readonly remote: IRemote | null
+
+  /** The remotes being edited, or null while they're being loaded */
+  readonly remotes: ReadonlyArray<IEditableRemote> | null
+
+  /** The remotes as they were when the dialog was opened */
+  readonly initialRemotes: ReadonlyArray<IEditableRemote>
+
+  readonly defaultRemoteName: string | null
+  readonly upstreamRemoteName: string | null
   readonly ignoreText: string | null
   readonly ignoreTextHasChanged: boolean
   readonly disabled: boolean
@@ -63,6 +75,7 @@ interface IRepositorySettingsState {
   readonly initialCommitterEmail: string | null
   readonly errors?: ReadonlyArray<JSX.Element | string>
   readonly forkContributionTarget: ForkContributionTarget
+  readonly externalEditor: string | null
 }
 
 export class RepositorySettings extends React.Component<
@@ -75,11 +88,18 @@ export class RepositorySettings extends React.Component<
     this.state = {
       selectedTab:
         this.props.initialSelectedTab || RepositorySettingsTab.Remote,
-      remote: props.remote,
+      remotes: null,
+      initialRemotes: [],
+      defaultRemoteName:
+        props.repository.workflowPreferences.defaultRemoteName ?? null,
+      upstreamRemoteName:
+        props.repository.workflowPreferences.upstreamRemoteName ?? null,
       ignoreText: null,
       ignoreTextHasChanged: false,
       disabled: false,
       forkContributionTarget: getForkContributionTarget(props.repository),
+      externalEditor:
+        props.repository.workflowPreferences.externalEditor ?? null,
       saveDisabled: false,
       gitConfigLocation: GitConfigLocation.Global,
       committerName: '',
@@ -93,6 +113,26 @@ export class RepositorySettings extends React.Component<
   }
 
   public async componentWillMount() {
+    try {
+      const { repository } = this.props
+      const remotes = await getRemotes(repository)
+      const initialRemotes = await Promise.all(
+        remotes.map(async ({ name, url }) => ({
+          originalName: name,
+          name,
+          url,
+          pushUrl: (await getRemotePushURL(repository, name)) ?? '',
+        }))
+      )
+      this.setState({ remotes: initialRemotes, initialRemotes })
+    } catch (e) {
+      log.error(
+        `RepositorySettings: unable to read remotes for ${this.props.repository.path}`,
+        e
+      )
+      this.setState({ remotes: [], errors: [`Could not read remotes: ${e}`] })
+    }
+
     try {
       const ignoreText = await readGitIgnoreAtRoot(this.props.repository)
       this.setState({ ignoreText })
@@ -178,9 +218,11 @@ export class RepositorySettings extends React.Component<
             selectedIndex={this.state.selectedTab}
             type={TabBarType.Vertical}
           >
-            <span>Remote</span>
+            <span>Remotes</span>
             <span>{__DARWIN__ ? 'Ignored Files' : 'Ignored files'}</span>
             <span>{__DARWIN__ ? 'Git Config' : 'Git config'}</span>
+            <span>Editor</span>
+            <span>Submodules</span>
             {showForkSettings && (
               <span>{__DARWIN__ ? 'Fork Behavior' : 'Fork behavior'}</span>
             )}
@@ -195,8 +237,8 @@ export class RepositorySettings extends React.Component<
 
   private renderFooter() {
     const tab = this.state.selectedTab
-    const remote = this.state.remote
-    if (tab === RepositorySettingsTab.Remote && !remote) {
+    const { remotes, saveDisabled } = this.state
+    if (tab === RepositorySettingsTab.Remote && this.showNoRemote()) {
       return null
     }
 
@@ -204,27 +246,58 @@ export class RepositorySettings extends React.Component<
       <DialogFooter>
         <OkCancelButtonGroup
           okButtonText="Save"
-          okButtonDisabled={this.state.saveDisabled}
+          okButtonDisabled={
+            saveDisabled || (remotes !== null && !remotesAreValid(remotes))
+          }
         />
       </DialogFooter>
     )
   }
 
+  /**
+   * Whether to show the call to action for publishing the repository instead
+   * of the remotes, which is only the case when it never had any remotes
+   */
+  private showNoRemote() {
+    const { remotes, initialRemotes } = this.state
+    return (
+      remotes !== null && remotes.length === 0 && initialRemotes.length === 0
+    )
+  }
+
   private renderActiveTab() {
     const tab = this.state.selectedTab
     switch (tab) {
       case RepositorySettingsTab.Remote: {
-        const remote = this.state.remote
-        if (remote) {
+        const { remotes } = this.state
+        if (remotes === null) {
+          return null
+        }
+
+        if (this.showNoRemote()) {
           return (
-            <Remote
-              remote={remote}
-              onRemoteUrlChanged={this.onRemoteUrlChanged}
+            <NoRemote
+              onPublish={this.onPublish}
+              onAddRemote={this.onRemoteAdded}
             />
           )
-        } else {
-          return <NoRemote onPublish={this.onPublish} />
         }
+
+        return (
+          <Remotes
+            remotes={remotes}
+            defaultRemoteName={this.state.defaultRemoteName}
+            upstreamRemoteName={this.state.upstreamRemoteName}
+            showUpstreamRemote={isRepositoryWithForkedGitHubRepository(
+              this.props.repository
+            )}
+            onRemoteChanged={this.onRemoteChanged}
+            onRemoteRemoved={this.onRemoteRemoved}
+            onRemoteAdded={this.onRemoteAdded}
+            onDefaultRemoteNameChanged={this.onDefaultRemoteNameChanged}
+            onUpstreamRemoteNameChanged={this.onUpstreamRemoteNameChanged}
+          />
+        )
       }
       case RepositorySettingsTab.IgnoredFiles: {
         return (
@@ -267,6 +340,26 @@ export class RepositorySettings extends React.Component<
         )
       }
 
+      case RepositorySettingsTab.Editor: {
+        return (
+          <EditorSettings
+            externalEditor={this.state.externalEditor}
+            onExternalEditorChanged={this.onExternalEditorChanged}
+          />
+        )
+      }
+
+      case RepositorySettingsTab.Submodules: {
+        return (
+          <Submodules
+            dispatcher={this.props.dispatcher}
+            repository={this.props.repository}
+            account={this.props.repositoryAccount}
+            onOpenSubmodule={this.onOpenSubmodule}
+          />
+        )
+      }
+
       default:
         return assertNever(tab, `Unknown tab type: ${tab}`)
     }
@@ -279,6 +372,11 @@ export class RepositorySettings extends React.Component<
     })
   }
 
+  private onOpenSubmodule = (fullPath: string) => {
+    this.props.onDismissed()
+    this.props.dispatcher.openOrAddRepository(fullPath)
+  }
+
   private onShowGitIgnoreExamples = () => {
     this.props.dispatcher.openInBrowser('https://git-scm.com/docs/gitignore')
   }
@@ -287,22 +385,14 @@ export class RepositorySettings extends React.Component<
     this.setState({ disabled: true, errors: undefined })
     const errors = new Array<JSX.Element | string>()
 
-    if (this.state.remote && this.props.remote) {
-      if (this.state.remote.url !== this.props.remote.url) {
-        try {
-          await this.props.dispatcher.setRemoteURL(
-            this.props.repository,
-            this.props.remote.name,
-            this.state.remote.url
-          )
-        } catch (e) {
-          log.error(
-            `RepositorySettings: unable to set remote URL at ${this.props.repository.path}`,
-            e
-          )
-          errors.push(`Failed setting the remote URL: ${e}`)
-        }
-      }
+    try {
+      await this.saveRemotes()
+    } catch (e) {
+      log.error(
+        `RepositorySettings: unable to update remotes at ${this.props.repository.path}`,
+        e
+      )
+      errors.push(`Failed updating the remotes: ${e}`)
     }
 
     if (this.state.ignoreTextHasChanged && this.state.ignoreText !== null) {
@@ -320,16 +410,27 @@ export class RepositorySettings extends React.Component<
       }
     }
 
+    const { workflowPreferences } = this.props.repository
+    const externalEditor = this.state.externalEditor ?? undefined
+    const defaultRemoteName = this.state.defaultRemoteName ?? undefined
+    const upstreamRemoteName = this.state.upstreamRemoteName ?? undefined
+
     // only update this if it will be different from what we have stored
     if (
       this.state.forkContributionTarget !==
-      this.props.repository.workflowPreferences.forkContributionTarget
+        workflowPreferences.forkContributionTarget ||
+      externalEditor !== workflowPreferences.externalEditor ||
+      defaultRemoteName !== workflowPreferences.defaultRemoteName ||
+      upstreamRemoteName !== workflowPreferences.upstreamRemoteName
     ) {
       await this.props.dispatcher.updateRepositoryWorkflowPreferences(
         this.props.repository,
         {
-          ...this.props.repository.workflowPreferences,
+          ...workflowPreferences,
           forkContributionTarget: this.state.forkContributionTarget,
+          externalEditor,
+          defaultRemoteName,
+          upstreamRemoteName,
         }
       )
     }
@@ -380,15 +481,120 @@ export class RepositorySettings extends React.Component<
     }
   }
 
-  private onRemoteUrlChanged = (url: string) => {
-    const remote = this.props.remote
+  /**
+   * Apply the changes made to the remotes. Remotes are removed before others
+   * are renamed or added so that their names can be reused.
+   */
+  private async saveRemotes() {
+    const { remotes, initialRemotes } = this.state
+    const { dispatcher, repository } = this.props
 
-    if (!remote) {
+    if (remotes === null) {
       return
     }
 
-    const newRemote = { ...remote, url }
-    this.setState({ remote: newRemote })
+    for (const initial of initialRemotes) {
+      if (!remotes.some(r => r.originalName === initial.originalName)) {
+        await dispatcher.removeRemote(repository, initial.name)
+      }
+    }
+
+    for (const remote of remotes) {
+      const name = remote.name.trim()
+      const url = remote.url.trim()
+      const pushUrl = remote.pushUrl.trim()
+      const initial = initialRemotes.find(
+        r => r.originalName === remote.originalName
+      )
+
+      if (remote.originalName === null || initial === undefined) {
+        await dispatcher.addRemote(repository, name, url)
+        if (pushUrl.length > 0) {
+          await dispatcher.setRemotePushURL(repository, name, pushUrl)
+        }
+        continue
+      }
+
+      if (name !== initial.name) {
+        await dispatcher.renameRemote(repository, initial.name, name)
+      }
+
+      if (url !== initial.url) {
+        await dispatcher.setRemoteURL(repository, name, url)
+      }
+
+      if (pushUrl !== initial.pushUrl) {
+        await dispatcher.setRemotePushURL(
+          repository,
+          name,
+          pushUrl.length > 0 ? pushUrl : null
+        )
+      }
+    }
+  }
+
+  private onRemoteChanged = (index: number, remote: IEditableRemote) => {
+    const { remotes, defaultRemoteName, upstreamRemoteName } = this.state
+
+    if (remotes === null) {
+      return
+    }
+
+    // Keep the default and upstream remotes pointing to a renamed remote
+    const previousName = remotes[index].name.trim()
+    const name = remote.name.trim()
+    const rename = (n: string | null) => (n === previousName ? name : n)
+
+    const newRemotes = [...remotes]
+    newRemotes[index] = remote
+
+    this.setState({
+      remotes: newRemotes,
+      defaultRemoteName: rename(defaultRemoteName),
+      upstreamRemoteName: rename(upstreamRemoteName),
+    })
+  }
+
+  private onRemoteRemoved = (index: number) => {
+    const { remotes, defaultRemoteName, upstreamRemoteName } = this.state
+
+    if (remotes === null) {
+      return
+    }
+
+    const name = remotes[index].name.trim()
+    const unset = (n: string | null) => (n === name ? null : n)
+
+    this.setState({
+      remotes: remotes.filter((_, i) => i !== index),
+      defaultRemoteName: unset(defaultRemoteName),
+      upstreamRemoteName: unset(upstreamRemoteName),
+    })
+  }
+
+  private onRemoteAdded = () => {
+    const remotes = this.state.remotes ?? []
+    const hasOrigin = remotes.some(r => r.name.trim() === 'origin')
+
+    this.setState({
+      remotes: [
+        ...remotes,
+        {
+          originalName: null,
+          name: hasOrigin ? '' : 'origin',
+          url: '',
+          pushUrl: '',
+        },
+      ],
+    })
+  }
+
+  private onDefaultRemoteNameChanged = (defaultRemoteName: string | null) => {
+    this.setState({ defaultRemoteName })
+  }
+
+  private onUpstreamRemoteNameChanged = (upstreamRemoteName: string | null) => {
+    this.setState({ upstreamRemoteName })
   }
 
   private onIgnoreTextChanged = (text: string) => {
@@ -407,6 +613,10 @@ export class RepositorySettings extends React.Component<
     })
   }
 
+  private onExternalEditorChanged = (externalEditor: string | null) => {
+    this.setState({ externalEditor })
+  }
+
   private onGitConfigLocationChanged = (value: GitConfigLocation) => {
     this.setState({ gitConfigLocation: value })
   }
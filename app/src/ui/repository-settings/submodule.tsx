@@ -0,0 +1,98 @@
+import * as React from 'react'
+import { Button } from '../lib/button'
+import { ISubmodule, SubmoduleState } from '../../models/submodule'
+import { shortenSHA } from '../../models/commit'
+import { assertNever } from '../../lib/fatal-error'
+
+interface ISubmoduleProps {
+  readonly submodule: ISubmodule
+
+  /** Whether an operation on the submodules is in progress */
+  readonly disabled: boolean
+
+  readonly onUpdate: (submodule: ISubmodule) => void
+  readonly onSyncSubmodule: (submodule: ISubmodule) => void
+  readonly onDeinit: (submodule: ISubmodule) => void
+  readonly onOpen: (submodule: ISubmodule) => void
+}
+
+/** A single submodule in the submodules tab of the repository settings */
+export class Submodule extends React.Component<ISubmoduleProps, {}> {
+  public render() {
+    const { submodule, disabled } = this.props
+    const isInitialized = submodule.state !== SubmoduleState.Uninitialized
+
+    return (
+      <div className="submodule">
+        <div className="submodule-header">
+          <span className="path" title={submodule.path}>
+            {submodule.path}
+          </span>
+          <span className="state">{this.getStateDescription()}</span>
+        </div>
+        <div className="url" title={submodule.url ?? undefined}>
+          {submodule.url ?? 'No URL in .gitmodules'}
+        </div>
+        <div className="shas">
+          Recorded: {this.renderSha(submodule.recordedSha)} • Checked out:{' '}
+          {this.renderSha(submodule.checkedOutSha)}
+        </div>
+        <div className="actions">
+          <Button onClick={this.onUpdate} disabled={disabled}>
+            {isInitialized ? 'Update' : 'Initialize'}
+          </Button>
+          <Button
+            onClick={this.onSyncSubmodule}
+            disabled={disabled || !isInitialized}
+          >
+            Sync
+          </Button>
+          <Button onClick={this.onDeinit} disabled={disabled || !isInitialized}>
+            Deinitialize
+          </Button>
+          <Button onClick={this.onOpen} disabled={disabled || !isInitialized}>
+            {__DARWIN__ ? 'Open Repository' : 'Open repository'}
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  private renderSha(sha: string | null) {
+    return sha === null ? '—' : <span className="sha">{shortenSHA(sha)}</span>
+  }
+
+  private getStateDescription() {
+    const { state, isDirty } = this.props.submodule
+    const modified = isDirty ? ', modified' : ''
+
+    switch (state) {
+      case SubmoduleState.Uninitialized:
+        return 'Not initialized'
+      case SubmoduleState.UpToDate:
+        return `Up to date${modified}`
+      case SubmoduleState.OutOfDate:
+        return `Different commit checked out${modified}`
+      case SubmoduleState.Conflicted:
+        return `Conflicted${modified}`
+      default:
+        return assertNever(state, `Unknown submodule state: ${state}`)
+    }
+  }
+
+  private onUpdate = () => {
+    this.props.onUpdate(this.props.submodule)
+  }
+
+  private onSyncSubmodule = () => {
+    this.props.onSyncSubmodule(this.props.submodule)
+  }
+
+  private onDeinit = () => {
+    this.props.onDeinit(this.props.submodule)
+  }
+
+  private onOpen = () => {
+    this.props.onOpen(this.props.submodule)
+  }
+}
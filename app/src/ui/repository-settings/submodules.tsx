@@ -0,0 +1,272 @@
+import * as React from 'react'
+import * as Path from 'path'
+import { DialogContent } from '../dialog'
+import { Row } from '../lib/row'
+import { Button } from '../lib/button'
+import { TextBox } from '../lib/text-box'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { Octicon } from '../octicons'
+import * as OcticonSymbol from '../octicons/octicons.generated'
+import { Submodule } from './submodule'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { Account } from '../../models/account'
+import { ISubmodule } from '../../models/submodule'
+import {
+  addSubmodule,
+  deinitSubmodule,
+  getSubmodules,
+  syncSubmodules,
+  updateSubmodules,
+} from '../../lib/git/submodule'
+
+interface ISubmodulesProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** The account to authenticate with when cloning submodules */
+  readonly account: Account | null
+
+  /** Called with the full path of a submodule to open it as a repository */
+  readonly onOpenSubmodule: (fullPath: string) => void
+}
+
+interface ISubmodulesState {
+  /** The submodules of the repository, or null while loading */
+  readonly submodules: ReadonlyArray<ISubmodule> | null
+
+  /** Whether updating submodules also updates their submodules */
+  readonly recursive: boolean
+
+  readonly newSubmoduleUrl: string
+  readonly newSubmodulePath: string
+
+  /** Whether an operation on the submodules is in progress */
+  readonly isBusy: boolean
+  readonly error: string | null
+}
+
+/**
+ * A view for initializing, updating, syncing, adding and deinitializing the
+ * submodules of a repository.
+ *
+ * Unlike the other repository settings these are applied right away.
+ */
+export class Submodules extends React.Component<
+  ISubmodulesProps,
+  ISubmodulesState
+> {
+  public constructor(props: ISubmodulesProps) {
+    super(props)
+
+    this.state = {
+      submodules: null,
+      recursive: true,
+      newSubmoduleUrl: '',
+      newSubmodulePath: '',
+      isBusy: false,
+      error: null,
+    }
+  }
+
+  public componentDidMount() {
+    this.loadSubmodules()
+  }
+
+  private async loadSubmodules() {
+    try {
+      const submodules = await getSubmodules(this.props.repository)
+      this.setState({ submodules })
+    } catch (e) {
+      log.error('Could not load submodules', e)
+      this.setState({
+        submodules: [],
+        error: `Could not load submodules: ${e}`,
+      })
+    }
+  }
+
+  /**
+   * Run a git operation on the submodules, then reload them and refresh the
+   * repository since submodules show up as changes.
+   */
+  private async runOperation(
+    description: string,
+    operation: () => Promise<void>
+  ): Promise<boolean> {
+    this.setState({ isBusy: true, error: null })
+
+    let succeeded = false
+    try {
+      await operation()
+      succeeded = true
+    } catch (e) {
+      log.error(`Could not ${description}`, e)
+      this.setState({ error: `Could not ${description}: ${e}` })
+    }
+
+    await this.loadSubmodules()
+    this.setState({ isBusy: false })
+    this.props.dispatcher.refreshRepository(this.props.repository)
+
+    return succeeded
+  }
+
+  public render() {
+    const { submodules, isBusy } = this.state
+
+    return (
+      <DialogContent>
+        {this.renderError()}
+        {submodules === null ? (
+          <p>Loading submodules…</p>
+        ) : submodules.length === 0 ? (
+          <p>This repository doesn't have any submodules.</p>
+        ) : (
+          <>
+            <div className="submodules">
+              {submodules.map(s => (
+                <Submodule
+                  key={s.path}
+                  submodule={s}
+                  disabled={isBusy}
+                  onUpdate={this.onUpdate}
+                  onSyncSubmodule={this.onSyncSubmodule}
+                  onDeinit={this.onDeinit}
+                  onOpen={this.onOpen}
+                />
+              ))}
+            </div>
+            <Row>
+              <Button onClick={this.onUpdateAll} disabled={isBusy}>
+                {__DARWIN__ ? 'Update All' : 'Update all'}
+              </Button>
+              <Button onClick={this.onSyncAll} disabled={isBusy}>
+                {__DARWIN__ ? 'Sync All' : 'Sync all'}
+              </Button>
+              <Checkbox
+                label="Update nested submodules"
+                value={
+                  this.state.recursive ? CheckboxValue.On : CheckboxValue.Off
+                }
+                onChange={this.onRecursiveChanged}
+              />
+            </Row>
+          </>
+        )}
+        {this.renderAddSubmodule()}
+      </DialogContent>
+    )
+  }
+
+  private renderError() {
+    const { error } = this.state
+
+    if (error === null) {
+      return null
+    }
+
+    return (
+      <div className="warning-helper-text">
+        <Octicon symbol={OcticonSymbol.alert} />
+        <p>{error}</p>
+      </div>
+    )
+  }
+
+  private renderAddSubmodule() {
+    const { newSubmoduleUrl, newSubmodulePath, isBusy } = this.state
+    const canAdd =
+      newSubmoduleUrl.trim().length > 0 && newSubmodulePath.trim().length > 0
+
+    return (
+      <div className="add-submodule">
+        <TextBox
+          label="URL"
+          placeholder="Repository URL"
+          value={newSubmoduleUrl}
+          onValueChanged={this.onNewSubmoduleUrlChanged}
+        />
+        <TextBox
+          label="Path"
+          placeholder="Path in this repository"
+          value={newSubmodulePath}
+          onValueChanged={this.onNewSubmodulePathChanged}
+        />
+        <Button onClick={this.onAdd} disabled={isBusy || !canAdd}>
+          {__DARWIN__ ? 'Add Submodule' : 'Add submodule'}
+        </Button>
+      </div>
+    )
+  }
+
+  private onRecursiveChanged = (event: React.FormEvent<HTMLInputElement>) => {
+    this.setState({ recursive: event.currentTarget.checked })
+  }
+
+  private onNewSubmoduleUrlChanged = (newSubmoduleUrl: string) => {
+    this.setState({ newSubmoduleUrl })
+  }
+
+  private onNewSubmodulePathChanged = (newSubmodulePath: string) => {
+    this.setState({ newSubmodulePath })
+  }
+
+  private onUpdate = (submodule: ISubmodule) => {
+    const { repository, account } = this.props
+    this.runOperation(`update ${submodule.path}`, () =>
+      updateSubmodules(
+        repository,
+        account,
+        [submodule.path],
+        this.state.recursive
+      )
+    )
+  }
+
+  private onUpdateAll = () => {
+    const { repository, account } = this.props
+    this.runOperation('update submodules', () =>
+      updateSubmodules(repository, account, [], this.state.recursive)
+    )
+  }
+
+  private onSyncSubmodule = (submodule: ISubmodule) => {
+    const { repository } = this.props
+    this.runOperation(`sync ${submodule.path}`, () =>
+      syncSubmodules(repository, [submodule.path])
+    )
+  }
+
+  private onSyncAll = () => {
+    const { repository } = this.props
+    this.runOperation('sync submodules', () => syncSubmodules(repository, []))
+  }
+
+  private onDeinit = (submodule: ISubmodule) => {
+    const { repository } = this.props
+    this.runOperation(`deinitialize ${submodule.path}`, () =>
+      deinitSubmodule(repository, submodule.path)
+    )
+  }
+
+  private onOpen = (submodule: ISubmodule) => {
+    this.props.onOpenSubmodule(
+      Path.join(this.props.repository.path, submodule.path)
+    )
+  }
+
+  private onAdd = async () => {
+    const { repository, account } = this.props
+    const url = this.state.newSubmoduleUrl.trim()
+    const path = this.state.newSubmodulePath.trim()
+
+    const added = await this.runOperation(`add ${url}`, () =>
+      addSubmodule(repository, account, url, path)
+    )
+
+    if (added) {
+      this.setState({ newSubmoduleUrl: '', newSubmodulePath: '' })
+    }
+  }
+}
@@ -47,6 +47,9 @@ interface IRepositoryViewProps {
   readonly onViewCommitOnGitHub: (SHA: string, filePath?: string) => void
   readonly imageDiffType: ImageDiffType
   readonly hideWhitespaceInChangesDiff: boolean
+
+  /** Whether staging changes writes them to the Git index immediately */
+  readonly useGitIndex: boolean
   readonly hideWhitespaceInHistoryDiff: boolean
   readonly showSideBySideDiff: boolean
   readonly askForConfirmationOnDiscardChanges: boolean
@@ -233,6 +236,7 @@ export class RepositoryView extends React.Component<
           this.props.currentTutorialStep === TutorialStep.MakeCommit
         }
         commitSpellcheckEnabled={this.props.commitSpellcheckEnabled}
+        lfsLocks={this.props.state.lfsLocks}
       />
     )
   }
@@ -246,6 +250,7 @@ export class RepositoryView extends React.Component<
       branchesState,
       commitSelection: { shas },
       commitLookup,
+      commitSignatureStatuses,
       localCommitSHAs,
       localTags,
       tagsToPush,
@@ -271,6 +276,7 @@ export class RepositoryView extends React.Component<
         currentBranch={currentBranch}
         emoji={emoji}
         commitLookup={commitLookup}
+        commitSignatureStatuses={commitSignatureStatuses}
         localCommitSHAs={localCommitSHAs}
         localTags={localTags}
         dispatcher={dispatcher}
@@ -420,6 +426,9 @@ export class RepositoryView extends React.Component<
         onChangeImageDiffType={this.onChangeImageDiffType}
         onDiffOptionsOpened={this.onDiffOptionsOpened}
         showDragOverlay={showDragOverlay}
+        lfsLocks={this.props.state.lfsLocks}
+        reviewThreads={this.props.state.pullRequestReviewThreads}
+        commitSignatureStatuses={this.props.state.commitSignatureStatuses}
       />
     )
   }
@@ -495,6 +504,8 @@ export class RepositoryView extends React.Component<
           isCommitting={this.props.state.isCommitting}
           imageDiffType={this.props.imageDiffType}
           hideWhitespaceInDiff={this.props.hideWhitespaceInChangesDiff}
+          useGitIndex={this.props.useGitIndex}
+          showStagedDiff={changesState.showStagedDiff}
           showSideBySideDiff={this.props.showSideBySideDiff}
           onOpenBinaryFile={this.onOpenBinaryFile}
           onOpenSubmodule={this.onOpenSubmodule}
@@ -503,6 +514,8 @@ export class RepositoryView extends React.Component<
             this.props.askForConfirmationOnDiscardChanges
           }
           onDiffOptionsOpened={this.onDiffOptionsOpened}
+          externalEditorLabel={this.props.externalEditorLabel}
+          reviewThreads={this.props.state.pullRequestReviewThreads}
         />
       )
     }
@@ -0,0 +1,85 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { Row } from '../lib/row'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { TextBox } from '../lib/text-box'
+
+interface ISigningKeyPassphraseProps {
+  /** The key used to sign commits, or null if it's unknown */
+  readonly signingKey: string | null
+  readonly onSubmit: (passphrase: string | undefined) => void
+  readonly onDismissed: () => void
+}
+
+interface ISigningKeyPassphraseState {
+  readonly passphrase: string
+}
+
+/**
+ * Dialog prompts the user the passphrase of the GPG or SSH key used to sign
+ * commits.
+ */
+export class SigningKeyPassphrase extends React.Component<
+  ISigningKeyPassphraseProps,
+  ISigningKeyPassphraseState
+> {
+  public constructor(props: ISigningKeyPassphraseProps) {
+    super(props)
+    this.state = { passphrase: '' }
+  }
+
+  public render() {
+    const { signingKey } = this.props
+    const label =
+      signingKey === null
+        ? 'Enter passphrase for your signing key:'
+        : `Enter passphrase for signing key '${signingKey}':`
+
+    return (
+      <Dialog
+        id="signing-key-passphrase"
+        type="normal"
+        title={__DARWIN__ ? 'Signing Key Passphrase' : 'Signing key passphrase'}
+        dismissable={false}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <Row>
+            <TextBox
+              label={label}
+              value={this.state.passphrase}
+              type="password"
+              onValueChanged={this.onValueChanged}
+            />
+          </Row>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            onCancelButtonClick={this.onCancel}
+            okButtonDisabled={this.state.passphrase.length === 0}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private onValueChanged = (value: string) => {
+    this.setState({ passphrase: value })
+  }
+
+  private submit(passphrase: string | undefined) {
+    const { onSubmit, onDismissed } = this.props
+
+    onSubmit(passphrase)
+    onDismissed()
+  }
+
+  private onSubmit = () => {
+    this.submit(this.state.passphrase)
+  }
+
+  private onCancel = () => {
+    this.submit(undefined)
+  }
+}
@@ -0,0 +1,133 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { Repository } from '../../models/repository'
+import { Dispatcher } from '../dispatcher'
+import { Row } from '../lib/row'
+import { TextBox } from '../lib/text-box'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { WorkingDirectoryFileChange } from '../../models/status'
+import { DiffSelectionType } from '../../models/diff'
+
+interface ICreateStashProps {
+  readonly dispatcher: Dispatcher
+  readonly repository: Repository
+
+  /** All changed files in the working directory */
+  readonly files: ReadonlyArray<WorkingDirectoryFileChange>
+
+  readonly onDismissed: () => void
+}
+
+interface ICreateStashState {
+  readonly message: string
+
+  /** Whether to only stash the files selected in the changes list */
+  readonly selectedFilesOnly: boolean
+
+  readonly isStashing: boolean
+}
+
+/**
+ * Dialog for stashing changes as a new stash entry with a custom message,
+ * optionally limited to the files selected in the changes list.
+ */
+export class CreateStash extends React.Component<
+  ICreateStashProps,
+  ICreateStashState
+> {
+  public constructor(props: ICreateStashProps) {
+    super(props)
+    this.state = { message: '', selectedFilesOnly: false, isStashing: false }
+  }
+
+  private getSelectedFiles() {
+    return this.props.files.filter(
+      f => f.getIncludedType() !== DiffSelectionType.None
+    )
+  }
+
+  public render() {
+    const { files } = this.props
+    const { message, selectedFilesOnly, isStashing } = this.state
+    const selectedCount = this.getSelectedFiles().length
+    const canStashSelectedOnly =
+      selectedCount > 0 && selectedCount < files.length
+    const filesToStashCount =
+      selectedFilesOnly && canStashSelectedOnly ? selectedCount : files.length
+
+    return (
+      <Dialog
+        id="create-stash"
+        title={__DARWIN__ ? 'Stash Changes' : 'Stash changes'}
+        loading={isStashing}
+        disabled={isStashing}
+        onSubmit={this.onSubmit}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <Row>
+            <TextBox
+              label="Message"
+              placeholder="Optional"
+              value={message}
+              onValueChanged={this.onMessageChanged}
+            />
+          </Row>
+          <Row>
+            <Checkbox
+              label={`Only stash the ${selectedCount} selected ${
+                selectedCount === 1 ? 'file' : 'files'
+              }`}
+              value={
+                selectedFilesOnly && canStashSelectedOnly
+                  ? CheckboxValue.On
+                  : CheckboxValue.Off
+              }
+              disabled={!canStashSelectedOnly}
+              onChange={this.onSelectedFilesOnlyChanged}
+            />
+          </Row>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Stash Changes' : 'Stash changes'}
+            okButtonDisabled={filesToStashCount === 0}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private onMessageChanged = (message: string) => {
+    this.setState({ message })
+  }
+
+  private onSelectedFilesOnlyChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.setState({ selectedFilesOnly: event.currentTarget.checked })
+  }
+
+  private onSubmit = async () => {
+    const { dispatcher, repository, files, onDismissed } = this.props
+    const selectedFiles = this.getSelectedFiles()
+    const message = this.state.message.trim()
+
+    this.setState({ isStashing: true })
+
+    try {
+      await dispatcher.createStash(
+        repository,
+        message.length > 0 ? message : null,
+        this.state.selectedFilesOnly && selectedFiles.length > 0
+          ? selectedFiles
+          : files
+      )
+    } finally {
+      this.setState({ isStashing: false })
+    }
+
+    onDismissed()
+  }
+}
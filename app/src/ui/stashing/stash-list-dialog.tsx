@@ -0,0 +1,444 @@
+import * as React from 'react'
+import classNames from 'classnames'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { IStashEntry } from '../../models/stash-entry'
+import { CommittedFileChange } from '../../models/status'
+import { IDiff, ImageDiffType } from '../../models/diff'
+import { PopupType } from '../../models/popup'
+import { List, SelectionSource } from '../lib/list'
+import { Button } from '../lib/button'
+import { TextBox } from '../lib/text-box'
+import { FileList } from '../history/file-list'
+import { SeamlessDiffSwitcher } from '../diff/seamless-diff-switcher'
+import { openFile } from '../lib/open-file'
+import { getStashedFiles } from '../../lib/git/stash'
+import { getCommitDiff } from '../../lib/git'
+
+const RowHeight = 50
+const FileListWidth = 200
+
+interface IStashListDialogProps {
+  readonly repository: Repository
+  readonly dispatcher: Dispatcher
+
+  /** All stash entries in the repository, most recent first */
+  readonly stashEntries: ReadonlyArray<IStashEntry>
+
+  /** Should the app prompt the user to confirm discarding a stash */
+  readonly askForConfirmationOnDiscardStash: boolean
+
+  readonly imageDiffType: ImageDiffType
+
+  /** Whether we should display side by side diffs. */
+  readonly showSideBySideDiff: boolean
+
+  readonly onDismissed: () => void
+}
+
+interface IStashListDialogState {
+  /** The SHA of the selected stash entry, if any */
+  readonly selectedStashSha: string | null
+
+  /** The files changed in the selected entry, or null while loading */
+  readonly files: ReadonlyArray<CommittedFileChange> | null
+  readonly selectedFile: CommittedFileChange | null
+  readonly diff: IDiff | null
+
+  /** The new message for the selected entry while it's being renamed */
+  readonly newMessage: string | null
+
+  /** Whether an operation on the selected stash entry is in progress */
+  readonly isBusy: boolean
+}
+
+/** The message to show for the given stash entry */
+function getStashEntryTitle(stashEntry: IStashEntry) {
+  return stashEntry.message.length > 0 ? stashEntry.message : 'Stashed changes'
+}
+
+/**
+ * Dialog listing every stash entry in a repository, including ones created
+ * outside of Desktop, with a preview of the changes in the selected entry.
+ */
+export class StashListDialog extends React.Component<
+  IStashListDialogProps,
+  IStashListDialogState
+> {
+  public constructor(props: IStashListDialogProps) {
+    super(props)
+
+    this.state = {
+      selectedStashSha:
+        props.stashEntries.length > 0 ? props.stashEntries[0].stashSha : null,
+      files: null,
+      selectedFile: null,
+      diff: null,
+      newMessage: null,
+      isBusy: false,
+    }
+  }
+
+  public componentDidMount() {
+    this.loadFiles()
+  }
+
+  public componentDidUpdate(
+    prevProps: IStashListDialogProps,
+    prevState: IStashListDialogState
+  ) {
+    const { stashEntries } = this.props
+    const { selectedStashSha } = this.state
+
+    // The selected entry may have been dropped or popped
+    if (
+      stashEntries !== prevProps.stashEntries &&
+      this.getSelectedStashEntry() === null &&
+      selectedStashSha !== (stashEntries[0]?.stashSha ?? null)
+    ) {
+      this.selectStashEntry(stashEntries[0] ?? null)
+      return
+    }
+
+    if (selectedStashSha !== prevState.selectedStashSha) {
+      this.loadFiles()
+    }
+  }
+
+  private getSelectedStashEntry() {
+    const { selectedStashSha } = this.state
+    return (
+      this.props.stashEntries.find(e => e.stashSha === selectedStashSha) ?? null
+    )
+  }
+
+  private selectStashEntry(stashEntry: IStashEntry | null) {
+    this.setState({
+      selectedStashSha: stashEntry?.stashSha ?? null,
+      files: null,
+      selectedFile: null,
+      diff: null,
+      newMessage: null,
+    })
+  }
+
+  private async loadFiles() {
+    const { repository } = this.props
+    const { selectedStashSha } = this.state
+
+    if (selectedStashSha === null) {
+      return
+    }
+
+    let files: ReadonlyArray<CommittedFileChange> = []
+    try {
+      files = await getStashedFiles(repository, selectedStashSha)
+    } catch (e) {
+      log.error(`Could not load files for stash ${selectedStashSha}`, e)
+    }
+
+    // The selection may have changed while loading
+    if (this.state.selectedStashSha !== selectedStashSha) {
+      return
+    }
+
+    this.setState({ files })
+
+    if (files.length > 0) {
+      this.onSelectedFileChanged(files[0])
+    }
+  }
+
+  private onSelectedFileChanged = async (file: CommittedFileChange) => {
+    this.setState({ selectedFile: file, diff: null })
+
+    let diff: IDiff | null = null
+    try {
+      diff = await getCommitDiff(this.props.repository, file, file.commitish)
+    } catch (e) {
+      log.error(`Could not load diff for ${file.path}`, e)
+    }
+
+    if (this.state.selectedFile === file) {
+      this.setState({ diff })
+    }
+  }
+
+  public render() {
+    return (
+      <Dialog
+        id="stash-list"
+        title="Stashes"
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <div className="stash-list-container">
+            {this.renderStashEntries()}
+            {this.renderSelectedStashEntry()}
+          </div>
+        </DialogContent>
+        <DialogFooter>
+          <Button className="create-stash-button" onClick={this.onCreateStash}>
+            {__DARWIN__ ? 'Stash Changes…' : 'Stash changes…'}
+          </Button>
+          <OkCancelButtonGroup
+            okButtonText="Close"
+            cancelButtonVisible={false}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderStashEntries() {
+    const { stashEntries } = this.props
+
+    if (stashEntries.length === 0) {
+      return <div className="stash-entries no-stash-entries">No stashes</div>
+    }
+
+    const selectedRow = stashEntries.findIndex(
+      e => e.stashSha === this.state.selectedStashSha
+    )
+
+    return (
+      <div className="stash-entries">
+        <List
+          rowCount={stashEntries.length}
+          rowHeight={RowHeight}
+          rowRenderer={this.renderStashEntry}
+          selectedRows={selectedRow === -1 ? [] : [selectedRow]}
+          onSelectedRowChanged={this.onSelectedRowChanged}
+          invalidationProps={stashEntries}
+        />
+      </div>
+    )
+  }
+
+  private renderStashEntry = (row: number) => {
+    const stashEntry = this.props.stashEntries[row]
+    const title = getStashEntryTitle(stashEntry)
+    const name = stashEntry.name.replace(/^refs\//, '')
+
+    return (
+      <div className="stash-entry">
+        <div className="summary" title={title}>
+          {title}
+        </div>
+        <div className="description">
+          {stashEntry.branchName.length > 0
+            ? `${stashEntry.branchName} • ${name}`
+            : name}
+        </div>
+      </div>
+    )
+  }
+
+  private onSelectedRowChanged = (row: number, source: SelectionSource) => {
+    this.selectStashEntry(this.props.stashEntries[row])
+  }
+
+  private renderSelectedStashEntry() {
+    const stashEntry = this.getSelectedStashEntry()
+
+    if (stashEntry === null) {
+      return null
+    }
+
+    return (
+      <div className="stash-entry-details">
+        {this.renderHeader(stashEntry)}
+        <div className="stash-entry-changes">
+          {this.renderFileList()}
+          {this.renderDiff()}
+        </div>
+      </div>
+    )
+  }
+
+  private renderHeader(stashEntry: IStashEntry) {
+    const { newMessage, isBusy } = this.state
+
+    if (newMessage !== null) {
+      return (
+        <div className={classNames('stash-entry-header', 'renaming')}>
+          <TextBox
+            value={newMessage}
+            placeholder="Stash message"
+            onValueChanged={this.onNewMessageChanged}
+          />
+          <Button
+            onClick={this.onSaveMessage}
+            disabled={isBusy || newMessage.trim().length === 0}
+          >
+            Save
+          </Button>
+          <Button onClick={this.onCancelRename}>Cancel</Button>
+        </div>
+      )
+    }
+
+    return (
+      <div className="stash-entry-header">
+        <h3 title={getStashEntryTitle(stashEntry)}>
+          {getStashEntryTitle(stashEntry)}
+        </h3>
+        <Button onClick={this.onApply} disabled={isBusy}>
+          Apply
+        </Button>
+        <Button
+          onClick={this.onRestore}
+          disabled={isBusy}
+          tooltip="Apply the stash and remove it from the list"
+        >
+          Restore
+        </Button>
+        <Button onClick={this.onRename} disabled={isBusy}>
+          Rename
+        </Button>
+        <Button onClick={this.onDiscard} disabled={isBusy}>
+          Discard
+        </Button>
+      </div>
+    )
+  }
+
+  private renderFileList() {
+    const { files, selectedFile } = this.state
+
+    return (
+      <div className="stash-entry-files" style={{ width: FileListWidth }}>
+        <FileList
+          files={files ?? []}
+          selectedFile={selectedFile}
+          onSelectedFileChanged={this.onSelectedFileChanged}
+          availableWidth={FileListWidth}
+        />
+      </div>
+    )
+  }
+
+  private renderDiff() {
+    const { selectedFile, diff } = this.state
+
+    if (selectedFile === null) {
+      return null
+    }
+
+    return (
+      <SeamlessDiffSwitcher
+        repository={this.props.repository}
+        readOnly={true}
+        file={selectedFile}
+        diff={diff}
+        imageDiffType={this.props.imageDiffType}
+        hideWhitespaceInDiff={false}
+        showSideBySideDiff={this.props.showSideBySideDiff}
+        onOpenBinaryFile={this.onOpenBinaryFile}
+        onChangeImageDiffType={this.onChangeImageDiffType}
+        onHideWhitespaceInDiffChanged={this.onHideWhitespaceInDiffChanged}
+      />
+    )
+  }
+
+  private onOpenBinaryFile = (fullPath: string) => {
+    openFile(fullPath, this.props.dispatcher)
+  }
+
+  private onChangeImageDiffType = (imageDiffType: ImageDiffType) => {
+    this.props.dispatcher.changeImageDiffType(imageDiffType)
+  }
+
+  private onHideWhitespaceInDiffChanged = (hideWhitespaceInDiff: boolean) => {
+    // Hiding whitespace isn't supported when previewing stash entries
+  }
+
+  private async withSelectedStashEntry(
+    fn: (stashEntry: IStashEntry) => Promise<void>
+  ) {
+    const stashEntry = this.getSelectedStashEntry()
+
+    if (stashEntry === null) {
+      return
+    }
+
+    this.setState({ isBusy: true })
+
+    try {
+      await fn(stashEntry)
+    } finally {
+      this.setState({ isBusy: false })
+    }
+  }
+
+  private onApply = () => {
+    const { dispatcher, repository } = this.props
+    this.withSelectedStashEntry(stashEntry =>
+      dispatcher.applyStash(repository, stashEntry)
+    )
+  }
+
+  private onRestore = () => {
+    const { dispatcher, repository } = this.props
+    this.withSelectedStashEntry(stashEntry =>
+      dispatcher.popStash(repository, stashEntry)
+    )
+  }
+
+  private onDiscard = () => {
+    const { dispatcher, repository, askForConfirmationOnDiscardStash } =
+      this.props
+
+    this.withSelectedStashEntry(async stashEntry => {
+      if (askForConfirmationOnDiscardStash) {
+        dispatcher.showPopup({
+          type: PopupType.ConfirmDiscardStash,
+          stash: stashEntry,
+          repository,
+        })
+      } else {
+        await dispatcher.dropStash(repository, stashEntry)
+      }
+    })
+  }
+
+  private onRename = () => {
+    const stashEntry = this.getSelectedStashEntry()
+
+    if (stashEntry !== null) {
+      this.setState({ newMessage: stashEntry.message })
+    }
+  }
+
+  private onNewMessageChanged = (newMessage: string) => {
+    this.setState({ newMessage })
+  }
+
+  private onCancelRename = () => {
+    this.setState({ newMessage: null })
+  }
+
+  private onSaveMessage = () => {
+    const { dispatcher, repository } = this.props
+    const { newMessage } = this.state
+
+    if (newMessage === null) {
+      return
+    }
+
+    this.withSelectedStashEntry(async stashEntry => {
+      await dispatcher.renameStash(repository, stashEntry, newMessage.trim())
+      this.setState({ newMessage: null })
+    })
+  }
+
+  private onCreateStash = () => {
+    this.props.dispatcher.showPopup({
+      type: PopupType.CreateStash,
+      repository: this.props.repository,
+    })
+  }
+}
@@ -0,0 +1,417 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Dispatcher } from '../dispatcher'
+import { Repository } from '../../models/repository'
+import { ITag } from '../../models/tag'
+import { PopupType } from '../../models/popup'
+import { List, SelectionSource } from '../lib/list'
+import { Button } from '../lib/button'
+import { Ref } from '../lib/ref'
+import { RelativeTime } from '../relative-time'
+import { getCommit, getTags } from '../../lib/git'
+
+const RowHeight = 50
+
+/** A tag which exists locally, in the remote, or both */
+interface ITagListItem {
+  readonly name: string
+
+  /** The local tag, or null if the tag only exists in the remote */
+  readonly local: ITag | null
+
+  /**
+   * The SHA of the commit the tag points to in the remote, or null if the tag
+   * hasn't been pushed or the remote tags couldn't be loaded
+   */
+  readonly remoteSha: string | null
+}
+
+interface ITagsDialogProps {
+  readonly repository: Repository
+  readonly dispatcher: Dispatcher
+
+  /**
+   * The local tags of the repository, used to reload the tags when they're
+   * created or deleted
+   */
+  readonly localTags: Map<string, string> | null
+
+  /** The local tags which haven't been pushed yet */
+  readonly tagsToPush: ReadonlyArray<string> | null
+
+  /** The name of the remote of the current branch, if any */
+  readonly remoteName: string | null
+
+  readonly onDismissed: () => void
+}
+
+interface ITagsDialogState {
+  /** The local tags, or null while loading */
+  readonly tags: ReadonlyArray<ITag> | null
+
+  /**
+   * The tags in the remote keyed on their name, or null while loading or if
+   * they couldn't be loaded
+   */
+  readonly remoteTags: Map<string, string> | null
+  readonly isLoadingRemoteTags: boolean
+
+  readonly selectedName: string | null
+
+  /** Whether an operation on the selected tag is in progress */
+  readonly isBusy: boolean
+}
+
+/**
+ * Dialog listing the local tags and the tags in the remote, with the commit
+ * each tag points to and the annotation of annotated tags.
+ */
+export class TagsDialog extends React.Component<
+  ITagsDialogProps,
+  ITagsDialogState
+> {
+  public constructor(props: ITagsDialogProps) {
+    super(props)
+
+    this.state = {
+      tags: null,
+      remoteTags: null,
+      isLoadingRemoteTags: false,
+      selectedName: null,
+      isBusy: false,
+    }
+  }
+
+  public componentDidMount() {
+    this.loadTags()
+    this.loadRemoteTags()
+  }
+
+  public componentDidUpdate(prevProps: ITagsDialogProps) {
+    if (this.props.localTags !== prevProps.localTags) {
+      this.loadTags()
+    }
+  }
+
+  private async loadTags() {
+    let tags: ReadonlyArray<ITag> = []
+    try {
+      tags = await getTags(this.props.repository)
+    } catch (e) {
+      log.error('Could not load tags', e)
+    }
+
+    this.setState({ tags })
+
+    if (this.state.selectedName === null && tags.length > 0) {
+      this.setState({ selectedName: tags[0].name })
+    }
+  }
+
+  private async loadRemoteTags() {
+    const { dispatcher, repository, remoteName } = this.props
+
+    if (remoteName === null) {
+      return
+    }
+
+    this.setState({ isLoadingRemoteTags: true })
+
+    const remoteTags = await dispatcher.getRemoteTags(repository)
+    this.setState({ remoteTags, isLoadingRemoteTags: false })
+  }
+
+  private getItems(): ReadonlyArray<ITagListItem> {
+    const { tags, remoteTags } = this.state
+    const local = tags ?? []
+    const items: Array<ITagListItem> = local.map(tag => ({
+      name: tag.name,
+      local: tag,
+      remoteSha: remoteTags?.get(tag.name) ?? null,
+    }))
+
+    if (remoteTags !== null) {
+      const localNames = new Set(local.map(t => t.name))
+      const remoteOnly = [...remoteTags.keys()]
+        .filter(name => !localNames.has(name))
+        .sort((a, b) => a.localeCompare(b))
+
+      for (const name of remoteOnly) {
+        items.push({
+          name,
+          local: null,
+          remoteSha: remoteTags.get(name) ?? null,
+        })
+      }
+    }
+
+    return items
+  }
+
+  private getSelectedItem() {
+    const { selectedName } = this.state
+    return this.getItems().find(i => i.name === selectedName) ?? null
+  }
+
+  public render() {
+    return (
+      <Dialog
+        id="tags"
+        title="Tags"
+        onSubmit={this.props.onDismissed}
+        onDismissed={this.props.onDismissed}
+      >
+        <DialogContent>
+          <div className="tags-container">
+            {this.renderTags()}
+            {this.renderSelectedTag()}
+          </div>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText="Close"
+            cancelButtonVisible={false}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private renderTags() {
+    const { tags, selectedName } = this.state
+
+    if (tags === null) {
+      return <div className="tag-list empty">Loading tags…</div>
+    }
+
+    const items = this.getItems()
+
+    if (items.length === 0) {
+      return <div className="tag-list empty">No tags</div>
+    }
+
+    const selectedRow = items.findIndex(i => i.name === selectedName)
+
+    return (
+      <div className="tag-list">
+        <List
+          rowCount={items.length}
+          rowHeight={RowHeight}
+          rowRenderer={this.renderTag}
+          selectedRows={selectedRow === -1 ? [] : [selectedRow]}
+          onSelectedRowChanged={this.onSelectedRowChanged}
+          invalidationProps={items}
+        />
+      </div>
+    )
+  }
+
+  private renderTag = (row: number) => {
+    const item = this.getItems()[row]
+    const sha = item.local?.targetSha ?? item.remoteSha ?? ''
+
+    return (
+      <div className="tag-list-item">
+        <div className="name" title={item.name}>
+          {item.name}
+        </div>
+        <div className="description">
+          {sha.substring(0, 7)}
+          {` • ${this.getStatus(item)}`}
+        </div>
+      </div>
+    )
+  }
+
+  private getStatus(item: ITagListItem) {
+    const { remoteName, tagsToPush } = this.props
+    const { remoteTags, isLoadingRemoteTags } = this.state
+
+    if (item.local === null) {
+      return `Only on ${remoteName}`
+    }
+
+    if (remoteName === null) {
+      return 'Local'
+    }
+
+    if (remoteTags === null) {
+      if (isLoadingRemoteTags) {
+        return 'Local'
+      }
+
+      return tagsToPush?.includes(item.name) ? 'Not pushed' : 'Local'
+    }
+
+    if (item.remoteSha === null) {
+      return 'Not pushed'
+    }
+
+    return item.remoteSha === item.local.targetSha
+      ? 'Pushed'
+      : `Differs from ${remoteName}`
+  }
+
+  private onSelectedRowChanged = (row: number, source: SelectionSource) => {
+    const item = this.getItems()[row]
+    this.setState({ selectedName: item?.name ?? null })
+  }
+
+  private renderSelectedTag() {
+    const item = this.getSelectedItem()
+
+    if (item === null) {
+      return null
+    }
+
+    const { remoteName } = this.props
+    const { isBusy, remoteTags } = this.state
+    const { local } = item
+    const canPush =
+      local !== null &&
+      remoteName !== null &&
+      item.remoteSha !== local.targetSha
+    const canDeleteRemote = remoteName !== null && item.remoteSha !== null
+
+    return (
+      <div className="tag-details">
+        <div className="tag-details-header">
+          <h3 title={item.name}>{item.name}</h3>
+          {canPush && (
+            <Button onClick={this.onPush} disabled={isBusy}>
+              Push to {remoteName}
+            </Button>
+          )}
+          {local !== null && (
+            <Button onClick={this.onCreateBranch} disabled={isBusy}>
+              {__DARWIN__
+                ? 'Checkout as New Branch…'
+                : 'Checkout as new branch…'}
+            </Button>
+          )}
+        </div>
+        <div className="tag-details-body">
+          {local === null ? (
+            <p>
+              This tag only exists in <Ref>{remoteName}</Ref>. Fetch to get it
+              locally.
+            </p>
+          ) : (
+            this.renderLocalTag(local)
+          )}
+          {remoteName !== null && remoteTags === null && (
+            <p className="remote-tags-unavailable">
+              {this.state.isLoadingRemoteTags
+                ? `Loading tags from ${remoteName}…`
+                : `Could not load the tags in ${remoteName}.`}
+            </p>
+          )}
+        </div>
+        <div className="tag-details-footer">
+          {local !== null && (
+            <Button onClick={this.onDelete} disabled={isBusy}>
+              {__DARWIN__ ? 'Delete Tag…' : 'Delete tag…'}
+            </Button>
+          )}
+          {canDeleteRemote && (
+            <Button onClick={this.onDeleteRemote} disabled={isBusy}>
+              Delete from {remoteName}…
+            </Button>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  private renderLocalTag(tag: ITag) {
+    const { tagger, message } = tag
+
+    return (
+      <>
+        <p className="tag-target">
+          Points to commit <Ref>{tag.targetSha.substring(0, 7)}</Ref>
+        </p>
+        {tagger !== null && (
+          <p className="tagger">
+            Tagged by {tagger.name} <RelativeTime date={tagger.date} />
+          </p>
+        )}
+        {tag.isAnnotated ? (
+          <pre className="tag-message">
+            {message !== null && message.length > 0 ? message : 'No message'}
+          </pre>
+        ) : (
+          <p className="tag-message lightweight">
+            Lightweight tag without a message
+          </p>
+        )}
+      </>
+    )
+  }
+
+  private async run(action: () => Promise<void>) {
+    this.setState({ isBusy: true })
+    try {
+      await action()
+    } finally {
+      this.setState({ isBusy: false })
+    }
+  }
+
+  private onPush = () => {
+    const { dispatcher, repository } = this.props
+    const item = this.getSelectedItem()
+
+    if (item === null) {
+      return
+    }
+
+    this.run(async () => {
+      await dispatcher.pushTag(repository, item.name)
+      await this.loadRemoteTags()
+    })
+  }
+
+  private onDelete = () => {
+    const { dispatcher, repository } = this.props
+    const item = this.getSelectedItem()
+
+    if (item !== null) {
+      dispatcher.showDeleteTagDialog(repository, item.name)
+    }
+  }
+
+  private onDeleteRemote = () => {
+    const { dispatcher, repository, remoteName } = this.props
+    const item = this.getSelectedItem()
+
+    if (item !== null && remoteName !== null) {
+      dispatcher.showDeleteTagDialog(repository, item.name, remoteName)
+    }
+  }
+
+  private onCreateBranch = async () => {
+    const { dispatcher, repository } = this.props
+    const item = this.getSelectedItem()
+
+    if (item === null || item.local === null) {
+      return
+    }
+
+    const commit = await getCommit(repository, item.local.targetSha)
+
+    if (commit === null) {
+      log.error(`Could not find the commit of the tag ${item.name}`)
+      return
+    }
+
+    this.props.onDismissed()
+
+    dispatcher.showPopup({
+      type: PopupType.CreateBranch,
+      repository,
+      targetCommit: { sha: commit.sha, summary: commit.summary },
+    })
+  }
+}
@@ -56,6 +56,9 @@ interface IBranchDropdownProps {
   /** Are we currently loading pull requests? */
   readonly isLoadingPullRequests: boolean
 
+  /** The login of the user's account for the repository, if any. */
+  readonly currentUserLogin: string | null
+
   /** Whether this component should show its onboarding tutorial nudge arrow */
   readonly shouldNudge: boolean
 
@@ -100,6 +103,7 @@ export class BranchDropdown extends React.Component<
         pullRequests={this.props.pullRequests}
         currentPullRequest={this.props.currentPullRequest}
         isLoadingPullRequests={this.props.isLoadingPullRequests}
+        currentUserLogin={this.props.currentUserLogin}
         emoji={this.props.emoji}
         onDeleteBranch={this.onDeleteBranch}
         onRenameBranch={this.onRenameBranch}
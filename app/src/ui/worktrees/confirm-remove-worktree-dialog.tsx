@@ -0,0 +1,81 @@
+import * as React from 'react'
+import { Dialog, DialogContent, DialogFooter } from '../dialog'
+import { Ref } from '../lib/ref'
+import { Repository } from '../../models/repository'
+import { Dispatcher } from '../dispatcher'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+
+interface IConfirmRemoveWorkTreeProps {
+  readonly dispatcher: Dispatcher
+
+  /** The repository the work tree belongs to */
+  readonly repository: Repository
+
+  /** The work tree to remove, as tracked in the list of repositories */
+  readonly workTreeRepository: Repository
+
+  readonly onDismissed: () => void
+}
+
+interface IConfirmRemoveWorkTreeState {
+  readonly isRemovingWorkTree: boolean
+}
+
+/**
+ * Dialog asking the user to confirm removing a work tree, which deletes its
+ * directory from disk, including any ignored files in it.
+ */
+export class ConfirmRemoveWorkTree extends React.Component<
+  IConfirmRemoveWorkTreeProps,
+  IConfirmRemoveWorkTreeState
+> {
+  public constructor(props: IConfirmRemoveWorkTreeProps) {
+    super(props)
+
+    this.state = { isRemovingWorkTree: false }
+  }
+
+  private onSubmit = async () => {
+    const { dispatcher, repository, workTreeRepository } = this.props
+
+    this.setState({ isRemovingWorkTree: true })
+
+    await dispatcher.removeWorkTree(repository, workTreeRepository)
+
+    this.props.onDismissed()
+  }
+
+  public render() {
+    const { workTreeRepository } = this.props
+    const { isRemovingWorkTree } = this.state
+
+    return (
+      <Dialog
+        id="confirm-remove-worktree"
+        type="warning"
+        title={__DARWIN__ ? 'Remove Worktree' : 'Remove worktree'}
+        dismissable={!isRemovingWorkTree}
+        loading={isRemovingWorkTree}
+        disabled={isRemovingWorkTree}
+        onDismissed={this.props.onDismissed}
+        onSubmit={this.onSubmit}
+      >
+        <DialogContent>
+          <p>
+            Are you sure you want to remove the worktree "
+            {workTreeRepository.name}"?
+          </p>
+          <p className="description">
+            Its directory will be deleted from disk, including any ignored files
+            such as build output and dependencies:
+            <br />
+            <Ref>{workTreeRepository.path}</Ref>
+          </p>
+        </DialogContent>
+        <DialogFooter>
+          <OkCancelButtonGroup destructive={true} okButtonText="Remove" />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+}
@@ -0,0 +1,260 @@
+import * as React from 'react'
+import * as Path from 'path'
+
+import { Repository } from '../../models/repository'
+import { Branch, BranchType } from '../../models/branch'
+import { Dispatcher } from '../dispatcher'
+import { Dialog, DialogError, DialogContent, DialogFooter } from '../dialog'
+import { OkCancelButtonGroup } from '../dialog/ok-cancel-button-group'
+import { Row } from '../lib/row'
+import { Ref } from '../lib/ref'
+import { TextBox } from '../lib/text-box'
+import { Button } from '../lib/button'
+import { Checkbox, CheckboxValue } from '../lib/checkbox'
+import { RefNameTextBox } from '../lib/ref-name-text-box'
+import { showOpenDialog } from '../main-process-proxy'
+import { readdir } from 'fs/promises'
+import { directoryExists } from '../../lib/directory-exists'
+import { pathExists } from '../lib/path-exists'
+
+interface ICreateWorkTreeProps {
+  readonly repository: Repository
+  readonly dispatcher: Dispatcher
+
+  /** The branch to base the new work tree on */
+  readonly branch: Branch
+
+  /**
+   * All local branches in the repository, used to prevent creating a new
+   * branch with the name of an existing one.
+   */
+  readonly allBranches: ReadonlyArray<Branch>
+
+  /** The name of the branch currently checked out in the repository */
+  readonly currentBranchName: string | null
+
+  readonly onDismissed: () => void
+}
+
+interface ICreateWorkTreeState {
+  readonly path: string
+
+  /** Whether to check out a new branch in the work tree */
+  readonly createNewBranch: boolean
+  readonly newBranchName: string
+
+  /**
+   * Whether the chosen path already exists and isn't an empty directory,
+   * in which case git refuses to create a work tree in it.
+   */
+  readonly pathNotEmpty: boolean
+
+  /**
+   * Note: once work tree creation has been initiated this value stays at
+   * true and will never revert to being false. If the operation fails this
+   * dialog will still be dismissed and an error dialog will be shown in its
+   * place.
+   */
+  readonly isCreatingWorkTree: boolean
+}
+
+/**
+ * Suggest a directory for a new work tree next to the repository's main
+ * working tree, e.g. `~/code/desktop-my-feature` for the `my-feature`
+ * branch of `~/code/desktop`.
+ */
+function getDefaultWorkTreePath(repository: Repository, branchName: string) {
+  const suffix = branchName.replace(/[\/\\]/g, '-')
+  return Path.join(
+    Path.dirname(repository.path),
+    `${Path.basename(repository.path)}-${suffix}`
+  )
+}
+
+/** The dialog for creating a new work tree from a branch. */
+export class CreateWorkTree extends React.Component<
+  ICreateWorkTreeProps,
+  ICreateWorkTreeState
+> {
+  public constructor(props: ICreateWorkTreeProps) {
+    super(props)
+
+    const { branch, repository, currentBranchName } = props
+
+    // A branch can only be checked out in one work tree at a time so we
+    // have to create a new branch when basing the work tree on the current
+    // branch or on a remote branch.
+    const createNewBranch =
+      branch.type === BranchType.Remote || branch.name === currentBranchName
+
+    this.state = {
+      path: getDefaultWorkTreePath(repository, branch.nameWithoutRemote),
+      createNewBranch,
+      newBranchName:
+        branch.type === BranchType.Remote ? branch.nameWithoutRemote : '',
+      pathNotEmpty: false,
+      isCreatingWorkTree: false,
+    }
+  }
+
+  public componentDidMount() {
+    this.updatePathNotEmpty(this.state.path)
+  }
+
+  public render() {
+    const error = this.getCurrentError()
+    const disabled =
+      error !== null ||
+      this.state.path.length === 0 ||
+      (this.state.createNewBranch && this.state.newBranchName.length === 0)
+
+    return (
+      <Dialog
+        id="create-worktree"
+        title={__DARWIN__ ? 'Create a Worktree' : 'Create a worktree'}
+        onSubmit={this.createWorkTree}
+        onDismissed={this.props.onDismissed}
+        loading={this.state.isCreatingWorkTree}
+        disabled={this.state.isCreatingWorkTree}
+      >
+        {error && <DialogError>{error}</DialogError>}
+
+        <DialogContent>
+          <Row>
+            <p>
+              The new worktree will be based on{' '}
+              <Ref>{this.props.branch.name}</Ref> and will be added to your
+              repositories.
+            </p>
+          </Row>
+
+          <Row>
+            <TextBox
+              value={this.state.path}
+              label={__DARWIN__ ? 'Local Path' : 'Local path'}
+              placeholder="worktree path"
+              onValueChanged={this.onPathChanged}
+            />
+            <Button onClick={this.showFilePicker}>Choose…</Button>
+          </Row>
+
+          <Row>
+            <Checkbox
+              label="Check out a new branch"
+              value={
+                this.state.createNewBranch
+                  ? CheckboxValue.On
+                  : CheckboxValue.Off
+              }
+              onChange={this.onCreateNewBranchChanged}
+              disabled={this.isNewBranchRequired()}
+            />
+          </Row>
+
+          {this.state.createNewBranch && (
+            <RefNameTextBox
+              label={__DARWIN__ ? 'Branch Name' : 'Branch name'}
+              initialValue={this.state.newBranchName}
+              onValueChange={this.onNewBranchNameChanged}
+            />
+          )}
+        </DialogContent>
+
+        <DialogFooter>
+          <OkCancelButtonGroup
+            okButtonText={__DARWIN__ ? 'Create Worktree' : 'Create worktree'}
+            okButtonDisabled={disabled}
+          />
+        </DialogFooter>
+      </Dialog>
+    )
+  }
+
+  private isNewBranchRequired() {
+    const { branch, currentBranchName } = this.props
+    return (
+      branch.type === BranchType.Remote || branch.name === currentBranchName
+    )
+  }
+
+  private getCurrentError(): JSX.Element | null {
+    if (this.state.pathNotEmpty) {
+      return <>The directory already exists and is not empty</>
+    }
+
+    const { createNewBranch, newBranchName } = this.state
+    if (
+      createNewBranch &&
+      this.props.allBranches.some(
+        b => b.type === BranchType.Local && b.name === newBranchName
+      )
+    ) {
+      return (
+        <>
+          A branch named <Ref>{newBranchName}</Ref> already exists
+        </>
+      )
+    }
+
+    return null
+  }
+
+  private async updatePathNotEmpty(path: string) {
+    let pathNotEmpty = false
+
+    if (await directoryExists(path)) {
+      const entries = await readdir(path).catch(() => [])
+      pathNotEmpty = entries.length > 0
+    } else {
+      pathNotEmpty = await pathExists(path)
+    }
+
+    // The path may have changed while we were checking it
+    if (path === this.state.path) {
+      this.setState({ pathNotEmpty })
+    }
+  }
+
+  private onPathChanged = (path: string) => {
+    this.setState({ path, pathNotEmpty: false })
+    this.updatePathNotEmpty(path)
+  }
+
+  private showFilePicker = async () => {
+    const path = await showOpenDialog({
+      properties: ['createDirectory', 'openDirectory'],
+    })
+
+    if (path === null) {
+      return
+    }
+
+    this.onPathChanged(path)
+  }
+
+  private onCreateNewBranchChanged = (
+    event: React.FormEvent<HTMLInputElement>
+  ) => {
+    this.setState({ createNewBranch: event.currentTarget.checked })
+  }
+
+  private onNewBranchNameChanged = (newBranchName: string) => {
+    this.setState({ newBranchName })
+  }
+
+  private createWorkTree = async () => {
+    const { repository, branch, dispatcher } = this.props
+    const { path, createNewBranch, newBranchName } = this.state
+
+    this.setState({ isCreatingWorkTree: true })
+
+    await dispatcher.createWorkTree(
+      repository,
+      path,
+      branch.name,
+      createNewBranch ? newBranchName : null
+    )
+
+    this.props.onDismissed()
+  }
+}
@@ -0,0 +1,2 @@
+export { CreateWorkTree } from './create-worktree-dialog'
+export { ConfirmRemoveWorkTree } from './confirm-remove-worktree-dialog'
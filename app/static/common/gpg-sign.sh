@@ -0,0 +1,51 @@
+#!/bin/sh
+
+# GitHub Desktop has Git run this in place of gpg to sign commits (see
+# gpg.openpgp.program) so that the passphrase of the signing key is asked for
+# in Desktop, through the askpass trampoline, rather than by whichever
+# pinentry program gpg-agent has been set up with.
+
+# The program the user has set up, without the override Desktop passes to Git
+GPG="$(env -u GIT_CONFIG_COUNT git config --get gpg.openpgp.program ||
+  env -u GIT_CONFIG_COUNT git config --get gpg.program || echo gpg)"
+
+# Git signs with `gpg --status-fd=2 -bsau <key>`, anything else (such as
+# verifying signatures) goes straight to gpg.
+KEY=""
+PREVIOUS=""
+for ARG in "$@"; do
+  if [ "$PREVIOUS" = "-bsau" ]; then
+    KEY="$ARG"
+  fi
+  PREVIOUS="$ARG"
+done
+
+if [ -z "$KEY" ] || [ -z "$GIT_ASKPASS" ]; then
+  exec "$GPG" "$@"
+fi
+
+TEMP_DIR="$(mktemp -d)" || exit 1
+trap 'rm -rf "$TEMP_DIR"' EXIT
+
+cat >"$TEMP_DIR/payload"
+
+# Signing works without a passphrase when the key doesn't have one or when
+# gpg-agent has cached it.
+if "$GPG" --pinentry-mode error "$@" <"$TEMP_DIR/payload" \
+  >"$TEMP_DIR/signature" 2>"$TEMP_DIR/status"; then
+  cat "$TEMP_DIR/status" >&2
+  cat "$TEMP_DIR/signature"
+  exit 0
+fi
+
+PASSPHRASE="$("$GIT_ASKPASS" "Enter passphrase for \"$KEY\": ")"
+
+# The dialog was dismissed
+if [ -z "$PASSPHRASE" ]; then
+  cat "$TEMP_DIR/status" >&2
+  exit 1
+fi
+
+"$GPG" --pinentry-mode loopback --passphrase-fd 3 "$@" <"$TEMP_DIR/payload" 3<<PASSPHRASE
+$PASSPHRASE
+PASSPHRASE
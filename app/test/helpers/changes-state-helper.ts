@@ -19,7 +19,9 @@ export function createState<K extends keyof IChangesState>(
     coAuthors: [],
     conflictState: null,
     stashEntry: null,
+    stashEntries: [],
     currentBranchProtected: false,
+    showStagedDiff: false,
   }
 
   return merge(baseChangesState, pick)
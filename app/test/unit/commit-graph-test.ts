@@ -0,0 +1,76 @@
+import { computeCommitGraph } from '../../src/lib/commit-graph'
+
+function commit(sha: string, ...parentSHAs: ReadonlyArray<string>) {
+  return { sha, parentSHAs }
+}
+
+describe('computeCommitGraph', () => {
+  it('lays out linear history in a single lane', () => {
+    const { rows, laneCount } = computeCommitGraph([
+      commit('c', 'b'),
+      commit('b', 'a'),
+      commit('a'),
+    ])
+
+    expect(laneCount).toBe(1)
+    expect(rows.map(r => r.lane)).toEqual([0, 0, 0])
+
+    // the tip has nothing above it and the root has nothing below it
+    expect(rows[0].topLines).toEqual([])
+    expect(rows[2].bottomLines).toEqual([])
+    expect(rows[1].topLines).toEqual([{ from: 0, to: 0, color: 0 }])
+    expect(rows[1].bottomLines).toEqual([{ from: 0, to: 0, color: 0 }])
+  })
+
+  it('opens a lane for the second parent of a merge and closes it again', () => {
+    const { rows, laneCount } = computeCommitGraph([
+      commit('merge', 'main', 'feature'),
+      commit('feature', 'base'),
+      commit('main', 'base'),
+      commit('base'),
+    ])
+
+    expect(laneCount).toBe(2)
+    expect(rows.map(r => r.lane)).toEqual([0, 1, 0, 0])
+
+    const [mergeRow, featureRow, mainRow, baseRow] = rows
+    expect(mergeRow.bottomLines).toContainEqual({
+      from: 0,
+      to: 1,
+      color: featureRow.color,
+    })
+    expect(mainRow.bottomLines).toEqual([
+      { from: 1, to: 1, color: featureRow.color },
+      { from: 0, to: 0, color: mainRow.color },
+    ])
+    expect(baseRow.topLines).toContainEqual({
+      from: 1,
+      to: 0,
+      color: featureRow.color,
+    })
+    expect(baseRow.bottomLines).toEqual([])
+  })
+
+  it('gives each branch tip its own lane', () => {
+    const { rows, laneCount } = computeCommitGraph([
+      commit('feature', 'base'),
+      commit('main', 'base'),
+      commit('base'),
+    ])
+
+    expect(laneCount).toBe(2)
+    expect(rows.map(r => r.lane)).toEqual([0, 1, 0])
+    expect(rows[0].color).not.toBe(rows[1].color)
+    expect(rows[2].topLines).toContainEqual({
+      from: 1,
+      to: 0,
+      color: rows[1].color,
+    })
+  })
+
+  it('leaves lanes of parents that are not in the list open', () => {
+    const { rows } = computeCommitGraph([commit('b', 'a')])
+
+    expect(rows[0].bottomLines).toEqual([{ from: 0, to: 0, color: 0 }])
+  })
+})
@@ -0,0 +1,131 @@
+import {
+  ConflictFileSegmentKind,
+  ConflictHunkResolutionKind,
+  getConflictHunks,
+  parseConflictMarkers,
+  resolveConflictHunk,
+  resolveConflictMarkers,
+} from '../../src/lib/conflict-markers'
+
+const conflicted =
+  'first line\n' +
+  '<<<<<<< HEAD\n' +
+  'our line\n' +
+  '=======\n' +
+  'their line\n' +
+  '>>>>>>> feature\n' +
+  'middle line\n' +
+  '<<<<<<< HEAD\n' +
+  'our other line\n' +
+  '||||||| merged common ancestors\n' +
+  'base line\n' +
+  '=======\n' +
+  'their other line\n' +
+  '>>>>>>> feature\n' +
+  'last line'
+
+describe('parseConflictMarkers', () => {
+  it('parses conflicts into hunks', () => {
+    const segments = parseConflictMarkers(conflicted)
+
+    expect(segments.map(s => s.kind)).toEqual([
+      ConflictFileSegmentKind.Text,
+      ConflictFileSegmentKind.Conflict,
+      ConflictFileSegmentKind.Text,
+      ConflictFileSegmentKind.Conflict,
+      ConflictFileSegmentKind.Text,
+    ])
+
+    const [first, second] = getConflictHunks(segments)
+
+    expect(first).toEqual({
+      ours: 'our line\n',
+      base: null,
+      theirs: 'their line\n',
+      oursLabel: 'HEAD',
+      baseLabel: null,
+      theirsLabel: 'feature',
+    })
+
+    expect(second.ours).toBe('our other line\n')
+    expect(second.base).toBe('base line\n')
+    expect(second.baseLabel).toBe('merged common ancestors')
+    expect(second.theirs).toBe('their other line\n')
+  })
+
+  it('treats markers which are not closed as text', () => {
+    const contents = 'a\n<<<<<<< HEAD\nb\n=======\nc\n'
+    const segments = parseConflictMarkers(contents)
+
+    expect(segments).toEqual([
+      { kind: ConflictFileSegmentKind.Text, text: contents },
+    ])
+  })
+
+  it('ignores lines which only start like markers', () => {
+    const contents = 'Title\n========\n<<<<<<<<\n'
+    expect(getConflictHunks(parseConflictMarkers(contents))).toHaveLength(0)
+  })
+
+  it('keeps CRLF line endings', () => {
+    const segments = parseConflictMarkers(
+      '<<<<<<< HEAD\r\nours\r\n=======\r\ntheirs\r\n>>>>>>> feature\r\n'
+    )
+    const [hunk] = getConflictHunks(segments)
+
+    expect(hunk.ours).toBe('ours\r\n')
+    expect(hunk.theirs).toBe('theirs\r\n')
+    expect(hunk.theirsLabel).toBe('feature')
+  })
+})
+
+describe('resolveConflictMarkers', () => {
+  const segments = parseConflictMarkers(conflicted)
+
+  it('replaces each conflict with its resolution', () => {
+    const resolved = resolveConflictMarkers(segments, [
+      { kind: ConflictHunkResolutionKind.Both },
+      { kind: ConflictHunkResolutionKind.Theirs },
+    ])
+
+    expect(resolved).toBe(
+      'first line\n' +
+        'our line\n' +
+        'their line\n' +
+        'middle line\n' +
+        'their other line\n' +
+        'last line'
+    )
+  })
+
+  it('returns null when a conflict is not resolved', () => {
+    expect(
+      resolveConflictMarkers(segments, [
+        { kind: ConflictHunkResolutionKind.Ours },
+        null,
+      ])
+    ).toBeNull()
+  })
+
+  it('ends edited text with the line ending of the conflict', () => {
+    const [hunk] = getConflictHunks(
+      parseConflictMarkers(
+        '<<<<<<< HEAD\r\nours\r\n=======\r\ntheirs\r\n>>>>>>> feature\r\n'
+      )
+    )
+
+    expect(
+      resolveConflictHunk(hunk, {
+        kind: ConflictHunkResolutionKind.Manual,
+        text: 'one\ntwo',
+      })
+    ).toBe('one\r\ntwo\r\n')
+
+    expect(
+      resolveConflictHunk(hunk, {
+        kind: ConflictHunkResolutionKind.Manual,
+        text: '',
+      })
+    ).toBe('')
+  })
+})
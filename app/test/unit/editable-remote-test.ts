@@ -0,0 +1,66 @@
+import {
+  getRemoteError,
+  getRemoteWarning,
+  IEditableRemote,
+  remotesAreValid,
+} from '../../src/ui/repository-settings/editable-remote'
+
+function remote(
+  name: string,
+  url = 'https://github.com/desktop/desktop.git',
+  pushUrl = ''
+): IEditableRemote {
+  return { originalName: null, name, url, pushUrl }
+}
+
+describe('getRemoteError', () => {
+  it('accepts a valid remote', () => {
+    const origin = remote('origin')
+    expect(getRemoteError(origin, [origin])).toBeNull()
+  })
+
+  it('requires a name and a URL', () => {
+    const unnamed = remote(' ')
+    const noUrl = remote('origin', '')
+
+    expect(getRemoteError(unnamed, [unnamed])).not.toBeNull()
+    expect(getRemoteError(noUrl, [noUrl])).not.toBeNull()
+  })
+
+  it('rejects names which are not valid ref names', () => {
+    const invalid = remote('my remote')
+    expect(getRemoteError(invalid, [invalid])).not.toBeNull()
+  })
+
+  it('rejects duplicate names', () => {
+    const remotes = [remote('origin'), remote('origin ')]
+
+    expect(getRemoteError(remotes[0], remotes)).not.toBeNull()
+    expect(remotesAreValid(remotes)).toBeFalse()
+    expect(remotesAreValid([remote('origin'), remote('upstream')])).toBeTrue()
+  })
+})
+
+describe('getRemoteWarning', () => {
+  it('accepts repository URLs', () => {
+    expect(getRemoteWarning(remote('origin'))).toBeNull()
+    expect(
+      getRemoteWarning(
+        remote(
+          'origin',
+          'https://github.com/desktop/desktop.git',
+          'git@github.com:shiftkey/desktop.git'
+        )
+      )
+    ).toBeNull()
+  })
+
+  it('warns about URLs which are not recognized', () => {
+    expect(getRemoteWarning(remote('origin', '/some/path'))).toContain(
+      '/some/path'
+    )
+    expect(
+      getRemoteWarning(remote('origin', undefined, 'not a url'))
+    ).toContain('not a url')
+  })
+})
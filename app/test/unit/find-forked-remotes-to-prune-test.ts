@@ -27,7 +27,11 @@ function createSamplePullRequest(
     },
     userName,
     false,
-    'sample body'
+    'sample body',
+    new Date(),
+    [],
+    [],
+    null
   )
 }
 
@@ -23,4 +23,28 @@ describe('findUpstreamRemote', () => {
       'https://github.com/Somsubhra/github-release-stats.git'
     )
   })
+
+  it('prefers the remote chosen by the user', () => {
+    const parent = gitHubRepoFixture({
+      name: 'github-release-stats',
+      owner: 'somsubhra',
+    })
+    const remotes = [
+      {
+        name: 'somsubhra',
+        url: 'https://github.com/Somsubhra/github-release-stats.git',
+      },
+      {
+        name: 'upstream',
+        url: 'https://github.com/Somsubhra/github-release-stats.git',
+      },
+    ]
+
+    expect(findUpstreamRemote(parent, remotes, 'somsubhra')!.name).toBe(
+      'somsubhra'
+    )
+    expect(findUpstreamRemote(parent, remotes, 'missing')!.name).toBe(
+      UpstreamRemoteName
+    )
+  })
 })
@@ -12,7 +12,12 @@ import { AppFileStatusKind } from '../../src/models/status'
 import { Repository } from '../../src/models/repository'
 import { Commit } from '../../src/models/commit'
 import { TipState, IValidBranch } from '../../src/models/tip'
-import { getCommit, getRemotes } from '../../src/lib/git'
+import {
+  getBranches,
+  getCommit,
+  getRemotes,
+  deleteLocalBranch,
+} from '../../src/lib/git'
 import { getStatusOrThrow } from '../helpers/status'
 import {
   makeCommit,
@@ -20,6 +25,7 @@ import {
   cloneLocalRepository,
 } from '../helpers/repository-scaffolding'
 import { BranchType } from '../../src/models/branch'
+import { JournaledOperationKind } from '../../src/models/operation-journal'
 import { StatsStore, StatsDatabase } from '../../src/lib/stats'
 import { UiActivityMonitor } from '../../src/ui/lib/ui-activity-monitor'
 
@@ -326,4 +332,198 @@ describe('GitStore', () => {
       expect(currentBranchAfter!.upstream).toBe('origin/some-other-branch')
     })
   })
+  describe('bulk operations', () => {
+    let upstream: Repository
+    let repository: Repository
+
+    beforeEach(async () => {
+      upstream = await setupEmptyRepository()
+      await makeCommit(upstream, {
+        commitMessage: 'first commit',
+        entries: [{ path: 'README.md', contents: 'some words go here' }],
+      })
+
+      repository = await cloneLocalRepository(upstream)
+
+      await makeCommit(upstream, {
+        commitMessage: 'second commit',
+        entries: [{ path: 'README.md', contents: 'and some more words' }],
+      })
+    })
+
+    it('fast-forwards the current branch to its upstream', async () => {
+      const gitStore = new GitStore(repository, shell, statsStore)
+
+      await gitStore.bulkFastForwardPull(null)
+
+      const upstreamHead = await GitProcess.exec(
+        ['rev-parse', 'HEAD'],
+        upstream.path
+      )
+
+      const tip = gitStore.tip as IValidBranch
+      expect(tip.kind).toBe(TipState.Valid)
+      expect(tip.branch.tip.sha).toBe(upstreamHead.stdout.trim())
+    })
+
+    it('throws when the current branch has diverged', async () => {
+      await makeCommit(repository, {
+        commitMessage: 'local commit',
+        entries: [{ path: 'LICENSE.md', contents: 'some license' }],
+      })
+
+      const localHead = await GitProcess.exec(
+        ['rev-parse', 'HEAD'],
+        repository.path
+      )
+      const gitStore = new GitStore(repository, shell, statsStore)
+
+      await expect(gitStore.bulkFastForwardPull(null)).rejects.toThrow()
+
+      const tip = gitStore.tip as IValidBranch
+      expect(tip.branch.tip.sha).toBe(localHead.stdout.trim())
+    })
+
+    it('checks out the default branch', async () => {
+      await switchTo(repository, 'some-other-branch')
+
+      const gitStore = new GitStore(repository, shell, statsStore)
+      await gitStore.bulkCheckoutDefaultBranch(null)
+
+      const tip = gitStore.tip as IValidBranch
+      expect(tip.kind).toBe(TipState.Valid)
+      expect(tip.branch.name).toBe('master')
+    })
+  })
+
+  describe('operation journal', () => {
+    let repository: Repository
+
+    beforeEach(async () => {
+      repository = await setupEmptyRepository()
+      await makeCommit(repository, {
+        commitMessage: 'first commit',
+        entries: [{ path: 'README.md', contents: 'some words go here\n' }],
+      })
+    })
+
+    it('can undo and redo discarding changes', async () => {
+      const readmePath = Path.join(repository.path, 'README.md')
+      await FSE.writeFile(readmePath, 'some new words\n')
+
+      const gitStore = new GitStore(repository, shell, statsStore)
+      await gitStore.loadStatus()
+
+      const status = await getStatusOrThrow(repository)
+      const snapshot = await gitStore.createSnapshot()
+      await gitStore.discardChanges(status.workingDirectory.files)
+      await gitStore.recordOperation(
+        JournaledOperationKind.DiscardChanges,
+        snapshot
+      )
+
+      expect(await FSE.readFile(readmePath, 'utf8')).toBe(
+        'some words go here\n'
+      )
+
+      const undone = await gitStore.undoOperation()
+      expect(undone?.kind).toBe(JournaledOperationKind.DiscardChanges)
+      expect(await FSE.readFile(readmePath, 'utf8')).toBe('some new words\n')
+      expect(gitStore.operationJournal.undo).toHaveLength(0)
+      expect(gitStore.operationJournal.redo).toHaveLength(1)
+
+      await gitStore.redoOperation()
+      expect(await FSE.readFile(readmePath, 'utf8')).toBe(
+        'some words go here\n'
+      )
+      expect(gitStore.operationJournal.undo).toHaveLength(1)
+      expect(gitStore.operationJournal.redo).toHaveLength(0)
+    })
+
+    it('can restore a deleted branch', async () => {
+      await GitProcess.exec(['branch', 'feature'], repository.path)
+
+      const gitStore = new GitStore(repository, shell, statsStore)
+      await gitStore.loadStatus()
+
+      const [branch] = await getBranches(repository, 'refs/heads/feature')
+      await deleteLocalBranch(repository, branch.name)
+      gitStore.recordBranchDeletion(branch)
+
+      await gitStore.undoOperation()
+
+      const [restored] = await getBranches(repository, 'refs/heads/feature')
+      expect(restored.tip.sha).toBe(branch.tip.sha)
+    })
+
+    it('clears operations to redo when recording an operation', async () => {
+      const gitStore = new GitStore(repository, shell, statsStore)
+      await gitStore.loadStatus()
+
+      const kind = JournaledOperationKind.ResetToCommit
+      await gitStore.recordOperation(kind, await gitStore.createSnapshot())
+      await gitStore.undoOperation()
+      expect(gitStore.operationJournal.redo).toHaveLength(1)
+
+      await gitStore.recordOperation(kind, await gitStore.createSnapshot())
+      expect(gitStore.operationJournal.undo).toHaveLength(1)
+      expect(gitStore.operationJournal.redo).toHaveLength(0)
+    })
+
+    it('refuses to undo once the branch has moved on', async () => {
+      const readmePath = Path.join(repository.path, 'README.md')
+      await FSE.writeFile(readmePath, 'some new words\n')
+
+      const gitStore = new GitStore(repository, shell, statsStore)
+      await gitStore.loadStatus()
+
+      const status = await getStatusOrThrow(repository)
+      const snapshot = await gitStore.createSnapshot()
+      await gitStore.discardChanges(status.workingDirectory.files)
+      await gitStore.recordOperation(
+        JournaledOperationKind.DiscardChanges,
+        snapshot
+      )
+
+      await makeCommit(repository, {
+        commitMessage: 'second commit',
+        entries: [{ path: 'CONTRIBUTING.md', contents: 'some words\n' }],
+      })
+      const headSha = (await getCommit(repository, 'HEAD'))?.sha
+
+      expect(await gitStore.undoOperation()).toBeNull()
+      expect((await getCommit(repository, 'HEAD'))?.sha).toBe(headSha)
+      expect(await FSE.readFile(readmePath, 'utf8')).toBe(
+        'some words go here\n'
+      )
+      expect(gitStore.operationJournal.undo).toHaveLength(1)
+    })
+
+    it('refuses to undo once changes have been made since', async () => {
+      const readmePath = Path.join(repository.path, 'README.md')
+      await FSE.writeFile(readmePath, 'some new words\n')
+
+      const gitStore = new GitStore(repository, shell, statsStore)
+      await gitStore.loadStatus()
+
+      const snapshot = await gitStore.createSnapshot()
+      await GitProcess.exec(['reset', '--hard'], repository.path)
+      await gitStore.recordOperation(
+        JournaledOperationKind.ResetToCommit,
+        snapshot
+      )
+
+      const newFilePath = Path.join(repository.path, 'new-file.md')
+      await FSE.writeFile(newFilePath, 'made after the reset\n')
+
+      expect(await gitStore.undoOperation()).toBeNull()
+      expect(await FSE.readFile(readmePath, 'utf8')).toBe(
+        'some words go here\n'
+      )
+      expect(await FSE.readFile(newFilePath, 'utf8')).toBe(
+        'made after the reset\n'
+      )
+      expect(gitStore.operationJournal.undo).toHaveLength(1)
+    })
+  })
 })
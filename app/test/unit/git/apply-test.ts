@@ -7,7 +7,12 @@ import { Repository } from '../../../src/models/repository'
 import {
   checkPatch,
   getWorkingDirectoryDiff,
+  getIndexDiff,
   discardChangesFromSelection,
+  revertChangesFromSelection,
+  stageSelection,
+  unstageSelection,
+  getCommitDiff,
 } from '../../../src/lib/git'
 import {
   cloneLocalRepository,
@@ -16,6 +21,7 @@ import {
 import {
   WorkingDirectoryFileChange,
   AppFileStatusKind,
+  CommittedFileChange,
 } from '../../../src/models/status'
 import {
   DiffSelection,
@@ -254,6 +260,192 @@ describe('git/apply', () => {
 `)
     })
   })
+
+  describe('staging selections', () => {
+    let repository: Repository
+
+    /** Get the index of the first line in the diff with the given text */
+    function findLine(diff: ITextDiff, text: string) {
+      for (const hunk of diff.hunks) {
+        const index = hunk.lines.findIndex(l => l.text === text)
+        if (index !== -1) {
+          return hunk.unifiedDiffStart + index
+        }
+      }
+      throw new Error(`Could not find line ${text}`)
+    }
+
+    async function getIndexContents(filePath: string) {
+      const result = await GitProcess.exec(
+        ['show', `:${filePath}`],
+        repository.path
+      )
+      return result.stdout
+    }
+
+    beforeEach(async () => {
+      const testRepoPath = await setupFixtureRepository('test-repo')
+      repository = new Repository(testRepoPath, -1, null, false)
+
+      await FSE.writeFile(Path.join(testRepoPath, 'lines.txt'), 'a\nb\nc\n')
+      await GitProcess.exec(['add', 'lines.txt'], testRepoPath)
+      await GitProcess.exec(['commit', '-m', 'Add lines'], testRepoPath)
+      await FSE.writeFile(Path.join(testRepoPath, 'lines.txt'), 'a\nB\nc\nd\n')
+    })
+
+    it('stages only the selected lines', async () => {
+      const file = new WorkingDirectoryFileChange(
+        'lines.txt',
+        { kind: AppFileStatusKind.Modified },
+        DiffSelection.fromInitialSelection(DiffSelectionType.None)
+      )
+      const diff = (await getIndexDiff(repository, file, false)) as ITextDiff
+      const selection = DiffSelection.fromInitialSelection(
+        DiffSelectionType.None
+      ).withLineSelection(findLine(diff, '+d'), true)
+
+      await stageSelection(repository, file, diff, selection)
+
+      expect(await getIndexContents('lines.txt')).toBe('a\nb\nc\nd\n')
+    })
+
+    it('stages selected lines of an untracked file', async () => {
+      await FSE.writeFile(Path.join(repository.path, 'new.txt'), 'x\ny\n')
+
+      const file = new WorkingDirectoryFileChange(
+        'new.txt',
+        { kind: AppFileStatusKind.Untracked },
+        DiffSelection.fromInitialSelection(DiffSelectionType.None)
+      )
+      const diff = (await getIndexDiff(repository, file, false)) as ITextDiff
+      const selection = DiffSelection.fromInitialSelection(
+        DiffSelectionType.None
+      ).withLineSelection(findLine(diff, '+x'), true)
+
+      await stageSelection(repository, file, diff, selection)
+
+      expect(await getIndexContents('new.txt')).toBe('x\n')
+    })
+
+    it('stages selected lines of a new file already in the index', async () => {
+      await FSE.writeFile(Path.join(repository.path, 'new.txt'), 'x\n')
+      await GitProcess.exec(['add', 'new.txt'], repository.path)
+      await FSE.writeFile(Path.join(repository.path, 'new.txt'), 'x\ny\nz\n')
+
+      const file = new WorkingDirectoryFileChange(
+        'new.txt',
+        { kind: AppFileStatusKind.New },
+        DiffSelection.fromInitialSelection(DiffSelectionType.None),
+        DiffSelectionType.Partial
+      )
+      const diff = (await getIndexDiff(repository, file, false)) as ITextDiff
+      const selection = DiffSelection.fromInitialSelection(
+        DiffSelectionType.None
+      ).withLineSelection(findLine(diff, '+y'), true)
+
+      await stageSelection(repository, file, diff, selection)
+
+      expect(await getIndexContents('new.txt')).toBe('x\ny\n')
+    })
+
+    it('unstages only the selected lines', async () => {
+      await GitProcess.exec(['add', 'lines.txt'], repository.path)
+
+      const file = new WorkingDirectoryFileChange(
+        'lines.txt',
+        { kind: AppFileStatusKind.Modified },
+        DiffSelection.fromInitialSelection(DiffSelectionType.None),
+        DiffSelectionType.All
+      )
+      const diff = (await getIndexDiff(repository, file, true)) as ITextDiff
+      const selection = DiffSelection.fromInitialSelection(
+        DiffSelectionType.None
+      )
+        .withLineSelection(findLine(diff, '-b'), true)
+        .withLineSelection(findLine(diff, '+B'), true)
+
+      await unstageSelection(repository, 'lines.txt', diff, selection)
+
+      expect(await getIndexContents('lines.txt')).toBe('a\nb\nc\nd\n')
+
+      const contents = await FSE.readFile(
+        Path.join(repository.path, 'lines.txt'),
+        'utf8'
+      )
+      expect(contents).toBe('a\nB\nc\nd\n')
+    })
+  })
+
+  describe('revertChangesFromSelection()', () => {
+    let repository: Repository
+    let diff: ITextDiff
+
+    /** Get the index of the first line in the diff with the given text */
+    function findLine(text: string) {
+      for (const hunk of diff.hunks) {
+        const index = hunk.lines.findIndex(l => l.text === text)
+        if (index !== -1) {
+          return hunk.unifiedDiffStart + index
+        }
+      }
+      throw new Error(`Could not find line ${text}`)
+    }
+
+    function getContents() {
+      return FSE.readFile(Path.join(repository.path, 'lines.txt'), 'utf8')
+    }
+
+    beforeEach(async () => {
+      const testRepoPath = await setupFixtureRepository('test-repo')
+      repository = new Repository(testRepoPath, -1, null, false)
+
+      const write = (contents: string) =>
+        FSE.writeFile(Path.join(testRepoPath, 'lines.txt'), contents)
+
+      await write('a\nb\nc\n')
+      await GitProcess.exec(['add', 'lines.txt'], testRepoPath)
+      await GitProcess.exec(['commit', '-m', 'Add lines'], testRepoPath)
+      await write('a\nB\nc\nd\n')
+      await GitProcess.exec(['commit', '-am', 'Change lines'], testRepoPath)
+
+      const file = new CommittedFileChange(
+        'lines.txt',
+        { kind: AppFileStatusKind.Modified },
+        'HEAD',
+        'HEAD^'
+      )
+      diff = (await getCommitDiff(repository, file, 'HEAD')) as ITextDiff
+
+      // Change the file after the commit so the lines have moved
+      await write('z\na\nB\nc\nd\n')
+      await GitProcess.exec(['commit', '-am', 'Prepend line'], testRepoPath)
+    })
+
+    it('reverts only the selected lines in the working directory', async () => {
+      const selection = DiffSelection.fromInitialSelection(
+        DiffSelectionType.None
+      ).withLineSelection(findLine('+d'), true)
+
+      await revertChangesFromSelection(repository, 'lines.txt', diff, selection)
+
+      expect(await getContents()).toBe('z\na\nB\nc\n')
+
+      const result = await GitProcess.exec(['diff', 'HEAD'], repository.path)
+      expect(result.stdout).toContain('-d')
+    })
+
+    it('reverts a modified line', async () => {
+      const selection = DiffSelection.fromInitialSelection(
+        DiffSelectionType.None
+      )
+        .withLineSelection(findLine('-b'), true)
+        .withLineSelection(findLine('+B'), true)
+
+      await revertChangesFromSelection(repository, 'lines.txt', diff, selection)
+
+      expect(await getContents()).toBe('z\na\nb\nc\nd\n')
+    })
+  })
 })
 
 const noColor = (str: string) => str
@@ -0,0 +1,115 @@
+import { getBlame, getFileHistory } from '../../../src/lib/git'
+import { parseBlamePorcelain } from '../../../src/lib/git/blame'
+import { Repository } from '../../../src/models/repository'
+import { AppFileStatusKind } from '../../../src/models/status'
+import { setupEmptyRepositoryDefaultMain } from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
+
+const contents = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\n'
+
+describe('git/blame', () => {
+  let repository: Repository
+
+  beforeEach(async () => {
+    repository = await setupEmptyRepositoryDefaultMain()
+
+    await makeCommit(repository, {
+      commitMessage: 'add numbers',
+      entries: [{ path: 'numbers.txt', contents }],
+    })
+    await makeCommit(repository, {
+      commitMessage: 'add unrelated file',
+      entries: [{ path: 'README.md', contents: 'hello' }],
+    })
+    await makeCommit(repository, {
+      commitMessage: 'rename numbers',
+      entries: [
+        { path: 'numbers.txt', contents: null },
+        { path: 'renamed.txt', contents },
+      ],
+    })
+    await makeCommit(repository, {
+      commitMessage: 'change the last line',
+      entries: [
+        { path: 'renamed.txt', contents: contents.replace('seven', 'SEVEN') },
+      ],
+    })
+  })
+
+  describe('getFileHistory', () => {
+    it('follows the file across renames', async () => {
+      const history = await getFileHistory(repository, 'renamed.txt')
+
+      expect(history.map(e => e.commit.summary)).toEqual([
+        'change the last line',
+        'rename numbers',
+        'add numbers',
+      ])
+      expect(history.map(e => e.file.path)).toEqual([
+        'renamed.txt',
+        'renamed.txt',
+        'numbers.txt',
+      ])
+      expect(history[1].file.status.kind).toBe(AppFileStatusKind.Renamed)
+    })
+
+    it('loads history in batches', async () => {
+      const history = await getFileHistory(repository, 'renamed.txt', 1, 1)
+
+      expect(history.map(e => e.commit.summary)).toEqual(['rename numbers'])
+    })
+
+    it('returns an empty list for a file without history', async () => {
+      const history = await getFileHistory(repository, 'missing.txt')
+      expect(history).toEqual([])
+    })
+  })
+
+  describe('getBlame', () => {
+    it('links each line to the commit that last changed it', async () => {
+      const blame = await getBlame(repository, 'renamed.txt', 'HEAD')
+
+      expect(blame).toHaveLength(7)
+      expect(blame.map(l => l.lineNumber)).toEqual([1, 2, 3, 4, 5, 6, 7])
+      expect(blame[0].commit.summary).toBe('add numbers')
+      expect(blame[5].commit).toBe(blame[0].commit)
+      expect(blame[6].commit.summary).toBe('change the last line')
+      expect(blame[6].commit.isUncommitted).toBeFalse()
+    })
+
+    it('blames older revisions and the working directory', async () => {
+      const blame = await getBlame(repository, 'renamed.txt', 'HEAD~1')
+      expect(blame[6].commit.summary).toBe('add numbers')
+
+      const working = await getBlame(repository, 'renamed.txt')
+      expect(working.every(l => !l.commit.isUncommitted)).toBeTrue()
+    })
+
+    it('returns an empty list when the file does not exist', async () => {
+      const blame = await getBlame(repository, 'renamed.txt', 'HEAD~3')
+      expect(blame).toEqual([])
+    })
+  })
+
+  describe('parseBlamePorcelain', () => {
+    it('parses uncommitted lines', () => {
+      const sha = '0'.repeat(40)
+      const blame = parseBlamePorcelain(
+        [
+          `${sha} 1 1 1`,
+          'author Not Committed Yet',
+          'author-time 1600000000',
+          'summary Version of file.txt from file.txt',
+          'filename file.txt',
+          '\tchanged line',
+          '',
+        ].join('\n')
+      )
+
+      expect(blame).toHaveLength(1)
+      expect(blame[0].commit.isUncommitted).toBeTrue()
+      expect(blame[0].commit.author).toBe('Not Committed Yet')
+      expect(blame[0].commit.authorDate.getTime()).toBe(1600000000 * 1000)
+    })
+  })
+})
@@ -4,6 +4,7 @@ import * as FSE from 'fs-extra'
 import { Repository } from '../../../src/models/repository'
 import {
   createCommit,
+  createCommitFromIndex,
   getCommits,
   getCommit,
   getChangedFiles,
@@ -472,6 +473,25 @@ describe('git/commit', () => {
     })
   })
 
+  describe('createCommitFromIndex', () => {
+    it('commits only what has been staged', async () => {
+      await FSE.writeFile(path.join(repository.path, 'README.md'), 'Hi world\n')
+      await FSE.writeFile(path.join(repository.path, 'staged.md'), 'Staged\n')
+      await GitProcess.exec(['add', 'staged.md'], repository.path)
+
+      const sha = await createCommitFromIndex(repository, 'Staged commit')
+      expect(sha).toHaveLength(7)
+
+      const changedFiles = await getChangedFiles(repository, sha)
+      expect(changedFiles.files.map(f => f.path)).toEqual(['staged.md'])
+
+      const status = await getStatusOrThrow(repository)
+      const files = status.workingDirectory.files
+      expect(files).toHaveLength(1)
+      expect(files[0].path).toEqual('README.md')
+    })
+  })
+
   describe('createCommit with a merge conflict', () => {
     it('creates a merge commit', async () => {
       const repo = await setupConflictedRepo()
@@ -529,6 +549,29 @@ describe('git/commit', () => {
           expect(sha).toHaveLength(7)
           expect(newStatus.workingDirectory.files).toHaveLength(0)
         })
+
+        it('stages a file resolved in the conflict editor', async () => {
+          await FSE.writeFile(path.join(repository.path, 'foo'), 'b1b2\n')
+
+          const status = await getStatusOrThrow(repository)
+          const trackedFiles = status.workingDirectory.files.filter(
+            f => f.status.kind !== AppFileStatusKind.Untracked
+          )
+          const manualResolutions = new Map([
+            ['foo', ManualConflictResolution.edited],
+          ])
+          const sha = await createMergeCommit(
+            repository,
+            trackedFiles,
+            manualResolutions
+          )
+          const newStatus = await getStatusOrThrow(repository)
+          expect(sha).toHaveLength(7)
+          expect(newStatus.workingDirectory.files).toHaveLength(0)
+          expect(
+            await FSE.readFile(path.join(repository.path, 'foo'), 'utf8')
+          ).toEqual('b1b2\n')
+        })
       })
     })
 
@@ -0,0 +1,179 @@
+import * as FSE from 'fs-extra'
+import * as Path from 'path'
+import {
+  continueRebase,
+  getCommit,
+  getCommits,
+  getRebaseInternalState,
+  RebaseResult,
+} from '../../../src/lib/git'
+import { Commit } from '../../../src/models/commit'
+import { Repository } from '../../../src/models/repository'
+import { RebaseTodoAction } from '../../../src/models/rebase'
+import { setupEmptyRepositoryDefaultMain } from '../../helpers/repositories'
+import { makeCommit } from '../../helpers/repository-scaffolding'
+import { getStatusOrThrow } from '../../helpers/status'
+import { interactiveRebase } from '../../../src/lib/git/interactive-rebase'
+
+describe('git/interactive-rebase', () => {
+  let repository: Repository
+  let initialCommit: Commit
+
+  beforeEach(async () => {
+    repository = await setupEmptyRepositoryDefaultMain()
+    initialCommit = await makeSampleCommit(repository, 'initialize')
+  })
+
+  it('drops and fixes up commits', async () => {
+    const firstCommit = await makeSampleCommit(repository, 'first')
+    const secondCommit = await makeSampleCommit(repository, 'second')
+    const thirdCommit = await makeSampleCommit(repository, 'third')
+
+    const result = await interactiveRebase(
+      repository,
+      [
+        { action: RebaseTodoAction.Pick, commit: firstCommit },
+        { action: RebaseTodoAction.Drop, commit: secondCommit },
+        { action: RebaseTodoAction.Fixup, commit: thirdCommit },
+      ],
+      initialCommit.sha
+    )
+
+    expect(result).toBe(RebaseResult.CompletedWithoutError)
+
+    const log = await getCommits(repository, 'HEAD', 5)
+    expect(log.map(c => c.summary)).toStrictEqual(['first', 'initialize'])
+
+    const files = await FSE.readdir(repository.path)
+    expect(files).toContain('third.md')
+    expect(files).not.toContain('second.md')
+  })
+
+  it('rewords a commit with a multi-line message', async () => {
+    const firstCommit = await makeSampleCommit(repository, 'first')
+    const secondCommit = await makeSampleCommit(repository, 'second')
+
+    const result = await interactiveRebase(
+      repository,
+      [
+        {
+          action: RebaseTodoAction.Reword,
+          commit: firstCommit,
+          message: `it's reworded\n\nwith a body`,
+        },
+        { action: RebaseTodoAction.Pick, commit: secondCommit },
+      ],
+      initialCommit.sha
+    )
+
+    expect(result).toBe(RebaseResult.CompletedWithoutError)
+
+    const log = await getCommits(repository, 'HEAD', 5)
+    expect(log.map(c => c.summary)).toStrictEqual([
+      'second',
+      `it's reworded`,
+      'initialize',
+    ])
+    expect(log[1].body).toBe('with a body\n')
+  })
+
+  it('rewords a commit without running the commit-msg hook', async () => {
+    const firstCommit = await makeSampleCommit(repository, 'first')
+
+    const hookPath = Path.join(repository.path, '.git', 'hooks', 'commit-msg')
+    await FSE.outputFile(hookPath, '#!/bin/sh\nexit 1\n', { mode: 0o755 })
+
+    const result = await interactiveRebase(
+      repository,
+      [
+        {
+          action: RebaseTodoAction.Reword,
+          commit: firstCommit,
+          message: 'reworded',
+        },
+      ],
+      initialCommit.sha
+    )
+
+    expect(result).toBe(RebaseResult.CompletedWithoutError)
+    expect(await getRebaseInternalState(repository)).toBeNull()
+
+    const log = await getCommits(repository, 'HEAD', 5)
+    expect(log.map(c => c.summary)).toStrictEqual(['reworded', 'initialize'])
+  })
+
+  it('stops on commits marked for editing', async () => {
+    const firstCommit = await makeSampleCommit(repository, 'first')
+    const secondCommit = await makeSampleCommit(repository, 'second')
+
+    const result = await interactiveRebase(
+      repository,
+      [
+        { action: RebaseTodoAction.Edit, commit: firstCommit },
+        { action: RebaseTodoAction.Pick, commit: secondCommit },
+      ],
+      initialCommit.sha
+    )
+
+    expect(result).toBe(RebaseResult.StoppedForEdit)
+
+    await FSE.writeFile(Path.join(repository.path, 'first.md'), '# amended\n')
+    const status = await getStatusOrThrow(repository)
+
+    const continueResult = await continueRebase(
+      repository,
+      status.workingDirectory.files
+    )
+
+    expect(continueResult).toBe(RebaseResult.CompletedWithoutError)
+    expect(await getRebaseInternalState(repository)).toBeNull()
+
+    const log = await getCommits(repository, 'HEAD', 5)
+    expect(log.map(c => c.summary)).toStrictEqual([
+      'second',
+      'first',
+      'initialize',
+    ])
+
+    const contents = await FSE.readFile(
+      Path.join(repository.path, 'first.md'),
+      'utf8'
+    )
+    expect(contents).toBe('# amended\n')
+  })
+
+  it('does not start when the first kept commit is squashed', async () => {
+    const firstCommit = await makeSampleCommit(repository, 'first')
+    const secondCommit = await makeSampleCommit(repository, 'second')
+
+    const result = await interactiveRebase(
+      repository,
+      [
+        { action: RebaseTodoAction.Drop, commit: firstCommit },
+        { action: RebaseTodoAction.Squash, commit: secondCommit },
+      ],
+      initialCommit.sha
+    )
+
+    expect(result).toBe(RebaseResult.Error)
+    expect(await getRebaseInternalState(repository)).toBeNull()
+  })
+})
+
+async function makeSampleCommit(
+  repository: Repository,
+  desc: string
+): Promise<Commit> {
+  const commitTree = {
+    commitMessage: desc,
+    entries: [
+      {
+        path: desc + '.md',
+        contents: '# ' + desc + ' \n',
+      },
+    ],
+  }
+  await makeCommit(repository, commitTree)
+
+  return (await getCommit(repository, 'HEAD'))!
+}
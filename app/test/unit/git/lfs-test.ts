@@ -11,6 +11,7 @@ import {
   isUsingLFS,
   isTrackedByLFS,
   filesNotTrackedByLFS,
+  parseLFSLocks,
 } from '../../../src/lib/git/lfs'
 
 describe('git-lfs', () => {
@@ -122,4 +123,62 @@ describe('git-lfs', () => {
       expect(notFound).toHaveLength(0)
     })
   })
+
+  describe('parseLFSLocks', () => {
+    it('parses verified locks', () => {
+      const locks = parseLFSLocks(
+        JSON.stringify({
+          ours: [
+            {
+              id: '1',
+              path: 'art/hero.psd',
+              owner: { name: 'me' },
+              locked_at: '2021-05-04T12:00:00Z',
+            },
+          ],
+          theirs: [
+            {
+              id: '2',
+              path: 'art/villain.psd',
+              owner: { name: 'someone' },
+              locked_at: '2021-05-05T12:00:00Z',
+            },
+          ],
+        })
+      )
+
+      expect(locks).toEqual([
+        {
+          id: '1',
+          path: 'art/hero.psd',
+          ownerName: 'me',
+          lockedAt: new Date('2021-05-04T12:00:00Z'),
+          isOurs: true,
+        },
+        {
+          id: '2',
+          path: 'art/villain.psd',
+          ownerName: 'someone',
+          lockedAt: new Date('2021-05-05T12:00:00Z'),
+          isOurs: false,
+        },
+      ])
+    })
+
+    it('parses a list of locks which are not verified', () => {
+      const locks = parseLFSLocks(
+        JSON.stringify([
+          { id: '3', path: 'level.bin', locked_at: '2021-05-06T12:00:00Z' },
+        ])
+      )
+
+      expect(locks).toHaveLength(1)
+      expect(locks[0].isOurs).toBe(false)
+      expect(locks[0].ownerName).toBe('Unknown user')
+    })
+
+    it('parses an empty verified response', () => {
+      expect(parseLFSLocks('{"ours":[],"theirs":[]}')).toEqual([])
+    })
+  })
 })
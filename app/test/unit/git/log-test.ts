@@ -1,8 +1,16 @@
 import { Repository } from '../../../src/models/repository'
-import { getChangedFiles, getCommits } from '../../../src/lib/git'
+import {
+  getChangedFiles,
+  getCommits,
+  getCommitSignatureStatuses,
+} from '../../../src/lib/git'
 import { setupFixtureRepository } from '../../helpers/repositories'
 import { AppFileStatusKind } from '../../../src/models/status'
 import { setupLocalConfig } from '../../helpers/local-config'
+import {
+  CommitSignatureStatus,
+  isVerifiedSignature,
+} from '../../../src/models/commit'
 
 describe('git/log', () => {
   let repository: Repository
@@ -59,6 +67,30 @@ describe('git/log', () => {
     })
   })
 
+  describe('getCommitSignatureStatuses', () => {
+    it('loads the signature status of the given commits', async () => {
+      const [commit] = await getCommits(repository, 'HEAD', 1)
+      const statuses = await getCommitSignatureStatuses(repository, [
+        commit.sha,
+      ])
+      expect(statuses.get(commit.sha)).toBe(CommitSignatureStatus.None)
+
+      const path = await setupFixtureRepository('just-doing-some-signing')
+      const signedRepository = new Repository(path, 1, null, false)
+      const signedSha = '415e4987158c49c383ce7114e0ef00ebf4b070c1'
+      const signedStatuses = await getCommitSignatureStatuses(
+        signedRepository,
+        [signedSha]
+      )
+
+      // The key used to sign the fixture isn't available so the signature
+      // can't be verified
+      const status = signedStatuses.get(signedSha)
+      expect(status).toBe(CommitSignatureStatus.CannotBeChecked)
+      expect(status && isVerifiedSignature(status)).toBeFalse()
+    })
+  })
+
   describe('getChangedFiles', () => {
     it('loads the files changed in the commit', async () => {
       const changesetData = await getChangedFiles(
@@ -6,8 +6,12 @@ import {
   checkoutBranch,
   renameBranch,
   getBranchCheckouts,
+  getReflogEntries,
 } from '../../../src/lib/git'
-import { setupFixtureRepository } from '../../helpers/repositories'
+import {
+  setupEmptyRepository,
+  setupFixtureRepository,
+} from '../../helpers/repositories'
 import { GitProcess } from 'dugite'
 import { offsetFromNow } from '../../../src/lib/offset-from'
 
@@ -109,4 +113,57 @@ describe('git/reflog', () => {
       expect(branches.size).toBe(0)
     })
   })
+  describe('getReflogEntries', () => {
+    async function getHeadSha() {
+      const result = await GitProcess.exec(
+        ['rev-parse', 'HEAD'],
+        repository.path
+      )
+      return result.stdout.trim()
+    }
+
+    it('returns the entries of HEAD, most recent first', async () => {
+      await createAndCheckout(repository, 'branch-1')
+      const previousSha = await getHeadSha()
+
+      await GitProcess.exec(['reset', '--hard', 'HEAD~1'], repository.path)
+
+      const entries = await getReflogEntries(repository, 'HEAD', 10)
+
+      expect(entries[0].selector).toBe('HEAD@{0}')
+      expect(entries[0].sha).toBe(await getHeadSha())
+      expect(entries[0].message).toBe('reset: moving to HEAD~1')
+      expect(entries[0].date.getTime()).toBeGreaterThan(0)
+
+      expect(entries[1].selector).toBe('HEAD@{1}')
+      expect(entries[1].sha).toBe(previousSha)
+      expect(entries[1].message).toStartWith('checkout: moving from')
+    })
+
+    it('skips the most recent entries', async () => {
+      await createAndCheckout(repository, 'branch-1')
+      await GitProcess.exec(['reset', '--hard', 'HEAD~1'], repository.path)
+
+      const entries = await getReflogEntries(repository, 'HEAD', 1, 1)
+
+      expect(entries).toHaveLength(1)
+      expect(entries[0].selector).toBe('HEAD@{1}')
+      expect(entries[0].message).toStartWith('checkout: moving from')
+    })
+
+    it('returns the entries of a branch', async () => {
+      await createAndCheckout(repository, 'branch-1')
+      await GitProcess.exec(['reset', '--hard', 'HEAD~1'], repository.path)
+
+      const entries = await getReflogEntries(repository, 'branch-1', 10)
+
+      expect(entries[0].selector).toBe('branch-1@{0}')
+      expect(entries[0].message).toBe('reset: moving to HEAD~1')
+    })
+
+    it('returns no entries for a new repository', async () => {
+      const repository = await setupEmptyRepository()
+      expect(await getReflogEntries(repository, 'HEAD', 10)).toHaveLength(0)
+    })
+  })
 })
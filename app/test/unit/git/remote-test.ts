@@ -4,6 +4,9 @@ import {
   addRemote,
   removeRemote,
   setRemoteURL,
+  renameRemote,
+  getRemotePushURL,
+  setRemotePushURL,
 } from '../../../src/lib/git/remote'
 import {
   setupFixtureRepository,
@@ -94,6 +97,18 @@ describe('git/remote', () => {
       expect(result!.name).toEqual('bassoon')
     })
 
+    it('returns the preferred remote when it exists', async () => {
+      const testRepoPath = await setupFixtureRepository(
+        'repo-with-multiple-remotes'
+      )
+      const repository = new Repository(testRepoPath, -1, null, false)
+
+      const remotes = await getRemotes(repository)
+
+      expect(findDefaultRemote(remotes, 'bassoon')!.name).toEqual('bassoon')
+      expect(findDefaultRemote(remotes, 'missing')!.name).toEqual('origin')
+    })
+
     it('returns null for new repository', async () => {
       const repository = await setupEmptyRepository()
 
@@ -152,4 +167,50 @@ describe('git/remote', () => {
       expect(remotes[0].url).toEqual(remoteUrl)
     })
   })
+  describe('renameRemote', () => {
+    it('renames an existing remote', async () => {
+      const repository = await setupEmptyRepository()
+      const url = 'https://github.com/desktop/desktop'
+      await addRemote(repository, 'origin', url)
+
+      await renameRemote(repository, 'origin', 'upstream')
+
+      const remotes = await getRemotes(repository)
+      expect(remotes).toEqual([{ name: 'upstream', url }])
+    })
+  })
+
+  describe('setRemotePushURL', () => {
+    let repository: Repository
+    const remoteName = 'origin'
+    const remoteUrl = 'https://github.com/desktop/desktop'
+    const pushUrl = 'https://github.com/shiftkey/desktop'
+
+    beforeEach(async () => {
+      repository = await setupEmptyRepository()
+      await addRemote(repository, remoteName, remoteUrl)
+    })
+
+    it('sets a separate push url', async () => {
+      expect(await getRemotePushURL(repository, remoteName)).toBeNull()
+
+      await setRemotePushURL(repository, remoteName, pushUrl)
+
+      expect(await getRemotePushURL(repository, remoteName)).toEqual(pushUrl)
+
+      const remotes = await getRemotes(repository)
+      expect(remotes[0].url).toEqual(remoteUrl)
+    })
+
+    it('removes the push url', async () => {
+      await setRemotePushURL(repository, remoteName, pushUrl)
+      await setRemotePushURL(repository, remoteName, null)
+
+      expect(await getRemotePushURL(repository, remoteName)).toBeNull()
+    })
+
+    it('succeeds when removing a push url which is not set', async () => {
+      expect(await setRemotePushURL(repository, remoteName, null)).toBeTrue()
+    })
+  })
 })
@@ -0,0 +1,131 @@
+import * as path from 'path'
+import * as FSE from 'fs-extra'
+import { GitProcess } from 'dugite'
+
+import { Repository } from '../../../src/models/repository'
+import {
+  applyRepositorySnapshotChanges,
+  createRepositorySnapshot,
+  getWorkingDirectoryState,
+  isSameWorkingDirectoryState,
+  restoreRepositorySnapshot,
+  updateJournalRefs,
+} from '../../../src/lib/git/snapshot'
+import { reset, GitResetMode } from '../../../src/lib/git/reset'
+import { setupTwoCommitRepo } from '../../helpers/repositories'
+
+async function getHeadSha(repository: Repository) {
+  const result = await GitProcess.exec(['rev-parse', 'HEAD'], repository.path)
+  return result.stdout.trim()
+}
+
+async function getStagedPaths(repository: Repository) {
+  const result = await GitProcess.exec(
+    ['diff', '--cached', '--name-only'],
+    repository.path
+  )
+  return result.stdout.split('\n').filter(p => p.length > 0)
+}
+
+describe('git/snapshot', () => {
+  let repository: Repository
+
+  beforeEach(async () => {
+    repository = await setupTwoCommitRepo()
+  })
+
+  it('records the commit without changing the working directory', async () => {
+    const goodFile = path.join(repository.path, 'good-file')
+    await FSE.writeFile(goodFile, 'is changed')
+
+    const snapshot = await createRepositorySnapshot(repository, 'master')
+
+    expect(snapshot.branchName).toBe('master')
+    expect(snapshot.headSha).toBe(await getHeadSha(repository))
+    expect(snapshot.stashSha).not.toBeNull()
+    expect(await FSE.readFile(goodFile, 'utf8')).toBe('is changed')
+  })
+
+  it('has no stash when there are no changes', async () => {
+    const snapshot = await createRepositorySnapshot(repository, 'master')
+    expect(snapshot.stashSha).toBeNull()
+  })
+
+  it('restores the commit, index and working directory', async () => {
+    const goodFile = path.join(repository.path, 'good-file')
+    const greatFile = path.join(repository.path, 'great-file')
+
+    await FSE.writeFile(goodFile, 'is staged')
+    await GitProcess.exec(['add', 'good-file'], repository.path)
+    await FSE.writeFile(greatFile, 'is changed')
+
+    const headSha = await getHeadSha(repository)
+    const snapshot = await createRepositorySnapshot(repository, 'master')
+
+    await reset(repository, GitResetMode.Hard, 'HEAD~1')
+
+    await restoreRepositorySnapshot(repository, snapshot)
+
+    expect(await getHeadSha(repository)).toBe(headSha)
+    expect(await getStagedPaths(repository)).toEqual(['good-file'])
+    expect(await FSE.readFile(goodFile, 'utf8')).toBe('is staged')
+    expect(await FSE.readFile(greatFile, 'utf8')).toBe('is changed')
+  })
+
+  it('applies the changes without moving the branch', async () => {
+    const goodFile = path.join(repository.path, 'good-file')
+    await FSE.writeFile(goodFile, 'is changed')
+
+    const snapshot = await createRepositorySnapshot(repository, 'master')
+    await reset(repository, GitResetMode.Hard, 'HEAD')
+    await GitProcess.exec(
+      ['commit', '--allow-empty', '-m', 'empty'],
+      repository.path
+    )
+    const headSha = await getHeadSha(repository)
+
+    await applyRepositorySnapshotChanges(repository, snapshot)
+
+    expect(await getHeadSha(repository)).toBe(headSha)
+    expect(await FSE.readFile(goodFile, 'utf8')).toBe('is changed')
+  })
+
+  it('gets a state which only changes with the index and working directory', async () => {
+    const first = await getWorkingDirectoryState(repository)
+    const second = await getWorkingDirectoryState(repository)
+    expect(isSameWorkingDirectoryState(first, second)).toBe(true)
+
+    await FSE.writeFile(path.join(repository.path, 'untracked-file'), 'new')
+
+    const untracked = await getWorkingDirectoryState(repository)
+    expect(untracked.indexTree).toBe(first.indexTree)
+    expect(isSameWorkingDirectoryState(first, untracked)).toBe(false)
+
+    await GitProcess.exec(['add', 'untracked-file'], repository.path)
+
+    const staged = await getWorkingDirectoryState(repository)
+    expect(staged.workingDirectoryTree).toBe(untracked.workingDirectoryTree)
+    expect(staged.indexTree).not.toBe(untracked.indexTree)
+  })
+
+  it('keeps refs to the given commits only', async () => {
+    const getRefs = async () => {
+      const result = await GitProcess.exec(
+        ['for-each-ref', '--format=%(objectname)', 'refs/desktop/journal/'],
+        repository.path
+      )
+      return result.stdout.split('\n').filter(r => r.length > 0)
+    }
+
+    const headSha = await getHeadSha(repository)
+    const parentSha = (
+      await GitProcess.exec(['rev-parse', 'HEAD~1'], repository.path)
+    ).stdout.trim()
+
+    await updateJournalRefs(repository, new Set([headSha, parentSha]))
+    expect((await getRefs()).sort()).toEqual([headSha, parentSha].sort())
+
+    await updateJournalRefs(repository, new Set([parentSha]))
+    expect(await getRefs()).toEqual([parentSha])
+  })
+})
@@ -10,6 +10,10 @@ import {
   dropDesktopStashEntry,
   popStashEntry,
   getStashes,
+  createStashEntry,
+  applyStashEntry,
+  renameStashEntry,
+  parseStashEntryMessage,
 } from '../../../src/lib/git/stash'
 import { getStatusOrThrow } from '../../helpers/status'
 import { AppFileStatusKind } from '../../../src/models/status'
@@ -57,6 +61,156 @@ describe('git/stash', () => {
       expect(entries[0].branchName).toBe('master')
       expect(entries[0].name).toBe('refs/stash@{0}')
     })
+
+    it('returns all stash entries including ones created outside Desktop', async () => {
+      await generateTestStashEntry(repository, 'master', false)
+      await generateTestStashEntry(repository, 'master', true)
+
+      const stash = await getStashes(repository)
+      const { entries } = stash
+      expect(entries).toHaveLength(2)
+      expect(entries[0].branchName).toBe('master')
+      expect(entries[0].message).toBe('')
+      expect(entries[1].branchName).toBe('master')
+      expect(entries[1].message).toBe('Should get filtered')
+    })
+  })
+
+  describe('parseStashEntryMessage', () => {
+    it('parses entries created with a message', () => {
+      expect(parseStashEntryMessage('On main: my changes')).toEqual({
+        branchName: 'main',
+        message: 'my changes',
+      })
+    })
+
+    it('parses entries created without a message', () => {
+      expect(
+        parseStashEntryMessage('WIP on feature/x: 1a2b3c4 Fix things')
+      ).toEqual({ branchName: 'feature/x', message: '1a2b3c4 Fix things' })
+    })
+
+    it('leaves out the Desktop marker', () => {
+      const message = `On main: renamed ${createDesktopStashMessage('main')}`
+      expect(parseStashEntryMessage(message)).toEqual({
+        branchName: 'main',
+        message: 'renamed',
+      })
+    })
+  })
+
+  describe('createStashEntry', () => {
+    let repository: Repository
+    let readme: string
+
+    beforeEach(async () => {
+      repository = await setupEmptyRepository()
+      readme = path.join(repository.path, 'README.md')
+      await FSE.writeFile(readme, '')
+      await GitProcess.exec(['add', 'README.md'], repository.path)
+      await GitProcess.exec(['commit', '-m', 'initial commit'], repository.path)
+    })
+
+    it('only stashes the given files', async () => {
+      await FSE.appendFile(readme, 'just testing stuff')
+      await FSE.writeFile(path.join(repository.path, 'new.txt'), 'new file')
+
+      let status = await getStatusOrThrow(repository)
+      const untracked = status.workingDirectory.files.filter(
+        f => f.status.kind === AppFileStatusKind.Untracked
+      )
+
+      await createStashEntry(repository, 'my stash', untracked)
+
+      status = await getStatusOrThrow(repository)
+      const { files } = status.workingDirectory
+      expect(files).toHaveLength(1)
+      expect(files[0].path).toBe('README.md')
+
+      const { entries, desktopEntries } = await getStashes(repository)
+      expect(entries).toHaveLength(1)
+      expect(entries[0].message).toBe('my stash')
+      expect(desktopEntries).toHaveLength(0)
+    })
+  })
+
+  describe('applyStashEntry', () => {
+    let repository: Repository
+    let readme: string
+
+    beforeEach(async () => {
+      repository = await setupEmptyRepository()
+      readme = path.join(repository.path, 'README.md')
+      await FSE.writeFile(readme, '')
+      await GitProcess.exec(['add', 'README.md'], repository.path)
+      await GitProcess.exec(['commit', '-m', 'initial commit'], repository.path)
+    })
+
+    it('restores changes without dropping the entry', async () => {
+      await generateTestStashEntry(repository, 'master', false)
+      const [entry] = (await getStashes(repository)).entries
+
+      await applyStashEntry(repository, entry.stashSha)
+
+      const status = await getStatusOrThrow(repository)
+      expect(status.workingDirectory.files).toHaveLength(1)
+
+      const { entries } = await getStashes(repository)
+      expect(entries).toHaveLength(1)
+      expect(entries[0].stashSha).toBe(entry.stashSha)
+    })
+  })
+
+  describe('renameStashEntry', () => {
+    let repository: Repository
+    let readme: string
+
+    beforeEach(async () => {
+      repository = await setupEmptyRepository()
+      readme = path.join(repository.path, 'README.md')
+      await FSE.writeFile(readme, '')
+      await GitProcess.exec(['add', 'README.md'], repository.path)
+      await GitProcess.exec(['commit', '-m', 'initial commit'], repository.path)
+    })
+
+    it('changes the message of the entry', async () => {
+      await generateTestStashEntry(repository, 'master', false)
+      const [entry] = (await getStashes(repository)).entries
+
+      await renameStashEntry(repository, entry.stashSha, 'new name')
+
+      const { entries } = await getStashes(repository)
+      expect(entries).toHaveLength(1)
+      expect(entries[0].stashSha).toBe(entry.stashSha)
+      expect(entries[0].message).toBe('new name')
+    })
+
+    it('keeps the other entries when renaming an older entry', async () => {
+      await generateTestStashEntry(repository, 'master', false)
+      await generateTestStashEntry(repository, 'master', false)
+      const [newest, oldest] = (await getStashes(repository)).entries
+
+      await renameStashEntry(repository, oldest.stashSha, 'new name')
+
+      const { entries } = await getStashes(repository)
+      expect(entries.map(e => e.stashSha)).toEqual([
+        oldest.stashSha,
+        newest.stashSha,
+      ])
+      expect(entries[0].message).toBe('new name')
+    })
+
+    it('keeps entries created by Desktop associated with their branch', async () => {
+      await generateTestStashEntry(repository, 'master', true)
+      const [entry] = (await getStashes(repository)).desktopEntries
+
+      await renameStashEntry(repository, entry.stashSha, 'new name')
+
+      const { desktopEntries } = await getStashes(repository)
+      expect(desktopEntries).toHaveLength(1)
+      expect(desktopEntries[0].branchName).toBe('master')
+      expect(desktopEntries[0].message).toBe('new name')
+    })
   })
 
   describe('createDesktopStashEntry', () => {
@@ -195,6 +349,7 @@ describe('git/stash', () => {
         name: 'refs/stash@{0}',
         branchName: 'master',
         stashSha: 'xyz',
+        message: '',
         files: { kind: StashedChangesLoadStates.NotLoaded },
       }
 
@@ -213,6 +368,7 @@ describe('git/stash', () => {
         name: 'refs/stash@{4}',
         branchName: 'master',
         stashSha: 'xyz',
+        message: '',
         files: { kind: StashedChangesLoadStates.NotLoaded },
       }
       await generateTestStashEntry(repository, 'master', true)
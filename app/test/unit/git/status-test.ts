@@ -22,6 +22,7 @@ import { getStatus } from '../../../src/lib/git'
 import { isConflictedFile } from '../../../src/lib/status'
 import { setupLocalConfig } from '../../helpers/local-config'
 import { generateString } from '../../helpers/random-data'
+import { DiffSelectionType } from '../../../src/models/diff'
 
 const _temp = temp.track()
 const mkdir = _temp.mkdir
@@ -230,6 +231,28 @@ describe('git/status', () => {
         expect(file.status.kind).toBe(AppFileStatusKind.Modified)
       })
 
+      it('reflects how much of each file has been staged', async () => {
+        await FSE.writeFile(path.join(repository.path, 'README.md'), 'Hi\n')
+        await FSE.writeFile(path.join(repository.path, 'staged.md'), 'Hi\n')
+        await FSE.writeFile(path.join(repository.path, 'partial.md'), 'Hi\n')
+        await FSE.writeFile(path.join(repository.path, 'untracked.md'), 'Hi\n')
+        await GitProcess.exec(
+          ['add', 'staged.md', 'partial.md'],
+          repository.path
+        )
+        await FSE.appendFile(path.join(repository.path, 'partial.md'), 'Yo\n')
+
+        const status = await getStatusOrThrow(repository)
+        const staged = new Map(
+          status.workingDirectory.files.map(f => [f.path, f.staged])
+        )
+
+        expect(staged.get('README.md')).toBe(DiffSelectionType.None)
+        expect(staged.get('staged.md')).toBe(DiffSelectionType.All)
+        expect(staged.get('partial.md')).toBe(DiffSelectionType.Partial)
+        expect(staged.get('untracked.md')).toBe(DiffSelectionType.None)
+      })
+
       it('returns an empty array when there are no changes', async () => {
         const status = await getStatusOrThrow(repository)
         const files = status.workingDirectory.files
@@ -3,9 +3,13 @@ import { readFile, writeFile } from 'fs-extra'
 
 import { Repository } from '../../../src/models/repository'
 import {
+  deinitSubmodule,
+  getSubmodules,
   listSubmodules,
   resetSubmodulePaths,
+  updateSubmodules,
 } from '../../../src/lib/git/submodule'
+import { SubmoduleState } from '../../../src/models/submodule'
 import { checkoutBranch, getBranches } from '../../../src/lib/git'
 import { setupFixtureRepository } from '../../helpers/repositories'
 
@@ -90,4 +94,77 @@ describe('git/submodule', () => {
       expect(result).toBe('# submodule-test-case')
     })
   })
+
+  describe('getSubmodules', () => {
+    it('returns the submodule details', async () => {
+      const testRepoPath = await setupFixtureRepository('submodule-basic-setup')
+      const repository = new Repository(testRepoPath, -1, null, false)
+
+      const result = await getSubmodules(repository)
+      expect(result).toEqual([
+        {
+          path: 'foo/submodule',
+          url: 'https://github.com/shiftkey/submodule-test-case',
+          recordedSha: 'c59617b65080863c4ca72c1f191fa1b423b92223',
+          checkedOutSha: 'c59617b65080863c4ca72c1f191fa1b423b92223',
+          state: SubmoduleState.UpToDate,
+          isDirty: false,
+        },
+      ])
+    })
+
+    it('detects a different commit checked out', async () => {
+      const testRepoPath = await setupFixtureRepository('submodule-basic-setup')
+      const repository = new Repository(testRepoPath, -1, null, false)
+
+      const submodulePath = path.join(testRepoPath, 'foo', 'submodule')
+      const submoduleRepository = new Repository(submodulePath, -1, null, false)
+
+      const branches = await getBranches(
+        submoduleRepository,
+        'refs/remotes/origin/feature-branch'
+      )
+      await checkoutBranch(submoduleRepository, null, branches[0])
+
+      const [submodule] = await getSubmodules(repository)
+      expect(submodule.state).toBe(SubmoduleState.OutOfDate)
+      expect(submodule.recordedSha).toBe(
+        'c59617b65080863c4ca72c1f191fa1b423b92223'
+      )
+      expect(submodule.checkedOutSha).toBe(
+        '14425bb2a4ee361af7f789a81b971f8466ae521d'
+      )
+    })
+
+    it('detects changes in the submodule', async () => {
+      const testRepoPath = await setupFixtureRepository('submodule-basic-setup')
+      const repository = new Repository(testRepoPath, -1, null, false)
+
+      const filePath = path.join(testRepoPath, 'foo', 'submodule', 'README.md')
+      await writeFile(filePath, 'changed', { encoding: 'utf8' })
+
+      const [submodule] = await getSubmodules(repository)
+      expect(submodule.isDirty).toBe(true)
+    })
+  })
+
+  describe('deinitSubmodule', () => {
+    it('leaves the submodule uninitialized until updated', async () => {
+      const testRepoPath = await setupFixtureRepository('submodule-basic-setup')
+      const repository = new Repository(testRepoPath, -1, null, false)
+
+      await deinitSubmodule(repository, 'foo/submodule')
+
+      const [submodule] = await getSubmodules(repository)
+      expect(submodule.state).toBe(SubmoduleState.Uninitialized)
+      expect(submodule.checkedOutSha).toBeNull()
+      expect(submodule.recordedSha).toBe(
+        'c59617b65080863c4ca72c1f191fa1b423b92223'
+      )
+
+      await updateSubmodules(repository, null, ['foo/submodule'], true)
+      const [updated] = await getSubmodules(repository)
+      expect(updated.state).toBe(SubmoduleState.UpToDate)
+    })
+  })
 })
@@ -14,6 +14,10 @@ import {
   checkoutBranch,
   deleteTag,
   getBranches,
+  getTags,
+  getRemoteTags,
+  pushTag,
+  deleteRemoteTag,
 } from '../../../src/lib/git'
 import {
   setupFixtureRepository,
@@ -25,6 +29,7 @@ import { IRemote } from '../../../src/models/remote'
 import { findDefaultRemote } from '../../../src/lib/stores/helpers/find-default-remote'
 import { getStatusOrThrow } from '../../helpers/status'
 import { assertNonNullable } from '../../../src/lib/fatal-error'
+import { GitProcess } from 'dugite'
 
 describe('git/tag', () => {
   let repository: Repository
@@ -114,6 +119,37 @@ describe('git/tag', () => {
     })
   })
 
+  describe('getTags', () => {
+    it('returns the message and tagger of annotated tags', async () => {
+      const commit = await getCommit(repository, 'HEAD')
+      await createTag(repository, 'v1.0', 'HEAD', 'First release\n\nNotes')
+
+      const [tag] = await getTags(repository)
+
+      expect(tag.name).toBe('v1.0')
+      expect(tag.targetSha).toBe(commit!.sha)
+      expect(tag.isAnnotated).toBe(true)
+      expect(tag.message).toBe('First release\n\nNotes')
+      expect(tag.tagger).not.toBeNull()
+    })
+
+    it('returns lightweight tags without an annotation', async () => {
+      const commits = await getCommits(repository, 'HEAD', 2)
+      await GitProcess.exec(
+        ['tag', 'lightweight', commits[1].sha],
+        repository.path
+      )
+
+      const [tag] = await getTags(repository)
+
+      expect(tag.name).toBe('lightweight')
+      expect(tag.targetSha).toBe(commits[1].sha)
+      expect(tag.isAnnotated).toBe(false)
+      expect(tag.message).toBeNull()
+      expect(tag.tagger).toBeNull()
+    })
+  })
+
   describe('fetchTagsToPush', () => {
     let remoteRepository: Repository
     let originRemote: IRemote
@@ -191,4 +227,39 @@ describe('git/tag', () => {
       ).toEqual(['my-new-tag'])
     })
   })
+
+  describe('pushTag', () => {
+    let remoteRepository: Repository
+    let originRemote: IRemote
+
+    beforeEach(async () => {
+      const path = await setupFixtureRepository('test-repo-with-tags')
+      remoteRepository = new Repository(path, -1, null, false)
+      repository = await setupLocalForkOfRepository(remoteRepository)
+
+      const remotes = await getRemotes(repository)
+      originRemote = findDefaultRemote(remotes)!
+    })
+
+    it('pushes and deletes a single tag in the remote', async () => {
+      await createTag(repository, 'my-new-tag', 'HEAD')
+      const commit = await getCommit(repository, 'HEAD')
+
+      await pushTag(repository, account, originRemote, 'my-new-tag')
+
+      const remoteTags = await getRemoteTags(repository, account, originRemote)
+      expect(remoteTags.get('my-new-tag')).toBe(commit!.sha)
+      expect((await getAllTags(remoteRepository)).has('my-new-tag')).toBe(true)
+
+      await deleteRemoteTag(repository, account, originRemote, 'my-new-tag')
+
+      const tagsAfterDelete = await getRemoteTags(
+        repository,
+        account,
+        originRemote
+      )
+      expect(tagsAfterDelete.has('my-new-tag')).toBe(false)
+      expect((await getAllTags(repository)).has('my-new-tag')).toBe(true)
+    })
+  })
 })
@@ -0,0 +1,134 @@
+import * as Path from 'path'
+import * as FSE from 'fs-extra'
+
+import { Repository } from '../../../src/models/repository'
+import {
+  listWorkTrees,
+  addWorkTree,
+  removeWorkTree,
+  pruneWorkTrees,
+  parseWorkTreeList,
+} from '../../../src/lib/git/worktree'
+import { setupFixtureRepository } from '../../helpers/repositories'
+import { mkdirSync } from '../../helpers/temp'
+
+describe('git/worktree', () => {
+  let repository: Repository
+
+  beforeEach(async () => {
+    const testRepoPath = await setupFixtureRepository('test-repo')
+    repository = new Repository(testRepoPath, -1, null, false)
+  })
+
+  describe('parseWorkTreeList', () => {
+    it('skips the main working tree and bare entries', () => {
+      const output = [
+        'worktree /code/desktop',
+        'HEAD 1eaabe34fc6f486367a176207420378f587d3b48',
+        'branch refs/heads/development',
+        '',
+        'worktree /code/desktop.git',
+        'bare',
+        '',
+        'worktree /code/desktop-feature',
+        'HEAD 2de8c9e5e32b6ee0f04bd8b3c0c2b1ddf4a1e0b4',
+        'branch refs/heads/feature/work-trees',
+        '',
+        'worktree /code/desktop-detached',
+        'HEAD 3fa3b1c4d23f5a6d76e54c06e7b6f1f8e0b9c2a1',
+        'detached',
+        'locked on a usb drive',
+        'prunable gitdir file points to non-existent location',
+        '',
+      ].join('\n')
+
+      const workTrees = parseWorkTreeList(output)
+      expect(workTrees).toHaveLength(2)
+
+      expect(workTrees[0]).toEqual({
+        path: Path.normalize('/code/desktop-feature'),
+        head: '2de8c9e5e32b6ee0f04bd8b3c0c2b1ddf4a1e0b4',
+        branch: 'feature/work-trees',
+        isLocked: false,
+        isPrunable: false,
+      })
+
+      expect(workTrees[1]).toEqual({
+        path: Path.normalize('/code/desktop-detached'),
+        head: '3fa3b1c4d23f5a6d76e54c06e7b6f1f8e0b9c2a1',
+        branch: null,
+        isLocked: true,
+        isPrunable: true,
+      })
+    })
+  })
+
+  describe('listWorkTrees', () => {
+    it('returns nothing for a repository without linked work trees', async () => {
+      expect(await listWorkTrees(repository)).toEqual([])
+    })
+  })
+
+  describe('addWorkTree', () => {
+    it('checks out an existing commit in a new work tree', async () => {
+      const path = Path.join(mkdirSync('desktop-worktree-'), 'detached')
+      await addWorkTree(repository, path, 'HEAD')
+
+      const workTrees = await listWorkTrees(repository)
+      expect(workTrees).toHaveLength(1)
+      expect(workTrees[0].branch).toBeNull()
+      expect(await FSE.pathExists(Path.join(path, 'README.md'))).toBe(true)
+    })
+
+    it('creates a new branch in the new work tree', async () => {
+      const path = Path.join(mkdirSync('desktop-worktree-'), 'feature')
+      await addWorkTree(repository, path, 'HEAD', 'my-feature')
+
+      const workTrees = await listWorkTrees(repository)
+      expect(workTrees).toHaveLength(1)
+      expect(workTrees[0].branch).toBe('my-feature')
+    })
+
+    it('fails when the branch is checked out in the main working tree', async () => {
+      const path = Path.join(mkdirSync('desktop-worktree-'), 'master')
+      await expect(addWorkTree(repository, path, 'master')).rejects.toThrow()
+    })
+  })
+
+  describe('removeWorkTree', () => {
+    it('removes the work tree from disk', async () => {
+      const path = Path.join(mkdirSync('desktop-worktree-'), 'feature')
+      await addWorkTree(repository, path, 'HEAD', 'my-feature')
+      await removeWorkTree(repository, path)
+
+      expect(await listWorkTrees(repository)).toEqual([])
+      expect(await FSE.pathExists(path)).toBe(false)
+    })
+
+    it('refuses to remove a work tree with changes unless forced', async () => {
+      const path = Path.join(mkdirSync('desktop-worktree-'), 'feature')
+      await addWorkTree(repository, path, 'HEAD', 'my-feature')
+      await FSE.writeFile(Path.join(path, 'README.md'), 'changed')
+
+      await expect(removeWorkTree(repository, path)).rejects.toThrow()
+
+      await removeWorkTree(repository, path, true)
+      expect(await listWorkTrees(repository)).toEqual([])
+    })
+  })
+
+  describe('pruneWorkTrees', () => {
+    it('removes work trees whose directory is gone', async () => {
+      const path = Path.join(mkdirSync('desktop-worktree-'), 'feature')
+      await addWorkTree(repository, path, 'HEAD', 'my-feature')
+      await FSE.remove(path)
+
+      const workTrees = await listWorkTrees(repository)
+      expect(workTrees).toHaveLength(1)
+      expect(workTrees[0].isPrunable).toBe(true)
+
+      await pruneWorkTrees(repository)
+      expect(await listWorkTrees(repository)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,35 @@
+import { getGPGEnvironment, getGPGSignScriptPath } from '../../src/lib/gpg/gpg'
+
+describe('GPG', () => {
+  describe('getGPGEnvironment', () => {
+    const originalCount = process.env.GIT_CONFIG_COUNT
+
+    afterEach(() => {
+      if (originalCount === undefined) {
+        delete process.env.GIT_CONFIG_COUNT
+      } else {
+        process.env.GIT_CONFIG_COUNT = originalCount
+      }
+    })
+
+    it('sets the program Git signs commits with', () => {
+      delete process.env.GIT_CONFIG_COUNT
+
+      expect(getGPGEnvironment()).toEqual({
+        GIT_CONFIG_COUNT: '1',
+        GIT_CONFIG_KEY_0: 'gpg.openpgp.program',
+        GIT_CONFIG_VALUE_0: getGPGSignScriptPath(),
+      })
+    })
+
+    it('keeps the config entries passed through the environment', () => {
+      process.env.GIT_CONFIG_COUNT = '2'
+
+      expect(getGPGEnvironment()).toEqual({
+        GIT_CONFIG_COUNT: '3',
+        GIT_CONFIG_KEY_2: 'gpg.openpgp.program',
+        GIT_CONFIG_VALUE_2: getGPGSignScriptPath(),
+      })
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import {
+  appendClosesIssue,
+  getBranchNameForIssue,
+} from '../../src/lib/issue-branch'
+
+describe('issue branch', () => {
+  describe('getBranchNameForIssue', () => {
+    it('combines the number and the title', () => {
+      expect(getBranchNameForIssue(123, 'Fix the thing')).toBe(
+        '123-fix-the-thing'
+      )
+    })
+
+    it('replaces characters which are not allowed in branch names', () => {
+      expect(getBranchNameForIssue(7, 'Crash: "foo" ~ bar?')).toBe(
+        '7-crash-foo-bar'
+      )
+    })
+
+    it('shortens long titles without leaving a trailing dash', () => {
+      const name = getBranchNameForIssue(
+        1,
+        'A very long title for an issue which goes on and on and on'
+      )
+
+      expect(name).toBe('1-a-very-long-title-for-an-issue-which-goes-on-and')
+      expect(name.length).toBeLessThanOrEqual(50)
+    })
+  })
+
+  describe('appendClosesIssue', () => {
+    it('adds the closing line to an empty description', () => {
+      expect(appendClosesIssue(null, 12)).toBe('Closes #12')
+      expect(appendClosesIssue('  ', 12)).toBe('Closes #12')
+    })
+
+    it('adds the closing line after the description', () => {
+      expect(appendClosesIssue('Some details\n', 12)).toBe(
+        'Some details\n\nCloses #12'
+      )
+    })
+
+    it('leaves descriptions which already close the issue alone', () => {
+      expect(appendClosesIssue('Fixes #12', 12)).toBe('Fixes #12')
+      expect(appendClosesIssue('resolved: #12', 12)).toBe('resolved: #12')
+    })
+
+    it('does not mistake other issues for the issue', () => {
+      expect(appendClosesIssue('Closes #123', 12)).toBe(
+        'Closes #123\n\nCloses #12'
+      )
+    })
+  })
+})
@@ -3,6 +3,8 @@ import {
   IOpenRepositoryFromURLAction,
   IOpenRepositoryFromPathAction,
   IOAuthAction,
+  IShowRepositoryStatusAction,
+  ICompareBranchAction,
 } from '../../src/lib/parse-app-url'
 
 describe('parseAppURL', () => {
@@ -178,4 +180,62 @@ describe('parseAppURL', () => {
       expect(result.name).toBe('unknown')
     })
   })
+
+  describe('status', () => {
+    it('parses local paths', () => {
+      const path = __WIN32__
+        ? 'C:\\Users\\johnsmith\\repo'
+        : '/Users/johnsmith/repo'
+      const result = parseAppURL(
+        `x-github-client://status/${encodeURIComponent(path)}`
+      )
+      expect(result.name).toBe('show-repository-status')
+
+      const status = result as IShowRepositoryStatusAction
+      expect(status.path).toBe(path)
+    })
+
+    it('deals with not having a local path', () => {
+      const result = parseAppURL(`x-github-client://status/`)
+      expect(result.name).toBe('unknown')
+    })
+  })
+
+  describe('compare', () => {
+    it('parses the local path and branch', () => {
+      const path = '/Users/johnsmith/repo'
+      const result = parseAppURL(
+        `x-github-client://compare/${encodeURIComponent(
+          path
+        )}?branch=origin%2Ffeature`
+      )
+      expect(result.name).toBe('compare-branch')
+
+      const compare = result as ICompareBranchAction
+      expect(compare.path).toBe(path)
+      expect(compare.branch).toBe('origin/feature')
+    })
+
+    it('returns unknown without a branch', () => {
+      const result = parseAppURL(
+        `x-github-client://compare/${encodeURIComponent('/repo')}`
+      )
+      expect(result.name).toBe('unknown')
+    })
+
+    it('returns unknown for invalid branch name', () => {
+      const result = parseAppURL(
+        `x-github-client://compare/${encodeURIComponent('/repo')}?branch=%3C%3E`
+      )
+      expect(result.name).toBe('unknown')
+    })
+  })
+
+  describe('list', () => {
+    it('returns right name', () => {
+      expect(parseAppURL('x-github-client://list').name).toBe(
+        'show-repository-list'
+      )
+    })
+  })
 })
@@ -0,0 +1,219 @@
+import {
+  PullRequest,
+  PullRequestRef,
+  PullRequestReviewDecision,
+} from '../../src/models/pull-request'
+import { IAPIPullRequestReview } from '../../src/lib/api'
+import {
+  PullRequestDraftFilter,
+  PullRequestInvolvementFilter,
+  PullRequestSortOrder,
+  defaultPullRequestFilter,
+  filterPullRequests,
+  getPullRequestLabels,
+} from '../../src/lib/pull-request-filter'
+import { getPullRequestReviewDecision } from '../../src/lib/pull-request-review-decision'
+import { gitHubRepoFixture } from '../helpers/github-repo-builder'
+
+const gitHubRepository = gitHubRepoFixture({
+  owner: 'desktop',
+  name: 'desktop',
+})
+
+interface ISamplePullRequestOptions {
+  readonly author?: string
+  readonly base?: string
+  readonly draft?: boolean
+  readonly created?: Date
+  readonly updated?: Date
+  readonly labels?: ReadonlyArray<string>
+  readonly requestedReviewers?: ReadonlyArray<string>
+}
+
+function createSamplePullRequest(
+  prNumber: number,
+  options: ISamplePullRequestOptions = {}
+) {
+  const created = options.created ?? new Date(2022, 1, prNumber)
+
+  return new PullRequest(
+    created,
+    `pull request ${prNumber}`,
+    prNumber,
+    new PullRequestRef(`feature-${prNumber}`, 'deadbeef', gitHubRepository),
+    new PullRequestRef(options.base ?? 'main', 'deadbeef', gitHubRepository),
+    options.author ?? 'octocat',
+    options.draft ?? false,
+    '',
+    options.updated ?? created,
+    options.labels ?? [],
+    options.requestedReviewers ?? [],
+    null
+  )
+}
+
+function createReview(
+  login: string,
+  state: IAPIPullRequestReview['state'],
+  day: number
+): IAPIPullRequestReview {
+  return {
+    id: day,
+    user: {
+      id: 1,
+      login,
+      avatar_url: '',
+      html_url: '',
+      type: 'User',
+    },
+    body: '',
+    html_url: '',
+    submitted_at: new Date(2022, 1, day).toISOString(),
+    state,
+  }
+}
+
+const getNumbers = (prs: ReadonlyArray<PullRequest>) =>
+  prs.map(pr => pr.pullRequestNumber)
+
+describe('pull request filter', () => {
+  describe('filterPullRequests', () => {
+    it('sorts by creation date by default', () => {
+      const prs = [createSamplePullRequest(1), createSamplePullRequest(2)]
+
+      const result = filterPullRequests(prs, defaultPullRequestFilter, null)
+
+      expect(getNumbers(result)).toEqual([2, 1])
+    })
+
+    it('sorts by last update', () => {
+      const prs = [
+        createSamplePullRequest(1, { updated: new Date(2022, 5, 1) }),
+        createSamplePullRequest(2),
+      ]
+
+      const result = filterPullRequests(
+        prs,
+        {
+          ...defaultPullRequestFilter,
+          sortOrder: PullRequestSortOrder.Updated,
+        },
+        null
+      )
+
+      expect(getNumbers(result)).toEqual([1, 2])
+    })
+
+    it('filters by involvement of the user', () => {
+      const prs = [
+        createSamplePullRequest(1, { author: 'me' }),
+        createSamplePullRequest(2, { requestedReviewers: ['me'] }),
+        createSamplePullRequest(3),
+      ]
+
+      const mine = filterPullRequests(
+        prs,
+        {
+          ...defaultPullRequestFilter,
+          involvement: PullRequestInvolvementFilter.Mine,
+        },
+        'me'
+      )
+      const reviewRequested = filterPullRequests(
+        prs,
+        {
+          ...defaultPullRequestFilter,
+          involvement: PullRequestInvolvementFilter.ReviewRequested,
+        },
+        'me'
+      )
+      const withoutUser = filterPullRequests(
+        prs,
+        {
+          ...defaultPullRequestFilter,
+          involvement: PullRequestInvolvementFilter.Mine,
+        },
+        null
+      )
+
+      expect(getNumbers(mine)).toEqual([1])
+      expect(getNumbers(reviewRequested)).toEqual([2])
+      expect(withoutUser).toHaveLength(0)
+    })
+
+    it('filters by draft state, label and base branch', () => {
+      const prs = [
+        createSamplePullRequest(1, { draft: true, labels: ['bug'] }),
+        createSamplePullRequest(2, { labels: ['bug'], base: 'release' }),
+        createSamplePullRequest(3, { labels: ['bug'] }),
+      ]
+
+      const result = filterPullRequests(
+        prs,
+        {
+          ...defaultPullRequestFilter,
+          draft: PullRequestDraftFilter.Ready,
+          label: 'bug',
+          baseBranch: 'main',
+        },
+        null
+      )
+
+      expect(getNumbers(result)).toEqual([3])
+    })
+  })
+
+  describe('getPullRequestLabels', () => {
+    it('returns each label once sorted by name', () => {
+      const prs = [
+        createSamplePullRequest(1, { labels: ['enhancement', 'bug'] }),
+        createSamplePullRequest(2, { labels: ['bug'] }),
+      ]
+
+      expect(getPullRequestLabels(prs)).toEqual(['bug', 'enhancement'])
+    })
+  })
+
+  describe('getPullRequestReviewDecision', () => {
+    it('is null without reviews or requested reviewers', () => {
+      expect(getPullRequestReviewDecision([], [])).toBeNull()
+    })
+
+    it('requires a review when reviewers have been requested', () => {
+      expect(getPullRequestReviewDecision([], ['hubot'])).toBe(
+        PullRequestReviewDecision.ReviewRequired
+      )
+    })
+
+    it('uses the latest review of each reviewer', () => {
+      const reviews = [
+        createReview('hubot', 'APPROVED', 3),
+        createReview('hubot', 'CHANGES_REQUESTED', 1),
+        createReview('hubot', 'COMMENTED', 4),
+      ]
+
+      expect(getPullRequestReviewDecision(reviews, [])).toBe(
+        PullRequestReviewDecision.Approved
+      )
+    })
+
+    it('prefers requested changes over approvals', () => {
+      const reviews = [
+        createReview('hubot', 'APPROVED', 1),
+        createReview('octocat', 'CHANGES_REQUESTED', 2),
+      ]
+
+      expect(getPullRequestReviewDecision(reviews, [])).toBe(
+        PullRequestReviewDecision.ChangesRequested
+      )
+    })
+
+    it('ignores reviews of reviewers who have been asked to review again', () => {
+      const reviews = [createReview('octocat', 'CHANGES_REQUESTED', 1)]
+
+      expect(getPullRequestReviewDecision(reviews, ['octocat'])).toBe(
+        PullRequestReviewDecision.ReviewRequired
+      )
+    })
+  })
+})
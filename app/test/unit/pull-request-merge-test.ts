@@ -0,0 +1,225 @@
+import {
+  APICheckConclusion,
+  APICheckStatus,
+  IAPIPullRequest,
+  IAPIPullRequestReview,
+  IAPIPushControl,
+} from '../../src/lib/api'
+import { IRefCheck } from '../../src/lib/ci-checks/ci-checks'
+import {
+  getPullRequestMergeBlockers,
+  IPullRequestMergeInfo,
+} from '../../src/lib/pull-request-merge'
+
+const user = {
+  id: 1,
+  login: 'octocat',
+  avatar_url: '',
+  html_url: '',
+  type: 'User' as const,
+}
+
+function createPullRequest(
+  options: Partial<IAPIPullRequest> = {}
+): IAPIPullRequest {
+  return {
+    number: 1,
+    title: 'Fix the thing',
+    created_at: new Date(2022, 1, 1).toISOString(),
+    updated_at: new Date(2022, 1, 1).toISOString(),
+    user,
+    head: { ref: 'fix-the-thing', sha: 'deadbeef', repo: null },
+    base: { ref: 'main', sha: 'cafebabe', repo: null },
+    body: '',
+    state: 'open',
+    draft: false,
+    mergeable: true,
+    mergeable_state: 'clean',
+    ...options,
+  }
+}
+
+function createPushControl(
+  options: Partial<IAPIPushControl> = {}
+): IAPIPushControl {
+  return {
+    pattern: null,
+    required_signatures: false,
+    required_status_checks: [],
+    required_approving_review_count: 0,
+    required_linear_history: false,
+    allow_actor: true,
+    allow_deletions: true,
+    allow_force_pushes: true,
+    ...options,
+  }
+}
+
+function createReview(
+  login: string,
+  state: IAPIPullRequestReview['state']
+): IAPIPullRequestReview {
+  return {
+    id: 1,
+    user: { ...user, login },
+    body: '',
+    html_url: '',
+    submitted_at: new Date(2022, 1, 2).toISOString(),
+    state,
+  }
+}
+
+function createCheck(
+  name: string,
+  status: APICheckStatus,
+  conclusion: APICheckConclusion | null
+): IRefCheck {
+  return {
+    id: 1,
+    name,
+    description: '',
+    status,
+    conclusion,
+    appName: '',
+    htmlUrl: null,
+    checkSuiteId: null,
+  }
+}
+
+function createMergeInfo(
+  options: Partial<IPullRequestMergeInfo> = {}
+): IPullRequestMergeInfo {
+  return {
+    pullRequest: createPullRequest(),
+    pushControl: null,
+    reviews: [],
+    checks: [],
+    ...options,
+  }
+}
+
+describe('getPullRequestMergeBlockers', () => {
+  it('has no blockers for a clean pull request into an unprotected branch', () => {
+    expect(getPullRequestMergeBlockers(createMergeInfo(), 'merge')).toEqual([])
+  })
+
+  it('is blocked for drafts and conflicts', () => {
+    const info = createMergeInfo({
+      pullRequest: createPullRequest({
+        draft: true,
+        mergeable: false,
+        mergeable_state: 'dirty',
+      }),
+    })
+
+    expect(getPullRequestMergeBlockers(info, 'merge')).toEqual([
+      'The pull request is still a draft.',
+      'The pull request has conflicts with main that must be resolved.',
+    ])
+  })
+
+  it('is blocked when the user is not allowed to push to the base branch', () => {
+    const info = createMergeInfo({
+      pushControl: createPushControl({ allow_actor: false }),
+    })
+
+    expect(getPullRequestMergeBlockers(info, 'merge')).toEqual([
+      "You aren't allowed to push to main.",
+    ])
+  })
+
+  it('counts the approvals required by the base branch', () => {
+    const pushControl = createPushControl({
+      required_approving_review_count: 2,
+    })
+    const approved = createMergeInfo({
+      pushControl,
+      reviews: [
+        createReview('hubot', 'APPROVED'),
+        createReview('monalisa', 'APPROVED'),
+      ],
+    })
+    const notApproved = createMergeInfo({
+      pushControl,
+      reviews: [createReview('hubot', 'APPROVED')],
+    })
+
+    expect(getPullRequestMergeBlockers(approved, 'merge')).toEqual([])
+    expect(getPullRequestMergeBlockers(notApproved, 'merge')).toEqual([
+      '2 approving reviews are required, but the pull request has 1.',
+    ])
+  })
+
+  it('is blocked by requested changes when reviews are required', () => {
+    const info = createMergeInfo({
+      pushControl: createPushControl({ required_approving_review_count: 1 }),
+      reviews: [
+        createReview('hubot', 'APPROVED'),
+        createReview('monalisa', 'CHANGES_REQUESTED'),
+      ],
+    })
+
+    expect(getPullRequestMergeBlockers(info, 'merge')).toEqual([
+      'A reviewer has requested changes.',
+    ])
+  })
+
+  it('ignores pending reviews, which have no submission date', () => {
+    const info = createMergeInfo({
+      pushControl: createPushControl({ required_approving_review_count: 1 }),
+      reviews: [
+        createReview('hubot', 'APPROVED'),
+        { ...createReview('octocat', 'PENDING'), submitted_at: undefined },
+      ],
+    })
+
+    expect(getPullRequestMergeBlockers(info, 'merge')).toEqual([])
+  })
+
+  it('is blocked by required checks that are missing, pending or failing', () => {
+    const info = createMergeInfo({
+      pushControl: createPushControl({
+        required_status_checks: ['build', 'lint', 'test', 'docs'],
+      }),
+      checks: [
+        createCheck(
+          'build',
+          APICheckStatus.Completed,
+          APICheckConclusion.Success
+        ),
+        createCheck('lint', APICheckStatus.InProgress, null),
+        createCheck(
+          'test',
+          APICheckStatus.Completed,
+          APICheckConclusion.Failure
+        ),
+      ],
+    })
+
+    expect(getPullRequestMergeBlockers(info, 'merge')).toEqual([
+      "The required check lint hasn't completed yet.",
+      "The required check test hasn't passed.",
+      "The required check docs hasn't completed yet.",
+    ])
+  })
+
+  it('only allows squashing or rebasing when a linear history is required', () => {
+    const info = createMergeInfo({
+      pushControl: createPushControl({ required_linear_history: true }),
+    })
+
+    expect(getPullRequestMergeBlockers(info, 'merge')).toHaveLength(1)
+    expect(getPullRequestMergeBlockers(info, 'squash')).toEqual([])
+    expect(getPullRequestMergeBlockers(info, 'rebase')).toEqual([])
+  })
+
+  it('falls back to the state GitHub reports when it is blocked for other reasons', () => {
+    const info = createMergeInfo({
+      pullRequest: createPullRequest({ mergeable_state: 'blocked' }),
+    })
+
+    expect(getPullRequestMergeBlockers(info, 'merge')).toEqual([
+      'Merging is blocked by the rules of main.',
+    ])
+  })
+})
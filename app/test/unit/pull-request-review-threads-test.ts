@@ -0,0 +1,160 @@
+import * as Path from 'path'
+import * as FSE from 'fs-extra'
+import { GitProcess } from 'dugite'
+import { setupEmptyRepository } from '../helpers/repositories'
+import { makeCommit } from '../helpers/repository-scaffolding'
+import { IAPIPullRequestReviewComment } from '../../src/lib/api'
+import {
+  getPullRequestReviewThreads,
+  getReviewThreadsForFile,
+  mapLineThroughHunks,
+} from '../../src/lib/pull-request-review-threads'
+import {
+  DiffHunk,
+  DiffHunkExpansionType,
+  DiffHunkHeader,
+} from '../../src/models/diff'
+
+function createComment(
+  id: number,
+  options: Partial<IAPIPullRequestReviewComment> = {}
+): IAPIPullRequestReviewComment {
+  return {
+    id,
+    path: 'README.md',
+    line: 1,
+    side: 'RIGHT',
+    commit_id: 'deadbeef',
+    body: `comment ${id}`,
+    user: {
+      id: 1,
+      login: 'octocat',
+      avatar_url: '',
+      html_url: '',
+      type: 'User',
+    },
+    created_at: new Date(2022, 1, id).toISOString(),
+    html_url: `https://github.com/desktop/desktop/pull/1#discussion_r${id}`,
+    ...options,
+  }
+}
+
+function createHunk(
+  oldStartLine: number,
+  oldLineCount: number,
+  newStartLine: number,
+  newLineCount: number
+) {
+  return new DiffHunk(
+    new DiffHunkHeader(oldStartLine, oldLineCount, newStartLine, newLineCount),
+    [],
+    0,
+    0,
+    DiffHunkExpansionType.None
+  )
+}
+
+describe('pull request review threads', () => {
+  describe('getPullRequestReviewThreads', () => {
+    it('groups replies with the comment they reply to', () => {
+      const threads = getPullRequestReviewThreads([
+        createComment(3, { in_reply_to_id: 1 }),
+        createComment(1),
+        createComment(2, { line: 5 }),
+      ])
+
+      expect(threads).toHaveLength(2)
+      expect(threads[0].id).toBe(1)
+      expect(threads[0].comments.map(c => c.id)).toEqual([1, 3])
+      expect(threads[1].line).toBe(5)
+      expect(threads[1].comments.map(c => c.id)).toEqual([2])
+    })
+
+    it('leaves out outdated comments and comments on the old version', () => {
+      const threads = getPullRequestReviewThreads([
+        createComment(1, { line: null }),
+        createComment(2, { side: 'LEFT' }),
+        createComment(3, { in_reply_to_id: 1 }),
+      ])
+
+      expect(threads).toHaveLength(0)
+    })
+  })
+
+  describe('mapLineThroughHunks', () => {
+    it('moves lines after added and removed lines', () => {
+      // Two lines inserted after line 2, and line 10 removed
+      const hunks = [createHunk(2, 0, 3, 2), createHunk(10, 1, 11, 0)]
+
+      expect(mapLineThroughHunks(1, hunks)).toBe(1)
+      expect(mapLineThroughHunks(2, hunks)).toBe(2)
+      expect(mapLineThroughHunks(3, hunks)).toBe(5)
+      expect(mapLineThroughHunks(9, hunks)).toBe(11)
+      expect(mapLineThroughHunks(11, hunks)).toBe(12)
+    })
+
+    it('returns null for changed lines', () => {
+      const hunks = [createHunk(4, 2, 4, 3)]
+
+      expect(mapLineThroughHunks(3, hunks)).toBe(3)
+      expect(mapLineThroughHunks(4, hunks)).toBeNull()
+      expect(mapLineThroughHunks(5, hunks)).toBeNull()
+      expect(mapLineThroughHunks(6, hunks)).toBe(7)
+    })
+  })
+
+  describe('getReviewThreadsForFile', () => {
+    it('follows lines moved by changes in the working directory', async () => {
+      const repository = await setupEmptyRepository()
+      await makeCommit(repository, {
+        entries: [{ path: 'README.md', contents: 'one\ntwo\nthree\nfour\n' }],
+      })
+
+      const sha = (
+        await GitProcess.exec(['rev-parse', 'HEAD'], repository.path)
+      ).stdout.trim()
+
+      const threads = getPullRequestReviewThreads([
+        createComment(1, { line: 3, commit_id: sha }),
+        createComment(2, { line: 2, commit_id: sha }),
+      ])
+
+      await FSE.writeFile(
+        Path.join(repository.path, 'README.md'),
+        'zero\none\nTWO\nthree\nfour\n'
+      )
+
+      const mapped = await getReviewThreadsForFile(
+        repository,
+        threads,
+        'README.md',
+        null
+      )
+
+      // The commented line two was changed, and three moved down by one
+      expect(mapped).toHaveLength(1)
+      expect(mapped[0].id).toBe(1)
+      expect(mapped[0].line).toBe(4)
+    })
+
+    it('leaves out threads on commits which are not in the repository', async () => {
+      const repository = await setupEmptyRepository()
+      await makeCommit(repository, {
+        entries: [{ path: 'README.md', contents: 'one\n' }],
+      })
+
+      const threads = getPullRequestReviewThreads([
+        createComment(1, { commit_id: '0'.repeat(40) }),
+      ])
+
+      const mapped = await getReviewThreadsForFile(
+        repository,
+        threads,
+        'README.md',
+        null
+      )
+
+      expect(mapped).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,41 @@
+import * as Path from 'path'
+import * as FSE from 'fs-extra'
+import { setupEmptyRepository } from '../helpers/repositories'
+import { getPullRequestTemplate } from '../../src/lib/pull-request-template'
+
+describe('getPullRequestTemplate', () => {
+  it('returns null when the repository has no template', async () => {
+    const repository = await setupEmptyRepository()
+
+    expect(await getPullRequestTemplate(repository)).toBeNull()
+  })
+
+  it('reads the template from the .github directory', async () => {
+    const repository = await setupEmptyRepository()
+    const template = '## Description\n\n## Test plan\n'
+
+    await FSE.mkdirp(Path.join(repository.path, '.github'))
+    await FSE.writeFile(
+      Path.join(repository.path, '.github', 'pull_request_template.md'),
+      template
+    )
+
+    expect(await getPullRequestTemplate(repository)).toBe(template)
+  })
+
+  it('prefers the template in the .github directory', async () => {
+    const repository = await setupEmptyRepository()
+
+    await FSE.mkdirp(Path.join(repository.path, '.github'))
+    await FSE.writeFile(
+      Path.join(repository.path, '.github', 'pull_request_template.md'),
+      'github'
+    )
+    await FSE.writeFile(
+      Path.join(repository.path, 'pull_request_template.md'),
+      'root'
+    )
+
+    expect(await getPullRequestTemplate(repository)).toBe('github')
+  })
+})
@@ -112,4 +112,40 @@ describe('RepositoriesDatabase', () => {
 
     await db.delete()
   })
+
+  it('migrates from version 9 to 10 by adding repository groups', async () => {
+    const dbName = 'TestRepositoriesDatabase'
+    let db = new RepositoriesDatabase(dbName, 9)
+    await db.delete()
+    await db.open()
+
+    const repoId = await db.repositories.add({
+      path: '/some/path',
+      gitHubRepositoryID: null,
+      missing: false,
+      lastStashCheckDate: null,
+      alias: null,
+    })
+
+    db.close()
+
+    db = new RepositoriesDatabase(dbName, 10)
+    await db.open()
+
+    const migratedRepo = await db.repositories.get(repoId)
+    expect(migratedRepo?.groupID).toBeNull()
+    expect(migratedRepo?.isPinned).toBe(false)
+
+    const groupId = await db.repositoryGroups.add({
+      name: 'payments',
+      isCollapsed: false,
+    })
+    await db.repositories.update(repoId, { groupID: groupId })
+
+    expect(
+      await db.repositories.where('groupID').equals(groupId).count()
+    ).toEqual(1)
+
+    await db.delete()
+  })
 })
@@ -1,8 +1,15 @@
 import {
+  getCustomGroupID,
+  getCustomGroupIdentifier,
   groupRepositories,
   KnownRepositoryGroup,
+  makePinnedRepositoriesGroup,
 } from '../../src/ui/repositories-list/group-repositories'
-import { Repository, ILocalRepositoryState } from '../../src/models/repository'
+import {
+  Repository,
+  ILocalRepositoryState,
+  LinkedWorkTree,
+} from '../../src/models/repository'
 import { CloningRepository } from '../../src/models/cloning-repository'
 import { gitHubRepoFixture } from '../helpers/github-repo-builder'
 
@@ -149,4 +156,128 @@ describe('repository list grouping', () => {
     expect(grouped[2].items[1].text[0]).toBe('enterprise-repo')
     expect(grouped[2].items[1].needsDisambiguation).toBe(true)
   })
+
+  it('lists linked work trees right below their main repository', () => {
+    const main = new Repository(
+      'main',
+      1,
+      gitHubRepoFixture({ owner: 'me', name: 'main' }),
+      false
+    )
+    const other = new Repository(
+      'other',
+      2,
+      gitHubRepoFixture({ owner: 'me', name: 'other' }),
+      false
+    )
+    const workTree = new Repository('main-feature', 3, null, false)
+
+    const workTreesLookup = new Map<number, ReadonlyArray<LinkedWorkTree>>([
+      [
+        main.id,
+        [
+          {
+            path: 'main-feature',
+            head: 'deadbeef',
+            branch: 'feature',
+            isLocked: false,
+            isPrunable: false,
+          },
+        ],
+      ],
+    ])
+
+    const grouped = groupRepositories(
+      [other, workTree, main],
+      cache,
+      workTreesLookup
+    )
+    expect(grouped).toHaveLength(1)
+
+    expect(grouped[0].identifier).toBe('me')
+    const items = grouped[0].items
+    expect(items).toHaveLength(3)
+
+    expect(items[0].repository.path).toBe('main')
+    expect(items[0].mainRepository).toBeNull()
+
+    expect(items[1].repository.path).toBe('main-feature')
+    expect(items[1].mainRepository).toBe(main)
+
+    expect(items[2].repository.path).toBe('other')
+    expect(items[2].mainRepository).toBeNull()
+  })
+
+  it('lists repositories moved into a group in that group', () => {
+    const payments = { id: 1, name: 'payments', isCollapsed: true }
+    const infra = { id: 2, name: 'Infra', isCollapsed: false }
+
+    const ledger = new Repository(
+      'ledger',
+      1,
+      gitHubRepoFixture({ owner: 'me', name: 'ledger' }),
+      false,
+      null,
+      {},
+      false,
+      payments.id
+    )
+    const terraform = new Repository(
+      'terraform',
+      2,
+      null,
+      false,
+      null,
+      {},
+      false,
+      infra.id
+    )
+    const deleted = new Repository(
+      'deleted',
+      3,
+      null,
+      false,
+      null,
+      {},
+      false,
+      3
+    )
+
+    const grouped = groupRepositories(
+      [ledger, terraform, deleted],
+      cache,
+      new Map(),
+      [payments, infra]
+    )
+    expect(grouped).toHaveLength(3)
+
+    expect(grouped[0].identifier).toBe(getCustomGroupIdentifier(infra))
+    expect(grouped[0].items.map(i => i.repository)).toEqual([terraform])
+    expect(grouped[0].filterText).toBe('Infra')
+    expect(grouped[0].isCollapsed).toBe(false)
+
+    expect(grouped[1].identifier).toBe(getCustomGroupIdentifier(payments))
+    expect(grouped[1].items.map(i => i.repository)).toEqual([ledger])
+    expect(grouped[1].isCollapsed).toBe(true)
+    expect(getCustomGroupID(grouped[1].identifier)).toBe(payments.id)
+
+    // A repository in a group which no longer exists is listed in its
+    // default group.
+    expect(grouped[2].identifier).toBe(KnownRepositoryGroup.NonGitHub)
+    expect(grouped[2].items.map(i => i.repository)).toEqual([deleted])
+    expect(getCustomGroupID(grouped[2].identifier)).toBeNull()
+  })
+
+  it('creates a group of pinned repositories', () => {
+    const pinned = (path: string, id: number) =>
+      new Repository(path, id, null, false, null, {}, false, null, true)
+
+    const group = makePinnedRepositoriesGroup(
+      [pinned('b', 1), new Repository('a', 2, null, false), pinned('a', 3)],
+      cache
+    )
+
+    expect(group.identifier).toBe(KnownRepositoryGroup.Pinned)
+    expect(group.items.map(i => i.repository.id)).toEqual([3, 1])
+  })
 })
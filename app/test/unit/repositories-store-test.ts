@@ -33,6 +33,38 @@ describe('RepositoriesStore', () => {
     })
   })
 
+  describe('repository groups', () => {
+    it('moves a repository into a group', async () => {
+      const repo = await repositoriesStore.addRepository('/some/cool/path')
+      const group = await repositoriesStore.addRepositoryGroup('payments')
+
+      await repositoriesStore.updateRepositoryGroup(repo, group.id)
+
+      const [updated] = await repositoriesStore.getAll()
+      expect(updated.groupID).toBe(group.id)
+    })
+
+    it('reuses a group with the same name', async () => {
+      const first = await repositoriesStore.addRepositoryGroup('infra')
+      const second = await repositoriesStore.addRepositoryGroup('infra')
+
+      expect(second.id).toBe(first.id)
+      expect(await repositoriesStore.loadRepositoryGroups()).toHaveLength(1)
+    })
+
+    it('moves repositories out of a removed group', async () => {
+      const repo = await repositoriesStore.addRepository('/some/cool/path')
+      const group = await repositoriesStore.addRepositoryGroup('payments')
+      await repositoriesStore.updateRepositoryGroup(repo, group.id)
+
+      await repositoriesStore.removeRepositoryGroup(group)
+
+      const [updated] = await repositoriesStore.getAll()
+      expect(updated.groupID).toBeNull()
+      expect(await repositoriesStore.loadRepositoryGroups()).toHaveLength(0)
+    })
+  })
+
   describe('updating a GitHub repository', () => {
     const apiRepo: IAPIFullRepository = {
       clone_url: 'https://github.com/my-user/my-repo',
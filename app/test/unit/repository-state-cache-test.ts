@@ -30,7 +30,11 @@ function createSamplePullRequest(gitHubRepository: GitHubRepository) {
     },
     'shiftkey',
     false,
-    'something body'
+    'something body',
+    new Date(),
+    [],
+    [],
+    null
   )
 }
 
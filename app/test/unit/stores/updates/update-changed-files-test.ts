@@ -100,6 +100,53 @@ describe('updateChangedFiles', () => {
       )
     })
 
+    it('uses the staged state of each file when using the Git index', () => {
+      const prevState = createState({
+        workingDirectory: oldWorkingDirectory,
+      })
+
+      const stagedFiles = [
+        new WorkingDirectoryFileChange(
+          'README.md',
+          { kind: AppFileStatusKind.Modified },
+          allSelected,
+          DiffSelectionType.None
+        ),
+        new WorkingDirectoryFileChange(
+          'app/package.json',
+          { kind: AppFileStatusKind.Modified },
+          allSelected,
+          DiffSelectionType.All
+        ),
+        new WorkingDirectoryFileChange(
+          'app/index.ts',
+          { kind: AppFileStatusKind.New },
+          allSelected,
+          DiffSelectionType.Partial
+        ),
+      ]
+
+      const status = createStatus({
+        workingDirectory: WorkingDirectoryStatus.fromFiles(stagedFiles),
+      })
+
+      const { workingDirectory } = updateChangedFiles(
+        prevState,
+        status,
+        false,
+        true
+      )
+
+      const includedTypes = new Map(
+        workingDirectory.files.map(f => [f.path, f.getIncludedType()])
+      )
+
+      expect(includedTypes.get('README.md')).toBe(DiffSelectionType.None)
+      expect(includedTypes.get('app/package.json')).toBe(DiffSelectionType.All)
+      expect(includedTypes.get('app/index.ts')).toBe(DiffSelectionType.Partial)
+      expect(workingDirectory.includeAll).toBeNull()
+    })
+
     it('does not return same working directory object', () => {
       const oldWorkingDirectory = WorkingDirectoryStatus.fromFiles(files)
       const prevState = createState({
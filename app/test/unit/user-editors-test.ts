@@ -0,0 +1,73 @@
+import { parseUserEditors } from '../../src/lib/editors/user-editors'
+import { expandEditorArguments } from '../../src/lib/editors/launch'
+
+describe('parseUserEditors', () => {
+  it('parses editors with argument templates', () => {
+    const editors = parseUserEditors(
+      JSON.stringify({
+        editors: [
+          {
+            name: 'Helix',
+            paths: ['/usr/local/bin/hx', '/usr/bin/hx'],
+            lineArguments: ['{file}:{line}'],
+          },
+          { name: 'My script', paths: ['/opt/edit.sh'], usesShell: true },
+        ],
+      })
+    )
+
+    expect(editors).toHaveLength(2)
+    expect(editors[0].name).toBe('Helix')
+    expect(editors[0].paths).toEqual(['/usr/local/bin/hx', '/usr/bin/hx'])
+    expect(editors[0].lineArguments).toEqual(['{file}:{line}'])
+    expect(editors[1].usesShell).toBeTrue()
+  })
+
+  it('skips invalid editors', () => {
+    const editors = parseUserEditors(
+      JSON.stringify({
+        editors: [
+          { name: 'Zed', paths: ['/usr/bin/zed'] },
+          { name: 'No paths' },
+          { name: '', paths: ['/usr/bin/nameless'] },
+          { name: 'Bad arguments', paths: ['/usr/bin/bad'], arguments: '-w' },
+        ],
+      })
+    )
+
+    expect(editors.map(e => e.name)).toEqual(['Zed'])
+  })
+
+  it('returns no editors when the list is missing', () => {
+    expect(parseUserEditors('{}')).toEqual([])
+  })
+
+  it('throws on invalid JSON', () => {
+    expect(() => parseUserEditors('{ editors: ')).toThrow()
+  })
+})
+
+describe('expandEditorArguments', () => {
+  it('replaces the file and line placeholders', () => {
+    expect(
+      expandEditorArguments(['--goto', '{file}:{line}'], '/repo/a $&.ts', {
+        line: 12,
+      })
+    ).toEqual(['--goto', '/repo/a $&.ts:12'])
+  })
+
+  it('replaces the column placeholder', () => {
+    expect(
+      expandEditorArguments(['{file}:{line}:{column}'], '/repo/a.ts', {
+        line: 3,
+        column: 7,
+      })
+    ).toEqual(['/repo/a.ts:3:7'])
+  })
+
+  it('moves to the first line and column when no position is given', () => {
+    expect(
+      expandEditorArguments(['+{line}:{column}', '{file}'], '/repo/a.ts')
+    ).toEqual(['+1:1', '/repo/a.ts'])
+  })
+})